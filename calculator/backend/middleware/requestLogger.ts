@@ -1,7 +1,18 @@
 /**
  * HTTP 요청 로깅 미들웨어
  * 메서드, URL, 상태코드, 응답시간 기록
+ * 요청마다 requestId를 붙여 감사 기록과 로그를 이어 볼 수 있게 한다.
  */
+const { randomUUID } = require('crypto') as typeof import('crypto');
+
+// 프록시가 넘겨준 요청 ID는 형식이 맞을 때만 이어 쓴다
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+function resolveRequestId(req: import("express").Request) {
+  const raw = req.headers["x-request-id"];
+  const incoming = String(Array.isArray(raw) ? raw[0] : raw || "").trim();
+  return REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
 
 const requestLogger = (
   req: import("express").Request,
@@ -9,6 +20,9 @@ const requestLogger = (
   next: import("express").NextFunction
 ): void => {
   const start = Date.now();
+  const requestId = resolveRequestId(req);
+  req.requestId = requestId;
+  res.setHeader("X-Request-Id", requestId);
 
   res.on("finish", () => {
     const duration = Date.now() - start;
@@ -17,9 +31,9 @@ const requestLogger = (
     const url = req.originalUrl;
 
     if (status >= 400) {
-      console.warn(`[HTTP] ${method} ${url} ${status} ${duration}ms`);
+      console.warn(`[HTTP] ${method} ${url} ${status} ${duration}ms ${requestId}`);
     } else {
-      console.log(`[HTTP] ${method} ${url} ${status} ${duration}ms`);
+      console.log(`[HTTP] ${method} ${url} ${status} ${duration}ms ${requestId}`);
     }
   });
 
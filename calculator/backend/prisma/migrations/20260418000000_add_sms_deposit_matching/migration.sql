@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "sms_deposits" ADD COLUMN "registrationExtensionId" UUID;
+ALTER TABLE "sms_deposits" ADD COLUMN "matchScore" DOUBLE PRECISION;
+ALTER TABLE "sms_deposits" ADD COLUMN "matchedAt" TIMESTAMPTZ(3);
+
+-- CreateIndex
+CREATE INDEX "sms_deposits_registrationId_idx" ON "sms_deposits"("registrationId");
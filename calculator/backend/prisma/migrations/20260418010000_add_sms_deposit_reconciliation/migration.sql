@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "sms_deposits" ADD COLUMN "memo" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "sms_deposits" ADD COLUMN "handledBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "sms_deposit_allocations" (
+    "id" UUID NOT NULL,
+    "depositId" UUID NOT NULL,
+    "registrationId" UUID NOT NULL,
+    "registrationExtensionId" UUID,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sms_deposit_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sms_deposit_allocations_depositId_idx" ON "sms_deposit_allocations"("depositId");
+CREATE INDEX "sms_deposit_allocations_registrationId_idx" ON "sms_deposit_allocations"("registrationId");
+
+-- AddForeignKey
+ALTER TABLE "sms_deposit_allocations" ADD CONSTRAINT "sms_deposit_allocations_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "sms_deposits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "sms_deposits" ADD COLUMN "bank" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "sms_unparsed_messages" (
+    "id" UUID NOT NULL,
+    "rawBody" TEXT NOT NULL,
+    "sender" TEXT NOT NULL DEFAULT '',
+    "bank" TEXT NOT NULL DEFAULT '',
+    "dedupeHash" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "depositId" UUID,
+    "handledBy" TEXT,
+    "receivedAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sms_unparsed_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sms_unparsed_messages_status_idx" ON "sms_unparsed_messages"("status");
+CREATE INDEX "sms_unparsed_messages_receivedAt_idx" ON "sms_unparsed_messages"("receivedAt");
+CREATE UNIQUE INDEX "sms_unparsed_messages_dedupeHash_key" ON "sms_unparsed_messages"("dedupeHash");
+
+-- Backfill: 기존 입금은 모두 신한 파서로 저장됨
+UPDATE "sms_deposits" SET "bank" = 'shinhan' WHERE "bank" = '';
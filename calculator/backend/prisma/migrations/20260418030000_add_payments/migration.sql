@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" UUID NOT NULL,
+    "registrationId" UUID NOT NULL,
+    "registrationExtensionId" UUID,
+    "depositId" UUID,
+    "amount" INTEGER NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'transfer',
+    "paidAt" TIMESTAMPTZ(3) NOT NULL,
+    "memo" TEXT NOT NULL DEFAULT '',
+    "recordedBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_registrationId_idx" ON "payments"("registrationId");
+CREATE INDEX "payments_depositId_idx" ON "payments"("depositId");
+CREATE INDEX "payments_paidAt_idx" ON "payments"("paidAt");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "registrations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: 이미 연결된 입금/분할 내역을 수납 기록으로 옮긴다
+INSERT INTO "payments" ("id", "registrationId", "registrationExtensionId", "depositId", "amount", "method", "paidAt", "recordedBy", "updatedAt")
+SELECT gen_random_uuid(), d."registrationId", d."registrationExtensionId", d."id", d."amount", 'transfer', d."receivedAt", COALESCE(d."handledBy", ''), CURRENT_TIMESTAMP
+FROM "sms_deposits" d
+JOIN "registrations" r ON r."id" = d."registrationId"
+WHERE d."matchStatus" = 'matched';
+
+INSERT INTO "payments" ("id", "registrationId", "registrationExtensionId", "depositId", "amount", "method", "paidAt", "recordedBy", "updatedAt")
+SELECT gen_random_uuid(), a."registrationId", a."registrationExtensionId", d."id", a."amount", 'transfer', d."receivedAt", COALESCE(d."handledBy", ''), CURRENT_TIMESTAMP
+FROM "sms_deposit_allocations" a
+JOIN "sms_deposits" d ON d."id" = a."depositId"
+JOIN "registrations" r ON r."id" = a."registrationId"
+WHERE d."matchStatus" = 'split';
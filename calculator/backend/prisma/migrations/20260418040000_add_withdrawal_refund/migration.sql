@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "registrations" ADD COLUMN "retainedFee" INTEGER;
+ALTER TABLE "registrations" ADD COLUMN "refundAmount" INTEGER;
+ALTER TABLE "registrations" ADD COLUMN "refundReason" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'payment';
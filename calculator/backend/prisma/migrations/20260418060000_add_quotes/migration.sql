@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "quotes" (
+    "id" UUID NOT NULL,
+    "studentName" TEXT NOT NULL,
+    "courseConfigSetName" TEXT,
+    "items" JSONB NOT NULL,
+    "totalFee" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "memo" TEXT NOT NULL DEFAULT '',
+    "expiresAt" TIMESTAMPTZ(3) NOT NULL,
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "convertedAt" TIMESTAMPTZ(3),
+    "convertedBy" TEXT,
+    "registrationIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "quotes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "quotes_studentName_idx" ON "quotes"("studentName");
+CREATE INDEX "quotes_createdAt_idx" ON "quotes"("createdAt");
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "registrations" ADD COLUMN "appliedDiscountRuleIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "discount_rules" (
+    "id" UUID NOT NULL,
+    "courseConfigSetName" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "minCourses" INTEGER,
+    "deadline" DATE,
+    "couponCode" TEXT,
+    "courseKeys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "discount_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "discount_rules_courseConfigSetName_sortOrder_idx" ON "discount_rules"("courseConfigSetName", "sortOrder");
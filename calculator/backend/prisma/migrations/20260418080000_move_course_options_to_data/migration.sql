@@ -0,0 +1,57 @@
+-- 계산기 코드에 박혀 있던 과목별 옵션을 과목 설정(courseInfo)으로 옮긴다.
+--   SAT 1500+/1400+/브릿지: 수학 제외 옵션 (mathExcludedFee가 없으면 주당 120,000원 차감)
+--   SAT 1500+/1400+/브릿지, TOEFL L1/L2, Algebra 2: 수업 형태 필수
+--   DRW 미주/A/B: 레벨(Lv.1~4) 필수 + 레벨을 넣은 표시 이름
+CREATE FUNCTION pg_temp.migrate_course_options(data jsonb) RETURNS jsonb AS $$
+DECLARE
+  course_key text;
+  info jsonb;
+  level_choices jsonb := '[{"value":"Lv.1"},{"value":"Lv.2"},{"value":"Lv.3"},{"value":"Lv.4"}]'::jsonb;
+BEGIN
+  IF jsonb_typeof(data->'courseInfo') IS DISTINCT FROM 'object' THEN
+    RETURN data;
+  END IF;
+
+  FOREACH course_key IN ARRAY ARRAY['sat_1500', 'sat_1400', 'sat_bridge'] LOOP
+    info := data->'courseInfo'->course_key;
+    CONTINUE WHEN jsonb_typeof(info) IS DISTINCT FROM 'object';
+    data := jsonb_set(data, ARRAY['courseInfo', course_key], info || jsonb_build_object(
+      'hasMathOption', true,
+      'mathExcludedFee', CASE
+        WHEN COALESCE((info->>'mathExcludedFee')::numeric, 0) > 0 THEN (info->>'mathExcludedFee')::numeric
+        ELSE COALESCE((info->>'fee')::numeric, 0) - 120000
+      END
+    ));
+  END LOOP;
+
+  FOREACH course_key IN ARRAY ARRAY['sat_1500', 'sat_1400', 'sat_bridge', 'toefl_l1', 'toefl_l2', 'dm_alg2'] LOOP
+    info := data->'courseInfo'->course_key;
+    CONTINUE WHEN jsonb_typeof(info) IS DISTINCT FROM 'object';
+    data := jsonb_set(data, ARRAY['courseInfo', course_key, 'options'],
+      COALESCE(info->'options', '{}'::jsonb) || jsonb_build_object('classType', jsonb_build_object('required', true)));
+  END LOOP;
+
+  FOREACH course_key IN ARRAY ARRAY['drw_morning', 'drw_a', 'drw_b'] LOOP
+    info := data->'courseInfo'->course_key;
+    CONTINUE WHEN jsonb_typeof(info) IS DISTINCT FROM 'object';
+    data := jsonb_set(data, ARRAY['courseInfo', course_key, 'options'],
+      COALESCE(info->'options', '{}'::jsonb) || jsonb_build_object('level', jsonb_build_object(
+        'required', true,
+        'choices', level_choices,
+        'nameTemplate', CASE course_key
+          WHEN 'drw_morning' THEN '겨울특강 DRW 미주 {level}'
+          WHEN 'drw_a' THEN '겨울특강 DRW {level}A'
+          ELSE '겨울특강 DRW {level}B'
+        END
+      )));
+  END LOOP;
+
+  RETURN data;
+END;
+$$ LANGUAGE plpgsql;
+
+-- UpdateData
+UPDATE "course_configs" SET "data" = pg_temp.migrate_course_options("data") WHERE "key" = 'courses';
+
+-- UpdateData
+UPDATE "presets" SET "data" = pg_temp.migrate_course_options("data");
@@ -0,0 +1,30 @@
+-- AlterTable: 정원 집계용 수업 형태/시간 선택
+ALTER TABLE "registrations" ADD COLUMN "courseType" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "registrations" ADD COLUMN "timeOption" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" UUID NOT NULL,
+    "studentName" TEXT NOT NULL,
+    "course" TEXT NOT NULL,
+    "courseId" TEXT NOT NULL,
+    "courseConfigSetName" TEXT NOT NULL,
+    "courseType" TEXT NOT NULL DEFAULT '',
+    "timeOption" TEXT NOT NULL DEFAULT '',
+    "record" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'waiting',
+    "memo" TEXT NOT NULL DEFAULT '',
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "registrationId" UUID,
+    "convertedAt" TIMESTAMPTZ(3),
+    "cancelledAt" TIMESTAMPTZ(3),
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "registrations_courseConfigSetName_courseId_idx" ON "registrations"("courseConfigSetName", "courseId");
+CREATE INDEX "waitlist_entries_courseConfigSetName_courseId_status_idx" ON "waitlist_entries"("courseConfigSetName", "courseId", "status");
+CREATE INDEX "waitlist_entries_createdAt_idx" ON "waitlist_entries"("createdAt");
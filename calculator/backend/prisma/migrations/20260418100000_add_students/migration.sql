@@ -0,0 +1,40 @@
+-- CreateTable: 학생 기본 정보 (등록은 studentId로 연결)
+CREATE TABLE "students" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "school" TEXT NOT NULL DEFAULT '',
+    "grade" TEXT NOT NULL DEFAULT '',
+    "phone" TEXT NOT NULL DEFAULT '',
+    "memo" TEXT NOT NULL DEFAULT '',
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "students_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable: 보호자 연락처
+CREATE TABLE "student_guardians" (
+    "id" UUID NOT NULL,
+    "studentId" UUID NOT NULL,
+    "name" TEXT NOT NULL DEFAULT '',
+    "relation" TEXT NOT NULL DEFAULT '',
+    "phone" TEXT NOT NULL DEFAULT '',
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "student_guardians_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: 기존 등록은 학생 정리 화면에서 묶어 연결한다
+ALTER TABLE "registrations" ADD COLUMN "studentId" UUID;
+
+-- CreateIndex
+CREATE INDEX "students_name_idx" ON "students"("name");
+CREATE INDEX "student_guardians_studentId_idx" ON "student_guardians"("studentId");
+CREATE INDEX "registrations_studentId_idx" ON "registrations"("studentId");
+
+-- AddForeignKey
+ALTER TABLE "student_guardians" ADD CONSTRAINT "student_guardians_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "registrations" ADD CONSTRAINT "registrations_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "students"("id") ON DELETE SET NULL ON UPDATE CASCADE;
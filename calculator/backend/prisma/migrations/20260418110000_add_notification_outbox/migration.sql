@@ -0,0 +1,34 @@
+-- CreateTable: 학부모 문자/알림톡 발송 대기열
+CREATE TABLE "notification_messages" (
+    "id" UUID NOT NULL,
+    "channel" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'custom',
+    "provider" TEXT NOT NULL DEFAULT '',
+    "recipientName" TEXT NOT NULL DEFAULT '',
+    "recipientPhone" TEXT NOT NULL,
+    "studentId" UUID,
+    "registrationId" UUID,
+    "body" TEXT NOT NULL,
+    "templateCode" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextAttemptAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT NOT NULL DEFAULT '',
+    "providerMessageId" TEXT NOT NULL DEFAULT '',
+    "sentAt" TIMESTAMPTZ(3),
+    "cancelledAt" TIMESTAMPTZ(3),
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "notification_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_messages_status_nextAttemptAt_idx" ON "notification_messages"("status", "nextAttemptAt");
+CREATE INDEX "notification_messages_studentId_createdAt_idx" ON "notification_messages"("studentId", "createdAt");
+CREATE INDEX "notification_messages_registrationId_idx" ON "notification_messages"("registrationId");
+
+-- AddForeignKey
+ALTER TABLE "notification_messages" ADD CONSTRAINT "notification_messages_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "students"("id") ON DELETE SET NULL ON UPDATE CASCADE;
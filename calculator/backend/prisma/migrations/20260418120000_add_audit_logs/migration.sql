@@ -0,0 +1,34 @@
+-- CreateTable: 등록·출석·과목 설정 변경 감사 기록 (추가만 가능)
+CREATE TABLE "audit_logs" (
+    "id" UUID NOT NULL,
+    "actor" TEXT NOT NULL,
+    "actorRole" TEXT NOT NULL DEFAULT '',
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "registrationId" UUID,
+    "before" JSONB,
+    "after" JSONB,
+    "requestId" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_registrationId_createdAt_idx" ON "audit_logs"("registrationId", "createdAt");
+CREATE INDEX "audit_logs_entityType_entityId_createdAt_idx" ON "audit_logs"("entityType", "entityId", "createdAt");
+CREATE INDEX "audit_logs_action_createdAt_idx" ON "audit_logs"("action", "createdAt");
+CREATE INDEX "audit_logs_actor_createdAt_idx" ON "audit_logs"("actor", "createdAt");
+CREATE INDEX "audit_logs_createdAt_idx" ON "audit_logs"("createdAt");
+
+-- 기록은 고치거나 지울 수 없다
+CREATE FUNCTION "audit_logs_block_mutation"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_logs_append_only"
+    BEFORE UPDATE OR DELETE ON "audit_logs"
+    FOR EACH ROW EXECUTE FUNCTION "audit_logs_block_mutation"();
@@ -0,0 +1,19 @@
+-- CreateTable: 등록 휴원 기간 (endDate가 없으면 복귀일 미정)
+CREATE TABLE "registration_holds" (
+    "id" UUID NOT NULL,
+    "registrationId" UUID NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE,
+    "reason" TEXT NOT NULL DEFAULT '',
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "registration_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "registration_holds_registrationId_startDate_idx" ON "registration_holds"("registrationId", "startDate");
+
+-- AddForeignKey
+ALTER TABLE "registration_holds" ADD CONSTRAINT "registration_holds_registrationId_fkey" FOREIGN KEY ("registrationId") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
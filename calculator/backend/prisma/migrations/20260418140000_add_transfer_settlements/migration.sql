@@ -0,0 +1,26 @@
+-- CreateTable: 전반 정산 (difference = nextAmount - previousAmount, 양수면 추가 납부·음수면 적립)
+CREATE TABLE "registration_transfer_settlements" (
+    "id" UUID NOT NULL,
+    "fromRegistrationId" UUID NOT NULL,
+    "toRegistrationId" UUID NOT NULL,
+    "weeks" INTEGER NOT NULL,
+    "previousWeeklyFee" INTEGER NOT NULL,
+    "nextWeeklyFee" INTEGER NOT NULL,
+    "discount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "previousAmount" INTEGER NOT NULL,
+    "nextAmount" INTEGER NOT NULL,
+    "difference" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "registration_transfer_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "registration_transfer_settlements_toRegistrationId_key" ON "registration_transfer_settlements"("toRegistrationId");
+
+-- CreateIndex
+CREATE INDEX "registration_transfer_settlements_fromRegistrationId_idx" ON "registration_transfer_settlements"("fromRegistrationId");
+
+-- AddForeignKey
+ALTER TABLE "registration_transfer_settlements" ADD CONSTRAINT "registration_transfer_settlements_toRegistrationId_fkey" FOREIGN KEY ("toRegistrationId") REFERENCES "registrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable: 출석 알림 규칙 (consecutiveAbsence: threshold = 연속 결석 횟수, lowRate: threshold = 출석률 하한 0~1)
+CREATE TABLE "attendance_alert_rules" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "minSessions" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "attendance_alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_alert_rules_sortOrder_idx" ON "attendance_alert_rules"("sortOrder");
@@ -0,0 +1,9 @@
+-- AlterTable: 출석 키오스크 체크인용 학생별 PIN(6자리)과 QR 토큰
+ALTER TABLE "students" ADD COLUMN "checkInPin" TEXT,
+ADD COLUMN "checkInToken" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "students_checkInPin_key" ON "students"("checkInPin");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "students_checkInToken_key" ON "students"("checkInToken");
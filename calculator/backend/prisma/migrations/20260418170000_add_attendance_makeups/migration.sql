@@ -0,0 +1,30 @@
+-- CreateTable: 결석 보강 (결석 출석 기록당 하나, status: scheduled/attended/waived, targetDate가 없으면 날짜 미정)
+CREATE TABLE "attendance_makeups" (
+    "id" UUID NOT NULL,
+    "attendanceRecordId" UUID NOT NULL,
+    "registrationId" UUID NOT NULL,
+    "targetCourse" TEXT NOT NULL DEFAULT '',
+    "targetCourseId" TEXT NOT NULL DEFAULT '',
+    "targetDate" DATE,
+    "targetTime" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "recordingSent" BOOLEAN NOT NULL DEFAULT false,
+    "memo" TEXT NOT NULL DEFAULT '',
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "attendance_makeups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_makeups_attendanceRecordId_key" ON "attendance_makeups"("attendanceRecordId");
+
+-- CreateIndex
+CREATE INDEX "attendance_makeups_registrationId_idx" ON "attendance_makeups"("registrationId");
+
+-- CreateIndex
+CREATE INDEX "attendance_makeups_targetDate_idx" ON "attendance_makeups"("targetDate");
+
+-- AddForeignKey
+ALTER TABLE "attendance_makeups" ADD CONSTRAINT "attendance_makeups_attendanceRecordId_fkey" FOREIGN KEY ("attendanceRecordId") REFERENCES "attendance_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
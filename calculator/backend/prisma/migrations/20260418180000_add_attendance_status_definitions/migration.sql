@@ -0,0 +1,34 @@
+-- AlterTable: 출석 칸 사유 (인정결석 사유, 조퇴 시각 등)
+ALTER TABLE "attendance_records" ADD COLUMN "note" TEXT NOT NULL DEFAULT '';
+
+-- CreateTable: 출석 상태 정의 (color는 정해진 색 이름, isSystem은 지우거나 끌 수 없는 기본 상태)
+CREATE TABLE "attendance_status_definitions" (
+    "id" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "shortLabel" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "countsAsAttended" BOOLEAN NOT NULL DEFAULT true,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "attendance_status_definitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_status_definitions_key_key" ON "attendance_status_definitions"("key");
+
+-- CreateIndex
+CREATE INDEX "attendance_status_definitions_sortOrder_idx" ON "attendance_status_definitions"("sortOrder");
+
+-- 기존에 코드로 정해 두었던 상태를 기본 상태로 넣는다
+INSERT INTO "attendance_status_definitions" ("id", "key", "label", "shortLabel", "color", "countsAsAttended", "isSystem", "sortOrder", "updatedAt")
+VALUES
+    (gen_random_uuid(), 'present', '출석', '출', 'emerald', true, true, 0, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'recorded', '녹화강의', '녹', 'sky', true, true, 1, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'late', '지각', '지', 'amber', true, true, 2, CURRENT_TIMESTAMP),
+    (gen_random_uuid(), 'absent', '결석', '결', 'rose', false, true, 3, CURRENT_TIMESTAMP);
@@ -0,0 +1,16 @@
+-- CreateTable: 출석 월 마감 (과목 설정 세트별 YYYY-MM)
+CREATE TABLE "attendance_month_locks" (
+    "id" UUID NOT NULL,
+    "courseConfigSetName" TEXT NOT NULL,
+    "month" TEXT NOT NULL,
+    "lockedBy" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_month_locks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_month_locks_courseConfigSetName_month_key" ON "attendance_month_locks"("courseConfigSetName", "month");
+
+-- CreateIndex
+CREATE INDEX "attendance_month_locks_month_idx" ON "attendance_month_locks"("month");
@@ -0,0 +1,37 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const { loadRegistrationAnalyticsResult } = require('../services/analyticsService');
+const { validateAnalyticsQuery } = require('../validators/analyticsValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/analytics?from=&to=&granularity=week|month&groupBy=courseConfigSet|category|course&courseConfigSetNames=&category=
+router.get(
+  '/',
+  validateAnalyticsQuery,
+  requirePermissions(['tabs.registrations', 'registrations.installments.view']),
+  async (req, res) => {
+    try {
+      const authUser = await getRequestUser(req);
+      if (!authUser) {
+        return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+      }
+
+      const result = await loadRegistrationAnalyticsResult(authUser, req.query || {});
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      const message = getSafeErrorMessage(error, '통계를 불러오지 못했습니다.');
+      console.error('[Analytics] 통계 조회 오류:', error);
+      return res.status(500).json({ status: 'fail', message });
+    }
+  }
+);
+
+module.exports = router;
@@ -1,10 +1,9 @@
 const express = require('express') as typeof import('express');
-const { v4: uuidv4 } = require('uuid');
 const { prisma } = require('../db/prisma');
 const { authMiddleware } = require('../middleware/authMiddleware');
 const { getSafeErrorMessage } = require('../utils/apiError');
 const { formatDateOnly } = require('../utils/dateUtils');
-const { parseStrictDateOnly, normalizeRegistrationIds } = require('../utils/parsers');
+const { normalizeRegistrationIds } = require('../utils/parsers');
 const {
   getRequestUser,
   requirePermissions,
@@ -14,17 +13,19 @@ const {
   loadAccessContext,
   isRegistrationAllowed,
 } = require('../services/categoryAccessService');
-const { emitAttendanceUpdates } = require('../realtime/socket');
+const { saveAttendanceEntriesResult } = require('../services/attendanceService');
+const { buildAuditContext } = require('../services/auditLogService');
+const attendanceStatsRoutes = require('./attendanceStatsRoutes');
+const attendanceCheckInRoutes = require('./attendanceCheckInRoutes');
+const attendanceMakeupRoutes = require('./attendanceMakeupRoutes');
+const attendanceStatusRoutes = require('./attendanceStatusRoutes');
+const attendanceLockRoutes = require('./attendanceLockRoutes');
 
 type AttendanceEntry = {
   registrationId?: string | number
   date?: string
   status?: string
-}
-type NormalizedEntry = {
-  registrationId: string
-  date: Date
-  status: string
+  note?: string
 }
 type RegistrationRow = {
   id: string | number
@@ -37,9 +38,11 @@ const router = express.Router();
 
 router.use(authMiddleware());
 router.use(requirePermissions('tabs.attendance'));
-
-const ALLOWED_STATUSES = new Set(['present', 'recorded', 'late', 'absent', 'pending']);
-
+router.use('/', attendanceStatsRoutes);
+router.use('/', attendanceCheckInRoutes);
+router.use('/', attendanceMakeupRoutes);
+router.use('/', attendanceStatusRoutes);
+router.use('/', attendanceLockRoutes);
 
 // GET /api/attendance?month=YYYY-MM&registrationIds=...
 router.get('/', async (req, res) => {
@@ -106,6 +109,7 @@ router.get('/', async (req, res) => {
       registrationId: string | number
       date: Date
       status: string
+      note: string
     }> = await prisma.attendanceRecord.findMany({
       where,
       orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
@@ -116,6 +120,7 @@ router.get('/', async (req, res) => {
       registrationId: row.registrationId,
       date: formatDateOnly(row.date),
       status: row.status,
+      note: row.note || '',
     }));
 
     res.json({ status: 'success', results });
@@ -140,109 +145,13 @@ router.post('/', async (req, res) => {
     const entries: AttendanceEntry[] = Array.isArray(req.body?.entries)
       ? req.body.entries
       : [req.body];
-
-    if (!entries.length) {
-      return res.status(400).json({
-        status: 'fail',
-        message: 'entries are required',
-      });
-    }
-
-    const normalized = entries
-      .map((entry) => ({
-        registrationId: String(entry?.registrationId || '').trim(),
-        date: parseStrictDateOnly(entry?.date),
-        status: String(entry?.status || '').trim(),
-      }))
-      .filter(
-        (entry): entry is NormalizedEntry =>
-          Boolean(entry.registrationId && entry.date && entry.status)
-      );
-
-    const invalid = entries.length !== normalized.length;
-    if (invalid) {
-      return res.status(400).json({
-        status: 'fail',
-        message: 'registrationId, date, status are required',
-      });
-    }
-
-    for (const entry of normalized) {
-      if (!ALLOWED_STATUSES.has(entry.status)) {
-        return res.status(400).json({
-          status: 'fail',
-          message: `invalid status: ${entry.status}`,
-        });
-      }
-    }
-
-    const registrationIds = normalized.map((entry) => entry.registrationId);
-    const registrations: RegistrationRow[] = await prisma.registration.findMany({
-      where: { id: { in: registrationIds } },
-      select: { id: true, courseId: true, course: true, courseConfigSetName: true },
+    const result = await saveAttendanceEntriesResult({
+      authUser,
+      entries,
+      overrideReason: req.body?.overrideReason,
+      auditContext: buildAuditContext(req),
     });
-    const setNames = registrations
-      .map((row) => String(row.courseConfigSetName || '').trim())
-      .filter(Boolean);
-    const { accessMap, indexMap } = await loadAccessContext(authUser.id, setNames, isCategoryAccessBypassed(authUser));
-    const allowedSet = new Set<string | number>(
-      registrations
-        .filter((row) => isRegistrationAllowed(row, accessMap, indexMap, isCategoryAccessBypassed(authUser)))
-        .map((row) => row.id)
-    );
-    const denied = normalized.find((entry) => !allowedSet.has(entry.registrationId));
-    if (denied) {
-      return res.status(403).json({ status: 'fail', message: 'Permission denied.' });
-    }
-
-    const result = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
-      let upserted = 0;
-      let deleted = 0;
-
-      for (const entry of normalized) {
-        if (entry.status === 'pending') {
-          const deletedRows = await tx.attendanceRecord.deleteMany({
-            where: {
-              registrationId: entry.registrationId,
-              date: entry.date,
-            },
-          });
-          deleted += Number(deletedRows.count || 0);
-          continue;
-        }
-
-        await tx.attendanceRecord.upsert({
-          where: {
-            registrationId_date: {
-              registrationId: entry.registrationId,
-              date: entry.date,
-            },
-          },
-          create: {
-            id: uuidv4(),
-            registrationId: entry.registrationId,
-            date: entry.date,
-            status: entry.status,
-          },
-          update: {
-            status: entry.status,
-          },
-        });
-
-        upserted += 1;
-      }
-
-      return { upserted, deleted };
-    });
-
-    const updates = normalized.map((entry) => ({
-      registrationId: entry.registrationId,
-      date: formatDateOnly(entry.date),
-      status: entry.status,
-    }));
-
-    res.json({ status: 'success', ...result });
-    void emitAttendanceUpdates({ updates, registrations });
+    return res.status(result.statusCode).json(result.body);
   } catch (error) {
     const message = getSafeErrorMessage(error, '출석 기록 저장에 실패했습니다.');
     console.error('Failed to save attendance records:', error);
@@ -0,0 +1,30 @@
+const express = require('express') as typeof import('express');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { buildAuditContext } = require('../services/auditLogService');
+const { checkInAttendanceResult } = require('../services/attendanceCheckInService');
+const { validateAttendanceCheckInBody } = require('../validators/attendanceValidator');
+
+const router = express.Router();
+
+// POST /api/attendance/check-in — 출석 키오스크 QR/PIN 체크인 { code, graceMinutes?, courseConfigSetName? }
+router.post('/check-in', validateAttendanceCheckInBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await checkInAttendanceResult({
+      authUser,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '체크인에 실패했습니다.');
+    console.error('[Attendance] 키오스크 체크인 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,62 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { buildAuditContext } = require('../services/auditLogService');
+const {
+  createAttendanceLockResult,
+  deleteAttendanceLockResult,
+  listAttendanceLocksResult,
+} = require('../services/attendanceLockService');
+const {
+  validateAttendanceLockBody,
+  validateAttendanceLockQuery,
+} = require('../validators/attendanceValidator');
+
+const router = express.Router();
+
+// GET /api/attendance/locks?courseConfigSetName=&month= — 출석 월 마감 목록
+router.get('/locks', validateAttendanceLockQuery, async (req, res) => {
+  try {
+    const result = await listAttendanceLocksResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 마감을 불러오지 못했습니다.');
+    console.error('[Attendance] 출석 마감 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/attendance/locks — 과목 설정 세트의 한 달 출석 마감
+router.post('/locks', authMiddleware(['master']), validateAttendanceLockBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createAttendanceLockResult({
+      authUser,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 마감에 실패했습니다.');
+    console.error('[Attendance] 출석 마감 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/attendance/locks/:id — 출석 마감 해제
+router.delete('/locks/:id', authMiddleware(['master']), async (req, res) => {
+  try {
+    const result = await deleteAttendanceLockResult({ id: req.params.id, auditContext: buildAuditContext(req) });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 마감 해제에 실패했습니다.');
+    console.error('[Attendance] 출석 마감 해제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,95 @@
+const express = require('express') as typeof import('express');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { buildAuditContext } = require('../services/auditLogService');
+const {
+  createAttendanceMakeupResult,
+  deleteAttendanceMakeupResult,
+  listAttendanceMakeupsResult,
+  updateAttendanceMakeupResult,
+} = require('../services/attendanceMakeupService');
+const {
+  validateAttendanceMakeupBody,
+  validateAttendanceMakeupQuery,
+} = require('../validators/attendanceValidator');
+
+const router = express.Router();
+
+// GET /api/attendance/makeups?from=&to=&registrationIds=&outstanding=1 — 보강 목록 (from/to는 보강 날짜)
+router.get('/makeups', validateAttendanceMakeupQuery, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await listAttendanceMakeupsResult(authUser, req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '보강 목록을 불러오지 못했습니다.');
+    console.error('[Attendance] 보강 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/attendance/makeups — 결석에 보강 잡기 { registrationId, date, targetCourse?, targetDate?, targetTime?, status?, recordingSent?, memo? }
+router.post('/makeups', validateAttendanceMakeupBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createAttendanceMakeupResult({
+      authUser,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '보강을 저장하지 못했습니다.');
+    console.error('[Attendance] 보강 저장 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// PUT /api/attendance/makeups/:id — 보강 수정
+router.put('/makeups/:id', validateAttendanceMakeupBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await updateAttendanceMakeupResult({
+      authUser,
+      id: req.params.id,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '보강을 수정하지 못했습니다.');
+    console.error('[Attendance] 보강 수정 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/attendance/makeups/:id — 보강 삭제
+router.delete('/makeups/:id', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await deleteAttendanceMakeupResult({
+      authUser,
+      id: req.params.id,
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '보강을 삭제하지 못했습니다.');
+    console.error('[Attendance] 보강 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
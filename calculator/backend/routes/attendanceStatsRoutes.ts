@@ -0,0 +1,105 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  createAttendanceAlertRuleResult,
+  deleteAttendanceAlertRuleResult,
+  listAttendanceAlertRulesResult,
+  loadAttendanceFollowUpsResult,
+  loadAttendanceStatsResult,
+  updateAttendanceAlertRuleResult,
+} = require('../services/attendanceStatsService');
+const {
+  validateAttendanceAlertRuleBody,
+  validateAttendanceFollowUpQuery,
+  validateAttendanceStatsQuery,
+} = require('../validators/attendanceValidator');
+
+const router = express.Router();
+
+// GET /api/attendance/stats?from=&to=&courseConfigSetName=&registrationIds= — 학생·과목별 출석률과 알림
+router.get('/stats', validateAttendanceStatsQuery, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await loadAttendanceStatsResult(authUser, req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 통계를 불러오지 못했습니다.');
+    console.error('[Attendance] 출석 통계 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/attendance/follow-ups?date=&courseConfigSetName= — 그날 확인할 학생 (규칙에 걸린 재원생)
+router.get('/follow-ups', validateAttendanceFollowUpQuery, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await loadAttendanceFollowUpsResult(authUser, req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '확인할 학생 목록을 불러오지 못했습니다.');
+    console.error('[Attendance] 확인 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/attendance/alert-rules — 출석 알림 규칙
+router.get('/alert-rules', async (_req, res) => {
+  try {
+    const result = await listAttendanceAlertRulesResult();
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 알림 규칙을 불러오지 못했습니다.');
+    console.error('[Attendance] 알림 규칙 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/attendance/alert-rules — 출석 알림 규칙 추가
+router.post('/alert-rules', authMiddleware(['master', 'admin']), validateAttendanceAlertRuleBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createAttendanceAlertRuleResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 알림 규칙을 저장하지 못했습니다.');
+    console.error('[Attendance] 알림 규칙 저장 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// PUT /api/attendance/alert-rules/:id — 출석 알림 규칙 수정
+router.put('/alert-rules/:id', authMiddleware(['master', 'admin']), validateAttendanceAlertRuleBody, async (req, res) => {
+  try {
+    const result = await updateAttendanceAlertRuleResult({ id: req.params.id, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 알림 규칙을 수정하지 못했습니다.');
+    console.error('[Attendance] 알림 규칙 수정 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/attendance/alert-rules/:id — 출석 알림 규칙 삭제
+router.delete('/alert-rules/:id', authMiddleware(['master', 'admin']), async (req, res) => {
+  try {
+    const result = await deleteAttendanceAlertRuleResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 알림 규칙을 삭제하지 못했습니다.');
+    console.error('[Attendance] 알림 규칙 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,67 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  createAttendanceStatusResult,
+  deleteAttendanceStatusResult,
+  listAttendanceStatusesResult,
+  updateAttendanceStatusResult,
+} = require('../services/attendanceStatusService');
+const { validateAttendanceStatusBody } = require('../validators/attendanceValidator');
+
+const router = express.Router();
+
+// GET /api/attendance/statuses — 출석 상태 정의 (꺼 둔 상태 포함)
+router.get('/statuses', async (_req, res) => {
+  try {
+    const result = await listAttendanceStatusesResult();
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 상태를 불러오지 못했습니다.');
+    console.error('[Attendance] 출석 상태 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/attendance/statuses — 출석 상태 추가
+router.post('/statuses', authMiddleware(['master', 'admin']), validateAttendanceStatusBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createAttendanceStatusResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 상태를 저장하지 못했습니다.');
+    console.error('[Attendance] 출석 상태 저장 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// PUT /api/attendance/statuses/:id — 출석 상태 수정 (키는 바꾸지 않는다)
+router.put('/statuses/:id', authMiddleware(['master', 'admin']), validateAttendanceStatusBody, async (req, res) => {
+  try {
+    const result = await updateAttendanceStatusResult({ id: req.params.id, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 상태를 수정하지 못했습니다.');
+    console.error('[Attendance] 출석 상태 수정 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/attendance/statuses/:id — 쓰인 적 없는 출석 상태 삭제
+router.delete('/statuses/:id', authMiddleware(['master', 'admin']), async (req, res) => {
+  try {
+    const result = await deleteAttendanceStatusResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '출석 상태를 삭제하지 못했습니다.');
+    console.error('[Attendance] 출석 상태 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
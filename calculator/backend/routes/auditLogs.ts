@@ -0,0 +1,21 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { listAuditLogsResult } = require('../services/auditLogService');
+const { validateAuditLogQuery } = require('../validators/auditLogValidator');
+
+const router = express.Router();
+
+// GET /api/audit-logs?actor=&action=&entityType=&entityId=&registrationId=&from=&to=&cursor= (master only)
+router.get('/', authMiddleware(['master']), validateAuditLogQuery, async (req, res) => {
+  try {
+    const result = await listAuditLogsResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '감사 기록을 불러오지 못했습니다.');
+    console.error('[Audit] 감사 기록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
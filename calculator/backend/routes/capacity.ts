@@ -0,0 +1,23 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { getCapacitySummaryResult } = require('../services/capacityService');
+const { validateWaitlistQuery } = require('../validators/waitlistValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/capacity?courseConfigSetName= — 반별 정원·사용 자리·대기 인원
+router.get('/', validateWaitlistQuery, async (req, res) => {
+  try {
+    const result = await getCapacitySummaryResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '정원 현황을 불러오지 못했습니다.');
+    console.error('[Capacity] 정원 현황 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
@@ -16,6 +16,12 @@ const {
   mergeCourseConfigSetData,
   normalizeKey,
 } = require('../services/categoryAccessService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 type CourseConfigRow = { name: string; data?: Record<string, unknown> }
 type CourseTreeGroup = { cat?: string }
@@ -108,6 +114,10 @@ router.post('/', authMiddleware(), requirePermissions('tabs.courses'), async (re
       });
     }
 
+    const previous = await prisma.courseConfigSet.findUnique({
+      where: { name },
+      select: { data: true },
+    });
     let nextData = data as Record<string, unknown>;
     if (access.hasRules) {
       const allowedCategories = getAllowedCategories(access);
@@ -130,11 +140,7 @@ router.post('/', authMiddleware(), requirePermissions('tabs.courses'), async (re
         });
       }
 
-      const existing = await prisma.courseConfigSet.findUnique({
-        where: { name },
-        select: { data: true },
-      });
-      nextData = mergeCourseConfigSetData(existing?.data || {}, data, access);
+      nextData = mergeCourseConfigSetData(previous?.data || {}, data, access);
     }
 
     await prisma.courseConfigSet.upsert({
@@ -162,6 +168,14 @@ router.post('/', authMiddleware(), requirePermissions('tabs.courses'), async (re
       });
     }
 
+    await recordAuditLogs(buildAuditContext(req), [{
+      action: AUDIT_ACTIONS.courseConfigSave,
+      entityType: AUDIT_ENTITY_TYPES.courseConfigSet,
+      entityId: name,
+      before: previous?.data ?? null,
+      after: nextData,
+    }]);
+
     res.json({
       status: 'success',
       message: `Saved course config set '${name}'.`,
@@ -192,6 +206,12 @@ router.delete(
       }
 
       await prisma.courseConfigSet.delete({ where: { name } });
+      await recordAuditLogs(buildAuditContext(req), [{
+        action: AUDIT_ACTIONS.courseConfigDelete,
+        entityType: AUDIT_ENTITY_TYPES.courseConfigSet,
+        entityId: name,
+        before: existing.data,
+      }]);
 
       res.json({
         status: 'success',
@@ -0,0 +1,85 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getRequestUser, requirePermissions } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  createDiscountRuleResult,
+  deleteDiscountRuleResult,
+  getStudentDiscountContextResult,
+  listDiscountRulesResult,
+  updateDiscountRuleResult,
+} = require('../services/discountRuleService');
+const {
+  validateDiscountRuleBody,
+  validateDiscountRuleQuery,
+} = require('../validators/discountRuleValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/discount-rules?courseConfigSetName= — 설정 세트의 할인 규칙 (계산기에서 자동 적용)
+router.get('/', validateDiscountRuleQuery, async (req, res) => {
+  try {
+    const result = await listDiscountRulesResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '할인 규칙을 불러오지 못했습니다.');
+    console.error('[DiscountRule] 할인 규칙 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/discount-rules/student-context?name=&excludeId= — 재원생 할인 판단용 학생 정보
+router.get('/student-context', validateDiscountRuleQuery, async (req, res) => {
+  try {
+    const result = await getStudentDiscountContextResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '학생 정보를 불러오지 못했습니다.');
+    console.error('[DiscountRule] 학생 할인 정보 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/discount-rules — 할인 규칙 추가
+router.post('/', requirePermissions('tabs.courses'), ...validateDiscountRuleBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createDiscountRuleResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '할인 규칙을 저장하지 못했습니다.');
+    console.error('[DiscountRule] 할인 규칙 저장 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// PUT /api/discount-rules/:id — 할인 규칙 수정
+router.put('/:id', requirePermissions('tabs.courses'), ...validateDiscountRuleBody, async (req, res) => {
+  try {
+    const result = await updateDiscountRuleResult({ id: req.params.id, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '할인 규칙을 수정하지 못했습니다.');
+    console.error('[DiscountRule] 할인 규칙 수정 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/discount-rules/:id — 할인 규칙 삭제 (등록에 쓰인 규칙은 거부)
+router.delete('/:id', requirePermissions('tabs.courses'), async (req, res) => {
+  try {
+    const result = await deleteDiscountRuleResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '할인 규칙을 삭제하지 못했습니다.');
+    console.error('[DiscountRule] 할인 규칙 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
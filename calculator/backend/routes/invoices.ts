@@ -0,0 +1,63 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const {
+  createCartInvoicePdfResult,
+  createRegistrationInvoicePdfResult,
+} = require('../services/invoiceService');
+const {
+  validateCartInvoiceBody,
+  validateInvoiceQuery,
+} = require('../validators/invoiceValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+function sendPdf(res: any, result: { pdf: Buffer; filename: string }) {
+  // attachment()가 한글 파일명을 filename*로 넣어 준다
+  res.attachment(result.filename);
+  res.type('application/pdf');
+  res.set('Cache-Control', 'no-store');
+  return res.status(200).send(result.pdf);
+}
+
+// POST /api/invoices/pdf — 계산기 장바구니로 견적서/청구서 PDF
+router.post('/pdf', ...validateCartInvoiceBody, async (req, res) => {
+  try {
+    const result = await createCartInvoicePdfResult(req.body || {});
+    if (!result.pdf) return res.status(result.statusCode).json(result.body);
+    return sendPdf(res, result);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '문서를 만들지 못했습니다.');
+    console.error('[Invoice] 장바구니 PDF 생성 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/invoices/registrations/:id?type=invoice|quote — 등록 청구서 PDF
+router.get('/registrations/:id', requirePermissions('tabs.registrations'), validateInvoiceQuery, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createRegistrationInvoicePdfResult({
+      authUser,
+      id: req.params.id,
+      type: req.query?.type,
+    });
+    if (!result.pdf) return res.status(result.statusCode).json(result.body);
+    return sendPdf(res, result);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '문서를 만들지 못했습니다.');
+    console.error('[Invoice] 등록 PDF 생성 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
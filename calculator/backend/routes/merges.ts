@@ -2,6 +2,12 @@ const express = require('express') as typeof import('express');
 const { prisma } = require('../db/prisma');
 const { authMiddleware } = require('../middleware/authMiddleware');
 const { requirePermissions } = require('../middleware/permissionMiddleware');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 type WeekRange = { start: number; end: number }
 type MergeInput = {
@@ -162,7 +168,12 @@ router.put(
     }
 
     const now = new Date();
+    const auditContext = buildAuditContext(req);
     await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+      const previous = await tx.mergeGroup.findMany({
+        select: { id: true, name: true, courses: true, weekRanges: true, isActive: true, courseConfigSetName: true },
+        orderBy: { id: 'asc' },
+      });
       await tx.mergeGroup.deleteMany();
       if (cleaned.length > 0) {
         await tx.mergeGroup.createMany({
@@ -178,6 +189,17 @@ router.put(
           })),
         });
       }
+      await recordAuditLogs(
+        auditContext,
+        [{
+          action: AUDIT_ACTIONS.mergeUpdate,
+          entityType: AUDIT_ENTITY_TYPES.mergeGroups,
+          entityId: 'all',
+          before: previous,
+          after: cleaned,
+        }],
+        tx
+      );
     });
 
     res.json({ status: '성공', merges: cleaned });
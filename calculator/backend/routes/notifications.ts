@@ -0,0 +1,95 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  cancelNotificationResult,
+  enqueueNotificationsResult,
+  getNotificationChannelsResult,
+  listNotificationsResult,
+  processNotificationOutbox,
+  retryNotificationResult,
+} = require('../services/notificationOutboxService');
+const {
+  validateNotificationBody,
+  validateNotificationQuery,
+} = require('../validators/notificationValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/notifications/channels — 문자/알림톡 발송 가능 여부
+router.get('/channels', async (_req, res) => {
+  const result = getNotificationChannelsResult();
+  return res.status(result.statusCode).json(result.body);
+});
+
+// GET /api/notifications?studentId=&registrationId=&status= — 발송 이력
+router.get('/', requirePermissions('tabs.registrations'), validateNotificationQuery, async (req, res) => {
+  try {
+    const result = await listNotificationsResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '발송 이력을 불러오지 못했습니다.');
+    console.error('[Notification] 발송 이력 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/notifications — 확인한 메시지를 발송 대기열에 넣기
+router.post('/', requirePermissions('notifications.send'), validateNotificationBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await enqueueNotificationsResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '메시지를 보내지 못했습니다.');
+    console.error('[Notification] 발송 요청 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/notifications/dispatch — 대기열 즉시 처리
+router.post('/dispatch', requirePermissions('notifications.send'), async (_req, res) => {
+  try {
+    const summary = await processNotificationOutbox();
+    return res.json({ status: 'success', ...summary });
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '대기열을 처리하지 못했습니다.');
+    console.error('[Notification] 대기열 처리 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/notifications/:id/retry — 실패한 메시지 다시 보내기
+router.post('/:id/retry', requirePermissions('notifications.send'), async (req, res) => {
+  try {
+    const result = await retryNotificationResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '다시 보내지 못했습니다.');
+    console.error('[Notification] 재발송 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/notifications/:id/cancel — 보내지 않은 메시지 취소
+router.post('/:id/cancel', requirePermissions('notifications.send'), async (req, res) => {
+  try {
+    const result = await cancelNotificationResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '메시지를 취소하지 못했습니다.');
+    console.error('[Notification] 취소 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,74 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  getRequestUser,
+  requireAnyPermissions,
+} = require('../middleware/permissionMiddleware');
+const {
+  createPaymentResult,
+  deletePaymentResult,
+  listRegistrationPaymentsResult,
+} = require('../services/paymentService');
+const {
+  validatePaymentBody,
+  validatePaymentQuery,
+} = require('../validators/paymentValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+router.use(requireAnyPermissions(['tabs.registrations']));
+
+// GET /api/payments?registrationId= — 등록별 수납 기록과 잔액
+router.get('/', validatePaymentQuery, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await listRegistrationPaymentsResult({
+      authUser,
+      registrationId: req.query?.registrationId,
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '수납 기록을 불러오지 못했습니다.');
+    console.error('[Payment] 수납 기록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/payments — 카드/현금 등 수납 직접 기록
+router.post('/', validatePaymentBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createPaymentResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '수납 기록에 실패했습니다.');
+    console.error('[Payment] 수납 기록 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/payments/:id — 직접 기록한 수납 삭제
+router.delete('/:id', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await deletePaymentResult({ authUser, id: String(req.params.id) });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '수납 기록 삭제에 실패했습니다.');
+    console.error('[Payment] 수납 기록 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
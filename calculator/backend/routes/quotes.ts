@@ -0,0 +1,124 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const { getRequestUser } = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  calculateQuoteResult,
+  convertQuoteResult,
+  createQuoteResult,
+  deleteQuoteResult,
+  duplicateQuoteResult,
+  getQuoteResult,
+  listQuotesResult,
+} = require('../services/quoteService');
+const {
+  validateQuoteBody,
+  validateQuoteQuery,
+  validateSavedQuoteBody,
+} = require('../validators/quoteValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// POST /api/quotes/calculate — 계산기와 같은 수강료 엔진으로 견적 계산
+router.post('/calculate', ...validateQuoteBody, async (req, res) => {
+  try {
+    const result = await calculateQuoteResult(req.body || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '수강료를 계산하지 못했습니다.');
+    console.error('[Quote] 수강료 계산 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/quotes — 저장된 견적 목록 (학생 이름 검색, 상태 필터)
+router.get('/', validateQuoteQuery, async (req, res) => {
+  try {
+    const result = await listQuotesResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적 목록을 불러오지 못했습니다.');
+    console.error('[Quote] 견적 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/quotes/:id
+router.get('/:id', async (req, res) => {
+  try {
+    const result = await getQuoteResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적을 불러오지 못했습니다.');
+    console.error('[Quote] 견적 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/quotes — 계산기 장바구니를 견적으로 저장
+router.post('/', ...validateSavedQuoteBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createQuoteResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적을 저장하지 못했습니다.');
+    console.error('[Quote] 견적 저장 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/quotes/:id/duplicate — 같은 내용으로 새 견적
+router.post('/:id/duplicate', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await duplicateQuoteResult({ authUser, id: req.params.id });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적을 복제하지 못했습니다.');
+    console.error('[Quote] 견적 복제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/quotes/:id/convert — 견적 금액 그대로 등록 생성
+router.post('/:id/convert', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await convertQuoteResult({
+      authUser,
+      id: req.params.id,
+      allowOverCapacity: req.body?.allowOverCapacity === true,
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적을 등록으로 전환하지 못했습니다.');
+    console.error('[Quote] 견적 전환 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/quotes/:id — 전환되지 않은 견적 삭제
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await deleteQuoteResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '견적을 삭제하지 못했습니다.');
+    console.error('[Quote] 견적 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
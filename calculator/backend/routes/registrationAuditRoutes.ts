@@ -0,0 +1,37 @@
+const express = require('express') as typeof import('express');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const { listRegistrationAuditResult } = require('../services/auditLogService');
+
+const router = express.Router();
+
+router.get(
+  '/:id/audit',
+  requirePermissions('tabs.registrations'),
+  async (req, res) => {
+    try {
+      const authUser = await getRequestUser(req);
+      if (!authUser) {
+        return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+      }
+
+      const result = await listRegistrationAuditResult({ authUser, id: req.params.id });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      console.error('등록 변경 이력 조회 실패:', error);
+      const message = getSafeErrorMessage(
+        error,
+        '변경 이력을 불러오지 못했습니다.'
+      );
+      return res.status(500).json({
+        status: 'fail',
+        message,
+      });
+    }
+  }
+);
+
+module.exports = router;
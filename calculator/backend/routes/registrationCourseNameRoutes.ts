@@ -12,6 +12,12 @@ const {
   normalizeCourseNameChanges,
   renameCourseNames,
 } = require('../services/registrationRouteService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 const router = express.Router();
 
@@ -92,6 +98,13 @@ router.patch(
         courseConfigSetName,
         normalized
       );
+      await recordAuditLogs(buildAuditContext(req), [{
+        action: AUDIT_ACTIONS.courseRename,
+        entityType: AUDIT_ENTITY_TYPES.courseConfigSet,
+        entityId: courseConfigSetName,
+        before: { courses: fromList },
+        after: { changes: normalized, updated, details },
+      }]);
 
       return res.json({ status: 'success', updated, details });
     } catch (error) {
@@ -1,16 +1,9 @@
 const express = require('express') as typeof import('express');
-const { v4: uuidv4 } = require('uuid');
 const { prisma } = require('../db/prisma');
 const { authMiddleware } = require('../middleware/authMiddleware');
 const { getSafeErrorMessage } = require('../utils/apiError');
 const { formatDateOnly } = require('../utils/dateUtils');
-const {
-  parseStrictDateOnly,
-  parseWeeks,
-  parseTuitionFee,
-  normalizeRegistrationIds,
-  computeEndDate,
-} = require('../utils/parsers');
+const { normalizeRegistrationIds } = require('../utils/parsers');
 const {
   getRequestUser,
   requirePermissions,
@@ -20,6 +13,17 @@ const {
   loadAccessContext,
   isRegistrationAllowed,
 } = require('../services/categoryAccessService');
+const { buildAuditContext } = require('../services/auditLogService');
+const {
+  createRegistrationExtensionResult,
+  createRegistrationExtensionsBulkResult,
+  deleteRegistrationExtensionResult,
+  updateRegistrationExtensionResult,
+} = require('../services/registrationExtensionService');
+const {
+  validateRegistrationExtensionBody,
+  validateRegistrationExtensionBulkBody,
+} = require('../validators/registrationExtensionValidator');
 
 type RegistrationRow = {
   id: string | number
@@ -172,116 +176,86 @@ router.post('/', async (req, res) => {
       return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
     }
 
-    const registrationId = String(req.body?.registrationId || '').trim();
-    const extendWeeks = parseWeeks(req.body?.weeks ?? req.body?.extendWeeks);
-    const startDate = parseStrictDateOnly(req.body?.startDate);
-    const endDate = parseStrictDateOnly(req.body?.endDate);
-    const tuitionFee = parseTuitionFee(req.body?.tuitionFee);
+    const result = await createRegistrationExtensionResult({
+      authUser,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '연장 등록에 실패했습니다.');
+    console.error('Failed to create registration extension:', error);
+    res.status(500).json({
+      status: 'fail',
+      message,
+    });
+  }
+});
 
-    if (!registrationId || !extendWeeks) {
-      return res.status(400).json({
-        status: 'fail',
-        message: 'registrationId and weeks are required',
-      });
+router.post('/bulk', ...validateRegistrationExtensionBulkBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
     }
 
-    const registration = await prisma.registration.findUnique({
-      where: { id: registrationId },
+    const result = await createRegistrationExtensionsBulkResult({
+      authUser,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
     });
-    if (!registration) {
-      return res.status(404).json({
-        status: 'fail',
-        message: 'Registration not found',
-      });
-    }
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '일괄 연장에 실패했습니다.');
+    console.error('Failed to bulk create registration extensions:', error);
+    return res.status(500).json({
+      status: 'fail',
+      message,
+    });
+  }
+});
 
-    const { accessMap, indexMap } = await loadAccessContext(authUser.id, [
-      String(registration.courseConfigSetName || '').trim(),
-    ], isCategoryAccessBypassed(authUser));
-    if (!isRegistrationAllowed(registration, accessMap, indexMap, isCategoryAccessBypassed(authUser))) {
-      return res.status(403).json({ status: 'fail', message: 'Permission denied.' });
+router.put('/:id', ...validateRegistrationExtensionBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
     }
 
-    const baseWeeks = Number(registration.weeks || 0);
-    const nextWeeks = baseWeeks + extendWeeks;
-    const computedEndDate = endDate
-      ? endDate
-      : parseStrictDateOnly(
-          computeEndDate(registration.startDate, nextWeeks, registration.skipWeeks)
-        );
-
-    // 연장 휴강 주차 병합 (프론트에서 등록 전체 기준으로 변환된 값)
-    const incomingSkipWeeks = Array.isArray(req.body?.skipWeeks)
-      ? (req.body.skipWeeks as unknown[]).map(Number).filter((n: number) => Number.isInteger(n) && n > 0)
-      : [];
-    const existingSkipWeeks = Array.isArray(registration.skipWeeks) ? registration.skipWeeks : [];
-    const mergedSkipWeeks = incomingSkipWeeks.length > 0
-      ? Array.from(new Set([...existingSkipWeeks, ...incomingSkipWeeks])).sort((a: number, b: number) => a - b)
-      : undefined;
-
-    // 연장 녹화 날짜 병합
-    const incomingRecordingDates = Array.isArray(req.body?.recordingDates)
-      ? (req.body.recordingDates as unknown[]).filter((d): d is string => typeof d === 'string' && d.trim().length > 0)
-      : [];
-    const existingRecordingDates = Array.isArray(registration.recordingDates) ? registration.recordingDates : [];
-    const mergedRecordingDates = incomingRecordingDates.length > 0
-      ? Array.from(new Set([...existingRecordingDates, ...incomingRecordingDates])).sort()
-      : undefined;
-
-    const result = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
-      const extension = await tx.registrationExtension.create({
-        data: {
-          id: uuidv4(),
-          registrationId,
-          startDate,
-          weeks: extendWeeks,
-          tuitionFee,
-        },
-      });
-
-      const updated = await tx.registration.update({
-        where: { id: registrationId },
-        data: {
-          weeks: nextWeeks || null,
-          endDate: computedEndDate || registration.endDate,
-          ...(mergedSkipWeeks ? { skipWeeks: mergedSkipWeeks } : {}),
-          ...(mergedRecordingDates ? { recordingDates: mergedRecordingDates } : {}),
-        },
-      });
-
-      return {
-        extension,
-        registration: {
-          id: updated.id,
-          weeks: updated.weeks ?? null,
-          endDate: formatDateOnly(updated.endDate),
-        },
-      };
+    const result = await updateRegistrationExtensionResult({
+      authUser,
+      extensionId: req.params.id,
+      body: req.body || {},
+      auditContext: buildAuditContext(req),
     });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '연장 수정에 실패했습니다.');
+    console.error('Failed to update registration extension:', error);
+    return res.status(500).json({
+      status: 'fail',
+      message,
+    });
+  }
+});
 
-    if (!result) {
-      return res.status(404).json({
-        status: 'fail',
-        message: 'Registration not found',
-      });
+router.delete('/:id', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
     }
 
-    res.json({
-      status: 'success',
-      extension: {
-        id: result.extension.id,
-        registrationId: result.extension.registrationId,
-        startDate: formatDateOnly(result.extension.startDate),
-        weeks: result.extension.weeks ?? null,
-        tuitionFee: result.extension.tuitionFee ?? null,
-        createdAt: result.extension.createdAt.toISOString(),
-      },
-      registration: result.registration,
+    const result = await deleteRegistrationExtensionResult({
+      authUser,
+      extensionId: req.params.id,
+      auditContext: buildAuditContext(req),
     });
+    return res.status(result.statusCode).json(result.body);
   } catch (error) {
-    const message = getSafeErrorMessage(error, '연장 등록에 실패했습니다.');
-    console.error('Failed to create registration extension:', error);
-    res.status(500).json({
+    const message = getSafeErrorMessage(error, '연장 삭제에 실패했습니다.');
+    console.error('Failed to delete registration extension:', error);
+    return res.status(500).json({
       status: 'fail',
       message,
     });
@@ -0,0 +1,104 @@
+const express = require('express') as typeof import('express');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const { validateRegistrationHoldBody } = require('../validators/registrationHoldValidator');
+const {
+  createRegistrationHoldResult,
+  deleteRegistrationHoldResult,
+  updateRegistrationHoldResult,
+} = require('../services/registrationHoldService');
+const { buildAuditContext } = require('../services/auditLogService');
+
+const router = express.Router();
+
+router.post(
+  '/:id/holds',
+  requirePermissions('tabs.registrations'),
+  ...validateRegistrationHoldBody,
+  async (req, res) => {
+    try {
+      const authUser = await getRequestUser(req);
+      if (!authUser) {
+        return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+      }
+
+      const result = await createRegistrationHoldResult({
+        authUser,
+        registrationId: req.params.id,
+        body: req.body || {},
+        auditContext: buildAuditContext(req),
+      });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      console.error('휴원 등록 실패:', error);
+      const message = getSafeErrorMessage(error, '휴원 등록에 실패했습니다.');
+      return res.status(500).json({
+        status: 'fail',
+        message,
+      });
+    }
+  }
+);
+
+router.put(
+  '/:id/holds/:holdId',
+  requirePermissions('tabs.registrations'),
+  ...validateRegistrationHoldBody,
+  async (req, res) => {
+    try {
+      const authUser = await getRequestUser(req);
+      if (!authUser) {
+        return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+      }
+
+      const result = await updateRegistrationHoldResult({
+        authUser,
+        registrationId: req.params.id,
+        holdId: req.params.holdId,
+        body: req.body || {},
+        auditContext: buildAuditContext(req),
+      });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      console.error('휴원 수정 실패:', error);
+      const message = getSafeErrorMessage(error, '휴원 수정에 실패했습니다.');
+      return res.status(500).json({
+        status: 'fail',
+        message,
+      });
+    }
+  }
+);
+
+router.delete(
+  '/:id/holds/:holdId',
+  requirePermissions('tabs.registrations'),
+  async (req, res) => {
+    try {
+      const authUser = await getRequestUser(req);
+      if (!authUser) {
+        return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+      }
+
+      const result = await deleteRegistrationHoldResult({
+        authUser,
+        registrationId: req.params.id,
+        holdId: req.params.holdId,
+        auditContext: buildAuditContext(req),
+      });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      console.error('휴원 삭제 실패:', error);
+      const message = getSafeErrorMessage(error, '휴원 삭제에 실패했습니다.');
+      return res.status(500).json({
+        status: 'fail',
+        message,
+      });
+    }
+  }
+);
+
+module.exports = router;
@@ -6,8 +6,10 @@ const {
 } = require('../middleware/permissionMiddleware');
 const { validateRegistrationQuery } = require('../validators/registrationValidator');
 const {
+  loadRegistrationListPageResult,
   loadRegistrationListPayload,
 } = require('../services/registrationRouteService');
+const { hasRegistrationListQuery } = require('../shared/registrationListQuery');
 
 const router = express.Router();
 
@@ -22,6 +24,12 @@ router.get(
         return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
       }
 
+      // 조회 조건이 있으면 서버에서 걸러 한 페이지씩 돌려준다
+      if (hasRegistrationListQuery(req.query)) {
+        const result = await loadRegistrationListPageResult(authUser, req.query);
+        return res.status(result.statusCode).json(result.body);
+      }
+
       const { results, activeMerges } = await loadRegistrationListPayload(authUser);
       return res.json({ status: 'success', results, activeMerges });
     } catch (error) {
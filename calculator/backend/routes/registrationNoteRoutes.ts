@@ -7,9 +7,16 @@ const {
 const { validateNoteBody } = require('../validators/registrationValidator');
 const {
   isRegistrationAccessAllowed,
+  loadRegistrationNoteContent,
   loadRegistrationNoteRootContext,
   saveRegistrationNote,
 } = require('../services/registrationRouteService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 const router = express.Router();
 
@@ -50,7 +57,18 @@ router.put(
         return res.status(403).json({ status: 'fail', message: 'Permission denied.' });
       }
 
+      const previousContent = await loadRegistrationNoteContent(rootId);
       const saved = await saveRegistrationNote({ rootId, content });
+      if (previousContent !== content) {
+        await recordAuditLogs(buildAuditContext(req), [{
+          action: AUDIT_ACTIONS.registrationNote,
+          entityType: AUDIT_ENTITY_TYPES.registration,
+          entityId: rootId,
+          registrationId: rootId,
+          before: { note: previousContent },
+          after: { note: content },
+        }]);
+      }
       if (!saved) {
         return res.json({ status: 'success', note: '' });
       }
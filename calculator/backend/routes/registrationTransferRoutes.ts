@@ -15,6 +15,14 @@ const {
   cancelTransferRouteResult,
   createTransferRouteResult,
 } = require('../services/registrationTransferService');
+const { parseTransferSettlementInput } = require('../services/transferSettlementService');
+const { loadRegistrationById } = require('../services/registrationRouteService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 const router = express.Router();
 
@@ -30,6 +38,7 @@ router.post(
     const courseConfigSetName =
       normalizeCourseConfigSetName(req.body?.courseConfigSetName) || undefined;
     const nextWeeks = parseWeeks(req.body?.weeks);
+    const settlement = parseTransferSettlementInput(req.body?.settlement);
 
     if (!transferAt) {
       return res.status(400).json({
@@ -45,12 +54,17 @@ router.post(
       });
     }
 
+    if (settlement.error) {
+      return res.status(400).json({ status: 'fail', message: settlement.error });
+    }
+
     try {
       const authUser = await getRequestUser(req);
       if (!authUser) {
         return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
       }
 
+      const before = await loadRegistrationById(id);
       const result = await createTransferRouteResult({
         authUser,
         id,
@@ -59,8 +73,34 @@ router.post(
         courseId,
         courseConfigSetName,
         nextWeeks,
+        settlementInput: settlement.input,
       });
 
+      if (result.statusCode === 200) {
+        const createdId = String(result.body.record.id);
+        const [after, created] = await Promise.all([
+          loadRegistrationById(id),
+          loadRegistrationById(createdId),
+        ]);
+        await recordAuditLogs(buildAuditContext(req), [
+          {
+            action: AUDIT_ACTIONS.registrationTransfer,
+            entityType: AUDIT_ENTITY_TYPES.registration,
+            entityId: id,
+            registrationId: id,
+            before,
+            after,
+          },
+          {
+            action: AUDIT_ACTIONS.registrationTransfer,
+            entityType: AUDIT_ENTITY_TYPES.registration,
+            entityId: createdId,
+            registrationId: createdId,
+            after: created,
+          },
+        ]);
+      }
+
       return res.status(result.statusCode).json(result.body);
     } catch (error) {
       console.error('\uC804\uBC18 \uCC98\uB9AC \uC2E4\uD328:', error);
@@ -88,11 +128,38 @@ router.post(
         return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
       }
 
+      // 취소하면 전반 등록은 지워지므로 양쪽 모두 미리 읽어 둔다
+      const existing = await loadRegistrationById(id);
+      const linkedId = existing?.transferFromId || existing?.transferToId || '';
+      const linked = linkedId ? await loadRegistrationById(linkedId) : null;
       const result = await cancelTransferRouteResult({
         authUser,
         id,
       });
 
+      if (result.statusCode === 200) {
+        const originalId = String(result.body.record.id);
+        const [originalBefore, transferBefore] =
+          existing?.id === originalId ? [existing, linked] : [linked, existing];
+        await recordAuditLogs(buildAuditContext(req), [
+          {
+            action: AUDIT_ACTIONS.registrationTransferCancel,
+            entityType: AUDIT_ENTITY_TYPES.registration,
+            entityId: originalId,
+            registrationId: originalId,
+            before: originalBefore,
+            after: await loadRegistrationById(originalId),
+          },
+          {
+            action: AUDIT_ACTIONS.registrationTransferCancel,
+            entityType: AUDIT_ENTITY_TYPES.registration,
+            entityId: String(transferBefore?.id || ''),
+            registrationId: transferBefore?.id || null,
+            before: transferBefore,
+          },
+        ]);
+      }
+
       return res.status(result.statusCode).json(result.body);
     } catch (error) {
       console.error('\uC804\uBC18 \uCDE8\uC18C \uC2E4\uD328:', error);
@@ -5,14 +5,44 @@ const {
   getRequestUser,
   requirePermissions,
 } = require('../middleware/permissionMiddleware');
+const { getWithdrawalRefundError } = require('../services/paymentService');
 const {
   isRegistrationAccessAllowed,
   loadRegistrationById,
   updateRegistrationWithdrawal,
 } = require('../services/registrationRouteService');
+const { promoteWaitlistAfterSeatFreed } = require('../services/waitlistService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 const router = express.Router();
 
+const MAX_REFUND_REASON_LENGTH = 500;
+
+/**
+ * 퇴원 환불 정산 입력. 없으면 null, 형식이 틀리면 undefined.
+ * 금액은 서버 계산과 같아야 하고, override가 true일 때만 직접 정산한 금액을 그대로 받는다.
+ */
+function parseRefundInput(raw: unknown) {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== 'object') return undefined;
+  const input = raw as Record<string, unknown>;
+  const refundAmount = Number(input.refundAmount);
+  const retainedFee = Number(input.retainedFee);
+  if (!Number.isInteger(refundAmount) || refundAmount < 0) return undefined;
+  if (!Number.isInteger(retainedFee) || retainedFee < 0) return undefined;
+  return {
+    refundAmount,
+    retainedFee,
+    reason: String(input.reason || '').trim().slice(0, MAX_REFUND_REASON_LENGTH),
+    override: input.override === true,
+  };
+}
+
 router.patch(
   '/:id/withdrawal',
   requirePermissions('tabs.registrations'),
@@ -20,6 +50,7 @@ router.patch(
     const { id } = req.params;
     const raw = req.body?.withdrawnAt;
     const withdrawnAt = raw === null || raw === '' ? null : parseDateOnly(raw);
+    const refund = parseRefundInput(req.body?.refund);
 
     if (raw !== null && raw !== '' && !withdrawnAt) {
       return res.status(400).json({
@@ -28,6 +59,13 @@ router.patch(
       });
     }
 
+    if (refund === undefined) {
+      return res.status(400).json({
+        status: 'fail',
+        message: '\uD658\uBD88 \uAE08\uC561\uC744 \uD655\uC778\uD574 \uC8FC\uC138\uC694.',
+      });
+    }
+
     try {
       const authUser = await getRequestUser(req);
       if (!authUser) {
@@ -47,14 +85,36 @@ router.patch(
         return res.status(403).json({ status: 'fail', message: 'Permission denied.' });
       }
 
+      if (withdrawnAt && refund) {
+        const refundError = await getWithdrawalRefundError(existing, withdrawnAt, refund);
+        if (refundError) {
+          return res.status(refundError.statusCode).json(refundError.body);
+        }
+      }
+
       const updated = await updateRegistrationWithdrawal({
         id,
         withdrawnAt,
+        refund,
+        recordedBy: authUser.username,
       });
+      await recordAuditLogs(buildAuditContext(req), [{
+        action: AUDIT_ACTIONS.registrationWithdrawal,
+        entityType: AUDIT_ENTITY_TYPES.registration,
+        entityId: id,
+        registrationId: id,
+        before: existing,
+        after: { ...updated, refundReason: refund?.reason || '' },
+      }]);
+      if (withdrawnAt && !existing.withdrawnAt) {
+        await promoteWaitlistAfterSeatFreed(existing);
+      }
 
       return res.json({
         status: 'success',
         withdrawnAt: formatDateOnly(updated.withdrawnAt),
+        refundAmount: updated.refundAmount ?? null,
+        retainedFee: updated.retainedFee ?? null,
       });
     } catch (error) {
       console.error('\uD1F4\uC6D0 \uCC98\uB9AC \uC2E4\uD328:', error);
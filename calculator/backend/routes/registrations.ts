@@ -6,6 +6,8 @@ const registrationTransferRoutes = require('./registrationTransferRoutes');
 const registrationNoteRoutes = require('./registrationNoteRoutes');
 const registrationWithdrawalRoutes = require('./registrationWithdrawalRoutes');
 const registrationCourseNameRoutes = require('./registrationCourseNameRoutes');
+const registrationAuditRoutes = require('./registrationAuditRoutes');
+const registrationHoldRoutes = require('./registrationHoldRoutes');
 
 const router = express.Router();
 
@@ -15,5 +17,7 @@ router.use('/', registrationTransferRoutes);
 router.use('/', registrationNoteRoutes);
 router.use('/', registrationWithdrawalRoutes);
 router.use('/', registrationCourseNameRoutes);
+router.use('/', registrationAuditRoutes);
+router.use('/', registrationHoldRoutes);
 
 module.exports = router;
@@ -1,38 +1,213 @@
 const express = require('express') as typeof import('express');
-const { prisma } = require('../db/prisma');
 const { authMiddleware } = require('../middleware/authMiddleware');
 const { getSafeErrorMessage } = require('../utils/apiError');
 const {
+  getRequestUser,
   requireAnyPermissions,
 } = require('../middleware/permissionMiddleware');
+const { rematchSmsDeposits } = require('../services/smsDepositMatchService');
+const {
+  ignoreSmsDepositResult,
+  linkSmsDepositResult,
+  listSmsDepositsResult,
+  loadCandidatesResult,
+  loadUnpaidTargetsResult,
+  splitSmsDepositResult,
+  unlinkSmsDepositResult,
+} = require('../services/smsDepositReconcileService');
+const {
+  dismissUnparsedResult,
+  listUnparsedResult,
+  resolveUnparsedResult,
+} = require('../services/smsUnparsedService');
+const {
+  validateDepositQuery,
+  validateIgnoreBody,
+  validateLinkBody,
+  validateResolveBody,
+  validateSplitBody,
+} = require('../validators/smsDepositValidator');
 
 const router = express.Router();
 
 router.use(authMiddleware());
 router.use(requireAnyPermissions(['tabs.registrations']));
 
-// GET /api/sms-deposits — 입금 목록 조회
-router.get('/', async (req, res) => {
+// GET /api/sms-deposits — 입금 목록 조회 (from, to, status, depositor, limit)
+router.get('/', validateDepositQuery, async (req, res) => {
+  try {
+    const result = await listSmsDepositsResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '입금 내역을 불러오지 못했습니다.');
+    console.error('[SMS] 입금 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/sms-deposits/unpaid — 입금이 연결되지 않은 등록/연장
+router.get('/unpaid', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await loadUnpaidTargetsResult({ authUser });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '미납 목록을 불러오지 못했습니다.');
+    console.error('[SMS] 미납 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/sms-deposits/rematch — 미매칭/모호 입금 재매칭
+router.post('/rematch', async (req, res) => {
+  try {
+    const summary = await rematchSmsDeposits();
+    return res.json({ status: 'success', ...summary });
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '입금 재매칭 중 오류가 발생했습니다.');
+    console.error('[SMS] 입금 재매칭 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/sms-deposits/unparsed — 파서가 해석하지 못한 문자 (status=pending|resolved|dismissed)
+router.get('/unparsed', validateDepositQuery, async (req, res) => {
+  try {
+    const result = await listUnparsedResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '미해석 문자를 불러오지 못했습니다.');
+    console.error('[SMS] 미해석 문자 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/sms-deposits/unparsed/:id/resolve — 입금자명/금액을 직접 입력해 입금 등록
+router.post('/unparsed/:id/resolve', validateResolveBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await resolveUnparsedResult({
+      authUser,
+      id: req.params.id,
+      depositorName: req.body?.depositorName,
+      amount: req.body?.amount,
+      balance: req.body?.balance,
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '미해석 문자 처리에 실패했습니다.');
+    console.error('[SMS] 미해석 문자 처리 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/sms-deposits/unparsed/:id/dismiss — 입금과 무관한 문자 닫기
+router.post('/unparsed/:id/dismiss', async (req, res) => {
   try {
-    const rows = await prisma.smsDeposit.findMany({
-      orderBy: { receivedAt: 'desc' },
-      take: 100,
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await dismissUnparsedResult({ authUser, id: req.params.id });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '미해석 문자 처리에 실패했습니다.');
+    console.error('[SMS] 미해석 문자 닫기 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/sms-deposits/:id/candidates — 자동 매칭 후보
+router.get('/:id/candidates', async (req, res) => {
+  try {
+    const result = await loadCandidatesResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '매칭 후보를 불러오지 못했습니다.');
+    console.error('[SMS] 매칭 후보 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/sms-deposits/:id/link — 등록/연장에 수동 연결
+router.post('/:id/link', validateLinkBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await linkSmsDepositResult({
+      authUser,
+      id: req.params.id,
+      registrationId: req.body?.registrationId,
+      registrationExtensionId: req.body?.registrationExtensionId,
     });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '입금 연결에 실패했습니다.');
+    console.error('[SMS] 입금 연결 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
 
-    const results = rows.map((row: any) => ({
-      id: row.id,
-      depositorName: row.depositorName,
-      amount: row.amount,
-      balance: row.balance,
-      matchStatus: row.matchStatus,
-      registrationId: row.registrationId,
-      receivedAt: row.receivedAt?.toISOString() || '',
-    }));
+// POST /api/sms-deposits/:id/unlink — 연결/제외/분할 해제
+router.post('/:id/unlink', async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await unlinkSmsDepositResult({ authUser, id: req.params.id });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '입금 연결 해제에 실패했습니다.');
+    console.error('[SMS] 입금 연결 해제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
 
-    return res.json({ status: 'success', results });
+// POST /api/sms-deposits/:id/ignore — 환불/비수강료 입금 제외
+router.post('/:id/ignore', validateIgnoreBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await ignoreSmsDepositResult({
+      authUser,
+      id: req.params.id,
+      memo: req.body?.memo,
+    });
+    return res.status(result.statusCode).json(result.body);
   } catch (error) {
-    const message = getSafeErrorMessage(error, '입금 내역을 불러오지 못했습니다.');
-    console.error('[SMS] 입금 목록 조회 오류:', error);
+    const message = getSafeErrorMessage(error, '입금 제외 처리에 실패했습니다.');
+    console.error('[SMS] 입금 제외 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/sms-deposits/:id/split — 여러 등록에 나눠 연결
+router.post('/:id/split', validateSplitBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await splitSmsDepositResult({
+      authUser,
+      id: req.params.id,
+      allocations: req.body?.allocations,
+    });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '입금 분할에 실패했습니다.');
+    console.error('[SMS] 입금 분할 오류:', error);
     return res.status(500).json({ status: 'fail', message });
   }
 });
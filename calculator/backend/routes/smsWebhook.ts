@@ -3,6 +3,8 @@ const crypto = require('crypto') as typeof import('crypto');
 const { v4: uuidv4 } = require('uuid');
 const { prisma } = require('../db/prisma');
 const { getSafeErrorMessage } = require('../utils/apiError');
+const { matchSmsDeposit } = require('../services/smsDepositMatchService');
+const { parseBankSms } = require('../services/bankSmsParsers');
 
 const router = express.Router();
 
@@ -10,50 +12,6 @@ const WEBHOOK_SECRET = process.env.SMS_WEBHOOK_SECRET || '';
 const rawPath = process.env.SMS_WEBHOOK_PATH || '8229f3b7177e08cc3ddca5fe2c7a27b3';
 const WEBHOOK_PATH = rawPath.startsWith('/') ? rawPath : `/${rawPath}`;
 
-/**
- * 신한은행 입금 문자 파싱
- * 예시: "[신한은행] 입금 150,000원 홍길동 잔액 1,234,567원"
- *       "[신한은행]08:32 입금 50,000원 잔액817,320원 홍길동"
- */
-function parseShinhanSms(body: string): {
-  amount: number;
-  depositorName: string;
-  balance: number | null;
-} | null {
-  if (!body || !body.includes('입금')) return null;
-
-  // 금액 추출:
-  // 형식1: "입금 150,000원"
-  // 형식2: "입금   1,000,000 채윤서" (원 없음, 공백 여러 개)
-  const amountMatch = body.match(/입금\s+([\d,]+)\s*원?/);
-  const amount = amountMatch ? Number(amountMatch[1].replace(/,/g, '')) : 0;
-  if (!amount) return null;
-
-  // 잔액 추출: "잔액 1,234,567원" 또는 "잔액1,234,567원"
-  const balanceMatch = body.match(/잔액\s*([\d,]+)\s*원?/);
-  const balance = balanceMatch ? Number(balanceMatch[1].replace(/,/g, '')) : null;
-
-  // 입금자명 추출: 금액 뒤의 한글 이름
-  // "[Web발신] 신한04/03 14:37 140-009-205058 입금   1,000,000 채윤서"
-  let cleaned = body
-    .replace(/\[.*?\]/g, '')
-    .replace(/입금\s+[\d,]+\s*원?/g, '')
-    .replace(/잔액\s*[\d,]+\s*원?/g, '')
-    .replace(/\d{2}\/\d{2}/g, '')
-    .replace(/\d{2}:\d{2}/g, '')
-    .replace(/\d{4}[-/.]\d{2}[-/.]\d{2}/g, '')
-    .replace(/[\d-]{6,}/g, '')
-    .replace(/신한은행|신한/g, '')
-    .replace(/Web발신/g, '')
-    .trim();
-
-  // 남은 텍스트에서 한글 이름 추출 (2~4자)
-  const nameMatch = cleaned.match(/[가-힣]{2,4}/);
-  const depositorName = nameMatch ? nameMatch[0] : '';
-
-  return { amount, depositorName, balance };
-}
-
 // raw text 파서 (MacroDroid가 보내는 JSON에 제어문자가 포함될 수 있음)
 function safeParseBody(raw: string): Record<string, unknown> {
   try {
@@ -107,12 +65,6 @@ router.post(WEBHOOK_PATH, rawBodyParser, async (req, res) => {
       return res.status(400).json({ status: 'fail', message: '문자 내용이 없습니다.' });
     }
 
-    // 입금 문자가 아니면 무시
-    const parsed = parseShinhanSms(smsBody);
-    if (!parsed) {
-      return res.json({ status: 'success', message: '입금 문자가 아닙니다.', saved: false });
-    }
-
     // 중복 방지: rawBody + sender + 분 단위 시간 해시
     // - 같은 문자가 1분 내 재수신 → 중복 (네트워크 재시도)
     // - 같은 문자가 다른 분/다른 날 → 허용 (실제 반복 입금)
@@ -120,6 +72,43 @@ router.post(WEBHOOK_PATH, rawBodyParser, async (req, res) => {
     const minuteBucket = new Date().toISOString().slice(0, 16); // "2026-04-02T14:30"
     const dedupeKey = crypto.createHash('sha256').update(`${smsBody}|${sender || ''}|${minuteBucket}`).digest('hex');
 
+    const parseResult = parseBankSms({ sender, body: smsBody });
+
+    // 출금/승인 등 입금이 아닌 은행 알림은 무시
+    if (parseResult.status === 'ignored') {
+      return res.json({ status: 'success', message: '입금 문자가 아닙니다.', saved: false });
+    }
+
+    // 해석하지 못한 문자는 버리지 않고 검토 대기열에 보관
+    if (parseResult.status === 'unparsed') {
+      try {
+        await prisma.smsUnparsedMessage.create({
+          data: {
+            id: uuidv4(),
+            rawBody: smsBody,
+            sender: String(sender || ''),
+            bank: parseResult.bank,
+            dedupeHash: dedupeKey,
+            receivedAt: time ? new Date(time) : new Date(),
+          },
+        });
+      } catch (err: unknown) {
+        if ((err as Record<string, unknown>)?.code === 'P2002') {
+          return res.json({ status: 'success', message: '중복 문자입니다.', saved: false });
+        }
+        throw err;
+      }
+      console.log(`[SMS] 미해석 문자 보관: ${parseResult.bank || 'unknown'}`);
+      return res.json({
+        status: 'success',
+        message: '해석할 수 없는 문자입니다. 검토 대기열에 보관했습니다.',
+        saved: false,
+        queued: true,
+      });
+    }
+
+    const parsed = parseResult.deposit;
+
     let deposit;
     try {
       deposit = await prisma.smsDeposit.create({
@@ -127,6 +116,7 @@ router.post(WEBHOOK_PATH, rawBodyParser, async (req, res) => {
           id: uuidv4(),
           rawBody: smsBody,
           sender: String(sender || ''),
+          bank: parseResult.bank,
           depositorName: parsed.depositorName,
           amount: parsed.amount,
           balance: parsed.balance,
@@ -142,7 +132,16 @@ router.post(WEBHOOK_PATH, rawBodyParser, async (req, res) => {
       throw err;
     }
 
-    console.log(`[SMS] 입금: ${parsed.depositorName} ${parsed.amount.toLocaleString()}원`);
+    console.log(`[SMS] 입금(${parseResult.bank}): ${parsed.depositorName} ${parsed.amount.toLocaleString()}원`);
+
+    // 자동 매칭 실패는 저장 결과에 영향을 주지 않음 (미매칭으로 남고 재매칭 대상이 됨)
+    let matchStatus = deposit.matchStatus;
+    try {
+      const match = await matchSmsDeposit(deposit);
+      matchStatus = match.matchStatus;
+    } catch (matchError) {
+      console.error('[SMS] 자동 매칭 오류:', matchError);
+    }
 
     return res.json({
       status: 'success',
@@ -151,6 +150,7 @@ router.post(WEBHOOK_PATH, rawBodyParser, async (req, res) => {
         id: deposit.id,
         depositorName: parsed.depositorName,
         amount: parsed.amount,
+        matchStatus,
       },
     });
   } catch (error) {
@@ -0,0 +1,163 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const {
+  getRequestUser,
+  requirePermissions,
+} = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const { issueStudentCheckInCodeResult } = require('../services/attendanceCheckInService');
+const {
+  createStudentProfileResult,
+  deleteStudentProfileResult,
+  getStudentProfileResult,
+  linkStudentRegistrationsResult,
+  listStudentClustersResult,
+  listStudentProfilesResult,
+  unlinkStudentRegistrationResult,
+  updateStudentProfileResult,
+} = require('../services/studentProfileService');
+const {
+  validateStudentLinkBody,
+  validateStudentProfileBody,
+  validateStudentProfileQuery,
+} = require('../validators/studentProfileValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/student-profiles?searchTerm= — 계산기 학생 선택과 학생 탭 목록
+router.get('/', validateStudentProfileQuery, async (req, res) => {
+  try {
+    const result = await listStudentProfilesResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '학생 목록을 불러오지 못했습니다.');
+    console.error('[StudentProfile] 학생 목록 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// GET /api/student-profiles/clusters — 학생 연결 전 등록 묶음 후보
+router.get(
+  '/clusters',
+  requirePermissions('tabs.registrations'),
+  validateStudentProfileQuery,
+  async (req, res) => {
+    try {
+      const result = await listStudentClustersResult(req.query || {});
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      const message = getSafeErrorMessage(error, '등록 묶음을 불러오지 못했습니다.');
+      console.error('[StudentProfile] 등록 묶음 조회 오류:', error);
+      return res.status(500).json({ status: 'fail', message });
+    }
+  }
+);
+
+// GET /api/student-profiles/:id — 학생 정보와 등록 이력
+router.get('/:id', async (req, res) => {
+  try {
+    const result = await getStudentProfileResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '학생 정보를 불러오지 못했습니다.');
+    console.error('[StudentProfile] 학생 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/student-profiles — 학생 생성 (registrationIds로 묶음 확인)
+router.post('/', ...validateStudentProfileBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createStudentProfileResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '학생을 저장하지 못했습니다.');
+    console.error('[StudentProfile] 학생 생성 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// PUT /api/student-profiles/:id
+router.put(
+  '/:id',
+  requirePermissions('tabs.registrations'),
+  ...validateStudentProfileBody,
+  async (req, res) => {
+    try {
+      const result = await updateStudentProfileResult({ id: req.params.id, body: req.body || {} });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      const message = getSafeErrorMessage(error, '학생 정보를 수정하지 못했습니다.');
+      console.error('[StudentProfile] 학생 수정 오류:', error);
+      return res.status(500).json({ status: 'fail', message });
+    }
+  }
+);
+
+// DELETE /api/student-profiles/:id — 연결된 등록이 없을 때만
+router.delete('/:id', requirePermissions('tabs.registrations'), async (req, res) => {
+  try {
+    const result = await deleteStudentProfileResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '학생을 삭제하지 못했습니다.');
+    console.error('[StudentProfile] 학생 삭제 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/student-profiles/:id/check-in-code — 출석 키오스크 QR·PIN 발급 (다시 발급하면 이전 코드는 못 쓴다)
+router.post('/:id/check-in-code', requirePermissions('tabs.attendance'), async (req, res) => {
+  try {
+    const result = await issueStudentCheckInCodeResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '체크인 코드를 발급하지 못했습니다.');
+    console.error('[StudentProfile] 체크인 코드 발급 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/student-profiles/:id/registrations — 연결 전 등록을 기존 학생에 연결
+router.post(
+  '/:id/registrations',
+  requirePermissions('tabs.registrations'),
+  validateStudentLinkBody,
+  async (req, res) => {
+    try {
+      const result = await linkStudentRegistrationsResult({ id: req.params.id, body: req.body || {} });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      const message = getSafeErrorMessage(error, '등록을 연결하지 못했습니다.');
+      console.error('[StudentProfile] 등록 연결 오류:', error);
+      return res.status(500).json({ status: 'fail', message });
+    }
+  }
+);
+
+// DELETE /api/student-profiles/:id/registrations/:registrationId — 등록 연결 해제
+router.delete(
+  '/:id/registrations/:registrationId',
+  requirePermissions('tabs.registrations'),
+  async (req, res) => {
+    try {
+      const result = await unlinkStudentRegistrationResult({
+        id: req.params.id,
+        registrationId: req.params.registrationId,
+      });
+      return res.status(result.statusCode).json(result.body);
+    } catch (error) {
+      const message = getSafeErrorMessage(error, '등록 연결을 해제하지 못했습니다.');
+      console.error('[StudentProfile] 등록 연결 해제 오류:', error);
+      return res.status(500).json({ status: 'fail', message });
+    }
+  }
+);
+
+module.exports = router;
@@ -19,13 +19,26 @@ const {
 const {
   buildCourseIdentity,
   buildExistingStudentMap,
+  buildFeeCheckRecord,
   buildStudentCreateRows,
   buildStudentUpdateData,
   buildStudentWhereClause,
   findStudentDuplicates,
   formatStudentRecord,
   formatStudentResults,
+  hasFeeFieldChange,
 } = require('../services/studentRouteService');
+const { buildFeeMismatchFailure, findFeeMismatches } = require('../services/quoteService');
+const { sanitizeAppliedDiscountRuleIds } = require('../services/discountRuleService');
+const { buildCapacityFailure, findCapacityOverflows } = require('../services/capacityService');
+const { promoteWaitlistAfterSeatFreed } = require('../services/waitlistService');
+const { STUDENT_PROFILE_MESSAGES, findMissingStudentIds } = require('../services/studentProfileService');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  recordAuditLogs,
+} = require('../services/auditLogService');
 
 type RegistrationRow = {
   id?: string
@@ -150,6 +163,11 @@ router.post('/', ...validateStudentBody, async (req, res) => {
   }
 
   try {
+    const missingStudentIds = await findMissingStudentIds(newRecords);
+    if (missingStudentIds.length > 0) {
+      return res.status(400).json({ status: '실패', message: STUDENT_PROFILE_MESSAGES.studentIdNotFound });
+    }
+
     const conditions = newRecords.map((r: StudentRecord) => {
       const base = {
         name: r.name,
@@ -163,7 +181,7 @@ router.post('/', ...validateStudentBody, async (req, res) => {
     });
     const existingRows: RegistrationRow[] = await prisma.registration.findMany({
       where: { OR: conditions },
-      select: { id: true, name: true, course: true, courseId: true, courseConfigSetName: true },
+      select: { id: true, name: true, course: true, courseId: true, courseConfigSetName: true, studentId: true },
     });
 
     const existingByKey = buildExistingStudentMap(existingRows);
@@ -178,10 +196,56 @@ router.post('/', ...validateStudentBody, async (req, res) => {
       });
     }
 
-    const timestamp = new Date();
-    const { createdIds, rowsToCreate } = buildStudentCreateRows(newRecords, timestamp);
+    // 수강료는 서버 엔진으로 다시 계산해 확인한다. 불일치는 allowFeeMismatch로 확인한 경우만 저장.
+    const feeMismatches = await findFeeMismatches(newRecords);
+    const rejectedMismatches = feeMismatches.filter(
+      (item: { index: number }) => newRecords[item.index]?.allowFeeMismatch !== true
+    );
+    if (rejectedMismatches.length > 0) {
+      console.log(`[${new Date().toISOString()}] 수강료 불일치: ${rejectedMismatches.length}건`);
+      const failure = buildFeeMismatchFailure(rejectedMismatches);
+      return res.status(failure.statusCode).json(failure.body);
+    }
+    const expectedFeeByIndex = new Map<number, number>(
+      feeMismatches.map((item: { index: number; expectedFee: number }) => [item.index, item.expectedFee])
+    );
 
-    await prisma.registration.createMany({ data: rowsToCreate });
+    const timestamp = new Date();
+    const { createdIds, rowsToCreate } = buildStudentCreateRows(
+      await sanitizeAppliedDiscountRuleIds(newRecords),
+      timestamp,
+      expectedFeeByIndex
+    );
+
+    const auditContext = buildAuditContext(req);
+    const rejectedOverflows = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+      // 정원이 찬 반은 allowOverCapacity로 확인한 경우만 저장 (아니면 대기 등록 안내)
+      // 자리를 잠그고 같은 트랜잭션에서 세어, 동시에 저장해도 정원을 넘지 않는다
+      const capacityOverflows = await findCapacityOverflows(newRecords, tx);
+      const rejected = capacityOverflows.filter(
+        (item: { index: number }) => newRecords[item.index]?.allowOverCapacity !== true
+      );
+      if (rejected.length > 0) return rejected;
+
+      await tx.registration.createMany({ data: rowsToCreate });
+      await recordAuditLogs(
+        auditContext,
+        rowsToCreate.map((row: { id: string }) => ({
+          action: AUDIT_ACTIONS.registrationCreate,
+          entityType: AUDIT_ENTITY_TYPES.registration,
+          entityId: row.id,
+          registrationId: row.id,
+          after: row,
+        })),
+        tx
+      );
+      return [];
+    });
+    if (rejectedOverflows.length > 0) {
+      console.log(`[${new Date().toISOString()}] 정원 초과: ${rejectedOverflows.length}건`);
+      const failure = buildCapacityFailure(rejectedOverflows);
+      return res.status(failure.statusCode).json(failure.body);
+    }
 
     console.log(`[${new Date().toISOString()}] ${createdIds.length}건 추가 완료.`);
     res.json({ status: '성공', message: '데이터가 추가되었습니다.', ids: createdIds });
@@ -212,10 +276,48 @@ router.put('/:id', validateStudentUpdate, async (req, res) => {
       return res.status(400).json({ status: '실패', message: '전반 이력이 있는 등록은 수정할 수 없습니다. 전반취소 후 다시 등록해 주세요.' });
     }
 
+    if ((await findMissingStudentIds([updateRecord])).length > 0) {
+      return res.status(400).json({ status: '실패', message: STUDENT_PROFILE_MESSAGES.studentIdNotFound });
+    }
+
+    // 수강료에 영향을 주는 필드가 바뀌면 기존 값과 합쳐 다시 계산해 확인한다
+    let expectedTuitionFee: number | null | undefined;
+    if (hasFeeFieldChange(updateRecord)) {
+      const [mismatch] = await findFeeMismatches([buildFeeCheckRecord(existing, updateRecord)]);
+      if (mismatch && updateRecord.allowFeeMismatch !== true) {
+        const failure = buildFeeMismatchFailure([mismatch]);
+        return res.status(failure.statusCode).json(failure.body);
+      }
+      expectedTuitionFee = mismatch ? mismatch.expectedFee : null;
+    }
+
+    let recordToSave = updateRecord;
+    if (Object.prototype.hasOwnProperty.call(updateRecord, 'appliedDiscountRuleIds')) {
+      const [sanitized] = await sanitizeAppliedDiscountRuleIds([
+        { courseConfigSetName: existing.courseConfigSetName, ...updateRecord },
+      ]);
+      recordToSave = { ...updateRecord, appliedDiscountRuleIds: sanitized.appliedDiscountRuleIds };
+    }
+
     const timestamp = new Date();
-    await prisma.registration.update({
-      where: { id },
-      data: buildStudentUpdateData(updateRecord, timestamp),
+    const auditContext = buildAuditContext(req);
+    await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+      const updated = await tx.registration.update({
+        where: { id },
+        data: buildStudentUpdateData(recordToSave, timestamp, expectedTuitionFee),
+      });
+      await recordAuditLogs(
+        auditContext,
+        [{
+          action: AUDIT_ACTIONS.registrationUpdate,
+          entityType: AUDIT_ENTITY_TYPES.registration,
+          entityId: id,
+          registrationId: id,
+          before: existing,
+          after: updated,
+        }],
+        tx
+      );
     });
 
     console.log(`[${new Date().toISOString()}] ID ${id} 업데이트 완료.`);
@@ -243,7 +345,28 @@ router.delete('/:id', async (req, res) => {
       return res.status(400).json({ status: '실패', message: '전반 이력이 있는 등록은 삭제할 수 없습니다. 전반취소를 이용해 주세요.' });
     }
 
-    await prisma.registration.delete({ where: { id } });
+    // 수납 기록은 장부로 남겨야 하므로, 받은 돈이 있는 등록은 지우지 않는다 (퇴원 처리를 이용)
+    const paymentCount = await prisma.payment.count({ where: { registrationId: id } });
+    if (paymentCount > 0) {
+      return res.status(409).json({ status: '실패', message: '수납 기록이 있는 등록은 삭제할 수 없습니다. 퇴원 처리를 이용해 주세요.' });
+    }
+
+    const auditContext = buildAuditContext(req);
+    await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+      await tx.registration.delete({ where: { id } });
+      await recordAuditLogs(
+        auditContext,
+        [{
+          action: AUDIT_ACTIONS.registrationDelete,
+          entityType: AUDIT_ENTITY_TYPES.registration,
+          entityId: id,
+          registrationId: id,
+          before: existing,
+        }],
+        tx
+      );
+    });
+    await promoteWaitlistAfterSeatFreed(existing);
 
     console.log(`[${new Date().toISOString()}] ID ${id} 삭제 완료.`);
     res.json({ status: '성공', message: '삭제되었습니다.' });
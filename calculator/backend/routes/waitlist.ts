@@ -0,0 +1,75 @@
+const express = require('express') as typeof import('express');
+const { authMiddleware } = require('../middleware/authMiddleware');
+const {
+  getRequestUser,
+  requireAnyPermissions,
+} = require('../middleware/permissionMiddleware');
+const { getSafeErrorMessage } = require('../utils/apiError');
+const {
+  cancelWaitlistEntryResult,
+  convertWaitlistEntryResult,
+  createWaitlistEntriesResult,
+  listWaitlistResult,
+} = require('../services/waitlistService');
+const {
+  validateWaitlistBody,
+  validateWaitlistQuery,
+} = require('../validators/waitlistValidator');
+
+const router = express.Router();
+
+router.use(authMiddleware());
+
+// GET /api/waitlist?courseConfigSetName=&status= — 반별 순번이 붙은 대기 명단
+router.get('/', validateWaitlistQuery, async (req, res) => {
+  try {
+    const result = await listWaitlistResult(req.query || {});
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '대기 명단을 불러오지 못했습니다.');
+    console.error('[Waitlist] 대기 명단 조회 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/waitlist — 정원이 찬 반에 대기 등록 (계산기 저장 기록 그대로)
+router.post('/', ...validateWaitlistBody, async (req, res) => {
+  try {
+    const authUser = await getRequestUser(req);
+    if (!authUser) {
+      return res.status(401).json({ status: 'fail', message: 'Missing auth.' });
+    }
+    const result = await createWaitlistEntriesResult({ authUser, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '대기 등록에 실패했습니다.');
+    console.error('[Waitlist] 대기 등록 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// POST /api/waitlist/:id/convert — 대기자를 등록으로 전환
+router.post('/:id/convert', requireAnyPermissions(['tabs.registrations']), async (req, res) => {
+  try {
+    const result = await convertWaitlistEntryResult({ id: req.params.id, body: req.body || {} });
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '대기자를 등록으로 전환하지 못했습니다.');
+    console.error('[Waitlist] 대기자 전환 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+// DELETE /api/waitlist/:id — 대기 취소
+router.delete('/:id', requireAnyPermissions(['tabs.registrations']), async (req, res) => {
+  try {
+    const result = await cancelWaitlistEntryResult(req.params.id);
+    return res.status(result.statusCode).json(result.body);
+  } catch (error) {
+    const message = getSafeErrorMessage(error, '대기를 취소하지 못했습니다.');
+    console.error('[Waitlist] 대기 취소 오류:', error);
+    return res.status(500).json({ status: 'fail', message });
+  }
+});
+
+module.exports = router;
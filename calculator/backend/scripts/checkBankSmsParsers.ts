@@ -0,0 +1,54 @@
+/**
+ * 은행 입금 문자 파서 fixture 검사
+ *
+ * 실행: npm run check:sms-parsers
+ *
+ * services/bankSmsParsers/fixtures.ts 의 샘플을 파싱해 기대값과 다르면 종료 코드 1
+ */
+
+const { parseBankSms } = require('../services/bankSmsParsers');
+const { BANK_SMS_FIXTURES } = require('../services/bankSmsParsers/fixtures');
+
+type FixtureExpected = {
+  status: string
+  bank: string
+  amount?: number
+  depositorName?: string
+  balance?: number | null
+}
+
+function compareResult(result: any, expected: FixtureExpected) {
+  const actual: Record<string, unknown> = {
+    status: result.status,
+    bank: result.bank,
+  };
+  if (result.deposit) {
+    actual.amount = result.deposit.amount;
+    actual.depositorName = result.deposit.depositorName;
+    actual.balance = result.deposit.balance;
+  }
+  const mismatches = Object.entries(expected)
+    .filter(([key, value]) => actual[key] !== value)
+    .map(([key, value]) => `${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual[key])}`);
+  return mismatches;
+}
+
+function main() {
+  let failed = 0;
+  for (const fixture of BANK_SMS_FIXTURES) {
+    const result = parseBankSms({ sender: fixture.sender, body: fixture.body });
+    const mismatches = compareResult(result, fixture.expected);
+    if (mismatches.length) {
+      failed += 1;
+      console.error(`FAIL ${fixture.name}`);
+      for (const line of mismatches) console.error(`  - ${line}`);
+    } else {
+      console.log(`ok   ${fixture.name}`);
+    }
+  }
+
+  console.log(`\n${BANK_SMS_FIXTURES.length - failed}/${BANK_SMS_FIXTURES.length} passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
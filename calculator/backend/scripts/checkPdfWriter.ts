@@ -0,0 +1,116 @@
+/**
+ * PDF 작성기 구조 검사
+ *
+ * 실행: npm run check:pdf-writer
+ *
+ * utils/pdfWriter.ts 로 만든 문서의 xref 오프셋, 스트림 길이, UCS-2 16진 글자 인코딩을 확인하고 틀리면 종료 코드 1
+ */
+
+const { createPdfDocument } = require('../utils/pdfWriter');
+
+type PdfCheck = {
+  name: string
+  run: (pdf: string) => string[]
+}
+
+function buildSamplePdf() {
+  const doc = createPdfDocument();
+  doc.text(40, 40, '청구서 Invoice', { size: 20, bold: true });
+  doc.text(555, 80, '합계 1,200,000원', { align: 'right' });
+  doc.line(40, 100, 555, 100);
+  doc.rect(40, 110, 200, 30, { fillGray: 0.9, strokeGray: 0.5 });
+  doc.addPage();
+  doc.text(40, 40, '둘째 쪽 🙂 끝');
+  return doc.toBuffer('홍길동 청구서').toString('latin1');
+}
+
+function readXrefOffsets(pdf: string) {
+  const match = pdf.match(/xref\n0 (\d+)\n0000000000 65535 f \n((?:\d{10} 00000 n \n)*)/);
+  if (!match) return null;
+  const entries = match[2].trim().split('\n').map((line) => Number(line.slice(0, 10)));
+  return { size: Number(match[1]), offsets: entries };
+}
+
+const CHECKS: PdfCheck[] = [
+  {
+    name: 'xref offsets point at their objects',
+    run: (pdf) => {
+      const xref = readXrefOffsets(pdf);
+      if (!xref) return ['xref table not found'];
+      const errors: string[] = [];
+      if (xref.offsets.length !== xref.size - 1) {
+        errors.push(`xref size ${xref.size}, entries ${xref.offsets.length}`);
+      }
+      xref.offsets.forEach((offset, index) => {
+        const id = index + 1;
+        const expected = `${id} 0 obj\n`;
+        if (pdf.slice(offset, offset + expected.length) !== expected) {
+          errors.push(`object ${id}: offset ${offset} does not start "${id} 0 obj"`);
+        }
+      });
+      return errors;
+    },
+  },
+  {
+    name: 'startxref points at the xref table',
+    run: (pdf) => {
+      const match = pdf.match(/startxref\n(\d+)\n%%EOF\n$/);
+      if (!match) return ['startxref not found'];
+      const offset = Number(match[1]);
+      return pdf.slice(offset, offset + 5) === 'xref\n' ? [] : [`startxref ${offset} does not start "xref"`];
+    },
+  },
+  {
+    name: 'stream lengths match their content',
+    run: (pdf) => {
+      const errors: string[] = [];
+      const pattern = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g;
+      let match: RegExpExecArray | null;
+      let count = 0;
+      while ((match = pattern.exec(pdf))) {
+        count += 1;
+        if (Number(match[1]) !== match[2].length) {
+          errors.push(`stream ${count}: /Length ${match[1]}, actual ${match[2].length}`);
+        }
+      }
+      return count === 2 ? errors : [...errors, `expected 2 page streams, found ${count}`];
+    },
+  },
+  {
+    name: 'text is UCS-2 hex and the title is UTF-16BE with BOM',
+    run: (pdf) => {
+      const errors: string[] = [];
+      // 청구서 = U+CCAD U+AD6C U+C11C, 공백과 ASCII는 00xx
+      if (!pdf.includes('<CCADAD6CC11C00200049006E0076006F006900630065> Tj')) {
+        errors.push('Korean/ASCII text is not encoded as 4-digit hex');
+      }
+      // 이모지는 지우고 앞뒤 글자는 남긴다
+      if (!pdf.includes('<B458C9F80020CABD00200020B05D> Tj')) errors.push('emoji was not stripped');
+      if (!pdf.includes('/Title <FEFFD64DAE38B3D90020CCADAD6CC11C>')) {
+        errors.push('title is not <FEFF...> hex');
+      }
+      if (/[^\x00-\x7F]/.test(pdf)) errors.push('output contains non-ASCII bytes');
+      return errors;
+    },
+  },
+];
+
+function main() {
+  const pdf = buildSamplePdf();
+  let failed = 0;
+  for (const check of CHECKS) {
+    const errors = check.run(pdf);
+    if (errors.length) {
+      failed += 1;
+      console.error(`FAIL ${check.name}`);
+      for (const line of errors) console.error(`  - ${line}`);
+    } else {
+      console.log(`ok   ${check.name}`);
+    }
+  }
+
+  console.log(`\n${CHECKS.length - failed}/${CHECKS.length} passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
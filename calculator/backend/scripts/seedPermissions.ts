@@ -11,8 +11,15 @@ const PERMISSIONS = [
   { key: 'registrations.merges.manage', description: 'Merge manager button', scopeType: 'button' },
   { key: 'registrations.installments.view', description: 'Installment board button', scopeType: 'button' },
   { key: 'registrations.transfers.manage', description: 'Transfer button', scopeType: 'button' },
+  { key: 'notifications.send', description: 'Send parent SMS/AlimTalk messages', scopeType: 'button' },
+  { key: 'attendance.locks.override', description: 'Edit attendance in closed months', scopeType: 'button' },
 ];
 
+// 기본으로 일부 역할에만 주는 권한. 나머지는 모든 역할에 준다
+const PERMISSION_ROLE_LIMITS: Record<string, string[]> = {
+  'attendance.locks.override': ['master'],
+};
+
 async function main() {
   await prisma.role.createMany({
     data: ROLE_NAMES.map((name) => ({ name, isSystem: true })),
@@ -47,11 +54,16 @@ async function main() {
     await prisma.userRole.createMany({ data: userRoleRows, skipDuplicates: true });
   }
 
-  const rolePermissionRows = roles.flatMap((role: { id: string }) =>
-    permissions.map((permission: { id: string }) => ({
-      roleId: role.id,
-      permissionId: permission.id,
-    }))
+  const rolePermissionRows = roles.flatMap((role: { id: string; name: string }) =>
+    permissions
+      .filter((permission: { key: string }) => {
+        const limit = PERMISSION_ROLE_LIMITS[permission.key];
+        return !limit || limit.includes(role.name);
+      })
+      .map((permission: { id: string }) => ({
+        roleId: role.id,
+        permissionId: permission.id,
+      }))
   );
 
   if (rolePermissionRows.length > 0) {
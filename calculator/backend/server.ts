@@ -31,6 +31,17 @@ const attendanceRoutes = require('./routes/attendance');
 const registrationExtensionsRoutes = require('./routes/registrationExtensions');
 const smsWebhookRoutes = require('./routes/smsWebhook');
 const smsDepositsRoutes = require('./routes/smsDeposits');
+const paymentsRoutes = require('./routes/payments');
+const quotesRoutes = require('./routes/quotes');
+const discountRulesRoutes = require('./routes/discountRules');
+const invoicesRoutes = require('./routes/invoices');
+const capacityRoutes = require('./routes/capacity');
+const waitlistRoutes = require('./routes/waitlist');
+const studentProfilesRoutes = require('./routes/studentProfiles');
+const notificationsRoutes = require('./routes/notifications');
+const auditLogsRoutes = require('./routes/auditLogs');
+const analyticsRoutes = require('./routes/analytics');
+const { startNotificationDispatcher } = require('./services/notificationOutboxService');
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -92,6 +103,16 @@ app.use('/api/calendar-notes', calendarNotesRoutes);
 app.use('/api/attendance', attendanceRoutes);
 app.use('/api/registration-extensions', registrationExtensionsRoutes);
 app.use('/api/sms-deposits', smsDepositsRoutes);
+app.use('/api/payments', paymentsRoutes);
+app.use('/api/quotes', quotesRoutes);
+app.use('/api/discount-rules', discountRulesRoutes);
+app.use('/api/invoices', invoicesRoutes);
+app.use('/api/capacity', capacityRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/student-profiles', studentProfilesRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/audit-logs', auditLogsRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 app.use(globalErrorHandler);
 
@@ -101,4 +122,5 @@ setupGracefulShutdown(httpServer);
 
 httpServer.listen(port, () => {
   console.log(SERVER_READY_BANNER);
+  startNotificationDispatcher();
 });
@@ -0,0 +1,120 @@
+const { prisma } = require('../db/prisma');
+const { formatDateOnly } = require('../utils/dateUtils');
+const { computeEndDate } = require('../utils/parsers');
+const { loadAccessibleRegistrations } = require('./registrationAccessService');
+const { loadRegistrationCategoryMap } = require('./registrationListService');
+const { loadTransferSettlementMap } = require('./transferSettlementService');
+const {
+  buildRegistrationAnalytics,
+  parseAnalyticsQuery,
+} = require('../shared/registrationAnalytics');
+
+type AnalyticsRegistration = import('../shared/registrationAnalytics').AnalyticsRegistration
+type AnalyticsExtension = import('../shared/registrationAnalytics').AnalyticsExtension
+
+type AnalyticsSourceRow = {
+  id: string
+  name: string
+  studentId?: string | null
+  course?: string | null
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+  withdrawnAt?: Date | null
+  transferFromId?: string | null
+  transferToId?: string | null
+  transferAt?: Date | null
+  weeks?: number | null
+  skipWeeks?: number[] | null
+  tuitionFee?: number | null
+  retainedFee?: number | null
+}
+
+type AuthUserLike = {
+  id: string
+  role?: string | null
+} & Record<string, unknown>
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function getStudentKey(row: AnalyticsSourceRow) {
+  if (row.studentId) return `student:${row.studentId}`;
+  return `name:${String(row.name || '').trim()}`;
+}
+
+function toAnalyticsRegistration(
+  row: AnalyticsSourceRow,
+  category: string,
+  settlementDifference: number | null
+): AnalyticsRegistration {
+  return {
+    id: row.id,
+    studentKey: getStudentKey(row),
+    courseConfigSetName: String(row.courseConfigSetName || ''),
+    category,
+    course: String(row.course || ''),
+    startDate: formatDateOnly(row.startDate) || null,
+    endDate: row.endDate
+      ? formatDateOnly(row.endDate)
+      : computeEndDate(row.startDate, row.weeks ?? null, row.skipWeeks || []) || null,
+    withdrawnAt: formatDateOnly(row.withdrawnAt) || null,
+    transferFromId: row.transferFromId || null,
+    transferToId: row.transferToId || null,
+    transferAt: formatDateOnly(row.transferAt) || null,
+    tuitionFee: Number(row.tuitionFee || 0),
+    retainedFee: row.retainedFee ?? null,
+    settlementDifference,
+  };
+}
+
+/**
+ * 수강·매출 통계. 재등록 판정에 이전 등록이 필요해 볼 수 있는 등록 전체를 읽고,
+ * 비교할 설정 세트·카테고리는 집계 단계에서 거른다.
+ */
+async function loadRegistrationAnalyticsResult(authUser: AuthUserLike, rawQuery: Record<string, unknown>) {
+  const parsed = parseAnalyticsQuery(rawQuery);
+  if (!parsed.query) return fail(400, parsed.error);
+
+  const rows: AnalyticsSourceRow[] = await loadAccessibleRegistrations(authUser);
+  const ids = rows.map((row) => row.id);
+  const [categoryMap, settlementMap, extensionRows] = await Promise.all([
+    loadRegistrationCategoryMap(rows),
+    loadTransferSettlementMap(rows.filter((row) => row.transferFromId).map((row) => row.id)),
+    ids.length
+      ? prisma.registrationExtension.findMany({
+          where: { registrationId: { in: ids } },
+          select: { registrationId: true, startDate: true, tuitionFee: true },
+        })
+      : [],
+  ]);
+
+  const registrations = rows.map((row) => {
+    const settlement = settlementMap.get(row.id);
+    return toAnalyticsRegistration(row, categoryMap.get(row.id) || '', settlement ? settlement.difference : null);
+  });
+  const extensions: AnalyticsExtension[] = (
+    extensionRows as Array<{ registrationId: string; startDate: Date | null; tuitionFee: number | null }>
+  ).map((row) => ({
+    registrationId: row.registrationId,
+    startDate: formatDateOnly(row.startDate) || null,
+    tuitionFee: Number(row.tuitionFee || 0),
+  }));
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      report: buildRegistrationAnalytics({ registrations, extensions }, parsed.query),
+    },
+  };
+}
+
+module.exports = {
+  loadRegistrationAnalyticsResult,
+};
@@ -0,0 +1,250 @@
+const crypto = require('crypto') as typeof import('crypto');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeStringId } = require('../utils/dateUtils');
+const { computeEndDate } = require('../utils/parsers');
+const { isRateLimited } = require('./rateLimiter');
+const { loadAccessibleRegistrations } = require('./registrationAccessService');
+const { saveAttendanceEntriesResult } = require('./attendanceService');
+const { loadAttendanceStatusDefinitions } = require('./attendanceStatusService');
+const {
+  ATTENDANCE_CHECK_IN_MESSAGES,
+  CHECK_IN_PIN_LENGTH,
+  CHECK_IN_TOKEN_LENGTH,
+  buildCheckInQrPayload,
+  getCheckInStatus,
+  isCheckInClassDay,
+  parseCheckInCode,
+  parseCheckInGraceMinutes,
+  pickCheckInTargets,
+  resolveClassStartTime,
+} = require('../shared/attendanceCheckIn');
+const { getRegistrationListStatus } = require('../shared/registrationListQuery');
+const { getAttendedStatusKeys } = require('../shared/attendanceStatuses');
+
+type CheckInTimeTableEntry = import('../shared/attendanceCheckIn').CheckInTimeTableEntry
+type CheckInCandidate = import('../shared/attendanceCheckIn').CheckInCandidate
+
+type AuthUserLike = {
+  id: string
+  role?: string | null
+} & Record<string, unknown>
+
+type CheckInRegistrationRow = {
+  id: string
+  name: string
+  course?: string | null
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  courseType?: string | null
+  timeOption?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+  withdrawnAt?: Date | null
+  transferToId?: string | null
+  weeks?: number | null
+  skipWeeks?: number[] | null
+  selectedDates?: string[] | null
+}
+
+type CourseSetSchedule = {
+  courseInfo: Record<string, { name?: string; days?: number[] } | undefined>
+  timeTable: Record<string, CheckInTimeTableEntry | undefined>
+}
+
+const CHECK_IN_CODE_MESSAGES = {
+  studentNotFound: '학생 정보를 찾을 수 없습니다.',
+} as const;
+
+/** 키오스크 한 대(로그인한 직원)당 1분에 받는 체크인 수. PIN 대입을 막는다 */
+const CHECK_IN_RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const CHECK_IN_RATE_LIMIT_MAX = 30;
+const MAX_CODE_ATTEMPTS = 10;
+const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 로컬 기준 오늘 (YYYY-MM-DD)과 지금 (HH:MM) */
+function getLocalNow(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+}
+
+function createPin() {
+  return String(crypto.randomInt(0, 10 ** CHECK_IN_PIN_LENGTH)).padStart(CHECK_IN_PIN_LENGTH, '0');
+}
+
+function createToken() {
+  return Array.from(
+    { length: CHECK_IN_TOKEN_LENGTH },
+    () => TOKEN_ALPHABET[crypto.randomInt(0, TOKEN_ALPHABET.length)]
+  ).join('');
+}
+
+function formatCheckInCode(row: { checkInPin?: string | null; checkInToken?: string | null }) {
+  if (!row.checkInPin || !row.checkInToken) return null;
+  return { pin: row.checkInPin, qrPayload: buildCheckInQrPayload(row.checkInToken) };
+}
+
+/**
+ * POST /api/student-profiles/:id/check-in-code — 학생 QR·PIN 발급. 이미 있으면 새로 바꾼다.
+ */
+async function issueStudentCheckInCodeResult(id: unknown) {
+  const studentId = normalizeStringId(id);
+  const existing = studentId ? await prisma.student.findUnique({ where: { id: studentId } }) : null;
+  if (!existing) return fail(404, CHECK_IN_CODE_MESSAGES.studentNotFound);
+
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt += 1) {
+    const checkInPin = createPin();
+    const checkInToken = createToken();
+    const taken = await prisma.student.count({
+      where: { OR: [{ checkInPin }, { checkInToken }], NOT: { id: existing.id } },
+    });
+    if (taken) continue;
+
+    const row = await prisma.student.update({
+      where: { id: existing.id },
+      data: { checkInPin, checkInToken },
+    });
+    return { statusCode: 200, body: { status: 'success', checkInCode: formatCheckInCode(row) } };
+  }
+  throw new Error('Failed to issue a unique check-in code.');
+}
+
+async function loadCourseSetSchedules(setNames: string[]) {
+  const map = new Map<string, CourseSetSchedule>();
+  if (!setNames.length) return map;
+  const rows: Array<{ name: string; data: unknown }> = await prisma.courseConfigSet.findMany({
+    where: { name: { in: setNames } },
+    select: { name: true, data: true },
+  });
+  for (const row of rows) {
+    const data = (row.data || {}) as Record<string, unknown>;
+    map.set(row.name, {
+      courseInfo: (data.courseInfo && typeof data.courseInfo === 'object' ? data.courseInfo : {}) as CourseSetSchedule['courseInfo'],
+      timeTable: (data.timeTable && typeof data.timeTable === 'object' ? data.timeTable : {}) as CourseSetSchedule['timeTable'],
+    });
+  }
+  return map;
+}
+
+function isActiveOn(row: CheckInRegistrationRow, date: string) {
+  const dates = {
+    startDate: formatDateOnly(row.startDate),
+    endDate: row.endDate
+      ? formatDateOnly(row.endDate)
+      : computeEndDate(row.startDate, row.weeks ?? null, row.skipWeeks || []),
+    withdrawnAt: formatDateOnly(row.withdrawnAt),
+    transferToId: row.transferToId || null,
+  };
+  return getRegistrationListStatus(dates, date) === 'active';
+}
+
+/**
+ * POST /api/attendance/check-in — 키오스크 셀프 체크인.
+ * 코드로 학생을 찾아 오늘 수업이 있는 등록 가운데 지금과 가장 가까운 수업을 출석(유예 시간이 지나면 지각)으로 저장한다.
+ * 이미 출석·지각으로 기록된 수업은 그대로 둔다.
+ */
+async function checkInAttendanceResult({
+  authUser,
+  body,
+  auditContext,
+  now = new Date(),
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+  auditContext: unknown
+  now?: Date
+}) {
+  if (await isRateLimited([`attendance-check-in:${authUser.id}`], CHECK_IN_RATE_LIMIT_WINDOW_MS, CHECK_IN_RATE_LIMIT_MAX)) {
+    return fail(429, ATTENDANCE_CHECK_IN_MESSAGES.rateLimited);
+  }
+  if (!String(body?.code ?? '').trim()) return fail(400, ATTENDANCE_CHECK_IN_MESSAGES.codeRequired);
+  const code = parseCheckInCode(body?.code);
+  if (!code) return fail(404, ATTENDANCE_CHECK_IN_MESSAGES.invalidCode);
+  const grace = parseCheckInGraceMinutes(body?.graceMinutes);
+  if (grace.error) return fail(400, grace.error);
+
+  const student = await prisma.student.findUnique({
+    where: code.type === 'pin' ? { checkInPin: code.value } : { checkInToken: code.value },
+    select: { id: true, name: true },
+  });
+  if (!student) return fail(404, ATTENDANCE_CHECK_IN_MESSAGES.invalidCode);
+
+  const { date, time } = getLocalNow(now);
+  const courseConfigSetName = String(body?.courseConfigSetName ?? '').trim();
+  const rows: CheckInRegistrationRow[] = (
+    await loadAccessibleRegistrations(authUser, {
+      studentId: student.id,
+      ...(courseConfigSetName ? { courseConfigSetName } : {}),
+    })
+  ).filter((row: CheckInRegistrationRow) => isActiveOn(row, date));
+
+  const schedules = await loadCourseSetSchedules(
+    Array.from(new Set(rows.map((row) => String(row.courseConfigSetName || '').trim()).filter(Boolean)))
+  );
+  const candidates = rows.flatMap((row) => {
+    const schedule = schedules.get(String(row.courseConfigSetName || ''));
+    const info = schedule?.courseInfo[String(row.courseId || '')];
+    if (!isCheckInClassDay({ courseDays: info?.days, selectedDates: row.selectedDates }, date)) return [];
+    return [{ registrationId: row.id, startTime: resolveClassStartTime(row, schedule?.timeTable, info?.name || '') }];
+  });
+  const targets: CheckInCandidate[] = pickCheckInTargets(candidates, time);
+  if (!targets.length) return fail(404, ATTENDANCE_CHECK_IN_MESSAGES.noClassToday);
+
+  const existingRows: Array<{ registrationId: string; status: string }> = await prisma.attendanceRecord.findMany({
+    where: {
+      registrationId: { in: targets.map((target) => target.registrationId) },
+      date: new Date(`${date}T00:00:00Z`),
+    },
+    select: { registrationId: true, status: true },
+  });
+  const existing = new Map(existingRows.map((row) => [row.registrationId, row.status]));
+  const checkedInStatuses: Set<string> = getAttendedStatusKeys(await loadAttendanceStatusDefinitions());
+  const results = targets.map((target) => {
+    const row = rows.find((item) => item.id === target.registrationId);
+    const previous = existing.get(target.registrationId) || '';
+    const alreadyCheckedIn = checkedInStatuses.has(previous);
+    return {
+      registrationId: target.registrationId,
+      course: String(row?.course || ''),
+      startTime: target.startTime,
+      status: alreadyCheckedIn ? previous : getCheckInStatus(target.startTime, time, grace.value),
+      alreadyCheckedIn,
+    };
+  });
+
+  const entries = results
+    .filter((result) => !result.alreadyCheckedIn)
+    .map((result) => ({ registrationId: result.registrationId, date, status: result.status }));
+  if (entries.length) {
+    const saved = await saveAttendanceEntriesResult({ authUser, entries, auditContext });
+    if (saved.statusCode !== 200) return saved;
+  }
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      student: { id: student.id, name: student.name },
+      date,
+      checkedInAt: time,
+      results,
+    },
+  };
+}
+
+module.exports = {
+  CHECK_IN_CODE_MESSAGES,
+  checkInAttendanceResult,
+  formatCheckInCode,
+  issueStudentCheckInCodeResult,
+};
@@ -0,0 +1,141 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { normalizeStringId } = require('../utils/dateUtils');
+const { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, recordAuditLogs } = require('./auditLogService');
+const { ATTENDANCE_LOCK_MESSAGES, isAttendanceMonthKey } = require('../shared/attendanceLocks');
+
+type AttendanceMonthLock = import('../shared/attendanceLocks').AttendanceMonthLock
+
+type AuditContext = {
+  actor: string
+  actorRole: string
+  requestId: string
+}
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type AttendanceLockRow = AttendanceMonthLock & {
+  id: string
+  lockedBy: string
+  createdAt: Date
+}
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatAttendanceLock(row: AttendanceLockRow) {
+  return {
+    id: row.id,
+    courseConfigSetName: row.courseConfigSetName,
+    month: row.month,
+    lockedBy: row.lockedBy,
+    createdAt: row.createdAt,
+  };
+}
+
+/** 세트 이름들과 달들에 걸린 마감. 출석 저장에서 마감된 날짜를 거를 때 쓴다 */
+async function loadAttendanceMonthLocks(
+  courseConfigSetNames: string[],
+  months: string[]
+): Promise<AttendanceLockRow[]> {
+  if (!courseConfigSetNames.length || !months.length) return [];
+  return prisma.attendanceMonthLock.findMany({
+    where: {
+      courseConfigSetName: { in: Array.from(new Set(courseConfigSetNames)) },
+      month: { in: Array.from(new Set(months)) },
+    },
+  });
+}
+
+/** 세트 이름과 달은 둘 다 선택이다. 없으면 전체 */
+async function listAttendanceLocksResult(query: Record<string, unknown>) {
+  const courseConfigSetName = String(query?.courseConfigSetName ?? '').trim();
+  const month = String(query?.month ?? '').trim();
+  if (month && !isAttendanceMonthKey(month)) return fail(400, ATTENDANCE_LOCK_MESSAGES.invalidMonth);
+
+  const rows: AttendanceLockRow[] = await prisma.attendanceMonthLock.findMany({
+    where: {
+      ...(courseConfigSetName ? { courseConfigSetName } : {}),
+      ...(month ? { month } : {}),
+    },
+    orderBy: [{ month: 'desc' }, { courseConfigSetName: 'asc' }],
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatAttendanceLock) } };
+}
+
+async function createAttendanceLockResult({
+  authUser,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const courseConfigSetName = String(body?.courseConfigSetName ?? '').trim();
+  const month = String(body?.month ?? '').trim();
+  if (!courseConfigSetName) return fail(400, ATTENDANCE_LOCK_MESSAGES.courseConfigSetRequired);
+  if (!isAttendanceMonthKey(month)) return fail(400, ATTENDANCE_LOCK_MESSAGES.invalidMonth);
+
+  const existing = await prisma.attendanceMonthLock.findUnique({
+    where: { courseConfigSetName_month: { courseConfigSetName, month } },
+  });
+  if (existing) return fail(409, ATTENDANCE_LOCK_MESSAGES.alreadyLocked);
+
+  const row = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const created: AttendanceLockRow = await tx.attendanceMonthLock.create({
+      data: { id: uuidv4(), courseConfigSetName, month, lockedBy: authUser.username || '' },
+    });
+    await recordAuditLogs(
+      auditContext,
+      [{
+        action: AUDIT_ACTIONS.attendanceLock,
+        entityType: AUDIT_ENTITY_TYPES.attendanceMonthLock,
+        entityId: created.id,
+        before: null,
+        after: { courseConfigSetName, month },
+      }],
+      tx
+    );
+    return created;
+  });
+  return { statusCode: 201, body: { status: 'success', lock: formatAttendanceLock(row) } };
+}
+
+async function deleteAttendanceLockResult({ id, auditContext }: { id: unknown; auditContext: AuditContext }) {
+  const lockId = normalizeStringId(id);
+  const existing: AttendanceLockRow | null = lockId
+    ? await prisma.attendanceMonthLock.findUnique({ where: { id: lockId } })
+    : null;
+  if (!existing) return fail(404, ATTENDANCE_LOCK_MESSAGES.lockNotFound);
+
+  await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.attendanceMonthLock.delete({ where: { id: existing.id } });
+    await recordAuditLogs(
+      auditContext,
+      [{
+        action: AUDIT_ACTIONS.attendanceUnlock,
+        entityType: AUDIT_ENTITY_TYPES.attendanceMonthLock,
+        entityId: existing.id,
+        before: { courseConfigSetName: existing.courseConfigSetName, month: existing.month },
+        after: null,
+      }],
+      tx
+    );
+  });
+  return { statusCode: 200, body: { status: 'success', id: existing.id } };
+}
+
+module.exports = {
+  createAttendanceLockResult,
+  deleteAttendanceLockResult,
+  listAttendanceLocksResult,
+  loadAttendanceMonthLocks,
+};
@@ -0,0 +1,301 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeStringId } = require('../utils/dateUtils');
+const { parseStrictDateOnly } = require('../utils/parsers');
+const {
+  isRegistrationAccessAllowed,
+  loadAccessibleRegistrations,
+} = require('./registrationAccessService');
+const { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, recordAuditLogs } = require('./auditLogService');
+const { loadAttendanceStatusDefinitions } = require('./attendanceStatusService');
+const {
+  isAttendanceMakeupOutstanding,
+  parseAttendanceMakeupInput,
+  parseAttendanceMakeupQuery,
+} = require('../shared/attendanceMakeups');
+const { getMissedStatusKeys } = require('../shared/attendanceStatuses');
+
+type AttendanceMakeupInput = import('../shared/attendanceMakeups').AttendanceMakeupInput
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type AuditContext = {
+  actor: string
+  actorRole: string
+  requestId: string
+}
+
+type MakeupRegistration = {
+  id: string
+  name?: string | null
+  course?: string | null
+  courseConfigSetName?: string | null
+} & Record<string, unknown>
+
+type MakeupRow = {
+  id: string
+  attendanceRecordId: string
+  registrationId: string
+  targetCourse: string
+  targetCourseId: string
+  targetDate: Date | null
+  targetTime: string
+  status: string
+  recordingSent: boolean
+  memo: string
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+  attendanceRecord?: { date: Date; status: string } | null
+}
+
+const ATTENDANCE_MAKEUP_ROUTE_MESSAGES = {
+  registrationNotFound: '해당 ID의 등록 정보를 찾을 수 없습니다.',
+  makeupNotFound: '해당 보강 기록을 찾을 수 없습니다.',
+  invalidAbsenceDate: '결석한 날짜를 확인해 주세요.',
+  notAbsent: '결석으로 기록된 수업에만 보강을 잡을 수 있습니다.',
+  duplicate: '이미 보강이 잡힌 결석입니다.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatMakeup(row: MakeupRow, registration?: MakeupRegistration | null) {
+  return {
+    id: row.id,
+    attendanceRecordId: row.attendanceRecordId,
+    registrationId: row.registrationId,
+    name: String(registration?.name || ''),
+    course: String(registration?.course || ''),
+    absenceDate: row.attendanceRecord ? formatDateOnly(row.attendanceRecord.date) : '',
+    absenceStatus: row.attendanceRecord?.status || '',
+    targetCourse: row.targetCourse || '',
+    targetCourseId: row.targetCourseId || '',
+    targetDate: row.targetDate ? formatDateOnly(row.targetDate) : '',
+    targetTime: row.targetTime || '',
+    status: row.status,
+    recordingSent: row.recordingSent === true,
+    outstanding: isAttendanceMakeupOutstanding(row),
+    memo: row.memo || '',
+    createdBy: row.createdBy || '',
+    createdAt: row.createdAt ? row.createdAt.toISOString() : '',
+    updatedAt: row.updatedAt ? row.updatedAt.toISOString() : '',
+  };
+}
+
+type FormattedMakeup = ReturnType<typeof formatMakeup>
+
+function toMakeupData(input: AttendanceMakeupInput) {
+  return {
+    targetCourse: input.targetCourse,
+    targetCourseId: input.targetCourseId,
+    targetDate: input.targetDate ? parseStrictDateOnly(input.targetDate) : null,
+    targetTime: input.targetTime,
+    status: input.status,
+    recordingSent: input.recordingSent,
+    memo: input.memo,
+  };
+}
+
+async function writeMakeupAudit(
+  auditContext: AuditContext,
+  before: FormattedMakeup | null,
+  after: FormattedMakeup | null,
+  tx: import('@prisma/client').Prisma.TransactionClient
+) {
+  const current = after || before;
+  await recordAuditLogs(
+    auditContext,
+    [{
+      action: AUDIT_ACTIONS.attendanceMakeup,
+      entityType: AUDIT_ENTITY_TYPES.attendanceMakeup,
+      entityId: String(current?.id || ''),
+      registrationId: String(current?.registrationId || ''),
+      before,
+      after,
+    }],
+    tx
+  );
+}
+
+/** 보강을 읽고 등록 권한까지 확인한다 */
+async function loadMakeupContext(authUser: AuthUserLike, id: unknown) {
+  const makeupId = normalizeStringId(id);
+  const row: MakeupRow | null = makeupId
+    ? await prisma.attendanceMakeup.findUnique({
+      where: { id: makeupId },
+      include: { attendanceRecord: { select: { date: true, status: true } } },
+    })
+    : null;
+  if (!row) return { error: fail(404, ATTENDANCE_MAKEUP_ROUTE_MESSAGES.makeupNotFound) };
+
+  const registration: MakeupRegistration | null = await prisma.registration.findUnique({
+    where: { id: row.registrationId },
+  });
+  const canAccess = await isRegistrationAccessAllowed(authUser, [registration]);
+  if (!canAccess) return { error: fail(403, 'Permission denied.') };
+  return { row, registration };
+}
+
+/**
+ * GET /api/attendance/makeups — 볼 수 있는 등록의 보강. from/to는 보강 날짜 기준이고, 날짜를 주면 날짜 미정인 보강은 빠진다.
+ */
+async function listAttendanceMakeupsResult(authUser: AuthUserLike, rawQuery: Record<string, unknown>) {
+  const parsed = parseAttendanceMakeupQuery(rawQuery);
+  if (!parsed.query) return fail(400, parsed.error);
+  const query = parsed.query;
+
+  const where: Record<string, unknown> = {};
+  if (query.registrationIds.length) where.registrationId = { in: query.registrationIds };
+  if (query.from || query.to) {
+    const targetDate: Record<string, Date> = {};
+    if (query.from) targetDate.gte = new Date(`${query.from}T00:00:00Z`);
+    if (query.to) targetDate.lte = new Date(`${query.to}T00:00:00Z`);
+    where.targetDate = targetDate;
+  }
+  if (query.outstanding) {
+    where.status = 'scheduled';
+    where.recordingSent = false;
+  }
+
+  const rows: MakeupRow[] = await prisma.attendanceMakeup.findMany({
+    where,
+    include: { attendanceRecord: { select: { date: true, status: true } } },
+    orderBy: [{ targetDate: { sort: 'asc', nulls: 'last' } }, { targetTime: 'asc' }, { createdAt: 'asc' }],
+  });
+  const registrationIds = Array.from(new Set(rows.map((row) => row.registrationId)));
+  const registrations: MakeupRegistration[] = registrationIds.length
+    ? await loadAccessibleRegistrations(authUser, { id: { in: registrationIds } })
+    : [];
+  const registrationMap = new Map(registrations.map((row) => [String(row.id), row]));
+
+  const results = rows
+    .filter((row) => registrationMap.has(row.registrationId))
+    .map((row) => formatMakeup(row, registrationMap.get(row.registrationId)));
+  return { statusCode: 200, body: { status: 'success', results } };
+}
+
+/**
+ * POST /api/attendance/makeups — 결석한 수업(registrationId + date)에 보강을 잡는다
+ */
+async function createAttendanceMakeupResult({
+  authUser,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const registrationId = normalizeStringId(body?.registrationId);
+  const absenceDate = parseStrictDateOnly(body?.date);
+  if (!absenceDate) return fail(400, ATTENDANCE_MAKEUP_ROUTE_MESSAGES.invalidAbsenceDate);
+  const parsed = parseAttendanceMakeupInput(body, formatDateOnly(absenceDate));
+  if (!parsed.input) return fail(400, parsed.error);
+
+  const registration: MakeupRegistration | null = registrationId
+    ? await prisma.registration.findUnique({ where: { id: registrationId } })
+    : null;
+  if (!registration) return fail(404, ATTENDANCE_MAKEUP_ROUTE_MESSAGES.registrationNotFound);
+  const canAccess = await isRegistrationAccessAllowed(authUser, [registration]);
+  if (!canAccess) return fail(403, 'Permission denied.');
+
+  const record: { id: string; date: Date; status: string; makeup?: { id: string } | null } | null =
+    await prisma.attendanceRecord.findUnique({
+      where: { registrationId_date: { registrationId: registration.id, date: absenceDate } },
+      include: { makeup: { select: { id: true } } },
+    });
+  const missedStatuses: Set<string> = getMissedStatusKeys(await loadAttendanceStatusDefinitions());
+  if (!record || !missedStatuses.has(record.status)) return fail(400, ATTENDANCE_MAKEUP_ROUTE_MESSAGES.notAbsent);
+  if (record.makeup) return fail(409, ATTENDANCE_MAKEUP_ROUTE_MESSAGES.duplicate);
+
+  const makeup = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const row = await tx.attendanceMakeup.create({
+      data: {
+        id: uuidv4(),
+        attendanceRecordId: record.id,
+        registrationId: registration.id,
+        ...toMakeupData(parsed.input as AttendanceMakeupInput),
+        createdBy: auditContext.actor,
+      },
+    });
+    const after = formatMakeup({ ...row, attendanceRecord: record }, registration);
+    await writeMakeupAudit(auditContext, null, after, tx);
+    return after;
+  });
+  return { statusCode: 201, body: { status: 'success', makeup } };
+}
+
+/**
+ * PUT /api/attendance/makeups/:id — 보강 수업·상태·녹화본 발송 여부 수정
+ */
+async function updateAttendanceMakeupResult({
+  authUser,
+  id,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  id: unknown
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const context = await loadMakeupContext(authUser, id);
+  if (context.error) return context.error;
+  const existing = context.row as MakeupRow;
+
+  const absenceDate = existing.attendanceRecord ? formatDateOnly(existing.attendanceRecord.date) : '';
+  const parsed = parseAttendanceMakeupInput(body, absenceDate);
+  if (!parsed.input) return fail(400, parsed.error);
+
+  const makeup = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const row = await tx.attendanceMakeup.update({
+      where: { id: existing.id },
+      data: toMakeupData(parsed.input as AttendanceMakeupInput),
+    });
+    const before = formatMakeup(existing, context.registration);
+    const after = formatMakeup({ ...row, attendanceRecord: existing.attendanceRecord }, context.registration);
+    await writeMakeupAudit(auditContext, before, after, tx);
+    return after;
+  });
+  return { statusCode: 200, body: { status: 'success', makeup } };
+}
+
+/**
+ * DELETE /api/attendance/makeups/:id
+ */
+async function deleteAttendanceMakeupResult({
+  authUser,
+  id,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  id: unknown
+  auditContext: AuditContext
+}) {
+  const context = await loadMakeupContext(authUser, id);
+  if (context.error) return context.error;
+  const existing = context.row as MakeupRow;
+
+  await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.attendanceMakeup.delete({ where: { id: existing.id } });
+    await writeMakeupAudit(auditContext, formatMakeup(existing, context.registration), null, tx);
+  });
+  return { statusCode: 200, body: { status: 'success', id: existing.id } };
+}
+
+module.exports = {
+  ATTENDANCE_MAKEUP_ROUTE_MESSAGES,
+  createAttendanceMakeupResult,
+  deleteAttendanceMakeupResult,
+  listAttendanceMakeupsResult,
+  updateAttendanceMakeupResult,
+};
@@ -0,0 +1,314 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly } = require('../utils/dateUtils');
+const { parseStrictDateOnly } = require('../utils/parsers');
+const {
+  isCategoryAccessBypassed,
+  loadAccessContext,
+  isRegistrationAllowed,
+} = require('./categoryAccessService');
+const { emitAttendanceUpdates } = require('../realtime/socket');
+const {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  recordAuditLogs,
+} = require('./auditLogService');
+const { loadAttendanceStatusDefinitions } = require('./attendanceStatusService');
+const { loadAttendanceMonthLocks } = require('./attendanceLockService');
+const { canUser } = require('./permissionService');
+const {
+  PENDING_ATTENDANCE_STATUS,
+  isWritableAttendanceStatus,
+  parseAttendanceRecordNote,
+} = require('../shared/attendanceStatuses');
+const {
+  ATTENDANCE_LOCK_MESSAGES,
+  ATTENDANCE_LOCK_OVERRIDE_PERMISSION,
+  buildAttendanceLockSet,
+  getAttendanceMonthKey,
+  isAttendanceDateLocked,
+  parseAttendanceOverrideReason,
+} = require('../shared/attendanceLocks');
+
+type AuthUserLike = {
+  id: string
+  role?: string | null
+} & Record<string, unknown>
+
+type AttendanceEntry = {
+  registrationId?: string | number
+  date?: string
+  status?: string
+  note?: unknown
+}
+type NormalizedEntry = {
+  registrationId: string
+  date: Date
+  status: string
+  /** undefined면 기존 사유를 그대로 둔다 */
+  note?: string
+}
+type PreviousAttendanceRow = { registrationId: string; date: Date; status: string; note: string }
+type RegistrationRow = {
+  id: string | number
+  courseId?: string
+  course?: string
+  courseConfigSetName?: string
+}
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 감사 기록 값: 사유가 있으면 "상태: 사유" */
+function formatAuditValue(status: string, note: string) {
+  return note ? `${status}: ${note}` : status;
+}
+
+/**
+ * 등록별로 바뀐 날짜만 모아 감사 기록을 만든다. pending은 기록 없음(null)으로 남긴다.
+ */
+function buildAttendanceAuditEntries(entries: NormalizedEntry[], previousRows: PreviousAttendanceRow[]) {
+  const previous = new Map(
+    previousRows.map((row) => [`${row.registrationId}|${formatDateOnly(row.date)}`, row])
+  );
+  const changes = new Map<string, { before: Record<string, string | null>; after: Record<string, string | null> }>();
+  for (const entry of entries) {
+    const date = formatDateOnly(entry.date);
+    const row = previous.get(`${entry.registrationId}|${date}`);
+    const beforeStatus = row ? formatAuditValue(row.status, row.note || '') : null;
+    const afterStatus =
+      entry.status === PENDING_ATTENDANCE_STATUS
+        ? null
+        : formatAuditValue(entry.status, entry.note ?? row?.note ?? '');
+    if (beforeStatus === afterStatus) continue;
+    const change = changes.get(entry.registrationId) || { before: {}, after: {} };
+    change.before[date] = beforeStatus;
+    change.after[date] = afterStatus;
+    changes.set(entry.registrationId, change);
+  }
+  return Array.from(changes.entries()).map(([registrationId, change]) => ({
+    action: AUDIT_ACTIONS.attendanceUpdate,
+    entityType: AUDIT_ENTITY_TYPES.registration,
+    entityId: registrationId,
+    registrationId,
+    before: change.before,
+    after: change.after,
+  }));
+}
+
+/**
+ * 마감된 달에 들어가는 항목을 찾는다. 있으면 마감 후 수정 권한과 사유가 있어야 하고,
+ * 그때는 마감마다 사유와 고친 날짜를 감사 기록으로 남긴다.
+ */
+async function resolveAttendanceLockOverrides({
+  authUser,
+  entries,
+  registrations,
+  overrideReason,
+}: {
+  authUser: AuthUserLike
+  entries: NormalizedEntry[]
+  registrations: RegistrationRow[]
+  overrideReason: unknown
+}) {
+  const setNameById = new Map(
+    registrations.map((row) => [String(row.id), String(row.courseConfigSetName || '').trim()])
+  );
+  const locks: Array<{ id: string; courseConfigSetName: string; month: string }> = await loadAttendanceMonthLocks(
+    Array.from(setNameById.values()).filter(Boolean),
+    entries.map((entry) => getAttendanceMonthKey(formatDateOnly(entry.date)))
+  );
+  const lockSet = buildAttendanceLockSet(locks);
+  const lockedEntries = entries.filter((entry) =>
+    isAttendanceDateLocked(lockSet, setNameById.get(entry.registrationId) || '', formatDateOnly(entry.date))
+  );
+  if (!lockedEntries.length) return { error: null, auditEntries: [] };
+
+  const canOverride = await canUser({
+    userId: authUser.id,
+    roleName: authUser.role,
+    permissionKey: ATTENDANCE_LOCK_OVERRIDE_PERMISSION,
+  });
+  if (!canOverride) return { error: fail(403, ATTENDANCE_LOCK_MESSAGES.locked), auditEntries: [] };
+  const reason = parseAttendanceOverrideReason(overrideReason);
+  if (reason.error) return { error: fail(400, reason.error), auditEntries: [] };
+
+  const auditEntries = locks
+    .map((lock) => {
+      const dates = lockedEntries
+        .filter((entry) => setNameById.get(entry.registrationId) === lock.courseConfigSetName)
+        .map((entry) => formatDateOnly(entry.date))
+        .filter((date) => getAttendanceMonthKey(date) === lock.month);
+      return {
+        action: AUDIT_ACTIONS.attendanceLockOverride,
+        entityType: AUDIT_ENTITY_TYPES.attendanceMonthLock,
+        entityId: lock.id,
+        before: null,
+        after: {
+          courseConfigSetName: lock.courseConfigSetName,
+          month: lock.month,
+          reason: reason.value,
+          dates: Array.from(new Set(dates)).sort(),
+        },
+      };
+    })
+    .filter((entry) => entry.after.dates.length);
+  return { error: null, auditEntries };
+}
+
+/**
+ * 출석 기록 저장. 출석부(POST /api/attendance)와 키오스크 체크인이 같이 쓴다.
+ * 상태는 켜 둔 출석 상태 정의만 받는다. note(사유)를 보내지 않으면 기존 사유를 둔다.
+ * 카테고리 권한을 확인하고, 마감된 달은 마감 후 수정 권한과 overrideReason이 있어야 고칠 수 있다.
+ * pending은 기록을 지우며, 감사 기록을 남긴 뒤 attendance:update로 알린다.
+ */
+async function saveAttendanceEntriesResult({
+  authUser,
+  entries,
+  overrideReason,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  entries: AttendanceEntry[]
+  overrideReason?: unknown
+  auditContext: unknown
+}) {
+  if (!entries.length) {
+    return fail(400, 'entries are required');
+  }
+
+  const notes = entries.map((entry) => parseAttendanceRecordNote(entry?.note));
+  const noteError = notes.find((note) => note.error);
+  if (noteError) {
+    return fail(400, noteError.error);
+  }
+
+  const normalized = entries
+    .map((entry, index): Omit<NormalizedEntry, 'date'> & { date: Date | null } => ({
+      registrationId: String(entry?.registrationId || '').trim(),
+      date: parseStrictDateOnly(entry?.date),
+      status: String(entry?.status || '').trim(),
+      note: notes[index].value,
+    }))
+    .filter(
+      (entry): entry is NormalizedEntry =>
+        Boolean(entry.registrationId && entry.date && entry.status)
+    );
+
+  if (entries.length !== normalized.length) {
+    return fail(400, 'registrationId, date, status are required');
+  }
+
+  const definitions = await loadAttendanceStatusDefinitions();
+  for (const entry of normalized) {
+    if (!isWritableAttendanceStatus(definitions, entry.status)) {
+      return fail(400, `invalid status: ${entry.status}`);
+    }
+  }
+
+  const registrationIds = normalized.map((entry) => entry.registrationId);
+  const registrations: RegistrationRow[] = await prisma.registration.findMany({
+    where: { id: { in: registrationIds } },
+    select: { id: true, courseId: true, course: true, courseConfigSetName: true },
+  });
+  const setNames = registrations
+    .map((row) => String(row.courseConfigSetName || '').trim())
+    .filter(Boolean);
+  const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
+  const { accessMap, indexMap } = await loadAccessContext(authUser.id, setNames, bypassCategoryAccess);
+  const allowedSet = new Set<string | number>(
+    registrations
+      .filter((row) => isRegistrationAllowed(row, accessMap, indexMap, bypassCategoryAccess))
+      .map((row) => row.id)
+  );
+  const denied = normalized.find((entry) => !allowedSet.has(entry.registrationId));
+  if (denied) {
+    return fail(403, 'Permission denied.');
+  }
+
+  const lockOverrides = await resolveAttendanceLockOverrides({
+    authUser,
+    entries: normalized,
+    registrations,
+    overrideReason,
+  });
+  if (lockOverrides.error) {
+    return lockOverrides.error;
+  }
+
+  const result = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    let upserted = 0;
+    let deleted = 0;
+    const previousRows: PreviousAttendanceRow[] =
+      await tx.attendanceRecord.findMany({
+        where: {
+          OR: normalized.map((entry) => ({
+            registrationId: entry.registrationId,
+            date: entry.date,
+          })),
+        },
+        select: { registrationId: true, date: true, status: true, note: true },
+      });
+
+    for (const entry of normalized) {
+      if (entry.status === PENDING_ATTENDANCE_STATUS) {
+        const deletedRows = await tx.attendanceRecord.deleteMany({
+          where: {
+            registrationId: entry.registrationId,
+            date: entry.date,
+          },
+        });
+        deleted += Number(deletedRows.count || 0);
+        continue;
+      }
+
+      await tx.attendanceRecord.upsert({
+        where: {
+          registrationId_date: {
+            registrationId: entry.registrationId,
+            date: entry.date,
+          },
+        },
+        create: {
+          id: uuidv4(),
+          registrationId: entry.registrationId,
+          date: entry.date,
+          status: entry.status,
+          note: entry.note ?? '',
+        },
+        update: {
+          status: entry.status,
+          ...(entry.note !== undefined ? { note: entry.note } : {}),
+        },
+      });
+
+      upserted += 1;
+    }
+
+    await recordAuditLogs(
+      auditContext,
+      [...lockOverrides.auditEntries, ...buildAttendanceAuditEntries(normalized, previousRows)],
+      tx
+    );
+
+    return { upserted, deleted };
+  });
+
+  const updates = normalized.map((entry) => ({
+    registrationId: entry.registrationId,
+    date: formatDateOnly(entry.date),
+    status: entry.status,
+    ...(entry.note !== undefined ? { note: entry.note } : {}),
+  }));
+  void emitAttendanceUpdates({ updates, registrations });
+
+  return { statusCode: 200, body: { status: 'success', ...result } };
+}
+
+module.exports = {
+  saveAttendanceEntriesResult,
+};
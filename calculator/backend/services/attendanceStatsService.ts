@@ -0,0 +1,334 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeStringId } = require('../utils/dateUtils');
+const { computeEndDate } = require('../utils/parsers');
+const { loadAccessibleRegistrations } = require('./registrationAccessService');
+const { loadRegistrationCategoryMap } = require('./registrationListService');
+const { loadAttendanceStatusDefinitions } = require('./attendanceStatusService');
+const {
+  buildAttendanceStats,
+  createEmptyAttendanceStats,
+  evaluateAttendanceAlerts,
+  getAttendanceAlertRuleError,
+  mergeAttendanceStats,
+  parseAttendanceStatsQuery,
+} = require('../shared/attendanceStats');
+const {
+  getRegistrationListStatus,
+  isInRegistrationListWindow,
+} = require('../shared/registrationListQuery');
+
+type AttendanceAlertRule = import('../shared/attendanceStats').AttendanceAlertRule
+type AttendanceStats = import('../shared/attendanceStats').AttendanceStats
+type AttendanceStatsRecord = import('../shared/attendanceStats').AttendanceStatsRecord
+type AttendanceStatusDefinition = import('../shared/attendanceStatuses').AttendanceStatusDefinition
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type AttendanceSourceRow = {
+  id: string
+  name: string
+  studentId?: string | null
+  course?: string | null
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+  withdrawnAt?: Date | null
+  transferToId?: string | null
+  weeks?: number | null
+  skipWeeks?: number[] | null
+}
+
+type AttendanceAlertRuleInput = Record<string, unknown> & {
+  name?: unknown
+  type?: unknown
+  threshold?: unknown
+  minSessions?: unknown
+  isActive?: unknown
+  sortOrder?: unknown
+}
+
+const ATTENDANCE_ALERT_RULE_MESSAGES = {
+  ruleNotFound: '출석 알림 규칙을 찾을 수 없습니다.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 로컬 기준 오늘 (YYYY-MM-DD) */
+function getToday(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatAttendanceAlertRule(row: any): AttendanceAlertRule & Record<string, unknown> {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    threshold: row.threshold,
+    minSessions: row.minSessions ?? 0,
+    isActive: row.isActive !== false,
+    sortOrder: row.sortOrder ?? 0,
+    createdBy: row.createdBy || '',
+    updatedAt: row.updatedAt?.toISOString() || '',
+  };
+}
+
+function buildAttendanceAlertRuleData(input: AttendanceAlertRuleInput) {
+  const data = {
+    name: String(input.name ?? '').trim(),
+    type: String(input.type ?? '').trim(),
+    threshold: Number(input.threshold),
+    minSessions: Number(input.minSessions ?? 0),
+  };
+  const error = getAttendanceAlertRuleError(data);
+  if (error) return { error, data: null };
+
+  const sortOrder = Math.trunc(Number(input.sortOrder ?? 0));
+  return {
+    error: null,
+    data: {
+      ...data,
+      isActive: input.isActive !== false,
+      sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+    },
+  };
+}
+
+async function loadActiveAlertRules(): Promise<AttendanceAlertRule[]> {
+  const rows = await prisma.attendanceAlertRule.findMany({
+    where: { isActive: true },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+  return rows.map(formatAttendanceAlertRule);
+}
+
+async function listAttendanceAlertRulesResult() {
+  const rows = await prisma.attendanceAlertRule.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatAttendanceAlertRule) } };
+}
+
+async function createAttendanceAlertRuleResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: AttendanceAlertRuleInput
+}) {
+  const parsed = buildAttendanceAlertRuleData(body || {});
+  if (!parsed.data) return fail(400, parsed.error);
+
+  const row = await prisma.attendanceAlertRule.create({
+    data: { id: uuidv4(), ...parsed.data, createdBy: authUser.username || '' },
+  });
+  return { statusCode: 201, body: { status: 'success', rule: formatAttendanceAlertRule(row) } };
+}
+
+async function updateAttendanceAlertRuleResult({ id, body }: { id: unknown; body: AttendanceAlertRuleInput }) {
+  const ruleId = normalizeStringId(id);
+  const existing = ruleId ? await prisma.attendanceAlertRule.findUnique({ where: { id: ruleId } }) : null;
+  if (!existing) return fail(404, ATTENDANCE_ALERT_RULE_MESSAGES.ruleNotFound);
+
+  const parsed = buildAttendanceAlertRuleData(body || {});
+  if (!parsed.data) return fail(400, parsed.error);
+
+  const row = await prisma.attendanceAlertRule.update({ where: { id: existing.id }, data: parsed.data });
+  return { statusCode: 200, body: { status: 'success', rule: formatAttendanceAlertRule(row) } };
+}
+
+async function deleteAttendanceAlertRuleResult(id: unknown) {
+  const ruleId = normalizeStringId(id);
+  const existing = ruleId ? await prisma.attendanceAlertRule.findUnique({ where: { id: ruleId } }) : null;
+  if (!existing) return fail(404, ATTENDANCE_ALERT_RULE_MESSAGES.ruleNotFound);
+
+  await prisma.attendanceAlertRule.delete({ where: { id: existing.id } });
+  return { statusCode: 200, body: { status: 'success', id: existing.id } };
+}
+
+function getRowDates(row: AttendanceSourceRow) {
+  return {
+    startDate: formatDateOnly(row.startDate),
+    endDate: row.endDate
+      ? formatDateOnly(row.endDate)
+      : computeEndDate(row.startDate, row.weeks ?? null, row.skipWeeks || []),
+    withdrawnAt: formatDateOnly(row.withdrawnAt),
+    transferToId: row.transferToId || null,
+  };
+}
+
+/** 등록 ID별 출석 기록. from/to가 비어 있으면 그쪽 제한 없음 */
+async function loadAttendanceRecordMap(ids: string[], from: string, to: string) {
+  const map = new Map<string, AttendanceStatsRecord[]>();
+  if (!ids.length) return map;
+
+  const date: Record<string, Date> = {};
+  if (from) date.gte = new Date(`${from}T00:00:00Z`);
+  if (to) date.lte = new Date(`${to}T00:00:00Z`);
+  const rows: Array<{ registrationId: string; date: Date; status: string }> =
+    await prisma.attendanceRecord.findMany({
+      where: { registrationId: { in: ids }, ...(from || to ? { date } : {}) },
+      select: { registrationId: true, date: true, status: true },
+    });
+
+  for (const row of rows) {
+    const list = map.get(row.registrationId) || [];
+    list.push({ registrationId: row.registrationId, date: formatDateOnly(row.date), status: row.status });
+    map.set(row.registrationId, list);
+  }
+  return map;
+}
+
+async function buildStudentAttendanceEntries(
+  rows: AttendanceSourceRow[],
+  recordMap: Map<string, AttendanceStatsRecord[]>,
+  rules: AttendanceAlertRule[],
+  definitions: AttendanceStatusDefinition[]
+) {
+  const categoryMap = await loadRegistrationCategoryMap(rows);
+  return rows.map((row) => {
+    const stats: AttendanceStats = buildAttendanceStats(recordMap.get(row.id) || [], definitions);
+    return {
+      registrationId: row.id,
+      name: row.name,
+      studentId: row.studentId || null,
+      courseConfigSetName: String(row.courseConfigSetName || ''),
+      category: categoryMap.get(row.id) || '',
+      courseId: String(row.courseId || ''),
+      course: String(row.course || ''),
+      stats,
+      alerts: evaluateAttendanceAlerts(stats, rules),
+    };
+  });
+}
+
+type StudentAttendanceEntry = Awaited<ReturnType<typeof buildStudentAttendanceEntries>>[number]
+
+function buildCourseAttendanceSummaries(entries: StudentAttendanceEntry[]) {
+  const courseMap = new Map<
+    string,
+    {
+      courseConfigSetName: string
+      category: string
+      courseId: string
+      course: string
+      students: number
+      flaggedStudents: number
+      stats: AttendanceStats
+    }
+  >();
+  for (const entry of entries) {
+    const key = `${entry.courseConfigSetName}\u0000${entry.courseId || entry.course}`;
+    let summary = courseMap.get(key);
+    if (!summary) {
+      summary = {
+        courseConfigSetName: entry.courseConfigSetName,
+        category: entry.category,
+        courseId: entry.courseId,
+        course: entry.course,
+        students: 0,
+        flaggedStudents: 0,
+        stats: createEmptyAttendanceStats(),
+      };
+      courseMap.set(key, summary);
+    }
+    summary.students += 1;
+    if (entry.alerts.length) summary.flaggedStudents += 1;
+    mergeAttendanceStats(summary.stats, entry.stats);
+  }
+  return Array.from(courseMap.values());
+}
+
+/**
+ * 기간 내 학생·과목별 출석 통계. 수강 기간이 조회 기간과 겹치는 등록만 센다.
+ */
+async function loadAttendanceStatsResult(authUser: AuthUserLike, rawQuery: Record<string, unknown>) {
+  const parsed = parseAttendanceStatsQuery(rawQuery);
+  if (!parsed.query) return fail(400, parsed.error);
+  const query = parsed.query;
+
+  const where: Record<string, unknown> = {};
+  if (query.courseConfigSetName) where.courseConfigSetName = query.courseConfigSetName;
+  if (query.registrationIds.length) where.id = { in: query.registrationIds };
+  const rows: AttendanceSourceRow[] = (await loadAccessibleRegistrations(authUser, where)).filter(
+    (row: AttendanceSourceRow) => isInRegistrationListWindow(getRowDates(row), query.from, query.to)
+  );
+
+  const [recordMap, rules, statuses] = await Promise.all([
+    loadAttendanceRecordMap(rows.map((row) => row.id), query.from, query.to),
+    loadActiveAlertRules(),
+    loadAttendanceStatusDefinitions(),
+  ]);
+  const results = await buildStudentAttendanceEntries(rows, recordMap, rules, statuses);
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      from: query.from,
+      to: query.to,
+      rules,
+      statuses,
+      results,
+      courses: buildCourseAttendanceSummaries(results),
+    },
+  };
+}
+
+/**
+ * 그날 확인할 학생. 그날 수강 중인 등록을 그날까지의 기록으로 판정해 규칙에 걸린 것만 돌려준다.
+ */
+async function loadAttendanceFollowUpsResult(authUser: AuthUserLike, rawQuery: Record<string, unknown>) {
+  const parsed = parseAttendanceStatsQuery({ to: rawQuery?.date });
+  if (!parsed.query) return fail(400, parsed.error);
+  const date = parsed.query.to || getToday();
+  const courseConfigSetName = String(rawQuery?.courseConfigSetName ?? '').trim();
+
+  const rules = await loadActiveAlertRules();
+  if (!rules.length) {
+    return { statusCode: 200, body: { status: 'success', date, rules, results: [] } };
+  }
+
+  const rows: AttendanceSourceRow[] = (
+    await loadAccessibleRegistrations(authUser, courseConfigSetName ? { courseConfigSetName } : {})
+  ).filter((row: AttendanceSourceRow) => getRegistrationListStatus(getRowDates(row), date) === 'active');
+
+  const [recordMap, statuses] = await Promise.all([
+    loadAttendanceRecordMap(rows.map((row) => row.id), '', date),
+    loadAttendanceStatusDefinitions(),
+  ]);
+  const entries = await buildStudentAttendanceEntries(rows, recordMap, rules, statuses);
+  const results = entries
+    .filter((entry) => entry.alerts.length > 0)
+    .sort(
+      (a, b) =>
+        b.stats.consecutiveAbsences - a.stats.consecutiveAbsences ||
+        (a.stats.rate ?? 1) - (b.stats.rate ?? 1) ||
+        a.name.localeCompare(b.name, 'ko-KR')
+    );
+
+  return { statusCode: 200, body: { status: 'success', date, rules, results } };
+}
+
+module.exports = {
+  ATTENDANCE_ALERT_RULE_MESSAGES,
+  createAttendanceAlertRuleResult,
+  deleteAttendanceAlertRuleResult,
+  listAttendanceAlertRulesResult,
+  loadAttendanceFollowUpsResult,
+  loadAttendanceStatsResult,
+  updateAttendanceAlertRuleResult,
+};
@@ -0,0 +1,154 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { normalizeStringId } = require('../utils/dateUtils');
+const {
+  getAttendanceStatusDefinitionError,
+  resolveAttendanceStatusDefinitions,
+} = require('../shared/attendanceStatuses');
+
+type AttendanceStatusDefinition = import('../shared/attendanceStatuses').AttendanceStatusDefinition
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type AttendanceStatusInput = Record<string, unknown> & {
+  key?: unknown
+  label?: unknown
+  shortLabel?: unknown
+  color?: unknown
+  countsAsAttended?: unknown
+  isActive?: unknown
+  sortOrder?: unknown
+}
+
+const ATTENDANCE_STATUS_ROUTE_MESSAGES = {
+  statusNotFound: '출석 상태를 찾을 수 없습니다.',
+  duplicateKey: '이미 있는 상태 키입니다.',
+  systemLocked: '기본 상태는 이름·짧은 이름·색·순서만 바꿀 수 있습니다.',
+  systemDelete: '기본 상태는 삭제할 수 없습니다.',
+  inUse: '이 상태로 기록된 출석이 있어 삭제할 수 없습니다. 대신 꺼 주세요.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatAttendanceStatus(row: any): AttendanceStatusDefinition & Record<string, unknown> {
+  return {
+    id: row.id,
+    key: row.key,
+    label: row.label,
+    shortLabel: row.shortLabel,
+    color: row.color,
+    countsAsAttended: row.countsAsAttended !== false,
+    isActive: row.isActive !== false,
+    sortOrder: row.sortOrder ?? 0,
+    isSystem: row.isSystem === true,
+  };
+}
+
+/**
+ * 출석 상태 정의. 저장된 정의가 하나도 없으면(마이그레이션 전 데이터) 기본 상태를 쓴다.
+ * 출석 저장·통계·키오스크·보강이 모두 이 목록을 따른다.
+ */
+async function loadAttendanceStatusDefinitions(): Promise<AttendanceStatusDefinition[]> {
+  const rows = await prisma.attendanceStatusDefinition.findMany({
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+  return resolveAttendanceStatusDefinitions(rows.map(formatAttendanceStatus));
+}
+
+function buildAttendanceStatusData(input: AttendanceStatusInput, key: string) {
+  const data = {
+    key,
+    label: String(input.label ?? '').trim(),
+    shortLabel: String(input.shortLabel ?? '').trim(),
+    color: String(input.color ?? '').trim(),
+  };
+  const error = getAttendanceStatusDefinitionError(data);
+  if (error) return { error, data: null };
+
+  const sortOrder = Math.trunc(Number(input.sortOrder ?? 0));
+  return {
+    error: null,
+    data: {
+      label: data.label,
+      shortLabel: data.shortLabel,
+      color: data.color,
+      countsAsAttended: input.countsAsAttended !== false,
+      isActive: input.isActive !== false,
+      sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+    },
+  };
+}
+
+async function listAttendanceStatusesResult() {
+  const results = await loadAttendanceStatusDefinitions();
+  return { statusCode: 200, body: { status: 'success', results } };
+}
+
+async function createAttendanceStatusResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: AttendanceStatusInput
+}) {
+  const key = String(body?.key ?? '').trim();
+  const parsed = buildAttendanceStatusData(body || {}, key);
+  if (!parsed.data) return fail(400, parsed.error);
+
+  const existing = await prisma.attendanceStatusDefinition.findUnique({ where: { key } });
+  if (existing) return fail(409, ATTENDANCE_STATUS_ROUTE_MESSAGES.duplicateKey);
+
+  const row = await prisma.attendanceStatusDefinition.create({
+    data: { id: uuidv4(), key, ...parsed.data, isSystem: false, createdBy: authUser.username || '' },
+  });
+  return { statusCode: 201, body: { status: 'success', definition: formatAttendanceStatus(row) } };
+}
+
+/** 키는 바꾸지 않는다 (이미 저장된 출석 기록이 키로 상태를 가리킨다) */
+async function updateAttendanceStatusResult({ id, body }: { id: unknown; body: AttendanceStatusInput }) {
+  const statusId = normalizeStringId(id);
+  const existing = statusId ? await prisma.attendanceStatusDefinition.findUnique({ where: { id: statusId } }) : null;
+  if (!existing) return fail(404, ATTENDANCE_STATUS_ROUTE_MESSAGES.statusNotFound);
+
+  const parsed = buildAttendanceStatusData(body || {}, existing.key);
+  if (!parsed.data) return fail(400, parsed.error);
+  if (
+    existing.isSystem &&
+    (parsed.data.isActive !== existing.isActive || parsed.data.countsAsAttended !== existing.countsAsAttended)
+  ) {
+    return fail(400, ATTENDANCE_STATUS_ROUTE_MESSAGES.systemLocked);
+  }
+
+  const row = await prisma.attendanceStatusDefinition.update({ where: { id: existing.id }, data: parsed.data });
+  return { statusCode: 200, body: { status: 'success', definition: formatAttendanceStatus(row) } };
+}
+
+async function deleteAttendanceStatusResult(id: unknown) {
+  const statusId = normalizeStringId(id);
+  const existing = statusId ? await prisma.attendanceStatusDefinition.findUnique({ where: { id: statusId } }) : null;
+  if (!existing) return fail(404, ATTENDANCE_STATUS_ROUTE_MESSAGES.statusNotFound);
+  if (existing.isSystem) return fail(400, ATTENDANCE_STATUS_ROUTE_MESSAGES.systemDelete);
+
+  const used = await prisma.attendanceRecord.count({ where: { status: existing.key } });
+  if (used) return fail(409, ATTENDANCE_STATUS_ROUTE_MESSAGES.inUse);
+
+  await prisma.attendanceStatusDefinition.delete({ where: { id: existing.id } });
+  return { statusCode: 200, body: { status: 'success', id: existing.id } };
+}
+
+module.exports = {
+  ATTENDANCE_STATUS_ROUTE_MESSAGES,
+  createAttendanceStatusResult,
+  deleteAttendanceStatusResult,
+  listAttendanceStatusesResult,
+  loadAttendanceStatusDefinitions,
+  updateAttendanceStatusResult,
+};
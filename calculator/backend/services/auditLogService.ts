@@ -0,0 +1,261 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { normalizeStringId, parseDateOnly } = require('../utils/dateUtils');
+const { isRegistrationAccessAllowed } = require('./registrationAccessService');
+
+type AuthUserLike = {
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type AuditContext = {
+  actor: string
+  actorRole: string
+  requestId: string
+}
+
+type AuditEntry = {
+  action: string
+  entityType: string
+  entityId: string
+  registrationId?: string | null
+  before?: unknown
+  after?: unknown
+}
+
+type AuditLogRow = {
+  id: string
+  actor: string
+  actorRole: string
+  action: string
+  entityType: string
+  entityId: string
+  registrationId: string | null
+  before: unknown
+  after: unknown
+  requestId: string
+  createdAt: Date
+}
+
+type TransferLinkRow = {
+  id: string
+  transferFromId: string | null
+  transferToId: string | null
+}
+
+const AUDIT_ACTIONS = {
+  registrationCreate: 'registration.create',
+  registrationUpdate: 'registration.update',
+  registrationDelete: 'registration.delete',
+  registrationWithdrawal: 'registration.withdrawal',
+  registrationTransfer: 'registration.transfer',
+  registrationTransferCancel: 'registration.transfer_cancel',
+  registrationNote: 'registration.note',
+  registrationExtension: 'registration.extension',
+  registrationExtensionUpdate: 'registration.extension_update',
+  registrationExtensionDelete: 'registration.extension_delete',
+  registrationHold: 'registration.hold',
+  courseRename: 'registration.course_rename',
+  attendanceUpdate: 'attendance.update',
+  attendanceMakeup: 'attendance.makeup',
+  attendanceLock: 'attendance.lock',
+  attendanceUnlock: 'attendance.unlock',
+  attendanceLockOverride: 'attendance.lock_override',
+  mergeUpdate: 'merge.update',
+  courseConfigSave: 'course_config.save',
+  courseConfigDelete: 'course_config.delete',
+} as const;
+
+const AUDIT_ENTITY_TYPES = {
+  registration: 'registration',
+  registrationHold: 'registration_hold',
+  attendanceMakeup: 'attendance_makeup',
+  attendanceMonthLock: 'attendance_month_lock',
+  courseConfigSet: 'course_config_set',
+  mergeGroups: 'merge_groups',
+} as const;
+
+const AUDIT_MESSAGES = {
+  registrationNotFound: '해당 ID의 등록 정보를 찾을 수 없습니다.',
+  invalidDateRange: '조회 기간을 확인해 주세요.',
+} as const;
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 200;
+const MAX_REGISTRATION_HISTORY = 200;
+// 전반이 이어진 등록을 따라가는 최대 단계
+const MAX_TRANSFER_CHAIN = 20;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 요청한 사용자와 requestId. authMiddleware 뒤에서만 부른다. */
+function buildAuditContext(req: import('express').Request): AuditContext {
+  const user = req.authUser || req.user;
+  return {
+    actor: String(user?.username || '').trim() || 'unknown',
+    actorRole: String(user?.role || '').trim(),
+    requestId: String(req.requestId || ''),
+  };
+}
+
+/** Date는 ISO 문자열로, undefined는 null로 바꿔 JSON 컬럼에 그대로 넣을 수 있게 한다. */
+function toAuditJson(value: unknown) {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * 감사 기록을 남긴다.
+ * tx를 넘기면 같은 트랜잭션에서 쓰고 실패하면 변경도 함께 되돌린다.
+ * tx 없이 부르면 이미 끝난 변경의 기록이므로 실패해도 응답은 막지 않고 로그만 남긴다.
+ */
+async function recordAuditLogs(
+  context: AuditContext,
+  entries: AuditEntry[],
+  tx?: import('@prisma/client').Prisma.TransactionClient
+) {
+  if (!entries.length) return;
+  const createdAt = new Date();
+  const data = entries.map((entry) => ({
+    id: uuidv4(),
+    actor: context.actor,
+    actorRole: context.actorRole,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: String(entry.entityId),
+    registrationId: entry.registrationId || null,
+    before: toAuditJson(entry.before) ?? undefined,
+    after: toAuditJson(entry.after) ?? undefined,
+    requestId: context.requestId,
+    createdAt,
+  }));
+
+  if (tx) {
+    await tx.auditLog.createMany({ data });
+    return;
+  }
+  try {
+    await prisma.auditLog.createMany({ data });
+  } catch (error) {
+    console.error('감사 기록 저장 실패:', error, { requestId: context.requestId });
+  }
+}
+
+function formatAuditLog(row: AuditLogRow) {
+  return {
+    id: row.id,
+    actor: row.actor,
+    actorRole: row.actorRole || '',
+    action: row.action,
+    entityType: row.entityType,
+    entityId: row.entityId,
+    registrationId: row.registrationId || null,
+    before: row.before ?? null,
+    after: row.after ?? null,
+    requestId: row.requestId || '',
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/** 전반 전후 등록까지 한 학생의 수강 이력으로 묶는다. */
+async function loadTransferChainIds(id: string) {
+  const ids = new Set<string>([id]);
+  const queue = [id];
+  while (queue.length && ids.size < MAX_TRANSFER_CHAIN) {
+    const current = queue.shift() as string;
+    const row: TransferLinkRow | null = await prisma.registration.findUnique({
+      where: { id: current },
+      select: { id: true, transferFromId: true, transferToId: true },
+    });
+    for (const next of [row?.transferFromId, row?.transferToId]) {
+      if (next && !ids.has(next)) {
+        ids.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return Array.from(ids);
+}
+
+/**
+ * GET /api/registrations/:id/audit — 등록 한 건의 변경 이력 (전반 전후 포함)
+ */
+async function listRegistrationAuditResult({ authUser, id }: { authUser: AuthUserLike; id: string }) {
+  const registration = await prisma.registration.findUnique({ where: { id } });
+  if (!registration) return fail(404, AUDIT_MESSAGES.registrationNotFound);
+
+  const canAccess = await isRegistrationAccessAllowed(authUser, [registration]);
+  if (!canAccess) return fail(403, 'Permission denied.');
+
+  const registrationIds = await loadTransferChainIds(id);
+  const rows: AuditLogRow[] = await prisma.auditLog.findMany({
+    where: { registrationId: { in: registrationIds } },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_REGISTRATION_HISTORY,
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatAuditLog) } };
+}
+
+/**
+ * GET /api/audit-logs — 전체 감사 기록 (master 전용). cursor는 이전 응답의 nextCursor.
+ */
+async function listAuditLogsResult(query: Record<string, unknown>) {
+  const actor = String(query?.actor ?? '').trim();
+  const action = String(query?.action ?? '').trim();
+  const entityType = String(query?.entityType ?? '').trim();
+  const entityId = String(query?.entityId ?? '').trim();
+  const registrationId = normalizeStringId(query?.registrationId);
+  const requestId = String(query?.requestId ?? '').trim();
+  const cursor = normalizeStringId(query?.cursor);
+  const limit = Math.min(Math.max(Number(query?.limit) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+  const from = query?.from ? parseDateOnly(query.from) : null;
+  const to = query?.to ? parseDateOnly(query.to) : null;
+  if ((query?.from && !from) || (query?.to && !to) || (from && to && from > to)) {
+    return fail(400, AUDIT_MESSAGES.invalidDateRange);
+  }
+  // to는 그날 하루 전체를 포함한다
+  const toExclusive = to ? new Date(to.getTime() + 24 * 60 * 60 * 1000) : null;
+
+  const rows: AuditLogRow[] = await prisma.auditLog.findMany({
+    where: {
+      ...(actor ? { actor } : {}),
+      ...(action ? { action } : {}),
+      ...(entityType ? { entityType } : {}),
+      ...(entityId ? { entityId } : {}),
+      ...(registrationId ? { registrationId } : {}),
+      ...(requestId ? { requestId } : {}),
+      ...(from || toExclusive
+        ? { createdAt: { ...(from ? { gte: from } : {}), ...(toExclusive ? { lt: toExclusive } : {}) } }
+        : {}),
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    take: limit + 1,
+  });
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      results: page.map(formatAuditLog),
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    },
+  };
+}
+
+module.exports = {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  buildAuditContext,
+  listAuditLogsResult,
+  listRegistrationAuditResult,
+  recordAuditLogs,
+};
@@ -0,0 +1,87 @@
+/**
+ * 은행별 입금 문자 샘플과 기대 파싱 결과
+ * scripts/checkBankSmsParsers.ts 에서 사용한다.
+ */
+
+const BANK_SMS_FIXTURES = [
+  {
+    name: 'shinhan: 대괄호 + 원 표기',
+    sender: '15778000',
+    body: '[신한은행] 입금 150,000원 홍길동 잔액 1,234,567원',
+    expected: { status: 'parsed', bank: 'shinhan', amount: 150000, depositorName: '홍길동', balance: 1234567 },
+  },
+  {
+    name: 'shinhan: 이름이 잔액 뒤',
+    sender: '',
+    body: '[신한은행]08:32 입금 50,000원 잔액817,320원 홍길동',
+    expected: { status: 'parsed', bank: 'shinhan', amount: 50000, depositorName: '홍길동', balance: 817320 },
+  },
+  {
+    name: 'shinhan: Web발신 + 계좌번호',
+    sender: '',
+    body: '[Web발신] 신한04/03 14:37 140-009-205058 입금   1,000,000 채윤서',
+    expected: { status: 'parsed', bank: 'shinhan', amount: 1000000, depositorName: '채윤서', balance: null },
+  },
+  {
+    name: 'shinhan: 출금 알림은 무시',
+    sender: '15778000',
+    body: '[신한은행] 출금 30,000원 스타벅스 잔액 1,204,567원',
+    expected: { status: 'ignored', bank: 'shinhan' },
+  },
+  {
+    name: 'kb: 줄바꿈 형식',
+    sender: '16449999',
+    body: '[Web발신]\n[KB]04/03 14:37\n801302**725\n김민준\n입금\n320,000\n잔액1,554,567',
+    expected: { status: 'parsed', bank: 'kb', amount: 320000, depositorName: '김민준', balance: 1554567 },
+  },
+  {
+    name: 'woori: 접두어로 선택',
+    sender: '',
+    body: '[Web발신]\n우리 04/03 14:37\n*123456\n입금 150,000원\n이서연\n잔액 1,234,567원',
+    expected: { status: 'parsed', bank: 'woori', amount: 150000, depositorName: '이서연', balance: 1234567 },
+  },
+  {
+    name: 'hana: 쉼표 구분',
+    sender: '15991111',
+    body: '[Web발신]\n하나,04/03,14:37\n123-******-12345\n입금150,000원\n박지호\n잔액1,234,567원',
+    expected: { status: 'parsed', bank: 'hana', amount: 150000, depositorName: '박지호', balance: 1234567 },
+  },
+  {
+    name: 'nh: 금액이 먼저',
+    sender: '15882100',
+    body: '[Web발신]\n농협 입금150,000원\n04/03 14:37 351-****-1234-56 최하은 잔액1,234,567원',
+    expected: { status: 'parsed', bank: 'nh', amount: 150000, depositorName: '최하은', balance: 1234567 },
+  },
+  {
+    name: 'toss: 보냈어요 문장형',
+    sender: '16617654',
+    body: '[토스뱅크] 정우진님이 280,000원을 보냈어요. 잔액 1,514,567원',
+    expected: { status: 'parsed', bank: 'toss', amount: 280000, depositorName: '정우진', balance: 1514567 },
+  },
+  {
+    name: 'toss: 입금 줄바꿈 형식',
+    sender: '',
+    body: '[토스뱅크]\n입금 150,000원\n한소율\n잔액 1,234,567원',
+    expected: { status: 'parsed', bank: 'toss', amount: 150000, depositorName: '한소율', balance: 1234567 },
+  },
+  {
+    name: 'kakaobank: 마스킹된 예금주 제외',
+    sender: '15993333',
+    body: '[카카오뱅크]\n홍*동(1234)\n04/03 14:37\n입금 150,000원\n채윤서\n잔액 1,234,567원',
+    expected: { status: 'parsed', bank: 'kakaobank', amount: 150000, depositorName: '채윤서', balance: 1234567 },
+  },
+  {
+    name: 'unknown: 알 수 없는 은행은 미해석 큐',
+    sender: '01012345678',
+    body: '[케이뱅크] 입금 150,000원 홍길동',
+    expected: { status: 'unparsed', bank: '' },
+  },
+  {
+    name: 'kb: 금액 없는 입금 문자는 미해석 큐',
+    sender: '16449999',
+    body: '[KB] 입금 예정 안내 홍길동',
+    expected: { status: 'unparsed', bank: 'kb' },
+  },
+];
+
+module.exports = { BANK_SMS_FIXTURES };
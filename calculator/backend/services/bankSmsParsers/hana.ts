@@ -0,0 +1,15 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * 하나은행 입금 문자
+ * 예시: "[Web발신]\n하나,04/03,14:37\n123-******-12345\n입금150,000원\n홍길동\n잔액1,234,567원"
+ */
+const hanaParser = createStandardParser({
+  id: 'hana',
+  label: '하나은행',
+  senders: ['15991111', '15881111'],
+  prefixes: ['하나은행', '하나,', '하나 '],
+  stopWords: ['하나은행', '하나'],
+});
+
+module.exports = { hanaParser };
@@ -0,0 +1,89 @@
+const { shinhanParser } = require('./shinhan');
+const { kbParser } = require('./kb');
+const { wooriParser } = require('./woori');
+const { hanaParser } = require('./hana');
+const { nhParser } = require('./nh');
+const { tossParser } = require('./toss');
+const { kakaobankParser } = require('./kakaobank');
+
+type ParsedDeposit = {
+  amount: number
+  depositorName: string
+  balance: number | null
+}
+
+type BankSmsParser = {
+  id: string
+  label: string
+  senders: string[]
+  prefixes: string[]
+  parse: (body: string) => ParsedDeposit | null
+}
+
+type BankSmsParseResult =
+  | { status: 'parsed'; bank: string; deposit: ParsedDeposit }
+  | { status: 'ignored'; bank: string }
+  | { status: 'unparsed'; bank: string }
+
+// 카카오뱅크/토스뱅크를 먼저 두어 "뱅크" 표기가 다른 은행 접두어에 걸리지 않게 함
+const BANK_SMS_PARSERS: BankSmsParser[] = [
+  kakaobankParser,
+  tossParser,
+  shinhanParser,
+  kbParser,
+  wooriParser,
+  hanaParser,
+  nhParser,
+];
+
+// 접두어는 문자 앞부분에서만 찾는다 (본문 중간의 "우리" 등 오인 방지)
+const PREFIX_SEARCH_LENGTH = 30;
+
+// 입금이 아닌 은행 알림 (출금/카드 승인 등)
+const NON_DEPOSIT_PATTERN = /출금|승인|결제|자동이체|이체\s*완료/;
+
+function normalizeSender(sender: unknown) {
+  return String(sender || '').replace(/\D/g, '');
+}
+
+/**
+ * 발신번호 → 문자 앞부분 은행 표기 순으로 파서를 고른다.
+ */
+function selectBankSmsParser({ sender, body }: { sender?: string; body: string }) {
+  const senderDigits = normalizeSender(sender);
+  if (senderDigits) {
+    const bySender = BANK_SMS_PARSERS.find((parser) => parser.senders.includes(senderDigits));
+    if (bySender) return bySender;
+  }
+
+  const head = String(body || '')
+    .replace(/\[Web발신\]/g, '')
+    .trim()
+    .slice(0, PREFIX_SEARCH_LENGTH);
+  return BANK_SMS_PARSERS.find((parser) =>
+    parser.prefixes.some((prefix) => head.includes(prefix))
+  ) || null;
+}
+
+function parseBankSms({ sender, body }: { sender?: string; body: string }): BankSmsParseResult {
+  const parser = selectBankSmsParser({ sender, body });
+  if (!parser) {
+    return { status: 'unparsed', bank: '' };
+  }
+
+  const deposit = parser.parse(body);
+  if (deposit && deposit.amount > 0) {
+    return { status: 'parsed', bank: parser.id, deposit };
+  }
+
+  if (!body.includes('입금') && NON_DEPOSIT_PATTERN.test(body)) {
+    return { status: 'ignored', bank: parser.id };
+  }
+  return { status: 'unparsed', bank: parser.id };
+}
+
+module.exports = {
+  BANK_SMS_PARSERS,
+  parseBankSms,
+  selectBankSmsParser,
+};
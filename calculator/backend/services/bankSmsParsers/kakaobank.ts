@@ -0,0 +1,15 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * 카카오뱅크 입금 문자 (첫 줄은 마스킹된 예금주라 이름 후보에서 제외됨)
+ * 예시: "[카카오뱅크]\n홍*동(1234)\n04/03 14:37\n입금 150,000원\n채윤서\n잔액 1,234,567원"
+ */
+const kakaobankParser = createStandardParser({
+  id: 'kakaobank',
+  label: '카카오뱅크',
+  senders: ['15993333'],
+  prefixes: ['카카오뱅크'],
+  stopWords: ['카카오뱅크', '카카오'],
+});
+
+module.exports = { kakaobankParser };
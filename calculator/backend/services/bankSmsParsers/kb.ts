@@ -0,0 +1,15 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * KB국민은행 입금 문자 (항목이 줄바꿈으로 구분되고 이름이 금액보다 앞에 옴)
+ * 예시: "[Web발신]\n[KB]04/03 14:37\n801302**725\n홍길동\n입금\n150,000\n잔액1,234,567"
+ */
+const kbParser = createStandardParser({
+  id: 'kb',
+  label: 'KB국민은행',
+  senders: ['16449999', '15889999'],
+  prefixes: ['[KB]', 'KB국민', '국민은행'],
+  stopWords: ['KB국민은행', '국민은행', '국민', '전자금융', '스마트폰', '인터넷'],
+});
+
+module.exports = { kbParser };
@@ -0,0 +1,15 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * NH농협 입금 문자
+ * 예시: "[Web발신]\n농협 입금150,000원\n04/03 14:37 351-****-1234-56 홍길동 잔액1,234,567원"
+ */
+const nhParser = createStandardParser({
+  id: 'nh',
+  label: 'NH농협',
+  senders: ['15882100', '15443000', '16613000'],
+  prefixes: ['농협', 'NH'],
+  stopWords: ['NH농협은행', '농협은행', '농협', '축협'],
+});
+
+module.exports = { nhParser };
@@ -0,0 +1,104 @@
+/**
+ * 은행 입금 문자 파서 공통 타입/도구
+ */
+
+type ParsedDeposit = {
+  amount: number
+  depositorName: string
+  balance: number | null
+}
+
+type BankSmsParser = {
+  id: string
+  label: string
+  // 은행 알림 발신번호 (숫자만)
+  senders: string[]
+  // 문자 앞부분에 나타나는 은행 표기
+  prefixes: string[]
+  parse: (body: string) => ParsedDeposit | null
+}
+
+function parseAmountText(value: string | undefined) {
+  if (!value) return 0;
+  const num = Number(value.replace(/,/g, ''));
+  return Number.isFinite(num) ? num : 0;
+}
+
+// "입금 150,000원", "입금150,000", "입금\n150,000"
+function extractDepositAmount(body: string) {
+  const match = body.match(/입금\s*([\d,]+)\s*원?/);
+  return match ? parseAmountText(match[1]) : 0;
+}
+
+// "잔액 1,234,567원", "잔액1,234,567"
+function extractBalance(body: string) {
+  const match = body.match(/잔액\s*([\d,]+)\s*원?/);
+  return match ? parseAmountText(match[1]) : null;
+}
+
+/**
+ * 금액/잔액/날짜/계좌번호/은행명을 지운 뒤 남은 한글 2~4자를 입금자명으로 본다.
+ */
+function extractDepositorName(body: string, stopWords: string[] = []) {
+  let cleaned = body
+    .replace(/\[.*?\]/g, ' ')
+    .replace(/입금\s*[\d,]+\s*원?/g, ' ')
+    .replace(/잔액\s*[\d,]+\s*원?/g, ' ')
+    .replace(/\S*\*\S*/g, ' ')
+    .replace(/\d{4}[-/.]\d{2}[-/.]\d{2}/g, ' ')
+    .replace(/\d{2}\/\d{2}/g, ' ')
+    .replace(/\d{2}:\d{2}/g, ' ')
+    .replace(/[\d-]{6,}/g, ' ')
+    .replace(/Web발신/g, ' ')
+    .replace(/입금|잔액/g, ' ');
+
+  const sortedStopWords = [...stopWords].sort((a, b) => b.length - a.length);
+  for (const word of sortedStopWords) {
+    cleaned = cleaned.split(word).join(' ');
+  }
+
+  const nameMatch = cleaned.match(/[가-힣]{2,4}/);
+  return nameMatch ? nameMatch[0] : '';
+}
+
+/**
+ * 대부분 은행이 쓰는 "입금 금액 + 이름 + 잔액" 형식 파서를 만든다.
+ */
+function createStandardParser({
+  id,
+  label,
+  senders,
+  prefixes,
+  stopWords,
+}: {
+  id: string
+  label: string
+  senders: string[]
+  prefixes: string[]
+  stopWords: string[]
+}): BankSmsParser {
+  return {
+    id,
+    label,
+    senders,
+    prefixes,
+    parse(body: string) {
+      if (!body || !body.includes('입금')) return null;
+      const amount = extractDepositAmount(body);
+      if (!amount) return null;
+      return {
+        amount,
+        depositorName: extractDepositorName(body, stopWords),
+        balance: extractBalance(body),
+      };
+    },
+  };
+}
+
+module.exports = {
+  createStandardParser,
+  extractBalance,
+  extractDepositAmount,
+  extractDepositorName,
+  parseAmountText,
+};
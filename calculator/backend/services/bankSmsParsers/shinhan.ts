@@ -0,0 +1,17 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * 신한은행 입금 문자
+ * 예시: "[신한은행] 입금 150,000원 홍길동 잔액 1,234,567원"
+ *       "[신한은행]08:32 입금 50,000원 잔액817,320원 홍길동"
+ *       "[Web발신] 신한04/03 14:37 140-009-205058 입금   1,000,000 채윤서"
+ */
+const shinhanParser = createStandardParser({
+  id: 'shinhan',
+  label: '신한은행',
+  senders: ['15778000', '15448000'],
+  prefixes: ['신한'],
+  stopWords: ['신한은행', '신한'],
+});
+
+module.exports = { shinhanParser };
@@ -0,0 +1,38 @@
+const {
+  createStandardParser,
+  extractBalance,
+  parseAmountText,
+} = require('./shared');
+
+const standardParser = createStandardParser({
+  id: 'toss',
+  label: '토스뱅크',
+  senders: ['16617654'],
+  prefixes: ['토스뱅크', '토스'],
+  stopWords: ['토스뱅크', '토스'],
+});
+
+/**
+ * 토스뱅크 입금 문자
+ * 예시: "[토스뱅크] 채윤서님이 150,000원을 보냈어요. 잔액 1,234,567원"
+ *       "[토스뱅크]\n입금 150,000원\n채윤서\n잔액 1,234,567원"
+ */
+const tossParser = {
+  ...standardParser,
+  parse(body: string) {
+    // "님에게"는 출금 알림이므로 "님이"만 입금으로 본다
+    const sentMatch = body ? body.match(/([가-힣]{2,10})님이\s*([\d,]+)\s*원을?\s*(보냈|입금)/) : null;
+    if (sentMatch) {
+      const amount = parseAmountText(sentMatch[2]);
+      if (!amount) return null;
+      return {
+        amount,
+        depositorName: sentMatch[1].slice(0, 4),
+        balance: extractBalance(body),
+      };
+    }
+    return standardParser.parse(body);
+  },
+};
+
+module.exports = { tossParser };
@@ -0,0 +1,15 @@
+const { createStandardParser } = require('./shared');
+
+/**
+ * 우리은행 입금 문자
+ * 예시: "[Web발신]\n우리 04/03 14:37\n*123456\n입금 150,000원\n홍길동\n잔액 1,234,567원"
+ */
+const wooriParser = createStandardParser({
+  id: 'woori',
+  label: '우리은행',
+  senders: ['15885000', '15995000'],
+  prefixes: ['우리은행', '우리'],
+  stopWords: ['우리은행', '우리'],
+});
+
+module.exports = { wooriParser };
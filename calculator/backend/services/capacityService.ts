@@ -0,0 +1,224 @@
+const { prisma } = require('../db/prisma');
+const { normalizeCourseConfigSetName, normalizeCourseId } = require('../utils/dateUtils');
+const {
+  countTakenSeats,
+  exceedsCapacity,
+  getClassSlotKey,
+  getCourseCapacity,
+  toClassSlot,
+} = require('../shared/classCapacity');
+const { loadCourseInfoMap } = require('./quoteService');
+
+type CourseInfoMap = Record<string, Record<string, unknown> | undefined>
+type TransactionClient = import('@prisma/client').Prisma.TransactionClient
+
+type CapacityRecordInput = Record<string, unknown> & {
+  name?: unknown
+  course?: unknown
+  courseId?: unknown
+  courseConfigSetName?: unknown
+  courseType?: unknown
+  timeOption?: unknown
+}
+
+type CapacityOverflow = {
+  index: number
+  name: string
+  course: string
+  courseId: string
+  courseType: string
+  timeOption: string
+  capacity: number
+  taken: number
+}
+
+const CAPACITY_ROUTE_MESSAGES = {
+  courseConfigSetRequired: '설정 세트를 선택해 주세요.',
+  capacityExceeded: '정원이 찬 반이 있습니다.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 로컬 기준 오늘 (YYYY-MM-DD) */
+function getToday(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 설정 세트 안에서 자리를 차지하는 등록 수. courseIds가 있으면 그 과목만 센다.
+ */
+async function loadTakenSeats(
+  courseConfigSetName: string,
+  courseIds: string[] | null = null,
+  db: TransactionClient = prisma
+) {
+  const today = getToday();
+  const rows = await db.registration.findMany({
+    where: {
+      courseConfigSetName,
+      ...(courseIds ? { courseId: { in: courseIds } } : { courseId: { not: null } }),
+      withdrawnAt: null,
+      transferToId: null,
+    },
+    select: {
+      courseId: true,
+      courseType: true,
+      timeOption: true,
+      endDate: true,
+      withdrawnAt: true,
+      transferToId: true,
+    },
+  });
+  return countTakenSeats(rows, today);
+}
+
+function getCapacityMap(courseInfo: CourseInfoMap | null) {
+  const capacities: Record<string, number> = {};
+  for (const [courseId, info] of Object.entries(courseInfo || {})) {
+    const capacity = getCourseCapacity(info);
+    if (capacity > 0) capacities[courseId] = capacity;
+  }
+  return capacities;
+}
+
+/**
+ * GET /api/capacity — 정원이 있는 과목의 반별 사용 자리와 대기 인원
+ */
+async function getCapacitySummaryResult(query: Record<string, unknown>) {
+  const courseConfigSetName = normalizeCourseConfigSetName(query?.courseConfigSetName);
+  if (!courseConfigSetName) return fail(400, CAPACITY_ROUTE_MESSAGES.courseConfigSetRequired);
+
+  const courseInfo = await loadCourseInfoMap(courseConfigSetName);
+  const capacities = getCapacityMap(courseInfo);
+  const courseIds = Object.keys(capacities);
+
+  const [taken, waitingRows] = await Promise.all([
+    courseIds.length ? loadTakenSeats(courseConfigSetName, courseIds) : new Map<string, number>(),
+    prisma.waitlistEntry.findMany({
+      where: { courseConfigSetName, status: 'waiting' },
+      select: { courseId: true, courseType: true, timeOption: true },
+    }),
+  ]);
+
+  const seats = new Map<string, { courseId: string; courseType: string; timeOption: string; taken: number; waiting: number }>();
+  const ensureSeat = (value: { courseId?: string | null; courseType?: string | null; timeOption?: string | null }) => {
+    const key = getClassSlotKey(value);
+    if (!seats.has(key)) seats.set(key, { ...toClassSlot(value), taken: 0, waiting: 0 });
+    return seats.get(key)!;
+  };
+  for (const [key, count] of taken.entries()) {
+    const [courseId, timeOption, courseType] = key.split('|');
+    ensureSeat({ courseId, courseType, timeOption }).taken = count;
+  }
+  for (const row of waitingRows) {
+    ensureSeat(row).waiting += 1;
+  }
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', capacities, seats: Array.from(seats.values()) },
+  };
+}
+
+/**
+ * 세트·과목별 자리 잠금. 트랜잭션이 끝날 때까지 같은 과목의 자리 확인과 저장이 차례로 돈다.
+ * 여러 과목을 잠글 때 교착이 없도록 항상 같은 순서로 잡는다.
+ */
+async function lockCapacitySlots(tx: TransactionClient, setName: string, courseIds: string[]) {
+  const keys = Array.from(new Set(courseIds)).sort().map((courseId) => `capacity:${setName}:${courseId}`);
+  for (const key of keys) {
+    await tx.$queryRaw`SELECT 1 FROM pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+}
+
+/**
+ * 저장하려는 기록 중 정원을 넘는 항목. 같은 요청 안의 기록도 앞에서부터 자리를 차지한다.
+ * 과목 키가 없거나 정원이 없는 과목은 검사하지 않는다.
+ * tx를 넘기면 검사한 과목의 자리를 잠그고 그 트랜잭션 안에서 센다. 등록 저장도 같은 트랜잭션에서 해야
+ * 동시에 저장해도 정원을 넘지 않는다.
+ */
+async function findCapacityOverflows(
+  records: CapacityRecordInput[],
+  tx: TransactionClient | null = null
+): Promise<CapacityOverflow[]> {
+  const bySet = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    const setName = normalizeCourseConfigSetName(record?.courseConfigSetName);
+    if (!setName || !normalizeCourseId(record?.courseId)) return;
+    bySet.set(setName, [...(bySet.get(setName) || []), index]);
+  });
+
+  const overflows: CapacityOverflow[] = [];
+  for (const [setName, indexes] of bySet.entries()) {
+    const capacities = getCapacityMap(await loadCourseInfoMap(setName));
+    const checked = indexes.filter((index) => capacities[normalizeCourseId(records[index].courseId)] > 0);
+    if (!checked.length) continue;
+
+    const courseIds = Array.from(
+      new Set(checked.map((index) => normalizeCourseId(records[index].courseId)))
+    ) as string[];
+    if (tx) await lockCapacitySlots(tx, setName, courseIds);
+    const taken = await loadTakenSeats(setName, courseIds, tx || prisma);
+    for (const index of checked) {
+      const record = records[index];
+      const slot = toClassSlot({
+        courseId: normalizeCourseId(record.courseId),
+        courseType: String(record.courseType ?? ''),
+        timeOption: String(record.timeOption ?? ''),
+      });
+      const key = getClassSlotKey(slot);
+      const current = taken.get(key) ?? 0;
+      const capacity = capacities[slot.courseId];
+      if (exceedsCapacity(capacity, current)) {
+        overflows.push({
+          index,
+          name: String(record.name ?? ''),
+          course: String(record.course ?? ''),
+          ...slot,
+          capacity,
+          taken: current,
+        });
+        continue;
+      }
+      taken.set(key, current + 1);
+    }
+  }
+
+  return overflows.sort((a, b) => a.index - b.index);
+}
+
+function formatCapacityOverflowMessage(overflows: CapacityOverflow[]) {
+  const details = overflows.map((item) => {
+    const slotLabel = [item.timeOption, item.courseType].filter(Boolean).join(' ');
+    return `${item.course || item.courseId}${slotLabel ? ` (${slotLabel})` : ''}: ${item.taken}/${item.capacity}명`;
+  });
+  return [CAPACITY_ROUTE_MESSAGES.capacityExceeded, ...details].join('\n');
+}
+
+function buildCapacityFailure(overflows: CapacityOverflow[]) {
+  return {
+    statusCode: 409,
+    body: {
+      status: '실패',
+      message: formatCapacityOverflowMessage(overflows),
+      capacityOverflows: overflows,
+    },
+  };
+}
+
+module.exports = {
+  CAPACITY_ROUTE_MESSAGES,
+  buildCapacityFailure,
+  findCapacityOverflows,
+  getCapacitySummaryResult,
+  getToday,
+  loadTakenSeats,
+};
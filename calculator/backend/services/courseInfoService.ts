@@ -0,0 +1,37 @@
+const { prisma } = require('../db/prisma');
+const { normalizeCourseConfigSetName } = require('../utils/dateUtils');
+
+type CourseInfoMap = Record<string, Record<string, unknown> | undefined>
+
+function readCourseInfo(data: unknown): CourseInfoMap | null {
+  const courseInfo = (data as Record<string, unknown> | null)?.courseInfo;
+  if (!courseInfo || typeof courseInfo !== 'object') return null;
+  return courseInfo as CourseInfoMap;
+}
+
+/**
+ * 과목 설정 세트의 courseInfo. 세트가 없으면 현재 적용 중인 과목 설정(courses)을 쓴다.
+ */
+async function loadCourseInfoMap(courseConfigSetName: unknown): Promise<CourseInfoMap | null> {
+  const setName = normalizeCourseConfigSetName(courseConfigSetName);
+  if (setName) {
+    const row = await prisma.courseConfigSet.findUnique({
+      where: { name: setName },
+      select: { data: true },
+    });
+    const courseInfo = readCourseInfo(row?.data);
+    if (courseInfo) return courseInfo;
+  }
+
+  const active = await prisma.courseConfig.findUnique({
+    where: { key: 'courses' },
+    select: { data: true },
+  });
+  const activeSetName = normalizeCourseConfigSetName(active?.data?.courseConfigSetName);
+  if (setName && activeSetName && activeSetName !== setName) return null;
+  return readCourseInfo(active?.data);
+}
+
+module.exports = {
+  loadCourseInfoMap,
+};
@@ -0,0 +1,267 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeCourseConfigSetName, normalizeStringId } = require('../utils/dateUtils');
+const { parseStrictDateOnly } = require('../utils/parsers');
+const { isDiscountRuleType, normalizeCouponCode } = require('../shared/discountEngine');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type DiscountRuleInput = Record<string, unknown> & {
+  courseConfigSetName?: unknown
+  name?: unknown
+  type?: unknown
+  rate?: unknown
+  minCourses?: unknown
+  deadline?: unknown
+  couponCode?: unknown
+  courseKeys?: unknown
+  isActive?: unknown
+  sortOrder?: unknown
+}
+
+type RecordWithRuleIds = Record<string, unknown> & {
+  courseConfigSetName?: unknown
+  appliedDiscountRuleIds?: unknown
+}
+
+const DISCOUNT_RULE_MESSAGES = {
+  courseConfigSetRequired: '설정 세트를 선택해 주세요.',
+  nameRequired: '할인 이름을 입력해 주세요.',
+  invalidType: '할인 종류를 확인해 주세요.',
+  invalidRate: '할인율은 0보다 크고 100% 이하여야 합니다.',
+  invalidMinCourses: '다과목 할인은 2과목 이상부터 설정할 수 있습니다.',
+  deadlineRequired: '조기 등록 마감일을 입력해 주세요. (YYYY-MM-DD)',
+  couponCodeRequired: '쿠폰 코드를 입력해 주세요.',
+  duplicateCoupon: '같은 설정 세트에 이미 있는 쿠폰 코드입니다.',
+  ruleNotFound: '할인 규칙을 찾을 수 없습니다.',
+  ruleInUse: '등록에 적용된 할인 규칙은 삭제할 수 없습니다. 사용 안 함으로 바꿔 주세요.',
+  studentNameRequired: '학생 이름을 입력해 주세요.',
+} as const;
+
+const MAX_RULE_COURSE_KEYS = 200;
+const MAX_APPLIED_RULE_IDS = 20;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatDiscountRule(row: any) {
+  return {
+    id: row.id,
+    courseConfigSetName: row.courseConfigSetName,
+    name: row.name,
+    type: row.type,
+    rate: row.rate,
+    minCourses: row.minCourses ?? null,
+    deadline: formatDateOnly(row.deadline) || null,
+    couponCode: row.couponCode || null,
+    courseKeys: Array.isArray(row.courseKeys) ? row.courseKeys : [],
+    isActive: row.isActive !== false,
+    sortOrder: row.sortOrder ?? 0,
+    createdBy: row.createdBy || '',
+    updatedAt: row.updatedAt?.toISOString() || '',
+  };
+}
+
+function invalidRule(message: string) {
+  return { error: message, data: null };
+}
+
+function parseStringList(value: unknown, max: number) {
+  if (!Array.isArray(value)) return [];
+  const out = new Set<string>();
+  for (const item of value) {
+    const text = String(item ?? '').trim();
+    if (text) out.add(text);
+    if (out.size >= max) break;
+  }
+  return Array.from(out);
+}
+
+/**
+ * 할인 규칙 입력을 정리한다. 종류별로 필요한 조건만 남기고 나머지는 비운다.
+ */
+function buildDiscountRuleData(input: DiscountRuleInput) {
+  const courseConfigSetName = normalizeCourseConfigSetName(input.courseConfigSetName);
+  if (!courseConfigSetName) return invalidRule(DISCOUNT_RULE_MESSAGES.courseConfigSetRequired);
+
+  const name = String(input.name ?? '').trim();
+  if (!name) return invalidRule(DISCOUNT_RULE_MESSAGES.nameRequired);
+
+  const type = String(input.type ?? '').trim();
+  if (!isDiscountRuleType(type)) return invalidRule(DISCOUNT_RULE_MESSAGES.invalidType);
+
+  const rate = Number(input.rate);
+  if (!Number.isFinite(rate) || rate <= 0 || rate > 1) {
+    return invalidRule(DISCOUNT_RULE_MESSAGES.invalidRate);
+  }
+
+  let minCourses: number | null = null;
+  let deadline: Date | null = null;
+  let couponCode: string | null = null;
+  if (type === 'multiCourse') {
+    minCourses = Math.trunc(Number(input.minCourses ?? 2));
+    if (!Number.isFinite(minCourses) || minCourses < 2) {
+      return invalidRule(DISCOUNT_RULE_MESSAGES.invalidMinCourses);
+    }
+  }
+  if (type === 'earlyBird') {
+    deadline = parseStrictDateOnly(input.deadline);
+    if (!deadline) return invalidRule(DISCOUNT_RULE_MESSAGES.deadlineRequired);
+  }
+  if (type === 'coupon') {
+    couponCode = normalizeCouponCode(input.couponCode) || null;
+    if (!couponCode) return invalidRule(DISCOUNT_RULE_MESSAGES.couponCodeRequired);
+  }
+
+  const sortOrder = Math.trunc(Number(input.sortOrder ?? 0));
+  return {
+    error: null,
+    data: {
+      courseConfigSetName,
+      name,
+      type,
+      rate,
+      minCourses,
+      deadline,
+      couponCode,
+      courseKeys: parseStringList(input.courseKeys, MAX_RULE_COURSE_KEYS),
+      isActive: input.isActive !== false,
+      sortOrder: Number.isFinite(sortOrder) ? sortOrder : 0,
+    },
+  };
+}
+
+async function hasDuplicateCoupon(
+  data: { courseConfigSetName: string; couponCode: string | null },
+  excludeId = ''
+) {
+  if (!data.couponCode) return false;
+  const existing = await prisma.discountRule.findFirst({
+    where: {
+      courseConfigSetName: data.courseConfigSetName,
+      couponCode: data.couponCode,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: { id: true },
+  });
+  return !!existing;
+}
+
+async function listDiscountRulesResult(query: Record<string, unknown>) {
+  const courseConfigSetName = normalizeCourseConfigSetName(query?.courseConfigSetName);
+  if (!courseConfigSetName) return fail(400, DISCOUNT_RULE_MESSAGES.courseConfigSetRequired);
+
+  const rows = await prisma.discountRule.findMany({
+    where: { courseConfigSetName },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }],
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatDiscountRule) } };
+}
+
+async function createDiscountRuleResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: DiscountRuleInput
+}) {
+  const parsed = buildDiscountRuleData(body || {});
+  if (!parsed.data) return fail(400, parsed.error);
+  if (await hasDuplicateCoupon(parsed.data)) return fail(409, DISCOUNT_RULE_MESSAGES.duplicateCoupon);
+
+  const row = await prisma.discountRule.create({
+    data: { id: uuidv4(), ...parsed.data, createdBy: authUser.username || '' },
+  });
+  return { statusCode: 201, body: { status: 'success', rule: formatDiscountRule(row) } };
+}
+
+async function updateDiscountRuleResult({ id, body }: { id: unknown; body: DiscountRuleInput }) {
+  const ruleId = normalizeStringId(id);
+  const existing = ruleId ? await prisma.discountRule.findUnique({ where: { id: ruleId } }) : null;
+  if (!existing) return fail(404, DISCOUNT_RULE_MESSAGES.ruleNotFound);
+
+  // 설정 세트는 옮기지 않는다
+  const parsed = buildDiscountRuleData({ ...(body || {}), courseConfigSetName: existing.courseConfigSetName });
+  if (!parsed.data) return fail(400, parsed.error);
+  if (await hasDuplicateCoupon(parsed.data, existing.id)) {
+    return fail(409, DISCOUNT_RULE_MESSAGES.duplicateCoupon);
+  }
+
+  const row = await prisma.discountRule.update({ where: { id: existing.id }, data: parsed.data });
+  return { statusCode: 200, body: { status: 'success', rule: formatDiscountRule(row) } };
+}
+
+async function deleteDiscountRuleResult(id: unknown) {
+  const ruleId = normalizeStringId(id);
+  const existing = ruleId ? await prisma.discountRule.findUnique({ where: { id: ruleId } }) : null;
+  if (!existing) return fail(404, DISCOUNT_RULE_MESSAGES.ruleNotFound);
+
+  // 등록에 남은 규칙 ID로 월별 할인을 집계하므로 쓰인 규칙은 지우지 않는다
+  const applied = await prisma.registration.findFirst({
+    where: { appliedDiscountRuleIds: { has: existing.id } },
+    select: { id: true },
+  });
+  if (applied) return fail(409, DISCOUNT_RULE_MESSAGES.ruleInUse);
+
+  await prisma.discountRule.delete({ where: { id: existing.id } });
+  return { statusCode: 200, body: { status: 'success', id: existing.id } };
+}
+
+/** 재원생 할인 판단용: 같은 이름의 등록이 이미 있는지 */
+async function getStudentDiscountContextResult(query: Record<string, unknown>) {
+  const name = String(query?.name ?? '').trim();
+  if (!name) return fail(400, DISCOUNT_RULE_MESSAGES.studentNameRequired);
+
+  // 수정 중인 등록 자신은 이전 등록으로 치지 않는다
+  const excludeId = normalizeStringId(query?.excludeId);
+  const previous = await prisma.registration.findFirst({
+    where: { name, ...(excludeId ? { id: { not: excludeId } } : {}) },
+    select: { id: true },
+  });
+  return { statusCode: 200, body: { status: 'success', isReturningStudent: !!previous } };
+}
+
+/**
+ * 등록 기록의 appliedDiscountRuleIds를 해당 설정 세트에 실제로 있는 규칙 ID로만 남긴다.
+ */
+async function sanitizeAppliedDiscountRuleIds<T extends RecordWithRuleIds>(records: T[]): Promise<T[]> {
+  const requested = records.map((record) =>
+    parseStringList(record.appliedDiscountRuleIds, MAX_APPLIED_RULE_IDS)
+  );
+  const allIds = Array.from(new Set(requested.flat()));
+  const rows = allIds.length
+    ? await prisma.discountRule.findMany({
+        where: { id: { in: allIds } },
+        select: { id: true, courseConfigSetName: true },
+      })
+    : [];
+  const setById = new Map<string, string>(
+    rows.map((row: { id: string; courseConfigSetName: string }) => [row.id, row.courseConfigSetName])
+  );
+
+  return records.map((record, index) => {
+    if (!Object.prototype.hasOwnProperty.call(record, 'appliedDiscountRuleIds')) return record;
+    const setName = normalizeCourseConfigSetName(record.courseConfigSetName);
+    return {
+      ...record,
+      appliedDiscountRuleIds: requested[index].filter((ruleId) => setName && setById.get(ruleId) === setName),
+    };
+  });
+}
+
+module.exports = {
+  DISCOUNT_RULE_MESSAGES,
+  createDiscountRuleResult,
+  deleteDiscountRuleResult,
+  getStudentDiscountContextResult,
+  listDiscountRulesResult,
+  sanitizeAppliedDiscountRuleIds,
+  updateDiscountRuleResult,
+};
@@ -0,0 +1,425 @@
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeCourseConfigSetName, normalizeStringId } = require('../utils/dateUtils');
+const { normalizeRecordingDates, parseTuitionFee } = require('../utils/parsers');
+const { calculateCourseFee, RECORDING_FEE_RATE } = require('../shared/feeEngine');
+const { resolveCourseTextbook, TEXTBOOK_ACCOUNT, TUITION_ACCOUNT } = require('../shared/tuitionNotice');
+const { buildFeeInput, loadCourseInfoMap, normalizeQuoteItem } = require('./quoteService');
+const { isRegistrationAccessAllowed } = require('./registrationAccessService');
+const { createPdfDocument, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, wrapPdfText } = require('../utils/pdfWriter');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type CourseInfoMap = Record<string, Record<string, unknown> | undefined>
+
+type InvoiceType = 'quote' | 'invoice'
+
+type QuoteItemLike = {
+  record: Record<string, unknown>
+  displayCourseName: string
+  durationStr: string
+  finalFee: number
+}
+
+type InvoiceLine = {
+  courseName: string
+  schedule: string
+  timeStr: string
+  recordingDates: string[]
+  recordingDays: number
+  totalDays: number
+  normalFee: number
+  recordingFee: number
+  discount: number
+  tuitionFee: number
+  textbookOption: string
+  textbookAmount: number
+  textbookNote: string
+}
+
+type InvoiceDocument = {
+  type: InvoiceType
+  studentName: string
+  issuedAt: string
+  lines: InvoiceLine[]
+}
+
+const INVOICE_MESSAGES = {
+  studentNameRequired: '학생 이름을 입력해 주세요.',
+  itemsRequired: '문서에 담을 과목이 없습니다.',
+  tooManyItems: '문서 하나에는 과목을 20개까지 담을 수 있습니다.',
+  invalidItem: '과목 정보를 확인해 주세요.',
+  registrationNotFound: '등록 정보를 찾을 수 없습니다.',
+  forbidden: '해당 등록에 대한 권한이 없습니다.',
+} as const;
+
+const INVOICE_TITLES: Record<InvoiceType, string> = {
+  quote: '견 적 서',
+  invoice: '청 구 서',
+};
+
+const INVOICE_FILE_LABELS: Record<InvoiceType, string> = {
+  quote: '견적서',
+  invoice: '청구서',
+};
+
+const ACADEMY_NAME = '세한아카데미외국어학원';
+const MAX_INVOICE_ITEMS = 20;
+const MARGIN = 48;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const BOTTOM_LIMIT = PDF_PAGE_HEIGHT - 64;
+const COLUMNS = {
+  no: MARGIN,
+  course: MARGIN + 28,
+  discountRight: MARGIN + CONTENT_WIDTH - 170,
+  tuitionRight: MARGIN + CONTENT_WIDTH - 80,
+  textbookRight: MARGIN + CONTENT_WIDTH - 6,
+};
+const COURSE_COLUMN_WIDTH = COLUMNS.discountRight - COLUMNS.course - 50;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function normalizeInvoiceType(value: unknown, fallback: InvoiceType): InvoiceType {
+  return value === 'quote' || value === 'invoice' ? value : fallback;
+}
+
+function getLocalDateString(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatWon(value: number) {
+  return `${Math.round(value).toLocaleString('ko-KR')}원`;
+}
+
+function formatDiscountRate(discount: number) {
+  return discount > 0 ? `${Math.round(discount * 10000) / 100}%` : '-';
+}
+
+function createCourseInfoLoader() {
+  const cache = new Map<string, Promise<CourseInfoMap | null>>();
+  return (setName: unknown) => {
+    const key = normalizeCourseConfigSetName(setName) || '';
+    if (!cache.has(key)) cache.set(key, loadCourseInfoMap(key));
+    return cache.get(key) as Promise<CourseInfoMap | null>;
+  };
+}
+
+/**
+ * 수강료 엔진으로 녹화 수강 분리 금액을 다시 계산한다. 과목 설정이 없으면 null.
+ */
+function calculateLineFee(courseInfo: CourseInfoMap | null, record: Record<string, unknown>) {
+  const input = buildFeeInput(record);
+  if (!courseInfo || !input.courseKey || input.period <= 0) return null;
+  const quote = calculateCourseFee(courseInfo, input);
+  return quote && !quote.error ? { input, quote } : null;
+}
+
+function buildInvoiceLine({
+  courseInfo,
+  record,
+  courseName,
+  schedule,
+  timeStr,
+  savedFee,
+}: {
+  courseInfo: CourseInfoMap | null
+  record: Record<string, unknown>
+  courseName: string
+  schedule: string
+  timeStr: string
+  savedFee: number | null
+}): InvoiceLine {
+  const calculated = calculateLineFee(courseInfo, record);
+  const recordingDates = normalizeRecordingDates(record.recordingDates);
+  const tuitionFee = savedFee ?? calculated?.quote.totalFee ?? 0;
+  // 저장된 금액이 재계산과 다르면 분리 금액을 보여주지 않는다
+  const showSplit = !!calculated && calculated.quote.totalFee === tuitionFee;
+  const courseKey = calculated?.input.courseKey || '';
+  const courseMeta = courseKey && courseInfo ? courseInfo[courseKey] : undefined;
+  const textbook = resolveCourseTextbook(courseMeta?.textbook, calculated?.input.courseType);
+
+  return {
+    courseName,
+    schedule,
+    timeStr,
+    recordingDates,
+    recordingDays: recordingDates.length,
+    totalDays: showSplit ? calculated.quote.totalDays : 0,
+    normalFee: showSplit ? calculated.quote.normalFee : 0,
+    recordingFee: showSplit ? calculated.quote.recordingFee : 0,
+    discount: calculated?.input.discount ?? 0,
+    tuitionFee,
+    textbookOption: textbook.textbookOption,
+    textbookAmount: textbook.textbookAmount,
+    textbookNote: textbook.customNote,
+  };
+}
+
+function formatRegistrationSchedule(row: any) {
+  const start = formatDateOnly(row.startDate);
+  const end = formatDateOnly(row.endDate);
+  const range = start && end ? `${start} ~ ${end}` : start || end;
+  const period =
+    row.durationUnit === 'daily'
+      ? Array.isArray(row.selectedDates) && row.selectedDates.length
+        ? `${row.selectedDates.length}일`
+        : ''
+      : row.weeks
+        ? `${row.weeks}주`
+        : '';
+  return [range, period].filter(Boolean).join(' ');
+}
+
+function getTotals(lines: InvoiceLine[]) {
+  const tuitionTotal = lines.reduce((sum, line) => sum + line.tuitionFee, 0);
+  const textbookTotal = lines.reduce((sum, line) => sum + line.textbookAmount, 0);
+  return { tuitionTotal, textbookTotal, grandTotal: tuitionTotal + textbookTotal };
+}
+
+function getLineDetails(line: InvoiceLine) {
+  const details = [`수강기간: ${line.schedule || '-'}`];
+  if (line.timeStr) details.push(`수업시간: ${line.timeStr}`);
+  if (line.recordingDays > 0) {
+    details.push(`녹화수강일: ${line.recordingDates.join(', ')}`);
+    if (line.totalDays > 0) {
+      const normalDays = Math.max(line.totalDays - line.recordingDays, 0);
+      details.push(
+        `실시간수업(${normalDays}일) ${formatWon(line.normalFee)} + 녹화강의(${line.recordingDays}일) ${formatWon(line.recordingFee)} (정가의 ${Math.round(RECORDING_FEE_RATE * 100)}%)`
+      );
+    }
+  }
+  if (line.textbookOption === 'tbd') details.push('교재비는 추후 안내 예정입니다.');
+  return details;
+}
+
+/** 입금 안내 문구에서 PDF에 맞지 않는 강조 표시를 뺀다 */
+function toNoticeLines(notice: string) {
+  return notice
+    .split('\n')
+    .map((line) => line.replace(/\*\*/g, '').trim())
+    .filter(Boolean);
+}
+
+function renderInvoicePdf(doc: InvoiceDocument) {
+  const pdf = createPdfDocument();
+  const { tuitionTotal, textbookTotal, grandTotal } = getTotals(doc.lines);
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= BOTTOM_LIMIT) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  // 레터헤드
+  pdf.text(MARGIN, y, ACADEMY_NAME, { size: 12, bold: true });
+  pdf.text(MARGIN + CONTENT_WIDTH, y + 2, `발행일 ${doc.issuedAt}`, { size: 9, align: 'right' });
+  y += 22;
+  pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, { width: 1.2 });
+  y += 20;
+  pdf.text(PDF_PAGE_WIDTH / 2, y, INVOICE_TITLES[doc.type], { size: 22, bold: true, align: 'center' });
+  y += 44;
+  pdf.text(MARGIN, y, `${doc.studentName} 학생 귀하`, { size: 12, bold: true });
+  pdf.text(MARGIN + CONTENT_WIDTH, y, `합계 ${formatWon(grandTotal)}`, { size: 12, bold: true, align: 'right' });
+  y += 28;
+
+  const drawHeader = () => {
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, 20, { fillGray: 0.92 });
+    pdf.text(COLUMNS.no + 4, y + 5, 'No', { size: 9, bold: true });
+    pdf.text(COLUMNS.course, y + 5, '과목 / 수강기간', { size: 9, bold: true });
+    pdf.text(COLUMNS.discountRight, y + 5, '할인', { size: 9, bold: true, align: 'right' });
+    pdf.text(COLUMNS.tuitionRight, y + 5, '수강료', { size: 9, bold: true, align: 'right' });
+    pdf.text(COLUMNS.textbookRight, y + 5, '교재비', { size: 9, bold: true, align: 'right' });
+    y += 26;
+  };
+  drawHeader();
+
+  doc.lines.forEach((line, index) => {
+    const nameLines = wrapPdfText(line.courseName || '-', 10, COURSE_COLUMN_WIDTH);
+    const detailLines = getLineDetails(line).flatMap((detail) =>
+      wrapPdfText(detail, 8, COLUMNS.tuitionRight - COLUMNS.course - 60)
+    );
+    const rowHeight = nameLines.length * 14 + detailLines.length * 11 + 8;
+    if (y + rowHeight > BOTTOM_LIMIT) {
+      pdf.addPage();
+      y = MARGIN;
+      drawHeader();
+    }
+
+    pdf.text(COLUMNS.no + 4, y, String(index + 1), { size: 10 });
+    pdf.text(COLUMNS.discountRight, y, formatDiscountRate(line.discount), { size: 10, align: 'right' });
+    pdf.text(COLUMNS.tuitionRight, y, formatWon(line.tuitionFee), { size: 10, align: 'right' });
+    pdf.text(COLUMNS.textbookRight, y, line.textbookAmount > 0 ? formatWon(line.textbookAmount) : '-', {
+      size: 10,
+      align: 'right',
+    });
+    let rowY = y;
+    nameLines.forEach((text: string) => {
+      pdf.text(COLUMNS.course, rowY, text, { size: 10, bold: true });
+      rowY += 14;
+    });
+    detailLines.forEach((text: string) => {
+      pdf.text(COLUMNS.course, rowY, text, { size: 8 });
+      rowY += 11;
+    });
+    y += rowHeight;
+    pdf.line(MARGIN, y - 4, MARGIN + CONTENT_WIDTH, y - 4, { gray: 0.75 });
+  });
+
+  // 합계
+  ensureSpace(70);
+  y += 6;
+  const totalRows: Array<[string, number]> = [['수강료 합계', tuitionTotal]];
+  if (textbookTotal > 0) totalRows.push(['교재비 합계', textbookTotal]);
+  totalRows.forEach(([label, amount]) => {
+    pdf.text(COLUMNS.tuitionRight, y, label, { size: 10, align: 'right' });
+    pdf.text(COLUMNS.textbookRight, y, formatWon(amount), { size: 10, align: 'right' });
+    y += 16;
+  });
+  pdf.text(COLUMNS.tuitionRight, y, doc.type === 'quote' ? '견적 금액' : '청구 금액', {
+    size: 12,
+    bold: true,
+    align: 'right',
+  });
+  pdf.text(COLUMNS.textbookRight, y, formatWon(grandTotal), { size: 12, bold: true, align: 'right' });
+  y += 30;
+
+  // 과목별 교재 안내
+  const notes = Array.from(new Set(doc.lines.map((line) => line.textbookNote).filter(Boolean)));
+  notes.forEach((note) => {
+    const noteLines = wrapPdfText(note, 9, CONTENT_WIDTH);
+    ensureSpace(noteLines.length * 13 + 6);
+    noteLines.forEach((text: string) => {
+      pdf.text(MARGIN, y, text, { size: 9 });
+      y += 13;
+    });
+    y += 6;
+  });
+
+  // 입금 계좌
+  const accountBlocks = [toNoticeLines(TUITION_ACCOUNT)];
+  if (textbookTotal > 0) accountBlocks.push(toNoticeLines(TEXTBOOK_ACCOUNT));
+  accountBlocks.forEach((block) => {
+    const height = block.length * 14 + 16;
+    ensureSpace(height);
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, height, { strokeGray: 0.6 });
+    let blockY = y + 8;
+    block.forEach((text) => {
+      const isHeading = text.startsWith('[');
+      pdf.text(MARGIN + 10, blockY, text, { size: 9, bold: isHeading });
+      blockY += 14;
+    });
+    y += height + 10;
+  });
+
+  return pdf.toBuffer(`${INVOICE_FILE_LABELS[doc.type]} - ${doc.studentName}`);
+}
+
+function buildFilename(doc: InvoiceDocument) {
+  return `${INVOICE_FILE_LABELS[doc.type]}_${doc.studentName}_${doc.issuedAt}.pdf`;
+}
+
+function toPdfResult(doc: InvoiceDocument) {
+  return { statusCode: 200, pdf: renderInvoicePdf(doc), filename: buildFilename(doc) };
+}
+
+/**
+ * 계산기 장바구니로 견적서/청구서를 만든다. 금액은 서버 수강료 엔진으로 다시 계산한다.
+ */
+async function createCartInvoicePdfResult(body: Record<string, unknown>) {
+  const studentName = String(body?.studentName ?? '').trim();
+  if (!studentName) return fail(400, INVOICE_MESSAGES.studentNameRequired);
+
+  const rawItems = Array.isArray(body?.items) ? body.items : [];
+  if (!rawItems.length) return fail(400, INVOICE_MESSAGES.itemsRequired);
+  if (rawItems.length > MAX_INVOICE_ITEMS) return fail(400, INVOICE_MESSAGES.tooManyItems);
+
+  const items: Array<QuoteItemLike | null> = rawItems.map(normalizeQuoteItem);
+  if (items.some((item) => !item)) return fail(400, INVOICE_MESSAGES.invalidItem);
+
+  const loadCourseInfo = createCourseInfoLoader();
+  const lines: InvoiceLine[] = [];
+  for (const [index, item] of (items as QuoteItemLike[]).entries()) {
+    const record = {
+      ...item.record,
+      courseConfigSetName: item.record.courseConfigSetName ?? body.courseConfigSetName,
+    };
+    const raw = rawItems[index] as Record<string, unknown>;
+    const courseInfo = await loadCourseInfo(record.courseConfigSetName);
+    const line = buildInvoiceLine({
+      courseInfo,
+      record,
+      courseName: item.displayCourseName,
+      schedule: item.durationStr,
+      timeStr: String(raw.timeStr ?? '').trim(),
+      savedFee: null,
+    });
+    // 과목 설정에서 계산할 수 없는 항목은 화면 금액을 그대로 쓴다
+    lines.push(line.tuitionFee > 0 ? line : { ...line, tuitionFee: item.finalFee });
+  }
+
+  return toPdfResult({
+    type: normalizeInvoiceType(body?.type, 'quote'),
+    studentName,
+    issuedAt: getLocalDateString(),
+    lines,
+  });
+}
+
+/**
+ * 등록 하나의 청구서(또는 견적서). 금액은 등록에 저장된 수강료를 쓴다.
+ */
+async function createRegistrationInvoicePdfResult({
+  authUser,
+  id,
+  type,
+}: {
+  authUser: AuthUserLike
+  id: unknown
+  type: unknown
+}) {
+  const registrationId = normalizeStringId(id);
+  const row = registrationId ? await prisma.registration.findUnique({ where: { id: registrationId } }) : null;
+  if (!row) return fail(404, INVOICE_MESSAGES.registrationNotFound);
+  if (!(await isRegistrationAccessAllowed(authUser, [row]))) {
+    return fail(403, INVOICE_MESSAGES.forbidden);
+  }
+
+  const courseInfo = await loadCourseInfoMap(row.courseConfigSetName);
+  const line = buildInvoiceLine({
+    courseInfo,
+    record: {
+      ...row,
+      recordingDates: Array.isArray(row.recordingDates) ? row.recordingDates : [],
+      selectedDates: Array.isArray(row.selectedDates) ? row.selectedDates : [],
+    },
+    courseName: row.course,
+    schedule: formatRegistrationSchedule(row),
+    timeStr: '',
+    savedFee: parseTuitionFee(row.tuitionFee),
+  });
+
+  return toPdfResult({
+    type: normalizeInvoiceType(type, 'invoice'),
+    studentName: row.name,
+    issuedAt: getLocalDateString(),
+    lines: [line],
+  });
+}
+
+module.exports = {
+  INVOICE_MESSAGES,
+  createCartInvoicePdfResult,
+  createRegistrationInvoicePdfResult,
+};
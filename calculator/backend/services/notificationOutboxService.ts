@@ -0,0 +1,358 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { normalizeStringId } = require('../utils/dateUtils');
+const {
+  NOTIFICATION_CHANNELS,
+  NotificationSendError,
+  listNotificationChannels,
+  resolveNotificationProvider,
+} = require('./notificationProviders');
+
+type AuthUserLike = {
+  username?: string | null
+} & Record<string, unknown>
+
+type NotificationRow = {
+  id: string
+  channel: string
+  kind: string
+  provider: string
+  recipientName: string
+  recipientPhone: string
+  studentId: string | null
+  registrationId: string | null
+  body: string
+  templateCode: string
+  status: string
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: Date
+  lastError: string
+  providerMessageId: string
+  sentAt: Date | null
+  cancelledAt: Date | null
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const NOTIFICATION_STATUS = {
+  queued: 'queued',
+  sending: 'sending',
+  sent: 'sent',
+  failed: 'failed',
+  cancelled: 'cancelled',
+} as const;
+
+const NOTIFICATION_KINDS = ['installment_notice', 'quote', 'absence_alert', 'custom'] as const;
+
+const NOTIFICATION_MESSAGES = {
+  messagesRequired: '보낼 메시지가 없습니다.',
+  tooManyMessages: '한 번에 50건까지 보낼 수 있습니다.',
+  invalidChannel: '발송 채널을 선택해 주세요.',
+  channelUnavailable: '발송 업체가 설정되지 않은 채널입니다.',
+  invalidPhone: '수신 번호를 확인해 주세요.',
+  bodyRequired: '메시지 내용을 입력해 주세요.',
+  bodyTooLong: '메시지는 2000자까지 보낼 수 있습니다.',
+  notFound: '메시지를 찾을 수 없습니다.',
+  notRetryable: '실패한 메시지만 다시 보낼 수 있습니다.',
+  notCancellable: '아직 보내지 않은 메시지만 취소할 수 있습니다.',
+  providerUnavailable: '발송 업체가 설정되지 않았습니다.',
+} as const;
+
+const MAX_MESSAGES_PER_REQUEST = 50;
+const MAX_BODY_LENGTH = 2000;
+const MAX_LIST = 200;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+// 발송 중 서버가 죽어 'sending'에 남은 메시지를 다시 대기열로 돌리는 기준
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const DISPATCH_BATCH_SIZE = 20;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 재시도 간격: 1분, 2분, 4분 … 최대 1시간 */
+function getRetryDelayMs(attempts: number) {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(BACKOFF_BASE_MS * 2 ** exponent, BACKOFF_MAX_MS);
+}
+
+function normalizePhone(value: unknown) {
+  const digits = String(value ?? '').replace(/\D/g, '');
+  return /^0\d{8,10}$/.test(digits) ? digits : '';
+}
+
+function formatNotification(row: NotificationRow) {
+  return {
+    id: row.id,
+    channel: row.channel,
+    kind: row.kind,
+    provider: row.provider || '',
+    recipientName: row.recipientName || '',
+    recipientPhone: row.recipientPhone,
+    studentId: row.studentId || null,
+    registrationId: row.registrationId || null,
+    body: row.body,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    nextAttemptAt: row.nextAttemptAt?.toISOString() || '',
+    lastError: row.lastError || '',
+    sentAt: row.sentAt?.toISOString() || '',
+    cancelledAt: row.cancelledAt?.toISOString() || '',
+    createdBy: row.createdBy || '',
+    createdAt: row.createdAt?.toISOString() || '',
+  };
+}
+
+function parseMessageInput(raw: Record<string, unknown>) {
+  const channel = String(raw?.channel ?? '').trim();
+  if (!NOTIFICATION_CHANNELS.includes(channel)) return { error: NOTIFICATION_MESSAGES.invalidChannel };
+  if (!resolveNotificationProvider(channel)) return { error: NOTIFICATION_MESSAGES.channelUnavailable };
+  const recipientPhone = normalizePhone(raw?.recipientPhone);
+  if (!recipientPhone) return { error: NOTIFICATION_MESSAGES.invalidPhone };
+  const body = String(raw?.body ?? '').trim();
+  if (!body) return { error: NOTIFICATION_MESSAGES.bodyRequired };
+  if (body.length > MAX_BODY_LENGTH) return { error: NOTIFICATION_MESSAGES.bodyTooLong };
+  const kind = String(raw?.kind ?? '').trim();
+
+  return {
+    error: null,
+    value: {
+      channel,
+      kind: NOTIFICATION_KINDS.includes(kind as (typeof NOTIFICATION_KINDS)[number]) ? kind : 'custom',
+      recipientName: String(raw?.recipientName ?? '').trim().slice(0, 100),
+      recipientPhone,
+      studentId: normalizeStringId(raw?.studentId),
+      registrationId: normalizeStringId(raw?.registrationId),
+      body,
+      templateCode: String(raw?.templateCode ?? '').trim().slice(0, 100),
+    },
+  };
+}
+
+/**
+ * GET /api/notifications/channels — 채널별 발송 업체 설정 여부
+ */
+function getNotificationChannelsResult() {
+  return { statusCode: 200, body: { status: 'success', channels: listNotificationChannels() } };
+}
+
+/**
+ * GET /api/notifications — 발송 이력 (studentId/registrationId/status로 거른다)
+ */
+async function listNotificationsResult(query: Record<string, unknown>) {
+  const studentId = normalizeStringId(query?.studentId);
+  const registrationId = normalizeStringId(query?.registrationId);
+  const status = String(query?.status ?? '').trim();
+  const rows = await prisma.notificationMessage.findMany({
+    where: {
+      ...(studentId ? { studentId } : {}),
+      ...(registrationId ? { registrationId } : {}),
+      ...(Object.values(NOTIFICATION_STATUS).includes(status as any) ? { status } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_LIST,
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatNotification) } };
+}
+
+/**
+ * POST /api/notifications — 직원이 확인한 메시지를 대기열에 넣는다. 실제 발송은 dispatcher가 한다.
+ */
+async function enqueueNotificationsResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+}) {
+  const rawMessages = Array.isArray(body?.messages) ? body.messages : [];
+  if (!rawMessages.length) return fail(400, NOTIFICATION_MESSAGES.messagesRequired);
+  if (rawMessages.length > MAX_MESSAGES_PER_REQUEST) return fail(400, NOTIFICATION_MESSAGES.tooManyMessages);
+
+  const parsed = rawMessages.map((raw: Record<string, unknown>) => parseMessageInput(raw));
+  const invalid = parsed.find((item: ReturnType<typeof parseMessageInput>) => item.error);
+  if (invalid && invalid.error) return fail(400, invalid.error);
+
+  const timestamp = new Date();
+  const rows = parsed.map((item: ReturnType<typeof parseMessageInput>) => ({
+    id: uuidv4(),
+    ...item.value,
+    status: NOTIFICATION_STATUS.queued,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+    nextAttemptAt: timestamp,
+    createdBy: String(authUser?.username || ''),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }));
+  await prisma.notificationMessage.createMany({ data: rows });
+
+  // 바로 한 번 보내 본다. 실패해도 대기열에 남아 재시도된다.
+  void processNotificationOutbox().catch((error: unknown) => {
+    console.error('[Notification] 즉시 발송 오류:', error);
+  });
+
+  return {
+    statusCode: 201,
+    body: { status: 'success', ids: rows.map((row: { id: string }) => row.id), count: rows.length },
+  };
+}
+
+/**
+ * POST /api/notifications/:id/retry — 실패한 메시지를 다시 대기열에 넣는다 (시도 횟수 초기화).
+ */
+async function retryNotificationResult(id: unknown) {
+  const messageId = normalizeStringId(id);
+  const existing = messageId ? await prisma.notificationMessage.findUnique({ where: { id: messageId } }) : null;
+  if (!existing) return fail(404, NOTIFICATION_MESSAGES.notFound);
+  if (existing.status !== NOTIFICATION_STATUS.failed) return fail(409, NOTIFICATION_MESSAGES.notRetryable);
+
+  const row = await prisma.notificationMessage.update({
+    where: { id: existing.id },
+    data: {
+      status: NOTIFICATION_STATUS.queued,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: '',
+    },
+  });
+  void processNotificationOutbox().catch((error: unknown) => {
+    console.error('[Notification] 재발송 오류:', error);
+  });
+  return { statusCode: 200, body: { status: 'success', result: formatNotification(row) } };
+}
+
+/**
+ * POST /api/notifications/:id/cancel — 아직 나가지 않은 메시지 취소
+ */
+async function cancelNotificationResult(id: unknown) {
+  const messageId = normalizeStringId(id);
+  if (!messageId) return fail(404, NOTIFICATION_MESSAGES.notFound);
+  const result = await prisma.notificationMessage.updateMany({
+    where: { id: messageId, status: { in: [NOTIFICATION_STATUS.queued, NOTIFICATION_STATUS.failed] } },
+    data: { status: NOTIFICATION_STATUS.cancelled, cancelledAt: new Date() },
+  });
+  if (!result.count) {
+    const exists = await prisma.notificationMessage.count({ where: { id: messageId } });
+    return exists ? fail(409, NOTIFICATION_MESSAGES.notCancellable) : fail(404, NOTIFICATION_MESSAGES.notFound);
+  }
+  return { statusCode: 200, body: { status: 'success' } };
+}
+
+/** 업체가 재시도하지 말라고 한 실패(NotificationSendError retryable: false)만 false */
+function isRetryableSendError(error: unknown) {
+  if (!(error instanceof NotificationSendError)) return true;
+  return (error as { retryable: boolean }).retryable;
+}
+
+async function sendOne(row: NotificationRow) {
+  const attempts = row.attempts + 1;
+  const provider = resolveNotificationProvider(row.channel);
+  try {
+    if (!provider) {
+      throw new NotificationSendError(NOTIFICATION_MESSAGES.providerUnavailable, { retryable: false });
+    }
+    const result = await provider.send(row);
+    await prisma.notificationMessage.update({
+      where: { id: row.id },
+      data: {
+        status: NOTIFICATION_STATUS.sent,
+        provider: provider.id,
+        attempts,
+        providerMessageId: result.providerMessageId || '',
+        lastError: '',
+        sentAt: new Date(),
+      },
+    });
+    return NOTIFICATION_STATUS.sent;
+  } catch (error) {
+    const retryable = isRetryableSendError(error);
+    const exhausted = !retryable || attempts >= row.maxAttempts;
+    await prisma.notificationMessage.update({
+      where: { id: row.id },
+      data: {
+        status: exhausted ? NOTIFICATION_STATUS.failed : NOTIFICATION_STATUS.queued,
+        provider: provider?.id || '',
+        attempts,
+        lastError: String(error instanceof Error ? error.message : error).slice(0, 500),
+        nextAttemptAt: new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    });
+    return exhausted ? NOTIFICATION_STATUS.failed : NOTIFICATION_STATUS.queued;
+  }
+}
+
+let dispatching: Promise<{ sent: number; failed: number; retrying: number }> | null = null;
+
+/**
+ * 보낼 때가 된 메시지를 보낸다. 동시에 여러 번 불려도 한 번만 돈다.
+ * 다른 프로세스와 겹치지 않도록 queued → sending 전환에 성공한 메시지만 보낸다.
+ */
+function processNotificationOutbox({ limit = DISPATCH_BATCH_SIZE }: { limit?: number } = {}) {
+  if (dispatching) return dispatching;
+  dispatching = (async () => {
+    const now = new Date();
+    await prisma.notificationMessage.updateMany({
+      where: { status: NOTIFICATION_STATUS.sending, updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MS) } },
+      data: { status: NOTIFICATION_STATUS.queued },
+    });
+
+    const due: NotificationRow[] = await prisma.notificationMessage.findMany({
+      where: { status: NOTIFICATION_STATUS.queued, nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    const summary = { sent: 0, failed: 0, retrying: 0 };
+    for (const row of due) {
+      const claimed = await prisma.notificationMessage.updateMany({
+        where: { id: row.id, status: NOTIFICATION_STATUS.queued },
+        data: { status: NOTIFICATION_STATUS.sending },
+      });
+      if (!claimed.count) continue;
+      const status = await sendOne(row);
+      if (status === NOTIFICATION_STATUS.sent) summary.sent += 1;
+      else if (status === NOTIFICATION_STATUS.failed) summary.failed += 1;
+      else summary.retrying += 1;
+    }
+    return summary;
+  })().finally(() => {
+    dispatching = null;
+  });
+  return dispatching;
+}
+
+/**
+ * 주기 발송. NOTIFICATION_DISPATCH_INTERVAL_MS(기본 30초)가 0이면 끈다.
+ */
+function startNotificationDispatcher() {
+  const intervalMs = Number(process.env.NOTIFICATION_DISPATCH_INTERVAL_MS ?? 30000);
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) return null;
+  const timer = setInterval(() => {
+    processNotificationOutbox().catch((error: unknown) => {
+      console.error('[Notification] 주기 발송 오류:', error);
+    });
+  }, intervalMs);
+  if (typeof timer.unref === 'function') timer.unref();
+  return timer;
+}
+
+module.exports = {
+  NOTIFICATION_MESSAGES,
+  NOTIFICATION_STATUS,
+  cancelNotificationResult,
+  enqueueNotificationsResult,
+  getNotificationChannelsResult,
+  getRetryDelayMs,
+  listNotificationsResult,
+  processNotificationOutbox,
+  retryNotificationResult,
+  startNotificationDispatcher,
+};
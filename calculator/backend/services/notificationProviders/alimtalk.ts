@@ -0,0 +1,50 @@
+const { NotificationSendError, postProviderJson } = require('./shared');
+
+type OutboundMessage = {
+  id: string
+  kind: string
+  recipientPhone: string
+  body: string
+  templateCode: string
+}
+
+/** 메시지 종류별 기본 템플릿 코드 (ALIMTALK_TEMPLATE_INSTALLMENT_NOTICE 등) */
+function resolveTemplateCode(message: OutboundMessage) {
+  if (message.templateCode) return message.templateCode;
+  return String(process.env[`ALIMTALK_TEMPLATE_${message.kind.toUpperCase()}`] || '');
+}
+
+/**
+ * 카카오 알림톡 대행사 HTTP API.
+ * ALIMTALK_API_URL, ALIMTALK_API_KEY, ALIMTALK_SENDER_KEY(발신 프로필 키)가 모두 있어야 쓴다.
+ * 승인된 템플릿과 본문이 다르면 대행사가 거절한다. ALIMTALK_FALLBACK_SMS=true면 대행사가 문자로 대신 보낸다.
+ */
+const alimtalkProvider = {
+  id: 'alimtalk',
+  channels: ['alimtalk'],
+  isConfigured: () =>
+    Boolean(process.env.ALIMTALK_API_URL && process.env.ALIMTALK_API_KEY && process.env.ALIMTALK_SENDER_KEY),
+  async send(message: OutboundMessage) {
+    const to = message.recipientPhone.replace(/\D/g, '');
+    if (!to) throw new NotificationSendError('수신 번호가 없습니다.', { retryable: false });
+    const templateCode = resolveTemplateCode(message);
+    if (!templateCode) {
+      throw new NotificationSendError('알림톡 템플릿 코드가 설정되지 않았습니다.', { retryable: false });
+    }
+    const data = await postProviderJson(
+      String(process.env.ALIMTALK_API_URL),
+      { Authorization: `Bearer ${process.env.ALIMTALK_API_KEY}` },
+      {
+        senderKey: process.env.ALIMTALK_SENDER_KEY,
+        templateCode,
+        to,
+        text: message.body,
+        fallbackSms: process.env.ALIMTALK_FALLBACK_SMS === 'true',
+        refId: message.id,
+      }
+    );
+    return { providerMessageId: String(data?.messageId ?? data?.id ?? '') };
+  },
+};
+
+module.exports = { alimtalkProvider };
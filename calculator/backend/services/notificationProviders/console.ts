@@ -0,0 +1,34 @@
+const fs = require('fs');
+const path = require('path');
+
+type OutboundMessage = {
+  id: string
+  channel: string
+  kind: string
+  recipientName: string
+  recipientPhone: string
+  body: string
+  templateCode: string
+}
+
+/**
+ * 개발·테스트용. 실제로 보내지 않고 NOTIFICATION_OUTBOX_FILE(JSON Lines)에 쓰거나 콘솔에 찍는다.
+ */
+const consoleProvider = {
+  id: 'console',
+  channels: ['sms', 'alimtalk'],
+  isConfigured: () => true,
+  async send(message: OutboundMessage) {
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    const filePath = process.env.NOTIFICATION_OUTBOX_FILE;
+    if (filePath) {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, `${line}\n`, 'utf8');
+    } else {
+      console.log(`[Notification:console] ${line}`);
+    }
+    return { providerMessageId: `console-${message.id}` };
+  },
+};
+
+module.exports = { consoleProvider };
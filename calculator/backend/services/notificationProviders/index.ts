@@ -0,0 +1,52 @@
+const { consoleProvider } = require('./console');
+const { smsProvider } = require('./sms');
+const { alimtalkProvider } = require('./alimtalk');
+const { NotificationSendError } = require('./shared');
+
+type OutboundMessage = {
+  id: string
+  channel: string
+  kind: string
+  recipientName: string
+  recipientPhone: string
+  body: string
+  templateCode: string
+}
+
+type NotificationProvider = {
+  id: string
+  channels: string[]
+  isConfigured: () => boolean
+  send: (message: OutboundMessage) => Promise<{ providerMessageId: string }>
+}
+
+const NOTIFICATION_CHANNELS = ['sms', 'alimtalk'] as const;
+
+const CHANNEL_PROVIDERS: NotificationProvider[] = [smsProvider, alimtalkProvider];
+
+/**
+ * 채널별 발송 업체.
+ * NOTIFICATION_PROVIDER=console이면 모두 console로 보낸다. 업체 설정이 없으면 운영에서는 null, 그 외에는 console.
+ */
+function resolveNotificationProvider(channel: string): NotificationProvider | null {
+  if (!NOTIFICATION_CHANNELS.includes(channel as (typeof NOTIFICATION_CHANNELS)[number])) return null;
+  if (process.env.NOTIFICATION_PROVIDER === 'console') return consoleProvider;
+  const provider = CHANNEL_PROVIDERS.find((item) => item.channels.includes(channel) && item.isConfigured());
+  if (provider) return provider;
+  return process.env.NODE_ENV === 'production' ? null : consoleProvider;
+}
+
+/** 관리 화면에 보여 줄 채널별 사용 가능 여부 */
+function listNotificationChannels() {
+  return NOTIFICATION_CHANNELS.map((channel) => {
+    const provider = resolveNotificationProvider(channel);
+    return { channel, provider: provider?.id || '', available: Boolean(provider) };
+  });
+}
+
+module.exports = {
+  NOTIFICATION_CHANNELS,
+  NotificationSendError,
+  listNotificationChannels,
+  resolveNotificationProvider,
+};
@@ -0,0 +1,44 @@
+/**
+ * 발송 실패. retryable이 false면 다시 보내도 같은 결과라 바로 실패 처리한다 (번호 오류, 템플릿 불일치 등).
+ */
+class NotificationSendError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, { retryable = true }: { retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'NotificationSendError';
+    this.retryable = retryable;
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * 발송 업체 HTTP API 호출. 5xx·네트워크 오류는 재시도, 4xx는 재시도하지 않는다.
+ */
+async function postProviderJson(url: string, headers: Record<string, string>, payload: Record<string, unknown>) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw new NotificationSendError(error instanceof Error ? error.message : 'network error');
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = String(data?.message || data?.error || `HTTP ${response.status}`);
+    throw new NotificationSendError(message, { retryable: response.status >= 500 || response.status === 429 });
+  }
+  return data as Record<string, unknown>;
+}
+
+module.exports = { NotificationSendError, postProviderJson };
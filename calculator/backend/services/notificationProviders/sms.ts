@@ -0,0 +1,44 @@
+const { NotificationSendError, postProviderJson } = require('./shared');
+
+type OutboundMessage = {
+  id: string
+  recipientPhone: string
+  body: string
+}
+
+// 단문(SMS) 한도. 넘으면 업체 쪽에서 장문(LMS)으로 보낸다.
+const SMS_MAX_BYTES = 90;
+
+function getByteLength(text: string) {
+  let bytes = 0;
+  for (const char of text) bytes += char.charCodeAt(0) > 0x7f ? 2 : 1;
+  return bytes;
+}
+
+/**
+ * 문자 발송 업체 HTTP API.
+ * SMS_API_URL, SMS_API_KEY, SMS_SENDER(사전 등록한 발신번호)가 모두 있어야 쓴다.
+ */
+const smsProvider = {
+  id: 'sms',
+  channels: ['sms'],
+  isConfigured: () => Boolean(process.env.SMS_API_URL && process.env.SMS_API_KEY && process.env.SMS_SENDER),
+  async send(message: OutboundMessage) {
+    const to = message.recipientPhone.replace(/\D/g, '');
+    if (!to) throw new NotificationSendError('수신 번호가 없습니다.', { retryable: false });
+    const data = await postProviderJson(
+      String(process.env.SMS_API_URL),
+      { Authorization: `Bearer ${process.env.SMS_API_KEY}` },
+      {
+        type: getByteLength(message.body) > SMS_MAX_BYTES ? 'LMS' : 'SMS',
+        from: String(process.env.SMS_SENDER).replace(/\D/g, ''),
+        to,
+        text: message.body,
+        refId: message.id,
+      }
+    );
+    return { providerMessageId: String(data?.messageId ?? data?.id ?? '') };
+  },
+};
+
+module.exports = { SMS_MAX_BYTES, getByteLength, smsProvider };
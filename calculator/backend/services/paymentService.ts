@@ -0,0 +1,599 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeStringId } = require('../utils/dateUtils');
+const { parseStrictDateOnly } = require('../utils/parsers');
+const {
+  isCategoryAccessBypassed,
+  isRegistrationAllowed,
+  loadAccessContext,
+} = require('./categoryAccessService');
+const { isRegistrationAccessAllowed } = require('./registrationAccessService');
+const { loadTransferSettlementMap } = require('./transferSettlementService');
+const { loadCourseInfoMap } = require('./courseInfoService');
+const { getBilledAmount, getRegistrationBaseBill } = require('../shared/paymentBilling');
+const { resolveEndDay } = require('../shared/courseSchedule');
+const { calculateWithdrawalRefund } = require('../shared/withdrawalRefund');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type DepositPaymentEntry = {
+  registrationId: string
+  registrationExtensionId: string | null
+  amount: number
+}
+
+type BillableRegistration = import('../shared/paymentBilling').BillableRegistration
+
+type RefundBreakdownData = import('../shared/withdrawalRefund').RefundBreakdownData
+
+type WithdrawalRefundInput = {
+  refundAmount: number
+  retainedFee: number
+  reason: string
+  /** 학원법 계산과 다른 금액으로 직접 정산할 때 */
+  override?: boolean
+}
+
+type WithdrawalRegistration = {
+  id: string
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  startDate?: Date | null
+  weeks?: number | null
+  durationUnit?: string | null
+  tuitionFee?: number | null
+  discount?: number | null
+  skipWeeks?: number[] | null
+  selectedDates?: string[] | null
+  recordingDates?: string[] | null
+}
+
+type PaymentSummary = {
+  billedAmount: number
+  paidAmount: number
+}
+
+const PAYMENT_METHODS = {
+  transfer: 'transfer',
+  card: 'card',
+  cash: 'cash',
+} as const;
+
+const PAYMENT_METHOD_SET = new Set<string>(Object.values(PAYMENT_METHODS));
+
+const PAYMENT_KINDS = {
+  payment: 'payment',
+  refund: 'refund',
+} as const;
+
+const PAYMENT_MESSAGES = {
+  registrationRequired: '등록을 선택해 주세요.',
+  registrationNotFound: '해당 ID의 등록 정보를 찾을 수 없습니다.',
+  extensionNotFound: '연장 정보를 찾을 수 없습니다.',
+  paymentNotFound: '수납 기록을 찾을 수 없습니다.',
+  forbidden: '해당 등록에 대한 권한이 없습니다.',
+  invalidAmount: '수납 금액은 1원 이상이어야 합니다.',
+  invalidMethod: '수납 방법을 확인해 주세요.',
+  invalidDate: '날짜 형식을 확인해 주세요. (YYYY-MM-DD)',
+  depositLinked: '입금 문자와 연결된 수납은 입금 대사에서 연결 해제해 주세요.',
+  refundLinked: '퇴원 환불 기록은 퇴원 해제 시 함께 삭제됩니다.',
+  refundExceedsPaid: '환불 금액이 수납 금액보다 클 수 없습니다.',
+  refundMismatch: '환불 금액이 학원법 계산과 다릅니다. 다시 계산하거나 직접 정산으로 저장해 주세요.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatPayment(row: any) {
+  return {
+    id: row.id,
+    registrationId: row.registrationId,
+    registrationExtensionId: row.registrationExtensionId,
+    depositId: row.depositId,
+    kind: row.kind || PAYMENT_KINDS.payment,
+    amount: row.amount,
+    method: row.method,
+    paidAt: row.paidAt?.toISOString() || '',
+    memo: row.memo || '',
+    recordedBy: row.recordedBy || '',
+    createdAt: row.createdAt?.toISOString() || '',
+  };
+}
+
+/**
+ * 청구액과 수납액으로 잔액 상태를 계산한다.
+ * 청구액이 없는 등록은 수납 기록이 없으면 'none'.
+ */
+function buildBalance(billedAmount: number, paidAmount: number) {
+  const billed = Math.max(Number(billedAmount) || 0, 0);
+  const paid = Number(paidAmount) || 0;
+  let state = 'paid';
+  if (billed <= 0 && paid === 0) state = 'none';
+  else if (paid < billed) state = 'outstanding';
+  else if (paid > billed) state = 'overpaid';
+
+  return {
+    billedAmount: billed,
+    paidAmount: paid,
+    outstandingAmount: Math.max(billed - paid, 0),
+    overpaidAmount: Math.max(paid - billed, 0),
+    state,
+  };
+}
+
+/**
+ * 입금 문자 연결 상태를 수납 기록에 반영한다.
+ * 기존 입금 연동 수납은 지우고 entries로 다시 만든다 (빈 배열이면 삭제만).
+ */
+async function replaceDepositPayments(
+  tx: import('@prisma/client').Prisma.TransactionClient,
+  {
+    deposit,
+    entries,
+    recordedBy,
+  }: {
+    deposit: { id: string; receivedAt?: Date | null }
+    entries: DepositPaymentEntry[]
+    recordedBy?: string | null
+  }
+) {
+  await tx.payment.deleteMany({ where: { depositId: deposit.id } });
+  if (!entries.length) return;
+  await tx.payment.createMany({
+    data: entries.map((entry) => ({
+      id: uuidv4(),
+      registrationId: entry.registrationId,
+      registrationExtensionId: entry.registrationExtensionId,
+      depositId: deposit.id,
+      amount: entry.amount,
+      method: PAYMENT_METHODS.transfer,
+      paidAt: deposit.receivedAt || new Date(),
+      recordedBy: recordedBy || '',
+    })),
+  });
+}
+
+/**
+ * 퇴원 환불을 등록과 수납 기록에 반영한다.
+ * 기존 환불 기록은 지우고, 환불액이 있으면 음수 금액의 환불 기록을 남긴다.
+ * refund가 null이면(퇴원 해제) 환불 정보를 모두 지운다.
+ */
+async function applyWithdrawalRefund(
+  tx: import('@prisma/client').Prisma.TransactionClient,
+  {
+    registrationId,
+    withdrawnAt,
+    refund,
+    recordedBy,
+  }: {
+    registrationId: string
+    withdrawnAt: Date | null
+    refund: { refundAmount: number; retainedFee: number; reason: string } | null
+    recordedBy?: string | null
+  }
+) {
+  await tx.payment.deleteMany({ where: { registrationId, kind: PAYMENT_KINDS.refund } });
+
+  if (refund && refund.refundAmount > 0) {
+    await tx.payment.create({
+      data: {
+        id: uuidv4(),
+        registrationId,
+        kind: PAYMENT_KINDS.refund,
+        amount: -refund.refundAmount,
+        method: PAYMENT_METHODS.transfer,
+        paidAt: withdrawnAt || new Date(),
+        memo: refund.reason,
+        recordedBy: recordedBy || '',
+      },
+    });
+  }
+
+  const registration = await tx.registration.update({
+    where: { id: registrationId },
+    data: {
+      withdrawnAt,
+      retainedFee: refund ? refund.retainedFee : null,
+      refundAmount: refund ? refund.refundAmount : null,
+      refundReason: refund ? refund.reason : '',
+    },
+  });
+  return registration;
+}
+
+/**
+ * 퇴원일 기준 학원법 환불 계산. 프런트 퇴원 창과 같은 @shared/withdrawalRefund에
+ * 과목 설정의 수업 요일·종료 요일·휴강 기간과 연장 내역을 넣는다.
+ */
+async function computeWithdrawalRefund(
+  registration: WithdrawalRegistration,
+  withdrawnAt: Date,
+  paidAmount: number
+): Promise<RefundBreakdownData | null> {
+  const [courseInfo, extensions] = await Promise.all([
+    loadCourseInfoMap(registration.courseConfigSetName),
+    prisma.registrationExtension.findMany({
+      where: { registrationId: registration.id },
+      select: { startDate: true, weeks: true, tuitionFee: true },
+    }),
+  ]);
+  const info = courseInfo?.[String(registration.courseId || '')];
+  return calculateWithdrawalRefund({
+    registration: {
+      startDate: formatDateOnly(registration.startDate),
+      weeks: registration.weeks,
+      durationUnit: registration.durationUnit || 'weekly',
+      tuitionFee: registration.tuitionFee,
+      discount: registration.discount,
+      skipWeeks: registration.skipWeeks || [],
+      selectedDates: registration.selectedDates || [],
+      recordingDates: registration.recordingDates || [],
+      courseDays: Array.isArray(info?.days) ? info.days : [],
+      courseEndDay: resolveEndDay(info),
+      breakRanges: Array.isArray(info?.breakRanges) ? info.breakRanges : [],
+    },
+    extensions: extensions.map((extension: { startDate: Date | null; weeks: number; tuitionFee: number | null }) => ({
+      startDate: formatDateOnly(extension.startDate),
+      weeks: extension.weeks,
+      tuitionFee: extension.tuitionFee,
+    })),
+    paidAmount,
+    withdrawDate: formatDateOnly(withdrawnAt),
+  });
+}
+
+/**
+ * 퇴원 환불은 서버에서 다시 계산한 환불액·확정 수강료와 같아야 한다.
+ * override로 직접 정산하면 계산과 달라도 되지만, 환불액은 기존 환불을 제외한 수납 합계를 넘을 수 없다.
+ */
+async function getWithdrawalRefundError(
+  registration: WithdrawalRegistration,
+  withdrawnAt: Date,
+  refund: WithdrawalRefundInput
+) {
+  const paid = await prisma.payment.aggregate({
+    where: { registrationId: registration.id, kind: { not: PAYMENT_KINDS.refund } },
+    _sum: { amount: true },
+  });
+  const paidAmount = Number(paid._sum.amount || 0);
+  if (refund.refundAmount > 0 && refund.refundAmount > paidAmount) {
+    return fail(400, PAYMENT_MESSAGES.refundExceedsPaid);
+  }
+  if (refund.override) return null;
+
+  const expected = await computeWithdrawalRefund(registration, withdrawnAt, paidAmount);
+  if (
+    !expected ||
+    expected.refundAmount !== refund.refundAmount ||
+    expected.retainedFee !== refund.retainedFee
+  ) {
+    return fail(400, PAYMENT_MESSAGES.refundMismatch);
+  }
+  return null;
+}
+
+function buildTargetKey(registrationId: string, registrationExtensionId?: string | null) {
+  return `${registrationId}::${registrationExtensionId || ''}`;
+}
+
+/**
+ * 등록/연장별 수납 합계. 키는 `registrationId::extensionId`.
+ */
+async function loadPaidAmountMap(registrationIds: string[]) {
+  const paidMap = new Map<string, number>();
+  if (!registrationIds.length) return paidMap;
+
+  const rows: Array<{
+    registrationId: string
+    registrationExtensionId: string | null
+    _sum: { amount: number | null }
+  }> = await prisma.payment.groupBy({
+    by: ['registrationId', 'registrationExtensionId'],
+    where: { registrationId: { in: registrationIds } },
+    _sum: { amount: true },
+  });
+
+  for (const row of rows) {
+    paidMap.set(
+      buildTargetKey(row.registrationId, row.registrationExtensionId),
+      Number(row._sum.amount || 0)
+    );
+  }
+  return paidMap;
+}
+
+/**
+ * 등록 목록용 청구/수납 합계. 청구액은 등록 수강료(전반 정산이 있으면 정산 차액) + 연장 수강료.
+ */
+async function loadPaymentSummaryMap(
+  rows: Array<BillableRegistration & { id: string }>
+) {
+  const ids = Array.from(new Set(rows.map((row) => String(row.id || '')).filter(Boolean)));
+  const summaryMap = new Map<string, PaymentSummary>();
+  if (!ids.length) return summaryMap;
+
+  const [paidRows, extensionRows, settlementMap]: [
+    Array<{ registrationId: string; _sum: { amount: number | null } }>,
+    Array<{ registrationId: string; _sum: { tuitionFee: number | null } }>,
+    Map<string, { difference: number }>,
+  ] = await Promise.all([
+    prisma.payment.groupBy({
+      by: ['registrationId'],
+      where: { registrationId: { in: ids } },
+      _sum: { amount: true },
+    }),
+    prisma.registrationExtension.groupBy({
+      by: ['registrationId'],
+      where: { registrationId: { in: ids } },
+      _sum: { tuitionFee: true },
+    }),
+    loadTransferSettlementMap(ids),
+  ]);
+
+  const paidMap = new Map(paidRows.map((row) => [row.registrationId, Number(row._sum.amount || 0)]));
+  const extensionFeeMap = new Map(
+    extensionRows.map((row) => [row.registrationId, Number(row._sum.tuitionFee || 0)])
+  );
+
+  for (const row of rows) {
+    const id = String(row.id || '');
+    if (!id) continue;
+    summaryMap.set(id, {
+      billedAmount: getBilledAmount(
+        row,
+        extensionFeeMap.get(id) || 0,
+        settlementMap.get(id)?.difference ?? null
+      ),
+      paidAmount: paidMap.get(id) || 0,
+    });
+  }
+  return summaryMap;
+}
+
+async function loadAccessibleRegistration(authUser: AuthUserLike, registrationId: string) {
+  const registration = await prisma.registration.findUnique({
+    where: { id: registrationId },
+    include: { extensions: true },
+  });
+  if (!registration) {
+    return { error: fail(404, PAYMENT_MESSAGES.registrationNotFound) };
+  }
+  if (!(await isRegistrationAccessAllowed(authUser, [registration]))) {
+    return { error: fail(403, PAYMENT_MESSAGES.forbidden) };
+  }
+  return { registration };
+}
+
+/**
+ * 같은 학생의 등록(전반/재등록 포함)을 합친 학생 단위 잔액.
+ * 학생 프로필에 연결된 등록은 studentId로 묶고, 연결되지 않은 등록만 이름으로 묶는다.
+ */
+async function loadStudentBalance(
+  authUser: AuthUserLike,
+  { name, studentId }: { name: string; studentId?: string | null }
+) {
+  const rows = await prisma.registration.findMany({
+    where: studentId ? { studentId } : { name, studentId: null },
+    select: {
+      id: true,
+      tuitionFee: true,
+      withdrawnAt: true,
+      retainedFee: true,
+      transferFromId: true,
+      courseConfigSetName: true,
+      course: true,
+      courseId: true,
+    },
+  });
+  const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
+  const setNames = rows
+    .map((row: any) => String(row.courseConfigSetName || '').trim())
+    .filter(Boolean);
+  const { accessMap, indexMap } = await loadAccessContext(
+    authUser.id,
+    setNames,
+    bypassCategoryAccess
+  );
+  const allowed = rows.filter((row: any) =>
+    isRegistrationAllowed(row, accessMap, indexMap, bypassCategoryAccess)
+  );
+  const summaryMap = await loadPaymentSummaryMap(allowed);
+  let billed = 0;
+  let paid = 0;
+  for (const summary of summaryMap.values()) {
+    billed += summary.billedAmount;
+    paid += summary.paidAmount;
+  }
+  return {
+    name,
+    registrationCount: allowed.length,
+    ...buildBalance(billed, paid),
+  };
+}
+
+/**
+ * 등록 1건의 수납 기록과 잔액(전체 + 등록/연장별).
+ */
+async function listRegistrationPaymentsResult({
+  authUser,
+  registrationId,
+}: {
+  authUser: AuthUserLike
+  registrationId: unknown
+}) {
+  const id = normalizeStringId(registrationId);
+  if (!id) {
+    return fail(400, PAYMENT_MESSAGES.registrationRequired);
+  }
+
+  const loaded = await loadAccessibleRegistration(authUser, id);
+  if (loaded.error) return loaded.error;
+  const registration = loaded.registration;
+
+  const payments = await prisma.payment.findMany({
+    where: { registrationId: id },
+    orderBy: [{ paidAt: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const paidMap = new Map<string, number>();
+  for (const payment of payments) {
+    const key = buildTargetKey(payment.registrationId, payment.registrationExtensionId);
+    paidMap.set(key, (paidMap.get(key) || 0) + payment.amount);
+  }
+
+  const extensions = (registration.extensions || [])
+    .slice()
+    .sort((a: any, b: any) => String(a.startDate || '').localeCompare(String(b.startDate || '')));
+  const paid = payments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
+  const extensionFee = extensions.reduce(
+    (sum: number, extension: any) => sum + Number(extension.tuitionFee || 0),
+    0
+  );
+  const settlement = (await loadTransferSettlementMap([id])).get(id) || null;
+  const billed = getBilledAmount(registration, extensionFee, settlement ? settlement.difference : null);
+  const isSettled = Boolean(registration.withdrawnAt) && registration.retainedFee !== null;
+  // 퇴원 정산 후에는 등록/연장별 구분 없이 확정 수강료 하나로 본다
+  const items = isSettled
+    ? [{ registrationExtensionId: null, ...buildBalance(billed, paid) }]
+    : [
+        {
+          registrationExtensionId: null,
+          ...buildBalance(
+            getRegistrationBaseBill(registration, settlement ? settlement.difference : null),
+            paidMap.get(buildTargetKey(id, null)) || 0
+          ),
+        },
+        ...extensions.map((extension: any) => ({
+          registrationExtensionId: extension.id,
+          ...buildBalance(
+            Number(extension.tuitionFee || 0),
+            paidMap.get(buildTargetKey(id, extension.id)) || 0
+          ),
+        })),
+      ];
+  const student = await loadStudentBalance(authUser, {
+    name: registration.name,
+    studentId: registration.studentId,
+  });
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      results: payments.map(formatPayment),
+      balance: buildBalance(billed, paid),
+      items,
+      transferSettlement: settlement,
+      studentBalance: student,
+    },
+  };
+}
+
+/**
+ * 카드/현금 등 입금 문자 없이 받은 수납을 직접 기록한다.
+ */
+async function createPaymentResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+}) {
+  const registrationId = normalizeStringId(body.registrationId);
+  const registrationExtensionId = normalizeStringId(body.registrationExtensionId) || null;
+  if (!registrationId) {
+    return fail(400, PAYMENT_MESSAGES.registrationRequired);
+  }
+
+  const amount = Number(body.amount);
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return fail(400, PAYMENT_MESSAGES.invalidAmount);
+  }
+
+  const method = String(body.method || '').trim();
+  if (!PAYMENT_METHOD_SET.has(method)) {
+    return fail(400, PAYMENT_MESSAGES.invalidMethod);
+  }
+
+  let paidAt = new Date();
+  if (body.paidAt) {
+    const parsed = parseStrictDateOnly(body.paidAt);
+    if (!parsed) {
+      return fail(400, PAYMENT_MESSAGES.invalidDate);
+    }
+    paidAt = parsed;
+  }
+
+  const loaded = await loadAccessibleRegistration(authUser, registrationId);
+  if (loaded.error) return loaded.error;
+  if (
+    registrationExtensionId &&
+    !(loaded.registration.extensions || []).some((ext: any) => ext.id === registrationExtensionId)
+  ) {
+    return fail(404, PAYMENT_MESSAGES.extensionNotFound);
+  }
+
+  const created = await prisma.payment.create({
+    data: {
+      id: uuidv4(),
+      registrationId,
+      registrationExtensionId,
+      amount,
+      method,
+      paidAt,
+      memo: String(body.memo || '').trim(),
+      recordedBy: authUser.username || '',
+    },
+  });
+
+  return {
+    statusCode: 201,
+    body: { status: 'success', payment: formatPayment(created) },
+  };
+}
+
+async function deletePaymentResult({ authUser, id }: { authUser: AuthUserLike; id: string }) {
+  const payment = await prisma.payment.findUnique({ where: { id } });
+  if (!payment) {
+    return fail(404, PAYMENT_MESSAGES.paymentNotFound);
+  }
+  if (payment.depositId) {
+    return fail(409, PAYMENT_MESSAGES.depositLinked);
+  }
+  if (payment.kind === PAYMENT_KINDS.refund) {
+    return fail(409, PAYMENT_MESSAGES.refundLinked);
+  }
+
+  const loaded = await loadAccessibleRegistration(authUser, payment.registrationId);
+  if (loaded.error) return loaded.error;
+
+  await prisma.payment.delete({ where: { id } });
+  return {
+    statusCode: 200,
+    body: { status: 'success', id },
+  };
+}
+
+module.exports = {
+  PAYMENT_KINDS,
+  PAYMENT_MESSAGES,
+  PAYMENT_METHODS,
+  applyWithdrawalRefund,
+  buildBalance,
+  buildTargetKey,
+  createPaymentResult,
+  deletePaymentResult,
+  getWithdrawalRefundError,
+  listRegistrationPaymentsResult,
+  loadPaidAmountMap,
+  loadPaymentSummaryMap,
+  replaceDepositPayments,
+};
@@ -0,0 +1,484 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const {
+  normalizeCourseConfigSetName,
+  normalizeCourseId,
+  normalizeStringId,
+} = require('../utils/dateUtils');
+const {
+  parseDiscount,
+  parseExcludeMath,
+  parseStrictDateOnly,
+  parseTuitionFee,
+  parseWeeks,
+  normalizeRecordingDates,
+} = require('../utils/parsers');
+const { calculateCourseFee, FEE_ERRORS } = require('../shared/feeEngine');
+const { loadCourseInfoMap } = require('./courseInfoService');
+const {
+  buildExistingStudentMap,
+  buildStudentCreateRows,
+  findStudentDuplicates,
+} = require('./studentRouteService');
+const { sanitizeAppliedDiscountRuleIds } = require('./discountRuleService');
+
+type CourseInfoMap = Record<string, Record<string, unknown> | undefined>
+
+type FeeRecordInput = Record<string, unknown> & {
+  name?: unknown
+  course?: unknown
+  courseId?: unknown
+  courseConfigSetName?: unknown
+  weeks?: unknown
+  durationUnit?: unknown
+  selectedDates?: unknown
+  recordingDates?: unknown
+  excludeMath?: unknown
+  discount?: unknown
+  satCampus?: unknown
+  courseType?: unknown
+  level?: unknown
+  tuitionFee?: unknown
+}
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type QuoteItem = {
+  record: FeeRecordInput
+  inputs: Record<string, unknown>
+  displayCourseName: string
+  durationStr: string
+  finalFee: number
+  normalFee: number
+  recordingFee: number
+}
+
+type FeeMismatch = {
+  index: number
+  name: string
+  course: string
+  tuitionFee: number
+  expectedFee: number
+}
+
+const QUOTE_MESSAGES = {
+  courseRequired: '과목을 선택해 주세요.',
+  courseNotFound: '과목 설정을 찾을 수 없습니다.',
+  periodRequired: '수강 기간을 입력해 주세요.',
+  allRecording: '최소 1일은 실시간 수업으로 진행되어야 합니다.',
+  feeMismatch: '수강료가 서버 계산과 다릅니다.',
+  studentNameRequired: '학생 이름을 입력해 주세요.',
+  itemsRequired: '견적에 담을 과목이 없습니다.',
+  tooManyItems: '견적 하나에는 과목을 20개까지 담을 수 있습니다.',
+  invalidItem: '견적 과목 정보를 확인해 주세요.',
+  invalidExpiry: '유효기간 형식을 확인해 주세요. (YYYY-MM-DD)',
+  quoteNotFound: '견적을 찾을 수 없습니다.',
+  alreadyConverted: '이미 등록으로 전환된 견적입니다.',
+  expired: '유효기간이 지난 견적입니다. 복제해서 다시 저장해 주세요.',
+  duplicateRegistration: '이미 등록된 과목이 포함되어 있어 전환할 수 없습니다.',
+} as const;
+
+const QUOTE_STATUS = {
+  open: 'open',
+  converted: 'converted',
+} as const;
+
+const QUOTE_VALID_DAYS = 14;
+const MAX_QUOTE_ITEMS = 20;
+const MAX_QUOTE_LIST = 100;
+const MAX_QUOTE_MEMO_LENGTH = 500;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function getSelectedDates(value: unknown) {
+  return Array.isArray(value) ? value.filter((d: unknown) => typeof d === 'string' && d) : [];
+}
+
+/**
+ * 등록/견적 입력을 수강료 엔진 입력으로 바꾼다. 일 단위 과정은 선택한 날짜 수가 기간이다.
+ */
+function buildFeeInput(record: FeeRecordInput) {
+  const selectedDates = getSelectedDates(record.selectedDates);
+  const isDaily = record.durationUnit === 'daily';
+  const period = parseWeeks(record.weeks) ?? (isDaily ? selectedDates.length : 0);
+  const satCampus = String(record.satCampus ?? '').trim();
+  const courseType = String(record.courseType ?? '').trim();
+  const level = String(record.level ?? '').trim();
+
+  return {
+    courseKey: normalizeCourseId(record.courseId) || '',
+    period,
+    discount: parseDiscount(record.discount),
+    excludeMath: parseExcludeMath(record.excludeMath),
+    satCampus: satCampus || null,
+    courseType: courseType || null,
+    level: level || null,
+    recordingDays: normalizeRecordingDates(record.recordingDates).length,
+  };
+}
+
+async function calculateQuoteResult(body: FeeRecordInput) {
+  const input = buildFeeInput(body || {});
+  if (!input.courseKey) {
+    return fail(400, QUOTE_MESSAGES.courseRequired);
+  }
+  if (input.period <= 0) {
+    return fail(400, QUOTE_MESSAGES.periodRequired);
+  }
+
+  const courseInfo = await loadCourseInfoMap(body.courseConfigSetName);
+  const quote = courseInfo ? calculateCourseFee(courseInfo, input) : null;
+  if (!quote) {
+    return fail(404, QUOTE_MESSAGES.courseNotFound);
+  }
+  if (quote.error === FEE_ERRORS.allRecording) {
+    return fail(400, QUOTE_MESSAGES.allRecording);
+  }
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      quote: {
+        courseKey: input.courseKey,
+        period: input.period,
+        discount: input.discount,
+        ...quote,
+      },
+    },
+  };
+}
+
+/**
+ * 저장하려는 수강료를 서버에서 다시 계산한 값과 비교한다.
+ * 과목 키가 없거나 설정에서 찾을 수 없는 레거시 기록은 검증하지 않는다.
+ */
+async function findFeeMismatches(records: FeeRecordInput[]): Promise<FeeMismatch[]> {
+  const courseInfoCache = new Map<string, Promise<CourseInfoMap | null>>();
+  const mismatches: FeeMismatch[] = [];
+
+  for (const [index, record] of records.entries()) {
+    const tuitionFee = parseTuitionFee(record?.tuitionFee);
+    if (tuitionFee === null) continue;
+
+    const input = buildFeeInput(record);
+    if (!input.courseKey || input.period <= 0) continue;
+
+    const setName = normalizeCourseConfigSetName(record.courseConfigSetName) || '';
+    if (!courseInfoCache.has(setName)) {
+      courseInfoCache.set(setName, loadCourseInfoMap(setName));
+    }
+    const courseInfo = await courseInfoCache.get(setName);
+    const quote = courseInfo ? calculateCourseFee(courseInfo, input) : null;
+    if (!quote || quote.error) continue;
+
+    if (quote.totalFee !== tuitionFee) {
+      mismatches.push({
+        index,
+        name: String(record.name ?? ''),
+        course: String(record.course ?? ''),
+        tuitionFee,
+        expectedFee: quote.totalFee,
+      });
+    }
+  }
+
+  return mismatches;
+}
+
+function formatFeeMismatchMessage(mismatches: FeeMismatch[]) {
+  const details = mismatches.map(
+    (item) =>
+      `${item.course || item.name}: ${item.tuitionFee.toLocaleString('ko-KR')}원 → ${item.expectedFee.toLocaleString('ko-KR')}원`
+  );
+  return [QUOTE_MESSAGES.feeMismatch, ...details].join('\n');
+}
+
+function buildFeeMismatchFailure(mismatches: FeeMismatch[]) {
+  return {
+    statusCode: 409,
+    body: {
+      status: '실패',
+      message: formatFeeMismatchMessage(mismatches),
+      feeMismatches: mismatches,
+    },
+  };
+}
+
+function getDefaultExpiry(now: Date) {
+  const expiresAt = new Date(now.getTime());
+  expiresAt.setDate(expiresAt.getDate() + QUOTE_VALID_DAYS);
+  return expiresAt;
+}
+
+function isQuoteExpired(row: any, now = new Date()) {
+  return row.status === QUOTE_STATUS.open && row.expiresAt instanceof Date && row.expiresAt < now;
+}
+
+function formatQuote(row: any) {
+  return {
+    id: row.id,
+    studentName: row.studentName,
+    courseConfigSetName: row.courseConfigSetName || '',
+    items: Array.isArray(row.items) ? row.items : [],
+    totalFee: row.totalFee,
+    status: row.status,
+    expired: isQuoteExpired(row),
+    memo: row.memo || '',
+    expiresAt: row.expiresAt?.toISOString() || '',
+    createdBy: row.createdBy || '',
+    convertedAt: row.convertedAt?.toISOString() || '',
+    convertedBy: row.convertedBy || '',
+    registrationIds: Array.isArray(row.registrationIds) ? row.registrationIds : [],
+    createdAt: row.createdAt?.toISOString() || '',
+    updatedAt: row.updatedAt?.toISOString() || '',
+  };
+}
+
+function toFee(value: unknown) {
+  const fee = parseTuitionFee(value);
+  return fee === null ? 0 : fee;
+}
+
+/**
+ * 계산기 장바구니 항목을 견적 스냅샷으로 정리한다. 등록 전환에 필요한 record가 없으면 null.
+ */
+function normalizeQuoteItem(raw: unknown): QuoteItem | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+  const record = item.record as FeeRecordInput | undefined;
+  if (!record || typeof record !== 'object') return null;
+  const course = String(record.course ?? '').trim();
+  if (!course) return null;
+
+  return {
+    record: { ...record, course, tuitionFee: parseTuitionFee(record.tuitionFee) },
+    inputs: item.inputs && typeof item.inputs === 'object' ? (item.inputs as Record<string, unknown>) : {},
+    displayCourseName: String(item.displayCourseName ?? course),
+    durationStr: String(item.durationStr ?? ''),
+    finalFee: toFee(item.finalFee ?? record.tuitionFee),
+    normalFee: toFee(item.normalFee),
+    recordingFee: toFee(item.recordingFee),
+  };
+}
+
+async function listQuotesResult(query: Record<string, unknown>) {
+  const searchTerm = String(query?.searchTerm ?? '').trim();
+  const status = String(query?.status ?? '').trim();
+  const rows = await prisma.quote.findMany({
+    where: {
+      ...(searchTerm ? { studentName: { contains: searchTerm, mode: 'insensitive' } } : {}),
+      ...(status === QUOTE_STATUS.open || status === QUOTE_STATUS.converted ? { status } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_QUOTE_LIST,
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatQuote) } };
+}
+
+async function getQuoteResult(id: unknown) {
+  const quoteId = normalizeStringId(id);
+  const row = quoteId ? await prisma.quote.findUnique({ where: { id: quoteId } }) : null;
+  if (!row) return fail(404, QUOTE_MESSAGES.quoteNotFound);
+  return { statusCode: 200, body: { status: 'success', quote: formatQuote(row) } };
+}
+
+async function createQuoteResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+}) {
+  const studentName = String(body?.studentName ?? '').trim();
+  if (!studentName) return fail(400, QUOTE_MESSAGES.studentNameRequired);
+
+  const rawItems = Array.isArray(body?.items) ? body.items : [];
+  if (!rawItems.length) return fail(400, QUOTE_MESSAGES.itemsRequired);
+  if (rawItems.length > MAX_QUOTE_ITEMS) return fail(400, QUOTE_MESSAGES.tooManyItems);
+
+  const items = rawItems.map(normalizeQuoteItem);
+  if (items.some((item: QuoteItem | null) => !item)) return fail(400, QUOTE_MESSAGES.invalidItem);
+
+  const now = new Date();
+  let expiresAt = getDefaultExpiry(now);
+  if (body.expiresAt) {
+    const parsed = parseStrictDateOnly(body.expiresAt);
+    if (!parsed) return fail(400, QUOTE_MESSAGES.invalidExpiry);
+    // 유효기간은 해당 날짜 끝까지
+    expiresAt = new Date(parsed.getTime() + 24 * 60 * 60 * 1000 - 1);
+  }
+
+  const courseConfigSetName = normalizeCourseConfigSetName(body.courseConfigSetName);
+  const records = (items as QuoteItem[]).map((item) => ({
+    ...item.record,
+    name: studentName,
+    courseConfigSetName,
+  }));
+  const mismatches = await findFeeMismatches(records);
+  if (mismatches.length && body.allowFeeMismatch !== true) {
+    return buildFeeMismatchFailure(mismatches);
+  }
+
+  const row = await prisma.quote.create({
+    data: {
+      id: uuidv4(),
+      studentName,
+      courseConfigSetName,
+      items: (items as QuoteItem[]).map((item, index) => ({ ...item, record: records[index] })),
+      totalFee: (items as QuoteItem[]).reduce((sum, item) => sum + toFee(item.record.tuitionFee), 0),
+      memo: String(body.memo ?? '').trim().slice(0, MAX_QUOTE_MEMO_LENGTH),
+      expiresAt,
+      createdBy: authUser.username || '',
+    },
+  });
+  return { statusCode: 201, body: { status: 'success', quote: formatQuote(row) } };
+}
+
+/** 견적 복제: 같은 과목/금액으로 새 유효기간의 견적을 만든다. */
+async function duplicateQuoteResult({ authUser, id }: { authUser: AuthUserLike; id: unknown }) {
+  const quoteId = normalizeStringId(id);
+  const source = quoteId ? await prisma.quote.findUnique({ where: { id: quoteId } }) : null;
+  if (!source) return fail(404, QUOTE_MESSAGES.quoteNotFound);
+
+  const now = new Date();
+  const row = await prisma.quote.create({
+    data: {
+      id: uuidv4(),
+      studentName: source.studentName,
+      courseConfigSetName: source.courseConfigSetName,
+      items: source.items,
+      totalFee: source.totalFee,
+      memo: source.memo,
+      expiresAt: getDefaultExpiry(now),
+      createdBy: authUser.username || '',
+    },
+  });
+  return { statusCode: 201, body: { status: 'success', quote: formatQuote(row) } };
+}
+
+async function deleteQuoteResult(id: unknown) {
+  const quoteId = normalizeStringId(id);
+  const row = quoteId ? await prisma.quote.findUnique({ where: { id: quoteId } }) : null;
+  if (!row) return fail(404, QUOTE_MESSAGES.quoteNotFound);
+  if (row.status === QUOTE_STATUS.converted) return fail(409, QUOTE_MESSAGES.alreadyConverted);
+
+  await prisma.quote.delete({ where: { id: row.id } });
+  return { statusCode: 200, body: { status: 'success', id: row.id } };
+}
+
+/**
+ * 견적을 등록으로 전환한다. 수강료는 견적 금액 그대로 저장하고,
+ * 현재 설정으로 다시 계산한 금액과 다르면 expectedTuitionFee에 남긴다.
+ */
+async function convertQuoteResult({
+  authUser,
+  id,
+  allowOverCapacity = false,
+}: {
+  authUser: AuthUserLike
+  id: unknown
+  allowOverCapacity?: boolean
+}) {
+  const quoteId = normalizeStringId(id);
+  const quote = quoteId ? await prisma.quote.findUnique({ where: { id: quoteId } }) : null;
+  if (!quote) return fail(404, QUOTE_MESSAGES.quoteNotFound);
+  if (quote.status === QUOTE_STATUS.converted) return fail(409, QUOTE_MESSAGES.alreadyConverted);
+  if (isQuoteExpired(quote)) return fail(409, QUOTE_MESSAGES.expired);
+
+  const items = (Array.isArray(quote.items) ? quote.items : [])
+    .map(normalizeQuoteItem)
+    .filter(Boolean) as QuoteItem[];
+  if (!items.length) return fail(400, QUOTE_MESSAGES.itemsRequired);
+
+  const records = items.map((item) => ({
+    ...item.record,
+    name: quote.studentName,
+    courseConfigSetName: quote.courseConfigSetName,
+  }));
+
+  const existingRows = await prisma.registration.findMany({
+    where: {
+      OR: records.map((record) => {
+        const courseId = normalizeCourseId(record.courseId);
+        const base = { name: quote.studentName, courseConfigSetName: quote.courseConfigSetName };
+        return courseId ? { ...base, courseId } : { ...base, course: record.course };
+      }),
+    },
+    select: { id: true, name: true, course: true, courseId: true, courseConfigSetName: true, studentId: true },
+  });
+  const duplicates = findStudentDuplicates(records, buildExistingStudentMap(existingRows));
+  if (duplicates.length) {
+    return {
+      statusCode: 409,
+      body: { status: 'fail', message: QUOTE_MESSAGES.duplicateRegistration, duplicates },
+    };
+  }
+
+  const mismatches = await findFeeMismatches(records);
+  const expectedFeeByIndex = new Map<number, number>(
+    mismatches.map((item) => [item.index, item.expectedFee])
+  );
+  const now = new Date();
+  const { createdIds, rowsToCreate } = buildStudentCreateRows(
+    await sanitizeAppliedDiscountRuleIds(records),
+    now,
+    expectedFeeByIndex
+  );
+
+  // capacityService가 이 모듈을 불러오므로 여기서 늦게 불러온다
+  const { buildCapacityFailure, findCapacityOverflows } = require('./capacityService');
+
+  // 동시에 전환해도 한 요청만 열린 견적을 가져가고, 나머지는 등록을 만들기 전에 멈춘다
+  // 정원은 자리를 잠그고 같은 트랜잭션에서 센다
+  const result = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    if (!allowOverCapacity) {
+      const overflows = await findCapacityOverflows(records, tx);
+      if (overflows.length) return { error: buildCapacityFailure(overflows), row: null };
+    }
+    const claimed = await tx.quote.updateMany({
+      where: { id: quote.id, status: QUOTE_STATUS.open },
+      data: {
+        status: QUOTE_STATUS.converted,
+        convertedAt: now,
+        convertedBy: authUser.username || '',
+        registrationIds: createdIds,
+      },
+    });
+    if (claimed.count === 0) return { error: fail(409, QUOTE_MESSAGES.alreadyConverted), row: null };
+    await tx.registration.createMany({ data: rowsToCreate });
+    return { error: null, row: await tx.quote.findUnique({ where: { id: quote.id } }) };
+  });
+  if (result.error) return result.error;
+  const row = result.row;
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', quote: formatQuote(row), ids: createdIds },
+  };
+}
+
+module.exports = {
+  QUOTE_MESSAGES,
+  QUOTE_STATUS,
+  buildFeeInput,
+  buildFeeMismatchFailure,
+  calculateQuoteResult,
+  convertQuoteResult,
+  createQuoteResult,
+  deleteQuoteResult,
+  duplicateQuoteResult,
+  findFeeMismatches,
+  getQuoteResult,
+  listQuotesResult,
+  loadCourseInfoMap,
+  normalizeQuoteItem,
+};
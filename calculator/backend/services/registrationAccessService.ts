@@ -141,18 +141,22 @@ function isCourseInSet(
   return false;
 }
 
-async function loadAccessibleRegistrations(authUser: AuthUserLike) {
-  const rows: RegistrationListRow[] = await prisma.registration.findMany({
-    orderBy: [
-      { name: 'asc' },
-      { timestamp: { sort: 'asc', nulls: 'last' } },
-      { createdAt: 'asc' },
-    ],
-  });
-
+// 등록 목록 순서. 이름 순이고, 같은 순서 안에서는 id로 고정해 페이지를 나눌 수 있게 한다
+const REGISTRATION_LIST_ORDER_BY = [
+  { name: 'asc' },
+  { timestamp: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+  { id: 'asc' },
+];
+
+/** 이미 읽은 등록 중 권한이 있는 것만 (순서 유지) */
+async function filterAccessibleRegistrations<Row extends RegistrationListRow>(
+  authUser: AuthUserLike,
+  rows: Row[]
+) {
   const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
   const setNames = rows
-    .map((row: RegistrationListRow) => String(row.courseConfigSetName || '').trim())
+    .map((row: Row) => String(row.courseConfigSetName || '').trim())
     .filter(Boolean);
   const { accessMap, indexMap } = await loadAccessContext(
     authUser.id,
@@ -160,11 +164,25 @@ async function loadAccessibleRegistrations(authUser: AuthUserLike) {
     bypassCategoryAccess
   );
 
-  return rows.filter((row: RegistrationListRow) =>
+  return rows.filter((row: Row) =>
     isRegistrationAllowed(row, accessMap, indexMap, bypassCategoryAccess)
   );
 }
 
+/**
+ * 권한이 있는 등록 목록. where로 DB에서 먼저 거른다 (등록 목록 조회 조건).
+ */
+async function loadAccessibleRegistrations(
+  authUser: AuthUserLike,
+  where: Record<string, unknown> = {}
+) {
+  const rows: RegistrationListRow[] = await prisma.registration.findMany({
+    where,
+    orderBy: REGISTRATION_LIST_ORDER_BY,
+  });
+  return filterAccessibleRegistrations(authUser, rows);
+}
+
 async function isRegistrationAccessAllowed(
   authUser: AuthUserLike,
   registrations: Array<RegistrationMutationRow | null | undefined>
@@ -192,6 +210,8 @@ module.exports = {
   isCourseNameAllowed,
   isCourseAllowed,
   isCourseInSet,
+  REGISTRATION_LIST_ORDER_BY,
+  filterAccessibleRegistrations,
   loadAccessibleRegistrations,
   isRegistrationAccessAllowed,
 };
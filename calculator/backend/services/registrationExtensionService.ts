@@ -0,0 +1,688 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly } = require('../utils/dateUtils');
+const {
+  computeEndDate,
+  parseStrictDateOnly,
+  parseTuitionFee,
+  parseWeeks,
+} = require('../utils/parsers');
+const {
+  findOverlappingExtension,
+  getExtensionCoverage,
+  getExtensionRangeError,
+  getRegistrationWeekIndex,
+  EXTENSION_MESSAGES,
+  normalizeExtensionPeriods,
+} = require('../shared/registrationExtensions');
+const {
+  isCategoryAccessBypassed,
+  loadAccessContext,
+  isRegistrationAllowed,
+} = require('./categoryAccessService');
+const { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, recordAuditLogs } = require('./auditLogService');
+
+type ExtensionPeriodInput = import('../shared/registrationExtensions').ExtensionPeriodInput
+type ExtensionDateRange = import('../shared/registrationExtensions').ExtensionDateRange
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type AuditContext = {
+  actor: string
+  actorRole: string
+  requestId: string
+}
+
+type ExtensionRow = {
+  id: string
+  registrationId: string
+  startDate: Date | null
+  weeks: number
+  tuitionFee?: number | null
+  createdAt: Date
+}
+
+type ExtensionWriteResult = {
+  extension: ExtensionRow | null
+  /** 연장을 지우며 등록 본체로 옮긴 수납 기록 */
+  movedPaymentIds?: string[]
+}
+
+type ExtensionRegistration = {
+  id: string
+  courseId?: string | null
+  course?: string | null
+  courseConfigSetName?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+  weeks?: number | null
+  skipWeeks?: number[] | null
+  recordingDates?: string[] | null
+} & Record<string, unknown>
+
+type ExtensionInput = {
+  startDate: string
+  weeks: number
+  tuitionFee: number | null
+  endDate: string | null
+  /** 없으면 기존 휴강 주차·녹화 날짜를 그대로 둔다 */
+  skipWeeks: number[] | null
+  recordingDates: string[] | null
+}
+
+type CreateExtensionInput = {
+  registrationId: string
+  weeks: number | null
+  startDate: Date | null
+  endDate: Date | null
+  tuitionFee: number | null
+  skipWeeks: number[]
+  recordingDates: string[]
+}
+
+type CreateExtensionPlan = {
+  input: CreateExtensionInput & { weeks: number }
+  registration: ExtensionRegistration
+  nextWeeks: number
+  endDate: Date | null
+  mergedSkipWeeks?: number[]
+  mergedRecordingDates?: string[]
+}
+
+type TransactionClient = import('@prisma/client').Prisma.TransactionClient
+
+const MAX_BULK_ITEMS = 200;
+
+const EXTENSION_ROUTE_MESSAGES = {
+  required: 'registrationId and weeks are required',
+  registrationNotFound: 'Registration not found',
+  extensionNotFound: '해당 연장 기록을 찾을 수 없습니다.',
+  invalidStartDate: '연장 시작일을 확인해 주세요.',
+  invalidWeeks: '연장 주수를 확인해 주세요.',
+  invalidEndDate: '연장 종료일을 확인해 주세요.',
+  duplicateRegistration: '같은 등록이 여러 번 들어 있습니다.',
+  emptyBulk: '연장할 등록을 선택해 주세요.',
+  tooManyBulk: `한 번에 ${MAX_BULK_ITEMS}건까지 연장할 수 있습니다.`,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatExtension(row: ExtensionRow) {
+  return {
+    id: row.id,
+    registrationId: row.registrationId,
+    startDate: formatDateOnly(row.startDate),
+    weeks: row.weeks ?? null,
+    tuitionFee: row.tuitionFee ?? null,
+    createdAt: row.createdAt ? row.createdAt.toISOString() : '',
+  };
+}
+
+/** POST 본문을 새 연장 입력으로 바꾼다. 휴강 주차·녹화 날짜는 프런트에서 등록 전체 기준으로 바꿔 보낸다. */
+function parseCreateInput(body: Record<string, unknown> | null | undefined): CreateExtensionInput {
+  return {
+    registrationId: String(body?.registrationId || '').trim(),
+    weeks: parseWeeks(body?.weeks ?? body?.extendWeeks),
+    startDate: parseStrictDateOnly(body?.startDate),
+    endDate: parseStrictDateOnly(body?.endDate),
+    tuitionFee: parseTuitionFee(body?.tuitionFee),
+    skipWeeks: Array.isArray(body?.skipWeeks)
+      ? (body.skipWeeks as unknown[]).map(Number).filter((n: number) => Number.isInteger(n) && n > 0)
+      : [],
+    recordingDates: Array.isArray(body?.recordingDates)
+      ? (body.recordingDates as unknown[]).filter((d): d is string => typeof d === 'string' && d.trim().length > 0)
+      : [],
+  };
+}
+
+/**
+ * 새 연장을 만들 수 있는 등록인지 본다.
+ * 등록 권한은 POST /api/registration-extensions와 같은 카테고리 권한으로 본다.
+ */
+async function checkExtensionCreateAccess(authUser: AuthUserLike, input: CreateExtensionInput) {
+  if (!input.registrationId || !input.weeks) return { error: fail(400, EXTENSION_ROUTE_MESSAGES.required) };
+
+  const registration: ExtensionRegistration | null = await prisma.registration.findUnique({
+    where: { id: input.registrationId },
+  });
+  if (!registration) return { error: fail(404, EXTENSION_ROUTE_MESSAGES.registrationNotFound) };
+
+  const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
+  const { accessMap, indexMap } = await loadAccessContext(
+    authUser.id,
+    [String(registration.courseConfigSetName || '').trim()],
+    bypassCategoryAccess
+  );
+  if (!isRegistrationAllowed(registration, accessMap, indexMap, bypassCategoryAccess)) {
+    return { error: fail(403, 'Permission denied.') };
+  }
+  return {};
+}
+
+/**
+ * 새 연장을 저장하기 전 검사와 계산.
+ * 저장할 트랜잭션 안에서 등록과 연장 목록을 다시 읽어, 감사 로그의 이전 값과 새 주수·종료일이 최신 등록 기준이 되게 한다.
+ */
+async function prepareExtensionCreate(tx: TransactionClient, input: CreateExtensionInput) {
+  const weeks = input.weeks as number;
+  const registration: ExtensionRegistration | null = await tx.registration.findUnique({
+    where: { id: input.registrationId },
+  });
+  if (!registration) return { error: fail(404, EXTENSION_ROUTE_MESSAGES.registrationNotFound) };
+
+  if (input.startDate) {
+    const rows: ExtensionRow[] = await tx.registrationExtension.findMany({
+      where: { registrationId: input.registrationId },
+    });
+    const periods = normalizeExtensionPeriods(rows.map(formatExtension));
+    if (findOverlappingExtension(periods, { startDate: formatDateOnly(input.startDate), weeks })) {
+      return { error: fail(400, EXTENSION_MESSAGES.overlap) };
+    }
+  }
+
+  const nextWeeks = Number(registration.weeks || 0) + weeks;
+  const endDate = input.endDate
+    ? input.endDate
+    : parseStrictDateOnly(computeEndDate(registration.startDate, nextWeeks, registration.skipWeeks || []));
+
+  // 연장 휴강 주차·녹화 날짜 병합
+  const existingSkipWeeks = Array.isArray(registration.skipWeeks) ? registration.skipWeeks : [];
+  const mergedSkipWeeks = input.skipWeeks.length > 0
+    ? Array.from(new Set([...existingSkipWeeks, ...input.skipWeeks])).sort((a, b) => a - b)
+    : undefined;
+  const existingRecordingDates = Array.isArray(registration.recordingDates) ? registration.recordingDates : [];
+  const mergedRecordingDates = input.recordingDates.length > 0
+    ? Array.from(new Set([...existingRecordingDates, ...input.recordingDates])).sort()
+    : undefined;
+
+  const plan: CreateExtensionPlan = {
+    input: { ...input, weeks },
+    registration,
+    nextWeeks,
+    endDate,
+    mergedSkipWeeks,
+    mergedRecordingDates,
+  };
+  return { plan };
+}
+
+async function writeExtensionCreate(tx: TransactionClient, plan: CreateExtensionPlan, auditContext: AuditContext) {
+  const { input, registration } = plan;
+  const extension: ExtensionRow = await tx.registrationExtension.create({
+    data: {
+      id: uuidv4(),
+      registrationId: input.registrationId,
+      startDate: input.startDate,
+      weeks: input.weeks,
+      tuitionFee: input.tuitionFee,
+    },
+  });
+
+  const updated = await tx.registration.update({
+    where: { id: input.registrationId },
+    data: {
+      weeks: plan.nextWeeks || null,
+      endDate: plan.endDate || registration.endDate,
+      ...(plan.mergedSkipWeeks ? { skipWeeks: plan.mergedSkipWeeks } : {}),
+      ...(plan.mergedRecordingDates ? { recordingDates: plan.mergedRecordingDates } : {}),
+    },
+  });
+
+  await recordAuditLogs(
+    auditContext,
+    [{
+      action: AUDIT_ACTIONS.registrationExtension,
+      entityType: AUDIT_ENTITY_TYPES.registration,
+      entityId: input.registrationId,
+      registrationId: input.registrationId,
+      before: registration,
+      after: { ...updated, extension },
+    }],
+    tx
+  );
+
+  return {
+    extension: formatExtension(extension),
+    registration: {
+      id: updated.id,
+      weeks: updated.weeks ?? null,
+      endDate: formatDateOnly(updated.endDate),
+    },
+  };
+}
+
+/**
+ * POST /api/registration-extensions
+ */
+async function createRegistrationExtensionResult({
+  authUser,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const input = parseCreateInput(body);
+  const access = await checkExtensionCreateAccess(authUser, input);
+  if (access.error) return access.error;
+
+  const result = await prisma.$transaction(async (tx: TransactionClient) => {
+    const prepared = await prepareExtensionCreate(tx, input);
+    if (prepared.error) return prepared;
+    return { saved: await writeExtensionCreate(tx, prepared.plan as CreateExtensionPlan, auditContext) };
+  });
+  if (result.error) return result.error;
+  return { statusCode: 200, body: { status: 'success', ...result.saved } };
+}
+
+/**
+ * POST /api/registration-extensions/bulk — 분납 대상 여러 명을 한 번에 연장
+ * 행마다 검사해 실패한 행은 사유와 함께 돌려주고, 통과한 행은 한 트랜잭션으로 만든다.
+ * 한 번에 MAX_BULK_ITEMS건을 넘으면 일부만 처리하지 않고 요청 전체를 거절한다.
+ */
+async function createRegistrationExtensionsBulkResult({
+  authUser,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const items = Array.isArray(body?.items) ? (body.items as unknown[]) : [];
+  if (!items.length) return fail(400, EXTENSION_ROUTE_MESSAGES.emptyBulk);
+  if (items.length > MAX_BULK_ITEMS) return fail(400, EXTENSION_ROUTE_MESSAGES.tooManyBulk);
+
+  const seen = new Set<string>();
+  const outcomes: Array<{ registrationId: string; input?: CreateExtensionInput; message?: string }> = [];
+  for (const item of items) {
+    const input = parseCreateInput(
+      typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {}
+    );
+    if (input.registrationId && seen.has(input.registrationId)) {
+      outcomes.push({
+        registrationId: input.registrationId,
+        message: EXTENSION_ROUTE_MESSAGES.duplicateRegistration,
+      });
+      continue;
+    }
+    seen.add(input.registrationId);
+    const access = await checkExtensionCreateAccess(authUser, input);
+    outcomes.push(
+      access.error
+        ? { registrationId: input.registrationId, message: access.error.body.message }
+        : { registrationId: input.registrationId, input }
+    );
+  }
+
+  const inputs = outcomes
+    .map((outcome) => outcome.input)
+    .filter((input): input is CreateExtensionInput => Boolean(input));
+  const written = inputs.length
+    ? await prisma.$transaction(async (tx: TransactionClient) => {
+        const saved = new Map<string, { result?: Awaited<ReturnType<typeof writeExtensionCreate>>; message?: string }>();
+        for (const input of inputs) {
+          const prepared = await prepareExtensionCreate(tx, input);
+          saved.set(
+            input.registrationId,
+            prepared.error
+              ? { message: prepared.error.body.message }
+              : { result: await writeExtensionCreate(tx, prepared.plan as CreateExtensionPlan, auditContext) }
+          );
+        }
+        return saved;
+      })
+    : new Map();
+
+  const results = outcomes.map((outcome) => {
+    const saved = outcome.input ? written.get(outcome.registrationId) : null;
+    return saved?.result
+      ? { registrationId: outcome.registrationId, status: 'success', ...saved.result }
+      : {
+          registrationId: outcome.registrationId,
+          status: 'fail',
+          message: saved?.message || outcome.message || '',
+        };
+  });
+  const createdCount = results.filter((result) => result.status === 'success').length;
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      results,
+      createdCount,
+      failedCount: results.length - createdCount,
+    },
+  };
+}
+
+/** 요청 본문을 연장 입력으로 바꾼다. 형식이 틀리면 실패 응답을 돌려준다. */
+function parseExtensionInput(body: Record<string, unknown> | null | undefined) {
+  const startDate = parseStrictDateOnly(body?.startDate);
+  if (!startDate) return { error: fail(400, EXTENSION_ROUTE_MESSAGES.invalidStartDate) };
+  const weeks = parseWeeks(body?.weeks);
+  if (!weeks) return { error: fail(400, EXTENSION_ROUTE_MESSAGES.invalidWeeks) };
+  const endDate = parseStrictDateOnly(body?.endDate);
+  if (body?.endDate && !endDate) return { error: fail(400, EXTENSION_ROUTE_MESSAGES.invalidEndDate) };
+
+  const input: ExtensionInput = {
+    startDate: formatDateOnly(startDate),
+    weeks,
+    tuitionFee: parseTuitionFee(body?.tuitionFee),
+    endDate: endDate ? formatDateOnly(endDate) : null,
+    skipWeeks: Array.isArray(body?.skipWeeks)
+      ? (body.skipWeeks as unknown[]).map(Number).filter((n) => Number.isInteger(n) && n > 0)
+      : null,
+    recordingDates: Array.isArray(body?.recordingDates)
+      ? (body.recordingDates as unknown[]).filter((d): d is string => typeof d === 'string' && d.trim().length > 0)
+      : null,
+  };
+  return { input };
+}
+
+/** POST /api/registration-extensions와 같은 카테고리 권한 검사를 거쳐 연장·등록·같은 등록의 연장 목록을 읽는다. */
+async function loadExtensionContext(authUser: AuthUserLike, extensionId: string) {
+  const extension: ExtensionRow | null = await prisma.registrationExtension.findUnique({
+    where: { id: extensionId },
+  });
+  if (!extension) return { error: fail(404, EXTENSION_ROUTE_MESSAGES.extensionNotFound) };
+
+  const registration: ExtensionRegistration | null = await prisma.registration.findUnique({
+    where: { id: extension.registrationId },
+  });
+  if (!registration) return { error: fail(404, EXTENSION_ROUTE_MESSAGES.registrationNotFound) };
+
+  const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
+  const { accessMap, indexMap } = await loadAccessContext(
+    authUser.id,
+    [String(registration.courseConfigSetName || '').trim()],
+    bypassCategoryAccess
+  );
+  if (!isRegistrationAllowed(registration, accessMap, indexMap, bypassCategoryAccess)) {
+    return { error: fail(403, 'Permission denied.') };
+  }
+
+  const rows: ExtensionRow[] = await prisma.registrationExtension.findMany({
+    where: { registrationId: extension.registrationId },
+    orderBy: [{ startDate: 'asc' }],
+  });
+  return { extension, registration, periods: normalizeExtensionPeriods(rows.map(formatExtension)) };
+}
+
+function shiftDate(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function isDateInRange(dateKey: string, range: ExtensionDateRange | null) {
+  return Boolean(range && dateKey >= range.startDate && dateKey <= range.endDate);
+}
+
+/** 연장 기간(coverage)에 속한 휴강 주차를 빼고, 있으면 새 주차를 넣는다. */
+function replaceSkipWeeks(
+  registration: ExtensionRegistration,
+  coverage: ExtensionDateRange | null,
+  incoming: number[]
+) {
+  const existing = Array.isArray(registration.skipWeeks) ? registration.skipWeeks : [];
+  const registrationStart = formatDateOnly(registration.startDate);
+  const fromWeek = coverage ? getRegistrationWeekIndex(registrationStart, coverage.startDate) : 0;
+  const toWeek = coverage ? getRegistrationWeekIndex(registrationStart, coverage.endDate) : 0;
+  const kept = existing.filter((week) => !coverage || week < fromWeek || week > toWeek);
+  const next = Array.from(new Set([...kept, ...incoming])).sort((a, b) => a - b);
+  return { next, removed: existing.length - kept.length };
+}
+
+function replaceRecordingDates(
+  registration: ExtensionRegistration,
+  coverage: ExtensionDateRange | null,
+  incoming: string[]
+) {
+  const existing = Array.isArray(registration.recordingDates) ? registration.recordingDates : [];
+  const kept = existing.filter((date) => !isDateInRange(String(date).slice(0, 10), coverage));
+  return Array.from(new Set([...kept, ...incoming])).sort();
+}
+
+/**
+ * 연장 변경 후 등록 종료일.
+ * 마지막 연장을 고치면서 종료일을 함께 보냈으면 그 날짜를 쓴다 (POST와 같다).
+ * 그 밖에는 늘거나 준 주수(휴강 주차 포함)만큼 저장된 종료일을 옮긴다. 종료일이 없으면 처음부터 계산한다.
+ */
+function computeExtendedEndDate({
+  registration,
+  nextWeeks,
+  nextSkipWeeks,
+  shiftDays,
+  endDate,
+}: {
+  registration: ExtensionRegistration
+  nextWeeks: number
+  nextSkipWeeks: number[]
+  shiftDays: number
+  endDate?: string | null
+}) {
+  if (endDate) return parseStrictDateOnly(endDate);
+  if (!registration.endDate) {
+    return parseStrictDateOnly(computeEndDate(registration.startDate, nextWeeks, nextSkipWeeks)) || null;
+  }
+  return shiftDate(registration.endDate, shiftDays);
+}
+
+async function saveExtensionChange({
+  registration,
+  before,
+  auditContext,
+  action,
+  data,
+  write,
+}: {
+  registration: ExtensionRegistration
+  before: ExtensionRow
+  auditContext: AuditContext
+  action: string
+  data: Record<string, unknown>
+  write: (tx: import('@prisma/client').Prisma.TransactionClient) => Promise<ExtensionWriteResult>
+}) {
+  return prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const { extension: saved, movedPaymentIds = [] } = await write(tx);
+    const updated = await tx.registration.update({
+      where: { id: registration.id },
+      data,
+    });
+
+    await recordAuditLogs(
+      auditContext,
+      [{
+        action,
+        entityType: AUDIT_ENTITY_TYPES.registration,
+        entityId: registration.id,
+        registrationId: registration.id,
+        before: { ...registration, extension: before },
+        after: {
+          ...updated,
+          ...(saved ? { extension: saved } : {}),
+          ...(movedPaymentIds.length ? { movedPaymentIds } : {}),
+        },
+      }],
+      tx
+    );
+
+    return {
+      extension: saved ? formatExtension(saved) : null,
+      registration: {
+        id: updated.id,
+        weeks: updated.weeks ?? null,
+        endDate: formatDateOnly(updated.endDate),
+      },
+    };
+  });
+}
+
+/**
+ * PUT /api/registration-extensions/:id — 시작일·주수·수강료 수정
+ * 등록 주수와 종료일을 새 연장에 맞춰 다시 잡는다.
+ */
+async function updateRegistrationExtensionResult({
+  authUser,
+  extensionId,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  extensionId: string
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const parsed = parseExtensionInput(body);
+  if (parsed.error) return parsed.error;
+  const input = parsed.input as ExtensionInput;
+
+  const context = await loadExtensionContext(authUser, extensionId);
+  if (context.error) return context.error;
+  const extension = context.extension as ExtensionRow;
+  const registration = context.registration as ExtensionRegistration;
+  const periods = context.periods as ExtensionPeriodInput[];
+
+  const rangeError = getExtensionRangeError(
+    periods,
+    input,
+    formatDateOnly(registration.startDate),
+    extensionId
+  );
+  if (rangeError) return fail(400, rangeError);
+
+  const previous = periods.find((ext) => ext.id === extensionId);
+  const coverage = previous
+    ? getExtensionCoverage(periods, previous, formatDateOnly(registration.endDate))
+    : null;
+  const isLatest = !periods.some((ext) => ext.id !== extensionId && ext.startDate > input.startDate);
+
+  const skip = input.skipWeeks ? replaceSkipWeeks(registration, coverage, input.skipWeeks) : null;
+  const addedSkipWeeks = skip && input.skipWeeks ? input.skipWeeks.length - skip.removed : 0;
+  const nextWeeks = Number(registration.weeks || 0) - Number(extension.weeks || 0) + input.weeks;
+  const startShiftDays = isLatest && previous
+    ? Math.round((Date.parse(input.startDate) - Date.parse(previous.startDate)) / DAY_MS)
+    : 0;
+  const endDate = computeExtendedEndDate({
+    registration,
+    nextWeeks,
+    nextSkipWeeks: skip ? skip.next : registration.skipWeeks || [],
+    shiftDays: (input.weeks - Number(extension.weeks || 0) + addedSkipWeeks) * 7 + startShiftDays,
+    endDate: isLatest ? input.endDate : null,
+  });
+
+  const result = await saveExtensionChange({
+    registration,
+    before: extension,
+    auditContext,
+    action: AUDIT_ACTIONS.registrationExtensionUpdate,
+    data: {
+      weeks: nextWeeks || null,
+      endDate: endDate || registration.endDate,
+      ...(skip ? { skipWeeks: skip.next } : {}),
+      ...(input.recordingDates
+        ? { recordingDates: replaceRecordingDates(registration, coverage, input.recordingDates) }
+        : {}),
+    },
+    write: async (tx) => ({
+      extension: await tx.registrationExtension.update({
+        where: { id: extensionId },
+        data: {
+          startDate: parseStrictDateOnly(input.startDate),
+          weeks: input.weeks,
+          tuitionFee: input.tuitionFee,
+        },
+      }),
+    }),
+  });
+  return { statusCode: 200, body: { status: 'success', ...result } };
+}
+
+/**
+ * DELETE /api/registration-extensions/:id — 잘못 넣은 연장 취소
+ * 연장 주수와 그 기간의 휴강 주차·녹화 날짜를 등록에서 빼고 종료일을 그만큼 당긴다.
+ * 이 연장에 받은 수납은 등록 본체 수납으로 옮기고, 옮긴 수납 ID를 감사 로그에 남긴다.
+ */
+async function deleteRegistrationExtensionResult({
+  authUser,
+  extensionId,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  extensionId: string
+  auditContext: AuditContext
+}) {
+  const context = await loadExtensionContext(authUser, extensionId);
+  if (context.error) return context.error;
+  const extension = context.extension as ExtensionRow;
+  const registration = context.registration as ExtensionRegistration;
+  const periods = context.periods as ExtensionPeriodInput[];
+
+  const target = periods.find((ext) => ext.id === extensionId);
+  const coverage = target
+    ? getExtensionCoverage(periods, target, formatDateOnly(registration.endDate))
+    : null;
+  const skip = replaceSkipWeeks(registration, coverage, []);
+  const nextWeeks = Math.max(Number(registration.weeks || 0) - Number(extension.weeks || 0), 0);
+  const endDate = computeExtendedEndDate({
+    registration,
+    nextWeeks,
+    nextSkipWeeks: skip.next,
+    shiftDays: -(Number(extension.weeks || 0) + skip.removed) * 7,
+  });
+
+  const result = await saveExtensionChange({
+    registration,
+    before: extension,
+    auditContext,
+    action: AUDIT_ACTIONS.registrationExtensionDelete,
+    data: {
+      weeks: nextWeeks || null,
+      endDate: endDate || registration.endDate,
+      skipWeeks: skip.next,
+      recordingDates: replaceRecordingDates(registration, coverage, []),
+    },
+    write: async (tx) => {
+      // 수납·입금의 registrationExtensionId에는 외래 키가 없어, 지운 연장을 가리키지 않게 등록 본체로 옮긴다
+      const payments: Array<{ id: string }> = await tx.payment.findMany({
+        where: { registrationExtensionId: extensionId },
+        select: { id: true },
+      });
+      const movedPaymentIds = payments.map((payment) => payment.id);
+      if (movedPaymentIds.length) {
+        await tx.payment.updateMany({
+          where: { id: { in: movedPaymentIds } },
+          data: { registrationExtensionId: null },
+        });
+      }
+      await tx.smsDeposit.updateMany({
+        where: { registrationExtensionId: extensionId },
+        data: { registrationExtensionId: null },
+      });
+      await tx.smsDepositAllocation.updateMany({
+        where: { registrationExtensionId: extensionId },
+        data: { registrationExtensionId: null },
+      });
+      await tx.registrationExtension.delete({ where: { id: extensionId } });
+      return { extension: null, movedPaymentIds };
+    },
+  });
+  return { statusCode: 200, body: { status: 'success', registration: result.registration } };
+}
+
+module.exports = {
+  createRegistrationExtensionResult,
+  createRegistrationExtensionsBulkResult,
+  deleteRegistrationExtensionResult,
+  updateRegistrationExtensionResult,
+};
@@ -0,0 +1,381 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly } = require('../utils/dateUtils');
+const { computeEndDate, parseStrictDateOnly } = require('../utils/parsers');
+const {
+  getHoldRangeError,
+  getHoldWeekIndexes,
+  normalizeRegistrationHolds,
+} = require('../shared/registrationHolds');
+const { isRegistrationAccessAllowed } = require('./registrationAccessService');
+const { loadCourseInfoMap } = require('./quoteService');
+const { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, recordAuditLogs } = require('./auditLogService');
+
+type RegistrationHold = import('../shared/registrationHolds').RegistrationHold
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type AuditContext = {
+  actor: string
+  actorRole: string
+  requestId: string
+}
+
+type HoldRow = {
+  id: string
+  registrationId: string
+  startDate: Date
+  endDate: Date | null
+  reason: string
+  createdBy: string
+  createdAt: Date
+}
+
+type HoldRegistration = {
+  id: string
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  startDate?: Date | null
+  endDate?: Date | null
+  weeks?: number | null
+  skipWeeks?: number[] | null
+  durationUnit?: string | null
+  withdrawnAt?: Date | null
+  transferToId?: string | null
+} & Record<string, unknown>
+
+type HoldInput = {
+  startDate: string
+  endDate: string | null
+  reason: string
+}
+
+const HOLD_ROUTE_MESSAGES = {
+  registrationNotFound: '해당 ID의 등록 정보를 찾을 수 없습니다.',
+  holdNotFound: '해당 휴원 기록을 찾을 수 없습니다.',
+  invalidStartDate: '휴원 시작일을 확인해 주세요.',
+  invalidEndDate: '복귀 전 마지막 휴원일을 확인해 주세요.',
+  dailyNotSupported: '일 단위 수강은 휴원 대신 수업 날짜를 바꿔 주세요.',
+  inactiveRegistration: '퇴원했거나 전반한 등록은 휴원할 수 없습니다.',
+  outOfPeriod: '휴원 시작일은 수강 기간 안이어야 합니다.',
+} as const;
+
+const MAX_REASON_LENGTH = 200;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatHold(row: HoldRow) {
+  return {
+    id: row.id,
+    registrationId: row.registrationId,
+    startDate: formatDateOnly(row.startDate),
+    endDate: row.endDate ? formatDateOnly(row.endDate) : null,
+    reason: row.reason || '',
+    createdBy: row.createdBy || '',
+    createdAt: row.createdAt ? row.createdAt.toISOString() : '',
+  };
+}
+
+/** 등록 목록 응답에 붙일 휴원 기록. 시작일 순 */
+async function loadRegistrationHoldMap(registrationIds: Array<string | null | undefined>) {
+  const ids = Array.from(new Set((registrationIds || []).filter(Boolean).map((id) => String(id))));
+  const map = new Map<string, ReturnType<typeof formatHold>[]>();
+  if (!ids.length) return map;
+
+  const rows: HoldRow[] = await prisma.registrationHold.findMany({
+    where: { registrationId: { in: ids } },
+    orderBy: [{ startDate: 'asc' }],
+  });
+  for (const row of rows) {
+    const list = map.get(row.registrationId) || [];
+    list.push(formatHold(row));
+    map.set(row.registrationId, list);
+  }
+  return map;
+}
+
+/** 요청 본문을 휴원 입력으로 바꾼다. 형식이 틀리면 실패 응답을 돌려준다. */
+function parseHoldInput(body: Record<string, unknown> | null | undefined) {
+  const startDate = parseStrictDateOnly(body?.startDate);
+  if (!startDate) return { error: fail(400, HOLD_ROUTE_MESSAGES.invalidStartDate) };
+  const rawEnd = body?.endDate;
+  const endDate = rawEnd === null || rawEnd === undefined || rawEnd === '' ? null : parseStrictDateOnly(rawEnd);
+  if (rawEnd && !endDate) return { error: fail(400, HOLD_ROUTE_MESSAGES.invalidEndDate) };
+  const input: HoldInput = {
+    startDate: formatDateOnly(startDate),
+    endDate: endDate ? formatDateOnly(endDate) : null,
+    reason: String(body?.reason ?? '').trim().slice(0, MAX_REASON_LENGTH),
+  };
+  return { input };
+}
+
+async function loadHoldContext(authUser: AuthUserLike, registrationId: string) {
+  const registration: HoldRegistration | null = await prisma.registration.findUnique({
+    where: { id: registrationId },
+  });
+  if (!registration) return { error: fail(404, HOLD_ROUTE_MESSAGES.registrationNotFound) };
+
+  const canAccess = await isRegistrationAccessAllowed(authUser, [registration]);
+  if (!canAccess) return { error: fail(403, 'Permission denied.') };
+
+  const rows: HoldRow[] = await prisma.registrationHold.findMany({
+    where: { registrationId },
+    orderBy: [{ startDate: 'asc' }],
+  });
+  return { registration, rows };
+}
+
+function getInputError(registration: HoldRegistration, holds: RegistrationHold[], input: HoldInput, ignoreId = '') {
+  if (registration.durationUnit === 'daily') return fail(400, HOLD_ROUTE_MESSAGES.dailyNotSupported);
+  if (registration.withdrawnAt || registration.transferToId) {
+    return fail(400, HOLD_ROUTE_MESSAGES.inactiveRegistration);
+  }
+  const registrationStart = formatDateOnly(registration.startDate);
+  const registrationEnd = formatDateOnly(registration.endDate);
+  if (
+    (registrationStart && input.startDate < registrationStart) ||
+    (registrationEnd && input.startDate > registrationEnd)
+  ) {
+    return fail(400, HOLD_ROUTE_MESSAGES.outOfPeriod);
+  }
+  const rangeError = getHoldRangeError(holds, input, ignoreId);
+  return rangeError ? fail(400, rangeError) : null;
+}
+
+/**
+ * 휴원 변경 전후로 빠지는 주차 수 차이만큼 종료일을 옮긴다.
+ * 저장된 종료일에 연장·직접 입력이 반영돼 있을 수 있어 처음부터 다시 계산하지 않는다.
+ */
+async function computeHeldEndDate(
+  registration: HoldRegistration,
+  previousHolds: RegistrationHold[],
+  nextHolds: RegistrationHold[]
+) {
+  const startDate = formatDateOnly(registration.startDate);
+  const weeks = Number(registration.weeks || 0);
+  if (!startDate || weeks <= 0) return registration.endDate || null;
+
+  const courseInfo = await loadCourseInfoMap(registration.courseConfigSetName);
+  const info = courseInfo?.[String(registration.courseId || '')];
+  const options = {
+    startDate,
+    weeks,
+    skipWeeks: registration.skipWeeks || [],
+    courseDays: Array.isArray(info?.days) ? info.days : [],
+  };
+  const previousWeeks = getHoldWeekIndexes({ ...options, holds: previousHolds });
+  const nextWeeks = getHoldWeekIndexes({ ...options, holds: nextHolds });
+
+  if (!registration.endDate) {
+    return parseStrictDateOnly(
+      computeEndDate(startDate, weeks, [...(registration.skipWeeks || []), ...nextWeeks])
+    );
+  }
+  const shiftDays = (nextWeeks.length - previousWeeks.length) * 7;
+  const endDate = new Date(registration.endDate);
+  endDate.setUTCDate(endDate.getUTCDate() + shiftDays);
+  return endDate;
+}
+
+async function saveHoldChange({
+  registration,
+  previousHolds,
+  nextHolds,
+  auditContext,
+  before,
+  write,
+}: {
+  registration: HoldRegistration
+  previousHolds: RegistrationHold[]
+  nextHolds: RegistrationHold[]
+  auditContext: AuditContext
+  before: ReturnType<typeof formatHold> | null
+  write: (tx: import('@prisma/client').Prisma.TransactionClient) => Promise<HoldRow | null>
+}) {
+  const endDate = await computeHeldEndDate(registration, previousHolds, nextHolds);
+  const previousEndDate = formatDateOnly(registration.endDate);
+
+  return prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const saved = await write(tx);
+    const updated = await tx.registration.update({
+      where: { id: registration.id },
+      data: { endDate },
+    });
+    const after = saved ? formatHold(saved) : null;
+    const registrationEndDate = formatDateOnly(updated.endDate);
+
+    await recordAuditLogs(
+      auditContext,
+      [{
+        action: AUDIT_ACTIONS.registrationHold,
+        entityType: AUDIT_ENTITY_TYPES.registrationHold,
+        entityId: String(after?.id || before?.id || ''),
+        registrationId: registration.id,
+        before: before ? { ...before, registrationEndDate: previousEndDate } : { registrationEndDate: previousEndDate },
+        after: after ? { ...after, registrationEndDate } : { registrationEndDate },
+      }],
+      tx
+    );
+
+    return {
+      hold: after,
+      registration: { id: updated.id, endDate: registrationEndDate },
+    };
+  });
+}
+
+function toHoldData(input: HoldInput) {
+  return {
+    startDate: parseStrictDateOnly(input.startDate),
+    endDate: input.endDate ? parseStrictDateOnly(input.endDate) : null,
+    reason: input.reason,
+  };
+}
+
+/**
+ * POST /api/registrations/:id/holds
+ */
+async function createRegistrationHoldResult({
+  authUser,
+  registrationId,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  registrationId: string
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const parsed = parseHoldInput(body);
+  if (parsed.error) return parsed.error;
+  const input = parsed.input as HoldInput;
+
+  const context = await loadHoldContext(authUser, registrationId);
+  if (context.error) return context.error;
+  const registration = context.registration as HoldRegistration;
+  const previousHolds = normalizeRegistrationHolds((context.rows as HoldRow[]).map(formatHold));
+
+  const inputError = getInputError(registration, previousHolds, input);
+  if (inputError) return inputError;
+
+  const id = uuidv4();
+  const nextHolds = normalizeRegistrationHolds([...previousHolds, { id, registrationId, ...input }]);
+  const result = await saveHoldChange({
+    registration,
+    previousHolds,
+    nextHolds,
+    auditContext,
+    before: null,
+    write: (tx) =>
+      tx.registrationHold.create({
+        data: {
+          id,
+          registrationId,
+          ...toHoldData(input),
+          createdBy: auditContext.actor,
+        },
+      }),
+  });
+  return { statusCode: 201, body: { status: 'success', ...result } };
+}
+
+/**
+ * PUT /api/registrations/:id/holds/:holdId — 기간·사유 수정, 복귀일 입력
+ */
+async function updateRegistrationHoldResult({
+  authUser,
+  registrationId,
+  holdId,
+  body,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  registrationId: string
+  holdId: string
+  body: Record<string, unknown>
+  auditContext: AuditContext
+}) {
+  const parsed = parseHoldInput(body);
+  if (parsed.error) return parsed.error;
+  const input = parsed.input as HoldInput;
+
+  const context = await loadHoldContext(authUser, registrationId);
+  if (context.error) return context.error;
+  const registration = context.registration as HoldRegistration;
+  const rows = context.rows as HoldRow[];
+  const existing = rows.find((row) => row.id === holdId);
+  if (!existing) return fail(404, HOLD_ROUTE_MESSAGES.holdNotFound);
+
+  const previousHolds = normalizeRegistrationHolds(rows.map(formatHold));
+  const inputError = getInputError(registration, previousHolds, input, holdId);
+  if (inputError) return inputError;
+
+  const nextHolds = normalizeRegistrationHolds(
+    previousHolds.map((hold: RegistrationHold) => (hold.id === holdId ? { ...hold, ...input } : hold))
+  );
+  const result = await saveHoldChange({
+    registration,
+    previousHolds,
+    nextHolds,
+    auditContext,
+    before: formatHold(existing),
+    write: (tx) =>
+      tx.registrationHold.update({
+        where: { id: holdId },
+        data: toHoldData(input),
+      }),
+  });
+  return { statusCode: 200, body: { status: 'success', ...result } };
+}
+
+/**
+ * DELETE /api/registrations/:id/holds/:holdId — 잘못 넣은 휴원 취소. 밀린 종료일도 되돌린다.
+ */
+async function deleteRegistrationHoldResult({
+  authUser,
+  registrationId,
+  holdId,
+  auditContext,
+}: {
+  authUser: AuthUserLike
+  registrationId: string
+  holdId: string
+  auditContext: AuditContext
+}) {
+  const context = await loadHoldContext(authUser, registrationId);
+  if (context.error) return context.error;
+  const registration = context.registration as HoldRegistration;
+  const rows = context.rows as HoldRow[];
+  const existing = rows.find((row) => row.id === holdId);
+  if (!existing) return fail(404, HOLD_ROUTE_MESSAGES.holdNotFound);
+
+  const previousHolds = normalizeRegistrationHolds(rows.map(formatHold));
+  const nextHolds = previousHolds.filter((hold: RegistrationHold) => hold.id !== holdId);
+  const result = await saveHoldChange({
+    registration,
+    previousHolds,
+    nextHolds,
+    auditContext,
+    before: formatHold(existing),
+    write: async (tx) => {
+      await tx.registrationHold.delete({ where: { id: holdId } });
+      return null;
+    },
+  });
+  return { statusCode: 200, body: { status: 'success', registration: result.registration } };
+}
+
+module.exports = {
+  createRegistrationHoldResult,
+  deleteRegistrationHoldResult,
+  loadRegistrationHoldMap,
+  updateRegistrationHoldResult,
+};
@@ -1,7 +1,22 @@
 const { prisma } = require('../db/prisma');
 const { formatDateOnly } = require('../utils/dateUtils');
 const { computeEndDate } = require('../utils/parsers');
-const { loadAccessibleRegistrations } = require('./registrationAccessService');
+const { loadPaymentSummaryMap } = require('./paymentService');
+const { loadRegistrationHoldMap } = require('./registrationHoldService');
+const { loadTransferSettlementMap } = require('./transferSettlementService');
+const {
+  REGISTRATION_LIST_ORDER_BY,
+  filterAccessibleRegistrations,
+  loadAccessibleRegistrations,
+} = require('./registrationAccessService');
+const { loadAccessContext, resolveCategoryForCourse } = require('./categoryAccessService');
+const {
+  REGISTRATION_LIST_MESSAGES,
+  createEmptyStatusCounts,
+  getRegistrationListStatus,
+  isInRegistrationListWindow,
+  parseRegistrationListQuery,
+} = require('../shared/registrationListQuery');
 
 type RegistrationMutationRow = {
   id: string
@@ -14,6 +29,7 @@ type RegistrationMutationRow = {
 } & Record<string, unknown>
 
 type RegistrationListRow = RegistrationMutationRow & {
+  createdAt?: Date | null
   course?: string | null
   courseId?: string | null
   courseConfigSetName?: string | null
@@ -29,11 +45,41 @@ type RegistrationListRow = RegistrationMutationRow & {
 }
 
 type RegistrationNoteMap = Map<string, { content: string; updatedAt: Date }>
+type PaymentSummaryMap = Map<string, { billedAmount: number; paidAmount: number }>
+type RegistrationHoldMap = Map<string, Array<Record<string, unknown>>>
+type TransferSettlementMap = Map<string, Record<string, unknown>>
 type AuthUserLike = {
   id: string
   role?: string | null
 } & Record<string, unknown>
 
+type RegistrationListQuery = import('../shared/registrationListQuery').RegistrationListQuery
+type RegistrationListCounts = import('../shared/registrationListQuery').RegistrationListCounts
+type RegistrationListStatus = import('../shared/registrationListQuery').RegistrationListStatus
+
+/** 페이지 경계. 목록 순서(이름, 접수 시각, 생성 시각, id) 그대로의 마지막 등록 값 */
+type RegistrationListCursor = {
+  name: string
+  timestamp: Date | null
+  createdAt: Date
+  id: string
+}
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+/** 로컬 기준 오늘 (YYYY-MM-DD) */
+function getToday(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
 async function loadRegistrationNoteMap(rootIds: Array<string | null | undefined>) {
   const ids = Array.from(new Set((rootIds || []).filter(Boolean).map((id) => String(id))));
   if (!ids.length) {
@@ -53,7 +99,10 @@ async function loadRegistrationNoteMap(rootIds: Array<string | null | undefined>
 
 function formatRegistrationResults(
   rows: RegistrationListRow[],
-  noteMap: RegistrationNoteMap
+  noteMap: RegistrationNoteMap,
+  paymentMap?: PaymentSummaryMap,
+  holdMap?: RegistrationHoldMap,
+  settlementMap?: TransferSettlementMap
 ) {
   return rows.map((row: RegistrationListRow) => {
     const weeks = row.weeks !== null && row.weeks !== undefined ? String(row.weeks) : '';
@@ -63,6 +112,7 @@ function formatRegistrationResults(
       : computeEndDate(row.startDate, row.weeks, row.skipWeeks);
     const rootId = row.transferFromId || row.id || '';
     const note = noteMap.get(String(rootId));
+    const payment = paymentMap?.get(String(row.id || ''));
 
     return {
       id: row.id || '',
@@ -71,6 +121,7 @@ function formatRegistrationResults(
       course: row.course || '',
       courseId: row.courseId || '',
       courseConfigSetName: row.courseConfigSetName || '',
+      studentId: (row as any).studentId || null,
       startDate,
       endDate,
       withdrawnAt: formatDateOnly(row.withdrawnAt),
@@ -82,13 +133,22 @@ function formatRegistrationResults(
       weeks,
       tuitionFee: row.tuitionFee ?? null,
       discount: (row as any).discount ?? 0,
+      retainedFee: (row as any).retainedFee ?? null,
+      refundAmount: (row as any).refundAmount ?? null,
+      refundReason: (row as any).refundReason || '',
+      billedAmount: payment ? payment.billedAmount : null,
+      paidAmount: payment ? payment.paidAmount : null,
       excludeMath: !!row.excludeMath,
+      courseType: (row as any).courseType || '',
+      timeOption: (row as any).timeOption || '',
       recordingDates: Array.isArray(row.recordingDates) ? row.recordingDates.filter(Boolean) : [],
       skipWeeks: Array.isArray(row.skipWeeks)
         ? row.skipWeeks.filter((w: unknown) => Number.isInteger(w))
         : [],
       selectedDates: Array.isArray(row.selectedDates) ? row.selectedDates.filter(Boolean) : [],
       durationUnit: row.durationUnit || 'weekly',
+      holds: holdMap?.get(String(row.id || '')) || [],
+      transferSettlement: settlementMap?.get(String(row.id || '')) || null,
     };
   });
 }
@@ -157,15 +217,305 @@ async function loadRegistrationListPayload(authUser: AuthUserLike) {
     )
   );
   const noteMap = await loadRegistrationNoteMap(rootIds);
-  const results = formatRegistrationResults(filteredRows, noteMap);
+  const paymentMap = await loadPaymentSummaryMap(filteredRows);
+  const holdMap = await loadRegistrationHoldMap(filteredRows.map((row) => row.id));
+  const settlementMap = await loadTransferSettlementMap(
+    filteredRows.filter((row) => row.transferFromId).map((row) => row.id)
+  );
+  const results = formatRegistrationResults(filteredRows, noteMap, paymentMap, holdMap, settlementMap);
   const activeMerges = await loadActiveMergeSummaries();
 
   return { results, activeMerges };
 }
 
+function toDbDate(dateKey: string) {
+  return new Date(`${dateKey}T00:00:00.000Z`);
+}
+
+/**
+ * 이름 검색·세트·과목·퇴원/전반 조건은 DB에서 먼저 거른다.
+ * 날짜로 정하는 상태(수강 중·시작 전·종료)와 기간은 종료일을 계산해야 하므로
+ * 여기서는 넉넉히 거르고 정확한 판정은 메모리에서 한다.
+ */
+function buildRegistrationListWhere(query: RegistrationListQuery) {
+  const and: Array<Record<string, unknown>> = [];
+  if (query.courseConfigSetName) and.push({ courseConfigSetName: query.courseConfigSetName });
+  if (query.courseId) and.push({ courseId: query.courseId });
+  if (query.course) and.push({ course: { startsWith: query.course } });
+  if (query.search) and.push({ name: { contains: query.search, mode: 'insensitive' } });
+
+  if (query.statuses.length) {
+    const statusConditions: Array<Record<string, unknown>> = [];
+    if (query.statuses.includes('withdrawn')) statusConditions.push({ withdrawnAt: { not: null } });
+    if (query.statuses.includes('transferred')) {
+      statusConditions.push({ withdrawnAt: null, transferToId: { not: null } });
+    }
+    if (query.statuses.some((status) => status !== 'withdrawn' && status !== 'transferred')) {
+      statusConditions.push({ withdrawnAt: null, transferToId: null });
+    }
+    and.push({ OR: statusConditions });
+  }
+
+  if (query.to) and.push({ OR: [{ startDate: null }, { startDate: { lte: toDbDate(query.to) } }] });
+  if (query.from) and.push({ OR: [{ endDate: null }, { endDate: { gte: toDbDate(query.from) } }] });
+  return and.length ? { AND: and } : {};
+}
+
+function toCursorDate(value: unknown) {
+  if (value === null) return null;
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+function toRegistrationListCursor(row: RegistrationListRow): RegistrationListCursor {
+  return {
+    name: String(row.name || ''),
+    timestamp: row.timestamp || null,
+    createdAt: row.createdAt || new Date(0),
+    id: row.id,
+  };
+}
+
+function encodeRegistrationListCursor(cursor: RegistrationListCursor) {
+  const values = [
+    cursor.name,
+    cursor.timestamp ? cursor.timestamp.toISOString() : null,
+    cursor.createdAt.toISOString(),
+    cursor.id,
+  ];
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/** 형식이 틀린 cursor만 null. 가리키는 등록이 지워졌거나 조건에서 빠져도 그 자리 다음부터 읽는다 */
+function decodeRegistrationListCursor(cursor: string): RegistrationListCursor | null {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(values) || values.length !== 4) return null;
+  const [name, timestamp, createdAt, id] = values;
+  const timestampDate = toCursorDate(timestamp);
+  const createdAtDate = toCursorDate(createdAt);
+  if (typeof name !== 'string' || typeof id !== 'string' || !id) return null;
+  if (timestampDate === undefined || !createdAtDate) return null;
+  return { name, timestamp: timestampDate, createdAt: createdAtDate, id };
+}
+
+/** REGISTRATION_LIST_ORDER_BY 순서에서 cursor 뒤에 오는 등록 (접수 시각이 없으면 맨 뒤) */
+function buildCursorWhere(cursor: RegistrationListCursor) {
+  const afterCreated = {
+    OR: [
+      { createdAt: { gt: cursor.createdAt } },
+      { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+    ],
+  };
+  const sameName = cursor.timestamp
+    ? {
+      OR: [
+        { timestamp: { gt: cursor.timestamp } },
+        { timestamp: null },
+        { timestamp: cursor.timestamp, ...afterCreated },
+      ],
+    }
+    : { timestamp: null, ...afterCreated };
+  return {
+    OR: [
+      { name: { gt: cursor.name } },
+      { name: cursor.name, ...sameName },
+    ],
+  };
+}
+
+/** 등록 ID별 카테고리. 과목 트리에서 찾지 못하면 빈 문자열 */
+async function loadRegistrationCategoryMap(
+  rows: Array<{ id: string; courseConfigSetName?: string | null; courseId?: string | null; course?: string | null }>
+) {
+  const setNames = rows
+    .map((row) => String(row.courseConfigSetName || '').trim())
+    .filter(Boolean);
+  // 권한 검사는 끝났으므로 과목 트리만 읽는다
+  const { indexMap } = await loadAccessContext('', setNames, true);
+  const map = new Map<string, string>();
+  for (const row of rows) {
+    const index = indexMap.get(String(row.courseConfigSetName || '').trim()) || null;
+    const category = resolveCategoryForCourse(
+      { courseId: row.courseId || '', courseName: row.course || '' },
+      index
+    );
+    map.set(row.id, String(category || ''));
+  }
+  return map;
+}
+
+async function filterRowsByCategory(rows: RegistrationListRow[], category: string) {
+  const categoryMap = await loadRegistrationCategoryMap(rows);
+  return rows.filter((row) => categoryMap.get(row.id) === category);
+}
+
+function getRowListDates(row: RegistrationListRow) {
+  return {
+    startDate: formatDateOnly(row.startDate),
+    endDate: row.endDate
+      ? formatDateOnly(row.endDate)
+      : computeEndDate(row.startDate, row.weeks ?? null, row.skipWeeks || []),
+    withdrawnAt: formatDateOnly(row.withdrawnAt),
+    transferToId: row.transferToId || null,
+  };
+}
+
+function buildRegistrationListCounts(
+  entries: Array<{ row: RegistrationListRow; status: RegistrationListStatus }>
+): RegistrationListCounts {
+  const byStatus = createEmptyStatusCounts();
+  const courseMap = new Map<string, { courseId: string; course: string; count: number }>();
+  for (const { row, status } of entries) {
+    byStatus[status] += 1;
+    const courseId = String(row.courseId || '');
+    const course = String(row.course || '');
+    const key = `${courseId}::${course}`;
+    const entry = courseMap.get(key) || { courseId, course, count: 0 };
+    entry.count += 1;
+    courseMap.set(key, entry);
+  }
+  return {
+    total: entries.length,
+    byStatus,
+    byCourse: Array.from(courseMap.values()),
+  };
+}
+
+type RegistrationListEntry = {
+  row: RegistrationListRow
+  status: RegistrationListStatus
+}
+
+/** 카테고리·기간을 메모리에서 마저 거르고 상태를 붙인다 */
+async function buildRegistrationListEntries(
+  rows: RegistrationListRow[],
+  query: RegistrationListQuery,
+  asOf: string
+): Promise<RegistrationListEntry[]> {
+  const inCategory = query.category ? await filterRowsByCategory(rows, query.category) : rows;
+  return inCategory
+    .map((row) => {
+      const dates = getRowListDates(row);
+      return {
+        row,
+        dates,
+        status: getRegistrationListStatus(dates, asOf) as RegistrationListStatus,
+      };
+    })
+    .filter((entry) => isInRegistrationListWindow(entry.dates, query.from, query.to))
+    .map(({ row, status }) => ({ row, status }));
+}
+
+function filterEntriesByStatus(entries: RegistrationListEntry[], statuses: RegistrationListStatus[]) {
+  if (!statuses.length) return entries;
+  const statusSet = new Set<string>(statuses);
+  return entries.filter((entry) => statusSet.has(entry.status));
+}
+
+/**
+ * cursor 뒤에서 조건에 맞는 등록을 limit + 1건까지 모은다.
+ * 권한·카테고리·날짜 상태는 메모리에서 거르므로, 모자라면 다음 묶음을 이어서 읽는다.
+ */
+async function loadRegistrationListPage(
+  authUser: AuthUserLike,
+  query: RegistrationListQuery,
+  asOf: string,
+  cursor: RegistrationListCursor | null
+) {
+  const where = buildRegistrationListWhere(query);
+  const take = query.limit + 1;
+  const matched: RegistrationListEntry[] = [];
+  let after = cursor;
+  while (matched.length < take) {
+    const rows: RegistrationListRow[] = await prisma.registration.findMany({
+      where: after ? { AND: [where, buildCursorWhere(after)] } : where,
+      orderBy: REGISTRATION_LIST_ORDER_BY,
+      take,
+    });
+    const allowed: RegistrationListRow[] = await filterAccessibleRegistrations(authUser, rows);
+    const entries = await buildRegistrationListEntries(allowed, query, asOf);
+    matched.push(...filterEntriesByStatus(entries, query.statuses));
+    if (rows.length < take) break;
+    after = toRegistrationListCursor(rows[rows.length - 1]);
+  }
+
+  const pageRows = matched.slice(0, query.limit).map((entry) => entry.row);
+  const hasMore = matched.length > query.limit;
+  return {
+    pageRows,
+    nextCursor: hasMore
+      ? encodeRegistrationListCursor(toRegistrationListCursor(pageRows[pageRows.length - 1]))
+      : null,
+  };
+}
+
+/** 사이드바 집계. 상태 조건을 빼고 센다. 상태 탭을 바꿔도 다른 상태의 건수를 보여 주기 위해서다 */
+async function loadRegistrationListCounts(
+  authUser: AuthUserLike,
+  query: RegistrationListQuery,
+  asOf: string
+) {
+  const rows: RegistrationListRow[] = await loadAccessibleRegistrations(
+    authUser,
+    buildRegistrationListWhere({ ...query, statuses: [] })
+  );
+  const entries = await buildRegistrationListEntries(rows, query, asOf);
+  const counts = buildRegistrationListCounts(entries);
+  return { ...counts, matched: filterEntriesByStatus(entries, query.statuses).length };
+}
+
+/**
+ * 조건에 맞는 등록 한 페이지와 사이드바용 집계.
+ * cursor는 이전 페이지 마지막 등록의 정렬 값을 담은 문자열이고, 다음 페이지가 없으면 nextCursor가 null이다.
+ * 집계와 합반 정보는 첫 페이지에만 싣는다.
+ */
+async function loadRegistrationListPageResult(authUser: AuthUserLike, rawQuery: Record<string, unknown>) {
+  const parsed = parseRegistrationListQuery(rawQuery);
+  if (!parsed.query) return fail(400, parsed.error);
+  const query: RegistrationListQuery = parsed.query;
+  const asOf = query.asOf || getToday();
+
+  let cursor: RegistrationListCursor | null = null;
+  if (query.cursor) {
+    cursor = decodeRegistrationListCursor(query.cursor);
+    if (!cursor) return fail(400, REGISTRATION_LIST_MESSAGES.invalidCursor);
+  }
+  const { pageRows, nextCursor } = await loadRegistrationListPage(authUser, query, asOf, cursor);
+
+  const rootIds = Array.from(
+    new Set(pageRows.map((row) => row.transferFromId || row.id).filter(Boolean))
+  );
+  const pageIds = pageRows.map((row) => row.id);
+  const [noteMap, paymentMap, holdMap, settlementMap] = await Promise.all([
+    loadRegistrationNoteMap(rootIds),
+    loadPaymentSummaryMap(pageRows),
+    loadRegistrationHoldMap(pageIds),
+    loadTransferSettlementMap(pageRows.filter((row) => row.transferFromId).map((row) => row.id)),
+  ]);
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      results: formatRegistrationResults(pageRows, noteMap, paymentMap, holdMap, settlementMap),
+      // 합반 정보는 첫 페이지에만 싣는다
+      activeMerges: cursor ? undefined : await loadActiveMergeSummaries(),
+      nextCursor,
+      counts: cursor ? undefined : await loadRegistrationListCounts(authUser, query, asOf),
+    },
+  };
+}
+
 module.exports = {
   formatRegistrationResults,
   loadActiveMergeSummaries,
+  loadRegistrationCategoryMap,
+  loadRegistrationListPageResult,
   loadRegistrationListPayload,
   loadRegistrationNoteMap,
 };
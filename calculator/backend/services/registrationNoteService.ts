@@ -25,6 +25,14 @@ async function loadRegistrationNoteRootContext(id: string): Promise<Registration
   return { existing, root, rootId };
 }
 
+async function loadRegistrationNoteContent(rootId: string) {
+  const note = await prisma.registrationNote.findUnique({
+    where: { registrationId: rootId },
+    select: { content: true },
+  });
+  return note?.content || '';
+}
+
 async function saveRegistrationNote({
   rootId,
   content,
@@ -45,6 +53,7 @@ async function saveRegistrationNote({
 }
 
 module.exports = {
+  loadRegistrationNoteContent,
   loadRegistrationNoteRootContext,
   saveRegistrationNote,
 };
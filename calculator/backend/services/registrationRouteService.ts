@@ -1,5 +1,9 @@
 const { prisma } = require('../db/prisma');
-const { loadRegistrationListPayload } = require('./registrationListService');
+const { applyWithdrawalRefund } = require('./paymentService');
+const {
+  loadRegistrationListPageResult,
+  loadRegistrationListPayload,
+} = require('./registrationListService');
 const {
   findForbiddenCourseName,
   listAllowedCourseNames,
@@ -15,6 +19,7 @@ const {
   loadTransferAccessState,
 } = require('./registrationAccessService');
 const {
+  loadRegistrationNoteContent,
   loadRegistrationNoteRootContext,
   saveRegistrationNote,
 } = require('./registrationNoteService');
@@ -26,14 +31,22 @@ async function loadRegistrationById(id: string) {
 async function updateRegistrationWithdrawal({
   id,
   withdrawnAt,
+  refund = null,
+  recordedBy,
 }: {
   id: string
   withdrawnAt: Date | null
+  refund?: { refundAmount: number; retainedFee: number; reason: string } | null
+  recordedBy?: string | null
 }) {
-  return prisma.registration.update({
-    where: { id },
-    data: { withdrawnAt },
-  });
+  return prisma.$transaction((tx: import('@prisma/client').Prisma.TransactionClient) =>
+    applyWithdrawalRefund(tx, {
+      registrationId: id,
+      withdrawnAt,
+      refund: withdrawnAt ? refund : null,
+      recordedBy,
+    })
+  );
 }
 
 module.exports = {
@@ -45,7 +58,9 @@ module.exports = {
   listAllowedCourseNames,
   loadAccessibleRegistrations,
   loadRegistrationById,
+  loadRegistrationListPageResult,
   loadRegistrationListPayload,
+  loadRegistrationNoteContent,
   loadRegistrationNoteRootContext,
   loadTransferAccessState,
   normalizeCourseNameChanges,
@@ -17,8 +17,11 @@ type RegistrationMutationRow = {
   courseConfigSetName?: string | null
   durationUnit?: string | null
   selectedDates?: string[] | null
+  studentId?: string | null
 } & Record<string, unknown>
 
+type TransferSettlement = import('../shared/transferSettlement').TransferSettlement
+
 type TransferCancellationContext = {
   existing: RegistrationMutationRow | null
   original: RegistrationMutationRow | null
@@ -38,6 +41,26 @@ function isDailyRegistration(reg: RegistrationMutationRow) {
     || (Array.isArray(reg.selectedDates) && reg.selectedDates.length > 0);
 }
 
+/** 전반 등록과 같은 트랜잭션에서 정산을 남긴다. 취소하면 전반 등록과 함께 지워진다. */
+async function createSettlementRecord(
+  tx: import('@prisma/client').Prisma.TransactionClient,
+  {
+    fromRegistrationId,
+    toRegistrationId,
+    settlement,
+  }: { fromRegistrationId: string; toRegistrationId: string; settlement?: TransferSettlement | null }
+) {
+  if (!settlement) return;
+  await tx.registrationTransferSettlement.create({
+    data: {
+      id: uuidv4(),
+      fromRegistrationId,
+      toRegistrationId,
+      ...settlement,
+    },
+  });
+}
+
 function formatYmd(d: Date) {
   const y = d.getFullYear();
   const m = String(d.getMonth() + 1).padStart(2, '0');
@@ -52,6 +75,7 @@ async function createTransferredRegistration({
   courseId,
   courseConfigSetName,
   nextWeeks,
+  settlement,
 }: {
   existing: RegistrationMutationRow
   transferAt: Date
@@ -59,6 +83,7 @@ async function createTransferredRegistration({
   courseId?: string
   courseConfigSetName?: string
   nextWeeks?: number | null
+  settlement?: TransferSettlement | null
 }) {
   const transferId = uuidv4();
   const now = new Date();
@@ -83,6 +108,7 @@ async function createTransferredRegistration({
           id: transferId,
           timestamp: now,
           name: existing.name,
+          studentId: existing.studentId || null,
           course: courseName,
           courseId,
           courseConfigSetName: courseConfigSetName || undefined,
@@ -128,6 +154,7 @@ async function createTransferredRegistration({
         id: transferId,
         timestamp: now,
         name: existing.name,
+        studentId: existing.studentId || null,
         course: courseName,
         courseId,
         courseConfigSetName: courseConfigSetName || undefined,
@@ -145,6 +172,11 @@ async function createTransferredRegistration({
         updatedAt: now,
       },
     });
+    await createSettlementRecord(tx, {
+      fromRegistrationId: existing.id,
+      toRegistrationId: transferId,
+      settlement,
+    });
 
     await tx.registration.update({
       where: { id: String(existing.id || '') },
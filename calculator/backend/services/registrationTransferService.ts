@@ -9,6 +9,12 @@ const {
   createTransferredRegistration,
   loadTransferCancellationContext,
 } = require('./registrationTransferDataService');
+const {
+  buildSettlementForTransfer,
+  resolveSettlementFees,
+} = require('./transferSettlementService');
+const { TRANSFER_SETTLEMENT_MESSAGES } = require('../shared/transferSettlement');
+const { promoteWaitlistAfterSeatFreed } = require('./waitlistService');
 
 type AuthUserLike = {
   id: string
@@ -18,10 +24,15 @@ type AuthUserLike = {
 type RegistrationMutationRow = {
   id: string
   startDate?: string | Date | null
+  weeks?: number | null
+  discount?: number | null
+  durationUnit?: string | null
   withdrawnAt?: Date | string | null
   transferToId?: string | null
   transferFromId?: string | null
   courseConfigSetName?: string | null
+  courseId?: string | null
+  course?: string | null
 } & Record<string, unknown>
 
 const TRANSFER_MESSAGES = {
@@ -35,6 +46,7 @@ const TRANSFER_MESSAGES = {
   transferRecordMissing: '\uC804\uBC18 \uB4F1\uB85D \uC815\uBCF4\uB97C \uCC3E\uC744 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4.',
   chainedTransfer: '\uC774\uBBF8 \uB2E4\uC74C \uC804\uBC18\uC73C\uB85C \uC5F0\uACB0\uB41C \uB4F1\uB85D\uC785\uB2C8\uB2E4.',
   withdrawnTransfer: '\uC911\uB3C4\uC774\uD0C8\uD55C \uC804\uBC18 \uB4F1\uB85D\uC740 \uCDE8\uC18C\uD560 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4.',
+  transferHasPayments: '\uC218\uB0A9 \uAE30\uB85D\uC774 \uC788\uB294 \uC804\uBC18 \uB4F1\uB85D\uC740 \uCDE8\uC18C\uD560 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4. \uC218\uB0A9 \uAE30\uB85D\uC744 \uBA3C\uC800 \uC815\uB9AC\uD574 \uC8FC\uC138\uC694.',
 } as const;
 
 function fail(statusCode: number, message: string) {
@@ -52,6 +64,7 @@ async function createTransferRouteResult({
   courseId,
   courseConfigSetName,
   nextWeeks,
+  settlementInput,
 }: {
   authUser: AuthUserLike
   id: string
@@ -60,6 +73,7 @@ async function createTransferRouteResult({
   courseId?: string
   courseConfigSetName?: string
   nextWeeks?: number | null
+  settlementInput?: { previousWeeklyFee: number; nextWeeklyFee: number } | null
 }) {
   const existing: RegistrationMutationRow | null = await prisma.registration.findUnique({
     where: { id },
@@ -101,6 +115,33 @@ async function createTransferRouteResult({
     return fail(403, 'Permission denied.');
   }
 
+  let settlement = null;
+  if (settlementInput) {
+    if (existing.durationUnit === 'daily') {
+      return fail(400, TRANSFER_SETTLEMENT_MESSAGES.dailyUnsupported);
+    }
+    const fees = await resolveSettlementFees(settlementInput, {
+      previous: {
+        courseConfigSetName: existing.courseConfigSetName,
+        courseId: existing.courseId,
+        courseName: existing.course,
+      },
+      next: { courseConfigSetName: effectiveSetName, courseId, courseName },
+    });
+    if (fees.error) {
+      return fail(400, fees.error);
+    }
+    // 새 등록과 같은 주수로 정산한다
+    const built = buildSettlementForTransfer(fees.input, {
+      weeks: Number(nextWeeks ?? existing.weeks) || 0,
+      discount: existing.discount,
+    });
+    if (built.error) {
+      return fail(400, built.error);
+    }
+    settlement = built.settlement;
+  }
+
   const created = await createTransferredRegistration({
     existing,
     transferAt,
@@ -108,7 +149,10 @@ async function createTransferRouteResult({
     courseId,
     courseConfigSetName: effectiveSetName || undefined,
     nextWeeks,
+    settlement,
   });
+  // 전반으로 빠진 반의 자리는 대기자에게 넘어간다
+  await promoteWaitlistAfterSeatFreed(existing);
 
   return {
     statusCode: 200,
@@ -119,6 +163,7 @@ async function createTransferRouteResult({
         course: created.course || '',
         startDate: formatDateOnly(created.startDate),
         transferFromId: created.transferFromId || '',
+        transferSettlement: settlement,
       },
     },
   };
@@ -167,6 +212,12 @@ async function cancelTransferRouteResult({
     return fail(403, 'Permission denied.');
   }
 
+  // 전반 등록을 지우면 수납 장부가 끊기므로, 받은 돈이 있으면 취소하지 않는다
+  const paymentCount = await prisma.payment.count({ where: { registrationId: transfer.id } });
+  if (paymentCount > 0) {
+    return fail(409, TRANSFER_MESSAGES.transferHasPayments);
+  }
+
   const restoredEndDate = await cancelTransferredRegistration({
     original,
     transfer,
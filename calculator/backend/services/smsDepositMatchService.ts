@@ -0,0 +1,200 @@
+const { prisma } = require('../db/prisma');
+const { parseDateOnly } = require('../utils/dateUtils');
+const { replaceDepositPayments } = require('./paymentService');
+const { loadTransferSettlementMap } = require('./transferSettlementService');
+const { getRegistrationBaseBill } = require('../shared/paymentBilling');
+const {
+  MATCH_STATUSES,
+  buildDepositorNameVariants,
+  combineMatchScores,
+  resolveMatch,
+  scoreAmount,
+  scoreName,
+  scoreRecency,
+} = require('../shared/smsDepositMatch');
+
+type DepositLike = {
+  id: string
+  depositorName?: string | null
+  amount?: number | null
+  receivedAt?: Date | string | null
+  matchStatus?: string | null
+}
+
+type MatchCandidate = import('../shared/smsDepositMatch').MatchCandidate
+type MatchResult = import('../shared/smsDepositMatch').MatchResult
+
+// 자동 매칭이 다시 실행될 수 있는 상태 (수동 처리된 입금은 건드리지 않음)
+const REMATCHABLE_STATUSES = [MATCH_STATUSES.unmatched, MATCH_STATUSES.ambiguous];
+
+const LOOKBACK_DAYS = 180;
+const LOOKAHEAD_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toFee(value: unknown) {
+  return value !== null && value !== undefined && Number.isFinite(Number(value)) ? Number(value) : null;
+}
+
+/**
+ * 입금받을 금액. 등록은 수납 잔액과 같은 청구 규칙(@shared/paymentBilling)을 쓴다.
+ * 전반으로 만든 등록은 복사된 수강료가 아니라 정산 차액(없으면 0)을 받는다.
+ */
+function getExpectedFee(registration: any, extension: any | null, settlementDifference: number | null) {
+  if (extension) return toFee(extension.tuitionFee);
+  if (!registration.transferFromId && settlementDifference === null) return toFee(registration.tuitionFee);
+  return getRegistrationBaseBill(registration, settlementDifference);
+}
+
+function buildCandidate({
+  deposit,
+  receivedAt,
+  registration,
+  extension,
+  nameScore,
+  settlementDifference,
+}: {
+  deposit: DepositLike
+  receivedAt: Date
+  registration: any
+  extension: any | null
+  nameScore: number
+  settlementDifference: number | null
+}): MatchCandidate {
+  const source = extension || registration;
+  const fee = getExpectedFee(registration, extension, settlementDifference);
+  const referenceDate = parseDateOnly(source.startDate);
+  return {
+    registrationId: registration.id,
+    registrationExtensionId: extension ? extension.id : null,
+    name: registration.name,
+    course: registration.course,
+    fee,
+    referenceDate: referenceDate ? referenceDate.toISOString().slice(0, 10) : '',
+    ...combineMatchScores({
+      nameScore,
+      amountScore: scoreAmount(Number(deposit.amount || 0), fee),
+      recencyScore: scoreRecency(receivedAt, referenceDate),
+    }),
+  };
+}
+
+/**
+ * 입금 1건에 대한 등록/연장 후보를 점수순으로 반환한다.
+ * 퇴원했거나 전반으로 끝난 등록은 더 입금받을 일이 없으므로 후보에서 뺀다.
+ */
+async function findDepositCandidates(deposit: DepositLike): Promise<MatchCandidate[]> {
+  const variants: Array<{ value: string; weight: number }> = buildDepositorNameVariants(deposit.depositorName);
+  if (variants.length === 0) return [];
+
+  const receivedAt = parseDateOnly(deposit.receivedAt) || new Date();
+  const prefixes = Array.from(new Set(variants.map((v) => v.value.slice(0, 2))));
+
+  const registrations = await prisma.registration.findMany({
+    where: {
+      OR: prefixes.map((prefix) => ({ name: { contains: prefix } })),
+      withdrawnAt: null,
+      transferToId: null,
+      AND: [
+        {
+          OR: [
+            { endDate: null },
+            { endDate: { gte: new Date(receivedAt.getTime() - LOOKBACK_DAYS * DAY_MS) } },
+          ],
+        },
+        {
+          OR: [
+            { startDate: null },
+            { startDate: { lte: new Date(receivedAt.getTime() + LOOKAHEAD_DAYS * DAY_MS) } },
+          ],
+        },
+      ],
+    },
+    include: { extensions: true },
+  });
+
+  const named = registrations
+    .map((registration: any) => ({ registration, nameScore: scoreName(deposit.depositorName, registration.name) }))
+    .filter((entry: { nameScore: number }) => entry.nameScore > 0);
+  const settlementMap: Map<string, { difference: number }> = await loadTransferSettlementMap(
+    named
+      .filter((entry: { registration: any }) => entry.registration.transferFromId)
+      .map((entry: { registration: any }) => entry.registration.id)
+  );
+
+  const candidates: MatchCandidate[] = [];
+  for (const { registration, nameScore } of named) {
+    const settlementDifference = settlementMap.get(registration.id)?.difference ?? null;
+    const base = { deposit, receivedAt, registration, nameScore, settlementDifference };
+    candidates.push(buildCandidate({ ...base, extension: null }));
+    for (const extension of registration.extensions || []) {
+      candidates.push(buildCandidate({ ...base, extension }));
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 입금 1건을 자동 매칭하고 결과를 저장한다.
+ * 이미 수동으로 처리된 입금(matched 포함)은 변경하지 않는다.
+ */
+async function matchSmsDeposit(deposit: DepositLike): Promise<MatchResult> {
+  const result = resolveMatch(await findDepositCandidates(deposit));
+  await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const updated = await tx.smsDeposit.updateMany({
+      where: { id: deposit.id, matchStatus: { in: REMATCHABLE_STATUSES } },
+      data: {
+        matchStatus: result.matchStatus,
+        registrationId: result.registrationId,
+        registrationExtensionId: result.registrationExtensionId,
+        matchScore: result.matchScore,
+        matchedAt: result.matchStatus === MATCH_STATUSES.matched ? new Date() : null,
+      },
+    });
+    if (updated.count === 0 || result.matchStatus !== MATCH_STATUSES.matched) return;
+    // 자동 매칭도 수납 기록으로 남긴다
+    await replaceDepositPayments(tx, {
+      deposit: {
+        id: deposit.id,
+        receivedAt: deposit.receivedAt ? new Date(deposit.receivedAt) : null,
+      },
+      entries: [
+        {
+          registrationId: result.registrationId as string,
+          registrationExtensionId: result.registrationExtensionId,
+          amount: Number(deposit.amount || 0),
+        },
+      ],
+      recordedBy: 'system',
+    });
+  });
+  return result;
+}
+
+/**
+ * 미매칭/모호 상태로 남아 있는 입금 전체를 다시 매칭한다.
+ * 담당자가 직접 연결 해제한 입금(handledBy 있음)은 제외한다.
+ */
+async function rematchSmsDeposits({ limit = 500 }: { limit?: number } = {}) {
+  const deposits: DepositLike[] = await prisma.smsDeposit.findMany({
+    where: { matchStatus: { in: REMATCHABLE_STATUSES }, handledBy: null },
+    orderBy: { receivedAt: 'desc' },
+    take: limit,
+  });
+
+  const summary = { processed: 0, matched: 0, ambiguous: 0, unmatched: 0 };
+  for (const deposit of deposits) {
+    const result = await matchSmsDeposit(deposit);
+    summary.processed += 1;
+    summary[result.matchStatus] += 1;
+  }
+  return summary;
+}
+
+module.exports = {
+  MATCH_STATUSES,
+  REMATCHABLE_STATUSES,
+  findDepositCandidates,
+  matchSmsDeposit,
+  rematchSmsDeposits,
+};
@@ -0,0 +1,518 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeStringId } = require('../utils/dateUtils');
+const { parseStrictDateOnly } = require('../utils/parsers');
+const {
+  isCategoryAccessBypassed,
+  isRegistrationAllowed,
+  loadAccessContext,
+} = require('./categoryAccessService');
+const { isRegistrationAccessAllowed } = require('./registrationAccessService');
+const { MATCH_STATUSES, findDepositCandidates } = require('./smsDepositMatchService');
+const { buildTargetKey, loadPaidAmountMap, replaceDepositPayments } = require('./paymentService');
+const { loadTransferSettlementMap } = require('./transferSettlementService');
+const { getBilledAmount, getRegistrationBaseBill } = require('../shared/paymentBilling');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+  role?: string | null
+} & Record<string, unknown>
+
+type AllocationInput = {
+  registrationId?: unknown
+  registrationExtensionId?: unknown
+  amount?: unknown
+}
+
+type PaymentTarget = {
+  registrationId: string
+  registrationExtensionId: string | null
+  name: string
+  course: string
+  courseConfigSetName: string
+  startDate: string
+  endDate: string
+  fee: number
+  paid: number
+  remaining: number
+}
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_LIST_LIMIT = 500;
+const MAX_ALLOCATIONS = 10;
+// 미납 목록은 최근에 끝났거나 진행 중인 등록만 본다
+const UNPAID_LOOKBACK_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ALL_STATUSES = new Set<string>(Object.values(MATCH_STATUSES));
+
+const RECONCILE_MESSAGES = {
+  depositNotFound: '입금 내역을 찾을 수 없습니다.',
+  registrationNotFound: '해당 ID의 등록 정보를 찾을 수 없습니다.',
+  extensionNotFound: '연장 정보를 찾을 수 없습니다.',
+  forbidden: '해당 등록에 대한 권한이 없습니다.',
+  invalidStatus: '입금 상태를 확인해 주세요.',
+  invalidDate: '날짜 형식을 확인해 주세요. (YYYY-MM-DD)',
+  registrationRequired: '연결할 등록을 선택해 주세요.',
+  allocationsRequired: '분할할 등록을 2개 이상 선택해 주세요.',
+  allocationsTooMany: '분할 대상이 너무 많습니다.',
+  invalidAllocationAmount: '분할 금액은 1원 이상이어야 합니다.',
+  allocationSumMismatch: '분할 금액의 합이 입금액과 다릅니다.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatDeposit(row: any) {
+  return {
+    id: row.id,
+    rawBody: row.rawBody,
+    sender: row.sender,
+    bank: row.bank || '',
+    depositorName: row.depositorName,
+    amount: row.amount,
+    balance: row.balance,
+    matchStatus: row.matchStatus,
+    registrationId: row.registrationId,
+    registrationExtensionId: row.registrationExtensionId,
+    matchScore: row.matchScore,
+    matchedAt: row.matchedAt?.toISOString() || '',
+    memo: row.memo || '',
+    handledBy: row.handledBy || '',
+    allocations: (row.allocations || []).map((allocation: any) => ({
+      id: allocation.id,
+      registrationId: allocation.registrationId,
+      registrationExtensionId: allocation.registrationExtensionId,
+      amount: allocation.amount,
+    })),
+    receivedAt: row.receivedAt?.toISOString() || '',
+  };
+}
+
+function parseStatusFilter(value: unknown) {
+  const raw = String(value || '').trim();
+  if (!raw) return { statuses: [] as string[], valid: true };
+  const statuses = raw.split(',').map((s) => s.trim()).filter(Boolean);
+  return { statuses, valid: statuses.every((s) => ALL_STATUSES.has(s)) };
+}
+
+function parseLimit(value: unknown) {
+  const num = Number(value);
+  if (!Number.isInteger(num) || num <= 0) return DEFAULT_LIST_LIMIT;
+  return Math.min(num, MAX_LIST_LIMIT);
+}
+
+async function listSmsDepositsResult(query: Record<string, unknown>) {
+  const from = query.from ? parseStrictDateOnly(query.from) : null;
+  const to = query.to ? parseStrictDateOnly(query.to) : null;
+  if ((query.from && !from) || (query.to && !to)) {
+    return fail(400, RECONCILE_MESSAGES.invalidDate);
+  }
+
+  const { statuses, valid } = parseStatusFilter(query.status);
+  if (!valid) {
+    return fail(400, RECONCILE_MESSAGES.invalidStatus);
+  }
+
+  const depositor = String(query.depositor || '').trim();
+  const where: Record<string, unknown> = {};
+  if (from || to) {
+    where.receivedAt = {
+      ...(from ? { gte: from } : {}),
+      // to는 해당 날짜를 포함
+      ...(to ? { lt: new Date(to.getTime() + DAY_MS) } : {}),
+    };
+  }
+  if (statuses.length) {
+    where.matchStatus = { in: statuses };
+  }
+  if (depositor) {
+    where.depositorName = { contains: depositor };
+  }
+
+  const rows = await prisma.smsDeposit.findMany({
+    where,
+    orderBy: { receivedAt: 'desc' },
+    take: parseLimit(query.limit),
+    include: { allocations: true },
+  });
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', results: rows.map(formatDeposit) },
+  };
+}
+
+async function loadCandidatesResult(id: string) {
+  const deposit = await prisma.smsDeposit.findUnique({ where: { id } });
+  if (!deposit) {
+    return fail(404, RECONCILE_MESSAGES.depositNotFound);
+  }
+  const candidates = await findDepositCandidates(deposit);
+  return {
+    statusCode: 200,
+    body: { status: 'success', results: candidates.slice(0, 10) },
+  };
+}
+
+/**
+ * 연결 대상(등록/연장)을 확인하고 권한을 검사한다.
+ */
+async function resolveTarget(authUser: AuthUserLike, input: AllocationInput) {
+  const registrationId = normalizeStringId(input.registrationId);
+  const registrationExtensionId = normalizeStringId(input.registrationExtensionId) || null;
+  if (!registrationId) {
+    return { error: fail(400, RECONCILE_MESSAGES.registrationRequired) };
+  }
+
+  const registration = await prisma.registration.findUnique({ where: { id: registrationId } });
+  if (!registration) {
+    return { error: fail(404, RECONCILE_MESSAGES.registrationNotFound) };
+  }
+  if (registrationExtensionId) {
+    const extension = await prisma.registrationExtension.findUnique({
+      where: { id: registrationExtensionId },
+    });
+    if (!extension || extension.registrationId !== registrationId) {
+      return { error: fail(404, RECONCILE_MESSAGES.extensionNotFound) };
+    }
+  }
+  if (!(await isRegistrationAccessAllowed(authUser, [registration]))) {
+    return { error: fail(403, RECONCILE_MESSAGES.forbidden) };
+  }
+  return { registrationId, registrationExtensionId };
+}
+
+/**
+ * 입금에 현재 연결된 등록(분할 배분 포함)에 대한 권한을 확인한다.
+ * 연결이 없으면 통과한다.
+ */
+async function checkLinkedAccess(
+  authUser: AuthUserLike,
+  deposit: { id: string; registrationId: string | null }
+) {
+  const allocations = await prisma.smsDepositAllocation.findMany({
+    where: { depositId: deposit.id },
+    select: { registrationId: true },
+  });
+  const registrationIds = Array.from(
+    new Set(
+      [deposit.registrationId, ...allocations.map((row: { registrationId: string }) => row.registrationId)]
+        .filter(Boolean)
+    )
+  );
+  if (!registrationIds.length) return null;
+
+  const registrations = await prisma.registration.findMany({
+    where: { id: { in: registrationIds } },
+  });
+  if (!registrations.length) return null;
+  if (!(await isRegistrationAccessAllowed(authUser, registrations))) {
+    return fail(403, RECONCILE_MESSAGES.forbidden);
+  }
+  return null;
+}
+
+async function linkSmsDepositResult({
+  authUser,
+  id,
+  registrationId,
+  registrationExtensionId,
+}: {
+  authUser: AuthUserLike
+  id: string
+  registrationId: unknown
+  registrationExtensionId?: unknown
+}) {
+  const deposit = await prisma.smsDeposit.findUnique({ where: { id } });
+  if (!deposit) {
+    return fail(404, RECONCILE_MESSAGES.depositNotFound);
+  }
+  const linkedError = await checkLinkedAccess(authUser, deposit);
+  if (linkedError) return linkedError;
+
+  const target = await resolveTarget(authUser, { registrationId, registrationExtensionId });
+  if (target.error) return target.error;
+
+  const updated = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.smsDepositAllocation.deleteMany({ where: { depositId: id } });
+    await replaceDepositPayments(tx, {
+      deposit,
+      entries: [
+        {
+          registrationId: target.registrationId,
+          registrationExtensionId: target.registrationExtensionId,
+          amount: deposit.amount,
+        },
+      ],
+      recordedBy: authUser.username,
+    });
+    return tx.smsDeposit.update({
+      where: { id },
+      data: {
+        matchStatus: MATCH_STATUSES.matched,
+        registrationId: target.registrationId,
+        registrationExtensionId: target.registrationExtensionId,
+        matchScore: null,
+        matchedAt: new Date(),
+        handledBy: authUser.username || null,
+      },
+      include: { allocations: true },
+    });
+  });
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', deposit: formatDeposit(updated) },
+  };
+}
+
+async function unlinkSmsDepositResult({ authUser, id }: { authUser: AuthUserLike; id: string }) {
+  const deposit = await prisma.smsDeposit.findUnique({ where: { id } });
+  if (!deposit) {
+    return fail(404, RECONCILE_MESSAGES.depositNotFound);
+  }
+  const linkedError = await checkLinkedAccess(authUser, deposit);
+  if (linkedError) return linkedError;
+
+  const updated = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.smsDepositAllocation.deleteMany({ where: { depositId: id } });
+    await replaceDepositPayments(tx, { deposit, entries: [] });
+    return tx.smsDeposit.update({
+      where: { id },
+      data: {
+        matchStatus: MATCH_STATUSES.unmatched,
+        registrationId: null,
+        registrationExtensionId: null,
+        matchScore: null,
+        matchedAt: null,
+        memo: '',
+        handledBy: authUser.username || null,
+      },
+      include: { allocations: true },
+    });
+  });
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', deposit: formatDeposit(updated) },
+  };
+}
+
+async function ignoreSmsDepositResult({
+  authUser,
+  id,
+  memo,
+}: {
+  authUser: AuthUserLike
+  id: string
+  memo?: unknown
+}) {
+  const deposit = await prisma.smsDeposit.findUnique({ where: { id } });
+  if (!deposit) {
+    return fail(404, RECONCILE_MESSAGES.depositNotFound);
+  }
+  const linkedError = await checkLinkedAccess(authUser, deposit);
+  if (linkedError) return linkedError;
+
+  const updated = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.smsDepositAllocation.deleteMany({ where: { depositId: id } });
+    await replaceDepositPayments(tx, { deposit, entries: [] });
+    return tx.smsDeposit.update({
+      where: { id },
+      data: {
+        matchStatus: MATCH_STATUSES.ignored,
+        registrationId: null,
+        registrationExtensionId: null,
+        matchScore: null,
+        matchedAt: null,
+        memo: String(memo || '').trim(),
+        handledBy: authUser.username || null,
+      },
+      include: { allocations: true },
+    });
+  });
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', deposit: formatDeposit(updated) },
+  };
+}
+
+/**
+ * 형제 합산 입금 등 한 건의 입금을 여러 등록에 나눠 연결한다.
+ */
+async function splitSmsDepositResult({
+  authUser,
+  id,
+  allocations,
+}: {
+  authUser: AuthUserLike
+  id: string
+  allocations: unknown
+}) {
+  const deposit = await prisma.smsDeposit.findUnique({ where: { id } });
+  if (!deposit) {
+    return fail(404, RECONCILE_MESSAGES.depositNotFound);
+  }
+  const linkedError = await checkLinkedAccess(authUser, deposit);
+  if (linkedError) return linkedError;
+
+  const inputs = Array.isArray(allocations) ? (allocations as AllocationInput[]) : [];
+  if (inputs.length < 2) {
+    return fail(400, RECONCILE_MESSAGES.allocationsRequired);
+  }
+  if (inputs.length > MAX_ALLOCATIONS) {
+    return fail(400, RECONCILE_MESSAGES.allocationsTooMany);
+  }
+
+  const resolved: { registrationId: string; registrationExtensionId: string | null; amount: number }[] = [];
+  for (const input of inputs) {
+    const amount = Number(input?.amount);
+    if (!Number.isInteger(amount) || amount <= 0) {
+      return fail(400, RECONCILE_MESSAGES.invalidAllocationAmount);
+    }
+    const target = await resolveTarget(authUser, input || {});
+    if (target.error) return target.error;
+    resolved.push({
+      registrationId: target.registrationId,
+      registrationExtensionId: target.registrationExtensionId,
+      amount,
+    });
+  }
+
+  const total = resolved.reduce((sum, item) => sum + item.amount, 0);
+  if (total !== deposit.amount) {
+    return fail(400, RECONCILE_MESSAGES.allocationSumMismatch);
+  }
+
+  const updated = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.smsDepositAllocation.deleteMany({ where: { depositId: id } });
+    await tx.smsDepositAllocation.createMany({
+      data: resolved.map((item) => ({
+        id: uuidv4(),
+        depositId: id,
+        registrationId: item.registrationId,
+        registrationExtensionId: item.registrationExtensionId,
+        amount: item.amount,
+      })),
+    });
+    await replaceDepositPayments(tx, {
+      deposit,
+      entries: resolved,
+      recordedBy: authUser.username,
+    });
+    return tx.smsDeposit.update({
+      where: { id },
+      data: {
+        matchStatus: MATCH_STATUSES.split,
+        registrationId: null,
+        registrationExtensionId: null,
+        matchScore: null,
+        matchedAt: new Date(),
+        handledBy: authUser.username || null,
+      },
+      include: { allocations: true },
+    });
+  });
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', deposit: formatDeposit(updated) },
+  };
+}
+
+/**
+ * 청구액이 있지만 수납 합계가 부족한 등록/연장 목록.
+ * 청구액은 수납 기록과 같은 규칙(@shared/paymentBilling)이다. 퇴원 정산된 등록은 확정 수강료 하나로 본다.
+ */
+async function loadUnpaidTargetsResult({ authUser }: { authUser: AuthUserLike }) {
+  const since = new Date(Date.now() - UNPAID_LOOKBACK_DAYS * DAY_MS);
+  const registrations = await prisma.registration.findMany({
+    where: {
+      transferToId: null,
+      AND: [
+        { OR: [{ withdrawnAt: null }, { retainedFee: { not: null } }] },
+        { OR: [{ endDate: null }, { endDate: { gte: since } }] },
+      ],
+    },
+    include: { extensions: true },
+  });
+
+  const bypassCategoryAccess = isCategoryAccessBypassed(authUser);
+  const setNames = registrations
+    .map((row: any) => String(row.courseConfigSetName || '').trim())
+    .filter(Boolean);
+  const { accessMap, indexMap } = await loadAccessContext(
+    authUser.id,
+    setNames,
+    bypassCategoryAccess
+  );
+  const allowed = registrations.filter((row: any) =>
+    isRegistrationAllowed(row, accessMap, indexMap, bypassCategoryAccess)
+  );
+  if (allowed.length === 0) {
+    return { statusCode: 200, body: { status: 'success', results: [] } };
+  }
+
+  const [paidMap, settlementMap]: [Map<string, number>, Map<string, { difference: number }>] =
+    await Promise.all([
+      loadPaidAmountMap(allowed.map((row: any) => row.id)),
+      loadTransferSettlementMap(allowed.filter((row: any) => row.transferFromId).map((row: any) => row.id)),
+    ]);
+
+  const results: PaymentTarget[] = [];
+  const pushTarget = (registration: any, extension: any | null, fee: number, paid: number) => {
+    if (!Number.isFinite(fee) || fee <= 0) return;
+    if (paid >= fee) return;
+    const source = extension || registration;
+    results.push({
+      registrationId: registration.id,
+      registrationExtensionId: extension ? extension.id : null,
+      name: registration.name,
+      course: registration.course,
+      courseConfigSetName: registration.courseConfigSetName || '',
+      startDate: formatDateOnly(source.startDate),
+      endDate: extension ? '' : formatDateOnly(registration.endDate),
+      fee,
+      paid,
+      remaining: fee - paid,
+    });
+  };
+
+  for (const registration of allowed) {
+    const extensions = registration.extensions || [];
+    const getPaid = (extensionId: string | null) =>
+      paidMap.get(buildTargetKey(registration.id, extensionId)) || 0;
+    if (registration.withdrawnAt) {
+      const paid = [null, ...extensions.map((extension: any) => extension.id)]
+        .reduce((sum: number, extensionId: string | null) => sum + getPaid(extensionId), 0);
+      pushTarget(registration, null, getBilledAmount(registration, 0), paid);
+      continue;
+    }
+    const settlementDifference = settlementMap.get(registration.id)?.difference ?? null;
+    pushTarget(registration, null, getRegistrationBaseBill(registration, settlementDifference), getPaid(null));
+    for (const extension of extensions) {
+      pushTarget(registration, extension, Number(extension.tuitionFee || 0), getPaid(extension.id));
+    }
+  }
+
+  results.sort((a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name));
+  return { statusCode: 200, body: { status: 'success', results } };
+}
+
+module.exports = {
+  RECONCILE_MESSAGES,
+  ignoreSmsDepositResult,
+  linkSmsDepositResult,
+  listSmsDepositsResult,
+  loadCandidatesResult,
+  loadUnpaidTargetsResult,
+  splitSmsDepositResult,
+  unlinkSmsDepositResult,
+};
@@ -0,0 +1,158 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { matchSmsDeposit } = require('./smsDepositMatchService');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+const UNPARSED_STATUSES = new Set(['pending', 'resolved', 'dismissed']);
+const MAX_DEPOSITOR_NAME_LENGTH = 20;
+
+const UNPARSED_MESSAGES = {
+  notFound: '미해석 문자를 찾을 수 없습니다.',
+  alreadyHandled: '이미 처리된 문자입니다.',
+  invalidStatus: '문자 상태를 확인해 주세요.',
+  invalidAmount: '입금액은 1원 이상이어야 합니다.',
+  invalidName: '입금자명을 확인해 주세요.',
+} as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatUnparsed(row: any) {
+  return {
+    id: row.id,
+    rawBody: row.rawBody,
+    sender: row.sender,
+    bank: row.bank,
+    status: row.status,
+    depositId: row.depositId,
+    handledBy: row.handledBy || '',
+    receivedAt: row.receivedAt?.toISOString() || '',
+  };
+}
+
+async function listUnparsedResult(query: Record<string, unknown>) {
+  const status = String(query.status || 'pending').trim();
+  if (!UNPARSED_STATUSES.has(status)) {
+    return fail(400, UNPARSED_MESSAGES.invalidStatus);
+  }
+  const rows = await prisma.smsUnparsedMessage.findMany({
+    where: { status },
+    orderBy: { receivedAt: 'desc' },
+    take: 100,
+  });
+  return {
+    statusCode: 200,
+    body: { status: 'success', results: rows.map(formatUnparsed) },
+  };
+}
+
+/**
+ * 담당자가 문자를 읽고 입금자명/금액을 직접 입력해 입금으로 등록한다.
+ */
+async function resolveUnparsedResult({
+  authUser,
+  id,
+  depositorName,
+  amount,
+  balance,
+}: {
+  authUser: AuthUserLike
+  id: string
+  depositorName: unknown
+  amount: unknown
+  balance?: unknown
+}) {
+  const row = await prisma.smsUnparsedMessage.findUnique({ where: { id } });
+  if (!row) {
+    return fail(404, UNPARSED_MESSAGES.notFound);
+  }
+  if (row.status !== 'pending') {
+    return fail(400, UNPARSED_MESSAGES.alreadyHandled);
+  }
+
+  const amountValue = Number(amount);
+  if (!Number.isInteger(amountValue) || amountValue <= 0) {
+    return fail(400, UNPARSED_MESSAGES.invalidAmount);
+  }
+  const name = String(depositorName || '').trim();
+  if (!name || name.length > MAX_DEPOSITOR_NAME_LENGTH) {
+    return fail(400, UNPARSED_MESSAGES.invalidName);
+  }
+  const balanceValue =
+    balance === null || balance === undefined || balance === '' ? null : Number(balance);
+
+  const deposit = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    const created = await tx.smsDeposit.create({
+      data: {
+        id: uuidv4(),
+        rawBody: row.rawBody,
+        sender: row.sender,
+        bank: row.bank,
+        depositorName: name,
+        amount: amountValue,
+        balance: Number.isInteger(balanceValue) ? balanceValue : null,
+        dedupeHash: `unparsed:${row.dedupeHash || row.id}`,
+        matchStatus: 'unmatched',
+        receivedAt: row.receivedAt,
+      },
+    });
+    await tx.smsUnparsedMessage.update({
+      where: { id },
+      data: {
+        status: 'resolved',
+        depositId: created.id,
+        handledBy: authUser.username || null,
+      },
+    });
+    return created;
+  });
+
+  let matchStatus = deposit.matchStatus;
+  try {
+    const match = await matchSmsDeposit(deposit);
+    matchStatus = match.matchStatus;
+  } catch (matchError) {
+    console.error('[SMS] 자동 매칭 오류:', matchError);
+  }
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      deposit: { id: deposit.id, depositorName: name, amount: amountValue, matchStatus },
+    },
+  };
+}
+
+async function dismissUnparsedResult({ authUser, id }: { authUser: AuthUserLike; id: string }) {
+  const row = await prisma.smsUnparsedMessage.findUnique({ where: { id } });
+  if (!row) {
+    return fail(404, UNPARSED_MESSAGES.notFound);
+  }
+  if (row.status !== 'pending') {
+    return fail(400, UNPARSED_MESSAGES.alreadyHandled);
+  }
+  const updated = await prisma.smsUnparsedMessage.update({
+    where: { id },
+    data: { status: 'dismissed', handledBy: authUser.username || null },
+  });
+  return {
+    statusCode: 200,
+    body: { status: 'success', result: formatUnparsed(updated) },
+  };
+}
+
+module.exports = {
+  UNPARSED_MESSAGES,
+  dismissUnparsedResult,
+  listUnparsedResult,
+  resolveUnparsedResult,
+};
@@ -0,0 +1,425 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { formatDateOnly, normalizeCourseConfigSetName, normalizeStringId } = require('../utils/dateUtils');
+const { formatStudentRecord } = require('./studentRouteService');
+const { formatCheckInCode } = require('./attendanceCheckInService');
+const {
+  clusterRegistrations,
+  getStudentNameKey,
+  normalizeStudentName,
+} = require('../shared/studentClustering');
+
+type AuthUserLike = {
+  username?: string | null
+} & Record<string, unknown>
+
+type GuardianInput = {
+  name: string
+  relation: string
+  phone: string
+}
+
+type StudentProfileInput = {
+  name: string
+  school: string
+  grade: string
+  phone: string
+  memo: string
+  guardians: GuardianInput[]
+}
+
+const STUDENT_PROFILE_MESSAGES = {
+  nameRequired: '학생 이름을 입력해 주세요.',
+  tooManyGuardians: '보호자는 5명까지 등록할 수 있습니다.',
+  studentNotFound: '학생 정보를 찾을 수 없습니다.',
+  hasRegistrations: '연결된 등록이 있는 학생은 삭제할 수 없습니다.',
+  registrationsRequired: '연결할 등록을 선택해 주세요.',
+  registrationNotFound: '연결할 등록을 찾을 수 없거나 이미 다른 학생에 연결되어 있습니다.',
+  tooManyRegistrations: '한 번에 200건까지 연결할 수 있습니다.',
+  studentIdNotFound: '연결할 학생을 찾을 수 없습니다.',
+} as const;
+
+const MAX_TEXT_LENGTH = 100;
+const MAX_MEMO_LENGTH = 1000;
+const MAX_GUARDIANS = 5;
+const MAX_STUDENT_LIST = 100;
+const MAX_CLUSTER_REGISTRATIONS = 3000;
+const MAX_LINK_REGISTRATIONS = 200;
+
+const GUARDIAN_ORDER = { orderBy: { sortOrder: 'asc' } } as const;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function parseText(value: unknown, max = MAX_TEXT_LENGTH) {
+  return String(value ?? '').trim().slice(0, max);
+}
+
+/** 전화번호는 숫자와 하이픈만 남긴다 */
+function parsePhone(value: unknown) {
+  return String(value ?? '').replace(/[^0-9-]/g, '').slice(0, 20);
+}
+
+function parseStudentProfileInput(body: Record<string, unknown>):
+  | { error: string; input: null }
+  | { error: null; input: StudentProfileInput } {
+  const name = normalizeStudentName(body?.name).slice(0, MAX_TEXT_LENGTH);
+  if (!name) return { error: STUDENT_PROFILE_MESSAGES.nameRequired, input: null };
+
+  const rawGuardians = Array.isArray(body?.guardians) ? body.guardians : [];
+  if (rawGuardians.length > MAX_GUARDIANS) {
+    return { error: STUDENT_PROFILE_MESSAGES.tooManyGuardians, input: null };
+  }
+  const guardians = rawGuardians
+    .map((raw: unknown) => {
+      const guardian = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+      return {
+        name: parseText(guardian.name),
+        relation: parseText(guardian.relation, 20),
+        phone: parsePhone(guardian.phone),
+      };
+    })
+    .filter((guardian: GuardianInput) => guardian.name || guardian.phone);
+
+  return {
+    error: null,
+    input: {
+      name,
+      school: parseText(body?.school),
+      grade: parseText(body?.grade, 20),
+      phone: parsePhone(body?.phone),
+      memo: parseText(body?.memo, MAX_MEMO_LENGTH),
+      guardians,
+    },
+  };
+}
+
+function buildGuardianRows(studentId: string, guardians: GuardianInput[], timestamp: Date) {
+  return guardians.map((guardian, index) => ({
+    id: uuidv4(),
+    studentId,
+    ...guardian,
+    sortOrder: index,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }));
+}
+
+function formatStudentProfile(row: any) {
+  return {
+    id: row.id,
+    name: row.name,
+    school: row.school || '',
+    grade: row.grade || '',
+    phone: row.phone || '',
+    memo: row.memo || '',
+    guardians: (Array.isArray(row.guardians) ? row.guardians : []).map((guardian: any) => ({
+      id: guardian.id,
+      name: guardian.name || '',
+      relation: guardian.relation || '',
+      phone: guardian.phone || '',
+    })),
+    registrationCount: row._count?.registrations ?? null,
+    createdBy: row.createdBy || '',
+    createdAt: row.createdAt?.toISOString() || '',
+    updatedAt: row.updatedAt?.toISOString() || '',
+  };
+}
+
+/** 연결 전(studentId 없음)이고 실제로 있는 등록 id만 남는지 확인 */
+async function loadUnlinkedRegistrationIds(rawIds: unknown) {
+  const ids: string[] = Array.from(
+    new Set(
+      (Array.isArray(rawIds) ? rawIds : [])
+        .map((id: unknown) => normalizeStringId(id))
+        .filter(Boolean) as string[]
+    )
+  );
+  if (!ids.length) return { error: fail(400, STUDENT_PROFILE_MESSAGES.registrationsRequired), ids: [] };
+  if (ids.length > MAX_LINK_REGISTRATIONS) {
+    return { error: fail(400, STUDENT_PROFILE_MESSAGES.tooManyRegistrations), ids: [] };
+  }
+  const count = await prisma.registration.count({ where: { id: { in: ids }, studentId: null } });
+  if (count !== ids.length) {
+    return { error: fail(409, STUDENT_PROFILE_MESSAGES.registrationNotFound), ids: [] };
+  }
+  return { error: null, ids };
+}
+
+/**
+ * GET /api/student-profiles — 이름·학생/보호자 연락처 검색
+ */
+async function listStudentProfilesResult(query: Record<string, unknown>) {
+  const searchTerm = String(query?.searchTerm ?? '').trim();
+  const phoneTerm = searchTerm.replace(/[^0-9]/g, '');
+  const rows = await prisma.student.findMany({
+    where: searchTerm
+      ? {
+          OR: [
+            { name: { contains: searchTerm, mode: 'insensitive' } },
+            { school: { contains: searchTerm, mode: 'insensitive' } },
+            ...(phoneTerm.length >= 4
+              ? [
+                  { phone: { contains: phoneTerm } },
+                  { guardians: { some: { phone: { contains: phoneTerm } } } },
+                ]
+              : []),
+          ],
+        }
+      : {},
+    include: { guardians: GUARDIAN_ORDER, _count: { select: { registrations: true } } },
+    orderBy: [{ name: 'asc' }, { createdAt: 'asc' }],
+    take: MAX_STUDENT_LIST,
+  });
+  return { statusCode: 200, body: { status: 'success', results: rows.map(formatStudentProfile) } };
+}
+
+/**
+ * GET /api/student-profiles/:id — 학생 정보와 연결된 등록 이력
+ */
+async function getStudentProfileResult(id: unknown) {
+  const studentId = normalizeStringId(id);
+  const row = studentId
+    ? await prisma.student.findUnique({
+        where: { id: studentId },
+        include: {
+          guardians: GUARDIAN_ORDER,
+          registrations: { orderBy: { startDate: 'desc' } },
+          _count: { select: { registrations: true } },
+        },
+      })
+    : null;
+  if (!row) return fail(404, STUDENT_PROFILE_MESSAGES.studentNotFound);
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      student: formatStudentProfile(row),
+      registrations: (row.registrations || []).map(formatStudentRecord),
+      checkInCode: formatCheckInCode(row),
+    },
+  };
+}
+
+/**
+ * POST /api/student-profiles — 학생 생성. registrationIds가 있으면 연결 전 등록을 함께 연결한다.
+ */
+async function createStudentProfileResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+}) {
+  const parsed = parseStudentProfileInput(body);
+  if (!parsed.input) return fail(400, parsed.error);
+
+  const hasRegistrationIds = Array.isArray(body?.registrationIds) && body.registrationIds.length > 0;
+  const linked = hasRegistrationIds ? await loadUnlinkedRegistrationIds(body.registrationIds) : null;
+  if (linked?.error) return linked.error;
+
+  const { guardians, ...profile } = parsed.input;
+  const id = uuidv4();
+  const now = new Date();
+  const row = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.student.create({
+      data: { id, ...profile, createdBy: authUser.username || '', createdAt: now, updatedAt: now },
+    });
+    if (guardians.length) {
+      await tx.studentGuardian.createMany({ data: buildGuardianRows(id, guardians, now) });
+    }
+    if (linked?.ids.length) {
+      await tx.registration.updateMany({
+        where: { id: { in: linked.ids }, studentId: null },
+        data: { studentId: id },
+      });
+    }
+    return tx.student.findUnique({
+      where: { id },
+      include: { guardians: GUARDIAN_ORDER, _count: { select: { registrations: true } } },
+    });
+  });
+
+  return { statusCode: 201, body: { status: 'success', student: formatStudentProfile(row) } };
+}
+
+/**
+ * PUT /api/student-profiles/:id — 보호자는 보낸 목록으로 바꾼다. 이름이 바뀌면 연결된 등록 이름도 맞춘다.
+ */
+async function updateStudentProfileResult({ id, body }: { id: unknown; body: Record<string, unknown> }) {
+  const studentId = normalizeStringId(id);
+  const existing = studentId ? await prisma.student.findUnique({ where: { id: studentId } }) : null;
+  if (!existing) return fail(404, STUDENT_PROFILE_MESSAGES.studentNotFound);
+
+  const parsed = parseStudentProfileInput(body);
+  if (!parsed.input) return fail(400, parsed.error);
+
+  const { guardians, ...profile } = parsed.input;
+  const now = new Date();
+  const row = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    await tx.student.update({ where: { id: existing.id }, data: { ...profile, updatedAt: now } });
+    await tx.studentGuardian.deleteMany({ where: { studentId: existing.id } });
+    if (guardians.length) {
+      await tx.studentGuardian.createMany({ data: buildGuardianRows(existing.id, guardians, now) });
+    }
+    if (profile.name !== existing.name) {
+      await tx.registration.updateMany({
+        where: { studentId: existing.id },
+        data: { name: profile.name, updatedAt: now },
+      });
+    }
+    return tx.student.findUnique({
+      where: { id: existing.id },
+      include: { guardians: GUARDIAN_ORDER, _count: { select: { registrations: true } } },
+    });
+  });
+
+  return { statusCode: 200, body: { status: 'success', student: formatStudentProfile(row) } };
+}
+
+async function deleteStudentProfileResult(id: unknown) {
+  const studentId = normalizeStringId(id);
+  const existing = studentId
+    ? await prisma.student.findUnique({
+        where: { id: studentId },
+        include: { _count: { select: { registrations: true } } },
+      })
+    : null;
+  if (!existing) return fail(404, STUDENT_PROFILE_MESSAGES.studentNotFound);
+  if (existing._count?.registrations > 0) return fail(409, STUDENT_PROFILE_MESSAGES.hasRegistrations);
+
+  await prisma.student.delete({ where: { id: existing.id } });
+  return { statusCode: 200, body: { status: 'success' } };
+}
+
+/**
+ * POST /api/student-profiles/:id/registrations — 연결 전 등록을 기존 학생에 붙인다 (묶음 확인).
+ */
+async function linkStudentRegistrationsResult({ id, body }: { id: unknown; body: Record<string, unknown> }) {
+  const studentId = normalizeStringId(id);
+  const student = studentId ? await prisma.student.findUnique({ where: { id: studentId } }) : null;
+  if (!student) return fail(404, STUDENT_PROFILE_MESSAGES.studentNotFound);
+
+  const linked = await loadUnlinkedRegistrationIds(body?.registrationIds);
+  if (linked.error) return linked.error;
+
+  const result = await prisma.registration.updateMany({
+    where: { id: { in: linked.ids }, studentId: null },
+    data: { studentId: student.id },
+  });
+  return { statusCode: 200, body: { status: 'success', count: result.count } };
+}
+
+/**
+ * DELETE /api/student-profiles/:id/registrations/:registrationId — 잘못 묶인 등록을 떼어 다시 정리 대상으로 돌린다.
+ */
+async function unlinkStudentRegistrationResult({
+  id,
+  registrationId,
+}: {
+  id: unknown
+  registrationId: unknown
+}) {
+  const studentId = normalizeStringId(id);
+  const targetId = normalizeStringId(registrationId);
+  if (!studentId || !targetId) return fail(404, STUDENT_PROFILE_MESSAGES.registrationNotFound);
+  const result = await prisma.registration.updateMany({
+    where: { id: targetId, studentId },
+    data: { studentId: null },
+  });
+  if (!result.count) return fail(404, STUDENT_PROFILE_MESSAGES.registrationNotFound);
+  return { statusCode: 200, body: { status: 'success' } };
+}
+
+/**
+ * GET /api/student-profiles/clusters — 학생 연결 전 등록을 이름별로 묶은 후보와, 이름이 같은 기존 학생
+ */
+async function listStudentClustersResult(query: Record<string, unknown>) {
+  const courseConfigSetName = normalizeCourseConfigSetName(query?.courseConfigSetName);
+  const rows = await prisma.registration.findMany({
+    where: { studentId: null, ...(courseConfigSetName ? { courseConfigSetName } : {}) },
+    select: {
+      id: true,
+      name: true,
+      course: true,
+      courseId: true,
+      courseConfigSetName: true,
+      startDate: true,
+      endDate: true,
+      withdrawnAt: true,
+      transferFromId: true,
+      transferToId: true,
+    },
+    orderBy: { startDate: 'asc' },
+    take: MAX_CLUSTER_REGISTRATIONS,
+  });
+
+  const clusters = clusterRegistrations(
+    rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      course: row.course || '',
+      courseId: row.courseId || '',
+      courseConfigSetName: row.courseConfigSetName || '',
+      startDate: formatDateOnly(row.startDate),
+      endDate: formatDateOnly(row.endDate),
+      withdrawnAt: formatDateOnly(row.withdrawnAt),
+      transferFromId: row.transferFromId || null,
+      transferToId: row.transferToId || null,
+    }))
+  );
+
+  const names: string[] = Array.from(new Set(clusters.map((cluster: { name: string }) => cluster.name)));
+  const candidates = names.length
+    ? await prisma.student.findMany({
+        where: { name: { in: names } },
+        include: { guardians: GUARDIAN_ORDER, _count: { select: { registrations: true } } },
+        orderBy: { createdAt: 'asc' },
+      })
+    : [];
+  const candidatesByKey = new Map<string, any[]>();
+  for (const candidate of candidates) {
+    const key = getStudentNameKey(candidate.name);
+    candidatesByKey.set(key, [...(candidatesByKey.get(key) || []), formatStudentProfile(candidate)]);
+  }
+
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      truncated: rows.length >= MAX_CLUSTER_REGISTRATIONS,
+      results: clusters.map((cluster: { key: string }) => ({
+        ...cluster,
+        candidates: candidatesByKey.get(cluster.key) || [],
+      })),
+    },
+  };
+}
+
+/** /api/students 저장 기록의 studentId가 모두 있는 학생인지 */
+async function findMissingStudentIds(records: Array<Record<string, unknown>>) {
+  const ids: string[] = Array.from(
+    new Set(records.map((record) => normalizeStringId(record?.studentId)).filter(Boolean) as string[])
+  );
+  if (!ids.length) return [];
+  const rows = await prisma.student.findMany({ where: { id: { in: ids } }, select: { id: true } });
+  const found = new Set(rows.map((row: { id: string }) => row.id));
+  return ids.filter((id) => !found.has(id));
+}
+
+module.exports = {
+  STUDENT_PROFILE_MESSAGES,
+  createStudentProfileResult,
+  deleteStudentProfileResult,
+  findMissingStudentIds,
+  getStudentProfileResult,
+  linkStudentRegistrationsResult,
+  listStudentClustersResult,
+  listStudentProfilesResult,
+  unlinkStudentRegistrationResult,
+  updateStudentProfileResult,
+};
@@ -1,11 +1,18 @@
 const { v4: uuidv4 } = require('uuid');
 
 const { prisma } = require('../db/prisma');
-const { formatDateOnly, parseDateOnly, normalizeCourseId, normalizeCourseConfigSetName } = require('../utils/dateUtils');
+const {
+  formatDateOnly,
+  parseDateOnly,
+  normalizeCourseId,
+  normalizeCourseConfigSetName,
+  normalizeStringId,
+} = require('../utils/dateUtils');
 const {
   parseWeeks,
   parseTuitionFee,
   parseDiscount,
+  parseAppliedDiscountRuleIds,
   parseSkipWeeks,
   normalizeRecordingDates,
   parseExcludeMath,
@@ -17,6 +24,7 @@ type RegistrationRow = {
   course?: string
   courseId?: string
   courseConfigSetName?: string
+  studentId?: string | null
   startDate?: Date | string | null
   endDate?: Date | string | null
   withdrawnAt?: Date | string | null
@@ -36,6 +44,7 @@ type StudentRecordInput = Record<string, unknown> & {
   course?: string
   courseId?: string
   courseConfigSetName?: string
+  studentId?: unknown
   startDate?: unknown
   endDate?: unknown
   withdrawnAt?: unknown
@@ -46,6 +55,13 @@ type StudentRecordInput = Record<string, unknown> & {
   recordingDates?: unknown
 }
 
+const MAX_OPTION_LABEL_LENGTH = 50;
+
+/** 수업 형태/시간 선택 라벨 (정원 집계용) */
+function parseOptionLabel(value: unknown) {
+  return String(value ?? '').trim().slice(0, MAX_OPTION_LABEL_LENGTH);
+}
+
 function buildCourseIdentity(courseId: unknown, courseName: unknown) {
   const id = normalizeCourseId(courseId);
   if (id) return `id:${id}`;
@@ -122,6 +138,7 @@ function formatStudentRecord(row: RegistrationRow) {
     course: row.course || '',
     courseId: row.courseId || '',
     courseConfigSetName: row.courseConfigSetName || '',
+    studentId: row.studentId || null,
     startDate: formatDateOnly(row.startDate),
     endDate: formatDateOnly(row.endDate),
     withdrawnAt: formatDateOnly(row.withdrawnAt),
@@ -131,8 +148,12 @@ function formatStudentRecord(row: RegistrationRow) {
     durationUnit: (row as Record<string, unknown>).durationUnit || 'weekly',
     weeks: row.weeks !== null && row.weeks !== undefined ? String(row.weeks) : '',
     tuitionFee: row.tuitionFee ?? null,
+    expectedTuitionFee: (row as any).expectedTuitionFee ?? null,
     discount: (row as any).discount ?? 0,
+    appliedDiscountRuleIds: Array.isArray((row as any).appliedDiscountRuleIds) ? (row as any).appliedDiscountRuleIds : [],
     excludeMath: !!row.excludeMath,
+    courseType: (row as any).courseType || '',
+    timeOption: (row as any).timeOption || '',
     selectedDates: Array.isArray((row as any).selectedDates) ? (row as any).selectedDates.filter(Boolean) : [],
     recordingDates: Array.isArray(row.recordingDates) ? row.recordingDates.filter(Boolean) : [],
     skipWeeks: Array.isArray(row.skipWeeks)
@@ -145,12 +166,47 @@ function formatStudentResults(rows: RegistrationRow[]) {
   return rows.map((row: RegistrationRow) => formatStudentRecord(row));
 }
 
+/**
+ * 중복 검사용 키. 학생에 연결된 등록은 학생 id로, 연결 전 등록은 이름으로 묶는다.
+ * 동명이인이 다른 학생으로 연결되어 있으면 같은 과목이어도 중복이 아니다.
+ */
+function buildDuplicateKey(configSetName: unknown, owner: string, courseIdentity: string) {
+  return `${configSetName || ''}||${owner}||${courseIdentity}`;
+}
+
 function buildExistingStudentMap(existingRows: RegistrationRow[]) {
-  return new Map<string, RegistrationRow>(
-    existingRows.map((row: RegistrationRow) => [
-      `${row.courseConfigSetName || ''}||${row.name}||${buildCourseIdentity(row.courseId, row.course)}`,
-      row,
-    ])
+  const map = new Map<string, RegistrationRow>();
+  for (const row of existingRows) {
+    const courseIdentity = buildCourseIdentity(row.courseId, row.course);
+    if (row.studentId) {
+      map.set(buildDuplicateKey(row.courseConfigSetName, `student:${row.studentId}`, courseIdentity), row);
+      map.set(buildDuplicateKey(row.courseConfigSetName, `name:${row.name}`, courseIdentity), row);
+    } else {
+      map.set(buildDuplicateKey(row.courseConfigSetName, `unassigned:${row.name}`, courseIdentity), row);
+    }
+  }
+  return map;
+}
+
+function findExistingStudent(
+  record: StudentRecordInput,
+  configSetName: string,
+  courseIdentity: string,
+  existingByKey: Map<string, RegistrationRow>
+) {
+  const studentId = normalizeStringId(record.studentId);
+  const unassigned = existingByKey.get(
+    buildDuplicateKey(configSetName, `unassigned:${record.name}`, courseIdentity)
+  );
+  if (studentId) {
+    return (
+      existingByKey.get(buildDuplicateKey(configSetName, `student:${studentId}`, courseIdentity)) ||
+      unassigned
+    );
+  }
+  return (
+    unassigned ||
+    existingByKey.get(buildDuplicateKey(configSetName, `name:${record.name}`, courseIdentity))
   );
 }
 
@@ -163,9 +219,7 @@ function findStudentDuplicates(
   for (const newRecord of newRecords) {
     const configSetName = normalizeCourseConfigSetName(newRecord.courseConfigSetName) || '';
     const courseIdentity = buildCourseIdentity(newRecord.courseId, newRecord.course);
-    const existing = existingByKey.get(
-      `${configSetName}||${newRecord.name}||${courseIdentity}`
-    );
+    const existing = findExistingStudent(newRecord, configSetName, courseIdentity, existingByKey);
     if (!existing) continue;
 
     duplicates.push({
@@ -180,10 +234,57 @@ function findStudentDuplicates(
   return duplicates;
 }
 
-function buildStudentCreateRows(newRecords: StudentRecordInput[], timestamp: Date) {
+// 바뀌면 수강료를 다시 확인해야 하는 필드
+const FEE_FIELDS = [
+  'tuitionFee',
+  'courseId',
+  'courseConfigSetName',
+  'weeks',
+  'durationUnit',
+  'discount',
+  'courseType',
+  'recordingDates',
+  'excludeMath',
+  'selectedDates',
+  'startDate',
+] as const;
+
+function hasFeeFieldChange(updateRecord: StudentRecordInput) {
+  return FEE_FIELDS.some((field) => Object.prototype.hasOwnProperty.call(updateRecord, field));
+}
+
+/**
+ * 수정 요청으로 수강료를 확인할 기록. 요청에 없는 필드는 기존 등록 값을 쓴다.
+ * 일부 필드만 보내도 과목·기간이 빠져 검증을 건너뛰지 않게 한다.
+ */
+function buildFeeCheckRecord(existing: RegistrationRow, updateRecord: StudentRecordInput): StudentRecordInput {
+  return {
+    courseId: existing.courseId,
+    courseConfigSetName: existing.courseConfigSetName,
+    weeks: existing.weeks,
+    durationUnit: existing.durationUnit,
+    tuitionFee: existing.tuitionFee,
+    discount: existing.discount,
+    courseType: existing.courseType,
+    recordingDates: existing.recordingDates,
+    excludeMath: existing.excludeMath,
+    selectedDates: existing.selectedDates,
+    startDate: formatDateOnly(existing.startDate),
+    ...updateRecord,
+  };
+}
+
+/**
+ * expectedFeeByIndex: 수강료 불일치를 확인하고 저장한 기록의 서버 계산 수강료 (index 기준)
+ */
+function buildStudentCreateRows(
+  newRecords: StudentRecordInput[],
+  timestamp: Date,
+  expectedFeeByIndex: Map<number, number> = new Map()
+) {
   const createdIds: string[] = [];
 
-  const rowsToCreate = newRecords.map((record: StudentRecordInput) => {
+  const rowsToCreate = newRecords.map((record: StudentRecordInput, index: number) => {
     const id = uuidv4();
     createdIds.push(id);
 
@@ -194,16 +295,21 @@ function buildStudentCreateRows(newRecords: StudentRecordInput[], timestamp: Dat
       course: record.course,
       courseId: normalizeCourseId(record.courseId),
       courseConfigSetName: normalizeCourseConfigSetName(record.courseConfigSetName),
+      studentId: normalizeStringId(record.studentId),
       startDate: parseDateOnly(record.startDate),
       endDate: parseDateOnly(record.endDate),
       withdrawnAt: parseDateOnly(record.withdrawnAt),
       weeks: parseWeeks(record.weeks),
       durationUnit: record.durationUnit === 'daily' ? 'daily' : 'weekly',
       tuitionFee: parseTuitionFee(record.tuitionFee),
+      expectedTuitionFee: expectedFeeByIndex.get(index) ?? null,
       discount: parseDiscount(record.discount),
+      appliedDiscountRuleIds: parseAppliedDiscountRuleIds(record.appliedDiscountRuleIds),
       skipWeeks: parseSkipWeeks(record.skipWeeks),
       selectedDates: Array.isArray(record.selectedDates) ? record.selectedDates.filter((d: unknown) => typeof d === 'string' && d) : [],
       excludeMath: parseExcludeMath(record.excludeMath),
+      courseType: parseOptionLabel(record.courseType),
+      timeOption: parseOptionLabel(record.timeOption),
       recordingDates: normalizeRecordingDates(record.recordingDates),
       createdAt: timestamp,
       updatedAt: timestamp,
@@ -213,7 +319,14 @@ function buildStudentCreateRows(newRecords: StudentRecordInput[], timestamp: Dat
   return { createdIds, rowsToCreate };
 }
 
-function buildStudentUpdateData(updateRecord: StudentRecordInput, timestamp: Date) {
+/**
+ * expectedTuitionFee: 수강료를 다시 확인한 경우 서버 계산 수강료(일치하면 null). 확인하지 않았으면 undefined
+ */
+function buildStudentUpdateData(
+  updateRecord: StudentRecordInput,
+  timestamp: Date,
+  expectedTuitionFee?: number | null
+) {
   const hasCourseConfigSetName = Object.prototype.hasOwnProperty.call(
     updateRecord,
     'courseConfigSetName'
@@ -232,16 +345,31 @@ function buildStudentUpdateData(updateRecord: StudentRecordInput, timestamp: Dat
     ...(hasCourseConfigSetName
       ? { courseConfigSetName: normalizeCourseConfigSetName(updateRecord.courseConfigSetName) }
       : {}),
+    ...(Object.prototype.hasOwnProperty.call(updateRecord, 'studentId')
+      ? { studentId: normalizeStringId(updateRecord.studentId) }
+      : {}),
     startDate: parseDateOnly(updateRecord.startDate),
     endDate: parseDateOnly(updateRecord.endDate),
     weeks: parseWeeks(updateRecord.weeks),
     ...(updateRecord.durationUnit ? { durationUnit: updateRecord.durationUnit === 'daily' ? 'daily' : 'weekly' } : {}),
     ...(hasTuitionFee ? { tuitionFee: parseTuitionFee(updateRecord.tuitionFee) } : {}),
+    ...(hasTuitionFee || expectedTuitionFee !== undefined
+      ? { expectedTuitionFee: expectedTuitionFee ?? null }
+      : {}),
     ...(Object.prototype.hasOwnProperty.call(updateRecord, 'discount') ? { discount: parseDiscount(updateRecord.discount) } : {}),
+    ...(Object.prototype.hasOwnProperty.call(updateRecord, 'appliedDiscountRuleIds')
+      ? { appliedDiscountRuleIds: parseAppliedDiscountRuleIds(updateRecord.appliedDiscountRuleIds) }
+      : {}),
     ...(hasWithdrawnAt ? { withdrawnAt: parseDateOnly(updateRecord.withdrawnAt) } : {}),
     ...(hasSkipWeeks ? { skipWeeks: parseSkipWeeks(updateRecord.skipWeeks) } : {}),
     ...(Array.isArray(updateRecord.selectedDates) ? { selectedDates: updateRecord.selectedDates.filter((d: unknown) => typeof d === 'string' && d) } : {}),
     ...(hasExcludeMath ? { excludeMath: parseExcludeMath(updateRecord.excludeMath) } : {}),
+    ...(Object.prototype.hasOwnProperty.call(updateRecord, 'courseType')
+      ? { courseType: parseOptionLabel(updateRecord.courseType) }
+      : {}),
+    ...(Object.prototype.hasOwnProperty.call(updateRecord, 'timeOption')
+      ? { timeOption: parseOptionLabel(updateRecord.timeOption) }
+      : {}),
     recordingDates: normalizeRecordingDates(updateRecord.recordingDates),
     updatedAt: timestamp,
   };
@@ -250,10 +378,12 @@ function buildStudentUpdateData(updateRecord: StudentRecordInput, timestamp: Dat
 module.exports = {
   buildCourseIdentity,
   buildExistingStudentMap,
+  buildFeeCheckRecord,
   buildStudentCreateRows,
   buildStudentUpdateData,
   buildStudentWhereClause,
   findStudentDuplicates,
   formatStudentRecord,
   formatStudentResults,
+  hasFeeFieldChange,
 };
@@ -0,0 +1,134 @@
+const { prisma } = require('../db/prisma');
+const { normalizeCourseId } = require('../utils/dateUtils');
+const { getCourseBaseFee } = require('../shared/feeEngine');
+const { loadCourseInfoMap } = require('./quoteService');
+const {
+  TRANSFER_SETTLEMENT_MESSAGES,
+  buildTransferSettlement,
+  getTransferSettlementError,
+} = require('../shared/transferSettlement');
+
+type TransferSettlement = import('../shared/transferSettlement').TransferSettlement
+
+type SettlementRow = TransferSettlement & {
+  id: string
+  fromRegistrationId: string
+  toRegistrationId: string
+  createdAt?: Date | null
+}
+
+type SettlementFeeInput = {
+  previousWeeklyFee: number
+  nextWeeklyFee: number
+}
+
+type SettlementCourse = {
+  courseConfigSetName?: string | null
+  courseId?: string | null
+  courseName?: string | null
+}
+
+function formatTransferSettlement(row: SettlementRow) {
+  return {
+    id: row.id,
+    fromRegistrationId: row.fromRegistrationId,
+    toRegistrationId: row.toRegistrationId,
+    weeks: row.weeks,
+    previousWeeklyFee: row.previousWeeklyFee,
+    nextWeeklyFee: row.nextWeeklyFee,
+    discount: row.discount,
+    previousAmount: row.previousAmount,
+    nextAmount: row.nextAmount,
+    difference: row.difference,
+    createdAt: row.createdAt ? row.createdAt.toISOString() : '',
+  };
+}
+
+/** 전반으로 만든 등록 ID별 정산. 정산 없이 전반한 등록은 빠진다. */
+async function loadTransferSettlementMap(registrationIds: Array<string | null | undefined>) {
+  const ids = Array.from(new Set((registrationIds || []).filter(Boolean).map((id) => String(id))));
+  const map = new Map<string, ReturnType<typeof formatTransferSettlement>>();
+  if (!ids.length) return map;
+
+  const rows: SettlementRow[] = await prisma.registrationTransferSettlement.findMany({
+    where: { toRegistrationId: { in: ids } },
+  });
+  for (const row of rows) {
+    map.set(row.toRegistrationId, formatTransferSettlement(row));
+  }
+  return map;
+}
+
+/**
+ * 전반 요청 본문의 settlement(주당 수강료 두 개)를 읽는다.
+ * 값이 없으면 정산 없이 전반하고, 형식이 틀리면 안내 문구를 돌려준다.
+ * 금액은 resolveSettlementFees가 과목 설정과 맞춰 본 뒤에만 쓴다.
+ */
+function parseTransferSettlementInput(value: unknown): { input: SettlementFeeInput | null; error?: string } {
+  if (value === null || value === undefined || value === '') return { input: null };
+  if (typeof value !== 'object') return { input: null, error: TRANSFER_SETTLEMENT_MESSAGES.invalidWeeklyFee };
+  const raw = value as Record<string, unknown>;
+  const input = {
+    previousWeeklyFee: Number(raw.previousWeeklyFee),
+    nextWeeklyFee: Number(raw.nextWeeklyFee),
+  };
+  const error = getTransferSettlementError({ weeks: 1, ...input });
+  return error ? { input: null, error } : { input };
+}
+
+/**
+ * 과목 설정의 주당 수강료. 과목 ID가 없으면 과목 이름이 가장 길게 겹치는 설정 키를 쓴다.
+ * 못 찾으면 0.
+ */
+async function loadCourseWeeklyFee({ courseConfigSetName, courseId, courseName }: SettlementCourse) {
+  const courseInfo = await loadCourseInfoMap(courseConfigSetName);
+  if (!courseInfo) return 0;
+  let courseKey = normalizeCourseId(courseId);
+  if (!courseKey || !courseInfo[courseKey]) {
+    const name = String(courseName || '').trim();
+    courseKey = Object.keys(courseInfo)
+      .filter((key) => name && name.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+  if (!courseKey) return 0;
+  return Number(getCourseBaseFee(courseInfo, { courseKey, period: 1 }) || 0);
+}
+
+/**
+ * 이전·새 과목 주당 수강료를 서버의 과목 설정에서 다시 구한다.
+ * 요청에 담긴 값이 설정과 다르면(화면이 오래됐거나 값을 고친 경우) 정산하지 않고 안내 문구를 돌려준다.
+ */
+async function resolveSettlementFees(
+  input: SettlementFeeInput,
+  { previous, next }: { previous: SettlementCourse; next: SettlementCourse }
+): Promise<{ input: SettlementFeeInput | null; error?: string }> {
+  const [previousWeeklyFee, nextWeeklyFee] = await Promise.all([
+    loadCourseWeeklyFee(previous),
+    loadCourseWeeklyFee(next),
+  ]);
+  if (previousWeeklyFee <= 0 || nextWeeklyFee <= 0) {
+    return { input: null, error: TRANSFER_SETTLEMENT_MESSAGES.weeklyFeeNotFound };
+  }
+  if (input.previousWeeklyFee !== previousWeeklyFee || input.nextWeeklyFee !== nextWeeklyFee) {
+    return { input: null, error: TRANSFER_SETTLEMENT_MESSAGES.weeklyFeeMismatch };
+  }
+  return { input: { previousWeeklyFee, nextWeeklyFee } };
+}
+
+/** 전반하는 주수·등록 할인율로 정산 금액을 계산한다. */
+function buildSettlementForTransfer(
+  input: SettlementFeeInput,
+  { weeks, discount }: { weeks: number; discount?: number | null }
+) {
+  const error = getTransferSettlementError({ weeks, ...input });
+  if (error) return { settlement: null, error };
+  return { settlement: buildTransferSettlement({ weeks, discount, ...input }) as TransferSettlement };
+}
+
+module.exports = {
+  buildSettlementForTransfer,
+  formatTransferSettlement,
+  loadTransferSettlementMap,
+  parseTransferSettlementInput,
+  resolveSettlementFees,
+};
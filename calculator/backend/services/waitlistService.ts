@@ -0,0 +1,351 @@
+const { v4: uuidv4 } = require('uuid');
+const { prisma } = require('../db/prisma');
+const { normalizeCourseConfigSetName, normalizeCourseId, normalizeStringId } = require('../utils/dateUtils');
+const { parseTuitionFee } = require('../utils/parsers');
+const { getClassSlotKey, toClassSlot } = require('../shared/classCapacity');
+const { buildCapacityFailure, findCapacityOverflows } = require('./capacityService');
+const { findFeeMismatches } = require('./quoteService');
+const { sanitizeAppliedDiscountRuleIds } = require('./discountRuleService');
+const {
+  buildExistingStudentMap,
+  buildStudentCreateRows,
+  findStudentDuplicates,
+} = require('./studentRouteService');
+
+type AuthUserLike = {
+  id: string
+  username?: string | null
+} & Record<string, unknown>
+
+type WaitlistRecord = Record<string, unknown> & {
+  name?: unknown
+  course?: unknown
+  courseId?: unknown
+  courseConfigSetName?: unknown
+  courseType?: unknown
+  timeOption?: unknown
+}
+
+type SeatFreedRegistration = {
+  courseId?: string | null
+  courseConfigSetName?: string | null
+  courseType?: string | null
+  timeOption?: string | null
+}
+
+const WAITLIST_STATUS = {
+  waiting: 'waiting',
+  converted: 'converted',
+  cancelled: 'cancelled',
+} as const;
+
+const WAITLIST_MESSAGES = {
+  recordsRequired: '대기 등록할 과목이 없습니다.',
+  tooManyRecords: '대기 등록은 한 번에 20건까지 할 수 있습니다.',
+  invalidRecord: '대기 등록 정보(이름, 과목, 설정 세트)를 확인해 주세요.',
+  alreadyWaiting: '이미 같은 반 대기 명단에 있는 학생입니다.',
+  entryNotFound: '대기 항목을 찾을 수 없습니다.',
+  notWaiting: '대기 중인 항목만 처리할 수 있습니다.',
+  duplicateRegistration: '이미 같은 과목에 등록된 학생입니다.',
+} as const;
+
+const MAX_WAITLIST_RECORDS = 20;
+const MAX_WAITLIST_LIST = 300;
+const MAX_WAITLIST_MEMO_LENGTH = 500;
+
+function fail(statusCode: number, message: string) {
+  return {
+    statusCode,
+    body: { status: 'fail', message },
+  };
+}
+
+function formatWaitlistEntry(row: any, position: number | null = null) {
+  return {
+    id: row.id,
+    studentName: row.studentName,
+    course: row.course,
+    courseId: row.courseId,
+    courseConfigSetName: row.courseConfigSetName,
+    courseType: row.courseType || '',
+    timeOption: row.timeOption || '',
+    tuitionFee: parseTuitionFee((row.record as Record<string, unknown> | null)?.tuitionFee),
+    status: row.status,
+    position,
+    memo: row.memo || '',
+    createdBy: row.createdBy || '',
+    registrationId: row.registrationId || null,
+    convertedAt: row.convertedAt?.toISOString() || '',
+    cancelledAt: row.cancelledAt?.toISOString() || '',
+    createdAt: row.createdAt?.toISOString() || '',
+  };
+}
+
+/** 대기 중인 항목에 반별 순번(1부터)을 붙인다. 먼저 들어온 순서. */
+function buildWaitlistPositions(rows: any[]) {
+  const counters = new Map<string, number>();
+  const positions = new Map<string, number>();
+  const waiting = rows
+    .filter((row) => row.status === WAITLIST_STATUS.waiting)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const row of waiting) {
+    const key = `${row.courseConfigSetName}|${getClassSlotKey(row)}`;
+    const next = (counters.get(key) ?? 0) + 1;
+    counters.set(key, next);
+    positions.set(row.id, next);
+  }
+  return positions;
+}
+
+async function listWaitlistResult(query: Record<string, unknown>) {
+  const courseConfigSetName = normalizeCourseConfigSetName(query?.courseConfigSetName);
+  const status = String(query?.status ?? WAITLIST_STATUS.waiting).trim();
+  const rows = await prisma.waitlistEntry.findMany({
+    where: {
+      ...(courseConfigSetName ? { courseConfigSetName } : {}),
+      ...(Object.values(WAITLIST_STATUS).includes(status as any) ? { status } : {}),
+    },
+    orderBy: { createdAt: 'asc' },
+    take: MAX_WAITLIST_LIST,
+  });
+  const positions = buildWaitlistPositions(rows);
+  return {
+    statusCode: 200,
+    body: {
+      status: 'success',
+      results: rows.map((row: any) => formatWaitlistEntry(row, positions.get(row.id) ?? null)),
+    },
+  };
+}
+
+function normalizeWaitlistRecord(raw: unknown): WaitlistRecord | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as WaitlistRecord;
+  const name = String(record.name ?? '').trim();
+  const course = String(record.course ?? '').trim();
+  const courseId = normalizeCourseId(record.courseId);
+  const courseConfigSetName = normalizeCourseConfigSetName(record.courseConfigSetName);
+  if (!name || !course || !courseId || !courseConfigSetName) return null;
+  // 등록 전환 때 새로 확인하므로 확인 플래그는 남기지 않는다
+  const { allowOverCapacity: _allowOverCapacity, id: _id, ...rest } = record;
+  return { ...rest, name, course, courseId, courseConfigSetName };
+}
+
+/**
+ * 정원이 찬 반에 대기 등록. 기록은 등록 전환 때 그대로 /api/students 기록으로 쓴다.
+ */
+async function createWaitlistEntriesResult({
+  authUser,
+  body,
+}: {
+  authUser: AuthUserLike
+  body: Record<string, unknown>
+}) {
+  const rawRecords = Array.isArray(body?.records) ? body.records : [];
+  if (!rawRecords.length) return fail(400, WAITLIST_MESSAGES.recordsRequired);
+  if (rawRecords.length > MAX_WAITLIST_RECORDS) return fail(400, WAITLIST_MESSAGES.tooManyRecords);
+
+  const records = rawRecords.map(normalizeWaitlistRecord);
+  if (records.some((record: WaitlistRecord | null) => !record)) {
+    return fail(400, WAITLIST_MESSAGES.invalidRecord);
+  }
+
+  const existing = await prisma.waitlistEntry.findMany({
+    where: {
+      status: WAITLIST_STATUS.waiting,
+      OR: (records as WaitlistRecord[]).map((record) => ({
+        studentName: record.name,
+        courseConfigSetName: record.courseConfigSetName,
+        courseId: record.courseId,
+      })),
+    },
+    select: { studentName: true, courseConfigSetName: true, courseId: true, courseType: true, timeOption: true },
+  });
+  const waitingKeys = new Set(
+    existing.map((row: any) => `${row.studentName}|${row.courseConfigSetName}|${getClassSlotKey(row)}`)
+  );
+
+  const memo = String(body?.memo ?? '').trim().slice(0, MAX_WAITLIST_MEMO_LENGTH);
+  const now = new Date();
+  const rows = [];
+  for (const [index, record] of (records as WaitlistRecord[]).entries()) {
+    const slot = toClassSlot({
+      courseId: String(record.courseId),
+      courseType: String(record.courseType ?? ''),
+      timeOption: String(record.timeOption ?? ''),
+    });
+    const key = `${record.name}|${record.courseConfigSetName}|${getClassSlotKey(slot)}`;
+    if (waitingKeys.has(key)) return fail(409, WAITLIST_MESSAGES.alreadyWaiting);
+    waitingKeys.add(key);
+    rows.push({
+      id: uuidv4(),
+      studentName: String(record.name),
+      course: String(record.course),
+      courseId: slot.courseId,
+      courseConfigSetName: String(record.courseConfigSetName),
+      courseType: slot.courseType,
+      timeOption: slot.timeOption,
+      record: { ...record, courseType: slot.courseType, timeOption: slot.timeOption },
+      status: WAITLIST_STATUS.waiting,
+      memo,
+      createdBy: authUser.username || '',
+      // 같은 요청 안에서도 순서가 유지되도록 1ms씩 늦춘다
+      createdAt: new Date(now.getTime() + index),
+      updatedAt: now,
+    });
+  }
+
+  await prisma.waitlistEntry.createMany({ data: rows });
+  return {
+    statusCode: 201,
+    body: { status: 'success', results: rows.map((row) => formatWaitlistEntry(row)) },
+  };
+}
+
+/**
+ * 대기 항목을 등록으로 바꾼다. 자리가 없으면 allowOverCapacity일 때만 전환한다.
+ */
+async function convertWaitlistEntry(
+  entry: any,
+  { allowOverCapacity = false }: { allowOverCapacity?: boolean } = {}
+) {
+  const record = { ...(entry.record as WaitlistRecord), name: entry.studentName };
+
+  const mismatches = await findFeeMismatches([record]);
+  const expectedFeeByIndex = new Map<number, number>(
+    mismatches.map((item: { index: number; expectedFee: number }) => [item.index, item.expectedFee])
+  );
+  const now = new Date();
+  const { createdIds, rowsToCreate } = buildStudentCreateRows(
+    await sanitizeAppliedDiscountRuleIds([record]),
+    now,
+    expectedFeeByIndex
+  );
+
+  // 중복·정원 확인과 대기 항목 선점을 한 트랜잭션에서 해, 동시에 전환해도 등록은 하나만 생기고 정원을 넘지 않는다
+  const result = await prisma.$transaction(async (tx: import('@prisma/client').Prisma.TransactionClient) => {
+    if (!allowOverCapacity) {
+      const overflows = await findCapacityOverflows([record], tx);
+      if (overflows.length) return { error: buildCapacityFailure(overflows), row: null };
+    }
+
+    const existingRows = await tx.registration.findMany({
+      where: {
+        name: entry.studentName,
+        courseConfigSetName: entry.courseConfigSetName,
+        courseId: entry.courseId,
+      },
+      select: { id: true, name: true, course: true, courseId: true, courseConfigSetName: true, studentId: true },
+    });
+    if (findStudentDuplicates([record], buildExistingStudentMap(existingRows)).length) {
+      return { error: fail(409, WAITLIST_MESSAGES.duplicateRegistration), row: null };
+    }
+
+    const claimed = await tx.waitlistEntry.updateMany({
+      where: { id: entry.id, status: WAITLIST_STATUS.waiting },
+      data: {
+        status: WAITLIST_STATUS.converted,
+        registrationId: createdIds[0],
+        convertedAt: now,
+      },
+    });
+    if (claimed.count === 0) return { error: fail(409, WAITLIST_MESSAGES.notWaiting), row: null };
+
+    await tx.registration.createMany({ data: rowsToCreate });
+    return { error: null, row: await tx.waitlistEntry.findUnique({ where: { id: entry.id } }) };
+  });
+  if (result.error) return result.error;
+  const row = result.row;
+
+  return {
+    statusCode: 200,
+    body: { status: 'success', entry: formatWaitlistEntry(row), ids: createdIds },
+  };
+}
+
+async function loadWaitingEntry(id: unknown) {
+  const entryId = normalizeStringId(id);
+  const entry = entryId ? await prisma.waitlistEntry.findUnique({ where: { id: entryId } }) : null;
+  if (!entry) return { error: fail(404, WAITLIST_MESSAGES.entryNotFound), entry: null };
+  if (entry.status !== WAITLIST_STATUS.waiting) {
+    return { error: fail(409, WAITLIST_MESSAGES.notWaiting), entry: null };
+  }
+  return { error: null, entry };
+}
+
+async function convertWaitlistEntryResult({ id, body }: { id: unknown; body: Record<string, unknown> }) {
+  const loaded = await loadWaitingEntry(id);
+  if (!loaded.entry) return loaded.error;
+  return convertWaitlistEntry(loaded.entry, { allowOverCapacity: body?.allowOverCapacity === true });
+}
+
+async function cancelWaitlistEntryResult(id: unknown) {
+  const loaded = await loadWaitingEntry(id);
+  if (!loaded.entry) return loaded.error;
+  const row = await prisma.waitlistEntry.update({
+    where: { id: loaded.entry.id },
+    data: { status: WAITLIST_STATUS.cancelled, cancelledAt: new Date() },
+  });
+  return { statusCode: 200, body: { status: 'success', entry: formatWaitlistEntry(row) } };
+}
+
+/**
+ * 자리가 빈 반의 대기자를 순서대로 등록으로 바꾼다. 자리가 다시 차거나 대기자가 없으면 멈춘다.
+ * 이미 같은 과목에 등록된 대기자는 건너뛴다.
+ */
+async function promoteWaitlist(freed: SeatFreedRegistration) {
+  const courseConfigSetName = normalizeCourseConfigSetName(freed?.courseConfigSetName);
+  const courseId = normalizeCourseId(freed?.courseId);
+  if (!courseConfigSetName || !courseId) return [];
+
+  const slot = toClassSlot({ courseId, courseType: freed.courseType, timeOption: freed.timeOption });
+  const entries = await prisma.waitlistEntry.findMany({
+    where: {
+      courseConfigSetName,
+      courseId: slot.courseId,
+      courseType: slot.courseType,
+      timeOption: slot.timeOption,
+      status: WAITLIST_STATUS.waiting,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const promotedIds: string[] = [];
+  for (const entry of entries) {
+    const result = await convertWaitlistEntry(entry);
+    if (result.statusCode === 200) {
+      promotedIds.push(entry.id);
+      continue;
+    }
+    if ((result.body as { capacityOverflows?: unknown }).capacityOverflows) break;
+  }
+  return promotedIds;
+}
+
+/**
+ * 퇴원·전반·삭제로 자리가 난 뒤 호출한다. 대기자 전환 실패가 원래 요청을 실패시키지 않도록 로그만 남긴다.
+ */
+async function promoteWaitlistAfterSeatFreed(freed: SeatFreedRegistration | null | undefined) {
+  if (!freed) return [];
+  try {
+    const promotedIds = await promoteWaitlist(freed);
+    if (promotedIds.length) {
+      console.log(`[Waitlist] 대기자 ${promotedIds.length}명 등록 전환: ${freed.courseId}`);
+    }
+    return promotedIds;
+  } catch (error) {
+    console.error('[Waitlist] 대기자 자동 전환 오류:', error);
+    return [];
+  }
+}
+
+module.exports = {
+  WAITLIST_MESSAGES,
+  WAITLIST_STATUS,
+  buildWaitlistPositions,
+  cancelWaitlistEntryResult,
+  convertWaitlistEntryResult,
+  createWaitlistEntriesResult,
+  listWaitlistResult,
+  promoteWaitlistAfterSeatFreed,
+};
@@ -0,0 +1,195 @@
+/**
+ * 출석 키오스크 셀프 체크인.
+ * 학생은 학생별 QR(CHECKIN:토큰) 또는 6자리 PIN으로 체크인하고, 그날 수업 시작 시각에 유예 시간을 더한 때가 지나면 지각이 된다.
+ * 수업 시작 시각은 과목 설정의 timeTable에서 찾는다. 시각은 HH:MM, 날짜는 YYYY-MM-DD 문자열이다.
+ */
+
+export const CHECK_IN_PIN_LENGTH = 6;
+
+export const CHECK_IN_TOKEN_LENGTH = 16;
+
+export const CHECK_IN_TOKEN_PREFIX = 'CHECKIN:';
+
+export const DEFAULT_CHECK_IN_GRACE_MINUTES = 10;
+
+export const MAX_CHECK_IN_GRACE_MINUTES = 180;
+
+export const ATTENDANCE_CHECK_IN_MESSAGES = {
+  codeRequired: 'QR 코드를 스캔하거나 PIN을 입력해 주세요.',
+  invalidCode: '등록되지 않은 코드입니다.',
+  invalidGrace: `지각 유예 시간은 0~${MAX_CHECK_IN_GRACE_MINUTES}분이어야 합니다.`,
+  noClassToday: '오늘 체크인할 수업이 없습니다.',
+  rateLimited: '체크인 시도가 너무 많습니다. 잠시 후 다시 시도해 주세요.',
+} as const;
+
+export type CheckInCode = {
+  type: 'pin' | 'token';
+  value: string;
+};
+
+export type CheckInStatus = 'present' | 'late';
+
+export type CheckInTimeTableEntry =
+  | string
+  | { type: 'onoff'; online?: string; offline?: string }
+  | { type: 'dynamic'; options?: Array<{ label?: string; time?: string }> }
+  | Record<string, unknown>;
+
+export type CheckInRegistration = {
+  courseId?: string | null;
+  course?: string | null;
+  courseType?: string | null;
+  timeOption?: string | null;
+};
+
+export type CheckInSchedule = {
+  /** 과목 설정 courseInfo.days (0=일요일) */
+  courseDays?: number[] | null;
+  /** 일 단위 과정에서 고른 날짜 */
+  selectedDates?: string[] | null;
+};
+
+export type CheckInCandidate = {
+  registrationId: string;
+  /** 모르면 빈 문자열 */
+  startTime: string;
+};
+
+const PIN_PATTERN = new RegExp(`^\\d{${CHECK_IN_PIN_LENGTH}}$`);
+const TOKEN_PATTERN = new RegExp(`^[A-Z0-9]{${CHECK_IN_TOKEN_LENGTH}}$`);
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})/;
+const ONLINE_COURSE_TYPE = '온라인';
+
+/**
+ * 키오스크 입력을 코드로 읽는다. 스캐너가 붙이는 공백과 PIN 사이 하이픈은 무시한다.
+ */
+export function parseCheckInCode(raw: unknown): CheckInCode | null {
+  const text = String(raw ?? '').trim();
+  if (!text) return null;
+
+  const pin = text.replace(/[\s-]/g, '');
+  if (PIN_PATTERN.test(pin)) return { type: 'pin', value: pin };
+
+  const upper = text.toUpperCase();
+  if (!upper.startsWith(CHECK_IN_TOKEN_PREFIX)) return null;
+  const token = upper.slice(CHECK_IN_TOKEN_PREFIX.length).trim();
+  return TOKEN_PATTERN.test(token) ? { type: 'token', value: token } : null;
+}
+
+/** 학생 QR에 담는 문자열 */
+export function buildCheckInQrPayload(token: string) {
+  return `${CHECK_IN_TOKEN_PREFIX}${token}`;
+}
+
+/** 지각 유예 시간(분). 비어 있으면 기본값 */
+export function parseCheckInGraceMinutes(value: unknown): { value: number; error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { value: DEFAULT_CHECK_IN_GRACE_MINUTES, error: '' };
+  }
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_CHECK_IN_GRACE_MINUTES) {
+    return { value: DEFAULT_CHECK_IN_GRACE_MINUTES, error: ATTENDANCE_CHECK_IN_MESSAGES.invalidGrace };
+  }
+  return { value: minutes, error: '' };
+}
+
+function readStartTime(value: unknown) {
+  const match = String(value ?? '').trim().match(TIME_PATTERN);
+  if (!match) return '';
+  const hours = Number(match[1]);
+  if (hours > 23 || Number(match[2]) > 59) return '';
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+function findTimeTableEntry(
+  registration: CheckInRegistration,
+  timeTable: Record<string, CheckInTimeTableEntry | undefined>,
+  courseName: string
+) {
+  const courseId = String(registration.courseId || '').trim();
+  if (courseId && timeTable[courseId]) return { entry: timeTable[courseId], key: courseName || courseId };
+  if (courseName && timeTable[courseName]) return { entry: timeTable[courseName], key: courseName };
+
+  // 과목 ID가 없던 예전 등록: "Calculus AB (오전반)"처럼 과목명으로 시작하는 키
+  const label = String(registration.course || '').trim();
+  const key = Object.keys(timeTable)
+    .filter((candidate) => candidate && label.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? { entry: timeTable[key], key } : null;
+}
+
+/**
+ * 등록의 수업 시작 시각(HH:MM). 온/오프라인 과목은 수업 형태, 시간 선택 과목은 고른 시간대를 따른다.
+ * 찾지 못하면 빈 문자열.
+ */
+export function resolveClassStartTime(
+  registration: CheckInRegistration,
+  timeTable: Record<string, CheckInTimeTableEntry | undefined> | null | undefined,
+  courseName = ''
+) {
+  const found = timeTable ? findTimeTableEntry(registration, timeTable, courseName) : null;
+  const entry = found?.entry;
+  if (!entry) return '';
+  if (typeof entry === 'string') return readStartTime(entry);
+  if (typeof entry !== 'object') return '';
+
+  const timeOption = String(registration.timeOption || '').trim();
+  const courseType = String(registration.courseType || '').trim();
+  if (entry.type === 'onoff') {
+    const onoff = entry as { online?: string; offline?: string };
+    return readStartTime(courseType === ONLINE_COURSE_TYPE ? onoff.online : onoff.offline);
+  }
+  if (entry.type === 'dynamic') {
+    const options = Array.isArray(entry.options) ? entry.options : [];
+    const option = options.find((item: { label?: string }) => String(item?.label || '') === timeOption);
+    return readStartTime(option?.time);
+  }
+
+  // { "오전반": "09:00~11:00", "저녁반": "18:20~20:20" }
+  const variants = entry as Record<string, unknown>;
+  const label = String(registration.course || '').trim();
+  const suffix = found && label.startsWith(found.key) ? label.slice(found.key.length).replace(/[()]/g, '').trim() : '';
+  for (const variant of [timeOption, suffix, courseType]) {
+    if (variant && typeof variants[variant] === 'string') return readStartTime(variants[variant]);
+  }
+  const first = Object.values(variants).find((value) => typeof value === 'string');
+  return suffix ? '' : readStartTime(first);
+}
+
+function toMinutes(time: string) {
+  const match = time.match(TIME_PATTERN);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** 시작 시각 + 유예 시간을 넘겨 체크인하면 지각. 시작 시각을 모르면 출석 */
+export function getCheckInStatus(startTime: string, checkedInAt: string, graceMinutes: number): CheckInStatus {
+  const start = toMinutes(startTime);
+  const now = toMinutes(checkedInAt);
+  if (start === null || now === null) return 'present';
+  return now > start + graceMinutes ? 'late' : 'present';
+}
+
+/** 그날 수업이 있는 등록인지. 일 단위 과정은 고른 날짜, 주 단위 과정은 수업 요일로 본다 */
+export function isCheckInClassDay(schedule: CheckInSchedule, date: string) {
+  const selectedDates = Array.isArray(schedule.selectedDates) ? schedule.selectedDates : [];
+  if (selectedDates.length) return selectedDates.includes(date);
+  const courseDays = Array.isArray(schedule.courseDays) ? schedule.courseDays : [];
+  if (!courseDays.length) return true;
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return courseDays.map(Number).includes(day);
+}
+
+/**
+ * 한 학생이 같은 날 여러 수업을 들으면 체크인 시각과 가장 가까운 수업만 고른다.
+ * 시작 시각을 아는 수업이 없으면 모두 체크인한다.
+ */
+export function pickCheckInTargets(candidates: CheckInCandidate[], checkedInAt: string) {
+  const now = toMinutes(checkedInAt);
+  const timed = candidates
+    .map((candidate) => ({ candidate, start: toMinutes(candidate.startTime) }))
+    .filter((item): item is { candidate: CheckInCandidate; start: number } => item.start !== null);
+  if (now === null || !timed.length) return candidates.slice();
+
+  const closest = Math.min(...timed.map((item) => Math.abs(item.start - now)));
+  return timed.filter((item) => Math.abs(item.start - now) === closest).map((item) => item.candidate);
+}
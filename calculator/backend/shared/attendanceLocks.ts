@@ -0,0 +1,61 @@
+/**
+ * 출석 월 마감.
+ * 마스터가 과목 설정 세트별로 한 달(YYYY-MM)을 마감하면 그 달 출석은 더 바꿀 수 없다.
+ * 급여·환불 계산이 마감된 출석을 기준으로 하기 때문이다.
+ * 마감 후 수정 권한이 있는 사용자만 사유를 남기고 고칠 수 있다.
+ */
+
+export const ATTENDANCE_LOCK_OVERRIDE_PERMISSION = 'attendance.locks.override';
+
+export const ATTENDANCE_LOCK_REASON_MAX_LENGTH = 200;
+
+export const ATTENDANCE_LOCK_MESSAGES = {
+  invalidMonth: '마감할 달을 확인해 주세요. (YYYY-MM)',
+  courseConfigSetRequired: '과목 설정 세트를 선택해 주세요.',
+  alreadyLocked: '이미 마감된 달입니다.',
+  lockNotFound: '마감 기록을 찾을 수 없습니다.',
+  locked: '마감된 달의 출석은 수정할 수 없습니다.',
+  reasonRequired: '마감된 달을 수정하려면 사유를 입력해 주세요.',
+  reasonTooLong: `사유는 ${ATTENDANCE_LOCK_REASON_MAX_LENGTH}자까지 입력할 수 있습니다.`,
+} as const;
+
+export type AttendanceMonthLock = {
+  courseConfigSetName: string;
+  month: string;
+};
+
+const MONTH_KEY_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function isAttendanceMonthKey(value: unknown): value is string {
+  return typeof value === 'string' && MONTH_KEY_PATTERN.test(value);
+}
+
+/** YYYY-MM-DD 날짜의 달 */
+export function getAttendanceMonthKey(dateKey: string) {
+  return String(dateKey || '').slice(0, 7);
+}
+
+function buildLockKey(courseConfigSetName: string, month: string) {
+  return `${courseConfigSetName}|${month}`;
+}
+
+/** 세트 이름과 달로 마감 여부를 찾는 Set */
+export function buildAttendanceLockSet(locks: AttendanceMonthLock[]) {
+  return new Set(locks.map((lock) => buildLockKey(lock.courseConfigSetName, lock.month)));
+}
+
+/** 세트 이름이 없는 등록은 마감 대상이 아니다 */
+export function isAttendanceDateLocked(lockSet: Set<string>, courseConfigSetName: string, dateKey: string) {
+  if (!courseConfigSetName) return false;
+  return lockSet.has(buildLockKey(courseConfigSetName, getAttendanceMonthKey(dateKey)));
+}
+
+/** 마감 후 수정 사유. 앞뒤 공백을 지우고, 없거나 너무 길면 error를 돌려준다 */
+export function parseAttendanceOverrideReason(value: unknown): { value: string; error: string } {
+  const reason = String(value ?? '').trim();
+  if (!reason) return { value: '', error: ATTENDANCE_LOCK_MESSAGES.reasonRequired };
+  if (reason.length > ATTENDANCE_LOCK_REASON_MAX_LENGTH) {
+    return { value: '', error: ATTENDANCE_LOCK_MESSAGES.reasonTooLong };
+  }
+  return { value: reason, error: '' };
+}
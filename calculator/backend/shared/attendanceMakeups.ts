@@ -0,0 +1,154 @@
+/**
+ * 결석 보강.
+ * 결석으로 기록된 수업(출석 기록) 하나에 보강 하나를 잡는다. 보강 수업(과목·날짜·시간)과 진행 상태(scheduled/attended/waived),
+ * 보강 대신 녹화본을 보냈는지를 남긴다. 예정(scheduled)이면서 녹화본도 보내지 않은 보강이 아직 남은 보강이다.
+ * 날짜는 YYYY-MM-DD, 시간은 HH:MM 문자열이다.
+ */
+
+import { parseAttendanceStatsQuery } from './attendanceStats';
+
+export const ATTENDANCE_MAKEUP_STATUSES = ['scheduled', 'attended', 'waived'] as const;
+
+export type AttendanceMakeupStatus = (typeof ATTENDANCE_MAKEUP_STATUSES)[number];
+
+export const ATTENDANCE_MAKEUP_MAX_MEMO_LENGTH = 200;
+
+export const ATTENDANCE_MAKEUP_MESSAGES = {
+  invalidStatus: '보강 상태를 확인해 주세요.',
+  invalidTargetDate: '보강 날짜 형식을 확인해 주세요. (YYYY-MM-DD)',
+  invalidTargetTime: '보강 시간 형식을 확인해 주세요. (HH:MM)',
+  targetDateRequired: '보강을 마치려면 보강 날짜를 입력해 주세요.',
+  targetBeforeAbsence: '보강 날짜는 결석한 날 이후여야 합니다.',
+  memoTooLong: `메모는 ${ATTENDANCE_MAKEUP_MAX_MEMO_LENGTH}자까지 입력할 수 있습니다.`,
+} as const;
+
+export type AttendanceMakeupInput = {
+  targetCourse: string;
+  targetCourseId: string;
+  /** 아직 날짜를 잡지 않았으면 빈 문자열 */
+  targetDate: string;
+  targetTime: string;
+  status: AttendanceMakeupStatus;
+  recordingSent: boolean;
+  memo: string;
+};
+
+export type AttendanceMakeupSummary = {
+  registrationId: string;
+  status: string;
+  recordingSent: boolean;
+};
+
+export type AttendanceMakeupQuery = {
+  /** 보강 날짜 기준. 비어 있으면 그쪽 제한 없음 */
+  from: string;
+  to: string;
+  registrationIds: string[];
+  /** 남은 보강만 */
+  outstanding: boolean;
+};
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const STATUS_SET = new Set<string>(ATTENDANCE_MAKEUP_STATUSES);
+
+function readText(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+export function isAttendanceMakeupStatus(value: unknown): value is AttendanceMakeupStatus {
+  return typeof value === 'string' && STATUS_SET.has(value);
+}
+
+/**
+ * 보강 입력 검사. absenceDate(결석한 날)를 주면 보강 날짜가 그 이후인지도 본다.
+ * 상태를 빼면 scheduled로 본다.
+ */
+export function parseAttendanceMakeupInput(
+  raw: Record<string, unknown> | null | undefined,
+  absenceDate = ''
+): { input: AttendanceMakeupInput | null; error: string } {
+  const status = raw?.status === undefined || raw?.status === '' ? 'scheduled' : raw?.status;
+  if (!isAttendanceMakeupStatus(status)) return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.invalidStatus };
+
+  const targetDate = readText(raw?.targetDate);
+  if (targetDate && (!DATE_KEY_PATTERN.test(targetDate) || Number.isNaN(Date.parse(`${targetDate}T00:00:00Z`)))) {
+    return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.invalidTargetDate };
+  }
+  if (targetDate && absenceDate && targetDate <= absenceDate) {
+    return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.targetBeforeAbsence };
+  }
+  if (status === 'attended' && !targetDate) {
+    return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.targetDateRequired };
+  }
+
+  const targetTime = readText(raw?.targetTime);
+  if (targetTime && !TIME_PATTERN.test(targetTime)) {
+    return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.invalidTargetTime };
+  }
+
+  const memo = readText(raw?.memo);
+  if (memo.length > ATTENDANCE_MAKEUP_MAX_MEMO_LENGTH) {
+    return { input: null, error: ATTENDANCE_MAKEUP_MESSAGES.memoTooLong };
+  }
+
+  return {
+    input: {
+      targetCourse: readText(raw?.targetCourse),
+      targetCourseId: readText(raw?.targetCourseId),
+      targetDate,
+      targetTime,
+      status,
+      recordingSent: raw?.recordingSent === true,
+      memo,
+    },
+    error: '',
+  };
+}
+
+/** 아직 처리하지 않은 보강 (예정이고 녹화본도 보내지 않았다) */
+export function isAttendanceMakeupOutstanding(makeup: Pick<AttendanceMakeupSummary, 'status' | 'recordingSent'>) {
+  return makeup.status === 'scheduled' && !makeup.recordingSent;
+}
+
+/** 등록 ID별 남은 보강 수. 남은 보강이 없는 등록은 넣지 않는다 */
+export function countOutstandingMakeups(makeups: AttendanceMakeupSummary[]) {
+  const counts = new Map<string, number>();
+  for (const makeup of makeups) {
+    if (!isAttendanceMakeupOutstanding(makeup)) continue;
+    counts.set(makeup.registrationId, (counts.get(makeup.registrationId) || 0) + 1);
+  }
+  return counts;
+}
+
+/** GET /api/attendance/makeups 쿼리. 날짜·등록 ID 규칙은 출석 통계와 같다 */
+export function parseAttendanceMakeupQuery(
+  raw: Record<string, unknown> | null | undefined
+): { query: AttendanceMakeupQuery | null; error: string } {
+  const parsed = parseAttendanceStatsQuery({
+    from: raw?.from,
+    to: raw?.to,
+    registrationIds: raw?.registrationIds,
+  });
+  if (!parsed.query) return { query: null, error: parsed.error };
+  const outstanding = readText(raw?.outstanding);
+  return {
+    query: {
+      from: parsed.query.from,
+      to: parsed.query.to,
+      registrationIds: parsed.query.registrationIds,
+      outstanding: outstanding === '1' || outstanding === 'true',
+    },
+    error: '',
+  };
+}
+
+/** 쿼리 문자열에 넣을 값. 빈 조건은 뺀다 */
+export function buildAttendanceMakeupQueryParams(query: Partial<AttendanceMakeupQuery>) {
+  const params: Record<string, string> = {};
+  if (query.from) params.from = query.from;
+  if (query.to) params.to = query.to;
+  if (query.registrationIds?.length) params.registrationIds = query.registrationIds.join(',');
+  if (query.outstanding) params.outstanding = '1';
+  return params;
+}
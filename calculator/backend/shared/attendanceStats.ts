@@ -0,0 +1,247 @@
+/**
+ * 출석 통계와 결석 알림 규칙.
+ * 출석 기록을 출석 상태 정의(attendanceStatuses)에 따라 등록·과목별로 세고, 켜 둔 규칙으로 확인이 필요한 학생을 고른다.
+ * 출석률 = 출석으로 세는 상태 / 기록된 수업. 기록이 없는 날(pending)과 정의에 없는 상태는 세지 않는다.
+ * 날짜는 모두 YYYY-MM-DD 문자열이다.
+ */
+
+import {
+  DEFAULT_ATTENDANCE_STATUSES,
+  getAttendedStatusKeys,
+  type AttendanceStatusDefinition,
+} from './attendanceStatuses';
+
+export const ATTENDANCE_ALERT_RULE_TYPES = ['consecutiveAbsence', 'lowRate'] as const;
+
+export type AttendanceAlertRuleType = (typeof ATTENDANCE_ALERT_RULE_TYPES)[number];
+
+export type AttendanceStatsRecord = {
+  registrationId: string;
+  date: string;
+  status: string;
+};
+
+export type AttendanceStats = {
+  total: number;
+  /** 출석으로 세는 상태의 합 */
+  attended: number;
+  /** 결석으로 세는 상태의 합 */
+  missed: number;
+  /** 상태 키별 기록 수 */
+  counts: Record<string, number>;
+  /** 0~1. 기록된 수업이 없으면 null */
+  rate: number | null;
+  /** 가장 최근 기록부터 거슬러 센 연속 결석 */
+  consecutiveAbsences: number;
+  lastDate: string;
+};
+
+export type AttendanceAlertRule = {
+  id: string;
+  name: string;
+  type: AttendanceAlertRuleType;
+  /** consecutiveAbsence: 연속 결석 횟수, lowRate: 출석률 하한(0~1) */
+  threshold: number;
+  /** 기록된 수업이 이보다 적으면 판정하지 않는다 */
+  minSessions: number;
+  isActive: boolean;
+};
+
+export type AttendanceAlert = {
+  ruleId: string;
+  ruleName: string;
+  type: AttendanceAlertRuleType;
+  threshold: number;
+  /** 규칙에 걸린 값 (연속 결석 횟수 또는 출석률) */
+  value: number;
+};
+
+export type AttendanceStatsQuery = {
+  /** 비어 있으면 그쪽 제한 없음 */
+  from: string;
+  to: string;
+  courseConfigSetName: string;
+  registrationIds: string[];
+};
+
+export const ATTENDANCE_STATS_MAX_REGISTRATION_IDS = 200;
+
+export const ATTENDANCE_STATS_MESSAGES = {
+  invalidDate: '날짜 형식을 확인해 주세요. (YYYY-MM-DD)',
+  invalidRange: '조회 시작일은 종료일보다 늦을 수 없습니다.',
+  tooManyRegistrations: `한 번에 ${ATTENDANCE_STATS_MAX_REGISTRATION_IDS}건까지 조회할 수 있습니다.`,
+  nameRequired: '규칙 이름을 입력해 주세요.',
+  invalidType: '규칙 종류를 확인해 주세요.',
+  invalidConsecutive: '연속 결석 횟수는 1회 이상이어야 합니다.',
+  invalidRate: '출석률 기준은 0%보다 크고 100% 이하여야 합니다.',
+  invalidMinSessions: '최소 수업 수는 0 이상이어야 합니다.',
+} as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const RULE_TYPE_SET = new Set<string>(ATTENDANCE_ALERT_RULE_TYPES);
+
+function readText(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readDateKey(value: unknown) {
+  const text = readText(value);
+  if (!text) return { value: '' };
+  if (!DATE_KEY_PATTERN.test(text) || Number.isNaN(Date.parse(`${text}T00:00:00Z`))) {
+    return { value: '', error: ATTENDANCE_STATS_MESSAGES.invalidDate };
+  }
+  return { value: text };
+}
+
+export function isAttendanceAlertRuleType(value: unknown): value is AttendanceAlertRuleType {
+  return typeof value === 'string' && RULE_TYPE_SET.has(value);
+}
+
+export function parseAttendanceStatsQuery(
+  raw: Record<string, unknown> | null | undefined
+): { query: AttendanceStatsQuery | null; error: string } {
+  const from = readDateKey(raw?.from);
+  const to = readDateKey(raw?.to);
+  const dateError = from.error || to.error;
+  if (dateError) return { query: null, error: dateError };
+  if (from.value && to.value && from.value > to.value) {
+    return { query: null, error: ATTENDANCE_STATS_MESSAGES.invalidRange };
+  }
+
+  const registrationIds = Array.from(
+    new Set(
+      readText(raw?.registrationIds)
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  );
+  if (registrationIds.length > ATTENDANCE_STATS_MAX_REGISTRATION_IDS) {
+    return { query: null, error: ATTENDANCE_STATS_MESSAGES.tooManyRegistrations };
+  }
+
+  return {
+    query: {
+      from: from.value,
+      to: to.value,
+      courseConfigSetName: readText(raw?.courseConfigSetName),
+      registrationIds,
+    },
+    error: '',
+  };
+}
+
+/** 쿼리 문자열에 넣을 값. 빈 조건은 뺀다 */
+export function buildAttendanceStatsQueryParams(query: Partial<AttendanceStatsQuery>) {
+  const params: Record<string, string> = {};
+  const entries: Array<[string, string]> = [
+    ['from', query.from || ''],
+    ['to', query.to || ''],
+    ['courseConfigSetName', query.courseConfigSetName || ''],
+    ['registrationIds', (query.registrationIds || []).join(',')],
+  ];
+  for (const [key, value] of entries) {
+    if (value) params[key] = value;
+  }
+  return params;
+}
+
+export function createEmptyAttendanceStats(): AttendanceStats {
+  return {
+    total: 0,
+    attended: 0,
+    missed: 0,
+    counts: {},
+    rate: null,
+    consecutiveAbsences: 0,
+    lastDate: '',
+  };
+}
+
+function getAttendanceRate(stats: Pick<AttendanceStats, 'total' | 'attended'>) {
+  if (!stats.total) return null;
+  return stats.attended / stats.total;
+}
+
+/** 한 등록의 출석 기록으로 통계를 만든다. 정의에 없는 상태는 건너뛴다 */
+export function buildAttendanceStats(
+  records: Array<Pick<AttendanceStatsRecord, 'date' | 'status'>>,
+  definitions: AttendanceStatusDefinition[] = DEFAULT_ATTENDANCE_STATUSES
+) {
+  const stats = createEmptyAttendanceStats();
+  const known = new Set(definitions.map((definition) => definition.key));
+  const attendedKeys = getAttendedStatusKeys(definitions);
+  const sorted = records
+    .filter((record) => known.has(record.status))
+    .slice()
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const record of sorted) {
+    const attended = attendedKeys.has(record.status);
+    stats.total += 1;
+    stats.counts[record.status] = (stats.counts[record.status] || 0) + 1;
+    if (attended) stats.attended += 1;
+    else stats.missed += 1;
+    stats.consecutiveAbsences = attended ? 0 : stats.consecutiveAbsences + 1;
+    stats.lastDate = record.date;
+  }
+  stats.rate = getAttendanceRate(stats);
+  return stats;
+}
+
+/** 과목별 합산용. 연속 결석은 학생마다 다르므로 가장 긴 값을 남긴다 */
+export function mergeAttendanceStats(target: AttendanceStats, stats: AttendanceStats) {
+  target.total += stats.total;
+  target.attended += stats.attended;
+  target.missed += stats.missed;
+  for (const [key, count] of Object.entries(stats.counts)) {
+    target.counts[key] = (target.counts[key] || 0) + count;
+  }
+  target.consecutiveAbsences = Math.max(target.consecutiveAbsences, stats.consecutiveAbsences);
+  if (stats.lastDate > target.lastDate) target.lastDate = stats.lastDate;
+  target.rate = getAttendanceRate(target);
+  return target;
+}
+
+/** 규칙 입력 검사. 문제가 없으면 빈 문자열 */
+export function getAttendanceAlertRuleError(rule: Pick<AttendanceAlertRule, 'name' | 'type' | 'threshold' | 'minSessions'>) {
+  if (!String(rule.name || '').trim()) return ATTENDANCE_STATS_MESSAGES.nameRequired;
+  if (!isAttendanceAlertRuleType(rule.type)) return ATTENDANCE_STATS_MESSAGES.invalidType;
+  if (rule.type === 'consecutiveAbsence' && (!Number.isInteger(rule.threshold) || rule.threshold < 1)) {
+    return ATTENDANCE_STATS_MESSAGES.invalidConsecutive;
+  }
+  if (rule.type === 'lowRate' && (!Number.isFinite(rule.threshold) || rule.threshold <= 0 || rule.threshold > 1)) {
+    return ATTENDANCE_STATS_MESSAGES.invalidRate;
+  }
+  if (!Number.isInteger(rule.minSessions) || rule.minSessions < 0) {
+    return ATTENDANCE_STATS_MESSAGES.invalidMinSessions;
+  }
+  return '';
+}
+
+/** 켜 둔 규칙 가운데 통계가 걸리는 것들 */
+export function evaluateAttendanceAlerts(stats: AttendanceStats, rules: AttendanceAlertRule[]): AttendanceAlert[] {
+  const alerts: AttendanceAlert[] = [];
+  for (const rule of rules) {
+    if (!rule.isActive || stats.total < rule.minSessions) continue;
+    if (rule.type === 'consecutiveAbsence' && stats.consecutiveAbsences >= rule.threshold) {
+      alerts.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        threshold: rule.threshold,
+        value: stats.consecutiveAbsences,
+      });
+    }
+    if (rule.type === 'lowRate' && stats.rate !== null && stats.rate < rule.threshold) {
+      alerts.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        threshold: rule.threshold,
+        value: stats.rate,
+      });
+    }
+  }
+  return alerts;
+}
@@ -0,0 +1,110 @@
+/**
+ * 출석 상태 정의.
+ * 출석부에 칠하는 상태(출석·지각·녹화강의·결석 외에 인정결석·조퇴 등)를 데이터로 관리한다.
+ * 상태마다 이름, 짧은 이름(칸에 표시), 색, 출석으로 셀지를 둔다. pending은 "기록 없음"이라 정의에 넣지 않는다.
+ * 기본 상태(isSystem)는 키오스크·보강이 기대는 키라 지우거나 끌 수 없다.
+ */
+
+export const PENDING_ATTENDANCE_STATUS = 'pending';
+
+export const ATTENDANCE_STATUS_COLORS = [
+  'emerald',
+  'sky',
+  'amber',
+  'rose',
+  'violet',
+  'teal',
+  'orange',
+  'indigo',
+  'pink',
+  'slate',
+] as const;
+
+export type AttendanceStatusColor = (typeof ATTENDANCE_STATUS_COLORS)[number];
+
+export const ATTENDANCE_STATUS_MAX_SHORT_LABEL_LENGTH = 2;
+
+export const ATTENDANCE_RECORD_NOTE_MAX_LENGTH = 200;
+
+export const ATTENDANCE_STATUS_MESSAGES = {
+  invalidKey: '상태 키는 영문으로 시작하는 30자 이내의 영문·숫자·_·-여야 합니다.',
+  reservedKey: 'pending은 기록 없음으로 쓰여 상태 키로 쓸 수 없습니다.',
+  labelRequired: '상태 이름을 입력해 주세요.',
+  shortLabelRequired: `짧은 이름은 1~${ATTENDANCE_STATUS_MAX_SHORT_LABEL_LENGTH}자여야 합니다.`,
+  invalidColor: '색을 확인해 주세요.',
+  noteTooLong: `사유는 ${ATTENDANCE_RECORD_NOTE_MAX_LENGTH}자까지 입력할 수 있습니다.`,
+} as const;
+
+export type AttendanceStatusDefinition = {
+  key: string;
+  label: string;
+  shortLabel: string;
+  color: AttendanceStatusColor;
+  /** 출석률에서 출석으로 센다. 아니면 결석으로 세고 연속 결석·보강 대상이 된다 */
+  countsAsAttended: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  isSystem: boolean;
+};
+
+export const DEFAULT_ATTENDANCE_STATUSES: AttendanceStatusDefinition[] = [
+  { key: 'present', label: '출석', shortLabel: '출', color: 'emerald', countsAsAttended: true, isActive: true, sortOrder: 0, isSystem: true },
+  { key: 'recorded', label: '녹화강의', shortLabel: '녹', color: 'sky', countsAsAttended: true, isActive: true, sortOrder: 1, isSystem: true },
+  { key: 'late', label: '지각', shortLabel: '지', color: 'amber', countsAsAttended: true, isActive: true, sortOrder: 2, isSystem: true },
+  { key: 'absent', label: '결석', shortLabel: '결', color: 'rose', countsAsAttended: false, isActive: true, sortOrder: 3, isSystem: true },
+];
+
+const KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,29}$/;
+const COLOR_SET = new Set<string>(ATTENDANCE_STATUS_COLORS);
+
+export function isAttendanceStatusColor(value: unknown): value is AttendanceStatusColor {
+  return typeof value === 'string' && COLOR_SET.has(value);
+}
+
+/** 상태 정의 입력 검사. 문제가 없으면 빈 문자열 */
+export function getAttendanceStatusDefinitionError(
+  definition: Pick<AttendanceStatusDefinition, 'key' | 'label' | 'shortLabel'> & { color: unknown }
+) {
+  const key = String(definition.key || '').trim();
+  if (key === PENDING_ATTENDANCE_STATUS) return ATTENDANCE_STATUS_MESSAGES.reservedKey;
+  if (!KEY_PATTERN.test(key)) return ATTENDANCE_STATUS_MESSAGES.invalidKey;
+  if (!String(definition.label || '').trim()) return ATTENDANCE_STATUS_MESSAGES.labelRequired;
+  const shortLabel = Array.from(String(definition.shortLabel || '').trim());
+  if (!shortLabel.length || shortLabel.length > ATTENDANCE_STATUS_MAX_SHORT_LABEL_LENGTH) {
+    return ATTENDANCE_STATUS_MESSAGES.shortLabelRequired;
+  }
+  if (!isAttendanceStatusColor(definition.color)) return ATTENDANCE_STATUS_MESSAGES.invalidColor;
+  return '';
+}
+
+/** 정의 순서대로 정렬한다. 저장된 정의가 없으면 기본 상태를 쓴다 */
+export function resolveAttendanceStatusDefinitions(definitions: AttendanceStatusDefinition[] | null | undefined) {
+  const list = Array.isArray(definitions) && definitions.length ? definitions : DEFAULT_ATTENDANCE_STATUSES;
+  return list.slice().sort((a, b) => a.sortOrder - b.sortOrder || a.key.localeCompare(b.key));
+}
+
+/** 출석으로 세는 상태 키 */
+export function getAttendedStatusKeys(definitions: AttendanceStatusDefinition[]) {
+  return new Set(definitions.filter((definition) => definition.countsAsAttended).map((definition) => definition.key));
+}
+
+/** 결석으로 세는 상태 키 (보강 대상) */
+export function getMissedStatusKeys(definitions: AttendanceStatusDefinition[]) {
+  return new Set(definitions.filter((definition) => !definition.countsAsAttended).map((definition) => definition.key));
+}
+
+/** 새로 저장할 수 있는 상태. 꺼 둔 상태는 기존 기록에만 남는다 */
+export function isWritableAttendanceStatus(definitions: AttendanceStatusDefinition[], status: string) {
+  if (status === PENDING_ATTENDANCE_STATUS) return true;
+  return definitions.some((definition) => definition.key === status && definition.isActive);
+}
+
+/** 칸 사유. 앞뒤 공백을 지우고, 너무 길면 error를 돌려준다. 값이 없으면 undefined (기존 사유 유지) */
+export function parseAttendanceRecordNote(value: unknown): { value: string | undefined; error: string } {
+  if (value === undefined || value === null) return { value: undefined, error: '' };
+  const note = String(value).trim();
+  if (note.length > ATTENDANCE_RECORD_NOTE_MAX_LENGTH) {
+    return { value: undefined, error: ATTENDANCE_STATUS_MESSAGES.noteTooLong };
+  }
+  return { value: note, error: '' };
+}
@@ -0,0 +1,116 @@
+/**
+ * 반 정원 집계.
+ * 한 반은 과목 + 시간 선택 + 수업 형태(온라인/오프라인) 조합이다.
+ * 계산기 장바구니 안내와 백엔드 등록 저장 검사(/api/students, 대기 명단 전환)가 같은 규칙을 쓴다.
+ */
+
+export type ClassSlot = {
+  courseId: string;
+  courseType: string;
+  timeOption: string;
+};
+
+export type SeatHolder = {
+  courseId?: string | null;
+  courseType?: string | null;
+  timeOption?: string | null;
+  endDate?: string | Date | null;
+  withdrawnAt?: string | Date | null;
+  transferToId?: string | null;
+};
+
+export type SeatCount = ClassSlot & {
+  taken: number;
+  waiting?: number;
+};
+
+export type SeatStatus = ClassSlot & {
+  capacity: number;
+  taken: number;
+  remaining: number;
+  full: boolean;
+};
+
+export type CapacityCourseInfo = {
+  capacity?: number;
+};
+
+export const CAPACITY_MESSAGES = {
+  full: '정원이 찼습니다.',
+} as const;
+
+function normalizeText(value: unknown) {
+  return String(value ?? '').trim();
+}
+
+function toDateOnly(value: string | Date | null | undefined) {
+  if (!value) return '';
+  if (typeof value === 'string') return value.slice(0, 10);
+  return Number.isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+}
+
+/** 과목 정원. 0이면 제한 없음 */
+export function getCourseCapacity(info: CapacityCourseInfo | null | undefined) {
+  const capacity = Math.trunc(Number(info?.capacity ?? 0));
+  return Number.isFinite(capacity) && capacity > 0 ? capacity : 0;
+}
+
+export function toClassSlot(value: {
+  courseId?: string | null;
+  courseType?: string | null;
+  timeOption?: string | null;
+}): ClassSlot {
+  return {
+    courseId: normalizeText(value.courseId),
+    courseType: normalizeText(value.courseType),
+    timeOption: normalizeText(value.timeOption),
+  };
+}
+
+export function getClassSlotKey(value: {
+  courseId?: string | null;
+  courseType?: string | null;
+  timeOption?: string | null;
+}) {
+  const slot = toClassSlot(value);
+  return [slot.courseId, slot.timeOption, slot.courseType].join('|');
+}
+
+/**
+ * 자리를 차지하는 등록인지. 퇴원·전반 나간 등록과 종료일이 지난 등록은 빠진다.
+ * today는 YYYY-MM-DD.
+ */
+export function isSeatHolding(registration: SeatHolder, today: string) {
+  if (registration.withdrawnAt) return false;
+  if (registration.transferToId) return false;
+  const endDate = toDateOnly(registration.endDate);
+  return !endDate || endDate >= today;
+}
+
+/** 반별 사용 중인 자리 수 (getClassSlotKey 기준) */
+export function countTakenSeats(registrations: SeatHolder[], today: string) {
+  const counts = new Map<string, number>();
+  for (const registration of registrations) {
+    if (!normalizeText(registration.courseId) || !isSeatHolding(registration, today)) continue;
+    const key = getClassSlotKey(registration);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** adding: 이번에 더 넣으려는 인원 */
+export function getSeatStatus(slot: ClassSlot, capacity: number, taken: number, adding = 0): SeatStatus {
+  const used = taken + adding;
+  return {
+    ...slot,
+    capacity,
+    taken: used,
+    remaining: capacity > 0 ? Math.max(capacity - used, 0) : Infinity,
+    full: capacity > 0 && used >= capacity,
+  };
+}
+
+/** 한 자리를 더 넣으면 정원을 넘는지 */
+export function exceedsCapacity(capacity: number, taken: number) {
+  return capacity > 0 && taken + 1 > capacity;
+}
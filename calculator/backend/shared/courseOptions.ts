@@ -0,0 +1,109 @@
+/**
+ * 과목별 선택 옵션 정의(수업 형태, 레벨).
+ * 과목 설정(courseInfo.options)에 담기며, 계산기 검증·표시 이름과 수강료 엔진이 같이 쓴다.
+ */
+
+export type CourseOptionChoice = {
+  value: string;
+  /** 주 단위 과정은 주당, 일 단위 과정은 일당 가감액 */
+  feeDelta?: number;
+};
+
+export type CourseOptionGroup = {
+  required?: boolean;
+  choices?: CourseOptionChoice[];
+};
+
+export type CourseLevelOptionGroup = CourseOptionGroup & {
+  /** 레벨을 넣은 표시 이름. {name}은 과목명, {level}은 선택한 레벨 */
+  nameTemplate?: string;
+};
+
+export type CourseOptions = {
+  classType?: CourseOptionGroup;
+  level?: CourseLevelOptionGroup;
+};
+
+export type CourseOptionSelection = {
+  courseType?: string | null;
+  level?: string | null;
+};
+
+export const DEFAULT_CLASS_TYPE_CHOICES = ['온라인', '오프라인'];
+export const DEFAULT_LEVEL_NAME_TEMPLATE = '{name} {level}';
+
+export const COURSE_OPTION_ERRORS = {
+  classTypeRequired: '수업 형태를 선택하세요.',
+  levelRequired: '레벨을 선택하세요.',
+} as const;
+
+function normalizeChoices(group: CourseOptionGroup | undefined): CourseOptionChoice[] {
+  if (!group || !Array.isArray(group.choices)) return [];
+  return group.choices
+    .map((choice) => ({
+      value: String(choice?.value ?? '').trim(),
+      feeDelta: Number(choice?.feeDelta) || 0,
+    }))
+    .filter((choice) => choice.value);
+}
+
+/** 수업 형태 선택지. 과목에 따로 정하지 않았으면 온라인/오프라인 */
+export function getClassTypeChoices(options: CourseOptions | undefined): CourseOptionChoice[] {
+  const choices = normalizeChoices(options?.classType);
+  return choices.length ? choices : DEFAULT_CLASS_TYPE_CHOICES.map((value) => ({ value, feeDelta: 0 }));
+}
+
+export function getLevelChoices(options: CourseOptions | undefined): CourseOptionChoice[] {
+  return normalizeChoices(options?.level);
+}
+
+export function isClassTypeRequired(options: CourseOptions | undefined) {
+  return !!options?.classType?.required;
+}
+
+export function isLevelRequired(options: CourseOptions | undefined) {
+  return !!options?.level?.required && getLevelChoices(options).length > 0;
+}
+
+function findChoiceDelta(choices: CourseOptionChoice[], value: string | null | undefined) {
+  const selected = String(value ?? '').trim();
+  if (!selected) return 0;
+  const choice = choices.find((item) => item.value === selected);
+  return choice?.feeDelta ?? 0;
+}
+
+/** 선택한 옵션의 단위(주/일)당 수강료 가감액 합계 */
+export function getCourseOptionFeeDelta(
+  options: CourseOptions | undefined,
+  { courseType, level }: CourseOptionSelection
+) {
+  if (!options) return 0;
+  const classTypeDelta = options.classType ? findChoiceDelta(getClassTypeChoices(options), courseType) : 0;
+  return classTypeDelta + findChoiceDelta(getLevelChoices(options), level);
+}
+
+/** 필수 옵션 중 선택하지 않은 항목의 안내 문구 */
+export function getMissingCourseOptions(
+  options: CourseOptions | undefined,
+  { courseType, level }: CourseOptionSelection
+) {
+  const errors: string[] = [];
+  if (isClassTypeRequired(options) && !String(courseType ?? '').trim()) {
+    errors.push(COURSE_OPTION_ERRORS.classTypeRequired);
+  }
+  if (isLevelRequired(options) && !String(level ?? '').trim()) {
+    errors.push(COURSE_OPTION_ERRORS.levelRequired);
+  }
+  return errors;
+}
+
+export function formatCourseNameWithLevel(
+  options: CourseOptions | undefined,
+  name: string,
+  level: string | null | undefined
+) {
+  const selected = String(level ?? '').trim();
+  if (!selected || getLevelChoices(options).length === 0) return name;
+  const template = String(options?.level?.nameTemplate ?? '').trim() || DEFAULT_LEVEL_NAME_TEMPLATE;
+  return template.split('{name}').join(name).split('{level}').join(selected);
+}
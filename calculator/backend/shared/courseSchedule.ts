@@ -0,0 +1,251 @@
+/**
+ * 주 단위 과정의 수업 일정 계산.
+ * 휴강 기간이 걸린 주는 수강 주차로 세지 않고 종료일을 민다. 건너뛴 주차(skipWeeks)도 같다.
+ * 프런트 계산기(@/utils/calculatorLogic가 다시 내보냄)와 백엔드 퇴원 환불 검증이 같은 코드를 쓴다.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ALL_WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export type DateInput = string | number | Date | null | undefined;
+
+export type BreakRangeInput = {
+  startDate?: string | Date | null;
+  endDate?: string | Date | null;
+  start?: string | Date | null;
+  end?: string | Date | null;
+};
+
+type NormalizedBreakRange = {
+  start: Date;
+  end: Date;
+  startDate: string;
+  endDate: string;
+};
+
+export type ScheduleWeeksOptions = {
+  startDate?: DateInput;
+  endDate?: DateInput;
+  durationWeeks?: number | string;
+  skipWeeks?: Array<number | string>;
+  courseDays?: Array<number | string>;
+  endDayOfWeek?: number | null;
+  breakRanges?: BreakRangeInput[];
+};
+
+export type ScheduleWeeksResult = {
+  scheduleWeeks: number;
+  skipWeeks: number[];
+  breakWeekSet: Set<number>;
+};
+
+/** 과목 설정의 종료 요일. endDays[0] → endDay → 금요일 */
+export function resolveEndDay(info: { endDay?: number; endDays?: number[] } | null | undefined) {
+  const endDays = Array.isArray(info?.endDays) ? info.endDays : [];
+  if (endDays.length && Number.isInteger(endDays[0])) return endDays[0];
+  const endDay = info?.endDay;
+  if (Number.isInteger(endDay)) return endDay;
+  return 5;
+}
+
+export function parseDateOnly(value: DateInput) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function formatDateOnly(date: Date | null | undefined) {
+  if (!(date instanceof Date) || Number.isNaN(date.getTime())) return '';
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function getWeekIndex(start: DateInput, date: DateInput) {
+  const startDate = parseDateOnly(start);
+  const target = parseDateOnly(date);
+  if (!startDate || !target) return null;
+  const diffDays = Math.floor((target.getTime() - startDate.getTime()) / DAY_MS);
+  return Math.floor(diffDays / 7) + 1;
+}
+
+export function normalizeCourseDays(days: Array<number | string> | null | undefined) {
+  if (!Array.isArray(days)) return [];
+  return Array.from(
+    new Set(days.map((d) => Number(d)).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))
+  ).sort((a, b) => a - b);
+}
+
+export function normalizeBreakRanges(ranges: BreakRangeInput[] | null | undefined) {
+  if (!Array.isArray(ranges)) return [];
+  return ranges
+    .map((range) => {
+      const startRaw = range?.startDate ?? range?.start ?? '';
+      const endRaw = range?.endDate ?? range?.end ?? '';
+      const start = parseDateOnly(startRaw);
+      const end = parseDateOnly(endRaw);
+      if (!start || !end) return null;
+      const [s, e] = start <= end ? [start, end] : [end, start];
+      return { start: s, end: e, startDate: formatDateOnly(s), endDate: formatDateOnly(e) };
+    })
+    .filter((range): range is NormalizedBreakRange => Boolean(range))
+    .sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
+}
+
+export function getBreakDateSet(options: ScheduleWeeksOptions = {}) {
+  const { startDate, endDate, courseDays, breakRanges } = options;
+  const start = parseDateOnly(startDate);
+  const end = parseDateOnly(endDate);
+  if (!start || !end || start > end) return new Set<string>();
+
+  const normalizedBreaks = normalizeBreakRanges(breakRanges);
+  if (!normalizedBreaks.length) return new Set<string>();
+
+  const days = normalizeCourseDays(courseDays);
+  const daySet = new Set(days.length ? days : ALL_WEEK_DAYS);
+  const result = new Set<string>();
+
+  for (const range of normalizedBreaks) {
+    const rangeStart = range.start > start ? range.start : start;
+    const rangeEnd = range.end < end ? range.end : end;
+    if (rangeStart > rangeEnd) continue;
+
+    let cursor = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
+    while (cursor <= rangeEnd) {
+      if (daySet.has(cursor.getDay())) {
+        result.add(formatDateOnly(cursor));
+      }
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+    }
+  }
+
+  return result;
+}
+
+export function getBreakWeekSet(options: ScheduleWeeksOptions = {}) {
+  const { startDate, endDate, courseDays, breakRanges } = options;
+  const start = parseDateOnly(startDate);
+  if (!start) return new Set<number>();
+
+  const breakDates = getBreakDateSet({ startDate, endDate, courseDays, breakRanges });
+  const weeks = new Set<number>();
+
+  for (const dateKey of breakDates) {
+    const date = parseDateOnly(dateKey);
+    if (!date) continue;
+    const diffDays = Math.floor((date.getTime() - start.getTime()) / DAY_MS);
+    const weekIndex = Math.floor(diffDays / 7) + 1;
+    if (weekIndex >= 1) weeks.add(weekIndex);
+  }
+
+  return weeks;
+}
+
+function computeEndDateByWeeks(startDate: DateInput, durationWeeks: number | string, endDayOfWeek?: number | null) {
+  const start = parseDateOnly(startDate);
+  if (!start) return null;
+  const weeks = Number(durationWeeks);
+  if (!Number.isFinite(weeks) || weeks <= 0) return null;
+
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  end.setDate(end.getDate() + (weeks - 1) * 7);
+
+  const currentDay = end.getDay();
+  const targetDay = Number.isInteger(endDayOfWeek) ? Number(endDayOfWeek) : 5;
+
+  if (currentDay <= targetDay) {
+    end.setDate(end.getDate() + (targetDay - currentDay));
+  } else {
+    end.setDate(end.getDate() + (7 - currentDay + targetDay));
+  }
+
+  return end;
+}
+
+export function normalizeSkipWeeks(skipWeeks: Array<number | string> | null | undefined, period: number | string) {
+  const paidWeeks = Number(period) || 0;
+  if (!Number.isFinite(paidWeeks) || paidWeeks <= 0) return [];
+
+  const raw = Array.isArray(skipWeeks) ? skipWeeks : [];
+  let cleaned = raw
+    .map((w) => Number(w))
+    .filter((w) => Number.isInteger(w) && w > 1);
+
+  cleaned = Array.from(new Set(cleaned));
+
+  let prevLen;
+  do {
+    prevLen = cleaned.length;
+    const maxWeek = paidWeeks + cleaned.length;
+    cleaned = cleaned.filter((w) => w <= maxWeek);
+  } while (cleaned.length !== prevLen);
+
+  return cleaned.sort((a, b) => a - b);
+}
+
+export function getScheduleWeeks(options: ScheduleWeeksOptions = {}): ScheduleWeeksResult {
+  const {
+    startDate,
+    durationWeeks,
+    skipWeeks = [],
+    courseDays = [],
+    endDayOfWeek,
+    breakRanges = [],
+  } = options;
+  const baseWeeks = Number(durationWeeks);
+  if (!Number.isFinite(baseWeeks) || baseWeeks <= 0) {
+    return { scheduleWeeks: 0, skipWeeks: [], breakWeekSet: new Set<number>() };
+  }
+
+  const normalizedSkipWeeks = normalizeSkipWeeks(skipWeeks, baseWeeks);
+  const skipWeekSet = new Set(normalizedSkipWeeks);
+  let scheduleWeeks = baseWeeks + skipWeekSet.size;
+
+  const start = parseDateOnly(startDate);
+  const normalizedBreaks = normalizeBreakRanges(breakRanges);
+  if (!start || !normalizedBreaks.length) {
+    return { scheduleWeeks, skipWeeks: normalizedSkipWeeks, breakWeekSet: new Set<number>() };
+  }
+
+  const normalizedDays = normalizeCourseDays(courseDays);
+  const days = normalizedDays.length ? normalizedDays : ALL_WEEK_DAYS;
+  const endDay = Number.isInteger(endDayOfWeek) ? endDayOfWeek : 5;
+
+  let breakWeekSet = new Set<number>();
+  let prevBreakCount = -1;
+  for (let i = 0; i < 12; i += 1) {
+    const endDate = computeEndDateByWeeks(start, scheduleWeeks, endDay);
+    if (!endDate) break;
+
+    const nextBreakWeekSet = getBreakWeekSet({
+      startDate: start,
+      endDate,
+      courseDays: days,
+      breakRanges: normalizedBreaks,
+    });
+    const nextBreakCount = Array.from(nextBreakWeekSet).filter((week) => !skipWeekSet.has(week)).length;
+
+    if (nextBreakCount === prevBreakCount) {
+      breakWeekSet = nextBreakWeekSet;
+      break;
+    }
+
+    prevBreakCount = nextBreakCount;
+    scheduleWeeks = baseWeeks + skipWeekSet.size + nextBreakCount;
+    breakWeekSet = nextBreakWeekSet;
+  }
+
+  return { scheduleWeeks, skipWeeks: normalizedSkipWeeks, breakWeekSet };
+}
+
+/** 시작일부터 durationWeeks주 뒤의 종료 요일 */
+export function getEndDate(startDate: DateInput, durationWeeks: number | string, endDayOfWeek?: number | null) {
+  return computeEndDateByWeeks(startDate, durationWeeks, endDayOfWeek);
+}
@@ -0,0 +1,97 @@
+/**
+ * 할인 규칙 평가 엔진.
+ * 설정 세트별 할인 규칙(/api/discount-rules)을 계산기(@shared/discountEngine)와 백엔드가 같은 기준으로 해석한다.
+ */
+
+export const DISCOUNT_RULE_TYPES = {
+  sibling: 'sibling',
+  multiCourse: 'multiCourse',
+  earlyBird: 'earlyBird',
+  returning: 'returning',
+  coupon: 'coupon',
+} as const;
+
+export type DiscountRuleType = (typeof DISCOUNT_RULE_TYPES)[keyof typeof DISCOUNT_RULE_TYPES];
+
+export type DiscountRule = {
+  id: string;
+  name: string;
+  type: DiscountRuleType | string;
+  rate: number;
+  minCourses?: number | null;
+  deadline?: string | null;
+  couponCode?: string | null;
+  courseKeys?: string[];
+  isActive?: boolean;
+};
+
+export type DiscountContext = {
+  courseKey: string;
+  courseCount: number;
+  registrationDate: string;
+  hasSibling?: boolean;
+  isReturningStudent?: boolean;
+  couponCode?: string;
+};
+
+export type AppliedDiscountRule = {
+  id: string;
+  name: string;
+  type: string;
+  rate: number;
+};
+
+export type DiscountEvaluation = {
+  discount: number;
+  appliedRules: AppliedDiscountRule[];
+};
+
+export const DEFAULT_MIN_COURSES = 2;
+export const MAX_DISCOUNT_RATE = 1;
+
+export function isDiscountRuleType(value: unknown): value is DiscountRuleType {
+  return Object.values(DISCOUNT_RULE_TYPES).includes(value as DiscountRuleType);
+}
+
+export function normalizeCouponCode(value: unknown) {
+  return String(value ?? '').trim().toUpperCase();
+}
+
+function matchesCondition(rule: DiscountRule, context: DiscountContext) {
+  switch (rule.type) {
+    case DISCOUNT_RULE_TYPES.sibling:
+      return !!context.hasSibling;
+    case DISCOUNT_RULE_TYPES.multiCourse:
+      return context.courseCount >= (Number(rule.minCourses) || DEFAULT_MIN_COURSES);
+    case DISCOUNT_RULE_TYPES.earlyBird:
+      // 날짜는 YYYY-MM-DD 문자열이라 사전순 비교가 곧 날짜 비교다
+      return !!rule.deadline && !!context.registrationDate && context.registrationDate <= rule.deadline;
+    case DISCOUNT_RULE_TYPES.returning:
+      return !!context.isReturningStudent;
+    case DISCOUNT_RULE_TYPES.coupon: {
+      const code = normalizeCouponCode(rule.couponCode);
+      return !!code && code === normalizeCouponCode(context.couponCode);
+    }
+    default:
+      return false;
+  }
+}
+
+export function isDiscountRuleApplicable(rule: DiscountRule, context: DiscountContext) {
+  if (rule.isActive === false) return false;
+  const courseKeys = Array.isArray(rule.courseKeys) ? rule.courseKeys.filter(Boolean) : [];
+  if (courseKeys.length > 0 && !courseKeys.includes(context.courseKey)) return false;
+  return matchesCondition(rule, context);
+}
+
+/**
+ * 한 과목에 적용되는 규칙과 할인율. 적용된 규칙의 할인율을 더하고 100%를 넘지 않게 자른다.
+ */
+export function evaluateDiscountRules(rules: DiscountRule[], context: DiscountContext): DiscountEvaluation {
+  const appliedRules = rules
+    .filter((rule) => isDiscountRuleApplicable(rule, context))
+    .map((rule) => ({ id: rule.id, name: rule.name, type: rule.type, rate: Number(rule.rate) || 0 }));
+  const total = appliedRules.reduce((sum, rule) => sum + rule.rate, 0);
+  const discount = Math.round(Math.min(Math.max(total, 0), MAX_DISCOUNT_RATE) * 10000) / 10000;
+  return { discount, appliedRules };
+}
@@ -0,0 +1,170 @@
+/**
+ * 수강료 계산 엔진.
+ * 프런트엔드 계산기(@shared/feeEngine)와 백엔드(/api/quotes, 등록 저장 검증)가 같은 코드를 쓴다.
+ * 외부 의존성 없이 과목 설정(courseInfo)만 인자로 받는다.
+ */
+
+import { getCourseOptionFeeDelta, type CourseOptions } from './courseOptions';
+
+export type FeeDailyEntry = { days: number; fee: number };
+
+export type FeeCourseInfo = {
+  fee?: number;
+  mathExcludedFee?: number;
+  durationUnit?: 'weekly' | 'daily' | string;
+  dailyFees?: FeeDailyEntry[];
+  dynamicOptions?: Record<string, string | undefined>;
+  days?: number[];
+  endDay?: number;
+  endDays?: number[];
+  options?: CourseOptions;
+};
+
+export type FeeCourseInfoMap = Record<string, FeeCourseInfo | undefined>;
+
+export type FeeQuoteInput = {
+  courseKey: string;
+  period: number;
+  discount?: number;
+  excludeMath?: boolean;
+  satCampus?: string | null;
+  courseType?: string | null;
+  level?: string | null;
+  recordingDays?: number;
+};
+
+export type FeeQuote = {
+  baseFee: number;
+  totalDays: number;
+  recordingDays: number;
+  normalFee: number;
+  recordingFee: number;
+  totalFee: number;
+  error?: string;
+};
+
+export const RECORDING_FEE_RATE = 0.4;
+
+export const FEE_ERRORS = {
+  allRecording: 'All days cannot be recording',
+} as const;
+
+/** 일 단위 요금 조회: 정확한 일수 매칭 → 없으면 1일 단가 × 일수 → 없으면 null */
+export function resolveDailyFee(dailyFees: FeeDailyEntry[], days: number): number | null {
+  if (days <= 0) return null;
+  const exact = dailyFees.find((f) => f.days === days);
+  if (exact) return exact.fee;
+  const unit = dailyFees.find((f) => f.days === 1);
+  if (unit) return unit.fee * days;
+  return null;
+}
+
+// Helper: Calculate total days considering week boundary crossing (e.g., Sat->Sun)
+export function calculateTotalDays(courseDays: number[], endDay: number | undefined, period: number): number {
+  if (!courseDays.length || period <= 0) return 0;
+
+  if (endDay !== undefined) {
+    // Use index-based calculation to handle week boundary crossing (e.g., days=[6,0], endDay=0)
+    const endDayIndex = courseDays.indexOf(endDay);
+    const daysInLastWeek = endDayIndex >= 0 ? endDayIndex + 1 : courseDays.length;
+    return period > 1 ? (period - 1) * courseDays.length + daysInLastWeek : daysInLastWeek;
+  }
+
+  return period * courseDays.length;
+}
+
+// Logic: Calculate Recording Fee
+export function calculateRecordingFee(baseFee: number, totalDays: number, recordingDays: number, discount: number) {
+  const normalDays = totalDays - recordingDays;
+  const dailyFee = baseFee / totalDays;
+
+  const recordingCost = dailyFee * recordingDays * RECORDING_FEE_RATE;
+  const normalCost = dailyFee * normalDays * (1 - discount);
+
+  return {
+    recording: Math.round(recordingCost),
+    normal: Math.round(normalCost),
+    total: Math.round(recordingCost + normalCost),
+  };
+}
+
+export function getFeeEndDay(info: FeeCourseInfo) {
+  if (info.endDays) return info.endDays[0];
+  return info.endDay !== undefined ? info.endDay : 5;
+}
+
+export function getFeeCourseDays(info: FeeCourseInfo) {
+  return info.days || [1, 2, 3, 4, 5];
+}
+
+/**
+ * 할인/녹화 적용 전 기본 수강료. 과목이 없으면 null.
+ * 캠퍼스 옵션(dynamicOptions)은 해당 과목의 주당 수강료를, 수학 제외는 mathExcludedFee를 쓴다.
+ * 수업 형태/레벨 옵션의 가감액(options)은 주 또는 일 단위로 더한다.
+ */
+export function getCourseBaseFee(
+  courseInfo: FeeCourseInfoMap,
+  { courseKey, period, excludeMath = false, satCampus = null, courseType = null, level = null }: FeeQuoteInput
+): number | null {
+  const c = courseInfo[courseKey];
+  if (!c) return null;
+
+  let weeklyFee = Number(c.fee ?? 0);
+  if (c.dynamicOptions && satCampus) {
+    const dynamicCourseKey = c.dynamicOptions[satCampus];
+    const dynamicCourse = dynamicCourseKey ? courseInfo[dynamicCourseKey] : undefined;
+    if (dynamicCourse) {
+      weeklyFee = Number(dynamicCourse.fee ?? weeklyFee);
+    }
+  }
+
+  if (excludeMath && c.mathExcludedFee) {
+    weeklyFee = c.mathExcludedFee;
+  }
+
+  const optionFeeDelta = getCourseOptionFeeDelta(c.options, { courseType, level });
+  if (c.durationUnit === 'daily') {
+    const dailyFees = Array.isArray(c.dailyFees) ? c.dailyFees : [];
+    const dailyFee = resolveDailyFee(dailyFees, period);
+    return dailyFee === null ? 0 : dailyFee + optionFeeDelta * period;
+  }
+  return (weeklyFee + optionFeeDelta) * period;
+}
+
+/**
+ * 최종 수강료. 녹화 수업이 있으면 녹화일은 40%, 나머지는 할인율을 적용한다.
+ */
+export function calculateCourseFee(courseInfo: FeeCourseInfoMap, input: FeeQuoteInput): FeeQuote | null {
+  const c = courseInfo[input.courseKey];
+  if (!c) return null;
+
+  const period = Number(input.period) || 0;
+  const discount = Number(input.discount) || 0;
+  const recordingDays = Math.max(Number(input.recordingDays) || 0, 0);
+  const totalDays =
+    c.durationUnit === 'daily'
+      ? period
+      : calculateTotalDays(getFeeCourseDays(c), getFeeEndDay(c), period);
+  const empty = { baseFee: 0, totalDays, recordingDays, normalFee: 0, recordingFee: 0, totalFee: 0 };
+
+  if (period <= 0) return empty;
+  if (recordingDays > 0 && recordingDays >= totalDays) {
+    return { ...empty, error: FEE_ERRORS.allRecording };
+  }
+
+  const baseFee = getCourseBaseFee(courseInfo, { ...input, period }) ?? 0;
+  if (recordingDays > 0 && totalDays > 0) {
+    const fees = calculateRecordingFee(baseFee, totalDays, recordingDays, discount);
+    return {
+      baseFee,
+      totalDays,
+      recordingDays,
+      normalFee: fees.normal,
+      recordingFee: fees.recording,
+      totalFee: fees.total,
+    };
+  }
+
+  const totalFee = Math.round(baseFee * (1 - discount));
+  return { baseFee, totalDays, recordingDays, normalFee: totalFee, recordingFee: 0, totalFee };
+}
@@ -0,0 +1,32 @@
+/**
+ * 등록 청구액.
+ * 수납 잔액(등록 목록, 수납 기록, 학생 단위 잔액)이 같은 규칙으로 청구액을 낸다.
+ * 퇴원 정산된 등록은 확정 수강료(retainedFee)만, 전반 정산이 있는 등록은 정산 차액만 청구한다.
+ * 전반으로 만든 등록은 이전 등록의 수강료를 그대로 복사해 두므로, 정산이 없으면(정산 기능 이전의 전반) 새로 청구하지 않는다.
+ */
+
+export type BillableRegistration = {
+  tuitionFee?: number | null;
+  withdrawnAt?: Date | string | null;
+  retainedFee?: number | null;
+  transferFromId?: string | null;
+};
+
+/** 연장을 뺀 등록 자체의 청구액 */
+export function getRegistrationBaseBill(row: BillableRegistration, settlementDifference: number | null = null) {
+  if (settlementDifference !== null) return settlementDifference;
+  if (row.transferFromId) return 0;
+  return Number(row.tuitionFee || 0);
+}
+
+/** 등록 + 연장 청구액. 퇴원 정산된 등록은 확정 수강료 하나로 본다 */
+export function getBilledAmount(
+  row: BillableRegistration,
+  extensionFee: number,
+  settlementDifference: number | null = null
+) {
+  if (row.withdrawnAt && row.retainedFee !== null && row.retainedFee !== undefined) {
+    return Number(row.retainedFee);
+  }
+  return getRegistrationBaseBill(row, settlementDifference) + extensionFee;
+}
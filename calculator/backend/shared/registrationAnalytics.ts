@@ -0,0 +1,411 @@
+/**
+ * 수강·매출 통계.
+ * 등록 목록을 기간(주/월)과 묶음(설정 세트/카테고리/과목)별로 집계한다. 백엔드 통계 API와 프런트 통계 탭이 같은 정의를 쓴다.
+ * 날짜는 모두 YYYY-MM-DD 문자열이고, 주는 월요일에 시작한다.
+ */
+
+import { getRegistrationBaseBill } from './paymentBilling';
+
+export const ANALYTICS_GRANULARITIES = ['week', 'month'] as const;
+export const ANALYTICS_GROUP_BYS = ['courseConfigSet', 'category', 'course'] as const;
+export const ANALYTICS_METRICS = [
+  'activeStudents',
+  'newEnrollments',
+  'returningEnrollments',
+  'withdrawals',
+  'transfers',
+  'revenue',
+] as const;
+
+export type AnalyticsGranularity = (typeof ANALYTICS_GRANULARITIES)[number];
+export type AnalyticsGroupBy = (typeof ANALYTICS_GROUP_BYS)[number];
+export type AnalyticsMetric = (typeof ANALYTICS_METRICS)[number];
+
+export type AnalyticsQuery = {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  groupBy: AnalyticsGroupBy;
+  /** 비교할 설정 세트. 비어 있으면 볼 수 있는 세트 전체 */
+  courseConfigSetNames: string[];
+  category: string;
+};
+
+export type AnalyticsRegistration = {
+  id: string;
+  /** 같은 학생을 묶는 키. 학생 연결이 없으면 이름으로 묶는다 */
+  studentKey: string;
+  courseConfigSetName: string;
+  category: string;
+  course: string;
+  startDate: string | null;
+  endDate: string | null;
+  withdrawnAt: string | null;
+  transferFromId: string | null;
+  transferToId: string | null;
+  transferAt: string | null;
+  tuitionFee: number;
+  retainedFee: number | null;
+  /** 전반 정산 차액. 있으면 수강료 대신 차액을 매출로 잡는다 */
+  settlementDifference: number | null;
+};
+
+export type AnalyticsExtension = {
+  registrationId: string;
+  startDate: string | null;
+  tuitionFee: number;
+};
+
+export type AnalyticsPeriod = {
+  key: string;
+  start: string;
+  end: string;
+};
+
+export type AnalyticsMetrics = Record<AnalyticsMetric, number>;
+
+export type AnalyticsRow = AnalyticsMetrics & {
+  courseConfigSetName: string;
+  category: string;
+  course: string;
+  periodKey: string;
+};
+
+export type RegistrationAnalyticsReport = {
+  from: string;
+  to: string;
+  granularity: AnalyticsGranularity;
+  groupBy: AnalyticsGroupBy;
+  periods: AnalyticsPeriod[];
+  rows: AnalyticsRow[];
+  /** 묶음 구분 없이 기간별 합계. 재원생은 학생 기준으로 한 번만 센다 */
+  totals: Array<AnalyticsMetrics & { periodKey: string }>;
+};
+
+/** 주 단위는 2년, 월 단위는 5년까지 */
+export const ANALYTICS_MAX_PERIODS = { week: 106, month: 60 } as const;
+
+export const ANALYTICS_MESSAGES = {
+  invalidDate: '조회 기간을 확인해 주세요. (YYYY-MM-DD)',
+  invalidRange: '조회 시작일은 종료일보다 늦을 수 없습니다.',
+  invalidGranularity: '집계 단위는 주 또는 월이어야 합니다.',
+  invalidGroupBy: '묶음 기준을 확인해 주세요.',
+  tooManyPeriods: '조회 기간이 너무 깁니다. 기간을 줄이거나 월 단위로 조회해 주세요.',
+} as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readText(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function isDateKey(value: string) {
+  return DATE_KEY_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function toDateKey(value: unknown) {
+  const text = String(value ?? '').trim().slice(0, 10);
+  return isDateKey(text) ? text : '';
+}
+
+function parseDateKey(value: string) {
+  return new Date(`${value}T00:00:00Z`);
+}
+
+function formatDateKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(value: string, days: number) {
+  return formatDateKey(new Date(parseDateKey(value).getTime() + days * DAY_MS));
+}
+
+function getWeekStart(value: string) {
+  const date = parseDateKey(value);
+  const offset = (date.getUTCDay() + 6) % 7;
+  return addDays(value, -offset);
+}
+
+function getMonthStart(value: string) {
+  return `${value.slice(0, 7)}-01`;
+}
+
+function getNextMonthStart(value: string) {
+  const date = parseDateKey(getMonthStart(value));
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return formatDateKey(date);
+}
+
+export function createEmptyAnalyticsMetrics(): AnalyticsMetrics {
+  return {
+    activeStudents: 0,
+    newEnrollments: 0,
+    returningEnrollments: 0,
+    withdrawals: 0,
+    transfers: 0,
+    revenue: 0,
+  };
+}
+
+/** 기간을 주/월 단위로 나눈다. 첫 기간과 마지막 기간은 조회 기간에 맞춰 잘린다 */
+export function buildAnalyticsPeriods(from: string, to: string, granularity: AnalyticsGranularity) {
+  const periods: AnalyticsPeriod[] = [];
+  if (!isDateKey(from) || !isDateKey(to) || from > to) return periods;
+
+  let cursor = granularity === 'week' ? getWeekStart(from) : getMonthStart(from);
+  while (cursor <= to) {
+    const next = granularity === 'week' ? addDays(cursor, 7) : getNextMonthStart(cursor);
+    const end = addDays(next, -1);
+    periods.push({
+      key: granularity === 'week' ? cursor : cursor.slice(0, 7),
+      start: cursor < from ? from : cursor,
+      end: end > to ? to : end,
+    });
+    cursor = next;
+  }
+  return periods;
+}
+
+export function parseAnalyticsQuery(
+  raw: Record<string, unknown> | null | undefined
+): { query: AnalyticsQuery | null; error: string } {
+  const from = readText(raw?.from);
+  const to = readText(raw?.to);
+  if (!isDateKey(from) || !isDateKey(to)) return { query: null, error: ANALYTICS_MESSAGES.invalidDate };
+  if (from > to) return { query: null, error: ANALYTICS_MESSAGES.invalidRange };
+
+  const granularity = readText(raw?.granularity) || 'month';
+  if (!(ANALYTICS_GRANULARITIES as readonly string[]).includes(granularity)) {
+    return { query: null, error: ANALYTICS_MESSAGES.invalidGranularity };
+  }
+  const groupBy = readText(raw?.groupBy) || 'category';
+  if (!(ANALYTICS_GROUP_BYS as readonly string[]).includes(groupBy)) {
+    return { query: null, error: ANALYTICS_MESSAGES.invalidGroupBy };
+  }
+
+  const periodCount = buildAnalyticsPeriods(from, to, granularity as AnalyticsGranularity).length;
+  if (periodCount > ANALYTICS_MAX_PERIODS[granularity as AnalyticsGranularity]) {
+    return { query: null, error: ANALYTICS_MESSAGES.tooManyPeriods };
+  }
+
+  const courseConfigSetNames = Array.from(
+    new Set(
+      readText(raw?.courseConfigSetNames)
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    )
+  );
+
+  return {
+    query: {
+      from,
+      to,
+      granularity: granularity as AnalyticsGranularity,
+      groupBy: groupBy as AnalyticsGroupBy,
+      courseConfigSetNames,
+      category: readText(raw?.category),
+    },
+    error: '',
+  };
+}
+
+/** 쿼리 문자열에 넣을 값. 빈 조건은 뺀다 */
+export function buildAnalyticsQueryParams(query: AnalyticsQuery) {
+  const params: Record<string, string> = {
+    from: query.from,
+    to: query.to,
+    granularity: query.granularity,
+    groupBy: query.groupBy,
+  };
+  if (query.courseConfigSetNames.length) params.courseConfigSetNames = query.courseConfigSetNames.join(',');
+  if (query.category) params.category = query.category;
+  return params;
+}
+
+/**
+ * 수강 중으로 보는 마지막 날. 퇴원일·전반일 전날에서 끝나고, 종료일이 없으면 조회 끝까지 수강 중으로 본다.
+ */
+function getEffectiveEnd(row: AnalyticsRegistration) {
+  const candidates = [toDateKey(row.endDate)];
+  const withdrawnAt = toDateKey(row.withdrawnAt);
+  if (withdrawnAt) candidates.push(addDays(withdrawnAt, -1));
+  const transferAt = toDateKey(row.transferAt);
+  if (row.transferToId && transferAt) candidates.push(addDays(transferAt, -1));
+  const ends = candidates.filter(Boolean).sort();
+  return ends[0] || '';
+}
+
+/**
+ * 퇴원 정산된 등록은 확정 수강료만, 전반 정산이 있으면 차액만 매출로 잡는다.
+ * 정산 없이 전반으로 만든 등록은 이전 등록에서 이미 잡은 수강료를 복사한 것이라 0이다 (청구액과 같은 규칙).
+ */
+function getBookedTuition(row: AnalyticsRegistration) {
+  if (toDateKey(row.withdrawnAt) && row.retainedFee !== null && row.retainedFee !== undefined) {
+    return { amount: Number(row.retainedFee) || 0, includeExtensions: false };
+  }
+  return {
+    amount: Number(getRegistrationBaseBill(row, row.settlementDifference ?? null)) || 0,
+    includeExtensions: true,
+  };
+}
+
+function getGroupKey(row: AnalyticsRegistration, groupBy: AnalyticsGroupBy) {
+  return {
+    courseConfigSetName: row.courseConfigSetName,
+    category: groupBy === 'courseConfigSet' ? '' : row.category,
+    course: groupBy === 'course' ? row.course : '',
+  };
+}
+
+type PeriodBucket = {
+  metrics: AnalyticsMetrics;
+  students: Set<string>;
+};
+
+function createBuckets(periods: AnalyticsPeriod[]) {
+  return new Map<string, PeriodBucket>(
+    periods.map((period) => [period.key, { metrics: createEmptyAnalyticsMetrics(), students: new Set<string>() }])
+  );
+}
+
+function findPeriodKey(periods: AnalyticsPeriod[], dateKey: string) {
+  if (!dateKey) return '';
+  const period = periods.find((entry) => entry.start <= dateKey && dateKey <= entry.end);
+  return period ? period.key : '';
+}
+
+/**
+ * 기간·묶음별 통계.
+ * - 재원생: 수강 기간이 기간과 겹치는 학생 수 (한 학생이 여러 과목이어도 한 번)
+ * - 신규/재등록: 기간 안에 시작한 등록. 그 학생의 더 이른 등록이 있으면 재등록. 전반으로 만든 등록은 세지 않는다
+ * - 퇴원/전반: 퇴원일·전반일이 기간 안인 등록
+ * - 매출: 등록 수강료는 시작일, 연장 수강료는 연장 시작일에 잡는다
+ */
+export function buildRegistrationAnalytics(
+  {
+    registrations,
+    extensions = [],
+  }: { registrations: AnalyticsRegistration[]; extensions?: AnalyticsExtension[] },
+  query: AnalyticsQuery
+): RegistrationAnalyticsReport {
+  const periods = buildAnalyticsPeriods(query.from, query.to, query.granularity);
+  const lastDay = periods.length ? periods[periods.length - 1].end : query.to;
+
+  // 재등록 판정은 조회 조건과 상관없이 받은 등록 전체로 한다
+  const firstStartByStudent = new Map<string, string>();
+  for (const row of registrations) {
+    const start = toDateKey(row.startDate);
+    if (!start || row.transferFromId) continue;
+    const prev = firstStartByStudent.get(row.studentKey);
+    if (!prev || start < prev) firstStartByStudent.set(row.studentKey, start);
+  }
+
+  const setFilter = new Set(query.courseConfigSetNames);
+  const targets = registrations.filter(
+    (row) =>
+      (!setFilter.size || setFilter.has(row.courseConfigSetName)) &&
+      (!query.category || row.category === query.category)
+  );
+
+  const extensionsByRegistration = new Map<string, AnalyticsExtension[]>();
+  for (const extension of extensions) {
+    const list = extensionsByRegistration.get(extension.registrationId) || [];
+    list.push(extension);
+    extensionsByRegistration.set(extension.registrationId, list);
+  }
+
+  const groups = new Map<string, { key: ReturnType<typeof getGroupKey>; buckets: Map<string, PeriodBucket> }>();
+  const totalBuckets = createBuckets(periods);
+
+  const apply = (
+    groupBuckets: Map<string, PeriodBucket>,
+    periodKey: string,
+    update: (bucket: PeriodBucket) => void
+  ) => {
+    if (!periodKey) return;
+    const groupBucket = groupBuckets.get(periodKey);
+    const totalBucket = totalBuckets.get(periodKey);
+    if (groupBucket) update(groupBucket);
+    if (totalBucket) update(totalBucket);
+  };
+
+  for (const row of targets) {
+    const key = getGroupKey(row, query.groupBy);
+    const mapKey = `${key.courseConfigSetName}\u0000${key.category}\u0000${key.course}`;
+    let group = groups.get(mapKey);
+    if (!group) {
+      group = { key, buckets: createBuckets(periods) };
+      groups.set(mapKey, group);
+    }
+    const buckets = group.buckets;
+
+    const start = toDateKey(row.startDate);
+    const end = getEffectiveEnd(row) || lastDay;
+    if (start && start <= end) {
+      for (const period of periods) {
+        if (start > period.end || end < period.start) continue;
+        apply(buckets, period.key, (bucket) => bucket.students.add(row.studentKey));
+      }
+    }
+
+    if (start && !row.transferFromId) {
+      const firstStart = firstStartByStudent.get(row.studentKey) || start;
+      const metric = firstStart < start ? 'returningEnrollments' : 'newEnrollments';
+      apply(buckets, findPeriodKey(periods, start), (bucket) => {
+        bucket.metrics[metric] += 1;
+      });
+    }
+
+    apply(buckets, findPeriodKey(periods, toDateKey(row.withdrawnAt)), (bucket) => {
+      bucket.metrics.withdrawals += 1;
+    });
+    if (row.transferToId) {
+      apply(buckets, findPeriodKey(periods, toDateKey(row.transferAt)), (bucket) => {
+        bucket.metrics.transfers += 1;
+      });
+    }
+
+    const booked = getBookedTuition(row);
+    apply(buckets, findPeriodKey(periods, start), (bucket) => {
+      bucket.metrics.revenue += booked.amount;
+    });
+    if (booked.includeExtensions) {
+      for (const extension of extensionsByRegistration.get(row.id) || []) {
+        const bookedAt = toDateKey(extension.startDate) || start;
+        apply(buckets, findPeriodKey(periods, bookedAt), (bucket) => {
+          bucket.metrics.revenue += Number(extension.tuitionFee) || 0;
+        });
+      }
+    }
+  }
+
+  const finish = (bucket: PeriodBucket | undefined): AnalyticsMetrics => {
+    if (!bucket) return createEmptyAnalyticsMetrics();
+    return { ...bucket.metrics, activeStudents: bucket.students.size };
+  };
+
+  const rows: AnalyticsRow[] = [];
+  const sortedGroups = Array.from(groups.values()).sort(
+    (a, b) =>
+      a.key.courseConfigSetName.localeCompare(b.key.courseConfigSetName, 'ko-KR') ||
+      a.key.category.localeCompare(b.key.category, 'ko-KR') ||
+      a.key.course.localeCompare(b.key.course, 'ko-KR')
+  );
+  for (const group of sortedGroups) {
+    for (const period of periods) {
+      rows.push({ ...group.key, periodKey: period.key, ...finish(group.buckets.get(period.key)) });
+    }
+  }
+
+  return {
+    from: query.from,
+    to: query.to,
+    granularity: query.granularity,
+    groupBy: query.groupBy,
+    periods,
+    rows,
+    totals: periods.map((period) => ({ periodKey: period.key, ...finish(totalBuckets.get(period.key)) })),
+  };
+}
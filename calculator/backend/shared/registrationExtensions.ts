@@ -0,0 +1,130 @@
+/**
+ * 분납 연장 기간.
+ * 연장 한 건은 시작일부터 연장 주수 × 7일을 차지한다고 보고, 같은 등록의 연장끼리는 이 기간이 겹치면 안 된다.
+ * 연장에 딸린 휴강 주차·녹화 날짜는 그 연장 시작일부터 다음 연장 시작 전날(마지막 연장이면 등록 종료일)까지에 속한다.
+ * 백엔드 연장 수정·삭제와 프런트 연장 수정 화면이 같은 규칙을 쓴다. 날짜는 모두 YYYY-MM-DD 문자열이다.
+ */
+
+export type ExtensionPeriodInput = {
+  id: string;
+  startDate: string;
+  weeks: number;
+};
+
+export type ExtensionDateRange = {
+  startDate: string;
+  endDate: string;
+};
+
+export const EXTENSION_MESSAGES = {
+  invalidStartDate: '연장 시작일을 확인해 주세요.',
+  invalidWeeks: '연장 주수를 확인해 주세요.',
+  beforeRegistrationStart: '연장 시작일은 등록 시작일보다 빠를 수 없습니다.',
+  overlap: '다른 연장 기간과 겹칩니다.',
+} as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(value: unknown) {
+  const text = String(value ?? '').trim().slice(0, 10);
+  if (!DATE_KEY_PATTERN.test(text)) return '';
+  const time = Date.parse(`${text}T00:00:00Z`);
+  return Number.isNaN(time) ? '' : text;
+}
+
+function shiftDateKey(dateKey: string, days: number) {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** API 응답을 연장 목록으로 정리한다. 시작일·주수가 맞지 않는 항목은 빼고 시작일 순으로 둔다. */
+export function normalizeExtensionPeriods(value: unknown): ExtensionPeriodInput[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map((item) => ({
+      id: String(item.id ?? '').trim(),
+      startDate: toDateKey(item.startDate),
+      weeks: Number(item.weeks),
+    }))
+    .filter((ext) => ext.startDate && Number.isInteger(ext.weeks) && ext.weeks > 0)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/** 연장이 차지하는 기간. 시작일·주수가 맞지 않으면 null */
+export function getExtensionPeriod(ext: { startDate: string; weeks: number }): ExtensionDateRange | null {
+  const startDate = toDateKey(ext.startDate);
+  const weeks = Number(ext.weeks);
+  if (!startDate || !Number.isInteger(weeks) || weeks <= 0) return null;
+  return { startDate, endDate: shiftDateKey(startDate, weeks * 7 - 1) };
+}
+
+/** candidate 기간과 겹치는 첫 연장. ignoreId는 수정 중인 연장이라 뺀다. */
+export function findOverlappingExtension(
+  extensions: ExtensionPeriodInput[],
+  candidate: { startDate: string; weeks: number },
+  ignoreId = ''
+) {
+  const range = getExtensionPeriod(candidate);
+  if (!range) return null;
+  return (
+    extensions.find((ext) => {
+      if (ext.id === ignoreId) return false;
+      const other = getExtensionPeriod(ext);
+      return Boolean(other && other.startDate <= range.endDate && other.endDate >= range.startDate);
+    }) || null
+  );
+}
+
+/**
+ * 수정·삭제할 연장을 검사한다. 문제가 없으면 빈 문자열.
+ * registrationStartDate보다 앞서 시작하거나 다른 연장과 겹치면 안 된다.
+ */
+export function getExtensionRangeError(
+  extensions: ExtensionPeriodInput[],
+  candidate: { startDate: string; weeks: number },
+  registrationStartDate: string,
+  ignoreId = ''
+) {
+  const startDate = toDateKey(candidate.startDate);
+  if (!startDate) return EXTENSION_MESSAGES.invalidStartDate;
+  if (!Number.isInteger(Number(candidate.weeks)) || Number(candidate.weeks) <= 0) {
+    return EXTENSION_MESSAGES.invalidWeeks;
+  }
+  const registrationStart = toDateKey(registrationStartDate);
+  if (registrationStart && startDate < registrationStart) return EXTENSION_MESSAGES.beforeRegistrationStart;
+  return findOverlappingExtension(extensions, { startDate, weeks: candidate.weeks }, ignoreId)
+    ? EXTENSION_MESSAGES.overlap
+    : '';
+}
+
+/**
+ * 연장에 딸린 휴강 주차·녹화 날짜가 들어가는 기간.
+ * 다음 연장 시작 전날까지이고, 마지막 연장이면 registrationEndDate까지다 (없으면 연장 기간 끝).
+ */
+export function getExtensionCoverage(
+  extensions: ExtensionPeriodInput[],
+  target: ExtensionPeriodInput,
+  registrationEndDate?: string | null
+): ExtensionDateRange | null {
+  const period = getExtensionPeriod(target);
+  if (!period) return null;
+  const next = extensions
+    .filter((ext) => ext.id !== target.id && ext.startDate > period.startDate)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
+  if (next) return { startDate: period.startDate, endDate: shiftDateKey(next.startDate, -1) };
+  const registrationEnd = toDateKey(registrationEndDate);
+  return {
+    startDate: period.startDate,
+    endDate: registrationEnd && registrationEnd > period.endDate ? registrationEnd : period.endDate,
+  };
+}
+
+/** 등록 시작 주를 1로 센 날짜의 주차 */
+export function getRegistrationWeekIndex(registrationStartDate: string, dateKey: string) {
+  const start = toDateKey(registrationStartDate);
+  const date = toDateKey(dateKey);
+  if (!start || !date) return 0;
+  const diff = (Date.parse(`${date}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS;
+  return Math.floor(diff / 7) + 1;
+}
@@ -0,0 +1,153 @@
+/**
+ * 등록 휴원 기간.
+ * 휴원은 그 학생에게만 걸린 휴강 기간처럼 다룬다. 수업 요일이 휴원 기간에 걸린 주는 수강 주차로 세지 않고 종료일을 그만큼 민다.
+ * 복귀일을 정하지 않은 휴원은 복귀일을 넣기 전까지 종료일을 밀지 않고, 시작일부터 계속 휴원 중으로 본다.
+ * 백엔드 종료일 계산과 프런트 출석부·분납 안내·간트가 같은 규칙을 쓴다. 날짜는 모두 YYYY-MM-DD 문자열이다.
+ */
+
+export type RegistrationHold = {
+  id: string;
+  registrationId: string;
+  startDate: string;
+  /** 복귀 전 마지막 휴원일. null이면 복귀일 미정 */
+  endDate: string | null;
+  reason: string;
+};
+
+export type HoldBreakRange = {
+  startDate: string;
+  endDate: string;
+};
+
+export type HoldWeekOptions = {
+  startDate: string;
+  weeks: number;
+  skipWeeks?: unknown[] | null;
+  /** 0(일)~6(토). 비어 있으면 모든 요일 */
+  courseDays?: unknown[] | null;
+  holds: RegistrationHold[];
+};
+
+export const HOLD_MESSAGES = {
+  invalidStartDate: '휴원 시작일을 확인해 주세요.',
+  invalidEndDate: '복귀 전 마지막 휴원일은 시작일보다 빠를 수 없습니다.',
+  overlap: '이미 등록된 휴원 기간과 겹칩니다.',
+} as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 휴원 주차를 더해 늘어난 기간에 다시 휴원이 걸리는지 확인하는 최대 횟수
+const MAX_SCHEDULE_PASSES = 12;
+
+function toDateKey(value: unknown) {
+  const text = String(value ?? '').trim().slice(0, 10);
+  if (!DATE_KEY_PATTERN.test(text)) return '';
+  const time = Date.parse(`${text}T00:00:00Z`);
+  return Number.isNaN(time) ? '' : text;
+}
+
+function toUtcTime(dateKey: string) {
+  return Date.parse(`${dateKey}T00:00:00Z`);
+}
+
+function formatUtcTime(time: number) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** API 응답·입력을 휴원 목록으로 정리한다. 날짜가 맞지 않는 항목은 뺀다. */
+export function normalizeRegistrationHolds(value: unknown): RegistrationHold[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map((item) => ({
+      id: String(item.id ?? '').trim(),
+      registrationId: String(item.registrationId ?? '').trim(),
+      startDate: toDateKey(item.startDate),
+      endDate: toDateKey(item.endDate) || null,
+      reason: String(item.reason ?? '').trim(),
+    }))
+    .filter((hold) => hold.startDate && (!hold.endDate || hold.endDate >= hold.startDate))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+/** from~to 기간에 걸친 첫 휴원 */
+export function findHoldInRange(holds: RegistrationHold[], from: string, to: string = from) {
+  return (
+    holds.find((hold) => hold.startDate <= to && (!hold.endDate || hold.endDate >= from)) || null
+  );
+}
+
+export function isOnHold(holds: RegistrationHold[], dateKey: string) {
+  return Boolean(dateKey && findHoldInRange(holds, dateKey));
+}
+
+/**
+ * 휴원을 휴강 기간 형식으로 바꾼다.
+ * openEndDate를 주면 복귀일 미정 휴원을 그날까지로 보고, 없으면 뺀다 (종료일 계산에는 넣지 않는다).
+ */
+export function getHoldBreakRanges(holds: RegistrationHold[], openEndDate?: string): HoldBreakRange[] {
+  const openEnd = toDateKey(openEndDate);
+  return holds
+    .map((hold) => ({ startDate: hold.startDate, endDate: hold.endDate || openEnd }))
+    .filter((range) => range.endDate && range.endDate >= range.startDate);
+}
+
+/**
+ * 새 휴원 기간을 검사한다. 문제가 없으면 빈 문자열.
+ * ignoreId는 수정 중인 휴원이라 겹침 검사에서 뺀다.
+ */
+export function getHoldRangeError(
+  holds: RegistrationHold[],
+  range: { startDate: string; endDate: string | null },
+  ignoreId = ''
+) {
+  if (!toDateKey(range.startDate)) return HOLD_MESSAGES.invalidStartDate;
+  if (range.endDate && range.endDate < range.startDate) return HOLD_MESSAGES.invalidEndDate;
+  const others = holds.filter((hold) => hold.id !== ignoreId);
+  const overlaps = others.some(
+    (hold) =>
+      (!range.endDate || hold.startDate <= range.endDate) &&
+      (!hold.endDate || hold.endDate >= range.startDate)
+  );
+  return overlaps ? HOLD_MESSAGES.overlap : '';
+}
+
+/**
+ * 휴원으로 수업이 빠지는 주차(등록 시작 주가 1). 이미 휴강 주차로 뺀 주는 넣지 않는다.
+ * 휴원 주차만큼 기간이 늘면 늘어난 기간에 걸리는 휴원도 다시 센다.
+ */
+export function getHoldWeekIndexes({ startDate, weeks, skipWeeks, courseDays, holds }: HoldWeekOptions) {
+  const startKey = toDateKey(startDate);
+  const paidWeeks = Number(weeks);
+  const ranges = getHoldBreakRanges(holds);
+  if (!startKey || !Number.isFinite(paidWeeks) || paidWeeks <= 0 || !ranges.length) return [];
+
+  const start = toUtcTime(startKey);
+  const skipSet = new Set(
+    (Array.isArray(skipWeeks) ? skipWeeks : []).map(Number).filter((week) => Number.isInteger(week))
+  );
+  const days = (Array.isArray(courseDays) ? courseDays : [])
+    .map(Number)
+    .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  const daySet = new Set(days.length ? days : [0, 1, 2, 3, 4, 5, 6]);
+
+  let holdWeeks: number[] = [];
+  for (let pass = 0; pass < MAX_SCHEDULE_PASSES; pass += 1) {
+    const scheduleWeeks = paidWeeks + skipSet.size + holdWeeks.length;
+    const lastKey = formatUtcTime(start + (scheduleWeeks * 7 - 1) * DAY_MS);
+    const found = new Set<number>();
+    for (const range of ranges) {
+      const from = range.startDate > startKey ? range.startDate : startKey;
+      const to = range.endDate < lastKey ? range.endDate : lastKey;
+      for (let time = toUtcTime(from); from <= to && time <= toUtcTime(to); time += DAY_MS) {
+        if (!daySet.has(new Date(time).getUTCDay())) continue;
+        const week = Math.floor((time - start) / DAY_MS / 7) + 1;
+        if (!skipSet.has(week)) found.add(week);
+      }
+    }
+    const next = Array.from(found).sort((a, b) => a - b);
+    if (next.length === holdWeeks.length) return next;
+    holdWeeks = next;
+  }
+  return holdWeeks;
+}
@@ -0,0 +1,179 @@
+/**
+ * 등록 목록 조회 조건.
+ * GET /api/registrations 쿼리를 읽고 상태·기간을 판정한다. 프런트 등록 탭은 같은 모듈로 쿼리를 만든다.
+ * 상태는 퇴원 > 전반 > 날짜 순으로 정한다. 날짜는 모두 YYYY-MM-DD 문자열이다.
+ */
+
+export const REGISTRATION_LIST_STATUSES = ['active', 'pending', 'ended', 'withdrawn', 'transferred'] as const;
+
+export type RegistrationListStatus = (typeof REGISTRATION_LIST_STATUSES)[number];
+
+export type RegistrationListQuery = {
+  courseConfigSetName: string;
+  category: string;
+  courseId: string;
+  /** 과목 이름. 같은 이름이나 이 이름으로 시작하는 반(시간대 구분)을 찾는다 */
+  course: string;
+  statuses: RegistrationListStatus[];
+  /** 수강 기간이 [from, to]와 겹치는 등록만. 비어 있으면 그쪽 제한 없음 */
+  from: string;
+  to: string;
+  search: string;
+  /** 상태를 가르는 기준일. 비어 있으면 서버 오늘 */
+  asOf: string;
+  cursor: string;
+  limit: number;
+};
+
+export type RegistrationListRowDates = {
+  startDate?: string | null;
+  endDate?: string | null;
+  withdrawnAt?: string | null;
+  transferToId?: string | null;
+};
+
+export type RegistrationListCounts = {
+  total: number;
+  byStatus: Record<RegistrationListStatus, number>;
+  byCourse: Array<{ courseId: string; course: string; count: number }>;
+};
+
+export const REGISTRATION_LIST_DEFAULT_LIMIT = 100;
+export const REGISTRATION_LIST_MAX_LIMIT = 500;
+
+const QUERY_KEYS = [
+  'courseConfigSetName',
+  'category',
+  'courseId',
+  'course',
+  'status',
+  'from',
+  'to',
+  'search',
+  'asOf',
+  'cursor',
+  'limit',
+] as const;
+
+export const REGISTRATION_LIST_MESSAGES = {
+  invalidStatus: '등록 상태 조건을 확인해 주세요.',
+  invalidDate: '날짜 형식을 확인해 주세요. (YYYY-MM-DD)',
+  invalidRange: '조회 시작일은 종료일보다 늦을 수 없습니다.',
+  invalidLimit: `한 번에 1~${REGISTRATION_LIST_MAX_LIMIT}건까지 불러올 수 있습니다.`,
+  invalidCursor: '다음 페이지 위치(cursor)가 올바르지 않습니다. 처음부터 다시 불러와 주세요.',
+} as const;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STATUS_SET = new Set<string>(REGISTRATION_LIST_STATUSES);
+
+function readText(value: unknown) {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readDateKey(value: unknown) {
+  const text = readText(value);
+  if (!text) return { value: '' };
+  if (!DATE_KEY_PATTERN.test(text) || Number.isNaN(Date.parse(`${text}T00:00:00Z`))) {
+    return { value: '', error: REGISTRATION_LIST_MESSAGES.invalidDate };
+  }
+  return { value: text };
+}
+
+function toDateKey(value: unknown) {
+  const text = String(value ?? '').trim().slice(0, 10);
+  return DATE_KEY_PATTERN.test(text) ? text : '';
+}
+
+export function createEmptyStatusCounts(): Record<RegistrationListStatus, number> {
+  return { active: 0, pending: 0, ended: 0, withdrawn: 0, transferred: 0 };
+}
+
+/** 조회 조건이 하나도 없으면 예전처럼 전체 목록을 돌려준다 */
+export function hasRegistrationListQuery(raw: Record<string, unknown> | null | undefined) {
+  return QUERY_KEYS.some((key) => readText(raw?.[key]) !== '');
+}
+
+export function parseRegistrationListQuery(
+  raw: Record<string, unknown> | null | undefined
+): { query: RegistrationListQuery | null; error: string } {
+  const statusText = readText(raw?.status);
+  const statuses = statusText
+    ? Array.from(new Set(statusText.split(',').map((status) => status.trim()).filter(Boolean)))
+    : [];
+  if (statuses.some((status) => !STATUS_SET.has(status))) {
+    return { query: null, error: REGISTRATION_LIST_MESSAGES.invalidStatus };
+  }
+
+  const from = readDateKey(raw?.from);
+  const to = readDateKey(raw?.to);
+  const asOf = readDateKey(raw?.asOf);
+  const dateError = from.error || to.error || asOf.error;
+  if (dateError) return { query: null, error: dateError };
+  if (from.value && to.value && from.value > to.value) {
+    return { query: null, error: REGISTRATION_LIST_MESSAGES.invalidRange };
+  }
+
+  const limitText = readText(raw?.limit);
+  const limit = limitText ? Number(limitText) : REGISTRATION_LIST_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > REGISTRATION_LIST_MAX_LIMIT) {
+    return { query: null, error: REGISTRATION_LIST_MESSAGES.invalidLimit };
+  }
+
+  return {
+    query: {
+      courseConfigSetName: readText(raw?.courseConfigSetName),
+      category: readText(raw?.category),
+      courseId: readText(raw?.courseId),
+      course: readText(raw?.course),
+      statuses: statuses as RegistrationListStatus[],
+      from: from.value,
+      to: to.value,
+      search: readText(raw?.search),
+      asOf: asOf.value,
+      cursor: readText(raw?.cursor),
+      limit,
+    },
+    error: '',
+  };
+}
+
+/** 쿼리 문자열에 넣을 값. 빈 조건은 뺀다 */
+export function buildRegistrationListQueryParams(query: Partial<RegistrationListQuery>) {
+  const params: Record<string, string> = {};
+  const entries: Array<[string, string]> = [
+    ['courseConfigSetName', query.courseConfigSetName || ''],
+    ['category', query.category || ''],
+    ['courseId', query.courseId || ''],
+    ['course', query.course || ''],
+    ['status', (query.statuses || []).join(',')],
+    ['from', query.from || ''],
+    ['to', query.to || ''],
+    ['search', (query.search || '').trim()],
+    ['asOf', query.asOf || ''],
+    ['cursor', query.cursor || ''],
+    ['limit', query.limit ? String(query.limit) : ''],
+  ];
+  for (const [key, value] of entries) {
+    if (value) params[key] = value;
+  }
+  return params;
+}
+
+export function getRegistrationListStatus(row: RegistrationListRowDates, asOf: string): RegistrationListStatus {
+  if (toDateKey(row.withdrawnAt)) return 'withdrawn';
+  if (String(row.transferToId || '').trim()) return 'transferred';
+  const start = toDateKey(row.startDate);
+  const end = toDateKey(row.endDate);
+  if (start && start > asOf) return 'pending';
+  if (end && end < asOf) return 'ended';
+  return 'active';
+}
+
+/** 수강 기간이 조회 기간과 겹치는지. 종료일이 없으면 시작일 이후로 계속 수강 중으로 본다 */
+export function isInRegistrationListWindow(row: RegistrationListRowDates, from: string, to: string) {
+  const start = toDateKey(row.startDate);
+  const end = toDateKey(row.endDate);
+  if (to && start && start > to) return false;
+  if (from && end && end < from) return false;
+  return true;
+}
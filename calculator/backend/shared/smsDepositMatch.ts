@@ -0,0 +1,174 @@
+/**
+ * 문자 입금 자동 매칭 점수.
+ * 입금자명·금액·시기로 등록(또는 연장) 후보마다 점수를 매기고, 가장 높은 후보가 충분히 앞서면 매칭한다.
+ * 백엔드 매칭 서비스와 프런트 테스트가 같은 규칙을 쓴다. DB 조회는 서비스가 맡는다.
+ */
+
+export const MATCH_STATUSES = {
+  matched: 'matched',
+  ambiguous: 'ambiguous',
+  unmatched: 'unmatched',
+  ignored: 'ignored',
+  split: 'split',
+} as const;
+
+export type MatchCandidate = {
+  registrationId: string;
+  registrationExtensionId: string | null;
+  name: string;
+  course: string;
+  fee: number | null;
+  referenceDate: string;
+  nameScore: number;
+  amountScore: number;
+  recencyScore: number;
+  score: number;
+};
+
+export type MatchResult = {
+  matchStatus: 'matched' | 'ambiguous' | 'unmatched';
+  registrationId: string | null;
+  registrationExtensionId: string | null;
+  matchScore: number | null;
+  candidates: MatchCandidate[];
+};
+
+const WEIGHTS = { name: 0.5, amount: 0.35, recency: 0.15 };
+export const MATCH_THRESHOLD = 0.8;
+export const AMBIGUOUS_THRESHOLD = 0.5;
+export const MATCH_MARGIN = 0.1;
+
+const RECENCY_FULL_DAYS = 14;
+const RECENCY_ZERO_DAYS = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 입금자명 뒤에 붙는 보호자 표기 (긴 것부터 제거)
+const DEPOSITOR_SUFFIXES = [
+  '학부모', '어머님', '아버님', '어머니', '아버지', '보호자',
+  '부모', '엄마', '아빠', '모친', '부친', '학생', '맘',
+];
+
+function normalizeKoreanName(value: unknown) {
+  return String(value || '').replace(/[^가-힣]/g, '');
+}
+
+/** 등록 이름의 중복 구분 접미사(예: 홍길동A) 제거 */
+export function normalizeDepositStudentName(value: unknown) {
+  const trimmed = String(value || '').trim().replace(/[A-Za-z0-9]+$/, '');
+  return normalizeKoreanName(trimmed);
+}
+
+/**
+ * 입금자명에서 비교용 이름 후보를 만든다.
+ * 은행 문자는 이름을 4자 안팎으로 자르므로 "홍길동학"처럼 잘린 접미사도 제거 후보로 본다.
+ */
+export function buildDepositorNameVariants(depositorName: unknown) {
+  const base = normalizeKoreanName(depositorName);
+  const variants: { value: string; weight: number }[] = [];
+  if (base.length < 2) return variants;
+  variants.push({ value: base, weight: 1 });
+
+  const seen = new Set([base]);
+  for (const suffix of DEPOSITOR_SUFFIXES) {
+    for (let len = suffix.length; len >= 1; len -= 1) {
+      const part = suffix.slice(0, len);
+      if (!base.endsWith(part)) continue;
+      const stripped = base.slice(0, base.length - part.length);
+      if (stripped.length < 2 || seen.has(stripped)) continue;
+      seen.add(stripped);
+      variants.push({ value: stripped, weight: len === suffix.length ? 0.95 : 0.85 });
+    }
+  }
+  return variants;
+}
+
+export function scoreName(depositorName: unknown, studentName: unknown) {
+  const student = normalizeDepositStudentName(studentName);
+  if (student.length < 2) return 0;
+  let best = 0;
+  for (const { value, weight } of buildDepositorNameVariants(depositorName)) {
+    let score = 0;
+    if (value === student) {
+      score = 1;
+    } else if (value.startsWith(student)) {
+      score = 0.85;
+    } else if (student.startsWith(value)) {
+      score = 0.8;
+    } else if (student.length >= 3 && value === student.slice(1)) {
+      score = 0.6;
+    }
+    best = Math.max(best, score * weight);
+  }
+  return best;
+}
+
+export function scoreAmount(amount: number, fee: number | null) {
+  if (!amount || !fee || fee <= 0) return 0;
+  if (amount === fee) return 1;
+  if (Math.abs(amount - fee) <= fee * 0.01) return 0.5;
+  return 0;
+}
+
+export function scoreRecency(receivedAt: Date, referenceDate: Date | null) {
+  if (!referenceDate) return 0;
+  const days = Math.abs(receivedAt.getTime() - referenceDate.getTime()) / DAY_MS;
+  if (days <= RECENCY_FULL_DAYS) return 1;
+  if (days >= RECENCY_ZERO_DAYS) return 0;
+  return (RECENCY_ZERO_DAYS - days) / (RECENCY_ZERO_DAYS - RECENCY_FULL_DAYS);
+}
+
+function roundScore(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** 이름·금액·시기 점수를 가중합하고, 보여줄 값은 소수 셋째 자리로 자른다 */
+export function combineMatchScores({
+  nameScore,
+  amountScore,
+  recencyScore,
+}: {
+  nameScore: number;
+  amountScore: number;
+  recencyScore: number;
+}) {
+  const score = WEIGHTS.name * nameScore + WEIGHTS.amount * amountScore + WEIGHTS.recency * recencyScore;
+  return {
+    nameScore: roundScore(nameScore),
+    amountScore: roundScore(amountScore),
+    recencyScore: roundScore(recencyScore),
+    score: roundScore(score),
+  };
+}
+
+/** 점수순으로 정렬된 후보에서 매칭/모호/미매칭을 정한다 */
+export function resolveMatch(candidates: MatchCandidate[]): MatchResult {
+  const [best, second] = candidates;
+  if (!best || best.score < AMBIGUOUS_THRESHOLD) {
+    return {
+      matchStatus: MATCH_STATUSES.unmatched,
+      registrationId: null,
+      registrationExtensionId: null,
+      matchScore: best ? best.score : null,
+      candidates,
+    };
+  }
+
+  const isClearWinner = !second || best.score - second.score >= MATCH_MARGIN;
+  if (best.score >= MATCH_THRESHOLD && isClearWinner) {
+    return {
+      matchStatus: MATCH_STATUSES.matched,
+      registrationId: best.registrationId,
+      registrationExtensionId: best.registrationExtensionId,
+      matchScore: best.score,
+      candidates,
+    };
+  }
+
+  return {
+    matchStatus: MATCH_STATUSES.ambiguous,
+    registrationId: null,
+    registrationExtensionId: null,
+    matchScore: best.score,
+    candidates,
+  };
+}
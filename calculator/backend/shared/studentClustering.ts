@@ -0,0 +1,94 @@
+/**
+ * 학생 연결 전 등록들을 학생 후보로 묶는다.
+ * 이름(공백 정리)이 같으면 한 묶음이고, 같은 과목 기간이 겹치는 등록이 있으면 동명이인일 수 있어 확인 표시를 한다.
+ * 백엔드 학생 정리 API와 프런트 테스트가 같은 규칙을 쓴다.
+ */
+
+export type ClusterRegistration = {
+  id: string;
+  name: string;
+  course?: string | null;
+  courseId?: string | null;
+  courseConfigSetName?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  transferFromId?: string | null;
+  transferToId?: string | null;
+};
+
+export type StudentCluster<T extends ClusterRegistration = ClusterRegistration> = {
+  key: string;
+  name: string;
+  registrations: T[];
+  /** 같은 과목 기간이 겹쳐 한 사람으로 보기 어려운 등록 id */
+  conflictIds: string[];
+  needsReview: boolean;
+};
+
+/** 앞뒤·중간 공백을 정리한 이름. 동명이인 구분 접미사(예: 홍길동A)는 그대로 둔다. */
+export function normalizeStudentName(value: unknown) {
+  return String(value ?? '').replace(/\s+/g, ' ').trim();
+}
+
+export function getStudentNameKey(value: unknown) {
+  return normalizeStudentName(value).replace(/\s/g, '').toLowerCase();
+}
+
+function getCourseKey(registration: ClusterRegistration) {
+  const courseId = String(registration.courseId ?? '').trim();
+  const setName = String(registration.courseConfigSetName ?? '').trim();
+  return `${setName}|${courseId || String(registration.course ?? '').trim()}`;
+}
+
+function overlaps(a: ClusterRegistration, b: ClusterRegistration) {
+  const aStart = a.startDate || '';
+  const bStart = b.startDate || '';
+  const aEnd = a.endDate || '9999-12-31';
+  const bEnd = b.endDate || '9999-12-31';
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+function isTransferPair(a: ClusterRegistration, b: ClusterRegistration) {
+  return a.transferToId === b.id || b.transferToId === a.id || a.transferFromId === b.id || b.transferFromId === a.id;
+}
+
+/** 같은 과목을 겹치는 기간에 두 번 들은 등록 id (전반으로 이어진 등록은 제외) */
+export function findClusterConflicts(registrations: ClusterRegistration[]) {
+  const conflicts = new Set<string>();
+  for (let i = 0; i < registrations.length; i += 1) {
+    for (let j = i + 1; j < registrations.length; j += 1) {
+      const a = registrations[i];
+      const b = registrations[j];
+      if (getCourseKey(a) !== getCourseKey(b) || isTransferPair(a, b)) continue;
+      if (overlaps(a, b)) {
+        conflicts.add(a.id);
+        conflicts.add(b.id);
+      }
+    }
+  }
+  return Array.from(conflicts);
+}
+
+/** 이름별 묶음. 확인이 필요한 묶음이 먼저, 그다음 이름순. */
+export function clusterRegistrations<T extends ClusterRegistration>(registrations: T[]): StudentCluster<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const registration of registrations) {
+    const key = getStudentNameKey(registration.name);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), registration]);
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, rows]) => {
+      const sorted = [...rows].sort((a, b) => String(a.startDate || '').localeCompare(String(b.startDate || '')));
+      const conflictIds = findClusterConflicts(sorted);
+      return {
+        key,
+        name: normalizeStudentName(sorted[0].name),
+        registrations: sorted,
+        conflictIds,
+        needsReview: conflictIds.length > 0,
+      };
+    })
+    .sort((a, b) => Number(b.needsReview) - Number(a.needsReview) || a.name.localeCompare(b.name, 'ko-KR'));
+}
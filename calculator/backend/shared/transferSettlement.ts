@@ -0,0 +1,103 @@
+/**
+ * 전반 정산.
+ * 전반하는 남은 주를 이전 과목 주당 수강료로 값을 매기고, 같은 주수를 새 과목 주당 수강료로 다시 매겨 차액을 낸다.
+ * 두 금액 모두 등록에 적용한 할인율을 똑같이 반영한다. 차액이 양수면 학생이 더 내고, 음수면 돌려받을(적립) 금액이다.
+ * 백엔드가 전반할 때 저장하는 값과 프런트 전반 미리보기·전반 이력이 같은 계산을 쓴다.
+ */
+
+export type TransferSettlementInput = {
+  weeks: number;
+  previousWeeklyFee: number;
+  nextWeeklyFee: number;
+  /** 0~1. 범위를 벗어나면 0 */
+  discount?: number | null;
+};
+
+export type TransferSettlement = {
+  weeks: number;
+  previousWeeklyFee: number;
+  nextWeeklyFee: number;
+  discount: number;
+  /** 남은 주의 이전 과목 기준 금액 */
+  previousAmount: number;
+  /** 같은 주수의 새 과목 기준 금액 */
+  nextAmount: number;
+  /** nextAmount - previousAmount */
+  difference: number;
+};
+
+export type TransferSettlementDirection = 'charge' | 'credit' | 'even';
+
+export const TRANSFER_SETTLEMENT_MESSAGES = {
+  invalidWeeks: '전반 정산 주수는 1 이상의 정수여야 합니다.',
+  invalidWeeklyFee: '전반 정산 주당 수강료는 0 이상의 정수여야 합니다.',
+  dailyUnsupported: '일 단위 등록은 전반 정산을 할 수 없습니다.',
+  weeklyFeeNotFound: '과목 설정에서 주당 수강료를 찾을 수 없어 정산할 수 없습니다.',
+  weeklyFeeMismatch: '전반 정산 주당 수강료가 과목 설정과 다릅니다. 화면을 새로 고친 뒤 다시 시도해 주세요.',
+} as const;
+
+function isNonNegativeInteger(value: unknown) {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function normalizeDiscount(value: unknown) {
+  const discount = Number(value ?? 0);
+  return Number.isFinite(discount) && discount >= 0 && discount <= 1 ? discount : 0;
+}
+
+function getDiscountedAmount(weeklyFee: number, weeks: number, discount: number) {
+  return Math.round(weeklyFee * weeks * (1 - discount));
+}
+
+/** 입력이 맞지 않으면 안내 문구, 맞으면 빈 문자열 */
+export function getTransferSettlementError(input: Partial<TransferSettlementInput>) {
+  if (!Number.isInteger(input.weeks) || Number(input.weeks) <= 0) {
+    return TRANSFER_SETTLEMENT_MESSAGES.invalidWeeks;
+  }
+  if (!isNonNegativeInteger(input.previousWeeklyFee) || !isNonNegativeInteger(input.nextWeeklyFee)) {
+    return TRANSFER_SETTLEMENT_MESSAGES.invalidWeeklyFee;
+  }
+  return '';
+}
+
+export function buildTransferSettlement(input: TransferSettlementInput): TransferSettlement | null {
+  if (getTransferSettlementError(input)) return null;
+  const discount = normalizeDiscount(input.discount);
+  const previousAmount = getDiscountedAmount(input.previousWeeklyFee, input.weeks, discount);
+  const nextAmount = getDiscountedAmount(input.nextWeeklyFee, input.weeks, discount);
+  return {
+    weeks: input.weeks,
+    previousWeeklyFee: input.previousWeeklyFee,
+    nextWeeklyFee: input.nextWeeklyFee,
+    discount,
+    previousAmount,
+    nextAmount,
+    difference: nextAmount - previousAmount,
+  };
+}
+
+export function getTransferSettlementDirection(difference: number): TransferSettlementDirection {
+  if (difference > 0) return 'charge';
+  if (difference < 0) return 'credit';
+  return 'even';
+}
+
+/** API 응답을 정산 값으로 정리한다. 금액이 맞지 않으면 null */
+export function normalizeTransferSettlement(value: unknown): TransferSettlement | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const weeks = Number(raw.weeks);
+  const previousAmount = Number(raw.previousAmount);
+  const nextAmount = Number(raw.nextAmount);
+  if (!Number.isInteger(weeks) || weeks <= 0) return null;
+  if (!Number.isFinite(previousAmount) || !Number.isFinite(nextAmount)) return null;
+  return {
+    weeks,
+    previousWeeklyFee: Number(raw.previousWeeklyFee) || 0,
+    nextWeeklyFee: Number(raw.nextWeeklyFee) || 0,
+    discount: normalizeDiscount(raw.discount),
+    previousAmount,
+    nextAmount,
+    difference: nextAmount - previousAmount,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * 수강 안내에 들어가는 입금 계좌와 교재비 규칙.
+ * 계산기 안내 문구(clipboardUtils)와 백엔드 견적서/청구서 PDF가 같이 쓴다.
+ */
+
+export type TextbookOption = 'none' | 'tbd' | 'amount';
+
+export type CourseTextbookSettings = {
+  defaultOption?: string;
+  defaultAmount?: number;
+  onlineOption?: string;
+  onlineAmount?: number;
+  offlineOption?: string;
+  offlineAmount?: number;
+  customNote?: string;
+};
+
+export type CourseTextbook = {
+  textbookOption: TextbookOption;
+  textbookAmount: number;
+  customNote: string;
+};
+
+export const TUITION_ACCOUNT = `⚠️주의사항⚠️
+✅ 계좌이체 시 **반드시 학생이름으로 입금** 부탁드립니다.
+🚫 부모님 성함으로 입금 시, 시스템상 입금 확인이 불가능하여 등록이 지연될 수 있습니다.
+✅ 납부 후, 현금영수증 발급받으실 휴대폰/사업자 번호를 알려주시기 바랍니다.
+[수강료 입금 계좌]
+신한은행 140-009-205058
+(예금주: 세한아카데미외국어학원)`;
+
+export const TEXTBOOK_ACCOUNT = `[교재비 입금 계좌]
+신한은행 110-378-431090
+(예금주: 세한어학연구소)`;
+
+const TEXTBOOK_OPTIONS = new Set<string>(['none', 'tbd', 'amount']);
+
+export function isTextbookOption(value: unknown): value is TextbookOption {
+  return typeof value === 'string' && TEXTBOOK_OPTIONS.has(value);
+}
+
+function toTextbookOption(value: unknown): TextbookOption | null {
+  return isTextbookOption(value) ? value : null;
+}
+
+/**
+ * 과목 설정의 교재비. 수업 형태(온라인/오프라인)별 설정이 있으면 그것을, 없으면 기본값을 쓴다.
+ * 금액은 'amount'일 때만 남긴다.
+ */
+export function resolveCourseTextbook(
+  textbook: CourseTextbookSettings | null | undefined,
+  courseType?: string | null
+): CourseTextbook {
+  const settings = textbook || {};
+  const defaultOption = toTextbookOption(settings.defaultOption);
+
+  let textbookOption: TextbookOption = defaultOption || 'none';
+  let textbookAmount = Number(settings.defaultAmount || 0);
+
+  if (courseType === '온라인') {
+    textbookOption = toTextbookOption(settings.onlineOption) || defaultOption || 'none';
+    textbookAmount = Number(settings.onlineAmount || settings.defaultAmount || 0);
+  } else if (courseType === '오프라인') {
+    textbookOption = toTextbookOption(settings.offlineOption) || defaultOption || 'none';
+    textbookAmount = Number(settings.offlineAmount || settings.defaultAmount || 0);
+  }
+
+  if (textbookOption !== 'amount' || !Number.isFinite(textbookAmount)) {
+    textbookAmount = 0;
+  }
+
+  return {
+    textbookOption,
+    textbookAmount,
+    customNote: String(settings.customNote || '').trim(),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * 퇴원 환불 계산 (학원법 반환 기준).
+ * 등록과 연장을 수업 월 단위로 나눠, 퇴원일이 속한 달은 경과 비율로, 이후 달은 전액 반환한다.
+ * 프런트 퇴원 창과 백엔드 퇴원 저장 검증이 같은 코드를 쓴다. 화면 문구(항목 이름 등)는 프런트가 붙인다.
+ */
+
+import {
+  ALL_WEEK_DAYS,
+  getBreakDateSet,
+  getBreakWeekSet,
+  getEndDate,
+  getScheduleWeeks,
+  getWeekIndex,
+  normalizeCourseDays,
+  type BreakRangeInput,
+} from './courseSchedule';
+
+// calculateRecordingFee와 같은 비율: 녹화 수업은 정상 수업의 40%
+export const RECORDING_SESSION_WEIGHT = 0.4;
+// 학원법의 "1개월"은 수업 4주(일 단위 과정은 28일)로 본다
+export const REFUND_MONTH_WEEKS = 4;
+export const REFUND_MONTH_DAYS = 28;
+
+export type RefundRule = 'unstarted' | 'two_thirds' | 'half' | 'none';
+
+export type RefundRegistrationInput = {
+  startDate?: string | Date;
+  weeks?: number | string | null;
+  skipWeeks?: Array<number | string>;
+  courseDays?: Array<number | string>;
+  courseEndDay?: number | null;
+  breakRanges?: BreakRangeInput[];
+  recordingDates?: unknown[];
+  selectedDates?: string[];
+  durationUnit?: string;
+  tuitionFee?: number | string | null;
+  discount?: number | string | null;
+} & Record<string, unknown>;
+
+export type RefundExtensionInput = {
+  id?: string | number;
+  startDate?: string | Date | null;
+  weeks?: number | string | null;
+  tuitionFee?: number | string | null;
+} & Record<string, unknown>;
+
+export type RefundSession = {
+  date: string;
+  weight: number;
+  month: number;
+};
+
+export type RefundLineData = {
+  /** 0은 등록, 1부터는 시작일 순 연장 번호 */
+  segmentIndex: number;
+  /** 구간이 여러 달이면 1부터 센 달 번호, 한 달뿐이면 null */
+  monthNumber: number | null;
+  startDate: string;
+  endDate: string;
+  fee: number;
+  sessionCount: number;
+  heldCount: number;
+  rule: RefundRule;
+  refund: number;
+};
+
+export type RefundBreakdownData<Line = RefundLineData> = {
+  totalFee: number;
+  refundableFee: number;
+  retainedFee: number;
+  paidAmount: number;
+  refundAmount: number;
+  outstandingAmount: number;
+  lines: Line[];
+};
+
+function toNumber(value: unknown) {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+}
+
+function pad2(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+/** YYYY-MM-DD(또는 . / 구분) 문자열은 현지 날짜로 읽는다 */
+function parseDate(value: unknown) {
+  if (!value) return null;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  const m = trimmed.replace(/[./]/g, '-').match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const date = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : new Date(trimmed);
+  if (Number.isNaN(date.getTime())) return null;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function formatDateKey(value: unknown) {
+  const date = parseDate(value);
+  if (!date) return '';
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+}
+
+function getSessionWeight(date: string, recordingSet: Set<string>, discount: number) {
+  return recordingSet.has(date) ? RECORDING_SESSION_WEIGHT : 1 - discount;
+}
+
+/**
+ * 등록 전체(연장 포함) 수업일 목록.
+ * 주 단위 과정은 getScheduleWeeks로 휴강/휴원 주차를 반영하고, 월 구분은 실제 수업 주차 기준이다.
+ */
+export function buildRegistrationSessions(registration: RefundRegistrationInput): RefundSession[] {
+  const recordingSet = new Set(
+    (Array.isArray(registration?.recordingDates) ? registration.recordingDates : [])
+      .map((value) => formatDateKey(value))
+      .filter(Boolean)
+  );
+  const discount = Math.min(Math.max(toNumber(registration?.discount), 0), 1);
+
+  if (registration?.durationUnit === 'daily') {
+    const dates = (Array.isArray(registration.selectedDates) ? registration.selectedDates : [])
+      .map((value) => formatDateKey(value))
+      .filter(Boolean)
+      .sort();
+    const first = parseDate(dates[0]);
+    return dates.map((date) => {
+      const diffDays = first ? Math.round(((parseDate(date)?.getTime() || 0) - first.getTime()) / 86400000) : 0;
+      return {
+        date,
+        weight: getSessionWeight(date, recordingSet, discount),
+        month: Math.floor(diffDays / REFUND_MONTH_DAYS),
+      };
+    });
+  }
+
+  const start = parseDate(registration?.startDate);
+  const weeks = toNumber(registration?.weeks);
+  if (!start || weeks <= 0) return [];
+
+  const courseDays = normalizeCourseDays(registration?.courseDays);
+  const daySet = new Set(courseDays.length ? courseDays : ALL_WEEK_DAYS);
+  const endDay = Number.isInteger(registration?.courseEndDay) ? Number(registration.courseEndDay) : undefined;
+  const breakRanges = Array.isArray(registration?.breakRanges) ? registration.breakRanges : [];
+  const schedule = getScheduleWeeks({
+    startDate: start,
+    durationWeeks: weeks,
+    skipWeeks: registration?.skipWeeks || [],
+    courseDays,
+    endDayOfWeek: endDay,
+    breakRanges,
+  });
+  const end = getEndDate(start, schedule.scheduleWeeks, endDay);
+  if (!end) return [];
+
+  const skipSet = new Set(schedule.skipWeeks);
+  const breakDates = getBreakDateSet({ startDate: start, endDate: end, courseDays, breakRanges });
+  const breakWeeks = getBreakWeekSet({ startDate: start, endDate: end, courseDays, breakRanges });
+
+  const sessions: RefundSession[] = [];
+  let classWeek = 0;
+  let lastWeek = 0;
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (cursor <= end) {
+    const weekIndex = getWeekIndex(start, cursor) || 1;
+    if (weekIndex !== lastWeek) {
+      lastWeek = weekIndex;
+      if (!skipSet.has(weekIndex) && !breakWeeks.has(weekIndex)) classWeek += 1;
+    }
+    const date = formatDateKey(cursor);
+    if (daySet.has(cursor.getDay()) && !skipSet.has(weekIndex) && !breakDates.has(date)) {
+      sessions.push({
+        date,
+        weight: getSessionWeight(date, recordingSet, discount),
+        month: Math.floor(Math.max(classWeek - 1, 0) / REFUND_MONTH_WEEKS),
+      });
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return sessions;
+}
+
+/**
+ * 경과 비율에 따른 학원법 반환 기준 (교습기간 1개월 이내 기준).
+ */
+export function getRefundRule(heldRatio: number): RefundRule {
+  if (heldRatio <= 0) return 'unstarted';
+  if (heldRatio < 1 / 3) return 'two_thirds';
+  if (heldRatio < 1 / 2) return 'half';
+  return 'none';
+}
+
+function getRuleRatio(rule: RefundRule) {
+  if (rule === 'unstarted') return 1;
+  if (rule === 'two_thirds') return 2 / 3;
+  if (rule === 'half') return 1 / 2;
+  return 0;
+}
+
+type RefundSegment = {
+  fee: number;
+  sessions: RefundSession[];
+};
+
+function buildSegments(
+  registration: RefundRegistrationInput,
+  extensions: RefundExtensionInput[],
+  sessions: RefundSession[]
+): RefundSegment[] {
+  const sortedExtensions = (extensions || [])
+    .map((extension) => ({ ...extension, start: formatDateKey(extension?.startDate) }))
+    .filter((extension) => extension.start)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  const segments: RefundSegment[] = [
+    { fee: toNumber(registration?.tuitionFee), sessions: [] },
+    ...sortedExtensions.map((extension) => ({
+      fee: toNumber(extension.tuitionFee),
+      sessions: [] as RefundSession[],
+    })),
+  ];
+
+  for (const session of sessions) {
+    let segmentIndex = 0;
+    sortedExtensions.forEach((extension, index) => {
+      if (extension.start <= session.date) segmentIndex = index + 1;
+    });
+    segments[segmentIndex].sessions.push(session);
+  }
+  return segments;
+}
+
+/**
+ * 등록/연장 하나를 월 단위로 나눠 반환액을 계산한다.
+ * 퇴원일이 속한 달은 경과 비율 기준, 이후 달은 전액, 이전 달은 반환하지 않는다.
+ */
+function buildSegmentLines(segment: RefundSegment, segmentIndex: number, withdrawDate: string): RefundLineData[] {
+  if (segment.fee <= 0 || !segment.sessions.length) return [];
+  const totalWeight = segment.sessions.reduce((sum, session) => sum + session.weight, 0);
+  if (totalWeight <= 0) return [];
+
+  const months = new Map<number, RefundSession[]>();
+  for (const session of segment.sessions) {
+    const list = months.get(session.month) || [];
+    list.push(session);
+    months.set(session.month, list);
+  }
+  const monthKeys = Array.from(months.keys()).sort((a, b) => a - b);
+  const showMonth = monthKeys.length > 1;
+
+  return monthKeys.map((monthKey, index) => {
+    const monthSessions = months.get(monthKey) || [];
+    const monthWeight = monthSessions.reduce((sum, session) => sum + session.weight, 0);
+    const heldSessions = monthSessions.filter((session) => session.date < withdrawDate);
+    const heldWeight = heldSessions.reduce((sum, session) => sum + session.weight, 0);
+    const fee = (segment.fee * monthWeight) / totalWeight;
+    const rule = getRefundRule(monthWeight > 0 ? heldWeight / monthWeight : 1);
+    return {
+      segmentIndex,
+      monthNumber: showMonth ? index + 1 : null,
+      startDate: monthSessions[0]?.date || '',
+      endDate: monthSessions[monthSessions.length - 1]?.date || '',
+      fee: Math.round(fee),
+      sessionCount: monthSessions.length,
+      heldCount: heldSessions.length,
+      rule,
+      refund: Math.round(fee * getRuleRatio(rule)),
+    };
+  });
+}
+
+/**
+ * 퇴원일 기준 학원법 환불액.
+ * 확정 수강료(총 수강료 - 반환 대상)보다 많이 낸 만큼을 돌려준다.
+ */
+export function calculateWithdrawalRefund({
+  registration,
+  extensions = [],
+  paidAmount,
+  withdrawDate,
+}: {
+  registration: RefundRegistrationInput | null;
+  extensions?: RefundExtensionInput[];
+  paidAmount: number;
+  withdrawDate: string;
+}): RefundBreakdownData | null {
+  const date = formatDateKey(withdrawDate);
+  if (!registration || !date) return null;
+
+  const sessions = buildRegistrationSessions(registration);
+  const segments = buildSegments(registration, extensions, sessions);
+  const totalFee = segments.reduce((sum, segment) => sum + segment.fee, 0);
+  if (totalFee <= 0) return null;
+
+  const lines = segments.flatMap((segment, index) => buildSegmentLines(segment, index, date));
+  const refundableFee = Math.min(
+    lines.reduce((sum, line) => sum + line.refund, 0),
+    totalFee
+  );
+  const retainedFee = totalFee - refundableFee;
+  const paid = Math.max(toNumber(paidAmount), 0);
+
+  return {
+    totalFee,
+    refundableFee,
+    retainedFee,
+    paidAmount: paid,
+    refundAmount: Math.max(paid - retainedFee, 0),
+    outstandingAmount: Math.max(retainedFee - paid, 0),
+    lines,
+  };
+}
@@ -22,6 +22,7 @@ declare module 'express' {
       deny: Set<string>
     }
     originalUrl?: string
+    requestId?: string
     ip?: string
     connection?: { remoteAddress?: string | null }
     params: Record<string, string>
@@ -34,6 +35,7 @@ declare module 'express' {
     status(code: number): Response
     json(body?: unknown): Response
     send(body?: unknown): Response
+    setHeader(name: string, value: string | number | readonly string[]): Response
     cookie(name: string, value: string, options?: Record<string, unknown>): Response
     clearCookie(name: string, options?: Record<string, unknown>): Response
     on(event: string, listener: (...args: unknown[]) => void): Response
@@ -90,5 +92,6 @@ declare namespace Express {
     headers?: Record<string, string | string[] | undefined>
     method?: string
     path?: string
+    requestId?: string
   }
 }
@@ -58,6 +58,13 @@ function parseDiscount(value: unknown): number {
   return n;
 }
 
+function parseAppliedDiscountRuleIds(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return Array.from(
+    new Set(value.map((id: unknown) => String(id ?? '').trim()).filter(Boolean))
+  );
+}
+
 function parseSkipWeeks(value: unknown) {
   if (!Array.isArray(value)) return [];
   const set = new Set<number>();
@@ -118,6 +125,7 @@ module.exports = {
   parseWeeks,
   parseTuitionFee,
   parseDiscount,
+  parseAppliedDiscountRuleIds,
   parseSkipWeeks,
   normalizeRecordingDates,
   parseExcludeMath,
@@ -0,0 +1,190 @@
+/**
+ * 의존성 없는 최소 PDF 작성기 (견적서/청구서용).
+ * 글꼴은 뷰어 내장 한글 글꼴(HYSMyeongJo-Medium, Adobe-Korea1)을 참조만 하고 파일에 넣지 않는다.
+ * 그래서 한글 글꼴 팩이 없는 뷰어(아시아 글꼴 팩을 빼고 설치한 Acrobat Reader, 일부 모바일 뷰어)는
+ * 한글을 빈칸이나 깨진 글자로 보여 줄 수 있다. 브라우저 내장 뷰어는 대개 시스템 한글 글꼴로 대신 그린다.
+ * 어디서나 같은 모양이 필요하면 글꼴 파일을 넣는 라이브러리로 바꿔야 한다.
+ * 좌표는 왼쪽 위가 (0, 0)인 pt 단위. 구조 검사는 npm run check:pdf-writer.
+ */
+
+type PdfTextAlign = 'left' | 'right' | 'center'
+
+type PdfTextOptions = {
+  size?: number
+  align?: PdfTextAlign
+  bold?: boolean
+}
+
+type PdfLineOptions = {
+  width?: number
+  gray?: number
+}
+
+type PdfRectOptions = {
+  fillGray?: number
+  strokeGray?: number
+}
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const FONT_NAME = 'HYSMyeongJo-Medium';
+const HALF_WIDTH = 0.5;
+
+// 이모지·기호·변형 선택자처럼 UCS-2 한글 글꼴로 그릴 수 없는 문자
+const UNSUPPORTED_CHARS = /[\uD800-\uDFFF\uFE00-\uFE0F\u200D\u2600-\u27BF]/g;
+
+function formatNumber(value: number) {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+/** 그릴 수 있는 문자만 남긴다 (이모지 제거) */
+function sanitizePdfText(value: unknown) {
+  return String(value ?? '')
+    .replace(UNSUPPORTED_CHARS, '')
+    .replace(/\t/g, ' ');
+}
+
+function isHalfWidth(code: number) {
+  return code >= 0x20 && code <= 0x7e;
+}
+
+/** 글자 폭 추정: ASCII는 반각, 나머지는 전각 */
+function measurePdfText(value: string, size: number) {
+  let units = 0;
+  for (const char of sanitizePdfText(value)) {
+    units += isHalfWidth(char.charCodeAt(0)) ? HALF_WIDTH : 1;
+  }
+  return units * size;
+}
+
+/** 최대 폭을 넘지 않도록 줄을 나눈다. 기존 줄바꿈은 유지한다. */
+function wrapPdfText(value: string, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  for (const rawLine of sanitizePdfText(value).split('\n')) {
+    let current = '';
+    for (const char of rawLine) {
+      const next = current + char;
+      if (current && measurePdfText(next, size) > maxWidth) {
+        lines.push(current.trimEnd());
+        current = char === ' ' ? '' : char;
+      } else {
+        current = next;
+      }
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+function encodeHexText(value: string) {
+  let hex = '';
+  for (let i = 0; i < value.length; i += 1) {
+    hex += value.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return hex.toUpperCase();
+}
+
+function createPdfDocument() {
+  const pages: string[][] = [];
+
+  function currentPage() {
+    if (!pages.length) pages.push([]);
+    return pages[pages.length - 1];
+  }
+
+  function addPage() {
+    pages.push([]);
+  }
+
+  function text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const content = sanitizePdfText(value);
+    if (!content) return;
+    const width = measurePdfText(content, size);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const baseline = PAGE_HEIGHT - y - size;
+    // 굵게는 채우기+외곽선(렌더 모드 2)으로 흉내 낸다
+    const renderMode = options.bold ? `2 Tr ${formatNumber(size / 30)} w ` : '0 Tr ';
+    currentPage().push(
+      `BT /F1 ${formatNumber(size)} Tf ${renderMode}${formatNumber(left)} ${formatNumber(baseline)} Td <${encodeHexText(content)}> Tj ET`
+    );
+  }
+
+  function line(x1: number, y1: number, x2: number, y2: number, options: PdfLineOptions = {}) {
+    const gray = options.gray ?? 0;
+    currentPage().push(
+      `${formatNumber(gray)} G ${formatNumber(options.width ?? 0.5)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S 0 G`
+    );
+  }
+
+  function rect(x: number, y: number, width: number, height: number, options: PdfRectOptions = {}) {
+    const box = `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`;
+    if (options.fillGray !== undefined) {
+      currentPage().push(`${formatNumber(options.fillGray)} g ${box} f 0 g`);
+    }
+    if (options.strokeGray !== undefined) {
+      currentPage().push(`${formatNumber(options.strokeGray)} G 0.5 w ${box} S 0 G`);
+    }
+  }
+
+  function toBuffer(title = '') {
+    const pageStreams = pages.length ? pages : [[]];
+    const objects: string[] = [];
+    const fontId = 3;
+    const firstPageId = 6;
+    const pageIds = pageStreams.map((_, index) => firstPageId + index * 2);
+    const infoId = firstPageId + pageStreams.length * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[fontId] = `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniKS-UCS2-H /DescendantFonts [4 0 R] >>`;
+    objects[4] =
+      `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME}` +
+      ' /CIDSystemInfo << /Registry (Adobe) /Ordering (Korea1) /Supplement 1 >>' +
+      ' /FontDescriptor 5 0 R /DW 1000 /W [1 95 500] >>';
+    objects[5] =
+      `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 6 /FontBBox [-28 -148 1001 880]` +
+      ' /ItalicAngle 0 /Ascent 880 /Descent -148 /CapHeight 880 /StemV 60 >>';
+
+    pageStreams.forEach((commands, index) => {
+      const pageId = pageIds[index];
+      const stream = commands.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}]` +
+        ` /Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+    objects[infoId] = `<< /Title <FEFF${encodeHexText(sanitizePdfText(title))}> /Producer (calculator) >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id += 1) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id += 1) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+    return Buffer.from(output, 'latin1');
+  }
+
+  return {
+    addPage,
+    line,
+    rect,
+    text,
+    toBuffer,
+  };
+}
+
+module.exports = {
+  PDF_PAGE_HEIGHT: PAGE_HEIGHT,
+  PDF_PAGE_WIDTH: PAGE_WIDTH,
+  createPdfDocument,
+  measurePdfText,
+  sanitizePdfText,
+  wrapPdfText,
+};
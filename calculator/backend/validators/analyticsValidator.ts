@@ -0,0 +1,12 @@
+/**
+ * 통계 API 입력 검증 규칙
+ */
+
+const { validateQueryLength } = require("../middleware/inputValidator");
+
+/** GET /api/analytics 쿼리 검증 (비교할 설정 세트 이름이 여럿 들어온다) */
+const validateAnalyticsQuery = validateQueryLength(1000);
+
+module.exports = {
+  validateAnalyticsQuery,
+};
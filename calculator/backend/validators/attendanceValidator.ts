@@ -0,0 +1,67 @@
+/**
+ * 출석 통계·알림 규칙·출석 상태·키오스크 체크인·보강·월 마감 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateQueryLength } = require("../middleware/inputValidator");
+
+/** GET /api/attendance/stats 쿼리 검증 (등록 ID가 최대 200개까지 들어온다) */
+const validateAttendanceStatsQuery = validateQueryLength(8000);
+
+/** GET /api/attendance/follow-ups 쿼리 검증 */
+const validateAttendanceFollowUpQuery = validateQueryLength(200);
+
+/** POST/PUT /api/attendance/alert-rules 규칙 저장 검증 */
+const validateAttendanceAlertRuleBody = validateStringFields([
+  { field: "name", max: 100 },
+  { field: "type", max: 30 },
+]);
+
+/** POST /api/attendance/check-in 키오스크 체크인 검증 */
+const validateAttendanceCheckInBody = validateStringFields([
+  { field: "code", max: 100 },
+  { field: "courseConfigSetName", max: 100 },
+]);
+
+/** GET /api/attendance/makeups 쿼리 검증 (등록 ID가 최대 200개까지 들어온다) */
+const validateAttendanceMakeupQuery = validateQueryLength(8000);
+
+/** POST/PUT /api/attendance/makeups 보강 저장 검증 */
+const validateAttendanceMakeupBody = validateStringFields([
+  { field: "registrationId", max: 100 },
+  { field: "date", max: 20 },
+  { field: "targetCourse", max: 200 },
+  { field: "targetCourseId", max: 100 },
+  { field: "targetDate", max: 20 },
+  { field: "targetTime", max: 10 },
+  { field: "status", max: 20 },
+  { field: "memo", max: 200 },
+]);
+
+/** POST/PUT /api/attendance/statuses 출석 상태 저장 검증 */
+const validateAttendanceStatusBody = validateStringFields([
+  { field: "key", max: 30 },
+  { field: "label", max: 30 },
+  { field: "shortLabel", max: 10 },
+  { field: "color", max: 20 },
+]);
+
+/** GET /api/attendance/locks 쿼리 검증 */
+const validateAttendanceLockQuery = validateQueryLength(300);
+
+/** POST /api/attendance/locks 월 마감 검증 */
+const validateAttendanceLockBody = validateStringFields([
+  { field: "courseConfigSetName", max: 100 },
+  { field: "month", max: 7 },
+]);
+
+module.exports = {
+  validateAttendanceAlertRuleBody,
+  validateAttendanceCheckInBody,
+  validateAttendanceFollowUpQuery,
+  validateAttendanceLockBody,
+  validateAttendanceLockQuery,
+  validateAttendanceMakeupBody,
+  validateAttendanceMakeupQuery,
+  validateAttendanceStatsQuery,
+  validateAttendanceStatusBody,
+};
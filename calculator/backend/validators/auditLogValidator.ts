@@ -0,0 +1,12 @@
+/**
+ * 감사 기록 조회 API 입력 검증 규칙
+ */
+
+const { validateQueryLength } = require("../middleware/inputValidator");
+
+/** GET /api/audit-logs 쿼리 검증 */
+const validateAuditLogQuery = validateQueryLength(200);
+
+module.exports = {
+  validateAuditLogQuery,
+};
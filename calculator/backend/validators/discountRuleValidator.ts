@@ -0,0 +1,28 @@
+/**
+ * 할인 규칙 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/discount-rules 쿼리 검증 */
+const validateDiscountRuleQuery = validateQueryLength(200);
+
+/** POST/PUT /api/discount-rules 규칙 저장 검증 */
+const validateDiscountRuleBody = [
+  validateStringFields([
+    { field: "courseConfigSetName", max: 100 },
+    { field: "name", max: 100 },
+    { field: "type", max: 20 },
+    { field: "deadline", max: 10 },
+    { field: "couponCode", max: 50 },
+  ]),
+  validateArrayFields([
+    { field: "courseKeys", max: 200 },
+  ]),
+];
+
+module.exports = {
+  validateDiscountRuleBody,
+  validateDiscountRuleQuery,
+};
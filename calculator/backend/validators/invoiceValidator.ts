@@ -0,0 +1,26 @@
+/**
+ * 견적서/청구서 PDF API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** POST /api/invoices/pdf 장바구니 문서 검증 */
+const validateCartInvoiceBody = [
+  validateStringFields([
+    { field: "type", max: 20 },
+    { field: "studentName", max: 100 },
+    { field: "courseConfigSetName", max: 100 },
+  ]),
+  validateArrayFields([
+    { field: "items", max: 20 },
+  ]),
+];
+
+/** GET /api/invoices/registrations/:id 쿼리 검증 */
+const validateInvoiceQuery = validateQueryLength(50);
+
+module.exports = {
+  validateCartInvoiceBody,
+  validateInvoiceQuery,
+};
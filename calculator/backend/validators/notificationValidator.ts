@@ -0,0 +1,19 @@
+/**
+ * 알림 발송 API 입력 검증 규칙
+ */
+
+const { validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/notifications 쿼리 검증 */
+const validateNotificationQuery = validateQueryLength(200);
+
+/** POST /api/notifications 검증 (개별 메시지 내용은 서비스에서 확인) */
+const validateNotificationBody = validateArrayFields([
+  { field: "messages", max: 50 },
+]);
+
+module.exports = {
+  validateNotificationBody,
+  validateNotificationQuery,
+};
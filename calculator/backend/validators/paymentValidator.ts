@@ -0,0 +1,23 @@
+/**
+ * 수납 기록 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/payments 쿼리 검증 */
+const validatePaymentQuery = validateQueryLength(200);
+
+/** POST /api/payments 수납 기록 검증 */
+const validatePaymentBody = validateStringFields([
+  { field: "registrationId", max: 100 },
+  { field: "registrationExtensionId", max: 100 },
+  { field: "method", max: 20 },
+  { field: "paidAt", max: 10 },
+  { field: "memo", max: 500 },
+]);
+
+module.exports = {
+  validatePaymentQuery,
+  validatePaymentBody,
+};
@@ -0,0 +1,43 @@
+/**
+ * 견적 계산 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/quotes 쿼리 검증 */
+const validateQuoteQuery = validateQueryLength(200);
+
+/** POST /api/quotes/calculate 견적 계산 검증 */
+const validateQuoteBody = [
+  validateStringFields([
+    { field: "courseId", max: 100 },
+    { field: "courseConfigSetName", max: 100 },
+    { field: "satCampus", max: 100 },
+    { field: "courseType", max: 50 },
+    { field: "level", max: 50 },
+  ]),
+  validateArrayFields([
+    { field: "selectedDates", max: 366 },
+    { field: "recordingDates", max: 366 },
+  ]),
+];
+
+/** POST /api/quotes 견적 저장 검증 */
+const validateSavedQuoteBody = [
+  validateStringFields([
+    { field: "studentName", max: 100 },
+    { field: "courseConfigSetName", max: 100 },
+    { field: "expiresAt", max: 10 },
+    { field: "memo", max: 500 },
+  ]),
+  validateArrayFields([
+    { field: "items", max: 20 },
+  ]),
+];
+
+module.exports = {
+  validateQuoteBody,
+  validateQuoteQuery,
+  validateSavedQuoteBody,
+};
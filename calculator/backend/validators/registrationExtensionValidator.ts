@@ -0,0 +1,27 @@
+/**
+ * 분납 연장 API 입력 검증 규칙
+ */
+
+const { validateArrayFields, validateStringFields } = require("../middleware/inputValidator");
+
+/** PUT /api/registration-extensions/:id 검증 */
+const validateRegistrationExtensionBody = [
+  validateStringFields([
+    { field: "startDate", max: 10 },
+    { field: "endDate", max: 10 },
+  ]),
+  validateArrayFields([
+    { field: "skipWeeks", max: 200 },
+    { field: "recordingDates", max: 400 },
+  ]),
+];
+
+/** POST /api/registration-extensions/bulk 검증 */
+const validateRegistrationExtensionBulkBody = [
+  validateArrayFields([{ field: "items", max: 200 }]),
+];
+
+module.exports = {
+  validateRegistrationExtensionBody,
+  validateRegistrationExtensionBulkBody,
+};
@@ -0,0 +1,18 @@
+/**
+ * 등록 휴원 API 입력 검증 규칙
+ */
+
+const { validateStringFields } = require("../middleware/inputValidator");
+
+/** POST /api/registrations/:id/holds, PUT /api/registrations/:id/holds/:holdId 검증 */
+const validateRegistrationHoldBody = [
+  validateStringFields([
+    { field: "startDate", max: 10 },
+    { field: "endDate", max: 10 },
+    { field: "reason", max: 200 },
+  ]),
+];
+
+module.exports = {
+  validateRegistrationHoldBody,
+};
@@ -0,0 +1,38 @@
+/**
+ * 입금 내역 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/sms-deposits 쿼리 검증 */
+const validateDepositQuery = validateQueryLength(200);
+
+/** POST /api/sms-deposits/:id/link 연결 검증 */
+const validateLinkBody = validateStringFields([
+  { field: "registrationId", max: 100 },
+  { field: "registrationExtensionId", max: 100 },
+]);
+
+/** POST /api/sms-deposits/:id/ignore 제외 사유 검증 */
+const validateIgnoreBody = validateStringFields([
+  { field: "memo", max: 500 },
+]);
+
+/** POST /api/sms-deposits/:id/split 분할 검증 */
+const validateSplitBody = validateArrayFields([
+  { field: "allocations", max: 10 },
+]);
+
+/** POST /api/sms-deposits/unparsed/:id/resolve 수동 입력 검증 */
+const validateResolveBody = validateStringFields([
+  { field: "depositorName", max: 20 },
+]);
+
+module.exports = {
+  validateDepositQuery,
+  validateLinkBody,
+  validateIgnoreBody,
+  validateSplitBody,
+  validateResolveBody,
+};
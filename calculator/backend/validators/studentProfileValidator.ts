@@ -0,0 +1,35 @@
+/**
+ * 학생 기본 정보 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/student-profiles 쿼리 검증 */
+const validateStudentProfileQuery = validateQueryLength(200);
+
+/** POST/PUT /api/student-profiles 검증 */
+const validateStudentProfileBody = [
+  validateStringFields([
+    { field: "name", max: 100 },
+    { field: "school", max: 100 },
+    { field: "grade", max: 20 },
+    { field: "phone", max: 30 },
+    { field: "memo", max: 1000 },
+  ]),
+  validateArrayFields([
+    { field: "guardians", max: 5 },
+    { field: "registrationIds", max: 200 },
+  ]),
+];
+
+/** POST /api/student-profiles/:id/registrations 검증 */
+const validateStudentLinkBody = validateArrayFields([
+  { field: "registrationIds", max: 200 },
+]);
+
+module.exports = {
+  validateStudentLinkBody,
+  validateStudentProfileBody,
+  validateStudentProfileQuery,
+};
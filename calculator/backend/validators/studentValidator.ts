@@ -15,6 +15,9 @@ const validateStudentBody = [
     { field: "course", max: 200 },
     { field: "courseId", max: 100 },
     { field: "courseConfigSetName", max: 100 },
+    { field: "courseType", max: 50 },
+    { field: "timeOption", max: 50 },
+    { field: "studentId", max: 64 },
   ]),
   validateArrayFields([
     { field: "records", max: 500 },
@@ -27,6 +30,9 @@ const validateStudentUpdate = validateStringFields([
   { field: "course", max: 200 },
   { field: "courseId", max: 100 },
   { field: "courseConfigSetName", max: 100 },
+  { field: "courseType", max: 50 },
+  { field: "timeOption", max: 50 },
+  { field: "studentId", max: 64 },
 ]);
 
 module.exports = {
@@ -0,0 +1,24 @@
+/**
+ * 정원·대기 명단 API 입력 검증 규칙
+ */
+
+const { validateStringFields, validateArrayFields, validateQueryLength } =
+  require("../middleware/inputValidator");
+
+/** GET /api/capacity, GET /api/waitlist 쿼리 검증 */
+const validateWaitlistQuery = validateQueryLength(200);
+
+/** POST /api/waitlist 대기 등록 검증 */
+const validateWaitlistBody = [
+  validateStringFields([
+    { field: "memo", max: 500 },
+  ]),
+  validateArrayFields([
+    { field: "records", max: 20 },
+  ]),
+];
+
+module.exports = {
+  validateWaitlistBody,
+  validateWaitlistQuery,
+};
@@ -1,7 +1,7 @@
 import React from 'react'
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import ProtectedRoute from './ProtectedRoute'
-import { canAccessAdmin, canAccessCalculator } from './auth-routing'
+import { canAccessAdmin, canAccessCalculator, canAccessKiosk } from './auth-routing'
 import ErrorBoundary from './components/common/ErrorBoundary'
 
 const StudentPage = React.lazy(() => import('./pages/StudentPage'));
@@ -15,6 +15,7 @@ const PageLoader = () => <div style={{ padding: 20 }}>Loading...</div>;
 /* StudentCalculator placeholder removed */
 
 const AdminDashboard = React.lazy(() => import('./pages/AdminDashboard'));
+const AttendanceKioskPage = React.lazy(() => import('./pages/AttendanceKioskPage'));
 
 function App() {
     return (
@@ -47,6 +48,13 @@ function App() {
                         </React.Suspense>
                     </ProtectedRoute>
                 } />
+                <Route path="/kiosk" element={
+                    <ProtectedRoute allow={canAccessKiosk}>
+                        <React.Suspense fallback={<PageLoader />}>
+                            <AttendanceKioskPage />
+                        </React.Suspense>
+                    </ProtectedRoute>
+                } />
             </Routes>
         </BrowserRouter>
         </ErrorBoundary>
@@ -3,11 +3,13 @@ import { getReauthAt, getToken, setAuth, setToken } from './auth-store';
 type RequestOptions = Omit<RequestInit, 'headers'> & {
   skipRefresh?: boolean;
   headers?: Record<string, string>;
+  /** 'blob'이면 JSON 대신 파일(Blob)로 받는다 */
+  responseType?: 'json' | 'blob';
 };
 
-type RequestError = Error & { status?: number; statusCode?: number };
+type RequestError = Error & { status?: number; statusCode?: number; data?: JsonRecord };
 type JsonRecord = Record<string, unknown>;
-type QueryParams = Record<string, string | number | boolean>;
+type QueryParams = Record<string, string | number | boolean | null | undefined>;
 type TokenResponse = { token?: string; user?: Record<string, unknown> };
 
 const API_URL = import.meta.env.VITE_API_URL || '';
@@ -95,6 +97,7 @@ async function refreshSession() {
     const {
       skipRefresh: skipRefreshRaw,
       headers: extraHeaders,
+      responseType,
       ...fetchOptions
     } = options;
     const skipRefresh = skipRefreshRaw === true;
@@ -125,16 +128,18 @@ async function refreshSession() {
       if (resp.status === 401 && !skipRefresh && !isAuthPath(path)) {
         try {
           await refreshSession();
-          return request(path, { ...fetchOptions, headers: extraHeaders, skipRefresh: true });
+          return request(path, { ...fetchOptions, headers: extraHeaders, responseType, skipRefresh: true });
         } catch (refreshError) {
           // fall through to original error
         }
       }
       let detail = '';
       let statusCode = resp.status;
+      let body: JsonRecord | undefined;
       try {
         const data: unknown = await resp.json();
         if (isRecord(data)) {
+          body = data;
           const messageValue = data.message;
           if (typeof messageValue === 'string') detail = messageValue;
           const statusValue = data.statusCode;
@@ -148,9 +153,15 @@ async function refreshSession() {
       const error = new Error(detail || `HTTP ${resp.status}`) as RequestError;
       error.status = resp.status;
       error.statusCode = statusCode;
+      // 정원 초과·수강료 불일치처럼 본문에 세부 정보가 있는 오류를 화면에서 쓸 수 있게 남긴다
+      if (body) error.data = body;
       throw error;
     }
 
+    if (responseType === 'blob') {
+      return await resp.blob();
+    }
+
     // 빈 응답을 허용하기 위해 상태코드만 체크 후 JSON 시도
     try {
       return await resp.json();
@@ -245,9 +256,10 @@ export const apiClient = {
   updateUserPermissions(username: string, data: JsonRecord) {
     return request(`/api/users/${encodeURIComponent(username)}/permissions`, { method: 'PUT', body: JSON.stringify(data) });
   },
-  // Registrations (full list)
-  listRegistrations() {
-    return request('/api/registrations', { method: 'GET' });
+  // Registrations (full list without params, one filtered page with params)
+  listRegistrations(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/registrations${qs ? `?${qs}` : ''}`, { method: 'GET' });
   },
   listRegistrationCourseNames(courseConfigSetName: string) {
     const qs = new URLSearchParams({ courseConfigSetName }).toString();
@@ -259,10 +271,10 @@ export const apiClient = {
       body: JSON.stringify(payload),
     });
   },
-  updateRegistrationWithdrawal(id: string, withdrawnAt: string | null) {
+  updateRegistrationWithdrawal(id: string, withdrawnAt: string | null, refund: JsonRecord | null = null) {
     return request(`/api/registrations/${encodeURIComponent(id)}/withdrawal`, {
       method: 'PATCH',
-      body: JSON.stringify({ withdrawnAt }),
+      body: JSON.stringify({ withdrawnAt, refund }),
     });
   },
   updateRegistrationNote(id: string, content: string) {
@@ -282,6 +294,24 @@ export const apiClient = {
       method: 'POST',
     });
   },
+  createRegistrationHold(registrationId: string, payload: JsonRecord) {
+    return request(`/api/registrations/${encodeURIComponent(registrationId)}/holds`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+  updateRegistrationHold(registrationId: string, holdId: string, payload: JsonRecord) {
+    return request(
+      `/api/registrations/${encodeURIComponent(registrationId)}/holds/${encodeURIComponent(holdId)}`,
+      { method: 'PUT', body: JSON.stringify(payload) }
+    );
+  },
+  deleteRegistrationHold(registrationId: string, holdId: string) {
+    return request(
+      `/api/registrations/${encodeURIComponent(registrationId)}/holds/${encodeURIComponent(holdId)}`,
+      { method: 'DELETE' }
+    );
+  },
   listRegistrationExtensions(params: { registrationIds?: string[] } = {}) {
     return request('/api/registration-extensions/query', {
       method: 'POST',
@@ -294,6 +324,80 @@ export const apiClient = {
       body: JSON.stringify(payload),
     });
   },
+  bulkCreateRegistrationExtensions(payload: JsonRecord) {
+    return request('/api/registration-extensions/bulk', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+  updateRegistrationExtension(id: string, payload: JsonRecord) {
+    return request(`/api/registration-extensions/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    });
+  },
+  deleteRegistrationExtension(id: string) {
+    return request(`/api/registration-extensions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  // SMS deposits (reconciliation)
+  listSmsDeposits(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/sms-deposits${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  listUnpaidTargets() {
+    return request('/api/sms-deposits/unpaid', { method: 'GET' });
+  },
+  listSmsDepositCandidates(id: string) {
+    return request(`/api/sms-deposits/${encodeURIComponent(id)}/candidates`, { method: 'GET' });
+  },
+  rematchSmsDeposits() {
+    return request('/api/sms-deposits/rematch', { method: 'POST' });
+  },
+  linkSmsDeposit(id: string, payload: JsonRecord) {
+    return request(`/api/sms-deposits/${encodeURIComponent(id)}/link`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+  unlinkSmsDeposit(id: string) {
+    return request(`/api/sms-deposits/${encodeURIComponent(id)}/unlink`, { method: 'POST' });
+  },
+  ignoreSmsDeposit(id: string, memo: string) {
+    return request(`/api/sms-deposits/${encodeURIComponent(id)}/ignore`, {
+      method: 'POST',
+      body: JSON.stringify({ memo }),
+    });
+  },
+  splitSmsDeposit(id: string, allocations: JsonRecord[]) {
+    return request(`/api/sms-deposits/${encodeURIComponent(id)}/split`, {
+      method: 'POST',
+      body: JSON.stringify({ allocations }),
+    });
+  },
+  listUnparsedSms(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/sms-deposits/unparsed${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  resolveUnparsedSms(id: string, payload: JsonRecord) {
+    return request(`/api/sms-deposits/unparsed/${encodeURIComponent(id)}/resolve`, {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+  },
+  dismissUnparsedSms(id: string) {
+    return request(`/api/sms-deposits/unparsed/${encodeURIComponent(id)}/dismiss`, { method: 'POST' });
+  },
+  // Payments (ledger)
+  listPayments(registrationId: string) {
+    const qs = buildQuery({ registrationId });
+    return request(`/api/payments?${qs}`, { method: 'GET' });
+  },
+  createPayment(payload: JsonRecord) {
+    return request('/api/payments', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  deletePayment(id: string) {
+    return request(`/api/payments/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
   // Merge groups (registrations grouping)
   listMerges() {
     return request('/api/merges', { method: 'GET' });
@@ -324,6 +428,131 @@ export const apiClient = {
   getStudent(id: string) {
     return request(`/api/students/${id}`, { method: 'GET' });
   },
+  calculateQuote(payload: JsonRecord) {
+    return request('/api/quotes/calculate', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  listQuotes(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/quotes${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  getQuote(id: string) {
+    return request(`/api/quotes/${encodeURIComponent(id)}`, { method: 'GET' });
+  },
+  createQuote(payload: JsonRecord) {
+    return request('/api/quotes', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  duplicateQuote(id: string) {
+    return request(`/api/quotes/${encodeURIComponent(id)}/duplicate`, { method: 'POST' });
+  },
+  convertQuote(id: string, payload: JsonRecord = {}) {
+    return request(`/api/quotes/${encodeURIComponent(id)}/convert`, { method: 'POST', body: JSON.stringify(payload) });
+  },
+  deleteQuote(id: string) {
+    return request(`/api/quotes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  downloadCartInvoicePdf(payload: JsonRecord): Promise<Blob> {
+    return request('/api/invoices/pdf', { method: 'POST', body: JSON.stringify(payload), responseType: 'blob' });
+  },
+  downloadRegistrationInvoicePdf(id: string, type: 'invoice' | 'quote' = 'invoice'): Promise<Blob> {
+    const qs = buildQuery({ type });
+    return request(`/api/invoices/registrations/${encodeURIComponent(id)}?${qs}`, { method: 'GET', responseType: 'blob' });
+  },
+  getClassCapacity(courseConfigSetName: string) {
+    const qs = buildQuery({ courseConfigSetName });
+    return request(`/api/capacity?${qs}`, { method: 'GET' });
+  },
+  listWaitlist(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/waitlist${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  createWaitlistEntries(payload: JsonRecord) {
+    return request('/api/waitlist', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  convertWaitlistEntry(id: string, payload: JsonRecord = {}) {
+    return request(`/api/waitlist/${encodeURIComponent(id)}/convert`, { method: 'POST', body: JSON.stringify(payload) });
+  },
+  cancelWaitlistEntry(id: string) {
+    return request(`/api/waitlist/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  listStudentProfiles(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/student-profiles${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  getStudentProfile(id: string) {
+    return request(`/api/student-profiles/${encodeURIComponent(id)}`, { method: 'GET' });
+  },
+  createStudentProfile(payload: JsonRecord) {
+    return request('/api/student-profiles', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  updateStudentProfile(id: string, payload: JsonRecord) {
+    return request(`/api/student-profiles/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(payload) });
+  },
+  deleteStudentProfile(id: string) {
+    return request(`/api/student-profiles/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  listStudentClusters(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/student-profiles/clusters${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  linkStudentRegistrations(id: string, registrationIds: string[]) {
+    return request(`/api/student-profiles/${encodeURIComponent(id)}/registrations`, {
+      method: 'POST',
+      body: JSON.stringify({ registrationIds }),
+    });
+  },
+  getNotificationChannels() {
+    return request('/api/notifications/channels', { method: 'GET' });
+  },
+  listNotifications(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/notifications${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  sendNotifications(payload: JsonRecord) {
+    return request('/api/notifications', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  retryNotification(id: string) {
+    return request(`/api/notifications/${encodeURIComponent(id)}/retry`, { method: 'POST' });
+  },
+  cancelNotification(id: string) {
+    return request(`/api/notifications/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+  },
+  getRegistrationAudit(registrationId: string) {
+    return request(`/api/registrations/${encodeURIComponent(registrationId)}/audit`, { method: 'GET' });
+  },
+  listAuditLogs(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/audit-logs${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  getRegistrationAnalytics(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/analytics${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  issueStudentCheckInCode(id: string) {
+    return request(`/api/student-profiles/${encodeURIComponent(id)}/check-in-code`, { method: 'POST' });
+  },
+  unlinkStudentRegistration(id: string, registrationId: string) {
+    return request(
+      `/api/student-profiles/${encodeURIComponent(id)}/registrations/${encodeURIComponent(registrationId)}`,
+      { method: 'DELETE' }
+    );
+  },
+  listDiscountRules(courseConfigSetName: string) {
+    const qs = buildQuery({ courseConfigSetName });
+    return request(`/api/discount-rules?${qs}`, { method: 'GET' });
+  },
+  getStudentDiscountContext(name: string, excludeId = '') {
+    const qs = buildQuery(excludeId ? { name, excludeId } : { name });
+    return request(`/api/discount-rules/student-context?${qs}`, { method: 'GET' });
+  },
+  createDiscountRule(payload: JsonRecord) {
+    return request('/api/discount-rules', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  updateDiscountRule(id: string, payload: JsonRecord) {
+    return request(`/api/discount-rules/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(payload) });
+  },
+  deleteDiscountRule(id: string) {
+    return request(`/api/discount-rules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
   addStudents(records: JsonRecord[]) {
     return request('/api/students', { method: 'POST', body: JSON.stringify(records) });
   },
@@ -360,7 +589,68 @@ export const apiClient = {
   saveAttendance(data: JsonRecord) {
     return request('/api/attendance', { method: 'POST', body: JSON.stringify(data) });
   },
-  saveAttendanceEntries(entries: JsonRecord[]) {
-    return request('/api/attendance', { method: 'POST', body: JSON.stringify({ entries }) });
+  saveAttendanceEntries(entries: JsonRecord[], overrideReason?: string) {
+    return request('/api/attendance', {
+      method: 'POST',
+      body: JSON.stringify(overrideReason ? { entries, overrideReason } : { entries }),
+    });
+  },
+  getAttendanceStats(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/attendance/stats${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  listAttendanceFollowUps(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/attendance/follow-ups${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  listAttendanceAlertRules() {
+    return request('/api/attendance/alert-rules', { method: 'GET' });
+  },
+  createAttendanceAlertRule(payload: JsonRecord) {
+    return request('/api/attendance/alert-rules', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  updateAttendanceAlertRule(id: string, payload: JsonRecord) {
+    return request(`/api/attendance/alert-rules/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(payload) });
+  },
+  deleteAttendanceAlertRule(id: string) {
+    return request(`/api/attendance/alert-rules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  listAttendanceStatuses() {
+    return request('/api/attendance/statuses', { method: 'GET' });
+  },
+  createAttendanceStatus(payload: JsonRecord) {
+    return request('/api/attendance/statuses', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  updateAttendanceStatus(id: string, payload: JsonRecord) {
+    return request(`/api/attendance/statuses/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(payload) });
+  },
+  deleteAttendanceStatus(id: string) {
+    return request(`/api/attendance/statuses/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  listAttendanceLocks(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/attendance/locks${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  lockAttendanceMonth(payload: JsonRecord) {
+    return request('/api/attendance/locks', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  unlockAttendanceMonth(id: string) {
+    return request(`/api/attendance/locks/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  listAttendanceMakeups(params: QueryParams = {}) {
+    const qs = buildQuery(params);
+    return request(`/api/attendance/makeups${qs ? `?${qs}` : ''}`, { method: 'GET' });
+  },
+  createAttendanceMakeup(payload: JsonRecord) {
+    return request('/api/attendance/makeups', { method: 'POST', body: JSON.stringify(payload) });
+  },
+  updateAttendanceMakeup(id: string, payload: JsonRecord) {
+    return request(`/api/attendance/makeups/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(payload) });
+  },
+  deleteAttendanceMakeup(id: string) {
+    return request(`/api/attendance/makeups/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+  checkInAttendance(payload: JsonRecord) {
+    return request('/api/attendance/check-in', { method: 'POST', body: JSON.stringify(payload) });
   },
 };
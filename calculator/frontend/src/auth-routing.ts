@@ -1,8 +1,11 @@
+import { hasPermission, PERMISSION_KEYS } from './permissions';
+
 export const ROUTES = {
   login: '/login',
   admin: '/sehan',
   calculator: '/',
   changePassword: '/change-password',
+  kiosk: '/kiosk',
 };
 
 const CALCULATOR_ROLES = new Set(['master', 'admin', 'parttime']);
@@ -21,6 +24,11 @@ export function canAccessAdmin(user: AuthUser | null) {
   return Boolean(user && user.role && ADMIN_ROLES.has(user.role));
 }
 
+/** 출석 키오스크: 관리자 화면에 들어오고 출석부 권한이 있는 계정 */
+export function canAccessKiosk(user: AuthUser | null) {
+  return canAccessAdmin(user) && hasPermission(user, PERMISSION_KEYS.tabs.attendance);
+}
+
 export function isAdminPath(pathname: string) {
   return pathname === ROUTES.admin || pathname.startsWith(`${ROUTES.admin}/`);
 }
@@ -29,6 +37,7 @@ export function isAllowedPath(user: AuthUser | null, pathname: string) {
   if (!user) return false;
   if (isAdminPath(pathname)) return canAccessAdmin(user);
   if (pathname === ROUTES.calculator) return canAccessCalculator(user);
+  if (pathname === ROUTES.kiosk) return canAccessKiosk(user);
   if (pathname === ROUTES.changePassword) return true;
   return true;
 }
@@ -1,6 +1,7 @@
 import React from 'react';
-import { Trash2, Video, Calendar } from 'lucide-react';
+import { Trash2, Video, Calendar, Percent, Users } from 'lucide-react';
 import { Button } from "@/components/ui/button";
+import { formatSeatStatusLabel, type CartSeatStatus } from '../../utils/capacityUtils';
 
 type CartItem = {
     id: number
@@ -8,50 +9,77 @@ type CartItem = {
     details: { durationStr: string }
     recordingDays: number
     finalFee: number
+    appliedDiscountRules?: Array<{ id: string; name: string; rate: number }>
 }
 
-const CartList = ({ cart, onRemove }: { cart: CartItem[]; onRemove: (id: number) => void }) => {
+type CartListProps = {
+    cart: CartItem[]
+    onRemove: (id: number) => void
+    /** cart와 같은 순서의 반 자리 현황 (정원 없는 과목은 null) */
+    seatStatuses?: Array<CartSeatStatus | null>
+}
+
+const CartList = ({ cart, onRemove, seatStatuses = [] }: CartListProps) => {
     if (cart.length === 0) return null;
 
     return (
         <div className="space-y-3">
-            {cart.map(item => (
-                <div
-                    key={item.id}
-                    className="relative group p-5 bg-secondary/20 rounded-2xl border border-border transition-all hover:bg-background hover:shadow-md hover:border-primary/20"
-                >
-                    <div className="flex justify-between items-start pr-12">
-                        <div>
-                            <div className="font-bold text-foreground text-lg mb-1">{item.displayCourseName}</div>
-                            <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
-                                <span className="flex items-center gap-1 bg-background px-2 py-1 rounded-md border border-border">
-                                    <Calendar className="w-3.5 h-3.5" />
-                                    {item.details.durationStr}
-                                </span>
-                                {item.recordingDays > 0 && (
-                                    <span className="flex items-center gap-1 bg-orange-50 text-orange-600 px-2 py-1 rounded-md border border-orange-100">
-                                        <Video className="w-3.5 h-3.5" />
-                                        녹화 {item.recordingDays}일
+            {cart.map((item, index) => {
+                const seatStatus = seatStatuses[index];
+                return (
+                    <div
+                        key={item.id}
+                        className="relative group p-5 bg-secondary/20 rounded-2xl border border-border transition-all hover:bg-background hover:shadow-md hover:border-primary/20"
+                    >
+                        <div className="flex justify-between items-start pr-12">
+                            <div>
+                                <div className="font-bold text-foreground text-lg mb-1">{item.displayCourseName}</div>
+                                <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+                                    <span className="flex items-center gap-1 bg-background px-2 py-1 rounded-md border border-border">
+                                        <Calendar className="w-3.5 h-3.5" />
+                                        {item.details.durationStr}
                                     </span>
-                                )}
+                                    {item.recordingDays > 0 && (
+                                        <span className="flex items-center gap-1 bg-orange-50 text-orange-600 px-2 py-1 rounded-md border border-orange-100">
+                                            <Video className="w-3.5 h-3.5" />
+                                            녹화 {item.recordingDays}일
+                                        </span>
+                                    )}
+                                    {seatStatus && (
+                                        <span
+                                            className={seatStatus.overCapacity
+                                                ? "flex items-center gap-1 bg-red-50 text-red-600 px-2 py-1 rounded-md border border-red-100"
+                                                : "flex items-center gap-1 bg-sky-50 text-sky-700 px-2 py-1 rounded-md border border-sky-100"}
+                                        >
+                                            <Users className="w-3.5 h-3.5" />
+                                            {formatSeatStatusLabel(seatStatus)}
+                                        </span>
+                                    )}
+                                    {(item.appliedDiscountRules || []).map((rule) => (
+                                        <span key={rule.id} className="flex items-center gap-1 bg-emerald-50 text-emerald-700 px-2 py-1 rounded-md border border-emerald-100">
+                                            <Percent className="w-3.5 h-3.5" />
+                                            {rule.name} {Math.round(rule.rate * 10000) / 100}%
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="font-bold text-primary text-lg">
+                                {item.finalFee.toLocaleString()}원
                             </div>
                         </div>
-                        <div className="font-bold text-primary text-lg">
-                            {item.finalFee.toLocaleString()}원
-                        </div>
-                    </div>
 
-                    <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => onRemove(item.id)}
-                        className="absolute top-4 right-4 text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-all"
-                        title="제거"
-                    >
-                        <Trash2 className="w-5 h-5" />
-                    </Button>
-                </div>
-            ))}
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onRemove(item.id)}
+                            className="absolute top-4 right-4 text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-all"
+                            title="제거"
+                        >
+                            <Trash2 className="w-5 h-5" />
+                        </Button>
+                    </div>
+                );
+            })}
         </div>
     );
 };
@@ -0,0 +1,303 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import Modal from '../common/Modal';
+import { apiClient } from '../../api-client';
+import {
+    buildQuoteComparison,
+    canConvertQuote,
+    formatQuoteDate,
+    getQuoteStatusKey,
+    getQuoteStatusLabel,
+    type SavedQuote,
+} from '../../utils/quoteUtils';
+import { getCapacityOverflows } from '../../utils/capacityUtils';
+import {
+    ArrowRightLeft,
+    CheckCircle2,
+    Copy,
+    FileText,
+    FolderOpen,
+    Loader2,
+    Search,
+    Trash2,
+} from 'lucide-react';
+
+const MAX_COMPARE = 3;
+
+const STATUS_CLASS: Record<string, string> = {
+    open: 'bg-blue-50 text-blue-700',
+    converted: 'bg-green-50 text-green-700',
+    expired: 'bg-gray-100 text-gray-500',
+};
+
+type QuotesModalProps = {
+    isOpen: boolean
+    onClose: () => void
+    onReopen: (quote: SavedQuote) => void
+    onConverted?: (quote: SavedQuote) => void
+}
+
+const QuotesModal = ({ isOpen, onClose, onReopen, onConverted }: QuotesModalProps) => {
+    const [loading, setLoading] = useState(false);
+    const [quotes, setQuotes] = useState<SavedQuote[]>([]);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCompareIds([]);
+            fetchQuotes();
+        }
+    }, [isOpen]);
+
+    const fetchQuotes = async (search = searchTerm) => {
+        setLoading(true);
+        try {
+            const response = await apiClient.listQuotes({ searchTerm: search.trim() || undefined });
+            setQuotes(Array.isArray(response?.results) ? response.results : []);
+        } catch (e) {
+            console.error(e);
+            alert('견적을 불러오는데 실패했습니다.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const runAction = async (id: string, action: () => Promise<void>, failPrefix: string) => {
+        setBusyId(id);
+        try {
+            await action();
+        } catch (e) {
+            const message = e instanceof Error ? e.message : '알 수 없는 오류가 발생했습니다.';
+            alert(`${failPrefix}: ${message}`);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDuplicate = (quote: SavedQuote) =>
+        runAction(quote.id, async () => {
+            await apiClient.duplicateQuote(quote.id);
+            await fetchQuotes();
+        }, '복제 실패');
+
+    const handleConvert = (quote: SavedQuote) => {
+        if (!canConvertQuote(quote)) return;
+        const total = Number(quote.totalFee || 0).toLocaleString();
+        if (!confirm(`${quote.studentName} 학생의 견적(${total}원)을 등록으로 전환할까요?\n견적 금액이 수강료로 확정됩니다.`)) return;
+        return runAction(quote.id, async () => {
+            let response;
+            try {
+                response = await apiClient.convertQuote(quote.id);
+            } catch (e) {
+                // 정원이 찬 반이면 확인 후 정원을 넘겨 등록한다
+                if (!(e instanceof Error) || getCapacityOverflows(e).length === 0) throw e;
+                if (!confirm(`${e.message}\n\n정원을 넘겨 등록할까요?`)) return;
+                response = await apiClient.convertQuote(quote.id, { allowOverCapacity: true });
+            }
+            const converted = (response?.quote || quote) as SavedQuote;
+            setQuotes((prev) => prev.map((item) => (item.id === quote.id ? converted : item)));
+            onConverted?.(converted);
+        }, '등록 전환 실패');
+    };
+
+    const handleDelete = (quote: SavedQuote) => {
+        if (!confirm('견적을 삭제하시겠습니까?')) return;
+        return runAction(quote.id, async () => {
+            await apiClient.deleteQuote(quote.id);
+            setQuotes((prev) => prev.filter((item) => item.id !== quote.id));
+            setCompareIds((prev) => prev.filter((id) => id !== quote.id));
+        }, '삭제 실패');
+    };
+
+    const toggleCompare = (id: string) => {
+        setCompareIds((prev) => {
+            if (prev.includes(id)) return prev.filter((value) => value !== id);
+            if (prev.length >= MAX_COMPARE) return prev;
+            return [...prev, id];
+        });
+    };
+
+    const compareQuotes = useMemo(
+        () => compareIds
+            .map((id) => quotes.find((quote) => quote.id === id))
+            .filter((quote): quote is SavedQuote => !!quote),
+        [compareIds, quotes]
+    );
+    const comparisonRows = useMemo(() => buildQuoteComparison(compareQuotes), [compareQuotes]);
+
+    const renderComparison = () => (
+        <div className="rounded-xl border border-gray-100 bg-gray-50/60 p-3">
+            <div className="mb-2 text-xs font-semibold text-gray-500">견적 비교</div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-gray-500">
+                            <th className="py-1 pr-2 text-left font-medium">과목</th>
+                            {compareQuotes.map((quote) => (
+                                <th key={quote.id} className="py-1 pl-2 text-right font-medium">
+                                    {quote.studentName}
+                                    <div className="font-normal text-gray-400">{formatQuoteDate(quote.createdAt)}</div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {comparisonRows.map((row) => (
+                            <tr key={row.course} className="border-t border-gray-100">
+                                <td className="py-1 pr-2 text-gray-700">{row.course}</td>
+                                {row.fees.map((fee, index) => (
+                                    <td key={compareQuotes[index]?.id || index} className="py-1 pl-2 text-right text-gray-900">
+                                        {fee === null ? '-' : `${fee.toLocaleString()}원`}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                        <tr className="border-t border-gray-200 font-semibold">
+                            <td className="py-1 pr-2 text-gray-700">합계</td>
+                            {compareQuotes.map((quote) => (
+                                <td key={quote.id} className="py-1 pl-2 text-right text-gray-900">
+                                    {Number(quote.totalFee || 0).toLocaleString()}원
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+
+    const renderQuote = (quote: SavedQuote) => {
+        const statusKey = getQuoteStatusKey(quote);
+        const busy = busyId === quote.id;
+        const convertible = canConvertQuote(quote);
+        const compared = compareIds.includes(quote.id);
+        return (
+            <div key={quote.id} className={`p-4 bg-white border rounded-xl ${compared ? 'border-blue-300' : 'border-gray-100'}`}>
+                <div className="flex justify-between items-start gap-3">
+                    <label className="flex min-w-0 items-start gap-3">
+                        <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={compared}
+                            disabled={!compared && compareIds.length >= MAX_COMPARE}
+                            onChange={() => toggleCompare(quote.id)}
+                        />
+                        <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="font-bold text-gray-900">{quote.studentName}</span>
+                                <span className={`rounded-md px-1.5 py-0.5 text-[11px] font-semibold ${STATUS_CLASS[statusKey]}`}>
+                                    {getQuoteStatusLabel(quote)}
+                                </span>
+                            </div>
+                            <div className="mt-1 text-sm text-gray-700">
+                                {quote.items.map((item) => item.displayCourseName).join(', ')}
+                            </div>
+                            <div className="mt-1 text-xs text-gray-500">
+                                {Number(quote.totalFee || 0).toLocaleString()}원 · {quote.courseConfigSetName || '-'} · {quote.createdBy || '-'}
+                            </div>
+                            <div className="text-xs text-gray-400">
+                                {formatQuoteDate(quote.createdAt)} 작성 · {formatQuoteDate(quote.expiresAt)}까지
+                                {quote.convertedAt ? ` · ${formatQuoteDate(quote.convertedAt)} 등록` : ''}
+                            </div>
+                            {quote.memo ? <div className="mt-1 text-xs text-gray-500">{quote.memo}</div> : null}
+                        </div>
+                    </label>
+                    <div className="flex shrink-0 flex-col items-end gap-1.5">
+                        <div className="flex items-center gap-1.5">
+                            <button
+                                disabled={busy}
+                                onClick={() => onReopen(quote)}
+                                className="rounded-lg px-2.5 py-1.5 text-xs font-semibold border border-gray-200 text-gray-600 hover:bg-gray-50 inline-flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <FolderOpen className="w-3 h-3" />
+                                열기
+                            </button>
+                            <button
+                                disabled={busy}
+                                onClick={() => handleDuplicate(quote)}
+                                className="rounded-lg px-2.5 py-1.5 text-xs font-semibold border border-gray-200 text-gray-600 hover:bg-gray-50 inline-flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Copy className="w-3 h-3" />
+                                복제
+                            </button>
+                        </div>
+                        <div className="flex items-center gap-1.5">
+                            <button
+                                disabled={busy || !convertible}
+                                onClick={() => handleConvert(quote)}
+                                className={`rounded-lg px-2.5 py-1.5 text-xs font-semibold inline-flex items-center gap-1 ${
+                                    convertible
+                                        ? 'bg-green-600 text-white hover:bg-green-700 disabled:opacity-50'
+                                        : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+                                }`}
+                            >
+                                {statusKey === 'converted' ? <CheckCircle2 className="w-3 h-3" /> : <ArrowRightLeft className="w-3 h-3" />}
+                                {statusKey === 'converted' ? '등록됨' : '등록 전환'}
+                            </button>
+                            <button
+                                disabled={busy || statusKey === 'converted'}
+                                onClick={() => handleDelete(quote)}
+                                className="rounded-lg px-2.5 py-1.5 text-xs font-semibold border border-gray-200 text-gray-600 hover:bg-gray-50 inline-flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Trash2 className="w-3 h-3" />
+                                삭제
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="저장된 견적">
+            <div className="space-y-3">
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Search className="h-4 w-4 text-gray-400" />
+                        </div>
+                        <input
+                            value={searchTerm}
+                            onChange={(e) => setSearchTerm(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') fetchQuotes();
+                            }}
+                            className="w-full rounded-lg border border-gray-200 bg-white pl-10 pr-3 py-2 text-sm"
+                            placeholder="학생 이름으로 검색"
+                        />
+                    </div>
+                    <button
+                        onClick={() => fetchQuotes()}
+                        className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white hover:bg-gray-800"
+                    >
+                        검색
+                    </button>
+                </div>
+
+                {compareQuotes.length >= 2 ? renderComparison() : (
+                    <div className="text-xs text-gray-400">비교할 견적을 {MAX_COMPARE}개까지 선택하세요.</div>
+                )}
+
+                <div className="space-y-2 min-h-[240px] max-h-[360px] overflow-y-auto pr-2">
+                    {loading ? (
+                        <div className="flex flex-col items-center justify-center h-[240px] text-gray-400">
+                            <Loader2 className="w-8 h-8 animate-spin mb-2" />
+                            <span>로딩 중...</span>
+                        </div>
+                    ) : quotes.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center h-[240px] text-gray-400 border-2 border-dashed border-gray-100 rounded-lg">
+                            <FileText className="w-8 h-8 mb-2 opacity-50" />
+                            <span>저장된 견적이 없습니다.</span>
+                        </div>
+                    ) : (
+                        quotes.map(renderQuote)
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default QuotesModal;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { weekdayName, timeTable, recordingAvailable, type CourseInfo, type TimeTableEntry } from '../../utils/data';
 import { DAY_MS, getAvailableRecordingDates, getScheduleWeeks, normalizeSkipWeeks, parseDateOnly, resolveDailyFee } from '../../utils/calculatorLogic';
+import { getClassTypeChoices, getLevelChoices, type CourseOptionChoice } from '@shared/courseOptions';
 import { Calendar as CalendarIcon, Clock, MapPin, Monitor, CheckCircle2, Circle } from 'lucide-react';
 import { format } from 'date-fns';
 import { ko } from 'date-fns/locale';
@@ -41,6 +42,11 @@ const areArraysEqual = (a: Array<string | number> = [], b: Array<string | number
     a.length === b.length && a.every((v, i) => v === b[i]);
 const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
 const isStringEntry = (entry: [string, unknown]): entry is [string, string] => typeof entry[1] === 'string';
+const formatChoiceLabel = (choice: CourseOptionChoice) => {
+    const delta = Number(choice.feeDelta) || 0;
+    if (!delta) return choice.value;
+    return `${choice.value} (${delta > 0 ? '+' : '-'}${Math.abs(delta).toLocaleString()}원)`;
+};
 
 const SingleCourseOptions = ({
     selectedCourseKey,
@@ -137,8 +143,10 @@ const SingleCourseOptions = ({
     const hasMathOptionFlag = c?.hasMathOption;
     const shouldShowMathExclude =
         hasMathOptionFlag === true ||
-        (hasMathOptionFlag == null && Number(c?.mathExcludedFee) > 0) ||
-        ['sat_1500', 'sat_1400', 'sat_bridge'].includes(selectedCourseKey);
+        (hasMathOptionFlag == null && Number(c?.mathExcludedFee) > 0);
+    const levelChoices = getLevelChoices(c.options);
+    const classTypeChoices = getClassTypeChoices(c.options);
+    const shouldShowClassType = timeMeta.isOnOff || !!c.options?.classType;
 
     useEffect(() => {
         if (shouldShowMathExclude) return;
@@ -656,8 +664,8 @@ const SingleCourseOptions = ({
                 </div>
             )}
 
-            {/* DRW Level Selection */}
-            {['drw_morning', 'drw_a', 'drw_b'].includes(selectedCourseKey) && (
+            {/* Level Selection */}
+            {levelChoices.length > 0 && (
                 <div className="space-y-2">
                     <Label className="text-sm font-semibold text-muted-foreground">레벨 선택</Label>
                     <Select
@@ -668,10 +676,11 @@ const SingleCourseOptions = ({
                             <SelectValue placeholder="레벨을 선택하세요" />
                         </SelectTrigger>
                         <SelectContent>
-                            <SelectItem value="Lv.1">Lv.1</SelectItem>
-                            <SelectItem value="Lv.2">Lv.2</SelectItem>
-                            <SelectItem value="Lv.3">Lv.3</SelectItem>
-                            <SelectItem value="Lv.4">Lv.4</SelectItem>
+                            {levelChoices.map((choice) => (
+                                <SelectItem key={choice.value} value={choice.value}>
+                                    {formatChoiceLabel(choice)}
+                                </SelectItem>
+                            ))}
                         </SelectContent>
                     </Select>
                 </div>
@@ -703,7 +712,7 @@ const SingleCourseOptions = ({
                 )}
 
                 {/* Online/Offline Toggle */}
-                {(timeMeta.isOnOff || ['sat_1500', 'sat_1400', 'sat_bridge', 'toefl_l1', 'toefl_l2', 'dm_alg2'].includes(selectedCourseKey)) && (
+                {shouldShowClassType && (
                     <div className="space-y-3">
                         <Label className="flex items-center text-sm font-semibold text-muted-foreground">
                             <Monitor className="w-4 h-4 mr-2 text-primary" />
@@ -714,14 +723,14 @@ const SingleCourseOptions = ({
                             onValueChange={(val) => onChange('courseType', val)}
                             className="grid grid-cols-2 gap-3"
                         >
-                            {['온라인', '오프라인'].map(type => (
-                                <div key={type}>
-                                    <RadioGroupItem value={type} id={`type-${type}`} className="peer sr-only" />
+                            {classTypeChoices.map(choice => (
+                                <div key={choice.value}>
+                                    <RadioGroupItem value={choice.value} id={`type-${choice.value}`} className="peer sr-only" />
                                     <Label
-                                        htmlFor={`type-${type}`}
+                                        htmlFor={`type-${choice.value}`}
                                         className="flex items-center justify-center p-3 border-2 border-muted bg-white rounded-xl cursor-pointer transition-all hover:bg-accent peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/5 peer-data-[state=checked]:text-primary font-medium"
                                     >
-                                        {type}
+                                        {formatChoiceLabel(choice)}
                                     </Label>
                                 </div>
                             ))}
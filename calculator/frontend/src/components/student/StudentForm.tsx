@@ -2,29 +2,54 @@ import React, { useState, useReducer, useEffect, useCallback, useMemo, useRef }
 import { Link } from 'react-router-dom';
 import { applyCourseConfigSetData, courseConfigSetName, courseInfo, courseTree, getCourseName, resetCourseConfigSetData, type CourseInfo } from '../../utils/data';
 import { createCartItem, calculateTotalFee } from '../../utils/calculatorLogic';
-import { generateClipboardText } from '../../utils/clipboardUtils';
+import { generateClipboardText, stripDuplicateSuffix } from '../../utils/clipboardUtils';
 import { loadClipboardHistory, saveClipboardHistoryEntry, CLIPBOARD_HISTORY_LIMIT } from '../../utils/clipboardHistory';
+import { buildQuotePayload, buildRegistrationRecord, type SavedQuote } from '../../utils/quoteUtils';
+import {
+    EMPTY_CAPACITY_SUMMARY,
+    getCapacityOverflows,
+    getCartSeatStatuses,
+    normalizeCapacitySummary,
+    splitByCapacityOverflows,
+    type CapacitySummary,
+} from '../../utils/capacityUtils';
+import { buildInvoicePayload, getInvoiceFilename, INVOICE_DOCUMENT_LABELS, saveBlobAsFile, type InvoiceDocumentType } from '../../utils/invoiceUtils';
+import {
+    formatAppliedDiscountRules,
+    getLocalDateString,
+    hasDiscountRuleType,
+    isSameItemDiscount,
+    resolveItemDiscount,
+    type DiscountInputs,
+} from '../../utils/discountUtils';
+import type { AppliedDiscountRule, DiscountRule } from '@shared/discountEngine';
+import { resolveCourseTextbook, type CourseTextbook, type CourseTextbookSettings } from '@shared/tuitionNotice';
 import { normalizeCourseConfigSets, type CourseConfigSet } from '../../features/admin/courseConfigSets/utils';
 import CourseSelector from './CourseSelector';
 import SingleCourseOptions from './SingleCourseOptions';
 import CartList from './CartList';
 import Modal from '../common/Modal';
 import HistoryModal from './HistoryModal';
+import QuotesModal from './QuotesModal';
+import StudentProfilePicker from './StudentProfilePicker';
 import { apiClient } from '../../api-client';
 import CourseConfigSetPicker from '../../features/admin/courseConfigSets/CourseConfigSetPicker';
 import { useAuth } from '../../auth-context';
 import { useTransfer } from '../../features/admin/registrations/useTransfer';
 import TransferDialog from '../../features/admin/registrations/TransferDialog';
 import { getCourseDaysByName } from '../../features/admin/registrations/utils';
+import NotificationComposeDialog from '../../features/admin/notifications/NotificationComposeDialog';
+import { hasPermission, PERMISSION_KEYS } from '../../permissions';
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
-import { ClipboardClock, Copy, Layers, Plus, Save, History, ShoppingCart, AlertCircle, Undo2, UserRoundCog } from "lucide-react";
+import { ClipboardClock, Copy, FileDown, FilePlus2, FileText, Layers, Plus, Save, History, Send, ShoppingCart, AlertCircle, Undo2, UserRoundCog } from "lucide-react";
 
 type SingleCourseInputs = {
     startDate: string
@@ -61,11 +86,14 @@ type CartItem = {
     }
     totalDays: number
     recordingDays: number
+    autoDiscount: boolean
+    appliedDiscountRules: AppliedDiscountRule[]
 }
 
 type FormState = {
     studentName: string
     discount: number
+    autoDiscount: boolean
     mainCourseKey: string | null
     singleCourseInputs: SingleCourseInputs
     cart: CartItem[]
@@ -74,12 +102,15 @@ type FormState = {
 type FormAction =
     | { type: 'SET_STUDENT_NAME'; payload: string }
     | { type: 'SET_DISCOUNT'; payload: number }
+    | { type: 'SET_AUTO_DISCOUNT' }
     | { type: 'SELECT_COURSE'; payload: string | null }
     | { type: 'UPDATE_SINGLE_INPUT'; field: keyof SingleCourseInputs | string; value: unknown }
     | { type: 'UPDATE_RECORDING_DATES'; payload: string[] }
     | { type: 'ADD_TO_CART'; payload: CartItem }
     | { type: 'REMOVE_FROM_CART'; payload: number }
-    | { type: 'LOAD_HISTORY_RECORD'; payload: { key: string; inputs: Partial<SingleCourseInputs>; discount?: number } }
+    | { type: 'LOAD_HISTORY_RECORD'; payload: { key: string; inputs: Partial<SingleCourseInputs>; discount?: number; autoDiscount?: boolean } }
+    | { type: 'LOAD_QUOTE'; payload: { studentName: string; cart: CartItem[] } }
+    | { type: 'REPLACE_CART'; payload: CartItem[] }
     | { type: 'RESET_AFTER_SAVE' }
     | { type: 'RESET_FOR_CONFIG' }
 
@@ -103,25 +134,10 @@ type HistoryRecord = {
     skipWeeks?: number[]
     excludeMath?: boolean
     recordingDates?: string[]
+    appliedDiscountRuleIds?: string[]
 } & Record<string, unknown>
 
-type TextbookInfo = {
-    textbookOption: TextbookOption
-    textbookAmount: number
-    customNote: string
-}
-
-type TextbookOption = 'none' | 'tbd' | 'amount'
-
-type TextbookFields = {
-    defaultOption?: string
-    defaultAmount?: number
-    onlineOption?: string
-    onlineAmount?: number
-    offlineOption?: string
-    offlineAmount?: number
-    customNote?: string
-}
+type TextbookInfo = CourseTextbook
 
 const COURSE_CONFIG_SET_STORAGE_KEY = "courseConfigSet.selected:calculator";
 const SETTINGS_UPDATED_KEY = "settings.updatedAt";
@@ -162,6 +178,7 @@ const writeStoredCourseConfigSet = (scope: string | undefined, value: string) =>
 const initialState: FormState = {
     studentName: '',
     discount: 0,
+    autoDiscount: true,
 
     // Single Course Input State
     mainCourseKey: null,
@@ -188,7 +205,9 @@ function formReducer(state: FormState, action: FormAction) {
         case 'SET_STUDENT_NAME':
             return { ...state, studentName: action.payload };
         case 'SET_DISCOUNT':
-            return { ...state, discount: action.payload };
+            return { ...state, discount: action.payload, autoDiscount: false };
+        case 'SET_AUTO_DISCOUNT':
+            return { ...state, discount: 0, autoDiscount: true };
         case 'SELECT_COURSE':
             return {
                 ...state,
@@ -226,8 +245,19 @@ function formReducer(state: FormState, action: FormAction) {
                 ...state,
                 mainCourseKey: action.payload.key,
                 discount: action.payload.discount ?? state.discount,
+                autoDiscount: action.payload.autoDiscount ?? state.autoDiscount,
                 singleCourseInputs: { ...state.singleCourseInputs, ...action.payload.inputs }
             };
+        case 'LOAD_QUOTE':
+            return {
+                ...state,
+                studentName: action.payload.studentName,
+                mainCourseKey: null,
+                singleCourseInputs: { ...initialState.singleCourseInputs, startDate: state.singleCourseInputs.startDate },
+                cart: action.payload.cart
+            };
+        case 'REPLACE_CART':
+            return { ...state, cart: action.payload };
         case 'RESET_AFTER_SAVE': {
             const preservedStartDate = state.singleCourseInputs?.startDate || '';
             return {
@@ -304,31 +334,8 @@ const resolveTextbookInfo = (item: CartItem | null | undefined): TextbookInfo =>
         return { textbookOption: 'none', textbookAmount: 0, customNote: '' };
     }
 
-    const courseKey = item.mainCourseKey;
-    const info = courseInfo[courseKey] || {};
-    const textbook = (info.textbook || {}) as TextbookFields;
-    const courseType = item?.singleCourseInputs?.courseType;
-
-    let textbookOption: TextbookOption = (textbook.defaultOption as TextbookOption) || 'none';
-    let textbookAmount = Number(textbook.defaultAmount || 0);
-
-    if (courseType === '온라인') {
-        textbookOption = (textbook.onlineOption as TextbookOption) || (textbook.defaultOption as TextbookOption) || 'none';
-        textbookAmount = Number(textbook.onlineAmount || textbook.defaultAmount || 0);
-    } else if (courseType === '오프라인') {
-        textbookOption = (textbook.offlineOption as TextbookOption) || (textbook.defaultOption as TextbookOption) || 'none';
-        textbookAmount = Number(textbook.offlineAmount || textbook.defaultAmount || 0);
-    }
-
-    if (textbookOption !== 'amount') {
-        textbookAmount = 0;
-    }
-
-    return {
-        textbookOption,
-        textbookAmount: Number.isFinite(textbookAmount) ? textbookAmount : 0,
-        customNote: (textbook.customNote || '').trim()
-    };
+    const info = courseInfo[item.mainCourseKey] || {};
+    return resolveCourseTextbook(info.textbook as CourseTextbookSettings, item?.singleCourseInputs?.courseType);
 };
 
 type CourseConfigSetSidebarProps = {
@@ -343,6 +350,7 @@ type CourseConfigSetSidebarProps = {
     onCancelEdit: () => void
     onOpenClipboardHistory: () => void
     onOpenHistory: () => void
+    onOpenQuotes: () => void
 }
 
 const CourseConfigSetSidebar = ({
@@ -356,7 +364,8 @@ const CourseConfigSetSidebar = ({
     isEditing,
     onCancelEdit,
     onOpenClipboardHistory,
-    onOpenHistory
+    onOpenHistory,
+    onOpenQuotes
 }: CourseConfigSetSidebarProps) => {
     const isSidebarPinned = !!isSetPickerOpen;
     const ActionButton = ({ icon: Icon, label, onClick, disabled: actionDisabled = false }: { icon: React.ComponentType<{ className?: string }>; label: string; onClick: () => void; disabled?: boolean }) => (
@@ -410,6 +419,9 @@ const CourseConfigSetSidebar = ({
                             <Button variant="outline" size="sm" onClick={onOpenHistory}>
                                 <History className="mr-2 h-4 w-4" /> 기록 불러오기
                             </Button>
+                            <Button variant="outline" size="sm" onClick={onOpenQuotes}>
+                                <FileText className="mr-2 h-4 w-4" /> 저장된 견적
+                            </Button>
                             <Button asChild variant="outline" size="sm">
                                 <Link to="/sehan">
                                     <UserRoundCog className="mr-2 h-4 w-4" /> 관리자페이지
@@ -464,6 +476,11 @@ const CourseConfigSetSidebar = ({
                             label="기록 불러오기"
                             onClick={onOpenHistory}
                         />
+                        <ActionButton
+                            icon={FileText}
+                            label="저장된 견적"
+                            onClick={onOpenQuotes}
+                        />
                         <Link
                             to="/sehan"
                             className="flex h-9 w-full items-center gap-2 rounded-lg px-1.5 text-xs leading-none text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
@@ -494,9 +511,18 @@ const StudentForm = () => {
 
     // New States
     const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isQuotesOpen, setIsQuotesOpen] = useState(false);
+    const [isQuoteSaving, setIsQuoteSaving] = useState(false);
+    const [downloadingInvoice, setDownloadingInvoice] = useState<InvoiceDocumentType | null>(null);
     const [editingId, setEditingId] = useState<string | null>(null);
+    // 학생 탭의 학생과 연결해 저장할 때만 채운다 (동명이인 구분)
+    const [selectedStudentId, setSelectedStudentId] = useState('');
     const [savedClipboardText, setSavedClipboardText] = useState('');
     const [canCopy, setCanCopy] = useState(false);
+    // 저장한 안내문을 학부모에게 보낼 때 받는 사람을 찾는 기준
+    const [savedRecipient, setSavedRecipient] = useState<{ name: string; studentId: string }>({ name: '', studentId: '' });
+    const [noticeComposeOpen, setNoticeComposeOpen] = useState(false);
+    const canSendNotice = hasPermission(user, PERMISSION_KEYS.buttons.notifications);
     const [clipboardHistory, setClipboardHistory] = useState<ClipboardHistoryEntry[]>([]);
     const [isClipboardHistoryOpen, setIsClipboardHistoryOpen] = useState(false);
     const [courseConfigSetList, setCourseConfigSetList] = useState<string[]>([]);
@@ -674,12 +700,114 @@ const StudentForm = () => {
         };
     }, [loadCalendarRange, loadCourseConfigSets]);
 
+    // ── 할인 규칙 (설정 세트별) ──
+    const [discountRules, setDiscountRules] = useState<DiscountRule[]>([]);
+    const [hasSibling, setHasSibling] = useState(false);
+    const [couponCode, setCouponCode] = useState('');
+    const [isReturningStudent, setIsReturningStudent] = useState(false);
+
+    useEffect(() => {
+        const setName = String(selectedCourseConfigSet || '').trim();
+        if (!setName) {
+            setDiscountRules([]);
+            return;
+        }
+        let cancelled = false;
+        apiClient.listDiscountRules(setName)
+            .then((res) => {
+                if (!cancelled) setDiscountRules(Array.isArray(res?.results) ? res.results : []);
+            })
+            .catch(() => {
+                if (!cancelled) setDiscountRules([]);
+            });
+        return () => { cancelled = true; };
+    }, [selectedCourseConfigSet]);
+
+    // ── 반 정원 (설정 세트별) ──
+    const [capacitySummary, setCapacitySummary] = useState<CapacitySummary>(EMPTY_CAPACITY_SUMMARY);
+
+    const loadCapacitySummary = useCallback(async (setName: string) => {
+        if (!setName) return EMPTY_CAPACITY_SUMMARY;
+        try {
+            return normalizeCapacitySummary(await apiClient.getClassCapacity(setName));
+        } catch (e) {
+            return EMPTY_CAPACITY_SUMMARY;
+        }
+    }, []);
+
+    const refreshCapacitySummary = useCallback(async () => {
+        const setName = String(selectedCourseConfigSet || '').trim();
+        setCapacitySummary(await loadCapacitySummary(setName));
+    }, [selectedCourseConfigSet, loadCapacitySummary]);
+
+    useEffect(() => {
+        const setName = String(selectedCourseConfigSet || '').trim();
+        let cancelled = false;
+        loadCapacitySummary(setName).then((summary) => {
+            if (!cancelled) setCapacitySummary(summary);
+        });
+        return () => { cancelled = true; };
+    }, [selectedCourseConfigSet, loadCapacitySummary]);
+
+    useEffect(() => {
+        if (!(state.studentName || '').trim()) setSelectedStudentId('');
+    }, [state.studentName]);
+
+    const cartSeatStatuses = useMemo(
+        () => getCartSeatStatuses(state.cart, capacitySummary),
+        [state.cart, capacitySummary]
+    );
+
+    useEffect(() => {
+        const name = (state.studentName || '').trim();
+        if (!name || !hasDiscountRuleType(discountRules, 'returning')) {
+            setIsReturningStudent(false);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            apiClient.getStudentDiscountContext(name, editingId || '')
+                .then((res) => {
+                    if (!cancelled) setIsReturningStudent(!!res?.isReturningStudent);
+                })
+                .catch(() => {
+                    if (!cancelled) setIsReturningStudent(false);
+                });
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [state.studentName, discountRules, editingId]);
+
+    const discountInputs = useMemo<DiscountInputs>(() => ({
+        rules: discountRules,
+        hasSibling,
+        isReturningStudent,
+        couponCode,
+        registrationDate: getLocalDateString(),
+    }), [discountRules, hasSibling, isReturningStudent, couponCode]);
+
+    // 다과목 할인은 장바구니 전체 과목 수로 판단한다
+    const resolveDiscountFor = (courseKey: string, courseCount: number) => resolveItemDiscount({
+        courseKey,
+        courseCount,
+        autoDiscount: state.autoDiscount,
+        manualDiscount: state.discount,
+        inputs: discountInputs,
+    });
+
+    const previewDiscount = state.mainCourseKey
+        ? resolveDiscountFor(state.mainCourseKey, state.cart.length + 1)
+        : null;
+    const previewDiscountRate = previewDiscount?.discount ?? 0;
+
     useEffect(() => {
         if (state.mainCourseKey) {
             // Calculate only if valid
             const inputs = {
                 mainCourseKey: state.mainCourseKey,
-                discount: state.discount,
+                discount: previewDiscountRate,
                 singleCourseInputs: state.singleCourseInputs
             };
             const result = calculateTotalFee(inputs);
@@ -687,7 +815,43 @@ const StudentForm = () => {
         } else {
             setPreviewFee(0);
         }
-    }, [state.mainCourseKey, state.discount, state.singleCourseInputs]);
+    }, [state.mainCourseKey, previewDiscountRate, state.singleCourseInputs]);
+
+    // 할인 조건이나 과목 수가 바뀌면 자동 할인 과목의 금액을 다시 계산한다
+    useEffect(() => {
+        if (state.cart.length === 0) return;
+        let changed = false;
+        const nextCart = state.cart.map((item) => {
+            if (!item.autoDiscount) return item;
+            const next = resolveItemDiscount({
+                courseKey: item.mainCourseKey,
+                courseCount: state.cart.length,
+                autoDiscount: true,
+                manualDiscount: 0,
+                inputs: discountInputs,
+            });
+            if (isSameItemDiscount(next, { discount: item.discount, appliedDiscountRules: item.appliedDiscountRules })) {
+                return item;
+            }
+            try {
+                const repriced = createCartItem({
+                    studentName: item.studentName,
+                    mainCourseKey: item.mainCourseKey,
+                    discount: next.discount,
+                    singleCourseInputs: item.singleCourseInputs
+                }, state.cart.filter((other) => other.id !== item.id)) as CartItem;
+                changed = true;
+                return { ...repriced, id: item.id, autoDiscount: true, appliedDiscountRules: next.appliedDiscountRules };
+            } catch {
+                return item;
+            }
+        });
+        if (changed) {
+            setCanCopy(false);
+            setSavedClipboardText('');
+            dispatch({ type: 'REPLACE_CART', payload: nextCart });
+        }
+    }, [discountInputs, state.cart]);
 
     // ── Transfer (전반) ──
     const [transferConfigSetName, setTransferConfigSetName] = useState<any>("");
@@ -736,6 +900,7 @@ const StudentForm = () => {
         transferCourseGroups,
         transferCourseDays,
         transferExpectedEndDate,
+        transferSettlementPreview,
         openTransferDialog,
         handleTransferSave,
         handleTransferCancel,
@@ -782,16 +947,22 @@ const StudentForm = () => {
             if (!ok) return;
         }
 
+        if (switchCourseConfigSet(nextName)) {
+            showToast(`설정 세트가 '${nextName}'으로 변경되었습니다.`);
+        }
+    };
+
+    const switchCourseConfigSet = (nextName: string) => {
         const data = courseConfigSetMap[nextName];
         if (!data) {
             showToast('설정 세트를 찾지 못했습니다.');
-            return;
+            return false;
         }
 
         const applied = applyCourseConfigSetData(nextName, data);
         if (!applied) {
             showToast('설정 세트 데이터를 불러오지 못했습니다.');
-            return;
+            return false;
         }
 
         writeStoredCourseConfigSet(storageScope, nextName);
@@ -802,8 +973,10 @@ const StudentForm = () => {
         setErrorMsg(null);
         setIsHistoryOpen(false);
         setIsClipboardHistoryOpen(false);
+        setHasSibling(false);
+        setCouponCode('');
         dispatch({ type: 'RESET_FOR_CONFIG' });
-        showToast(`설정 세트가 '${nextName}'으로 변경되었습니다.`);
+        return true;
     };
 
     const handleCopyHistory = (entry: ClipboardHistoryEntry) => {
@@ -838,44 +1011,45 @@ const StudentForm = () => {
                 setErrorMsg("과목을 선택해주세요.");
                 return;
             }
-            const item = createCartItem({
-                studentName: normalizedStudentName,
-                mainCourseKey: state.mainCourseKey,
-                discount: state.discount,
-                singleCourseInputs: state.singleCourseInputs
-            }, state.cart) as CartItem;
+            const itemDiscount = resolveDiscountFor(state.mainCourseKey, state.cart.length + 1);
+            const item = {
+                ...createCartItem({
+                    studentName: normalizedStudentName,
+                    mainCourseKey: state.mainCourseKey,
+                    discount: itemDiscount.discount,
+                    singleCourseInputs: state.singleCourseInputs
+                }, state.cart),
+                autoDiscount: state.autoDiscount,
+                appliedDiscountRules: itemDiscount.appliedDiscountRules,
+            } as CartItem;
 
             dispatch({ type: 'ADD_TO_CART', payload: item });
             setCanCopy(false);
             setSavedClipboardText('');
-            showToast("과목이 목록에 추가되었습니다.");
+            const seatStatus = getCartSeatStatuses([...state.cart, item], capacitySummary).pop();
+            showToast(seatStatus?.overCapacity
+                ? `정원이 찬 반입니다 (${seatStatus.capacity}명). 저장할 때 대기 등록을 선택할 수 있습니다.`
+                : "과목이 목록에 추가되었습니다.");
         } catch (e) {
             const message = e instanceof Error ? e.message : '과목 추가에 실패했습니다.';
             setErrorMsg(message);
         }
     };
 
-    const handleSave = async () => {
-        setCanCopy(false);
-        setSavedClipboardText('');
-
+    // 장바구니(없으면 현재 입력 중인 과목)를 저장 대상으로 모은다. 문제가 있으면 오류를 띄우고 null.
+    const resolveItemsToSave = (): { items: CartItem[]; studentName: string } | null => {
         if (editingId && state.cart.length > 0) {
             setErrorMsg("수정 모드에서는 담긴 과목을 사용할 수 없습니다.\n오른쪽 목록을 비운 뒤 다시 시도해주세요.");
-            return;
+            return null;
         }
 
         const normalizedStudentName = (state.studentName || '').trim();
 
-        let itemsToSave: CartItem[] = [];
-        let studentNameForSave = "";
-
         if (state.cart.length > 0) {
-            itemsToSave = state.cart;
-
             const cartStudentName = (state.cart[0]?.studentName || '').trim();
             if (!cartStudentName) {
                 setErrorMsg("학생 이름을 입력해주세요.");
-                return;
+                return null;
             }
 
             const hasMixedStudents = state.cart.some(item =>
@@ -883,84 +1057,137 @@ const StudentForm = () => {
             );
             if (hasMixedStudents) {
                 setErrorMsg("한 번의 계산에는 한 학생만 담을 수 있습니다.\n오른쪽 목록을 비운 뒤 다시 담아주세요.");
-                return;
+                return null;
             }
 
             if (normalizedStudentName && normalizedStudentName !== cartStudentName) {
                 setErrorMsg("학생 이름이 장바구니와 다릅니다.\n오른쪽 목록을 비운 뒤 다시 담아주세요.");
-                return;
+                return null;
             }
 
-            studentNameForSave = cartStudentName;
-        } else {
-            // Validate and create single item
-            if (!state.mainCourseKey) {
-                setErrorMsg("저장할 과목이 없습니다.");
-                return;
-            }
-            if (!normalizedStudentName) {
-                setErrorMsg("학생 이름을 입력해주세요.");
-                return;
-            }
-            try {
-                const item = createCartItem({
+            return { items: state.cart, studentName: cartStudentName };
+        }
+
+        // Validate and create single item
+        if (!state.mainCourseKey) {
+            setErrorMsg("저장할 과목이 없습니다.");
+            return null;
+        }
+        if (!normalizedStudentName) {
+            setErrorMsg("학생 이름을 입력해주세요.");
+            return null;
+        }
+        try {
+            const itemDiscount = resolveDiscountFor(state.mainCourseKey, 1);
+            const item = {
+                ...createCartItem({
                     studentName: normalizedStudentName,
                     mainCourseKey: state.mainCourseKey,
-                    discount: state.discount,
+                    discount: itemDiscount.discount,
                     singleCourseInputs: state.singleCourseInputs
-                }, []) as CartItem;
-                itemsToSave = [item];
-                studentNameForSave = item.studentName;
-            } catch (e) {
-                const message = e instanceof Error ? e.message : '저장할 과목을 확인해 주세요.';
-                setErrorMsg(message);
-                return;
-            }
+                }, []),
+                autoDiscount: state.autoDiscount,
+                appliedDiscountRules: itemDiscount.appliedDiscountRules,
+            } as CartItem;
+            return { items: [item], studentName: item.studentName };
+        } catch (e) {
+            const message = e instanceof Error ? e.message : '저장할 과목을 확인해 주세요.';
+            setErrorMsg(message);
+            return null;
         }
+    };
 
-        // Prepare records for API
-        const records = itemsToSave.map(item => {
-            const isItemDaily = courseInfo[item.mainCourseKey]?.durationUnit === "daily";
-            const selDates = item.singleCourseInputs.selectedDates || [];
-            const sortedSelDates = [...selDates].sort();
+    const isDailyCourse = (courseKey: string) => courseInfo[courseKey]?.durationUnit === "daily";
 
-            return {
-                id: editingId || undefined,
-                name: studentNameForSave,
-                course: item.displayCourseName,
-                courseId: item.mainCourseKey,
+    const handleSave = async () => {
+        setCanCopy(false);
+        setSavedClipboardText('');
+
+        const resolved = resolveItemsToSave();
+        if (!resolved) return;
+        const { items: itemsToSave, studentName: studentNameForSave } = resolved;
+
+        // Prepare records for API
+        const records = itemsToSave.map(item => ({
+            id: editingId || undefined,
+            ...buildRegistrationRecord(item, {
+                studentName: studentNameForSave,
                 courseConfigSetName,
-                startDate: isItemDaily
-                    ? (sortedSelDates[0] || '')
-                    : (item.details.rawStartDate ? new Date(item.details.rawStartDate).toISOString().split('T')[0] : (item.singleCourseInputs.startDate || '')),
-                endDate: isItemDaily
-                    ? (sortedSelDates[sortedSelDates.length - 1] || '')
-                    : (item.details.rawEndDate ? new Date(item.details.rawEndDate).toISOString().split('T')[0] : ''),
-                weeks: item.singleCourseInputs.period,
-                durationUnit: isItemDaily ? "daily" : "weekly",
-                skipWeeks: isItemDaily ? [] : (item.singleCourseInputs.skipWeeks || []),
-                selectedDates: isItemDaily ? sortedSelDates : [],
-                excludeMath: !!item.singleCourseInputs.excludeMath,
-                recordingDates: item.selectedRecordingDates,
-                tuitionFee: Number.isFinite(item.finalFee) ? Math.round(item.finalFee) : null,
-                discount: Number(item.discount || 0),
-                timestamp: new Date().toISOString()
-            };
-        });
+                isDaily: isDailyCourse(item.mainCourseKey),
+                studentId: selectedStudentId,
+            }),
+            timestamp: new Date().toISOString()
+        }));
+
+        const submitRecords = async (payload: typeof records) => {
+            if (editingId && payload.length === 1) {
+                await apiClient.updateStudent(editingId, payload[0]);
+            } else {
+                await apiClient.addStudents(payload);
+            }
+        };
+
+        // 정원이 찬 반은 정원을 넘겨 등록하거나 대기 명단에 올린다. 대기로 돌린 과목은 저장에서 뺀다.
+        let savedRecords = records;
+        let savedItems = itemsToSave;
+        let waitlistedCount = 0;
+        const resolveCapacityOverflows = async (error: Error) => {
+            const overflows = getCapacityOverflows(error);
+            if (window.confirm(`${error.message}\n\n정원을 넘겨 그대로 등록할까요?\n(취소하면 대기 등록을 선택할 수 있습니다)`)) {
+                const overflowIndexes = new Set(overflows.map((item) => item.index));
+                savedRecords = savedRecords.map((record, index) => (
+                    overflowIndexes.has(index) ? { ...record, allowOverCapacity: true } : record
+                ));
+                return true;
+            }
+            if (!window.confirm('정원이 찬 과목을 대기 명단에 올릴까요?')) return false;
+            const { overflowed, remaining } = splitByCapacityOverflows(savedRecords, overflows);
+            await apiClient.createWaitlistEntries({ records: overflowed });
+            savedRecords = remaining;
+            savedItems = splitByCapacityOverflows(savedItems, overflows).remaining;
+            waitlistedCount += overflowed.length;
+            return true;
+        };
 
         try {
-            if (editingId && records.length === 1) {
-                await apiClient.updateStudent(editingId, records[0]);
+            // 정원 확인과 수강료 확인이 한 번씩 끼어들 수 있다
+            for (let attempt = 0; attempt < 3 && savedRecords.length > 0; attempt += 1) {
+                try {
+                    await submitRecords(savedRecords);
+                    break;
+                } catch (e) {
+                    const status = (e as { status?: number } | null)?.status;
+                    if (status !== 409 || !(e instanceof Error) || attempt === 2) throw e;
+                    if (getCapacityOverflows(e).length > 0) {
+                        if (!(await resolveCapacityOverflows(e))) return;
+                        continue;
+                    }
+                    // 서버 수강료 엔진과 금액이 다르면 확인 후에만 그대로 저장한다
+                    if (!window.confirm(`${e.message}\n\n입력한 수강료로 저장할까요?`)) return;
+                    savedRecords = savedRecords.map((record) => ({ ...record, allowFeeMismatch: true }));
+                }
+            }
+            void refreshCapacitySummary();
+
+            if (savedRecords.length === 0) {
+                showToast(`대기 명단에 ${waitlistedCount}건 등록했습니다.`);
+                setEditingId(null);
+                dispatch({ type: 'RESET_AFTER_SAVE' });
+                return;
+            }
+
+            if (waitlistedCount > 0) {
+                showToast(`${waitlistedCount}건은 대기 명단에 등록하고 나머지를 저장했습니다.`);
+            } else if (editingId && records.length === 1) {
                 showToast("기록이 수정되었습니다.");
                 setEditingId(null);
             } else {
-                await apiClient.addStudents(records);
                 showToast("계산 결과가 저장되었습니다.");
             }
 
             try {
-                const textbookInfo = resolveTextbookInfo(itemsToSave[0]);
-                const cartForClipboard = itemsToSave.map((item) => {
+                const textbookInfo = resolveTextbookInfo(savedItems[0]);
+                const cartForClipboard = savedItems.map((item) => {
                     const info = resolveTextbookInfo(item);
                     return {
                         ...item,
@@ -977,13 +1204,14 @@ const StudentForm = () => {
                     customNote: textbookInfo.customNote
                 });
                 setSavedClipboardText(text);
+                setSavedRecipient({ name: studentNameForSave, studentId: selectedStudentId });
                 setCanCopy(true);
                 const nextHistory = saveClipboardHistoryEntry({
                     studentName: studentNameForSave,
                     createdAt: new Date().toISOString(),
                     text,
-                    courses: itemsToSave.map((item) => item.displayCourseName).filter(Boolean),
-                    totalFee: itemsToSave.reduce((sum, item) => sum + (item.finalFee || 0), 0)
+                    courses: savedItems.map((item) => item.displayCourseName).filter(Boolean),
+                    totalFee: savedItems.reduce((sum, item) => sum + (item.finalFee || 0), 0)
                 }) as ClipboardHistoryEntry[];
                 setClipboardHistory(nextHistory);
             } catch (e) {
@@ -993,6 +1221,8 @@ const StudentForm = () => {
                 showToast(message);
             }
 
+            setHasSibling(false);
+            setCouponCode('');
             dispatch({ type: 'RESET_AFTER_SAVE' });
         } catch (e) {
             const message = e instanceof Error ? e.message : '저장 실패: 알 수 없는 오류가 발생했습니다.';
@@ -1004,6 +1234,8 @@ const StudentForm = () => {
         setCanCopy(false);
         setSavedClipboardText('');
         setEditingId(null);
+        setHasSibling(false);
+        setCouponCode('');
         dispatch({ type: 'RESET_AFTER_SAVE' });
         showToast("수정 모드가 취소되었습니다.");
     };
@@ -1021,6 +1253,115 @@ const StudentForm = () => {
         });
     };
 
+    const handleSaveQuote = async () => {
+        if (editingId) {
+            setErrorMsg("수정 모드에서는 견적을 저장할 수 없습니다.");
+            return;
+        }
+        const resolved = resolveItemsToSave();
+        if (!resolved) return;
+
+        const payload = buildQuotePayload({
+            studentName: resolved.studentName,
+            courseConfigSetName,
+            cart: resolved.items,
+            isDailyCourse,
+        });
+
+        setIsQuoteSaving(true);
+        try {
+            try {
+                await apiClient.createQuote(payload);
+            } catch (e) {
+                const status = (e as { status?: number } | null)?.status;
+                if (status !== 409 || !(e instanceof Error)) throw e;
+                if (!window.confirm(`${e.message}\n\n입력한 수강료로 견적을 저장할까요?`)) return;
+                await apiClient.createQuote({ ...payload, allowFeeMismatch: true });
+            }
+            showToast("견적이 저장되었습니다.");
+        } catch (e) {
+            const message = e instanceof Error ? e.message : '알 수 없는 오류가 발생했습니다.';
+            setErrorMsg("견적 저장 실패: " + message);
+        } finally {
+            setIsQuoteSaving(false);
+        }
+    };
+
+    const handleDownloadInvoice = async (type: InvoiceDocumentType) => {
+        const resolved = resolveItemsToSave();
+        if (!resolved) return;
+
+        const displayName = stripDuplicateSuffix(resolved.studentName);
+        const payload = buildInvoicePayload({
+            type,
+            studentName: resolved.studentName,
+            displayName,
+            courseConfigSetName,
+            cart: resolved.items,
+            isDailyCourse,
+        });
+
+        setDownloadingInvoice(type);
+        try {
+            const blob = await apiClient.downloadCartInvoicePdf(payload);
+            saveBlobAsFile(blob, getInvoiceFilename(type, displayName));
+        } catch (e) {
+            const message = e instanceof Error ? e.message : '알 수 없는 오류가 발생했습니다.';
+            setErrorMsg(`${INVOICE_DOCUMENT_LABELS[type]} 생성 실패: ` + message);
+        } finally {
+            setDownloadingInvoice(null);
+        }
+    };
+
+    const handleReopenQuote = (quote: SavedQuote) => {
+        const hasProgress = editingId || state.cart.length > 0 || state.mainCourseKey;
+        if (hasProgress && !confirm('현재 입력 중인 내용이 견적 내용으로 바뀝니다. 계속할까요?')) return;
+
+        const quoteSetName = String(quote.courseConfigSetName || '').trim();
+        if (quoteSetName && quoteSetName !== selectedCourseConfigSet) {
+            if (!switchCourseConfigSet(quoteSetName)) return;
+        }
+
+        // 견적 당시 입력값으로 장바구니를 다시 만든다 (금액은 현재 설정 기준으로 재계산)
+        const cart: CartItem[] = [];
+        for (const item of quote.items) {
+            try {
+                // 규칙으로 할인된 항목은 자동 할인으로 다시 평가한다
+                const isAutoDiscount = (item.record.appliedDiscountRuleIds || []).length > 0;
+                const singleCourseInputs: SingleCourseInputs = { ...initialState.singleCourseInputs, ...item.inputs };
+                cart.push({
+                    ...createCartItem({
+                        studentName: quote.studentName,
+                        mainCourseKey: item.record.courseId,
+                        discount: Number(item.record.discount || 0),
+                        singleCourseInputs
+                    }, cart),
+                    singleCourseInputs,
+                    autoDiscount: isAutoDiscount,
+                    appliedDiscountRules: [],
+                });
+            } catch (e) {
+                const message = e instanceof Error ? e.message : '';
+                setErrorMsg(`'${item.displayCourseName}' 견적 항목을 불러오지 못했습니다.\n${message}`);
+                return;
+            }
+        }
+
+        setCanCopy(false);
+        setSavedClipboardText('');
+        setEditingId(null);
+        setHasSibling(false);
+        setCouponCode('');
+        setSelectedStudentId('');
+        dispatch({ type: 'LOAD_QUOTE', payload: { studentName: quote.studentName, cart } });
+        setIsQuotesOpen(false);
+
+        const recalculatedTotal = cart.reduce((sum, item) => sum + item.finalFee, 0);
+        showToast(recalculatedTotal === quote.totalFee
+            ? "견적을 불러왔습니다."
+            : "현재 설정 기준 금액이 견적과 다릅니다. 등록 전환 시에는 견적 금액이 적용됩니다.");
+    };
+
     const handleLoadHistory = (record: HistoryRecord) => {
         setCanCopy(false);
         setSavedClipboardText('');
@@ -1070,15 +1411,18 @@ const StudentForm = () => {
             skipWeeksEnabled: Array.isArray(record?.skipWeeks) && record.skipWeeks.length > 0
         };
 
+        const isAutoDiscount = Array.isArray(record?.appliedDiscountRuleIds) && record.appliedDiscountRuleIds.length > 0;
         dispatch({
             type: 'LOAD_HISTORY_RECORD', payload: {
                 key: resolvedKey,
                 inputs: inputs,
-                discount: Number(record?.discount) || 0,
+                discount: isAutoDiscount ? 0 : Number(record?.discount) || 0,
+                autoDiscount: isAutoDiscount,
             }
         });
 
         setEditingId(record?.id ? String(record.id) : null);
+        setSelectedStudentId(record?.studentId ? String(record.studentId) : '');
         setIsHistoryOpen(false);
         showToast("기록을 불러왔습니다. (수정 모드)");
     };
@@ -1101,6 +1445,7 @@ const StudentForm = () => {
                 onCancelEdit={handleCancelEdit}
                 onOpenClipboardHistory={() => setIsClipboardHistoryOpen(true)}
                 onOpenHistory={() => setIsHistoryOpen(true)}
+                onOpenQuotes={() => setIsQuotesOpen(true)}
             />
             <div id="tuitionForm" className="max-w-7xl mx-auto p-4 md:p-8 md:pl-20">
                 <div className="grid grid-cols-12 gap-8 items-start">
@@ -1118,12 +1463,18 @@ const StudentForm = () => {
                                     onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                                         setCanCopy(false);
                                         setSavedClipboardText('');
+                                        setSelectedStudentId('');
                                         dispatch({ type: 'SET_STUDENT_NAME', payload: e.target.value })
                                     }}
                                     placeholder="이름을 입력하세요"
                                     className="h-12 text-lg"
                                     disabled={state.cart.length > 0}
                                 />
+                                <StudentProfilePicker
+                                    studentName={state.studentName}
+                                    selectedId={selectedStudentId}
+                                    onSelect={setSelectedStudentId}
+                                />
                                 {state.cart.length > 0 ? (
                                     <p className="text-xs text-muted-foreground ml-1">
                                         과목이 담겨있는 동안에는 학생 이름을 변경할 수 없습니다. (목록을 비운 뒤 변경 가능)
@@ -1186,10 +1537,14 @@ const StudentForm = () => {
                                         <div className="mt-8 space-y-2">
                                             <Label className="text-muted-foreground ml-1">할인 적용</Label>
                                             <Select
-                                                value={String(state.discount)}
+                                                value={state.autoDiscount ? 'auto' : String(state.discount)}
                                                 onValueChange={(val) => {
                                                     setCanCopy(false);
                                                     setSavedClipboardText('');
+                                                    if (val === 'auto') {
+                                                        dispatch({ type: 'SET_AUTO_DISCOUNT' });
+                                                        return;
+                                                    }
                                                     dispatch({ type: 'SET_DISCOUNT', payload: parseFloat(val) })
                                                 }}
                                             >
@@ -1197,6 +1552,7 @@ const StudentForm = () => {
                                                     <SelectValue placeholder="할인 선택" />
                                                 </SelectTrigger>
                                                 <SelectContent>
+                                                    <SelectItem value="auto">자동 (할인 규칙)</SelectItem>
                                                     <SelectItem value="0">할인 없음</SelectItem>
                                                     <SelectItem value="0.05">5% 할인</SelectItem>
                                                     <SelectItem value="0.1">10% 할인</SelectItem>
@@ -1205,6 +1561,36 @@ const StudentForm = () => {
                                                     <SelectItem value="0.25">25% 할인</SelectItem>
                                                 </SelectContent>
                                             </Select>
+                                            {state.autoDiscount && (
+                                                <div className="space-y-2 px-1 pt-1">
+                                                    {(hasDiscountRuleType(discountRules, 'sibling') || hasDiscountRuleType(discountRules, 'coupon')) && (
+                                                        <div className="flex flex-wrap items-center gap-4">
+                                                            {hasDiscountRuleType(discountRules, 'sibling') && (
+                                                                <label className="flex items-center gap-2 text-sm">
+                                                                    <Checkbox
+                                                                        checked={hasSibling}
+                                                                        onCheckedChange={(checked: boolean) => setHasSibling(checked === true)}
+                                                                    />
+                                                                    형제/자매 재원
+                                                                </label>
+                                                            )}
+                                                            {hasDiscountRuleType(discountRules, 'coupon') && (
+                                                                <Input
+                                                                    value={couponCode}
+                                                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCouponCode(e.target.value.toUpperCase())}
+                                                                    placeholder="쿠폰 코드"
+                                                                    className="h-9 w-40"
+                                                                />
+                                                            )}
+                                                        </div>
+                                                    )}
+                                                    <p className="text-sm text-muted-foreground">
+                                                        {previewDiscount && previewDiscount.appliedDiscountRules.length > 0
+                                                            ? `적용 할인: ${formatAppliedDiscountRules(previewDiscount.appliedDiscountRules)}`
+                                                            : discountRules.length > 0 ? '적용되는 할인 규칙이 없습니다.' : '등록된 할인 규칙이 없습니다.'}
+                                                    </p>
+                                                </div>
+                                            )}
                                         </div>
 
                                         {/* Add Button */}
@@ -1247,7 +1633,7 @@ const StudentForm = () => {
                                         <p>담긴 과목이 없습니다</p>
                                     </div>
                                 ) : (
-                                    <CartList cart={state.cart} onRemove={id => {
+                                    <CartList cart={state.cart} seatStatuses={cartSeatStatuses} onRemove={id => {
                                         setCanCopy(false);
                                         setSavedClipboardText('');
                                         dispatch({ type: 'REMOVE_FROM_CART', payload: id })
@@ -1295,6 +1681,40 @@ const StudentForm = () => {
                                     <Copy className="mr-2 h-5 w-5" /> 안내문 복사
                                 </Button>
 
+                                {canSendNotice ? (
+                                    <Button
+                                        onClick={() => setNoticeComposeOpen(true)}
+                                        disabled={!canCopy || !savedClipboardText}
+                                        variant="outline"
+                                        className="w-full py-6 text-lg rounded-xl"
+                                    >
+                                        <Send className="mr-2 h-5 w-5" /> 학부모에게 보내기
+                                    </Button>
+                                ) : null}
+
+                                <Button
+                                    onClick={handleSaveQuote}
+                                    disabled={!!editingId || isQuoteSaving}
+                                    variant="outline"
+                                    className="w-full py-6 text-lg rounded-xl"
+                                >
+                                    <FilePlus2 className="mr-2 h-5 w-5" /> 견적 저장
+                                </Button>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    {(['quote', 'invoice'] as const).map((type) => (
+                                        <Button
+                                            key={type}
+                                            onClick={() => handleDownloadInvoice(type)}
+                                            disabled={state.cart.length === 0 || !!downloadingInvoice}
+                                            variant="outline"
+                                            className="w-full rounded-xl"
+                                        >
+                                            <FileDown className="mr-2 h-4 w-4" /> {INVOICE_DOCUMENT_LABELS[type]} PDF
+                                        </Button>
+                                    ))}
+                                </div>
+
                             </div>
                         </CardContent>
                     </Card>
@@ -1353,6 +1773,23 @@ const StudentForm = () => {
                     editingId={editingId}
                 />
 
+                <QuotesModal
+                    isOpen={isQuotesOpen}
+                    onClose={() => setIsQuotesOpen(false)}
+                    onReopen={handleReopenQuote}
+                    onConverted={() => showToast("견적이 등록으로 전환되었습니다.")}
+                />
+
+                <NotificationComposeDialog
+                    open={noticeComposeOpen}
+                    onOpenChange={setNoticeComposeOpen}
+                    kind="quote"
+                    initialBody={savedClipboardText}
+                    studentName={savedRecipient.name}
+                    studentId={savedRecipient.studentId || undefined}
+                    onSent={() => showToast("발송 대기열에 추가했습니다.")}
+                />
+
                 <TransferDialog
                     open={transferDialogOpen}
                     onClose={() => { closeTransferDialog(); setTransferConfigSetName(""); }}
@@ -1369,6 +1806,7 @@ const StudentForm = () => {
                     courseGroups={transferCourseGroups}
                     courseDays={transferCourseDays}
                     expectedEndDate={transferExpectedEndDate}
+                    settlementPreview={transferSettlementPreview}
                     onSave={handleTransferSave}
                 />
 
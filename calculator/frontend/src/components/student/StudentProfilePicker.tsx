@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { UserRound } from 'lucide-react';
+import { getStudentNameKey } from '@shared/studentClustering';
+import { apiClient } from '../../api-client';
+import { stripDuplicateSuffix } from '../../utils/clipboardUtils';
+import { cn } from '@/lib/utils';
+
+type StudentProfileOption = {
+    id: string;
+    name: string;
+    school: string;
+    grade: string;
+    phone: string;
+};
+
+type StudentProfilePickerProps = {
+    studentName: string;
+    selectedId: string;
+    onSelect: (id: string) => void;
+    disabled?: boolean;
+};
+
+const MAX_OPTIONS = 5;
+
+function toOptions(rows: unknown): StudentProfileOption[] {
+    if (!Array.isArray(rows)) return [];
+    return rows
+        .filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null)
+        .map((row) => ({
+            id: String(row.id ?? ''),
+            name: String(row.name ?? ''),
+            school: String(row.school ?? ''),
+            grade: String(row.grade ?? ''),
+            phone: String(row.phone ?? ''),
+        }))
+        .filter((row) => row.id);
+}
+
+/**
+ * 입력한 이름과 같은 학생(동명이인 접미사 제외)을 보여 주고 등록을 연결할 학생을 고른다.
+ * 고르지 않으면 이름만으로 저장되고, 나중에 학생 탭의 등록 정리에서 연결할 수 있다.
+ */
+const StudentProfilePicker: React.FC<StudentProfilePickerProps> = ({ studentName, selectedId, onSelect, disabled }) => {
+    const [options, setOptions] = useState<StudentProfileOption[]>([]);
+
+    useEffect(() => {
+        const baseName = stripDuplicateSuffix(studentName);
+        if (!baseName) {
+            setOptions([]);
+            return;
+        }
+        const baseKey = getStudentNameKey(baseName);
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            apiClient.listStudentProfiles({ searchTerm: baseName })
+                .then((res) => {
+                    if (cancelled) return;
+                    const matches = toOptions(res?.results)
+                        .filter((option) => getStudentNameKey(stripDuplicateSuffix(option.name)) === baseKey)
+                        .slice(0, MAX_OPTIONS);
+                    setOptions(matches);
+                })
+                .catch(() => {
+                    if (!cancelled) setOptions([]);
+                });
+        }, 400);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [studentName]);
+
+    if (options.length === 0) return null;
+
+    const chipClass = (active: boolean) => cn(
+        'rounded-full border px-3 py-1 text-xs transition-colors',
+        active ? 'border-primary bg-primary/10 text-primary font-semibold' : 'border-border text-muted-foreground hover:bg-muted'
+    );
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 ml-1">
+            <UserRound className="h-3.5 w-3.5 text-muted-foreground" />
+            {options.map((option) => {
+                const meta = [option.school, option.grade, option.phone].filter(Boolean).join(' · ');
+                return (
+                    <button
+                        key={option.id}
+                        type="button"
+                        className={chipClass(selectedId === option.id)}
+                        onClick={() => onSelect(selectedId === option.id ? '' : option.id)}
+                        disabled={disabled}
+                    >
+                        {option.name}{meta ? ` (${meta})` : ''}
+                    </button>
+                );
+            })}
+            <button
+                type="button"
+                className={chipClass(!selectedId)}
+                onClick={() => onSelect('')}
+                disabled={disabled}
+            >
+                연결 안 함
+            </button>
+        </div>
+    );
+};
+
+export default StudentProfilePicker;
@@ -17,6 +17,8 @@ export const PERMISSION_LABELS = {
   "registrations.merges.manage": "등록현황 > 합반관리 버튼",
   "registrations.installments.view": "등록현황 > 분납현황 버튼",
   "registrations.transfers.manage": "등록현황 > 전반 버튼",
+  "notifications.send": "학부모 문자/알림톡 발송",
+  "attendance.locks.override": "출석부 > 마감된 달 수정",
 }
 
 export const ROLE_LABELS: Record<string, string> = {
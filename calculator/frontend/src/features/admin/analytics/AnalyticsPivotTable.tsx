@@ -0,0 +1,82 @@
+import type { AnalyticsMetric, RegistrationAnalyticsReport } from "@shared/registrationAnalytics"
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+import { ANALYTICS_COPY as COPY } from "./analyticsCopy"
+import {
+  ANALYTICS_METRIC_LABELS,
+  formatAnalyticsPeriodLabel,
+  formatAnalyticsValue,
+  isAnalyticsStockMetric,
+  type AnalyticsPivot,
+  type AnalyticsPivotRow,
+} from "./analyticsModel"
+
+function PivotRow({
+  row,
+  metric,
+  className,
+}: {
+  row: AnalyticsPivotRow
+  metric: AnalyticsMetric
+  className?: string
+}) {
+  return (
+    <TableRow className={className}>
+      <TableCell className="sticky left-0 whitespace-nowrap bg-inherit">{row.label}</TableCell>
+      {row.values.map((value, index) => (
+        <TableCell key={index} className="whitespace-nowrap text-right tabular-nums">
+          {formatAnalyticsValue(metric, value)}
+        </TableCell>
+      ))}
+      <TableCell className="whitespace-nowrap text-right font-semibold tabular-nums">
+        {formatAnalyticsValue(metric, row.summary)}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export default function AnalyticsPivotTable({
+  report,
+  pivot,
+  metric,
+}: {
+  report: RegistrationAnalyticsReport
+  pivot: AnalyticsPivot
+  metric: AnalyticsMetric
+}) {
+  return (
+    <div className="overflow-x-auto rounded-xl border border-border/60 bg-card/60">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="whitespace-nowrap">
+              {COPY.columnGroup} · {ANALYTICS_METRIC_LABELS[metric]}
+            </TableHead>
+            {report.periods.map((period) => (
+              <TableHead key={period.key} className="whitespace-nowrap text-right">
+                {formatAnalyticsPeriodLabel(period, report.granularity)}
+              </TableHead>
+            ))}
+            <TableHead className="whitespace-nowrap text-right">
+              {isAnalyticsStockMetric(metric) ? COPY.columnAverage : COPY.columnTotal}
+            </TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          <PivotRow row={pivot.total} metric={metric} className="bg-slate-50 font-semibold" />
+          {pivot.rows.map((row) => (
+            <PivotRow key={row.key} row={row} metric={metric} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+import { useMemo, useState } from "react"
+import { BarChart3, Download, Search } from "lucide-react"
+
+import {
+  ANALYTICS_GRANULARITIES,
+  ANALYTICS_GROUP_BYS,
+  ANALYTICS_METRICS,
+  type AnalyticsGranularity,
+  type AnalyticsGroupBy,
+  type AnalyticsMetric,
+} from "@shared/registrationAnalytics"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+
+import AnalyticsPivotTable from "./AnalyticsPivotTable"
+import { ANALYTICS_COPY as COPY } from "./analyticsCopy"
+import {
+  ANALYTICS_GRANULARITY_LABELS,
+  ANALYTICS_GROUP_BY_LABELS,
+  ANALYTICS_METRIC_LABELS,
+  buildAnalyticsOverview,
+  buildAnalyticsPivot,
+  formatAnalyticsValue,
+} from "./analyticsModel"
+import { useRegistrationAnalytics } from "./useRegistrationAnalytics"
+
+export default function AnalyticsTab({ isActive }: { isActive: boolean }) {
+  const {
+    filters,
+    setFilter,
+    toggleCourseConfigSet,
+    applyFilters,
+    courseConfigSetNames,
+    report,
+    loading,
+    error,
+    downloadCsv,
+  } = useRegistrationAnalytics(isActive)
+  const [metric, setMetric] = useState<AnalyticsMetric>("activeStudents")
+
+  const overview = useMemo(() => (report ? buildAnalyticsOverview(report) : null), [report])
+  const pivot = useMemo(() => (report ? buildAnalyticsPivot(report, metric) : null), [report, metric])
+
+  return (
+    <div className="space-y-4">
+      <div className="relative overflow-hidden rounded-3xl border border-white/20 bg-gradient-to-br from-emerald-500/10 via-sky-500/10 to-indigo-400/10 p-6 shadow-lg shadow-black/5 backdrop-blur-xl">
+        <div className="relative flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gradient-to-br from-emerald-500 to-sky-500 shadow-lg shadow-sky-500/25">
+            <BarChart3 className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight text-slate-900">{COPY.title}</h2>
+            <p className="text-sm text-slate-600">{COPY.description}</p>
+          </div>
+        </div>
+      </div>
+
+      <form
+        className="space-y-3 rounded-2xl border border-border/60 bg-card p-4"
+        onSubmit={(e) => {
+          e.preventDefault()
+          applyFilters()
+        }}
+      >
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-1">
+            <Label>{COPY.filterFrom}</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>{COPY.filterTo}</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>{COPY.filterGranularity}</Label>
+            <Select
+              value={filters.granularity}
+              onValueChange={(value) => setFilter("granularity", value as AnalyticsGranularity)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANALYTICS_GRANULARITIES.map((granularity) => (
+                  <SelectItem key={granularity} value={granularity}>
+                    {ANALYTICS_GRANULARITY_LABELS[granularity]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{COPY.filterGroupBy}</Label>
+            <Select
+              value={filters.groupBy}
+              onValueChange={(value) => setFilter("groupBy", value as AnalyticsGroupBy)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ANALYTICS_GROUP_BYS.map((groupBy) => (
+                  <SelectItem key={groupBy} value={groupBy}>
+                    {ANALYTICS_GROUP_BY_LABELS[groupBy]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-end gap-2">
+            <Button type="submit" className="flex-1" disabled={loading}>
+              <Search className="mr-1 h-4 w-4" />
+              {COPY.search}
+            </Button>
+            <Button type="button" variant="outline" onClick={downloadCsv} disabled={loading || !report}>
+              <Download className="mr-1 h-4 w-4" />
+              {COPY.downloadCsv}
+            </Button>
+          </div>
+        </div>
+
+        {courseConfigSetNames.length ? (
+          <div className="space-y-1">
+            <Label>{COPY.filterSets}</Label>
+            <div className="flex flex-wrap gap-1.5">
+              <button
+                type="button"
+                className={cn(
+                  "rounded-full border px-3 py-1 text-xs",
+                  filters.courseConfigSetNames.length === 0
+                    ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                    : "border-border text-muted-foreground"
+                )}
+                onClick={() => setFilter("courseConfigSetNames", [])}
+              >
+                {COPY.allSets}
+              </button>
+              {courseConfigSetNames.map((name) => (
+                <button
+                  key={name}
+                  type="button"
+                  className={cn(
+                    "rounded-full border px-3 py-1 text-xs",
+                    filters.courseConfigSetNames.includes(name)
+                      ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                      : "border-border text-muted-foreground"
+                  )}
+                  onClick={() => toggleCourseConfigSet(name)}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </form>
+
+      {error ? (
+        <div className="rounded-xl border border-destructive/20 bg-destructive/10 px-4 py-3 text-sm font-medium text-destructive">
+          {error}
+        </div>
+      ) : null}
+
+      {overview ? (
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-6">
+          {ANALYTICS_METRICS.map((entry) => (
+            <button
+              key={entry}
+              type="button"
+              onClick={() => setMetric(entry)}
+              className={cn(
+                "rounded-2xl border bg-card px-4 py-3 text-left transition",
+                metric === entry ? "border-indigo-400 ring-2 ring-indigo-100" : "border-border/60"
+              )}
+            >
+              <div className="text-xs text-muted-foreground">
+                {entry === "activeStudents" ? COPY.peakActive : ANALYTICS_METRIC_LABELS[entry]}
+              </div>
+              <div className="text-lg font-bold text-slate-900">
+                {formatAnalyticsValue(entry, overview[entry])}
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {!loading && report && pivot && pivot.rows.length === 0 && !error ? (
+        <div className="text-sm text-muted-foreground">{COPY.empty}</div>
+      ) : null}
+
+      {report && pivot && pivot.rows.length > 0 ? (
+        <AnalyticsPivotTable report={report} pivot={pivot} metric={metric} />
+      ) : null}
+    </div>
+  )
+}
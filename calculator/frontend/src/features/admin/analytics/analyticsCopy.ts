@@ -0,0 +1,34 @@
+export const ANALYTICS_COPY = {
+  title: "\uC218\uAC15\u00B7\uB9E4\uCD9C \uD1B5\uACC4",
+  description: "\uAE30\uAC04\uBCC4 \uC7AC\uC6D0\uC0DD, \uC2E0\uADDC\u00B7\uC7AC\uB4F1\uB85D, \uD1F4\uC6D0\u00B7\uC804\uBC18, \uB9E4\uCD9C\uC744 \uC124\uC815 \uC138\uD2B8\uB07C\uB9AC \uBE44\uAD50\uD569\uB2C8\uB2E4.",
+  loadFailed: "\uD1B5\uACC4\uB97C \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  filterFrom: "\uC2DC\uC791\uC77C",
+  filterTo: "\uC885\uB8CC\uC77C",
+  filterGranularity: "\uC9D1\uACC4 \uB2E8\uC704",
+  filterGroupBy: "\uBB36\uC74C \uAE30\uC900",
+  filterMetric: "\uD56D\uBAA9",
+  filterSets: "\uBE44\uAD50\uD560 \uC124\uC815 \uC138\uD2B8",
+  allSets: "\uC804\uCCB4",
+  search: "\uC870\uD68C",
+  downloadCsv: "CSV \uB2E4\uC6B4\uB85C\uB4DC",
+  empty: "\uC870\uD68C \uAE30\uAC04\uC5D0 \uD574\uB2F9\uD558\uB294 \uB4F1\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  granularityWeek: "\uC8FC",
+  granularityMonth: "\uC6D4",
+  groupByCourseConfigSet: "\uC124\uC815 \uC138\uD2B8",
+  groupByCategory: "\uCE74\uD14C\uACE0\uB9AC",
+  groupByCourse: "\uACFC\uBAA9",
+  metricActiveStudents: "\uC7AC\uC6D0\uC0DD",
+  metricNewEnrollments: "\uC2E0\uADDC \uB4F1\uB85D",
+  metricReturningEnrollments: "\uC7AC\uB4F1\uB85D",
+  metricWithdrawals: "\uD1F4\uC6D0",
+  metricTransfers: "\uC804\uBC18",
+  metricRevenue: "\uB9E4\uCD9C",
+  columnGroup: "\uAD6C\uBD84",
+  columnPeriod: "\uAE30\uAC04",
+  columnTotal: "\uD569\uACC4",
+  columnAverage: "\uD3C9\uADE0",
+  uncategorized: "(\uBBF8\uBD84\uB958)",
+  totalRow: "\uC804\uCCB4",
+  peakActive: "\uCD5C\uB300 \uC7AC\uC6D0\uC0DD",
+  csvFilename: "\uC218\uAC15\uB9E4\uCD9C\uD1B5\uACC4",
+} as const
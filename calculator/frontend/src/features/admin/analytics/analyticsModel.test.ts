@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+
+import type { RegistrationAnalyticsReport } from "@shared/registrationAnalytics"
+
+import {
+  buildAnalyticsCsv,
+  buildAnalyticsOverview,
+  buildAnalyticsPivot,
+  createDefaultAnalyticsFilters,
+  formatAnalyticsPeriodLabel,
+  normalizeAnalyticsReport,
+} from "./analyticsModel"
+
+const metrics = (overrides: Record<string, number>) => ({
+  activeStudents: 0,
+  newEnrollments: 0,
+  returningEnrollments: 0,
+  withdrawals: 0,
+  transfers: 0,
+  revenue: 0,
+  ...overrides,
+})
+
+const REPORT: RegistrationAnalyticsReport = {
+  from: "2026-03-01",
+  to: "2026-04-30",
+  granularity: "month",
+  groupBy: "category",
+  periods: [
+    { key: "2026-03", start: "2026-03-01", end: "2026-03-31" },
+    { key: "2026-04", start: "2026-04-01", end: "2026-04-30" },
+  ],
+  rows: [
+    { courseConfigSetName: "2026 봄", category: "수학", course: "", periodKey: "2026-03", ...metrics({ activeStudents: 4, revenue: 1200000 }) },
+    { courseConfigSetName: "2026 봄", category: "수학", course: "", periodKey: "2026-04", ...metrics({ activeStudents: 3, withdrawals: 1 }) },
+    { courseConfigSetName: "2026 봄", category: "", course: "", periodKey: "2026-03", ...metrics({ activeStudents: 1, revenue: 200000 }) },
+    { courseConfigSetName: "2026 봄", category: "", course: "", periodKey: "2026-04", ...metrics({ activeStudents: 1 }) },
+  ],
+  totals: [
+    { periodKey: "2026-03", ...metrics({ activeStudents: 5, revenue: 1400000 }) },
+    { periodKey: "2026-04", ...metrics({ activeStudents: 4, withdrawals: 1 }) },
+  ],
+}
+
+describe("analyticsModel", () => {
+  it("defaults to the last six months by month", () => {
+    expect(createDefaultAnalyticsFilters(new Date(2026, 2, 18))).toMatchObject({
+      from: "2025-10-01",
+      to: "2026-03-18",
+      granularity: "month",
+      groupBy: "category",
+    })
+  })
+
+  it("formats period labels", () => {
+    expect(formatAnalyticsPeriodLabel(REPORT.periods[0], "month")).toBe("2026.03")
+    expect(
+      formatAnalyticsPeriodLabel({ key: "2026-03-02", start: "2026-03-02", end: "2026-03-08" }, "week")
+    ).toBe("03.02~03.08")
+  })
+
+  it("pivots groups by period and averages active students", () => {
+    const pivot = buildAnalyticsPivot(REPORT, "activeStudents")
+    expect(pivot.rows.map((row) => [row.label, row.values, row.summary])).toEqual([
+      ["2026 봄 · 수학", [4, 3], 4],
+      ["2026 봄 · (미분류)", [1, 1], 1],
+    ])
+    expect(pivot.total.values).toEqual([5, 4])
+    expect(buildAnalyticsPivot(REPORT, "revenue").total.summary).toBe(1400000)
+  })
+
+  it("summarizes the whole range with peak active students", () => {
+    expect(buildAnalyticsOverview(REPORT)).toMatchObject({ activeStudents: 5, withdrawals: 1, revenue: 1400000 })
+  })
+
+  it("builds CSV with a total line per period", () => {
+    const lines = buildAnalyticsCsv(REPORT).split("\r\n")
+    expect(lines[0]).toBe("기간,설정 세트,카테고리,과목,재원생,신규 등록,재등록,퇴원,전반,매출")
+    expect(lines[1]).toBe("2026.03,전체,,,5,0,0,0,0,1400000")
+    expect(lines[2]).toBe("2026.03,2026 봄,수학,,4,0,0,0,0,1200000")
+    expect(lines).toHaveLength(7)
+  })
+
+  it("normalizes API reports", () => {
+    expect(normalizeAnalyticsReport(null)).toBeNull()
+    expect(normalizeAnalyticsReport(REPORT)).toEqual(REPORT)
+  })
+})
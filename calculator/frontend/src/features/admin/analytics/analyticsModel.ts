@@ -0,0 +1,243 @@
+import {
+  ANALYTICS_METRICS,
+  createEmptyAnalyticsMetrics,
+  type AnalyticsGranularity,
+  type AnalyticsGroupBy,
+  type AnalyticsMetric,
+  type AnalyticsMetrics,
+  type AnalyticsPeriod,
+  type AnalyticsQuery,
+  type AnalyticsRow,
+  type RegistrationAnalyticsReport,
+} from "@shared/registrationAnalytics"
+
+import { formatDepositAmount } from "../registrations/depositReconciliationModel"
+import { ANALYTICS_COPY as COPY } from "./analyticsCopy"
+
+export type AnalyticsPivotRow = {
+  key: string
+  label: string
+  values: number[]
+  summary: number
+}
+
+export type AnalyticsPivot = {
+  rows: AnalyticsPivotRow[]
+  total: AnalyticsPivotRow
+}
+
+export const ANALYTICS_METRIC_LABELS: Record<AnalyticsMetric, string> = {
+  activeStudents: COPY.metricActiveStudents,
+  newEnrollments: COPY.metricNewEnrollments,
+  returningEnrollments: COPY.metricReturningEnrollments,
+  withdrawals: COPY.metricWithdrawals,
+  transfers: COPY.metricTransfers,
+  revenue: COPY.metricRevenue,
+}
+
+export const ANALYTICS_GRANULARITY_LABELS: Record<AnalyticsGranularity, string> = {
+  week: COPY.granularityWeek,
+  month: COPY.granularityMonth,
+}
+
+export const ANALYTICS_GROUP_BY_LABELS: Record<AnalyticsGroupBy, string> = {
+  courseConfigSet: COPY.groupByCourseConfigSet,
+  category: COPY.groupByCategory,
+  course: COPY.groupByCourse,
+}
+
+function formatLocalDate(date: Date) {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+/** 기본 조회: 이번 달을 포함한 최근 6개월, 월 단위, 카테고리별 */
+export function createDefaultAnalyticsFilters(today: Date = new Date()): AnalyticsQuery {
+  const from = new Date(today.getFullYear(), today.getMonth() - 5, 1)
+  return {
+    from: formatLocalDate(from),
+    to: formatLocalDate(today),
+    granularity: "month",
+    groupBy: "category",
+    courseConfigSetNames: [],
+    category: "",
+  }
+}
+
+function readMetrics(value: Record<string, unknown>): AnalyticsMetrics {
+  const metrics = createEmptyAnalyticsMetrics()
+  for (const metric of ANALYTICS_METRICS) {
+    metrics[metric] = Number(value?.[metric]) || 0
+  }
+  return metrics
+}
+
+export function normalizeAnalyticsReport(value: unknown): RegistrationAnalyticsReport | null {
+  if (!value || typeof value !== "object") return null
+  const raw = value as Record<string, unknown>
+  if (!Array.isArray(raw.periods)) return null
+
+  const periods: AnalyticsPeriod[] = (raw.periods as Array<Record<string, unknown>>).map((period) => ({
+    key: String(period?.key || ""),
+    start: String(period?.start || ""),
+    end: String(period?.end || ""),
+  }))
+  const rows: AnalyticsRow[] = (Array.isArray(raw.rows) ? (raw.rows as Array<Record<string, unknown>>) : []).map(
+    (row) => ({
+      courseConfigSetName: String(row?.courseConfigSetName || ""),
+      category: String(row?.category || ""),
+      course: String(row?.course || ""),
+      periodKey: String(row?.periodKey || ""),
+      ...readMetrics(row),
+    })
+  )
+  const totals = (Array.isArray(raw.totals) ? (raw.totals as Array<Record<string, unknown>>) : []).map(
+    (row) => ({ periodKey: String(row?.periodKey || ""), ...readMetrics(row) })
+  )
+
+  return {
+    from: String(raw.from || ""),
+    to: String(raw.to || ""),
+    granularity: raw.granularity === "week" ? "week" : "month",
+    groupBy:
+      raw.groupBy === "courseConfigSet" || raw.groupBy === "course" ? raw.groupBy : "category",
+    periods,
+    rows,
+    totals,
+  }
+}
+
+/** 월: "2026.03", 주: "03.02~03.08" */
+export function formatAnalyticsPeriodLabel(period: AnalyticsPeriod, granularity: AnalyticsGranularity) {
+  if (granularity === "month") return period.key.replace("-", ".")
+  return `${period.start.slice(5).replace("-", ".")}~${period.end.slice(5).replace("-", ".")}`
+}
+
+export function getAnalyticsGroupLabel(
+  row: Pick<AnalyticsRow, "courseConfigSetName" | "category" | "course">,
+  groupBy: AnalyticsGroupBy
+) {
+  const parts = [row.courseConfigSetName]
+  if (groupBy !== "courseConfigSet") parts.push(row.category || COPY.uncategorized)
+  if (groupBy === "course") parts.push(row.course)
+  return parts.join(" · ")
+}
+
+/** 재원생은 기간마다 다시 세는 값이라 합계 대신 평균을 보여 준다 */
+export function isAnalyticsStockMetric(metric: AnalyticsMetric) {
+  return metric === "activeStudents"
+}
+
+function summarize(metric: AnalyticsMetric, values: number[]) {
+  const sum = values.reduce((acc, value) => acc + value, 0)
+  if (!isAnalyticsStockMetric(metric)) return sum
+  return values.length ? Math.round(sum / values.length) : 0
+}
+
+export function formatAnalyticsValue(metric: AnalyticsMetric, value: number) {
+  if (metric === "revenue") return formatDepositAmount(value)
+  return value.toLocaleString("ko-KR")
+}
+
+/** 묶음을 행, 기간을 열로 놓은 표 */
+export function buildAnalyticsPivot(
+  report: RegistrationAnalyticsReport,
+  metric: AnalyticsMetric
+): AnalyticsPivot {
+  const periodIndex = new Map(report.periods.map((period, index) => [period.key, index]))
+  const rowMap = new Map<string, AnalyticsPivotRow>()
+
+  for (const row of report.rows) {
+    const label = getAnalyticsGroupLabel(row, report.groupBy)
+    const key = `${row.courseConfigSetName}\u0000${row.category}\u0000${row.course}`
+    let entry = rowMap.get(key)
+    if (!entry) {
+      entry = { key, label, values: report.periods.map(() => 0), summary: 0 }
+      rowMap.set(key, entry)
+    }
+    const index = periodIndex.get(row.periodKey)
+    if (index !== undefined) entry.values[index] = row[metric]
+  }
+
+  const rows = Array.from(rowMap.values()).map((row) => ({
+    ...row,
+    summary: summarize(metric, row.values),
+  }))
+
+  const totalValues = report.periods.map(() => 0)
+  for (const total of report.totals) {
+    const index = periodIndex.get(total.periodKey)
+    if (index !== undefined) totalValues[index] = total[metric]
+  }
+
+  return {
+    rows,
+    total: {
+      key: "__total__",
+      label: COPY.totalRow,
+      values: totalValues,
+      summary: summarize(metric, totalValues),
+    },
+  }
+}
+
+/** 전체 기간 요약. 재원생은 기간 중 가장 많았던 수 */
+export function buildAnalyticsOverview(report: RegistrationAnalyticsReport) {
+  const overview = createEmptyAnalyticsMetrics()
+  for (const total of report.totals) {
+    for (const metric of ANALYTICS_METRICS) {
+      overview[metric] = isAnalyticsStockMetric(metric)
+        ? Math.max(overview[metric], total[metric])
+        : overview[metric] + total[metric]
+    }
+  }
+  return overview
+}
+
+function escapeCsvCell(value: string | number) {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** 묶음×기간 한 줄에 모든 항목을 담는다. 묶음 구분 없는 합계 줄이 기간마다 앞에 온다 */
+export function buildAnalyticsCsv(report: RegistrationAnalyticsReport) {
+  const header = [
+    COPY.columnPeriod,
+    COPY.groupByCourseConfigSet,
+    COPY.groupByCategory,
+    COPY.groupByCourse,
+    ...ANALYTICS_METRICS.map((metric) => ANALYTICS_METRIC_LABELS[metric]),
+  ]
+  const lines = [header]
+  const rowsByPeriod = new Map<string, AnalyticsRow[]>()
+  for (const row of report.rows) {
+    const list = rowsByPeriod.get(row.periodKey) || []
+    list.push(row)
+    rowsByPeriod.set(row.periodKey, list)
+  }
+
+  for (const period of report.periods) {
+    const label = formatAnalyticsPeriodLabel(period, report.granularity)
+    const total = report.totals.find((entry) => entry.periodKey === period.key)
+    if (total) {
+      lines.push([label, COPY.totalRow, "", "", ...ANALYTICS_METRICS.map((metric) => String(total[metric]))])
+    }
+    for (const row of rowsByPeriod.get(period.key) || []) {
+      lines.push([
+        label,
+        row.courseConfigSetName,
+        report.groupBy === "courseConfigSet" ? "" : row.category || COPY.uncategorized,
+        row.course,
+        ...ANALYTICS_METRICS.map((metric) => String(row[metric])),
+      ])
+    }
+  }
+
+  return lines.map((line) => line.map(escapeCsvCell).join(",")).join("\r\n")
+}
+
+export function getAnalyticsCsvFilename(report: RegistrationAnalyticsReport) {
+  return `${COPY.csvFilename}_${report.from}_${report.to}.csv`
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from "react"
+
+import {
+  buildAnalyticsQueryParams,
+  type AnalyticsQuery,
+  type RegistrationAnalyticsReport,
+} from "@shared/registrationAnalytics"
+
+import { apiClient } from "@/api-client"
+import { saveBlobAsFile } from "@/utils/invoiceUtils"
+
+import { normalizeCourseConfigSets } from "../courseConfigSets/utils"
+import { ANALYTICS_COPY as COPY } from "./analyticsCopy"
+import {
+  buildAnalyticsCsv,
+  createDefaultAnalyticsFilters,
+  getAnalyticsCsvFilename,
+  normalizeAnalyticsReport,
+} from "./analyticsModel"
+
+export function useRegistrationAnalytics(isActive: boolean) {
+  const [filters, setFilters] = useState<AnalyticsQuery>(() => createDefaultAnalyticsFilters())
+  const [appliedFilters, setAppliedFilters] = useState<AnalyticsQuery>(filters)
+  const [courseConfigSetNames, setCourseConfigSetNames] = useState<string[]>([])
+  const [report, setReport] = useState<RegistrationAnalyticsReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!isActive) return
+    let cancelled = false
+    apiClient
+      .listCourseConfigSets()
+      .then((raw) => {
+        if (cancelled) return
+        const names = normalizeCourseConfigSets(raw)
+          .map((set) => String(set?.name || ""))
+          .filter(Boolean)
+          .sort((a, b) => b.localeCompare(a, "ko-KR"))
+        setCourseConfigSetNames(names)
+      })
+      .catch(() => {
+        if (!cancelled) setCourseConfigSetNames([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [isActive])
+
+  const load = useCallback(async (query: AnalyticsQuery) => {
+    setLoading(true)
+    try {
+      const res = await apiClient.getRegistrationAnalytics(buildAnalyticsQueryParams(query))
+      setReport(normalizeAnalyticsReport(res?.report))
+      setError("")
+    } catch (e: unknown) {
+      setReport(null)
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isActive) return
+    void load(appliedFilters)
+  }, [appliedFilters, isActive, load])
+
+  const setFilter = <K extends keyof AnalyticsQuery>(field: K, value: AnalyticsQuery[K]) =>
+    setFilters((prev) => ({ ...prev, [field]: value }))
+
+  const toggleCourseConfigSet = (name: string) =>
+    setFilters((prev) => ({
+      ...prev,
+      courseConfigSetNames: prev.courseConfigSetNames.includes(name)
+        ? prev.courseConfigSetNames.filter((entry) => entry !== name)
+        : [...prev.courseConfigSetNames, name],
+    }))
+
+  const applyFilters = () => setAppliedFilters({ ...filters })
+
+  const downloadCsv = () => {
+    if (!report) return
+    // 엑셀에서 한글이 깨지지 않도록 BOM을 붙인다
+    const blob = new Blob(["\uFEFF", buildAnalyticsCsv(report)], { type: "text/csv;charset=utf-8" })
+    saveBlobAsFile(blob, getAnalyticsCsvFilename(report))
+  }
+
+  return {
+    filters,
+    setFilter,
+    toggleCourseConfigSet,
+    applyFilters,
+    courseConfigSetNames,
+    report,
+    loading,
+    error,
+    downloadCsv,
+  }
+}
@@ -0,0 +1,55 @@
+import { AlertTriangle } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import {
+  describeAttendanceAlertRule,
+  formatAttendanceAlert,
+  formatAttendanceRate,
+  type AttendanceStudentStats,
+} from "./attendanceStatsModel"
+
+type AttendanceAlertBadgesProps = {
+  entry: AttendanceStudentStats | undefined
+  showRate?: boolean
+}
+
+/** 출석률과 걸린 알림 규칙. 출석부 행과 등록 카드에서 같이 쓴다 */
+export default function AttendanceAlertBadges({ entry, showRate = true }: AttendanceAlertBadgesProps) {
+  if (!entry) return null
+  const { stats, alerts } = entry
+  if (!alerts.length && (!showRate || stats.total === 0)) return null
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      {showRate && stats.total > 0 ? (
+        <Badge
+          variant="outline"
+          className="shrink-0 rounded-lg border-slate-200 bg-white px-1.5 py-0 text-[10px] font-semibold text-slate-600"
+          title={`${COPY.columnAttended} ${stats.attended} · ${COPY.columnMissed} ${stats.missed}`}
+        >
+          {COPY.columnRate} {formatAttendanceRate(stats.rate)}
+        </Badge>
+      ) : null}
+      {alerts.map((alert) => (
+        <Badge
+          key={alert.ruleId || alert.type}
+          variant="outline"
+          className="shrink-0 rounded-lg border-amber-300/80 bg-amber-50 px-1.5 py-0 text-[10px] font-semibold text-amber-800"
+          title={`${alert.ruleName} (${describeAttendanceAlertRule({
+            id: alert.ruleId,
+            name: alert.ruleName,
+            type: alert.type,
+            threshold: alert.threshold,
+            minSessions: 0,
+            isActive: true,
+          })})`}
+        >
+          <AlertTriangle className="mr-0.5 h-3 w-3" />
+          {formatAttendanceAlert(alert)}
+        </Badge>
+      ))}
+    </span>
+  )
+}
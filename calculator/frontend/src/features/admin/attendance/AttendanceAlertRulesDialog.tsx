@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from "react"
+import type { ChangeEvent } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import {
+  ATTENDANCE_ALERT_RULE_TYPE_LABELS,
+  ATTENDANCE_ALERT_RULE_TYPE_OPTIONS,
+  alertRuleToForm,
+  buildAlertRulePayload,
+  createEmptyAlertRuleForm,
+  describeAttendanceAlertRule,
+  normalizeAttendanceAlertRules,
+  type AttendanceAlertRuleForm,
+  type SavedAttendanceAlertRule,
+} from "./attendanceStatsModel"
+
+type AttendanceAlertRulesDialogProps = {
+  open: boolean
+  onClose: () => void
+  onChanged?: () => void
+}
+
+export default function AttendanceAlertRulesDialog({ open, onClose, onChanged }: AttendanceAlertRulesDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [rules, setRules] = useState<SavedAttendanceAlertRule[]>([])
+  const [form, setForm] = useState<AttendanceAlertRuleForm | null>(null)
+
+  const loadRules = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const res = await apiClient.listAttendanceAlertRules()
+      setRules(normalizeAttendanceAlertRules(res?.results))
+    } catch (e: unknown) {
+      setRules([])
+      setError(e instanceof Error ? e.message : COPY.rulesLoadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(null)
+    void loadRules()
+  }, [open, loadRules])
+
+  const updateForm = (patch: Partial<AttendanceAlertRuleForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const saveRule = async (rule: AttendanceAlertRuleForm) => {
+    const payload = buildAlertRulePayload(rule)
+    if (rule.id) {
+      await apiClient.updateAttendanceAlertRule(rule.id, payload)
+    } else {
+      await apiClient.createAttendanceAlertRule(payload)
+    }
+    await loadRules()
+    onChanged?.()
+  }
+
+  const handleSave = async () => {
+    if (!form || saving) return
+    setSaving(true)
+    setError("")
+    try {
+      await saveRule(form)
+      setForm(null)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.rulesSaveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: SavedAttendanceAlertRule) => {
+    setError("")
+    try {
+      await saveRule({ ...alertRuleToForm(rule), isActive: !rule.isActive })
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.rulesSaveFailed)
+    }
+  }
+
+  const handleDelete = async (rule: SavedAttendanceAlertRule) => {
+    if (!confirm(`'${rule.name}' ${COPY.deleteConfirmSuffix}`)) return
+    setError("")
+    try {
+      await apiClient.deleteAttendanceAlertRule(rule.id)
+      await loadRules()
+      onChanged?.()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.rulesDeleteFailed)
+    }
+  }
+
+  const renderForm = (current: AttendanceAlertRuleForm) => (
+    <div className="space-y-3 rounded-lg border border-border/60 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>{COPY.ruleName}</Label>
+          <Input
+            value={current.name}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ name: e.target.value })}
+            placeholder={COPY.ruleNamePlaceholder}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.ruleType}</Label>
+          <Select
+            value={current.type}
+            onValueChange={(value) =>
+              updateForm({
+                type: value as AttendanceAlertRuleForm["type"],
+                threshold: value === "lowRate" ? "70" : "3",
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTENDANCE_ALERT_RULE_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>
+            {current.type === "lowRate" ? COPY.ruleRateThreshold : COPY.ruleConsecutiveThreshold}
+          </Label>
+          <Input
+            type="number"
+            min={1}
+            max={current.type === "lowRate" ? 100 : undefined}
+            value={current.threshold}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ threshold: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.ruleMinSessions}</Label>
+          <Input
+            type="number"
+            min={0}
+            value={current.minSessions}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ minSessions: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">{COPY.ruleMinSessionsHint}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={current.isActive} onCheckedChange={(checked: boolean) => updateForm({ isActive: checked })} />
+          {COPY.ruleActive}
+        </label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+            {current.id ? COPY.save : COPY.add}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) onClose()
+      }}
+    >
+      <DialogContent className="flex max-h-[85vh] max-w-2xl flex-col overflow-hidden p-0">
+        <DialogHeader className="border-b bg-muted/40 px-6 py-4 text-left">
+          <DialogTitle>{COPY.rulesTitle}</DialogTitle>
+          <DialogDescription>{COPY.rulesDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          {form ? renderForm(form) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(createEmptyAlertRuleForm(rules.length))}
+              disabled={loading}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {COPY.addRule}
+            </Button>
+          )}
+
+          <div className="rounded-lg border border-border/60">
+            {loading ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">{COPY.loading}</div>
+            ) : rules.length === 0 ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">{COPY.rulesEmpty}</div>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between gap-3 border-b border-border/60 px-3 py-2 text-sm last:border-b-0 ${rule.isActive ? "" : "opacity-50"}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="secondary">{ATTENDANCE_ALERT_RULE_TYPE_LABELS[rule.type]}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{describeAttendanceAlertRule(rule)}</div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch checked={rule.isActive} onCheckedChange={() => handleToggleActive(rule)} />
+                    <Button type="button" variant="ghost" size="icon" title={COPY.edit} onClick={() => setForm(alertRuleToForm(rule))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title={COPY.delete}
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter className="border-t bg-muted/40 px-6 py-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {COPY.close}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,11 +1,17 @@
-import { useMemo, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { addMonths, eachDayOfInterval, endOfMonth, startOfMonth } from "date-fns"
 
 import { Card } from "@/components/ui/card"
+import { hasPermission, PERMISSION_KEYS } from "@/permissions"
+
+import { DEFAULT_ATTENDANCE_STATUSES } from "@shared/attendanceStatuses"
 
 import { parseDate } from "../registrations/utils"
 import AttendanceBoardGrid from "./AttendanceBoardGrid"
 import AttendanceBoardHeader from "./AttendanceBoardHeader"
+import AttendanceCellNoteDialog, { type AttendanceCellNoteTarget } from "./AttendanceCellNoteDialog"
+import AttendanceMakeupDialog, { type AttendanceMakeupTarget } from "./AttendanceMakeupDialog"
+import AttendanceMonthLockBar from "./AttendanceMonthLockBar"
 import { format } from "date-fns"
 
 import { getWeekIndex } from "@/utils/calculatorLogic"
@@ -17,16 +23,45 @@ import {
   hasUpcomingClasses,
   LABEL_WIDTH_PX,
   type AttendanceBoardProps,
-  type AttendanceStatusKey,
+  type AttendanceRow,
 } from "./attendanceBoardModel"
+import { isAttendanceBoardReadOnly } from "./attendanceLockModel"
+import { getUnscheduledAbsenceDates } from "./attendanceMakeupModel"
+import { buildAttendanceBoardStatuses } from "./attendanceStatusModel"
 import { useAttendanceBoardState } from "./useAttendanceBoardState"
+import { useAttendanceMakeups } from "./useAttendanceMakeups"
+import { useAttendanceMonthLock } from "./useAttendanceMonthLock"
+import { useAttendanceStatsMap } from "./useAttendanceStatsMap"
 
 export default function AttendanceBoard(props: AttendanceBoardProps) {
-  const { registrations = [], getCourseDaysForCourse } = props || {}
+  const { registrations = [], getCourseDaysForCourse, statuses, courseConfigSetName = "", user } = props || {}
   const [month, setMonth] = useState<Date>(() => startOfMonth(new Date()))
-  const [paintStatus, setPaintStatus] = useState<AttendanceStatusKey>("present")
+  const [paintStatus, setPaintStatus] = useState("present")
   const [hideInactive, setHideInactive] = useState(false)
   const [todayPaintableOnly, setTodayPaintableOnly] = useState(false)
+  const [makeupTarget, setMakeupTarget] = useState<AttendanceMakeupTarget | null>(null)
+  const [noteTarget, setNoteTarget] = useState<AttendanceCellNoteTarget | null>(null)
+  const [overrideReason, setOverrideReason] = useState("")
+
+  const monthKey = useMemo(() => format(month, "yyyy-MM"), [month])
+  const { lock, reload: reloadLock } = useAttendanceMonthLock(courseConfigSetName, monthKey)
+  const readOnly = isAttendanceBoardReadOnly(lock, overrideReason)
+
+  // 마감 후 수정은 그 달에만 쓴다. 달이나 마감이 바뀌면 사유를 다시 받는다
+  useEffect(() => {
+    setOverrideReason("")
+  }, [courseConfigSetName, monthKey, lock?.id])
+
+  const boardStatuses = useMemo(
+    () => buildAttendanceBoardStatuses(statuses?.length ? statuses : DEFAULT_ATTENDANCE_STATUSES),
+    [statuses]
+  )
+
+  // 칠하던 상태를 꺼 두면 첫 상태로 돌린다
+  useEffect(() => {
+    if (boardStatuses.paintable.some((status) => status.key === paintStatus)) return
+    setPaintStatus(boardStatuses.paintable[0]?.key || "pending")
+  }, [boardStatuses, paintStatus])
 
   const today = useMemo(() => new Date(), [])
   const todayStart = useMemo(() => parseDate(new Date()), [])
@@ -83,6 +118,7 @@ export default function AttendanceBoard(props: AttendanceBoardProps) {
         if (todayStart.getTime() > meta.end.getTime()) return false
         if (!meta.courseDaySet.has(todayStart.getDay())) return false
         if (meta.breakDateSet.has(todayKey)) return false
+        if (meta.holdDateSet.has(todayKey)) return false
         if (meta.skipWeekSet.has(getWeekIndex(meta.start, todayStart))) return false
         if (meta.inactiveAt && todayStart.getTime() >= meta.inactiveAt.getTime()) return false
         return true
@@ -94,14 +130,57 @@ export default function AttendanceBoard(props: AttendanceBoardProps) {
 
   const {
     cellStatuses,
+    cellNotes,
+    saveCell,
     handlePaintStart,
     handlePaintEnter,
   } = useAttendanceBoardState({
     month,
     registrations,
     paintStatus,
+    overrideReason,
   })
 
+  const registrationIds = useMemo(
+    () => (registrations || []).map((row) => String(row?.id || "").trim()).filter(Boolean),
+    [registrations]
+  )
+  const { statsMap, reload: reloadStats } = useAttendanceStatsMap(registrationIds)
+  const { makeupMap, reload: reloadMakeups } = useAttendanceMakeups(registrationIds)
+
+  // 직접 칠하거나 다른 사람이 바꾼 출석이 알림에 반영되도록 잠잠해지면 다시 읽는다.
+  // 결석을 지우면 그 보강도 같이 지워지므로 보강도 다시 읽는다
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      void reloadStats()
+      void reloadMakeups()
+    }, 1500)
+    return () => window.clearTimeout(timer)
+  }, [cellStatuses, reloadStats, reloadMakeups])
+
+  const targetMakeups = makeupTarget ? makeupMap.get(makeupTarget.registrationId) || [] : []
+  const targetAbsenceDates = makeupTarget
+    ? getUnscheduledAbsenceDates(cellStatuses[makeupTarget.registrationId], targetMakeups, boardStatuses.missed)
+    : []
+
+  const openMakeups = (row: AttendanceRow) => {
+    const registrationId = String(row?.id || "").trim()
+    if (!registrationId) return
+    setMakeupTarget({ registrationId, name: String(row?.name || ""), course: String(row?.course || "") })
+  }
+
+  const openCellNote = (row: AttendanceRow, dateKey: string, status: string) => {
+    const registrationId = String(row?.id || "").trim()
+    if (!registrationId) return
+    setNoteTarget({
+      registrationId,
+      name: String(row?.name || ""),
+      date: dateKey,
+      status,
+      note: cellNotes[registrationId]?.[dateKey] || "",
+    })
+  }
+
   return (
     <Card className="overflow-hidden rounded-2xl border border-white/40 bg-white/70 shadow-xl shadow-black/5 backdrop-blur-xl">
       <AttendanceBoardHeader
@@ -109,12 +188,25 @@ export default function AttendanceBoard(props: AttendanceBoardProps) {
         hideInactive={hideInactive}
         todayPaintableOnly={todayPaintableOnly}
         paintStatus={paintStatus}
+        statuses={boardStatuses.paintable}
         onPrevMonth={() => setMonth((prev) => addMonths(prev, -1))}
         onNextMonth={() => setMonth((prev) => addMonths(prev, 1))}
         onHideInactiveChange={(value) => setHideInactive(Boolean(value))}
         onTodayPaintableOnlyChange={(value) => setTodayPaintableOnly(Boolean(value))}
         onPaintStatusChange={setPaintStatus}
       />
+      {courseConfigSetName ? (
+        <AttendanceMonthLockBar
+          courseConfigSetName={courseConfigSetName}
+          month={monthKey}
+          lock={lock}
+          canManage={user?.role === "master"}
+          canOverride={hasPermission(user, PERMISSION_KEYS.buttons.attendanceLockOverride)}
+          overrideReason={overrideReason}
+          onOverrideReasonChange={setOverrideReason}
+          onChanged={reloadLock}
+        />
+      ) : null}
       <AttendanceBoardGrid
         days={days}
         today={today}
@@ -123,9 +215,31 @@ export default function AttendanceBoard(props: AttendanceBoardProps) {
         visibleRows={visibleRows}
         registrations={registrations}
         cellStatuses={cellStatuses}
+        cellNotes={cellNotes}
+        boardStatuses={boardStatuses}
+        readOnly={readOnly}
+        statsMap={statsMap}
+        makeupMap={makeupMap}
+        onOpenMakeups={openMakeups}
+        onOpenCellNote={openCellNote}
         onPaintStart={handlePaintStart}
         onPaintEnter={handlePaintEnter}
       />
+      <AttendanceMakeupDialog
+        target={makeupTarget}
+        makeups={targetMakeups}
+        absenceDates={targetAbsenceDates}
+        onClose={() => setMakeupTarget(null)}
+        onChanged={reloadMakeups}
+      />
+      <AttendanceCellNoteDialog
+        target={noteTarget}
+        statuses={boardStatuses.paintable}
+        onClose={() => setNoteTarget(null)}
+        onSave={(status, note) =>
+          noteTarget ? saveCell(noteTarget.registrationId, noteTarget.date, status, note) : Promise.resolve()
+        }
+      />
     </Card>
   )
 }
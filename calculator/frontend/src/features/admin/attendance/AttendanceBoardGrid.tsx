@@ -7,6 +7,9 @@ import { CardContent } from "@/components/ui/card"
 
 import AttendanceBoardRow from "./AttendanceBoardRow"
 import { ATTENDANCE_BOARD_COPY as COPY } from "./attendanceBoardCopy"
+import type { AttendanceMakeup } from "./attendanceMakeupModel"
+import type { AttendanceStudentStats } from "./attendanceStatsModel"
+import type { AttendanceBoardStatuses } from "./attendanceStatusModel"
 import type {
   AttendanceCellMap,
   AttendanceRow,
@@ -27,6 +30,13 @@ export default function AttendanceBoardGrid({
   visibleRows,
   registrations,
   cellStatuses,
+  cellNotes,
+  boardStatuses,
+  readOnly,
+  statsMap,
+  makeupMap,
+  onOpenMakeups,
+  onOpenCellNote,
   onPaintStart,
   onPaintEnter,
 }: {
@@ -37,6 +47,13 @@ export default function AttendanceBoardGrid({
   visibleRows: RowEntry[]
   registrations: AttendanceRow[]
   cellStatuses: AttendanceCellMap
+  cellNotes: AttendanceCellMap
+  boardStatuses: AttendanceBoardStatuses
+  readOnly: boolean
+  statsMap: Map<string, AttendanceStudentStats>
+  makeupMap: Map<string, AttendanceMakeup[]>
+  onOpenMakeups: (row: AttendanceRow) => void
+  onOpenCellNote: (row: AttendanceRow, dateKey: string, status: string) => void
   onPaintStart: (
     event: ReactPointerEvent<HTMLDivElement>,
     rowKey: string,
@@ -100,6 +117,13 @@ export default function AttendanceBoardGrid({
                 days={days}
                 gridTemplateColumns={gridTemplateColumns}
                 cellStatuses={cellStatuses}
+                cellNotes={cellNotes}
+                boardStatuses={boardStatuses}
+                readOnly={readOnly}
+                attendanceStats={statsMap.get(String(row?.id || "").trim())}
+                makeups={makeupMap.get(String(row?.id || "").trim())}
+                onOpenMakeups={onOpenMakeups}
+                onOpenCellNote={onOpenCellNote}
                 onPaintStart={onPaintStart}
                 onPaintEnter={onPaintEnter}
               />
@@ -6,21 +6,20 @@ import { Button } from "@/components/ui/button"
 import { CardHeader } from "@/components/ui/card"
 
 import { ATTENDANCE_BOARD_COPY as COPY } from "./attendanceBoardCopy"
-import {
-  PAINTABLE_STATUSES,
-  type AttendanceStatusKey,
-} from "./attendanceBoardModel"
+import { ATTENDANCE_STATUS_COPY as STATUS_COPY } from "./attendanceStatusCopy"
+import type { AttendanceStatusStyle } from "./attendanceStatusModel"
 
 type AttendanceBoardHeaderProps = {
   month: Date
   hideInactive: boolean
   todayPaintableOnly: boolean
-  paintStatus: AttendanceStatusKey
+  paintStatus: string
+  statuses: AttendanceStatusStyle[]
   onPrevMonth: () => void
   onNextMonth: () => void
   onHideInactiveChange: (value: boolean) => void
   onTodayPaintableOnlyChange: (value: boolean) => void
-  onPaintStatusChange: (status: AttendanceStatusKey) => void
+  onPaintStatusChange: (status: string) => void
 }
 
 export default function AttendanceBoardHeader({
@@ -28,6 +27,7 @@ export default function AttendanceBoardHeader({
   hideInactive,
   todayPaintableOnly,
   paintStatus,
+  statuses,
   onPrevMonth,
   onNextMonth,
   onHideInactiveChange,
@@ -100,7 +100,7 @@ export default function AttendanceBoardHeader({
           <span>{COPY.paintStatus}</span>
         </div>
         <div className="flex flex-wrap items-center gap-2">
-          {PAINTABLE_STATUSES.map((status) => {
+          {statuses.map((status) => {
             const isActive = paintStatus === status.key
             return (
               <button
@@ -119,6 +119,7 @@ export default function AttendanceBoardHeader({
             )
           })}
         </div>
+        <span className="text-xs text-slate-400">{STATUS_COPY.noteHint}</span>
       </div>
     </CardHeader>
   )
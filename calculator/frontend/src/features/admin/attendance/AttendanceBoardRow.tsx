@@ -5,17 +5,21 @@ import { Badge } from "@/components/ui/badge"
 
 import { getWeekIndex } from "@/utils/calculatorLogic"
 
+import AttendanceAlertBadges from "./AttendanceAlertBadges"
 import { ATTENDANCE_BOARD_COPY as COPY } from "./attendanceBoardCopy"
+import { ATTENDANCE_MAKEUP_COPY as MAKEUP_COPY } from "./attendanceMakeupCopy"
 import {
   getPrevChainAttendance,
   NO_CLASS_LABEL,
   OFF_DAY_LABEL,
   ROW_HEIGHT_PX,
-  STATUS_LOOKUP,
   type AttendanceCellMap,
   type AttendanceRow,
   type AttendanceRowMeta,
 } from "./attendanceBoardModel"
+import { getUnscheduledAbsenceDates, type AttendanceMakeup } from "./attendanceMakeupModel"
+import type { AttendanceStudentStats } from "./attendanceStatsModel"
+import type { AttendanceBoardStatuses } from "./attendanceStatusModel"
 
 type AttendanceBoardRowProps = {
   row: AttendanceRow
@@ -25,6 +29,15 @@ type AttendanceBoardRowProps = {
   days: Date[]
   gridTemplateColumns: string
   cellStatuses: AttendanceCellMap
+  cellNotes: AttendanceCellMap
+  boardStatuses: AttendanceBoardStatuses
+  /** 마감된 달: 칠하기와 사유 입력을 막는다 */
+  readOnly?: boolean
+  attendanceStats?: AttendanceStudentStats
+  makeups?: AttendanceMakeup[]
+  onOpenMakeups?: (row: AttendanceRow) => void
+  /** 칸 오른쪽 클릭: 상태와 사유 입력 */
+  onOpenCellNote?: (row: AttendanceRow, dateKey: string, status: string) => void
   onPaintStart: (
     event: React.PointerEvent<HTMLDivElement>,
     rowKey: string,
@@ -42,10 +55,22 @@ export default function AttendanceBoardRow({
   days,
   gridTemplateColumns,
   cellStatuses,
+  cellNotes,
+  boardStatuses,
+  readOnly = false,
+  attendanceStats,
+  makeups = [],
+  onOpenMakeups,
+  onOpenCellNote,
   onPaintStart,
   onPaintEnter,
 }: AttendanceBoardRowProps) {
   const rowStatus = cellStatuses[rowKey] || {}
+  const rowNotes = cellNotes[rowKey] || {}
+  const { styles: statusStyles, missed: missedStatuses } = boardStatuses
+  const makeupDates = new Set(makeups.map((makeup) => makeup.absenceDate))
+  const outstandingMakeups = makeups.filter((makeup) => makeup.outstanding).length
+  const unscheduledAbsences = getUnscheduledAbsenceDates(rowStatus, makeups, missedStatuses).length
   const start = meta?.start
   const end = meta?.end
   const withdrawnAt = meta?.withdrawnAt
@@ -92,6 +117,23 @@ export default function AttendanceBoardRow({
               </span>
             ) : null}
           </div>
+          {attendanceStats || outstandingMakeups || unscheduledAbsences ? (
+            <div className="mt-1 flex flex-wrap items-center gap-1">
+              <AttendanceAlertBadges entry={attendanceStats} />
+              {onOpenMakeups && (outstandingMakeups || unscheduledAbsences) ? (
+                <button
+                  type="button"
+                  className="shrink-0 rounded-lg border border-violet-300/80 bg-violet-50 px-1.5 text-[10px] font-semibold leading-4 text-violet-700 hover:bg-violet-100"
+                  title={MAKEUP_COPY.badgeTitle}
+                  onClick={() => onOpenMakeups(row)}
+                >
+                  {outstandingMakeups ? `${MAKEUP_COPY.badge} ${outstandingMakeups}` : ""}
+                  {outstandingMakeups && unscheduledAbsences ? " · " : ""}
+                  {unscheduledAbsences ? `${MAKEUP_COPY.badgeNeeded} ${unscheduledAbsences}` : ""}
+                </button>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       </div>
       {days.map((day) => {
@@ -102,27 +144,33 @@ export default function AttendanceBoardRow({
         const hasCourseDay = inRange && courseDays.includes(day.getDay())
 
         const isBreakDay = hasCourseDay && meta?.breakDateSet?.has(dateKey)
+        const isHoldDay = hasCourseDay && !isBreakDay && meta?.holdDateSet?.has(dateKey)
         const isSkipDay =
           !isBreakDay &&
+          !isHoldDay &&
           hasCourseDay &&
           meta?.skipWeekSet?.size &&
           start &&
           meta?.skipWeekSet?.has(getWeekIndex(start, day))
 
         const isInactiveDay = inactiveAt && day.getTime() >= inactiveAt.getTime()
-        const isPaintable = hasCourseDay && !isSkipDay && !isBreakDay && !isInactiveDay
+        const isPaintable = hasCourseDay && !isSkipDay && !isBreakDay && !isHoldDay && !isInactiveDay
+        const isEditable = isPaintable && !readOnly
         const isRecordedDefault =
           isPaintable && meta?.recordingDateSet?.has(dateKey)
         const statusKey =
           rowStatus[dateKey] || (isRecordedDefault ? "recorded" : "pending")
-        const statusStyle = STATUS_LOOKUP[statusKey] || STATUS_LOOKUP.pending
+        const statusStyle = statusStyles[statusKey] || statusStyles.pending
+        const note = statusKey !== "pending" ? rowNotes[dateKey] || "" : ""
 
         const isWeekendDay = day.getDay() === 0 || day.getDay() === 6
         const cellBaseClass =
           `flex items-center justify-center px-1 py-2 transition-colors ${isWeekendDay ? "bg-rose-50/20" : ""}`
-        const cellInteractiveClass = isPaintable
+        const cellInteractiveClass = isEditable
           ? "cursor-crosshair hover:bg-violet-100/40"
-          : "cursor-default"
+          : isPaintable
+            ? "cursor-not-allowed"
+            : "cursor-default"
 
         const prevChainStatus = !isPaintable
           ? getPrevChainAttendance(row, dateKey, cellStatuses)
@@ -130,7 +178,7 @@ export default function AttendanceBoardRow({
 
         let cellContent = null
         if (prevChainStatus) {
-          const prevStyle = STATUS_LOOKUP[prevChainStatus] || STATUS_LOOKUP.pending
+          const prevStyle = statusStyles[prevChainStatus] || statusStyles.pending
           cellContent = (
             <span
               className={`inline-flex h-7 w-7 items-center justify-center rounded-lg border text-[10px] font-bold opacity-30 ${prevStyle.cellClassName}`}
@@ -147,6 +195,15 @@ export default function AttendanceBoardRow({
               {NO_CLASS_LABEL}
             </span>
           )
+        } else if (isHoldDay) {
+          cellContent = (
+            <span
+              className="inline-flex items-center justify-center rounded-lg border border-violet-200/80 bg-violet-50/70 px-1.5 py-0.5 text-[9px] font-semibold text-violet-500"
+              title={COPY.holdDay}
+            >
+              {COPY.holdDay}
+            </span>
+          )
         } else if (isSkipDay) {
           cellContent = (
             <span
@@ -157,12 +214,19 @@ export default function AttendanceBoardRow({
             </span>
           )
         } else {
+          const hasMakeup = missedStatuses.has(statusKey) && makeupDates.has(dateKey)
           cellContent = (
             <span
-              className={`inline-flex h-7 w-7 items-center justify-center rounded-lg border text-[10px] font-bold transition-transform hover:scale-110 ${statusStyle.cellClassName}`}
-              title={statusStyle.label}
+              className={`relative inline-flex h-7 w-7 items-center justify-center rounded-lg border text-[10px] font-bold transition-transform hover:scale-110 ${statusStyle.cellClassName}`}
+              title={[statusStyle.label, note, hasMakeup ? MAKEUP_COPY.cellMakeupTitle : ""].filter(Boolean).join(" · ")}
             >
               {statusStyle.shortLabel}
+              {hasMakeup ? (
+                <span className="absolute -right-0.5 -top-0.5 h-2 w-2 rounded-full border border-white bg-violet-500" />
+              ) : null}
+              {note ? (
+                <span className="absolute -bottom-0.5 -left-0.5 h-2 w-2 rounded-full border border-white bg-slate-500" />
+              ) : null}
             </span>
           )
         }
@@ -172,15 +236,23 @@ export default function AttendanceBoardRow({
             key={`${rowKey}-${dateKey}`}
             className={`${cellBaseClass} ${cellInteractiveClass}`}
             onPointerDown={
-              isPaintable
+              isEditable
                 ? (event) => onPaintStart(event, rowKey, dateKey, registrationId)
                 : undefined
             }
             onPointerEnter={
-              isPaintable
+              isEditable
                 ? () => onPaintEnter(rowKey, dateKey, registrationId)
                 : undefined
             }
+            onContextMenu={
+              isEditable && onOpenCellNote && registrationId
+                ? (event) => {
+                    event.preventDefault()
+                    onOpenCellNote(row, dateKey, statusKey)
+                  }
+                : undefined
+            }
             aria-label={
               isSkipDay
                 ? `${OFF_DAY_LABEL} (${dateKey})`
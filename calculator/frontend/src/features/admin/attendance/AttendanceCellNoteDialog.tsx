@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react"
+import type { ChangeEvent } from "react"
+
+import { ATTENDANCE_RECORD_NOTE_MAX_LENGTH, PENDING_ATTENDANCE_STATUS } from "@shared/attendanceStatuses"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+import { ATTENDANCE_STATUS_COPY as COPY } from "./attendanceStatusCopy"
+import type { AttendanceStatusStyle } from "./attendanceStatusModel"
+
+export type AttendanceCellNoteTarget = {
+  registrationId: string
+  name: string
+  date: string
+  status: string
+  note: string
+}
+
+type AttendanceCellNoteDialogProps = {
+  target: AttendanceCellNoteTarget | null
+  statuses: AttendanceStatusStyle[]
+  onClose: () => void
+  onSave: (status: string, note: string) => Promise<void>
+}
+
+/** 출석부 칸 하나의 상태와 사유 */
+export default function AttendanceCellNoteDialog({ target, statuses, onClose, onSave }: AttendanceCellNoteDialogProps) {
+  const [status, setStatus] = useState("")
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setStatus(target?.status || PENDING_ATTENDANCE_STATUS)
+    setNote(target?.note || "")
+    setError("")
+  }, [target])
+
+  const isPending = status === PENDING_ATTENDANCE_STATUS
+
+  const handleSave = async () => {
+    if (!target || saving) return
+    setSaving(true)
+    setError("")
+    try {
+      await onSave(status, isPending ? "" : note)
+      onClose()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.noteSaveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(next) => {
+        if (!next) onClose()
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {COPY.noteTitle} · {target?.name} ({target?.date})
+          </DialogTitle>
+          <DialogDescription>{COPY.noteDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>{COPY.noteStatus}</Label>
+            <div className="flex flex-wrap gap-2">
+              {statuses.map((option) => (
+                <button
+                  key={option.key}
+                  type="button"
+                  onClick={() => setStatus(option.key)}
+                  className={`rounded-xl border px-3 py-1.5 text-sm font-semibold transition-all ${option.className} ${
+                    status === option.key ? "ring-2 ring-violet-400/60 ring-offset-2" : ""
+                  }`}
+                  aria-pressed={status === option.key}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>{COPY.note}</Label>
+            <Input
+              value={note}
+              maxLength={ATTENDANCE_RECORD_NOTE_MAX_LENGTH}
+              disabled={isPending}
+              placeholder={COPY.notePlaceholder}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setNote(e.target.value)}
+            />
+          </div>
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {COPY.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,168 @@
+import { useState } from "react"
+import { BarChart3, BellRing, MessageSquare, Palette, Settings2 } from "lucide-react"
+
+import type { AuthUser } from "@/auth-routing"
+import { Button } from "@/components/ui/button"
+import NotificationComposeDialog from "@/features/admin/notifications/NotificationComposeDialog"
+import { hasPermission, PERMISSION_KEYS } from "@/permissions"
+
+import AttendanceAlertBadges from "./AttendanceAlertBadges"
+import AttendanceAlertRulesDialog from "./AttendanceAlertRulesDialog"
+import AttendanceStatsDialog from "./AttendanceStatsDialog"
+import AttendanceStatusesDialog from "./AttendanceStatusesDialog"
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import { ATTENDANCE_STATUS_COPY as STATUS_COPY } from "./attendanceStatusCopy"
+import { buildAbsenceAlertMessage, type AttendanceStudentStats } from "./attendanceStatsModel"
+import { useAttendanceFollowUps } from "./useAttendanceFollowUps"
+
+type AttendanceFollowUpPanelProps = {
+  user: AuthUser | null
+  courseConfigSetName: string
+  isActive?: boolean
+  /** 출석 상태를 바꾸면 출석부도 다시 그린다 */
+  onStatusesChanged?: () => void
+}
+
+export default function AttendanceFollowUpPanel({
+  user,
+  courseConfigSetName,
+  isActive = true,
+  onStatusesChanged,
+}: AttendanceFollowUpPanelProps) {
+  const { followUps, loading, error, reload } = useAttendanceFollowUps(courseConfigSetName, isActive)
+  const [statsOpen, setStatsOpen] = useState(false)
+  const [rulesOpen, setRulesOpen] = useState(false)
+  const [statusesOpen, setStatusesOpen] = useState(false)
+  const [composeTarget, setComposeTarget] = useState<AttendanceStudentStats | null>(null)
+
+  const canSendNotice = hasPermission(user, PERMISSION_KEYS.buttons.notifications)
+  const canManageRules = user?.role === "master" || user?.role === "admin"
+
+  return (
+    <div className="rounded-2xl border border-white/40 bg-white/70 p-4 shadow-lg shadow-black/5 backdrop-blur-xl">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BellRing className="h-4 w-4 text-amber-500" />
+          <h3 className="text-sm font-bold text-slate-800">{COPY.followUpTitle}</h3>
+          <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-800">
+            {followUps.results.length}
+          </span>
+          <span className="hidden text-xs text-slate-500 sm:inline">{COPY.followUpDescription}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 gap-1.5 rounded-xl"
+            onClick={() => setStatsOpen(true)}
+            disabled={!courseConfigSetName}
+          >
+            <BarChart3 className="h-3.5 w-3.5" />
+            {COPY.openStats}
+          </Button>
+          {canManageRules ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1.5 rounded-xl"
+              onClick={() => setRulesOpen(true)}
+            >
+              <Settings2 className="h-3.5 w-3.5" />
+              {COPY.manageRules}
+            </Button>
+          ) : null}
+          {canManageRules ? (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1.5 rounded-xl"
+              onClick={() => setStatusesOpen(true)}
+            >
+              <Palette className="h-3.5 w-3.5" />
+              {STATUS_COPY.manage}
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="mt-3">
+        {error ? (
+          <div className="text-sm text-rose-600">{error}</div>
+        ) : loading ? (
+          <div className="text-sm text-slate-400">{COPY.loading}</div>
+        ) : followUps.ruleCount === 0 ? (
+          <div className="text-sm text-slate-400">{COPY.followUpNoRules}</div>
+        ) : followUps.results.length === 0 ? (
+          <div className="text-sm text-slate-400">{COPY.followUpEmpty}</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {followUps.results.map((entry) => (
+              <li key={entry.registrationId} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-bold text-slate-800">{entry.name}</span>
+                    <span className="truncate text-xs text-slate-500">{entry.course}</span>
+                  </div>
+                  <div className="mt-1">
+                    <AttendanceAlertBadges entry={entry} />
+                  </div>
+                </div>
+                {canSendNotice ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 gap-1 rounded-full px-3 text-xs font-semibold"
+                    onClick={() => setComposeTarget(entry)}
+                  >
+                    <MessageSquare className="h-3.5 w-3.5" />
+                    {COPY.sendMessage}
+                  </Button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <AttendanceStatsDialog
+        open={statsOpen}
+        onOpenChange={setStatsOpen}
+        courseConfigSetName={courseConfigSetName}
+      />
+      {canManageRules ? (
+        <AttendanceAlertRulesDialog
+          open={rulesOpen}
+          onClose={() => setRulesOpen(false)}
+          onChanged={reload}
+        />
+      ) : null}
+      {canManageRules ? (
+        <AttendanceStatusesDialog
+          open={statusesOpen}
+          onClose={() => setStatusesOpen(false)}
+          onChanged={() => {
+            void reload()
+            onStatusesChanged?.()
+          }}
+        />
+      ) : null}
+      {canSendNotice ? (
+        <NotificationComposeDialog
+          open={Boolean(composeTarget)}
+          onOpenChange={(open) => {
+            if (!open) setComposeTarget(null)
+          }}
+          kind="absence_alert"
+          initialBody={composeTarget ? buildAbsenceAlertMessage(composeTarget) : ""}
+          studentName={composeTarget?.name || ""}
+          studentId={composeTarget?.studentId || undefined}
+          registrationId={composeTarget?.registrationId || undefined}
+        />
+      ) : null}
+    </div>
+  )
+}
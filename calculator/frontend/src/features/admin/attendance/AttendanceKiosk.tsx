@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useRef, useState, type FormEvent, type MouseEvent } from "react"
+
+import { Camera, CameraOff, Delete, LogOut, Settings } from "lucide-react"
+import { Link } from "react-router-dom"
+
+import { apiClient } from "@/api-client"
+import { ROUTES } from "@/auth-routing"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MAX_CHECK_IN_GRACE_MINUTES } from "@shared/attendanceCheckIn"
+
+import { ATTENDANCE_KIOSK_COPY as COPY } from "./attendanceKioskCopy"
+import {
+  KIOSK_RESULT_DISPLAY_MS,
+  KIOSK_SETTINGS_STORAGE_KEY,
+  appendKioskPinDigit,
+  formatKioskStatus,
+  getKioskResultTone,
+  normalizeKioskCheckInResult,
+  parseKioskSettings,
+  type KioskCheckInResult,
+  type KioskSettings,
+} from "./attendanceKioskModel"
+import { useQrCameraScanner } from "./useQrCameraScanner"
+
+const KEYPAD = ["1", "2", "3", "4", "5", "6", "7", "8", "9"]
+
+const TONE_CLASSES: Record<string, string> = {
+  present: "border-emerald-200 bg-emerald-50 text-emerald-900",
+  late: "border-amber-200 bg-amber-50 text-amber-900",
+  muted: "border-slate-200 bg-white text-slate-800",
+}
+
+function formatClock(date: Date) {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`
+}
+
+export default function AttendanceKiosk() {
+  const [code, setCode] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [result, setResult] = useState<KioskCheckInResult | null>(null)
+  const [error, setError] = useState("")
+  const [now, setNow] = useState(() => new Date())
+  const [settingsOpen, setSettingsOpen] = useState(false)
+  const [settings, setSettings] = useState<KioskSettings>(() =>
+    parseKioskSettings(localStorage.getItem(KIOSK_SETTINGS_STORAGE_KEY))
+  )
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const submittingRef = useRef(false)
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 10000)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  // 결과는 잠시 보여 주고 지운다 (다음 학생 차례)
+  useEffect(() => {
+    if (!result && !error) return
+    const timer = window.setTimeout(() => {
+      setResult(null)
+      setError("")
+    }, KIOSK_RESULT_DISPLAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [result, error])
+
+  const focusInput = useCallback(() => {
+    if (!settingsOpen) inputRef.current?.focus()
+  }, [settingsOpen])
+
+  useEffect(() => {
+    focusInput()
+  }, [focusInput, result, error])
+
+  const submit = useCallback(
+    async (value: string) => {
+      const trimmed = value.trim()
+      if (!trimmed || submittingRef.current) return
+      submittingRef.current = true
+      setSubmitting(true)
+      setError("")
+      setResult(null)
+      try {
+        const res = await apiClient.checkInAttendance({ code: trimmed, graceMinutes: settings.graceMinutes })
+        setResult(normalizeKioskCheckInResult(res))
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : COPY.checkInFailed)
+      } finally {
+        submittingRef.current = false
+        setSubmitting(false)
+        setCode("")
+      }
+    },
+    [settings.graceMinutes]
+  )
+
+  const camera = useQrCameraScanner(submit)
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    void submit(code)
+  }
+
+  function handleGraceChange(value: string) {
+    const next = parseKioskSettings(JSON.stringify({ graceMinutes: value === "" ? "" : Number(value) }))
+    setSettings(next)
+    localStorage.setItem(KIOSK_SETTINGS_STORAGE_KEY, JSON.stringify(next))
+  }
+
+  const tone = result ? getKioskResultTone(result) : "muted"
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-violet-50 via-white to-orange-50" onClick={focusInput}>
+      <header className="flex items-center justify-between px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900">{COPY.title}</h1>
+          <p className="text-sm text-slate-600">{COPY.subtitle}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="mr-2 text-3xl font-semibold tabular-nums text-slate-800">{formatClock(now)}</span>
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            aria-label={COPY.settings}
+            onClick={(event: MouseEvent<HTMLButtonElement>) => {
+              event.stopPropagation()
+              setSettingsOpen((prev) => !prev)
+            }}
+          >
+            <Settings className="h-4 w-4" />
+          </Button>
+          <Button asChild variant="outline" size="icon" aria-label={COPY.exit}>
+            <Link to={ROUTES.admin}>
+              <LogOut className="h-4 w-4" />
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      {settingsOpen ? (
+        <div className="mx-6 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm" onClick={(event) => event.stopPropagation()}>
+          <Label htmlFor="kiosk-grace">{COPY.graceMinutes}</Label>
+          <Input
+            id="kiosk-grace"
+            type="number"
+            min={0}
+            max={MAX_CHECK_IN_GRACE_MINUTES}
+            className="mt-1 w-32"
+            value={settings.graceMinutes}
+            onChange={(event) => handleGraceChange(event.target.value)}
+          />
+          <p className="mt-1 text-xs text-muted-foreground">{COPY.graceHelp}</p>
+        </div>
+      ) : null}
+
+      <main className="flex flex-1 flex-col items-center justify-center gap-6 px-6 pb-10">
+        <div className="min-h-[7rem] w-full max-w-md">
+          {submitting ? (
+            <div className="rounded-2xl border border-slate-200 bg-white p-6 text-center text-lg text-slate-600">
+              {COPY.processing}
+            </div>
+          ) : null}
+          {result ? (
+            <div className={`rounded-2xl border p-6 text-center ${TONE_CLASSES[tone]}`}>
+              <div className="text-2xl font-bold">
+                {result.studentName} {COPY.studentSuffix}
+              </div>
+              <div className="mt-1 text-sm opacity-80">
+                {COPY.checkedInAt} {result.checkedInAt}
+              </div>
+              <ul className="mt-3 space-y-1 text-base">
+                {result.results.map((entry) => (
+                  <li key={entry.registrationId}>
+                    <span className="font-medium">{entry.course}</span>
+                    {entry.startTime ? ` (${COPY.startTime} ${entry.startTime})` : ""} · {formatKioskStatus(entry)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          {error ? (
+            <div className="rounded-2xl border border-rose-200 bg-rose-50 p-6 text-center text-lg font-medium text-rose-800">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <form onSubmit={handleSubmit} className="w-full max-w-md space-y-3">
+          <Input
+            ref={inputRef}
+            type="password"
+            inputMode="none"
+            autoComplete="off"
+            value={code}
+            placeholder={COPY.pinPlaceholder}
+            onChange={(event) => setCode(event.target.value)}
+            disabled={submitting}
+            className="h-16 rounded-2xl text-center text-3xl tracking-[0.5em]"
+          />
+          <div className="grid grid-cols-3 gap-3">
+            {KEYPAD.map((digit) => (
+              <Button
+                key={digit}
+                type="button"
+                variant="outline"
+                className="h-16 rounded-2xl text-2xl"
+                onClick={() => setCode((prev) => appendKioskPinDigit(prev, digit))}
+              >
+                {digit}
+              </Button>
+            ))}
+            <Button type="button" variant="outline" className="h-16 rounded-2xl" onClick={() => setCode("")}>
+              {COPY.clear}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="h-16 rounded-2xl text-2xl"
+              onClick={() => setCode((prev) => appendKioskPinDigit(prev, "0"))}
+            >
+              0
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="h-16 rounded-2xl"
+              aria-label={COPY.backspace}
+              onClick={() => setCode((prev) => prev.slice(0, -1))}
+            >
+              <Delete className="h-6 w-6" />
+            </Button>
+          </div>
+          <Button type="submit" className="h-14 w-full rounded-2xl text-lg" disabled={submitting || !code.trim()}>
+            {COPY.submit}
+          </Button>
+        </form>
+
+        {camera.supported ? (
+          <div className="flex w-full max-w-md flex-col items-center gap-3">
+            <video
+              ref={camera.videoRef}
+              muted
+              playsInline
+              className={camera.active ? "w-full rounded-2xl border border-slate-200" : "hidden"}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2 rounded-xl"
+              onClick={() => (camera.active ? camera.stop() : void camera.start())}
+            >
+              {camera.active ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+              {camera.active ? COPY.stopCamera : COPY.scanCamera}
+            </Button>
+            {camera.error ? <p className="text-center text-sm text-rose-700">{COPY.cameraFailed}</p> : null}
+          </div>
+        ) : null}
+      </main>
+    </div>
+  )
+}
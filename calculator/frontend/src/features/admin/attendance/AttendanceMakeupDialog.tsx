@@ -0,0 +1,282 @@
+import { useEffect, useState } from "react"
+import type { ChangeEvent } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+import { ATTENDANCE_MAKEUP_COPY as COPY } from "./attendanceMakeupCopy"
+import {
+  ATTENDANCE_MAKEUP_STATUS_LABELS,
+  ATTENDANCE_MAKEUP_STATUS_OPTIONS,
+  attendanceMakeupToForm,
+  buildAttendanceMakeupPayload,
+  createAttendanceMakeupForm,
+  formatAttendanceMakeupTarget,
+  type AttendanceMakeup,
+  type AttendanceMakeupForm,
+} from "./attendanceMakeupModel"
+
+export type AttendanceMakeupTarget = {
+  registrationId: string
+  name: string
+  course: string
+}
+
+type AttendanceMakeupDialogProps = {
+  target: AttendanceMakeupTarget | null
+  makeups: AttendanceMakeup[]
+  /** 보고 있는 달에서 보강을 잡지 않은 결석일 */
+  absenceDates: string[]
+  onClose: () => void
+  onChanged: () => Promise<void> | void
+}
+
+export default function AttendanceMakeupDialog({
+  target,
+  makeups,
+  absenceDates,
+  onClose,
+  onChanged,
+}: AttendanceMakeupDialogProps) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [form, setForm] = useState<AttendanceMakeupForm | null>(null)
+
+  useEffect(() => {
+    setForm(null)
+    setError("")
+  }, [target?.registrationId])
+
+  const updateForm = (patch: Partial<AttendanceMakeupForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const handleSave = async () => {
+    if (!form || saving) return
+    setSaving(true)
+    setError("")
+    try {
+      const payload = buildAttendanceMakeupPayload(form)
+      if (form.id) {
+        await apiClient.updateAttendanceMakeup(form.id, payload)
+      } else {
+        await apiClient.createAttendanceMakeup(payload)
+      }
+      await onChanged()
+      setForm(null)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (makeup: AttendanceMakeup) => {
+    if (!confirm(COPY.deleteConfirm)) return
+    setError("")
+    try {
+      await apiClient.deleteAttendanceMakeup(makeup.id)
+      await onChanged()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.deleteFailed)
+    }
+  }
+
+  const renderForm = (current: AttendanceMakeupForm) => (
+    <div className="space-y-3 rounded-lg border border-border/60 p-4">
+      <div className="text-sm font-medium">
+        {COPY.absenceDate} {current.absenceDate}
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1 sm:col-span-2">
+          <Label>{COPY.targetCourse}</Label>
+          <Input
+            value={current.targetCourse}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ targetCourse: e.target.value })}
+            placeholder={COPY.targetCoursePlaceholder}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.targetDate}</Label>
+          <Input
+            type="date"
+            min={current.absenceDate}
+            value={current.targetDate}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ targetDate: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.targetTime}</Label>
+          <Input type="time" value={current.targetTime} onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ targetTime: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.status}</Label>
+          <Select
+            value={current.status}
+            onValueChange={(value) => updateForm({ status: value as AttendanceMakeupForm["status"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATTENDANCE_MAKEUP_STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.memo}</Label>
+          <Input value={current.memo} maxLength={200} onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ memo: e.target.value })} />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={current.recordingSent}
+            onCheckedChange={(checked: boolean) => updateForm({ recordingSent: checked === true })}
+          />
+          {COPY.recordingSent}
+        </label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+            {current.id ? COPY.save : COPY.add}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog
+      open={Boolean(target)}
+      onOpenChange={(next) => {
+        if (!next) onClose()
+      }}
+    >
+      <DialogContent className="flex max-h-[85vh] max-w-2xl flex-col overflow-hidden p-0">
+        <DialogHeader className="border-b bg-muted/40 px-6 py-4 text-left">
+          <DialogTitle>
+            {COPY.title} · {target?.name} ({target?.course})
+          </DialogTitle>
+          <DialogDescription>{COPY.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          {form ? renderForm(form) : null}
+
+          <section className="space-y-2">
+            <div>
+              <h3 className="text-sm font-semibold">{COPY.absencesSection}</h3>
+              <p className="text-xs text-muted-foreground">{COPY.absencesHint}</p>
+            </div>
+            {absenceDates.length === 0 ? (
+              <div className="text-sm text-muted-foreground">{COPY.absencesEmpty}</div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {absenceDates.map((date) => (
+                  <Button
+                    key={date}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() => target && setForm(createAttendanceMakeupForm(target.registrationId, date))}
+                  >
+                    <Plus className="mr-1 h-3.5 w-3.5" />
+                    {date} {COPY.addMakeup}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">{COPY.makeupsSection}</h3>
+            <div className="rounded-lg border border-border/60">
+              {makeups.length === 0 ? (
+                <div className="px-3 py-6 text-sm text-muted-foreground">{COPY.makeupsEmpty}</div>
+              ) : (
+                makeups.map((makeup) => (
+                  <div
+                    key={makeup.id}
+                    className={`flex items-center justify-between gap-3 border-b border-border/60 px-3 py-2 text-sm last:border-b-0 ${makeup.outstanding ? "" : "opacity-60"}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">
+                          {COPY.absenceDate} {makeup.absenceDate}
+                        </span>
+                        <Badge variant={makeup.outstanding ? "default" : "secondary"}>
+                          {ATTENDANCE_MAKEUP_STATUS_LABELS[makeup.status]}
+                        </Badge>
+                        {makeup.recordingSent ? <Badge variant="outline">{COPY.recordingSentBadge}</Badge> : null}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatAttendanceMakeupTarget(makeup)}
+                        {makeup.memo ? ` · ${makeup.memo}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        title={COPY.edit}
+                        onClick={() => setForm(attendanceMakeupToForm(makeup))}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        title={COPY.delete}
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(makeup)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </section>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter className="border-t bg-muted/40 px-6 py-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {COPY.close}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,147 @@
+import { useState } from "react"
+import type { ChangeEvent } from "react"
+import { Lock, LockOpen, PenLine } from "lucide-react"
+
+import { ATTENDANCE_LOCK_REASON_MAX_LENGTH } from "@shared/attendanceLocks"
+
+import { apiClient } from "@/api-client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+import { ATTENDANCE_LOCK_COPY as COPY } from "./attendanceLockCopy"
+import { describeAttendanceMonthLock, type SavedAttendanceMonthLock } from "./attendanceLockModel"
+
+type AttendanceMonthLockBarProps = {
+  courseConfigSetName: string
+  month: string
+  lock: SavedAttendanceMonthLock | null
+  /** 마스터만 마감하고 해제한다 */
+  canManage: boolean
+  /** 마감 후 수정 권한 */
+  canOverride: boolean
+  overrideReason: string
+  onOverrideReasonChange: (reason: string) => void
+  onChanged: () => void
+}
+
+/** 출석부 위 마감 표시. 마감된 달은 사유를 입력해야 수정을 시작할 수 있다 */
+export default function AttendanceMonthLockBar({
+  courseConfigSetName,
+  month,
+  lock,
+  canManage,
+  canOverride,
+  overrideReason,
+  onOverrideReasonChange,
+  onChanged,
+}: AttendanceMonthLockBarProps) {
+  const [reasonDraft, setReasonDraft] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  if (!lock && !canManage) return null
+
+  const handleLock = async () => {
+    if (saving || !confirm(COPY.lockConfirm)) return
+    setSaving(true)
+    setError("")
+    try {
+      await apiClient.lockAttendanceMonth({ courseConfigSetName, month })
+      onChanged()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.lockFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUnlock = async () => {
+    if (!lock || saving || !confirm(COPY.unlockConfirm)) return
+    setSaving(true)
+    setError("")
+    try {
+      await apiClient.unlockAttendanceMonth(lock.id)
+      onOverrideReasonChange("")
+      onChanged()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.unlockFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startOverride = () => {
+    const reason = String(reasonDraft || "").trim()
+    if (!reason) return
+    onOverrideReasonChange(reason)
+    setReasonDraft(null)
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 border-b border-slate-200/60 bg-slate-50/80 px-6 py-3 text-sm">
+      {lock ? (
+        <>
+          <Badge variant="outline" className="gap-1 rounded-lg border-slate-300 bg-white text-slate-700">
+            <Lock className="h-3 w-3" />
+            {COPY.lockedBadge}
+          </Badge>
+          {overrideReason ? (
+            <span className="font-medium text-amber-700">
+              {COPY.overriding} · {overrideReason}
+            </span>
+          ) : (
+            <span className="text-slate-500">{COPY.lockedDescription}</span>
+          )}
+          <span className="text-xs text-slate-400">{describeAttendanceMonthLock(lock)}</span>
+        </>
+      ) : null}
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        {lock && canOverride && overrideReason ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => onOverrideReasonChange("")}>
+            {COPY.endOverride}
+          </Button>
+        ) : null}
+        {lock && canOverride && !overrideReason && reasonDraft === null ? (
+          <Button type="button" variant="outline" size="sm" onClick={() => setReasonDraft("")}>
+            <PenLine className="mr-2 h-4 w-4" />
+            {COPY.startOverride}
+          </Button>
+        ) : null}
+        {lock && canOverride && !overrideReason && reasonDraft !== null ? (
+          <>
+            <Input
+              value={reasonDraft}
+              maxLength={ATTENDANCE_LOCK_REASON_MAX_LENGTH}
+              placeholder={COPY.overrideReasonPlaceholder}
+              aria-label={COPY.overrideReason}
+              className="h-8 w-64"
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setReasonDraft(e.target.value)}
+            />
+            <Button type="button" size="sm" onClick={startOverride} disabled={!reasonDraft.trim()}>
+              {COPY.overrideStart}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setReasonDraft(null)}>
+              {COPY.cancel}
+            </Button>
+          </>
+        ) : null}
+        {canManage && lock ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleUnlock} disabled={saving}>
+            <LockOpen className="mr-2 h-4 w-4" />
+            {COPY.unlockMonth}
+          </Button>
+        ) : null}
+        {canManage && !lock ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleLock} disabled={saving}>
+            <Lock className="mr-2 h-4 w-4" />
+            {COPY.lockMonth}
+          </Button>
+        ) : null}
+      </div>
+
+      {error ? <div className="w-full text-sm text-destructive">{error}</div> : null}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { ChangeEvent } from "react"
+
+import { buildAttendanceStatsQueryParams } from "@shared/attendanceStats"
+import type { AttendanceStatusDefinition } from "@shared/attendanceStatuses"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+import AttendanceAlertBadges from "./AttendanceAlertBadges"
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import {
+  createDefaultAttendanceStatsPeriod,
+  formatAttendanceRate,
+  getAttendanceStatsColumns,
+  normalizeAttendanceStatsReport,
+  sortAttendanceStudentsByRate,
+  type AttendanceStatsReport,
+} from "./attendanceStatsModel"
+
+type AttendanceStatsDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  courseConfigSetName: string
+}
+
+function CountCells({
+  stats,
+  columns,
+}: {
+  stats: AttendanceStatsReport["courses"][number]["stats"]
+  columns: AttendanceStatusDefinition[]
+}) {
+  return (
+    <>
+      <TableCell className="text-right tabular-nums">{stats.total}</TableCell>
+      {columns.map((status) => (
+        <TableCell key={status.key} className="text-right tabular-nums">
+          {stats.counts[status.key] || 0}
+        </TableCell>
+      ))}
+      <TableCell className="text-right font-semibold tabular-nums">{formatAttendanceRate(stats.rate)}</TableCell>
+    </>
+  )
+}
+
+function CountHeads({ columns }: { columns: AttendanceStatusDefinition[] }) {
+  return (
+    <>
+      <TableHead className="text-right">{COPY.columnSessions}</TableHead>
+      {columns.map((status) => (
+        <TableHead key={status.key} className="text-right">
+          {status.label}
+        </TableHead>
+      ))}
+      <TableHead className="text-right">{COPY.columnRate}</TableHead>
+    </>
+  )
+}
+
+/** 기간별 과목·학생 출석률 */
+export default function AttendanceStatsDialog({
+  open,
+  onOpenChange,
+  courseConfigSetName,
+}: AttendanceStatsDialogProps) {
+  const [period, setPeriod] = useState(() => createDefaultAttendanceStatsPeriod())
+  const [report, setReport] = useState<AttendanceStatsReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  // 기간은 조회 버튼을 눌렀을 때만 반영한다
+  const periodRef = useRef(period)
+  periodRef.current = period
+
+  const load = useCallback(async () => {
+    if (!courseConfigSetName) return
+    setLoading(true)
+    try {
+      const res = await apiClient.getAttendanceStats(
+        buildAttendanceStatsQueryParams({ ...periodRef.current, courseConfigSetName })
+      )
+      setReport(normalizeAttendanceStatsReport(res))
+      setError("")
+    } catch (e: unknown) {
+      setReport(null)
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [courseConfigSetName])
+
+  useEffect(() => {
+    if (open) void load()
+  }, [open, load])
+
+  const students = report ? sortAttendanceStudentsByRate(report.results) : []
+  const courses = report ? report.courses.filter((course) => course.stats.total > 0) : []
+  const columns = report ? getAttendanceStatsColumns(report) : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[85vh] max-w-4xl flex-col overflow-hidden p-0">
+        <DialogHeader className="border-b bg-muted/40 px-6 py-4 text-left">
+          <DialogTitle>{COPY.statsTitle}</DialogTitle>
+          <DialogDescription>{COPY.statsDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>{COPY.periodFrom}</Label>
+              <Input
+                type="date"
+                value={period.from}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setPeriod((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>{COPY.periodTo}</Label>
+              <Input
+                type="date"
+                value={period.to}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setPeriod((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <Button type="button" onClick={() => void load()} disabled={loading}>
+              {COPY.apply}
+            </Button>
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : loading && !report ? (
+            <div className="text-sm text-muted-foreground">{COPY.loading}</div>
+          ) : !courses.length ? (
+            <div className="text-sm text-muted-foreground">{COPY.emptyStats}</div>
+          ) : (
+            <>
+              <section className="space-y-2">
+                <h4 className="text-sm font-bold text-slate-700">{COPY.courseSection}</h4>
+                <div className="overflow-x-auto rounded-xl border border-border/60">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{COPY.columnCourse}</TableHead>
+                        <TableHead className="text-right">{COPY.columnStudents}</TableHead>
+                        <TableHead className="text-right">{COPY.columnFlagged}</TableHead>
+                        <CountHeads columns={columns} />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {courses.map((course) => (
+                        <TableRow key={`${course.courseId}|${course.course}`}>
+                          <TableCell className="whitespace-nowrap">{course.course}</TableCell>
+                          <TableCell className="text-right tabular-nums">{course.students}</TableCell>
+                          <TableCell className="text-right tabular-nums">{course.flaggedStudents}</TableCell>
+                          <CountCells stats={course.stats} columns={columns} />
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-sm font-bold text-slate-700">{COPY.studentSection}</h4>
+                <div className="overflow-x-auto rounded-xl border border-border/60">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{COPY.columnStudent}</TableHead>
+                        <TableHead>{COPY.columnCourse}</TableHead>
+                        <CountHeads columns={columns} />
+                        <TableHead>{COPY.columnAlerts}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {students.map((entry) => (
+                        <TableRow key={entry.registrationId}>
+                          <TableCell className="whitespace-nowrap font-medium">{entry.name}</TableCell>
+                          <TableCell className="whitespace-nowrap text-muted-foreground">{entry.course}</TableCell>
+                          <CountCells stats={entry.stats} columns={columns} />
+                          <TableCell>
+                            <AttendanceAlertBadges entry={entry} showRate={false} />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
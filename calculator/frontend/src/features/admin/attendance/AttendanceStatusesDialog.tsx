@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useState } from "react"
+import type { ChangeEvent } from "react"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+
+import { ATTENDANCE_STATUS_MAX_SHORT_LABEL_LENGTH } from "@shared/attendanceStatuses"
+
+import { apiClient } from "@/api-client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+
+import { ATTENDANCE_STATUS_COPY as COPY } from "./attendanceStatusCopy"
+import {
+  ATTENDANCE_STATUS_COLOR_OPTIONS,
+  ATTENDANCE_STATUS_COLOR_STYLES,
+  attendanceStatusToForm,
+  buildAttendanceStatusPayload,
+  createEmptyAttendanceStatusForm,
+  describeAttendanceStatus,
+  normalizeAttendanceStatuses,
+  type AttendanceStatusForm,
+  type SavedAttendanceStatus,
+} from "./attendanceStatusModel"
+
+type AttendanceStatusesDialogProps = {
+  open: boolean
+  onClose: () => void
+  onChanged?: () => void
+}
+
+export default function AttendanceStatusesDialog({ open, onClose, onChanged }: AttendanceStatusesDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [statuses, setStatuses] = useState<SavedAttendanceStatus[]>([])
+  const [form, setForm] = useState<AttendanceStatusForm | null>(null)
+
+  const loadStatuses = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const res = await apiClient.listAttendanceStatuses()
+      setStatuses(normalizeAttendanceStatuses(res?.results))
+    } catch (e: unknown) {
+      setStatuses([])
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setForm(null)
+    void loadStatuses()
+  }, [open, loadStatuses])
+
+  const updateForm = (patch: Partial<AttendanceStatusForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const saveStatus = async (status: AttendanceStatusForm) => {
+    const payload = buildAttendanceStatusPayload(status)
+    if (status.id) {
+      await apiClient.updateAttendanceStatus(status.id, payload)
+    } else {
+      await apiClient.createAttendanceStatus(payload)
+    }
+    await loadStatuses()
+    onChanged?.()
+  }
+
+  const handleSave = async () => {
+    if (!form || saving) return
+    setSaving(true)
+    setError("")
+    try {
+      await saveStatus(form)
+      setForm(null)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (status: SavedAttendanceStatus) => {
+    setError("")
+    try {
+      await saveStatus({ ...attendanceStatusToForm(status), isActive: !status.isActive })
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    }
+  }
+
+  const handleDelete = async (status: SavedAttendanceStatus) => {
+    if (!confirm(`'${status.label}' ${COPY.deleteConfirmSuffix}`)) return
+    setError("")
+    try {
+      await apiClient.deleteAttendanceStatus(status.id)
+      await loadStatuses()
+      onChanged?.()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.deleteFailed)
+    }
+  }
+
+  const renderForm = (current: AttendanceStatusForm) => (
+    <div className="space-y-3 rounded-lg border border-border/60 p-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label>{COPY.key}</Label>
+          <Input
+            value={current.key}
+            disabled={Boolean(current.id)}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ key: e.target.value })}
+            placeholder={COPY.keyPlaceholder}
+          />
+          {!current.id ? <p className="text-xs text-muted-foreground">{COPY.keyHint}</p> : null}
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.label}</Label>
+          <Input
+            value={current.label}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ label: e.target.value })}
+            placeholder={COPY.labelPlaceholder}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.shortLabel}</Label>
+          <Input
+            value={current.shortLabel}
+            maxLength={ATTENDANCE_STATUS_MAX_SHORT_LABEL_LENGTH}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => updateForm({ shortLabel: e.target.value })}
+          />
+          <p className="text-xs text-muted-foreground">{COPY.shortLabelHint}</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label>{COPY.color}</Label>
+        <div className="flex flex-wrap gap-2">
+          {ATTENDANCE_STATUS_COLOR_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              title={option.label}
+              aria-label={option.label}
+              aria-pressed={current.color === option.value}
+              onClick={() => updateForm({ color: option.value })}
+              className={`h-7 w-7 rounded-full border-2 ${option.swatchClassName} ${
+                current.color === option.value ? "border-slate-800" : "border-white"
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {current.isSystem ? <p className="text-xs text-muted-foreground">{COPY.systemHint}</p> : null}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={current.countsAsAttended}
+              disabled={current.isSystem}
+              onCheckedChange={(checked: boolean) => updateForm({ countsAsAttended: checked })}
+            />
+            {COPY.countsAsAttended}
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch
+              checked={current.isActive}
+              disabled={current.isSystem}
+              onCheckedChange={(checked: boolean) => updateForm({ isActive: checked })}
+            />
+            {COPY.active}
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+            {current.id ? COPY.save : COPY.add}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) onClose()
+      }}
+    >
+      <DialogContent className="flex max-h-[85vh] max-w-2xl flex-col overflow-hidden p-0">
+        <DialogHeader className="border-b bg-muted/40 px-6 py-4 text-left">
+          <DialogTitle>{COPY.title}</DialogTitle>
+          <DialogDescription>{COPY.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          {form ? renderForm(form) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(createEmptyAttendanceStatusForm(statuses.length))}
+              disabled={loading}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {COPY.addStatus}
+            </Button>
+          )}
+
+          <div className="rounded-lg border border-border/60">
+            {loading ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">{COPY.loading}</div>
+            ) : statuses.length === 0 ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">{COPY.empty}</div>
+            ) : (
+              statuses.map((status) => (
+                <div
+                  key={status.id || status.key}
+                  className={`flex items-center justify-between gap-3 border-b border-border/60 px-3 py-2 text-sm last:border-b-0 ${status.isActive ? "" : "opacity-50"}`}
+                >
+                  <div className="flex min-w-0 items-center gap-3">
+                    <span
+                      className={`inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-lg border text-[10px] font-bold ${ATTENDANCE_STATUS_COLOR_STYLES[status.color].cellClassName}`}
+                    >
+                      {status.shortLabel}
+                    </span>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{status.label}</span>
+                        <span className="text-xs text-muted-foreground">{status.key}</span>
+                        {status.isSystem ? <Badge variant="secondary">{COPY.systemBadge}</Badge> : null}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{describeAttendanceStatus(status)}</div>
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch
+                      checked={status.isActive}
+                      disabled={status.isSystem || !status.id}
+                      onCheckedChange={() => handleToggleActive(status)}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title={COPY.edit}
+                      disabled={!status.id}
+                      onClick={() => setForm(attendanceStatusToForm(status))}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title={COPY.delete}
+                      disabled={status.isSystem || !status.id}
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(status)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter className="border-t bg-muted/40 px-6 py-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            {COPY.close}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
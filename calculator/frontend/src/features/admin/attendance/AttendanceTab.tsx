@@ -5,6 +5,7 @@ import type { AuthUser } from "@/auth-routing"
 
 import AttendanceBoard from "./AttendanceBoard"
 import AttendanceCourseBrowser from "./AttendanceCourseBrowser"
+import AttendanceFollowUpPanel from "./AttendanceFollowUpPanel"
 import AttendancePlaceholderState from "./AttendancePlaceholderState"
 import AttendanceTabHero from "./AttendanceTabHero"
 import { ATTENDANCE_TAB_COPY as COPY } from "./attendanceTabCopy"
@@ -14,6 +15,7 @@ import {
   groupTabsByStartTime,
 } from "./attendanceTabModel"
 import { useActiveChainRegistrations } from "./useActiveChainRegistrations"
+import { useAttendanceStatuses } from "./useAttendanceStatuses"
 import FiltersCard from "../registrations/FiltersCard"
 import { useRegistrations } from "../registrations/useRegistrations"
 import { getCourseDaysByName } from "../registrations/utils"
@@ -24,6 +26,7 @@ export default function AttendanceTab({ user, isActive }: { user: AuthUser | nul
   const wasActive = useRef(false)
 
   const todayDayOfWeek = useMemo(() => new Date().getDay(), [])
+  const { statuses, reload: reloadStatuses } = useAttendanceStatuses(isActive !== false)
 
   const {
     courseConfigSetLoading,
@@ -184,6 +187,15 @@ export default function AttendanceTab({ user, isActive }: { user: AuthUser | nul
         />
       </div>
 
+      {selectedCourseConfigSet ? (
+        <AttendanceFollowUpPanel
+          user={user}
+          courseConfigSetName={selectedCourseConfigSet}
+          isActive={isActive !== false}
+          onStatusesChanged={reloadStatuses}
+        />
+      ) : null}
+
       <AttendanceCourseBrowser
         variantTabs={variantTabs}
         filteredVariantTabs={filteredVariantTabs}
@@ -223,6 +235,9 @@ export default function AttendanceTab({ user, isActive }: { user: AuthUser | nul
         <AttendanceBoard
           registrations={attendanceRegistrations}
           getCourseDaysForCourse={resolveCourseDays}
+          statuses={statuses}
+          courseConfigSetName={selectedCourseConfigSet}
+          user={user}
         />
       )}
     </div>
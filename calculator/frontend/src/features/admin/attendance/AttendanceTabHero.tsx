@@ -1,7 +1,10 @@
-import { RefreshCw, Users } from "lucide-react"
+import { QrCode, RefreshCw, Users } from "lucide-react"
+import { Link } from "react-router-dom"
 
+import { ROUTES } from "@/auth-routing"
 import { Button } from "@/components/ui/button"
 
+import { ATTENDANCE_KIOSK_COPY } from "./attendanceKioskCopy"
 import { ATTENDANCE_TAB_COPY as COPY } from "./attendanceTabCopy"
 
 type AttendanceTabHeroProps = {
@@ -26,16 +29,28 @@ export default function AttendanceTabHero({
             <p className="text-sm text-slate-600">{COPY.subtitle}</p>
           </div>
         </div>
-        <Button
-          type="button"
-          variant="outline"
-          onClick={onRefresh}
-          disabled={loading}
-          className="gap-2 rounded-xl border-white/40 bg-white/60 shadow-sm backdrop-blur-sm transition-all hover:bg-white/80 hover:shadow-md"
-        >
-          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
-          {COPY.refresh}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            asChild
+            variant="outline"
+            className="gap-2 rounded-xl border-white/40 bg-white/60 shadow-sm backdrop-blur-sm transition-all hover:bg-white/80 hover:shadow-md"
+          >
+            <Link to={ROUTES.kiosk} target="_blank" rel="noopener">
+              <QrCode className="h-4 w-4" />
+              {ATTENDANCE_KIOSK_COPY.openKiosk}
+            </Link>
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onRefresh}
+            disabled={loading}
+            className="gap-2 rounded-xl border-white/40 bg-white/60 shadow-sm backdrop-blur-sm transition-all hover:bg-white/80 hover:shadow-md"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+            {COPY.refresh}
+          </Button>
+        </div>
       </div>
     </div>
   )
@@ -1,14 +1,6 @@
 export const ATTENDANCE_BOARD_COPY = {
   pending: "\uBBF8\uC785\uB825",
-  present: "\uCD9C\uC11D",
-  recorded: "\uB179\uD654\uAC15\uC758",
-  late: "\uC9C0\uAC01",
-  absent: "\uACB0\uC11D",
   pendingShort: "",
-  presentShort: "\uCD9C",
-  recordedShort: "\uB179",
-  lateShort: "\uC9C0",
-  absentShort: "\uACB0",
   noClass: "\uC218\uC5C5\uC5C6\uC74C",
   offDay: "\uB4F1\uB85D\uC548\uD568",
   hideInactive: "\uD1F4\uC6D0 \uD559\uC0DD \uC228\uAE30\uAE30",
@@ -24,4 +16,5 @@ export const ATTENDANCE_BOARD_COPY = {
   previousChainPrefix: "\u2190",
   previousStatusTitlePrefix: "\uC774\uC804 \uBC18",
   breakDayTitle: "\uD734\uAC15",
+  holdDay: "\uD734\uC6D0",
 } as const
@@ -25,6 +25,7 @@ describe("attendanceBoardModel", () => {
         courseDaySet: new Set([1, 3]),
         skipWeekSet: new Set(),
         breakDateSet: new Set(),
+        holdDateSet: new Set(),
         recordingDateSet: new Set(),
       },
       new Date("2026-03-10")
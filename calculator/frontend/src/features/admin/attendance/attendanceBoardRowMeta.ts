@@ -1,4 +1,5 @@
 import { format } from "date-fns"
+import { getHoldBreakRanges, normalizeRegistrationHolds } from "@shared/registrationHolds"
 
 import {
   ALL_WEEK_DAYS,
@@ -31,6 +32,8 @@ export function hasUpcomingClasses(
   const skipWeekSet = meta.skipWeekSet instanceof Set ? meta.skipWeekSet : new Set()
   const breakDateSet =
     meta.breakDateSet instanceof Set ? meta.breakDateSet : new Set()
+  const holdDateSet =
+    meta.holdDateSet instanceof Set ? meta.holdDateSet : new Set()
 
   const startCursor =
     meta.start.getTime() > todayStart.getTime() ? meta.start : todayStart
@@ -45,7 +48,8 @@ export function hasUpcomingClasses(
       const dateKey = format(cursor, "yyyy-MM-dd")
       if (
         !skipWeekSet.has(getWeekIndex(meta.start, cursor)) &&
-        !breakDateSet.has(dateKey)
+        !breakDateSet.has(dateKey) &&
+        !holdDateSet.has(dateKey)
       ) {
         return true
       }
@@ -79,6 +83,7 @@ export function buildAttendanceRowMetaMap(
     const breakRanges = Array.isArray(row?.breakRanges)
       ? (row.breakRanges as BreakRangeInput[])
       : []
+    const holds = normalizeRegistrationHolds(row?.holds)
     const paidWeeks = Number(row?.weeks) || Number(row?.period) || 0
     const rawSkipWeeks = Array.isArray(row?.skipWeeks) ? row.skipWeeks : []
     const withdrawnAt = parseDate(row?.withdrawnAt)
@@ -94,7 +99,7 @@ export function buildAttendanceRowMetaMap(
               skipWeeks: rawSkipWeeks,
               courseDays,
               endDayOfWeek: endDay,
-              breakRanges,
+              breakRanges: [...breakRanges, ...getHoldBreakRanges(holds)],
             }
             return getScheduleWeeks(scheduleInput)
           })()
@@ -128,6 +133,14 @@ export function buildAttendanceRowMetaMap(
       courseDays,
       breakRanges,
     })
+    const holdDateSet = holds.length
+      ? getBreakDateSet({
+          startDate: start,
+          endDate: end,
+          courseDays,
+          breakRanges: getHoldBreakRanges(holds, end ? format(end, "yyyy-MM-dd") : ""),
+        })
+      : new Set<string>()
 
     map.set(rowKey, {
       start,
@@ -140,6 +153,7 @@ export function buildAttendanceRowMetaMap(
       courseDaySet: new Set(courseDays),
       skipWeekSet: new Set(skipWeeks),
       breakDateSet,
+      holdDateSet,
       recordingDateSet,
     } satisfies AttendanceRowMeta)
 
@@ -1,79 +1,13 @@
+import type { AttendanceStatusDefinition } from "@shared/attendanceStatuses"
+
+import type { AuthUser } from "@/auth-routing"
+
 import { ATTENDANCE_BOARD_COPY as COPY } from "./attendanceBoardCopy"
 
 export const LABEL_WIDTH_PX = 240
 export const DAY_WIDTH_PX = 44
 export const ROW_HEIGHT_PX = 50
 
-export const STATUS_STYLES = [
-  {
-    key: "pending",
-    label: COPY.pending,
-    shortLabel: COPY.pendingShort,
-    className: "border-slate-300/80 bg-slate-50/80 text-slate-400 hover:bg-slate-100/80",
-    cellClassName:
-      "border-slate-300/60 bg-white/80 text-transparent border-2 border-dashed",
-  },
-  {
-    key: "present",
-    label: COPY.present,
-    shortLabel: COPY.presentShort,
-    className:
-      "border-emerald-300/80 bg-gradient-to-br from-emerald-50 to-green-50 text-emerald-600 shadow-sm shadow-emerald-500/10 hover:shadow-md hover:shadow-emerald-500/15",
-    cellClassName:
-      "border-emerald-300/80 bg-gradient-to-br from-emerald-100 to-green-100 text-emerald-700 shadow-sm shadow-emerald-500/20",
-  },
-  {
-    key: "recorded",
-    label: COPY.recorded,
-    shortLabel: COPY.recordedShort,
-    className:
-      "border-sky-300/80 bg-gradient-to-br from-sky-50 to-blue-50 text-sky-600 shadow-sm shadow-sky-500/10 hover:shadow-md hover:shadow-sky-500/15",
-    cellClassName:
-      "border-sky-300/80 bg-gradient-to-br from-sky-100 to-blue-100 text-sky-700 shadow-sm shadow-sky-500/20",
-  },
-  {
-    key: "late",
-    label: COPY.late,
-    shortLabel: COPY.lateShort,
-    className:
-      "border-amber-300/80 bg-gradient-to-br from-amber-50 to-yellow-50 text-amber-600 shadow-sm shadow-amber-500/10 hover:shadow-md hover:shadow-amber-500/15",
-    cellClassName:
-      "border-amber-300/80 bg-gradient-to-br from-amber-100 to-yellow-100 text-amber-700 shadow-sm shadow-amber-500/20",
-  },
-  {
-    key: "absent",
-    label: COPY.absent,
-    shortLabel: COPY.absentShort,
-    className:
-      "border-rose-300/80 bg-gradient-to-br from-rose-50 to-pink-50 text-rose-600 shadow-sm shadow-rose-500/10 hover:shadow-md hover:shadow-rose-500/15",
-    cellClassName:
-      "border-rose-300/80 bg-gradient-to-br from-rose-100 to-pink-100 text-rose-700 shadow-sm shadow-rose-500/20",
-  },
-] as const
-
-export type AttendanceStatus = (typeof STATUS_STYLES)[number]
-export type AttendanceStatusKey = AttendanceStatus["key"]
-
-export const STATUS_LOOKUP = STATUS_STYLES.reduce(
-  (acc, status) => {
-    acc[status.key as AttendanceStatusKey] = status
-    return acc
-  },
-  {} as Record<AttendanceStatusKey, AttendanceStatus>
-)
-
-export const PAINT_STATUS_ORDER: AttendanceStatusKey[] = [
-  "present",
-  "recorded",
-  "late",
-  "absent",
-  "pending",
-]
-
-export const PAINTABLE_STATUSES = PAINT_STATUS_ORDER.map(
-  (key) => STATUS_LOOKUP[key]
-).filter(Boolean)
-
 export const NO_CLASS_LABEL = "-"
 export const OFF_DAY_LABEL = COPY.offDay
 
@@ -86,6 +20,7 @@ export type AttendanceRow = {
   courseDays?: Array<number | string>
   courseEndDay?: number
   breakRanges?: unknown[]
+  holds?: unknown[]
   weeks?: number | string
   period?: number | string
   skipWeeks?: Array<number | string>
@@ -108,12 +43,19 @@ export type AttendanceRowMeta = {
   courseDaySet: Set<number>
   skipWeekSet: Set<number>
   breakDateSet: Set<string>
+  /** 휴원 중인 수업일 */
+  holdDateSet: Set<string>
   recordingDateSet: Set<string>
 }
 
 export type AttendanceBoardProps = {
   registrations?: AttendanceRow[]
   getCourseDaysForCourse?: (courseName?: string) => number[]
+  /** 출석 상태 정의. 없으면 기본 상태 */
+  statuses?: AttendanceStatusDefinition[]
+  /** 월 마감을 찾는 과목 설정 세트. 없으면 마감을 보지 않는다 */
+  courseConfigSetName?: string
+  user?: AuthUser | null
 }
 
 export type AttendanceCellMap = Record<string, Record<string, string>>
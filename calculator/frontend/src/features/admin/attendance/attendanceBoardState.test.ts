@@ -1,8 +1,10 @@
 import { describe, expect, it } from "vitest"
 
 import {
+  applyAttendanceNoteUpdates,
   applyAttendanceSocketUpdates,
   buildAttendanceCellMap,
+  buildAttendanceNoteMap,
   collectAttendanceRegistrationIds,
   updateAttendanceCellStatus,
 } from "./attendanceBoardState"
@@ -62,4 +64,25 @@ describe("attendanceBoardState", () => {
       },
     })
   })
+
+  it("keeps cell notes in step with records and socket updates", () => {
+    const notes = buildAttendanceNoteMap([
+      { registrationId: "reg-1", date: "2026-03-01", status: "absent", note: "병원" },
+      { registrationId: "reg-1", date: "2026-03-02", status: "present", note: "" },
+    ])
+    expect(notes).toEqual({ "reg-1": { "2026-03-01": "병원" } })
+
+    const applied = applyAttendanceNoteUpdates(
+      notes,
+      [
+        { registrationId: "reg-1", date: "2026-03-01", status: "pending" },
+        { registrationId: "reg-1", date: "2026-03-02", status: "late", note: "버스 지연" },
+        { registrationId: "reg-1", date: "2026-03-03", status: "present" },
+        { registrationId: "reg-2", date: "2026-03-02", status: "late", note: "다른 반" },
+      ],
+      new Set(["reg-1"]),
+      "2026-03"
+    )
+    expect(applied).toEqual({ "reg-1": { "2026-03-02": "버스 지연" } })
+  })
 })
@@ -9,6 +9,8 @@ type AttendanceRecordPayload = {
   registrationId?: string | number
   date?: string
   status?: string
+  /** 소켓 갱신에서 없으면 사유는 그대로 */
+  note?: string
 }
 
 export function collectAttendanceRegistrationIds(rows: AttendanceBoardStateRow[]) {
@@ -41,6 +43,39 @@ export function buildAttendanceCellMap(records: AttendanceRecordPayload[]) {
   return next
 }
 
+/** 사유가 있는 칸만 담는다 */
+export function buildAttendanceNoteMap(records: AttendanceRecordPayload[]) {
+  const next: AttendanceCellMap = {}
+
+  for (const record of records || []) {
+    const registrationId = String(record?.registrationId || "").trim()
+    const date = String(record?.date || "").trim()
+    const note = String(record?.note || "").trim()
+    if (!registrationId || !date || !note) continue
+    if (!next[registrationId]) next[registrationId] = {}
+    next[registrationId][date] = note
+  }
+
+  return next
+}
+
+/** 빈 사유는 칸에서 지운다 */
+export function updateAttendanceCellNote(
+  prev: AttendanceCellMap,
+  rowKey: string,
+  dateKey: string,
+  note: string
+) {
+  const rowNotes = prev[rowKey] || {}
+  const existing = rowNotes[dateKey] || ""
+  if (existing === note) return prev
+
+  const updatedRow = { ...rowNotes }
+  if (note) updatedRow[dateKey] = note
+  else delete updatedRow[dateKey]
+  return { ...prev, [rowKey]: updatedRow }
+}
+
 export function updateAttendanceCellStatus(
   prev: AttendanceCellMap,
   rowKey: string,
@@ -96,3 +131,31 @@ export function applyAttendanceSocketUpdates(
 
   return next
 }
+
+/** pending이면 기록과 함께 사유도 지워지고, note가 온 갱신만 사유를 바꾼다 */
+export function applyAttendanceNoteUpdates(
+  prev: AttendanceCellMap,
+  updates: AttendanceRecordPayload[],
+  registrationIdSet: Set<string>,
+  monthKey: string
+) {
+  if (!Array.isArray(updates) || updates.length === 0) return prev
+
+  let next = prev
+  for (const update of updates) {
+    const registrationId = String(update?.registrationId || "").trim()
+    const dateKey = String(update?.date || "").trim()
+    const status = String(update?.status || "").trim()
+    if (!registrationId || !dateKey || !status) continue
+    if (!registrationIdSet.has(registrationId)) continue
+    if (monthKey && !dateKey.startsWith(monthKey)) continue
+
+    if (status === "pending") {
+      next = updateAttendanceCellNote(next, registrationId, dateKey, "")
+    } else if (update.note !== undefined) {
+      next = updateAttendanceCellNote(next, registrationId, dateKey, String(update.note || "").trim())
+    }
+  }
+
+  return next
+}
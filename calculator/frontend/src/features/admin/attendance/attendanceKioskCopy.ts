@@ -0,0 +1,25 @@
+export const ATTENDANCE_KIOSK_COPY = {
+  title: "\uCD9C\uC11D \uCCB4\uD06C\uC778",
+  subtitle: "QR \uCF54\uB4DC\uB97C \uC2A4\uCE94\uD558\uAC70\uB098 PIN 6\uC790\uB9AC\uB97C \uC785\uB825\uD558\uC138\uC694",
+  pinPlaceholder: "PIN \uB610\uB294 QR",
+  submit: "\uCCB4\uD06C\uC778",
+  clear: "\uC9C0\uC6B0\uAE30",
+  backspace: "\uD55C \uCE78 \uC9C0\uC6B0\uAE30",
+  scanCamera: "\uCE74\uBA54\uB77C\uB85C QR \uC2A4\uCE94",
+  stopCamera: "\uCE74\uBA54\uB77C \uB044\uAE30",
+  cameraFailed: "\uCE74\uBA54\uB77C\uB97C \uC5F4 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4. PIN\uC744 \uC785\uB825\uD558\uAC70\uB098 \uC2A4\uCE90\uB108\uB97C \uC0AC\uC6A9\uD574 \uC8FC\uC138\uC694.",
+  settings: "\uC124\uC815",
+  graceMinutes: "\uC9C0\uAC01 \uC720\uC608 \uC2DC\uAC04(\uBD84)",
+  graceHelp: "\uC218\uC5C5 \uC2DC\uC791 \uD6C4 \uC774 \uC2DC\uAC04\uC774 \uC9C0\uB098 \uCCB4\uD06C\uC778\uD558\uBA74 \uC9C0\uAC01\uC73C\uB85C \uAE30\uB85D\uD569\uB2C8\uB2E4.",
+  exit: "\uAD00\uB9AC\uC790 \uD654\uBA74\uC73C\uB85C",
+  processing: "\uD655\uC778\uD558\uB294 \uC911...",
+  checkInFailed: "\uCCB4\uD06C\uC778\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  studentSuffix: "\uD559\uC0DD",
+  statusPresent: "\uCD9C\uC11D",
+  statusLate: "\uC9C0\uAC01",
+  statusRecorded: "\uB179\uD654\uAC15\uC758",
+  alreadyCheckedIn: "\uC774\uBBF8 \uCCB4\uD06C\uC778\uD588\uC2B5\uB2C8\uB2E4",
+  checkedInAt: "\uCCB4\uD06C\uC778 \uC2DC\uAC01",
+  startTime: "\uC218\uC5C5 \uC2DC\uC791",
+  openKiosk: "\uCCB4\uD06C\uC778 \uD0A4\uC624\uC2A4\uD06C",
+} as const
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+
+import { DEFAULT_CHECK_IN_GRACE_MINUTES } from "@shared/attendanceCheckIn"
+
+import {
+  appendKioskPinDigit,
+  formatKioskStatus,
+  getKioskResultTone,
+  normalizeKioskCheckInResult,
+  parseKioskSettings,
+} from "./attendanceKioskModel"
+
+describe("attendanceKioskModel", () => {
+  it("reads saved kiosk settings and falls back to the default grace period", () => {
+    expect(parseKioskSettings('{"graceMinutes":15}')).toEqual({ graceMinutes: 15 })
+    expect(parseKioskSettings('{"graceMinutes":999}')).toEqual({ graceMinutes: DEFAULT_CHECK_IN_GRACE_MINUTES })
+    expect(parseKioskSettings("not json")).toEqual({ graceMinutes: DEFAULT_CHECK_IN_GRACE_MINUTES })
+    expect(parseKioskSettings(null)).toEqual({ graceMinutes: DEFAULT_CHECK_IN_GRACE_MINUTES })
+  })
+
+  it("limits keypad input to six digits", () => {
+    expect(appendKioskPinDigit("12345", "6")).toBe("123456")
+    expect(appendKioskPinDigit("123456", "7")).toBe("123456")
+    expect(appendKioskPinDigit("12", "a")).toBe("12")
+  })
+
+  it("normalizes check-in responses", () => {
+    const result = normalizeKioskCheckInResult({
+      student: { id: "s1", name: " 홍길동 " },
+      checkedInAt: "09:12",
+      results: [
+        { registrationId: "r1", course: "Calculus AB (오전반)", startTime: "09:00", status: "late", alreadyCheckedIn: false },
+        { course: "no id" },
+      ],
+    })
+    expect(result.studentName).toBe("홍길동")
+    expect(result.results).toHaveLength(1)
+    expect(formatKioskStatus(result.results[0])).toBe("지각")
+    expect(getKioskResultTone(result)).toBe("late")
+  })
+
+  it("shows repeated check-ins as already done", () => {
+    const entry = { registrationId: "r1", course: "Psychology", startTime: "", status: "present", alreadyCheckedIn: true }
+    expect(formatKioskStatus(entry)).toBe("이미 체크인했습니다 (출석)")
+    expect(getKioskResultTone({ studentName: "홍길동", checkedInAt: "10:00", results: [entry] })).toBe("muted")
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  CHECK_IN_PIN_LENGTH,
+  DEFAULT_CHECK_IN_GRACE_MINUTES,
+  parseCheckInGraceMinutes,
+} from "@shared/attendanceCheckIn"
+
+import { ATTENDANCE_KIOSK_COPY as COPY } from "./attendanceKioskCopy"
+
+export const KIOSK_SETTINGS_STORAGE_KEY = "attendanceKiosk.settings"
+
+/** 체크인 결과를 화면에 남겨 두는 시간 */
+export const KIOSK_RESULT_DISPLAY_MS = 4000
+
+export type KioskSettings = {
+  graceMinutes: number
+}
+
+export type KioskCheckInEntry = {
+  registrationId: string
+  course: string
+  startTime: string
+  status: string
+  alreadyCheckedIn: boolean
+}
+
+export type KioskCheckInResult = {
+  studentName: string
+  checkedInAt: string
+  results: KioskCheckInEntry[]
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  present: COPY.statusPresent,
+  late: COPY.statusLate,
+  recorded: COPY.statusRecorded,
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+export function parseKioskSettings(raw: string | null): KioskSettings {
+  try {
+    const parsed = JSON.parse(raw || "{}") as Record<string, unknown>
+    const grace = parseCheckInGraceMinutes(parsed?.graceMinutes)
+    return { graceMinutes: grace.error ? DEFAULT_CHECK_IN_GRACE_MINUTES : grace.value }
+  } catch {
+    return { graceMinutes: DEFAULT_CHECK_IN_GRACE_MINUTES }
+  }
+}
+
+export function normalizeKioskCheckInResult(value: unknown): KioskCheckInResult {
+  const raw = (value || {}) as Record<string, unknown>
+  const student = (raw.student || {}) as Record<string, unknown>
+  const results = Array.isArray(raw.results) ? (raw.results as Array<Record<string, unknown>>) : []
+  return {
+    studentName: toText(student.name),
+    checkedInAt: toText(raw.checkedInAt),
+    results: results
+      .map((row) => ({
+        registrationId: toText(row?.registrationId),
+        course: toText(row?.course),
+        startTime: toText(row?.startTime),
+        status: toText(row?.status),
+        alreadyCheckedIn: row?.alreadyCheckedIn === true,
+      }))
+      .filter((row) => row.registrationId),
+  }
+}
+
+export function formatKioskStatus(entry: KioskCheckInEntry) {
+  const label = STATUS_LABELS[entry.status] || entry.status
+  return entry.alreadyCheckedIn ? `${COPY.alreadyCheckedIn} (${label})` : label
+}
+
+/** 키패드 입력. 숫자만 PIN 길이까지 받는다 */
+export function appendKioskPinDigit(current: string, digit: string) {
+  if (!/^\d$/.test(digit) || !/^\d*$/.test(current)) return current
+  return current.length >= CHECK_IN_PIN_LENGTH ? current : `${current}${digit}`
+}
+
+/** 결과 카드 색. 지각이 하나라도 있으면 지각 */
+export function getKioskResultTone(result: KioskCheckInResult) {
+  const fresh = result.results.filter((entry) => !entry.alreadyCheckedIn)
+  if (!fresh.length) return "muted"
+  return fresh.some((entry) => entry.status === "late") ? "late" : "present"
+}
@@ -0,0 +1,18 @@
+export const ATTENDANCE_LOCK_COPY = {
+  lockedBadge: "\uB9C8\uAC10\uB428",
+  lockedDescription: "\uC774 \uB2EC \uCD9C\uC11D\uC740 \uB9C8\uAC10\uB418\uC5B4 \uC77D\uAE30 \uC804\uC6A9\uC785\uB2C8\uB2E4.",
+  lockedByPrefix: "\uB9C8\uAC10:",
+  lockMonth: "\uC774 \uB2EC \uB9C8\uAC10",
+  unlockMonth: "\uB9C8\uAC10 \uD574\uC81C",
+  lockConfirm: "\uC774 \uB2EC \uCD9C\uC11D\uC744 \uB9C8\uAC10\uD560\uAE4C\uC694? \uB9C8\uAC10\uD558\uBA74 \uB9C8\uAC10 \uD6C4 \uC218\uC815 \uAD8C\uD55C\uC774 \uC788\uB294 \uC0AC\uB78C\uB9CC \uC0AC\uC720\uB97C \uB0A8\uAE30\uACE0 \uACE0\uCE60 \uC218 \uC788\uC2B5\uB2C8\uB2E4.",
+  unlockConfirm: "\uC774 \uB2EC \uCD9C\uC11D \uB9C8\uAC10\uC744 \uD574\uC81C\uD560\uAE4C\uC694?",
+  lockFailed: "\uCD9C\uC11D \uB9C8\uAC10\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  unlockFailed: "\uCD9C\uC11D \uB9C8\uAC10 \uD574\uC81C\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  startOverride: "\uC0AC\uC720 \uC785\uB825 \uD6C4 \uC218\uC815",
+  overrideReason: "\uC218\uC815 \uC0AC\uC720",
+  overrideReasonPlaceholder: "\uC608: \uAE09\uC5EC \uC815\uC0B0 \uC804 \uC9C0\uAC01 \uAE30\uB85D \uC815\uC815",
+  overrideStart: "\uC218\uC815 \uC2DC\uC791",
+  overriding: "\uB9C8\uAC10 \uD6C4 \uC218\uC815 \uC911",
+  endOverride: "\uC218\uC815 \uB05D\uB0B4\uAE30",
+  cancel: "\uCDE8\uC18C",
+} as const
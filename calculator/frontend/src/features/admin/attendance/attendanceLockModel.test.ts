@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  describeAttendanceMonthLock,
+  findAttendanceMonthLock,
+  isAttendanceBoardReadOnly,
+  normalizeAttendanceLocks,
+} from "./attendanceLockModel"
+
+const locks = normalizeAttendanceLocks([
+  { id: "l1", courseConfigSetName: "2026 겨울", month: "2026-10", lockedBy: "master", createdAt: "2026-11-02T09:00:00.000Z" },
+  { id: "l2", courseConfigSetName: "2026 겨울", month: "2026-09" },
+  { id: "", courseConfigSetName: "2026 겨울", month: "2026-08" },
+  null,
+])
+
+describe("normalizeAttendanceLocks", () => {
+  it("drops rows without an id, set name or month", () => {
+    expect(locks.map((lock) => lock.id)).toEqual(["l1", "l2"])
+    expect(locks[1]).toEqual({ id: "l2", courseConfigSetName: "2026 겨울", month: "2026-09", lockedBy: "", createdAt: "" })
+  })
+})
+
+describe("findAttendanceMonthLock", () => {
+  it("finds the lock for the set and month", () => {
+    expect(findAttendanceMonthLock(locks, "2026 겨울", "2026-10")?.id).toBe("l1")
+    expect(findAttendanceMonthLock(locks, "2026 여름", "2026-10")).toBeNull()
+  })
+})
+
+describe("isAttendanceBoardReadOnly", () => {
+  it("is read-only for a locked month until an override reason is entered", () => {
+    expect(isAttendanceBoardReadOnly(null, "")).toBe(false)
+    expect(isAttendanceBoardReadOnly(locks[0], "")).toBe(true)
+    expect(isAttendanceBoardReadOnly(locks[0], "  ")).toBe(true)
+    expect(isAttendanceBoardReadOnly(locks[0], "지각 기록 정정")).toBe(false)
+  })
+})
+
+describe("describeAttendanceMonthLock", () => {
+  it("shows who locked the month and when", () => {
+    expect(describeAttendanceMonthLock(locks[0])).toBe("마감: master · 2026-11-02")
+    expect(describeAttendanceMonthLock(locks[1])).toBe("")
+  })
+})
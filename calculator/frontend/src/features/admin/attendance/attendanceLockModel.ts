@@ -0,0 +1,45 @@
+import type { AttendanceMonthLock } from "@shared/attendanceLocks"
+
+import { ATTENDANCE_LOCK_COPY as COPY } from "./attendanceLockCopy"
+
+export type SavedAttendanceMonthLock = AttendanceMonthLock & {
+  id: string
+  lockedBy: string
+  createdAt: string
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+export function normalizeAttendanceLocks(value: unknown): SavedAttendanceMonthLock[] {
+  const rows = Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []
+  return rows
+    .filter((row) => toText(row?.id) && toText(row?.courseConfigSetName) && toText(row?.month))
+    .map((row) => ({
+      id: toText(row.id),
+      courseConfigSetName: toText(row.courseConfigSetName),
+      month: toText(row.month),
+      lockedBy: toText(row.lockedBy),
+      createdAt: toText(row.createdAt),
+    }))
+}
+
+export function findAttendanceMonthLock(
+  locks: SavedAttendanceMonthLock[],
+  courseConfigSetName: string,
+  month: string
+) {
+  return locks.find((lock) => lock.courseConfigSetName === courseConfigSetName && lock.month === month) || null
+}
+
+/** 마감된 달은 사유를 입력하고 수정을 시작하기 전까지 읽기 전용이다 */
+export function isAttendanceBoardReadOnly(lock: SavedAttendanceMonthLock | null, overrideReason: string) {
+  return Boolean(lock) && !overrideReason.trim()
+}
+
+/** "마감: 홍길동 · 2026-11-02" */
+export function describeAttendanceMonthLock(lock: SavedAttendanceMonthLock) {
+  const detail = [lock.lockedBy, lock.createdAt.slice(0, 10)].filter(Boolean).join(" · ")
+  return detail ? `${COPY.lockedByPrefix} ${detail}` : ""
+}
@@ -0,0 +1,37 @@
+export const ATTENDANCE_MAKEUP_COPY = {
+  title: "\uBCF4\uAC15 \uAD00\uB9AC",
+  description: "\uACB0\uC11D\uD55C \uC218\uC5C5\uC5D0 \uBCF4\uAC15\uC744 \uC7A1\uAC70\uB098 \uB179\uD654\uBCF8\uC73C\uB85C \uB300\uC2E0\uD55C \uAC83\uC744 \uAE30\uB85D\uD569\uB2C8\uB2E4.",
+  badge: "\uBCF4\uAC15",
+  badgeNeeded: "\uBCF4\uAC15 \uD544\uC694",
+  badgeTitle: "\uB0A8\uC740 \uBCF4\uAC15 / \uBCF4\uAC15\uC744 \uC7A1\uC9C0 \uC54A\uC740 \uACB0\uC11D",
+  absencesSection: "\uBCF4\uAC15\uC744 \uC7A1\uC9C0 \uC54A\uC740 \uACB0\uC11D",
+  absencesHint: "\uBCF4\uACE0 \uC788\uB294 \uB2EC \uCD9C\uC11D\uBD80\uC5D0\uC11C \uACB0\uC11D\uC73C\uB85C \uCE60\uD55C \uC218\uC5C5\uC785\uB2C8\uB2E4.",
+  absencesEmpty: "\uBCF4\uAC15\uC744 \uC7A1\uC744 \uACB0\uC11D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4",
+  makeupsSection: "\uBCF4\uAC15",
+  makeupsEmpty: "\uC7A1\uD78C \uBCF4\uAC15\uC774 \uC5C6\uC2B5\uB2C8\uB2E4",
+  addMakeup: "\uBCF4\uAC15 \uC7A1\uAE30",
+  absenceDate: "\uACB0\uC11D\uC77C",
+  targetCourse: "\uBCF4\uAC15 \uC218\uC5C5",
+  targetCoursePlaceholder: "\uBE44\uC6B0\uBA74 \uC6D0\uB798 \uC218\uC5C5",
+  targetDate: "\uBCF4\uAC15 \uB0A0\uC9DC",
+  targetTime: "\uBCF4\uAC15 \uC2DC\uAC04",
+  status: "\uC0C1\uD0DC",
+  statusScheduled: "\uC608\uC815",
+  statusAttended: "\uBCF4\uAC15 \uC644\uB8CC",
+  statusWaived: "\uBA74\uC81C",
+  recordingSent: "\uB179\uD654\uBCF8\uC73C\uB85C \uB300\uC2E0\uD568",
+  recordingSentBadge: "\uB179\uD654\uBCF8 \uBC1C\uC1A1",
+  memo: "\uBA54\uBAA8",
+  dateUndecided: "\uB0A0\uC9DC \uBBF8\uC815",
+  cellMakeupTitle: "\uBCF4\uAC15",
+  save: "\uC800\uC7A5",
+  add: "\uCD94\uAC00",
+  cancel: "\uCDE8\uC18C",
+  edit: "\uC218\uC815",
+  delete: "\uC0AD\uC81C",
+  close: "\uB2EB\uAE30",
+  deleteConfirm: "\uC774 \uBCF4\uAC15\uC744 \uC0AD\uC81C\uD560\uAE4C\uC694?",
+  saveFailed: "\uBCF4\uAC15\uC744 \uC800\uC7A5\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  deleteFailed: "\uBCF4\uAC15\uC744 \uC0AD\uC81C\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  calendarPrefix: "\uBCF4\uAC15",
+} as const
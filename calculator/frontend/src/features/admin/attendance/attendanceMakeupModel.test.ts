@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildAttendanceMakeupEventTitle,
+  buildAttendanceMakeupMap,
+  buildAttendanceMakeupPayload,
+  createAttendanceMakeupForm,
+  formatAttendanceMakeupTarget,
+  getUnscheduledAbsenceDates,
+  normalizeAttendanceMakeups,
+} from "./attendanceMakeupModel"
+
+const rows = normalizeAttendanceMakeups([
+  {
+    id: "m2",
+    registrationId: "r1",
+    name: "김민수",
+    course: "중등수학 A",
+    absenceDate: "2026-10-14",
+    targetDate: "2026-10-20",
+    targetTime: "18:00",
+    status: "scheduled",
+    recordingSent: false,
+  },
+  {
+    id: "m1",
+    registrationId: "r1",
+    name: "김민수",
+    course: "중등수학 A",
+    absenceDate: "2026-10-07",
+    targetCourse: "중등수학 B",
+    status: "scheduled",
+    recordingSent: true,
+  },
+  { id: "", registrationId: "r2" },
+  { id: "m3", registrationId: "r2", status: "unknown" },
+])
+
+describe("normalizeAttendanceMakeups", () => {
+  it("drops rows without ids and recomputes outstanding", () => {
+    expect(rows.map((row) => row.id)).toEqual(["m2", "m1", "m3"])
+    expect(rows.map((row) => row.outstanding)).toEqual([true, false, true])
+    expect(rows[2].status).toBe("scheduled")
+  })
+})
+
+describe("buildAttendanceMakeupMap", () => {
+  it("groups by registration ordered by absence date", () => {
+    const map = buildAttendanceMakeupMap(rows)
+    expect(map.get("r1")?.map((row) => row.id)).toEqual(["m1", "m2"])
+    expect(map.get("r2")?.length).toBe(1)
+  })
+})
+
+describe("getUnscheduledAbsenceDates", () => {
+  const missed = new Set(["absent", "excused"])
+
+  it("lists missed cells without a makeup", () => {
+    const rowStatus = {
+      "2026-10-07": "absent",
+      "2026-10-21": "absent",
+      "2026-10-14": "absent",
+      "2026-10-16": "present",
+      "2026-10-02": "absent",
+      "2026-10-23": "excused",
+    }
+    expect(getUnscheduledAbsenceDates(rowStatus, rows, missed)).toEqual(["2026-10-02", "2026-10-21", "2026-10-23"])
+    expect(getUnscheduledAbsenceDates(undefined, rows, missed)).toEqual([])
+  })
+})
+
+describe("buildAttendanceMakeupPayload", () => {
+  it("sends the absence only when creating", () => {
+    const form = { ...createAttendanceMakeupForm("r1", "2026-10-21"), targetCourse: " 중등수학 B ", memo: " 전화함 " }
+    expect(buildAttendanceMakeupPayload(form)).toEqual({
+      registrationId: "r1",
+      date: "2026-10-21",
+      targetCourse: "중등수학 B",
+      targetDate: "",
+      targetTime: "",
+      status: "scheduled",
+      recordingSent: false,
+      memo: "전화함",
+    })
+    expect(buildAttendanceMakeupPayload({ ...form, id: "m9" })).not.toHaveProperty("date")
+  })
+})
+
+describe("makeup labels", () => {
+  it("formats the target session", () => {
+    expect(formatAttendanceMakeupTarget(rows[0])).toBe("2026-10-20 18:00")
+    expect(formatAttendanceMakeupTarget(rows[1])).toBe("날짜 미정 · 중등수학 B")
+  })
+
+  it("builds the calendar title", () => {
+    expect(buildAttendanceMakeupEventTitle(rows[0])).toBe("보강 18:00 김민수 (중등수학 A)")
+    expect(buildAttendanceMakeupEventTitle(rows[1])).toBe("보강 김민수 (중등수학 B)")
+  })
+})
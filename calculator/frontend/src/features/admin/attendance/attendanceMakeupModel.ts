@@ -0,0 +1,165 @@
+import {
+  ATTENDANCE_MAKEUP_STATUSES,
+  isAttendanceMakeupOutstanding,
+  isAttendanceMakeupStatus,
+  type AttendanceMakeupStatus,
+} from "@shared/attendanceMakeups"
+
+import { ATTENDANCE_MAKEUP_COPY as COPY } from "./attendanceMakeupCopy"
+
+export type AttendanceMakeup = {
+  id: string
+  registrationId: string
+  name: string
+  course: string
+  absenceDate: string
+  targetCourse: string
+  targetCourseId: string
+  /** 날짜 미정이면 빈 문자열 */
+  targetDate: string
+  targetTime: string
+  status: AttendanceMakeupStatus
+  recordingSent: boolean
+  outstanding: boolean
+  memo: string
+}
+
+export type AttendanceMakeupForm = {
+  id: string
+  registrationId: string
+  absenceDate: string
+  targetCourse: string
+  targetDate: string
+  targetTime: string
+  status: AttendanceMakeupStatus
+  recordingSent: boolean
+  memo: string
+}
+
+export const ATTENDANCE_MAKEUP_STATUS_LABELS: Record<AttendanceMakeupStatus, string> = {
+  scheduled: COPY.statusScheduled,
+  attended: COPY.statusAttended,
+  waived: COPY.statusWaived,
+}
+
+export const ATTENDANCE_MAKEUP_STATUS_OPTIONS = ATTENDANCE_MAKEUP_STATUSES.map((status) => ({
+  value: status,
+  label: ATTENDANCE_MAKEUP_STATUS_LABELS[status],
+}))
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+export function normalizeAttendanceMakeups(value: unknown): AttendanceMakeup[] {
+  const rows = Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []
+  return rows
+    .filter((row) => toText(row?.id) && toText(row?.registrationId))
+    .map((row) => {
+      const status = isAttendanceMakeupStatus(row.status) ? row.status : "scheduled"
+      const recordingSent = row.recordingSent === true
+      return {
+        id: toText(row.id),
+        registrationId: toText(row.registrationId),
+        name: toText(row.name),
+        course: toText(row.course),
+        absenceDate: toText(row.absenceDate),
+        targetCourse: toText(row.targetCourse),
+        targetCourseId: toText(row.targetCourseId),
+        targetDate: toText(row.targetDate),
+        targetTime: toText(row.targetTime),
+        status,
+        recordingSent,
+        outstanding: isAttendanceMakeupOutstanding({ status, recordingSent }),
+        memo: toText(row.memo),
+      }
+    })
+}
+
+/** 등록 ID별 보강. 결석일 순 */
+export function buildAttendanceMakeupMap(makeups: AttendanceMakeup[]) {
+  const map = new Map<string, AttendanceMakeup[]>()
+  for (const makeup of makeups) {
+    const list = map.get(makeup.registrationId) || []
+    list.push(makeup)
+    map.set(makeup.registrationId, list)
+  }
+  for (const list of map.values()) {
+    list.sort((a, b) => a.absenceDate.localeCompare(b.absenceDate))
+  }
+  return map
+}
+
+/** 출석부 한 줄에서 결석으로 세는 상태로 칠했지만 보강이 없는 날짜 */
+export function getUnscheduledAbsenceDates(
+  rowStatus: Record<string, string> | undefined,
+  makeups: AttendanceMakeup[],
+  missedStatuses: Set<string>
+) {
+  const scheduled = new Set(makeups.map((makeup) => makeup.absenceDate))
+  return Object.entries(rowStatus || {})
+    .filter(([date, status]) => missedStatuses.has(status) && !scheduled.has(date))
+    .map(([date]) => date)
+    .sort()
+}
+
+export function createAttendanceMakeupForm(registrationId: string, absenceDate: string): AttendanceMakeupForm {
+  return {
+    id: "",
+    registrationId,
+    absenceDate,
+    targetCourse: "",
+    targetDate: "",
+    targetTime: "",
+    status: "scheduled",
+    recordingSent: false,
+    memo: "",
+  }
+}
+
+export function attendanceMakeupToForm(makeup: AttendanceMakeup): AttendanceMakeupForm {
+  return {
+    id: makeup.id,
+    registrationId: makeup.registrationId,
+    absenceDate: makeup.absenceDate,
+    targetCourse: makeup.targetCourse,
+    targetDate: makeup.targetDate,
+    targetTime: makeup.targetTime,
+    status: makeup.status,
+    recordingSent: makeup.recordingSent,
+    memo: makeup.memo,
+  }
+}
+
+/** 새 보강은 결석한 수업(registrationId + date)을 같이 보낸다 */
+export function buildAttendanceMakeupPayload(form: AttendanceMakeupForm) {
+  const payload: Record<string, unknown> = {
+    targetCourse: form.targetCourse.trim(),
+    targetDate: form.targetDate,
+    targetTime: form.targetTime,
+    status: form.status,
+    recordingSent: form.recordingSent,
+    memo: form.memo.trim(),
+  }
+  if (!form.id) {
+    payload.registrationId = form.registrationId
+    payload.date = form.absenceDate
+  }
+  return payload
+}
+
+/** "2026-10-21 18:00 · 과목" — 날짜가 없으면 "날짜 미정" */
+export function formatAttendanceMakeupTarget(makeup: Pick<AttendanceMakeup, "targetDate" | "targetTime" | "targetCourse">) {
+  const when = makeup.targetDate
+    ? [makeup.targetDate, makeup.targetTime].filter(Boolean).join(" ")
+    : COPY.dateUndecided
+  return makeup.targetCourse ? `${when} · ${makeup.targetCourse}` : when
+}
+
+/** 캘린더 일정 제목: "보강 18:00 홍길동 (과목)" */
+export function buildAttendanceMakeupEventTitle(makeup: AttendanceMakeup) {
+  const course = makeup.targetCourse || makeup.course
+  return [COPY.calendarPrefix, makeup.targetTime, makeup.name, course ? `(${course})` : ""]
+    .filter(Boolean)
+    .join(" ")
+}
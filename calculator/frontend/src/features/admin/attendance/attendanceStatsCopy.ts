@@ -0,0 +1,69 @@
+export const ATTENDANCE_STATS_COPY = {
+  statsTitle: "\uCD9C\uC11D \uD1B5\uACC4",
+  statsDescription: "\uAE30\uAC04\uC744 \uC815\uD574 \uACFC\uBAA9\uBCC4\u00B7\uD559\uC0DD\uBCC4 \uCD9C\uC11D\uB960\uC744 \uBD05\uB2C8\uB2E4. \uCD9C\uC11D \uC0C1\uD0DC\uC5D0\uC11C \uCD9C\uC11D\uC73C\uB85C \uC138\uB294 \uC0C1\uD0DC\uB9CC \uCD9C\uC11D\uB960\uC5D0 \uB4E4\uC5B4\uAC11\uB2C8\uB2E4.",
+  periodFrom: "\uC2DC\uC791\uC77C",
+  periodTo: "\uC885\uB8CC\uC77C",
+  apply: "\uC870\uD68C",
+  courseSection: "\uACFC\uBAA9\uBCC4",
+  studentSection: "\uD559\uC0DD\uBCC4",
+  columnCourse: "\uC218\uC5C5",
+  columnStudent: "\uD559\uC0DD",
+  columnStudents: "\uD559\uC0DD \uC218",
+  columnFlagged: "\uD655\uC778 \uD544\uC694",
+  columnSessions: "\uAE30\uB85D",
+  columnAttended: "\uCD9C\uC11D \uC778\uC815",
+  columnMissed: "\uACB0\uC11D",
+  columnRate: "\uCD9C\uC11D\uB960",
+  columnAlerts: "\uC54C\uB9BC",
+  emptyStats: "\uAE30\uAC04 \uC548\uC5D0 \uCD9C\uC11D \uAE30\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4",
+  loading: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  loadFailed: "\uCD9C\uC11D \uD1B5\uACC4\uB97C \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  followUpTitle: "\uC624\uB298 \uD655\uC778\uD560 \uD559\uC0DD",
+  followUpDescription: "\uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC5D0 \uAC78\uB9B0 \uC7AC\uC6D0\uC0DD\uC785\uB2C8\uB2E4.",
+  followUpEmpty: "\uD655\uC778\uD560 \uD559\uC0DD\uC774 \uC5C6\uC2B5\uB2C8\uB2E4",
+  followUpNoRules: "\uCF1C \uB454 \uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC774 \uC5C6\uC2B5\uB2C8\uB2E4",
+  followUpLoadFailed: "\uD655\uC778\uD560 \uD559\uC0DD \uBAA9\uB85D\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  sendMessage: "\uBB38\uC790",
+  openStats: "\uCD9C\uC11D \uD1B5\uACC4",
+  manageRules: "\uC54C\uB9BC \uADDC\uCE59",
+  rulesTitle: "\uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59",
+  rulesDescription: "\uC5F0\uC18D \uACB0\uC11D\uC774\uB098 \uB0AE\uC740 \uCD9C\uC11D\uB960\uB85C \uD655\uC778\uC774 \uD544\uC694\uD55C \uD559\uC0DD\uC744 \uACE0\uB985\uB2C8\uB2E4. \uC5EC\uB7EC \uADDC\uCE59 \uC911 \uD558\uB098\uB9CC \uAC78\uB824\uB3C4 \uD45C\uC2DC\uB429\uB2C8\uB2E4.",
+  rulesLoadFailed: "\uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  rulesSaveFailed: "\uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC744 \uC800\uC7A5\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  rulesDeleteFailed: "\uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC744 \uC0AD\uC81C\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  rulesEmpty: "\uB4F1\uB85D\uB41C \uCD9C\uC11D \uC54C\uB9BC \uADDC\uCE59\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  addRule: "\uADDC\uCE59 \uCD94\uAC00",
+  ruleName: "\uC774\uB984",
+  ruleNamePlaceholder: "\uC608: 3\uD68C \uC5F0\uC18D \uACB0\uC11D",
+  ruleType: "\uC885\uB958",
+  ruleConsecutiveThreshold: "\uC5F0\uC18D \uACB0\uC11D (\uD68C)",
+  ruleRateThreshold: "\uCD9C\uC11D\uB960 \uAE30\uC900 (%)",
+  ruleMinSessions: "\uCD5C\uC18C \uAE30\uB85D \uC218\uC5C5 \uC218",
+  ruleMinSessionsHint: "\uAE30\uB85D\uB41C \uC218\uC5C5\uC774 \uC774\uBCF4\uB2E4 \uC801\uC740 \uD559\uC0DD\uC740 \uD310\uC815\uD558\uC9C0 \uC54A\uC2B5\uB2C8\uB2E4.",
+  ruleActive: "\uC0AC\uC6A9",
+  deleteConfirmSuffix: "\uADDC\uCE59\uC744 \uC0AD\uC81C\uD560\uAE4C\uC694?",
+  save: "\uC800\uC7A5",
+  add: "\uCD94\uAC00",
+  edit: "\uC218\uC815",
+  delete: "\uC0AD\uC81C",
+  cancel: "\uCDE8\uC18C",
+  close: "\uB2EB\uAE30",
+  typeConsecutiveAbsence: "\uC5F0\uC18D \uACB0\uC11D",
+  typeLowRate: "\uB0AE\uC740 \uCD9C\uC11D\uB960",
+  timesUnit: "\uD68C",
+  consecutiveAlertPrefix: "\uC5F0\uC18D \uACB0\uC11D",
+  rateAlertPrefix: "\uCD9C\uC11D\uB960",
+  ruleConsecutiveSuffix: "\uD68C \uC774\uC0C1 \uC5F0\uC18D \uACB0\uC11D",
+  ruleRateSuffix: "% \uBBF8\uB9CC \uCD9C\uC11D",
+  ruleMinSessionsPrefix: "\uAE30\uB85D",
+  ruleMinSessionsSuffix: "\uD68C \uC774\uC0C1",
+  rateMissing: "-",
+  absenceMessageGreeting: "\uC548\uB155\uD558\uC138\uC694.",
+  absenceMessageStudentSuffix: "\uD559\uC0DD\uC774",
+  absenceMessageStudentPossessive: "\uD559\uC0DD\uC758",
+  absenceMessageCourseSuffix: "\uC218\uC5C5\uC5D0",
+  absenceMessageConsecutiveSuffix: "\uD68C \uC5F0\uC18D \uACB0\uC11D\uD588\uC2B5\uB2C8\uB2E4.",
+  absenceMessageRateSuffix: "\uC218\uC5C5 \uCD9C\uC11D\uB960\uC774",
+  absenceMessageRateEnd: "\uC785\uB2C8\uB2E4.",
+  absenceMessageClosing: "\uAC00\uC815\uC5D0\uC11C\uB3C4 \uD55C\uBC88 \uD655\uC778 \uBD80\uD0C1\uB4DC\uB9BD\uB2C8\uB2E4.",
+} as const
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  alertRuleToForm,
+  buildAbsenceAlertMessage,
+  buildAlertRulePayload,
+  chunkAttendanceRegistrationIds,
+  describeAttendanceAlertRule,
+  formatAttendanceAlert,
+  formatAttendanceRate,
+  getAttendanceStatsColumns,
+  normalizeAttendanceStatsReport,
+  sortAttendanceStudentsByRate,
+  type AttendanceStudentStats,
+} from "./attendanceStatsModel"
+
+function student(overrides: Partial<AttendanceStudentStats>): AttendanceStudentStats {
+  return {
+    registrationId: "r1",
+    name: "김민수",
+    studentId: "",
+    courseConfigSetName: "2026 봄",
+    category: "수학",
+    courseId: "c1",
+    course: "중등수학 A",
+    stats: {
+      total: 4,
+      attended: 1,
+      missed: 3,
+      counts: { present: 1, absent: 3 },
+      rate: 0.25,
+      consecutiveAbsences: 3,
+      lastDate: "2026-03-09",
+    },
+    alerts: [],
+    ...overrides,
+  }
+}
+
+describe("attendanceStatsModel", () => {
+  it("normalizes the stats response and drops unknown alert types", () => {
+    const report = normalizeAttendanceStatsReport({
+      from: "2026-03-01",
+      to: "2026-03-31",
+      results: [
+        {
+          registrationId: "r1",
+          name: "김민수",
+          stats: { total: "2", attended: 1, missed: 1, counts: { present: 1, absent: "1", late: 0 }, rate: 0.5 },
+          alerts: [
+            { ruleId: "x", type: "consecutiveAbsence", threshold: 2, value: 2 },
+            { ruleId: "y", type: "unknown" },
+          ],
+        },
+        { name: "ID 없음" },
+      ],
+      courses: [{ course: "중등수학 A", students: 1, stats: { total: 2, rate: null } }],
+    })
+    expect(report.results).toHaveLength(1)
+    expect(report.results[0].stats.total).toBe(2)
+    expect(report.results[0].stats.counts).toEqual({ present: 1, absent: 1 })
+    expect(report.statuses.map((status) => status.key)).toEqual(["present", "recorded", "late", "absent"])
+    expect(report.results[0].alerts.map((alert) => alert.ruleId)).toEqual(["x"])
+    expect(report.courses[0].stats.rate).toBeNull()
+  })
+
+  it("formats rates, alerts and rule descriptions", () => {
+    expect(formatAttendanceRate(0.755)).toBe("76%")
+    expect(formatAttendanceRate(null)).toBe("-")
+    expect(
+      formatAttendanceAlert({ ruleId: "a", ruleName: "", type: "consecutiveAbsence", threshold: 3, value: 4 })
+    ).toBe("연속 결석 4회")
+    expect(
+      formatAttendanceAlert({ ruleId: "b", ruleName: "", type: "lowRate", threshold: 0.7, value: 0.5 })
+    ).toBe("출석률 50%")
+    expect(
+      describeAttendanceAlertRule({
+        id: "b",
+        name: "",
+        type: "lowRate",
+        threshold: 0.7,
+        minSessions: 4,
+        isActive: true,
+      })
+    ).toBe("70% 미만 출석 · 기록 4회 이상")
+  })
+
+  it("converts rate thresholds between percent form values and fractions", () => {
+    const form = alertRuleToForm({
+      id: "b",
+      name: "출석률 낮음",
+      type: "lowRate",
+      threshold: 0.7,
+      minSessions: 4,
+      isActive: true,
+      sortOrder: 1,
+    })
+    expect(form.threshold).toBe("70")
+    expect(buildAlertRulePayload({ ...form, threshold: "65.5" }).threshold).toBe(0.655)
+    expect(buildAlertRulePayload({ ...form, type: "consecutiveAbsence", threshold: "3" }).threshold).toBe(3)
+  })
+
+  it("splits registration ids into request-sized chunks", () => {
+    expect(chunkAttendanceRegistrationIds(["c", "a", "b", "a", ""], 2)).toEqual([["a", "b"], ["c"]])
+    expect(chunkAttendanceRegistrationIds([])).toEqual([])
+  })
+
+  it("sorts students with records by lowest rate first", () => {
+    const sorted = sortAttendanceStudentsByRate([
+      student({ registrationId: "high", stats: { ...student({}).stats, rate: 0.9, missed: 0 } }),
+      student({ registrationId: "none", stats: { ...student({}).stats, total: 0, rate: null } }),
+      student({ registrationId: "low" }),
+    ])
+    expect(sorted.map((entry) => entry.registrationId)).toEqual(["low", "high"])
+  })
+
+  it("shows inactive status columns only when they have records", () => {
+    const status = (key: string, isActive: boolean) => ({
+      key,
+      label: key,
+      shortLabel: key.slice(0, 1),
+      color: "slate" as const,
+      countsAsAttended: true,
+      isActive,
+      sortOrder: 0,
+      isSystem: false,
+    })
+    const course = student({}).stats
+    const columns = getAttendanceStatsColumns({
+      statuses: [status("present", true), status("online", false), status("early", false)],
+      courses: [
+        {
+          courseConfigSetName: "",
+          category: "",
+          courseId: "c1",
+          course: "중등수학 A",
+          students: 1,
+          flaggedStudents: 0,
+          stats: { ...course, counts: { present: 2, early: 1 } },
+        },
+      ],
+    })
+    expect(columns.map((column) => column.key)).toEqual(["present", "early"])
+  })
+
+  it("drafts the parent message from the first alert", () => {
+    const consecutive = buildAbsenceAlertMessage(
+      student({ alerts: [{ ruleId: "a", ruleName: "", type: "consecutiveAbsence", threshold: 3, value: 3 }] })
+    )
+    expect(consecutive).toContain("김민수 학생이 중등수학 A 수업에 3회 연속 결석했습니다.")
+
+    const lowRate = buildAbsenceAlertMessage(
+      student({ alerts: [{ ruleId: "b", ruleName: "", type: "lowRate", threshold: 0.7, value: 0.25 }] })
+    )
+    expect(lowRate).toContain("김민수 학생의 중등수학 A 수업 출석률이 25%입니다.")
+  })
+})
@@ -0,0 +1,296 @@
+import {
+  ATTENDANCE_ALERT_RULE_TYPES,
+  ATTENDANCE_STATS_MAX_REGISTRATION_IDS,
+  createEmptyAttendanceStats,
+  isAttendanceAlertRuleType,
+  type AttendanceAlert,
+  type AttendanceAlertRule,
+  type AttendanceAlertRuleType,
+  type AttendanceStats,
+} from "@shared/attendanceStats"
+import {
+  DEFAULT_ATTENDANCE_STATUSES,
+  resolveAttendanceStatusDefinitions,
+  type AttendanceStatusDefinition,
+} from "@shared/attendanceStatuses"
+
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import { normalizeAttendanceStatuses } from "./attendanceStatusModel"
+
+export type AttendanceStudentStats = {
+  registrationId: string
+  name: string
+  studentId: string
+  courseConfigSetName: string
+  category: string
+  courseId: string
+  course: string
+  stats: AttendanceStats
+  alerts: AttendanceAlert[]
+}
+
+export type AttendanceCourseStats = {
+  courseConfigSetName: string
+  category: string
+  courseId: string
+  course: string
+  students: number
+  flaggedStudents: number
+  stats: AttendanceStats
+}
+
+export type AttendanceStatsReport = {
+  from: string
+  to: string
+  /** 통계를 낸 출석 상태 정의 */
+  statuses: AttendanceStatusDefinition[]
+  results: AttendanceStudentStats[]
+  courses: AttendanceCourseStats[]
+}
+
+export type AttendanceFollowUpList = {
+  date: string
+  ruleCount: number
+  results: AttendanceStudentStats[]
+}
+
+export type SavedAttendanceAlertRule = AttendanceAlertRule & { sortOrder: number }
+
+export type AttendanceAlertRuleForm = {
+  id: string
+  name: string
+  type: AttendanceAlertRuleType
+  /** 연속 결석은 횟수, 출석률은 % */
+  threshold: string
+  minSessions: string
+  isActive: boolean
+  sortOrder: number
+}
+
+export const ATTENDANCE_ALERT_RULE_TYPE_LABELS: Record<AttendanceAlertRuleType, string> = {
+  consecutiveAbsence: COPY.typeConsecutiveAbsence,
+  lowRate: COPY.typeLowRate,
+}
+
+export const ATTENDANCE_ALERT_RULE_TYPE_OPTIONS = ATTENDANCE_ALERT_RULE_TYPES.map((type) => ({
+  value: type,
+  label: ATTENDANCE_ALERT_RULE_TYPE_LABELS[type],
+}))
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+function toRecordList(value: unknown) {
+  return Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []
+}
+
+export function normalizeAttendanceStats(value: unknown): AttendanceStats {
+  const raw = (value || {}) as Record<string, unknown>
+  const stats = createEmptyAttendanceStats()
+  stats.total = Number(raw.total) || 0
+  stats.attended = Number(raw.attended) || 0
+  stats.missed = Number(raw.missed) || 0
+  const counts = (raw.counts || {}) as Record<string, unknown>
+  for (const [key, count] of Object.entries(counts)) {
+    if (Number(count)) stats.counts[key] = Number(count)
+  }
+  stats.rate = raw.rate === null || raw.rate === undefined ? null : Number(raw.rate) || 0
+  stats.consecutiveAbsences = Number(raw.consecutiveAbsences) || 0
+  stats.lastDate = toText(raw.lastDate)
+  return stats
+}
+
+function normalizeAlerts(value: unknown): AttendanceAlert[] {
+  return toRecordList(value)
+    .filter((alert) => isAttendanceAlertRuleType(alert?.type))
+    .map((alert) => ({
+      ruleId: toText(alert.ruleId),
+      ruleName: toText(alert.ruleName),
+      type: alert.type as AttendanceAlertRuleType,
+      threshold: Number(alert.threshold) || 0,
+      value: Number(alert.value) || 0,
+    }))
+}
+
+function normalizeStudentStats(row: Record<string, unknown>): AttendanceStudentStats {
+  return {
+    registrationId: toText(row?.registrationId),
+    name: toText(row?.name),
+    studentId: toText(row?.studentId),
+    courseConfigSetName: toText(row?.courseConfigSetName),
+    category: toText(row?.category),
+    courseId: toText(row?.courseId),
+    course: toText(row?.course),
+    stats: normalizeAttendanceStats(row?.stats),
+    alerts: normalizeAlerts(row?.alerts),
+  }
+}
+
+export function normalizeAttendanceStatsReport(value: unknown): AttendanceStatsReport {
+  const raw = (value || {}) as Record<string, unknown>
+  return {
+    from: toText(raw.from),
+    to: toText(raw.to),
+    statuses: Array.isArray(raw.statuses)
+      ? resolveAttendanceStatusDefinitions(normalizeAttendanceStatuses(raw.statuses))
+      : DEFAULT_ATTENDANCE_STATUSES,
+    results: toRecordList(raw.results).map(normalizeStudentStats).filter((row) => row.registrationId),
+    courses: toRecordList(raw.courses).map((row) => ({
+      courseConfigSetName: toText(row?.courseConfigSetName),
+      category: toText(row?.category),
+      courseId: toText(row?.courseId),
+      course: toText(row?.course),
+      students: Number(row?.students) || 0,
+      flaggedStudents: Number(row?.flaggedStudents) || 0,
+      stats: normalizeAttendanceStats(row?.stats),
+    })),
+  }
+}
+
+export function normalizeAttendanceFollowUps(value: unknown): AttendanceFollowUpList {
+  const raw = (value || {}) as Record<string, unknown>
+  return {
+    date: toText(raw.date),
+    ruleCount: Array.isArray(raw.rules) ? raw.rules.length : 0,
+    results: toRecordList(raw.results).map(normalizeStudentStats).filter((row) => row.registrationId),
+  }
+}
+
+export function normalizeAttendanceAlertRules(value: unknown): SavedAttendanceAlertRule[] {
+  return toRecordList(value)
+    .filter((rule) => isAttendanceAlertRuleType(rule?.type))
+    .map((rule) => ({
+      id: toText(rule.id),
+      name: toText(rule.name),
+      type: rule.type as AttendanceAlertRuleType,
+      threshold: Number(rule.threshold) || 0,
+      minSessions: Number(rule.minSessions) || 0,
+      isActive: rule.isActive !== false,
+      sortOrder: Number(rule.sortOrder) || 0,
+    }))
+}
+
+/** 0.8 → "80%". 기록이 없으면 "-" */
+export function formatAttendanceRate(rate: number | null) {
+  if (rate === null || !Number.isFinite(rate)) return COPY.rateMissing
+  return `${Math.round(rate * 100)}%`
+}
+
+export function formatAttendanceAlert(alert: AttendanceAlert) {
+  if (alert.type === "consecutiveAbsence") {
+    return `${COPY.consecutiveAlertPrefix} ${alert.value}${COPY.timesUnit}`
+  }
+  return `${COPY.rateAlertPrefix} ${formatAttendanceRate(alert.value)}`
+}
+
+export function describeAttendanceAlertRule(rule: AttendanceAlertRule) {
+  const condition =
+    rule.type === "consecutiveAbsence"
+      ? `${rule.threshold}${COPY.ruleConsecutiveSuffix}`
+      : `${Math.round(rule.threshold * 100)}${COPY.ruleRateSuffix}`
+  if (!rule.minSessions) return condition
+  return `${condition} · ${COPY.ruleMinSessionsPrefix} ${rule.minSessions}${COPY.ruleMinSessionsSuffix}`
+}
+
+export function createEmptyAlertRuleForm(sortOrder = 0): AttendanceAlertRuleForm {
+  return {
+    id: "",
+    name: "",
+    type: "consecutiveAbsence",
+    threshold: "3",
+    minSessions: "0",
+    isActive: true,
+    sortOrder,
+  }
+}
+
+export function alertRuleToForm(rule: SavedAttendanceAlertRule): AttendanceAlertRuleForm {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    // 출석률은 0.7 → "70" (부동소수 오차 제거)
+    threshold:
+      rule.type === "lowRate"
+        ? String(Math.round(rule.threshold * 10000) / 100)
+        : String(rule.threshold),
+    minSessions: String(rule.minSessions),
+    isActive: rule.isActive,
+    sortOrder: rule.sortOrder,
+  }
+}
+
+export function buildAlertRulePayload(form: AttendanceAlertRuleForm) {
+  const threshold = Number(form.threshold)
+  return {
+    name: form.name.trim(),
+    type: form.type,
+    threshold: form.type === "lowRate" ? Math.round(threshold * 100) / 10000 : threshold,
+    minSessions: Number(form.minSessions || 0),
+    isActive: form.isActive,
+    sortOrder: form.sortOrder,
+  }
+}
+
+/** 서버가 한 번에 받는 등록 ID 수로 나눈다 */
+export function chunkAttendanceRegistrationIds(
+  ids: string[],
+  size: number = ATTENDANCE_STATS_MAX_REGISTRATION_IDS
+) {
+  const unique = Array.from(new Set(ids.map(toText).filter(Boolean))).sort()
+  const chunks: string[][] = []
+  for (let index = 0; index < unique.length; index += size) {
+    chunks.push(unique.slice(index, index + size))
+  }
+  return chunks
+}
+
+function formatLocalDate(date: Date) {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${year}-${month}-${day}`
+}
+
+/** 기본 조회 기간: 이번 달 1일부터 오늘까지 */
+export function createDefaultAttendanceStatsPeriod(today: Date = new Date()) {
+  return {
+    from: formatLocalDate(new Date(today.getFullYear(), today.getMonth(), 1)),
+    to: formatLocalDate(today),
+  }
+}
+
+/** 기록이 있는 학생만, 출석률 낮은 순 */
+export function sortAttendanceStudentsByRate(results: AttendanceStudentStats[]) {
+  return results
+    .filter((entry) => entry.stats.total > 0)
+    .slice()
+    .sort(
+      (a, b) =>
+        (a.stats.rate ?? 1) - (b.stats.rate ?? 1) ||
+        b.stats.missed - a.stats.missed ||
+        a.name.localeCompare(b.name, "ko-KR")
+    )
+}
+
+/** 통계 표의 상태 열. 꺼 둔 상태는 기간 안에 기록이 있을 때만 보인다 */
+export function getAttendanceStatsColumns(report: Pick<AttendanceStatsReport, "statuses" | "courses">) {
+  return report.statuses.filter(
+    (status) => status.isActive || report.courses.some((course) => course.stats.counts[status.key])
+  )
+}
+
+export function buildAttendanceStatsMap(results: AttendanceStudentStats[]) {
+  return new Map(results.map((row) => [row.registrationId, row]))
+}
+
+/** 학부모 결석 안내 초안. 가장 먼저 걸린 규칙으로 문장을 고른다 */
+export function buildAbsenceAlertMessage(entry: AttendanceStudentStats) {
+  const alert = entry.alerts[0]
+  const detail =
+    alert?.type === "lowRate"
+      ? `${entry.name} ${COPY.absenceMessageStudentPossessive} ${entry.course} ${COPY.absenceMessageRateSuffix} ${formatAttendanceRate(alert.value)}${COPY.absenceMessageRateEnd}`
+      : `${entry.name} ${COPY.absenceMessageStudentSuffix} ${entry.course} ${COPY.absenceMessageCourseSuffix} ${entry.stats.consecutiveAbsences}${COPY.absenceMessageConsecutiveSuffix}`
+  return [COPY.absenceMessageGreeting, detail, COPY.absenceMessageClosing].join("\n")
+}
@@ -0,0 +1,48 @@
+export const ATTENDANCE_STATUS_COPY = {
+  title: "\uCD9C\uC11D \uC0C1\uD0DC",
+  description: "\uCD9C\uC11D\uBD80\uC5D0 \uCE60\uD558\uB294 \uC0C1\uD0DC\uB97C \uAD00\uB9AC\uD569\uB2C8\uB2E4. \uCD9C\uC11D\uC73C\uB85C \uC138\uB294 \uC0C1\uD0DC\uB9CC \uCD9C\uC11D\uB960\uC5D0 \uB4E4\uC5B4\uAC00\uACE0, \uB098\uBA38\uC9C0\uB294 \uACB0\uC11D\uC73C\uB85C \uC138\uC5B4 \uC5F0\uC18D \uACB0\uC11D\u00B7\uBCF4\uAC15 \uB300\uC0C1\uC774 \uB429\uB2C8\uB2E4.",
+  manage: "\uCD9C\uC11D \uC0C1\uD0DC",
+  loadFailed: "\uCD9C\uC11D \uC0C1\uD0DC\uB97C \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  saveFailed: "\uCD9C\uC11D \uC0C1\uD0DC\uB97C \uC800\uC7A5\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  deleteFailed: "\uCD9C\uC11D \uC0C1\uD0DC\uB97C \uC0AD\uC81C\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  loading: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  empty: "\uB4F1\uB85D\uB41C \uCD9C\uC11D \uC0C1\uD0DC\uAC00 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  addStatus: "\uC0C1\uD0DC \uCD94\uAC00",
+  key: "\uD0A4",
+  keyPlaceholder: "\uC608: excused",
+  keyHint: "\uC601\uBB38\uC73C\uB85C \uC2DC\uC791\uD569\uB2C8\uB2E4. \uC800\uC7A5\uD55C \uB4A4\uC5D0\uB294 \uBC14\uAFC0 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  label: "\uC774\uB984",
+  labelPlaceholder: "\uC608: \uC778\uC815\uACB0\uC11D",
+  shortLabel: "\uC9E7\uC740 \uC774\uB984",
+  shortLabelHint: "\uCD9C\uC11D\uBD80 \uCE78\uC5D0 \uD45C\uC2DC\uD569\uB2C8\uB2E4. 2\uC790\uAE4C\uC9C0.",
+  color: "\uC0C9",
+  countsAsAttended: "\uCD9C\uC11D\uC73C\uB85C \uC148",
+  countsAsMissed: "\uACB0\uC11D\uC73C\uB85C \uC148",
+  active: "\uC0AC\uC6A9",
+  systemBadge: "\uAE30\uBCF8",
+  systemHint: "\uAE30\uBCF8 \uC0C1\uD0DC\uB294 \uB044\uAC70\uB098 \uC9C0\uC6B8 \uC218 \uC5C6\uACE0, \uCD9C\uC11D\uC73C\uB85C \uC138\uB294\uC9C0\uB3C4 \uBC14\uAFC0 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  deleteConfirmSuffix: "\uC0C1\uD0DC\uB97C \uC0AD\uC81C\uD560\uAE4C\uC694?",
+  save: "\uC800\uC7A5",
+  add: "\uCD94\uAC00",
+  edit: "\uC218\uC815",
+  delete: "\uC0AD\uC81C",
+  cancel: "\uCDE8\uC18C",
+  close: "\uB2EB\uAE30",
+  colorEmerald: "\uCD08\uB85D",
+  colorSky: "\uD558\uB298",
+  colorAmber: "\uB178\uB791",
+  colorRose: "\uBE68\uAC15",
+  colorViolet: "\uBCF4\uB77C",
+  colorTeal: "\uCCAD\uB85D",
+  colorOrange: "\uC8FC\uD669",
+  colorIndigo: "\uB0A8\uC0C9",
+  colorPink: "\uBD84\uD64D",
+  colorSlate: "\uD68C\uC0C9",
+  noteTitle: "\uCD9C\uC11D \uC0AC\uC720",
+  noteDescription: "\uCE78\uC758 \uC0C1\uD0DC\uC640 \uC0AC\uC720\uB97C \uD568\uAED8 \uC800\uC7A5\uD569\uB2C8\uB2E4. \uBBF8\uC785\uB825\uC73C\uB85C \uBC14\uAFB8\uBA74 \uAE30\uB85D\uACFC \uC0AC\uC720\uAC00 \uC9C0\uC6CC\uC9D1\uB2C8\uB2E4.",
+  noteStatus: "\uC0C1\uD0DC",
+  note: "\uC0AC\uC720",
+  notePlaceholder: "\uC608: \uBCD1\uC6D0 \uC9C4\uB8CC\uB85C \uC870\uD1F4",
+  noteSaveFailed: "\uCD9C\uC11D \uC0AC\uC720\uB97C \uC800\uC7A5\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  noteHint: "\uC624\uB978\uCABD \uD074\uB9AD\uC73C\uB85C \uC0AC\uC720 \uC785\uB825",
+} as const
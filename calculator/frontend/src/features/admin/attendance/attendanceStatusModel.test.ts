@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+
+import { DEFAULT_ATTENDANCE_STATUSES } from "@shared/attendanceStatuses"
+
+import {
+  buildAttendanceBoardStatuses,
+  buildAttendanceStatusPayload,
+  createEmptyAttendanceStatusForm,
+  normalizeAttendanceStatuses,
+} from "./attendanceStatusModel"
+
+describe("normalizeAttendanceStatuses", () => {
+  it("drops rows without a key and the pending key, and fixes unknown colors", () => {
+    const statuses = normalizeAttendanceStatuses([
+      { id: "s1", key: "online", label: "온라인", shortLabel: "온", color: "neon", sortOrder: "4" },
+      { id: "s2", key: "pending" },
+      { label: "키 없음" },
+    ])
+    expect(statuses).toEqual([
+      {
+        id: "s1",
+        key: "online",
+        label: "온라인",
+        shortLabel: "온",
+        color: "slate",
+        countsAsAttended: true,
+        isActive: true,
+        sortOrder: 4,
+        isSystem: false,
+      },
+    ])
+  })
+})
+
+describe("buildAttendanceBoardStatuses", () => {
+  it("keeps styles for inactive statuses but only paints active ones and pending", () => {
+    const board = buildAttendanceBoardStatuses([
+      ...DEFAULT_ATTENDANCE_STATUSES,
+      { key: "excused", label: "인정결석", shortLabel: "인", color: "violet", countsAsAttended: false, isActive: false, sortOrder: 4, isSystem: false },
+    ])
+    expect(board.paintable.map((status) => status.key)).toEqual(["present", "recorded", "late", "absent", "pending"])
+    expect(board.styles.excused.shortLabel).toBe("인")
+    expect(board.styles.excused.cellClassName).toContain("violet")
+    expect([...board.missed]).toEqual(["absent", "excused"])
+  })
+})
+
+describe("buildAttendanceStatusPayload", () => {
+  it("sends the key only when creating", () => {
+    const form = { ...createEmptyAttendanceStatusForm(5), key: " excused ", label: " 인정결석 ", shortLabel: "인" }
+    expect(buildAttendanceStatusPayload(form)).toEqual({
+      key: "excused",
+      label: "인정결석",
+      shortLabel: "인",
+      color: "violet",
+      countsAsAttended: false,
+      isActive: true,
+      sortOrder: 5,
+    })
+    expect(buildAttendanceStatusPayload({ ...form, id: "s1" })).not.toHaveProperty("key")
+  })
+})
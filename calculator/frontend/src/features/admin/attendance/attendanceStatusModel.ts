@@ -0,0 +1,237 @@
+import {
+  ATTENDANCE_STATUS_COLORS,
+  getMissedStatusKeys,
+  isAttendanceStatusColor,
+  PENDING_ATTENDANCE_STATUS,
+  type AttendanceStatusColor,
+  type AttendanceStatusDefinition,
+} from "@shared/attendanceStatuses"
+
+import { ATTENDANCE_BOARD_COPY as BOARD_COPY } from "./attendanceBoardCopy"
+import { ATTENDANCE_STATUS_COPY as COPY } from "./attendanceStatusCopy"
+
+export type SavedAttendanceStatus = AttendanceStatusDefinition & { id: string }
+
+export type AttendanceStatusStyle = {
+  key: string
+  label: string
+  shortLabel: string
+  /** 상태 선택 버튼 */
+  className: string
+  /** 출석부 칸 */
+  cellClassName: string
+}
+
+/** 출석부에서 쓰는 상태 묶음. 키별 스타일(pending 포함), 칠할 수 있는 상태, 결석으로 세는 키 */
+export type AttendanceBoardStatuses = {
+  styles: Record<string, AttendanceStatusStyle>
+  paintable: AttendanceStatusStyle[]
+  missed: Set<string>
+}
+
+export type AttendanceStatusForm = {
+  id: string
+  key: string
+  label: string
+  shortLabel: string
+  color: AttendanceStatusColor
+  countsAsAttended: boolean
+  isActive: boolean
+  sortOrder: number
+  isSystem: boolean
+}
+
+// Tailwind가 클래스를 찾을 수 있도록 색마다 문자열을 그대로 적는다
+export const ATTENDANCE_STATUS_COLOR_STYLES: Record<
+  AttendanceStatusColor,
+  { label: string; className: string; cellClassName: string; swatchClassName: string }
+> = {
+  emerald: {
+    label: COPY.colorEmerald,
+    className:
+      "border-emerald-300/80 bg-gradient-to-br from-emerald-50 to-green-50 text-emerald-600 shadow-sm shadow-emerald-500/10 hover:shadow-md hover:shadow-emerald-500/15",
+    cellClassName:
+      "border-emerald-300/80 bg-gradient-to-br from-emerald-100 to-green-100 text-emerald-700 shadow-sm shadow-emerald-500/20",
+    swatchClassName: "bg-emerald-400",
+  },
+  sky: {
+    label: COPY.colorSky,
+    className:
+      "border-sky-300/80 bg-gradient-to-br from-sky-50 to-blue-50 text-sky-600 shadow-sm shadow-sky-500/10 hover:shadow-md hover:shadow-sky-500/15",
+    cellClassName:
+      "border-sky-300/80 bg-gradient-to-br from-sky-100 to-blue-100 text-sky-700 shadow-sm shadow-sky-500/20",
+    swatchClassName: "bg-sky-400",
+  },
+  amber: {
+    label: COPY.colorAmber,
+    className:
+      "border-amber-300/80 bg-gradient-to-br from-amber-50 to-yellow-50 text-amber-600 shadow-sm shadow-amber-500/10 hover:shadow-md hover:shadow-amber-500/15",
+    cellClassName:
+      "border-amber-300/80 bg-gradient-to-br from-amber-100 to-yellow-100 text-amber-700 shadow-sm shadow-amber-500/20",
+    swatchClassName: "bg-amber-400",
+  },
+  rose: {
+    label: COPY.colorRose,
+    className:
+      "border-rose-300/80 bg-gradient-to-br from-rose-50 to-pink-50 text-rose-600 shadow-sm shadow-rose-500/10 hover:shadow-md hover:shadow-rose-500/15",
+    cellClassName:
+      "border-rose-300/80 bg-gradient-to-br from-rose-100 to-pink-100 text-rose-700 shadow-sm shadow-rose-500/20",
+    swatchClassName: "bg-rose-400",
+  },
+  violet: {
+    label: COPY.colorViolet,
+    className:
+      "border-violet-300/80 bg-gradient-to-br from-violet-50 to-purple-50 text-violet-600 shadow-sm shadow-violet-500/10 hover:shadow-md hover:shadow-violet-500/15",
+    cellClassName:
+      "border-violet-300/80 bg-gradient-to-br from-violet-100 to-purple-100 text-violet-700 shadow-sm shadow-violet-500/20",
+    swatchClassName: "bg-violet-400",
+  },
+  teal: {
+    label: COPY.colorTeal,
+    className:
+      "border-teal-300/80 bg-gradient-to-br from-teal-50 to-cyan-50 text-teal-600 shadow-sm shadow-teal-500/10 hover:shadow-md hover:shadow-teal-500/15",
+    cellClassName:
+      "border-teal-300/80 bg-gradient-to-br from-teal-100 to-cyan-100 text-teal-700 shadow-sm shadow-teal-500/20",
+    swatchClassName: "bg-teal-400",
+  },
+  orange: {
+    label: COPY.colorOrange,
+    className:
+      "border-orange-300/80 bg-gradient-to-br from-orange-50 to-amber-50 text-orange-600 shadow-sm shadow-orange-500/10 hover:shadow-md hover:shadow-orange-500/15",
+    cellClassName:
+      "border-orange-300/80 bg-gradient-to-br from-orange-100 to-amber-100 text-orange-700 shadow-sm shadow-orange-500/20",
+    swatchClassName: "bg-orange-400",
+  },
+  indigo: {
+    label: COPY.colorIndigo,
+    className:
+      "border-indigo-300/80 bg-gradient-to-br from-indigo-50 to-blue-50 text-indigo-600 shadow-sm shadow-indigo-500/10 hover:shadow-md hover:shadow-indigo-500/15",
+    cellClassName:
+      "border-indigo-300/80 bg-gradient-to-br from-indigo-100 to-blue-100 text-indigo-700 shadow-sm shadow-indigo-500/20",
+    swatchClassName: "bg-indigo-400",
+  },
+  pink: {
+    label: COPY.colorPink,
+    className:
+      "border-pink-300/80 bg-gradient-to-br from-pink-50 to-fuchsia-50 text-pink-600 shadow-sm shadow-pink-500/10 hover:shadow-md hover:shadow-pink-500/15",
+    cellClassName:
+      "border-pink-300/80 bg-gradient-to-br from-pink-100 to-fuchsia-100 text-pink-700 shadow-sm shadow-pink-500/20",
+    swatchClassName: "bg-pink-400",
+  },
+  slate: {
+    label: COPY.colorSlate,
+    className:
+      "border-slate-300/80 bg-gradient-to-br from-slate-50 to-gray-50 text-slate-600 shadow-sm shadow-slate-500/10 hover:shadow-md hover:shadow-slate-500/15",
+    cellClassName:
+      "border-slate-300/80 bg-gradient-to-br from-slate-100 to-gray-100 text-slate-700 shadow-sm shadow-slate-500/20",
+    swatchClassName: "bg-slate-400",
+  },
+}
+
+export const ATTENDANCE_STATUS_COLOR_OPTIONS = ATTENDANCE_STATUS_COLORS.map((color) => ({
+  value: color,
+  label: ATTENDANCE_STATUS_COLOR_STYLES[color].label,
+  swatchClassName: ATTENDANCE_STATUS_COLOR_STYLES[color].swatchClassName,
+}))
+
+export const PENDING_STATUS_STYLE: AttendanceStatusStyle = {
+  key: PENDING_ATTENDANCE_STATUS,
+  label: BOARD_COPY.pending,
+  shortLabel: BOARD_COPY.pendingShort,
+  className: "border-slate-300/80 bg-slate-50/80 text-slate-400 hover:bg-slate-100/80",
+  cellClassName: "border-slate-300/60 bg-white/80 text-transparent border-2 border-dashed",
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+export function normalizeAttendanceStatuses(value: unknown): SavedAttendanceStatus[] {
+  const rows = Array.isArray(value) ? (value as Array<Record<string, unknown>>) : []
+  return rows
+    .filter((row) => toText(row?.key) && toText(row?.key) !== PENDING_ATTENDANCE_STATUS)
+    .map((row) => ({
+      id: toText(row.id),
+      key: toText(row.key),
+      label: toText(row.label) || toText(row.key),
+      shortLabel: toText(row.shortLabel),
+      color: isAttendanceStatusColor(row.color) ? row.color : "slate",
+      countsAsAttended: row.countsAsAttended !== false,
+      isActive: row.isActive !== false,
+      sortOrder: Number(row.sortOrder) || 0,
+      isSystem: row.isSystem === true,
+    }))
+}
+
+function toStatusStyle(definition: AttendanceStatusDefinition): AttendanceStatusStyle {
+  const color = ATTENDANCE_STATUS_COLOR_STYLES[definition.color] || ATTENDANCE_STATUS_COLOR_STYLES.slate
+  return {
+    key: definition.key,
+    label: definition.label,
+    shortLabel: definition.shortLabel,
+    className: color.className,
+    cellClassName: color.cellClassName,
+  }
+}
+
+/** 꺼 둔 상태도 기존 기록을 그리도록 스타일은 남기고, 칠하는 버튼에서만 뺀다. pending은 맨 뒤 */
+export function buildAttendanceBoardStatuses(definitions: AttendanceStatusDefinition[]): AttendanceBoardStatuses {
+  const styles: Record<string, AttendanceStatusStyle> = { [PENDING_ATTENDANCE_STATUS]: PENDING_STATUS_STYLE }
+  for (const definition of definitions) {
+    styles[definition.key] = toStatusStyle(definition)
+  }
+  return {
+    styles,
+    paintable: [
+      ...definitions.filter((definition) => definition.isActive).map((definition) => styles[definition.key]),
+      PENDING_STATUS_STYLE,
+    ],
+    missed: getMissedStatusKeys(definitions),
+  }
+}
+
+export function createEmptyAttendanceStatusForm(sortOrder = 0): AttendanceStatusForm {
+  return {
+    id: "",
+    key: "",
+    label: "",
+    shortLabel: "",
+    color: "violet",
+    countsAsAttended: false,
+    isActive: true,
+    sortOrder,
+    isSystem: false,
+  }
+}
+
+export function attendanceStatusToForm(status: SavedAttendanceStatus): AttendanceStatusForm {
+  return {
+    id: status.id,
+    key: status.key,
+    label: status.label,
+    shortLabel: status.shortLabel,
+    color: status.color,
+    countsAsAttended: status.countsAsAttended,
+    isActive: status.isActive,
+    sortOrder: status.sortOrder,
+    isSystem: status.isSystem,
+  }
+}
+
+/** 키는 새로 만들 때만 보낸다 (서버도 수정 시 키를 바꾸지 않는다) */
+export function buildAttendanceStatusPayload(form: AttendanceStatusForm) {
+  const payload: Record<string, unknown> = {
+    label: form.label.trim(),
+    shortLabel: form.shortLabel.trim(),
+    color: form.color,
+    countsAsAttended: form.countsAsAttended,
+    isActive: form.isActive,
+    sortOrder: form.sortOrder,
+  }
+  if (!form.id) payload.key = form.key.trim()
+  return payload
+}
+
+export function describeAttendanceStatus(status: Pick<AttendanceStatusDefinition, "countsAsAttended">) {
+  return status.countsAsAttended ? COPY.countsAsAttended : COPY.countsAsMissed
+}
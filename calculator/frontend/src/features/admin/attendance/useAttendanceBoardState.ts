@@ -9,12 +9,14 @@ import { getToken } from "@/auth-store"
 import type {
   AttendanceBoardProps,
   AttendanceCellMap,
-  AttendanceStatusKey,
 } from "./attendanceBoardModel"
 import {
+  applyAttendanceNoteUpdates,
   applyAttendanceSocketUpdates,
   buildAttendanceCellMap,
+  buildAttendanceNoteMap,
   collectAttendanceRegistrationIds,
+  updateAttendanceCellNote,
   updateAttendanceCellStatus,
 } from "./attendanceBoardState"
 
@@ -24,19 +26,28 @@ export function useAttendanceBoardState({
   month,
   registrations,
   paintStatus,
+  overrideReason = "",
 }: {
   month: Date
   registrations: AttendanceBoardProps["registrations"]
-  paintStatus: AttendanceStatusKey
+  paintStatus: string
+  /** 마감된 달을 고칠 때 같이 보내는 사유 */
+  overrideReason?: string
 }) {
   const [cellStatuses, setCellStatuses] = useState<AttendanceCellMap>({})
+  const [cellNotes, setCellNotes] = useState<AttendanceCellMap>({})
   const paintingRef = useRef(false)
   const paintStatusRef = useRef(paintStatus)
+  const overrideReasonRef = useRef(overrideReason)
 
   useEffect(() => {
     paintStatusRef.current = paintStatus
   }, [paintStatus])
 
+  useEffect(() => {
+    overrideReasonRef.current = overrideReason
+  }, [overrideReason])
+
   useEffect(() => {
     const handlePointerUp = () => {
       paintingRef.current = false
@@ -61,6 +72,7 @@ export function useAttendanceBoardState({
   const loadAttendance = useCallback(async () => {
     if (!registrationIds.length) {
       setCellStatuses({})
+      setCellNotes({})
       return
     }
 
@@ -71,6 +83,7 @@ export function useAttendanceBoardState({
       })
       const results = Array.isArray(res?.results) ? res.results : []
       setCellStatuses(buildAttendanceCellMap(results))
+      setCellNotes(buildAttendanceNoteMap(results))
     } catch (error) {
       console.error("Failed to load attendance records:", error)
     }
@@ -88,11 +101,14 @@ export function useAttendanceBoardState({
     })
 
     const handleUpdate = (payload: {
-      updates?: Array<{ registrationId?: string; date?: string; status?: string }>
+      updates?: Array<{ registrationId?: string; date?: string; status?: string; note?: string }>
     }) => {
       setCellStatuses((prev) =>
         applyAttendanceSocketUpdates(prev, payload?.updates || [], registrationIdSet, monthKey)
       )
+      setCellNotes((prev) =>
+        applyAttendanceNoteUpdates(prev, payload?.updates || [], registrationIdSet, monthKey)
+      )
     }
 
     socket.on("attendance:update", handleUpdate)
@@ -111,11 +127,29 @@ export function useAttendanceBoardState({
           registrationId,
           date: dateKey,
           status,
+          ...(overrideReasonRef.current ? { overrideReason: overrideReasonRef.current } : {}),
         })
       } catch (error) {
         console.error("Failed to save attendance:", error)
+        // 그사이 마감된 달처럼 서버가 거절하면 칠한 칸을 되돌린다
+        void loadAttendance()
       }
     },
+    [loadAttendance]
+  )
+
+  /** 사유 입력 창에서 상태와 사유를 같이 저장한다. 실패하면 호출한 쪽에 알린다 */
+  const saveCell = useCallback(
+    async (registrationId: string, dateKey: string, status: string, note: string) => {
+      await apiClient.saveAttendanceEntries(
+        [{ registrationId, date: dateKey, status, note }],
+        overrideReasonRef.current || undefined
+      )
+      setCellStatuses((prev) => updateAttendanceCellStatus(prev, registrationId, dateKey, status))
+      setCellNotes((prev) =>
+        updateAttendanceCellNote(prev, registrationId, dateKey, status === "pending" ? "" : note.trim())
+      )
+    },
     []
   )
 
@@ -148,6 +182,8 @@ export function useAttendanceBoardState({
 
   return {
     cellStatuses,
+    cellNotes,
+    saveCell,
     handlePaintStart,
     handlePaintEnter,
   }
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { ATTENDANCE_STATS_COPY as COPY } from "./attendanceStatsCopy"
+import { normalizeAttendanceFollowUps, type AttendanceFollowUpList } from "./attendanceStatsModel"
+
+const EMPTY_FOLLOW_UPS: AttendanceFollowUpList = { date: "", ruleCount: 0, results: [] }
+
+/** 선택한 설정 세트에서 오늘 확인할 학생 */
+export function useAttendanceFollowUps(courseConfigSetName: string, isActive = true) {
+  const [followUps, setFollowUps] = useState<AttendanceFollowUpList>(EMPTY_FOLLOW_UPS)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const requestSeqRef = useRef(0)
+
+  const load = useCallback(async () => {
+    const seq = ++requestSeqRef.current
+    if (!courseConfigSetName) {
+      setFollowUps(EMPTY_FOLLOW_UPS)
+      setError("")
+      return
+    }
+    setLoading(true)
+    try {
+      const res = await apiClient.listAttendanceFollowUps({ courseConfigSetName })
+      if (seq !== requestSeqRef.current) return
+      setFollowUps(normalizeAttendanceFollowUps(res))
+      setError("")
+    } catch (e: unknown) {
+      if (seq !== requestSeqRef.current) return
+      setFollowUps(EMPTY_FOLLOW_UPS)
+      setError(e instanceof Error ? e.message : COPY.followUpLoadFailed)
+    } finally {
+      if (seq === requestSeqRef.current) setLoading(false)
+    }
+  }, [courseConfigSetName])
+
+  useEffect(() => {
+    if (!isActive) return
+    void load()
+  }, [isActive, load])
+
+  return { followUps, loading, error, reload: load }
+}
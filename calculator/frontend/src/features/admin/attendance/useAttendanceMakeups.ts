@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+import { buildAttendanceMakeupQueryParams } from "@shared/attendanceMakeups"
+
+import { apiClient } from "@/api-client"
+
+import { buildAttendanceMakeupMap, normalizeAttendanceMakeups, type AttendanceMakeup } from "./attendanceMakeupModel"
+import { chunkAttendanceRegistrationIds } from "./attendanceStatsModel"
+
+/**
+ * 출석부에 보이는 등록의 보강. 출석 통계와 같은 크기로 나눠 부른다.
+ */
+export function useAttendanceMakeups(registrationIds: string[]) {
+  const [makeupMap, setMakeupMap] = useState<Map<string, AttendanceMakeup[]>>(() => new Map())
+  const requestSeqRef = useRef(0)
+
+  const chunkKey = useMemo(
+    () => chunkAttendanceRegistrationIds(registrationIds).map((chunk) => chunk.join(",")).join("|"),
+    [registrationIds]
+  )
+
+  const load = useCallback(async () => {
+    const seq = ++requestSeqRef.current
+    const chunks = chunkKey ? chunkKey.split("|").map((chunk) => chunk.split(",")) : []
+    if (chunks.length === 0) {
+      setMakeupMap(new Map())
+      return
+    }
+    try {
+      const responses = await Promise.all(
+        chunks.map((registrationIds) =>
+          apiClient.listAttendanceMakeups(buildAttendanceMakeupQueryParams({ registrationIds }))
+        )
+      )
+      if (seq !== requestSeqRef.current) return
+      setMakeupMap(
+        buildAttendanceMakeupMap(responses.flatMap((res) => normalizeAttendanceMakeups(res?.results)))
+      )
+    } catch {
+      if (seq === requestSeqRef.current) setMakeupMap(new Map())
+    }
+  }, [chunkKey])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  return { makeupMap, reload: load }
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import {
+  findAttendanceMonthLock,
+  normalizeAttendanceLocks,
+  type SavedAttendanceMonthLock,
+} from "./attendanceLockModel"
+
+/** 출석부에 보이는 세트·달의 마감. 세트를 고르지 않았으면 마감 없음 */
+export function useAttendanceMonthLock(courseConfigSetName: string, month: string) {
+  const [lock, setLock] = useState<SavedAttendanceMonthLock | null>(null)
+  const requestSeqRef = useRef(0)
+
+  const load = useCallback(async () => {
+    const seq = ++requestSeqRef.current
+    if (!courseConfigSetName) {
+      setLock(null)
+      return
+    }
+    try {
+      const res = await apiClient.listAttendanceLocks({ courseConfigSetName, month })
+      if (seq !== requestSeqRef.current) return
+      setLock(findAttendanceMonthLock(normalizeAttendanceLocks(res?.results), courseConfigSetName, month))
+    } catch (error) {
+      console.error("Failed to load attendance locks:", error)
+    }
+  }, [courseConfigSetName, month])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  return { lock, reload: load }
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+import { buildAttendanceStatsQueryParams } from "@shared/attendanceStats"
+
+import { apiClient } from "@/api-client"
+
+import {
+  buildAttendanceStatsMap,
+  chunkAttendanceRegistrationIds,
+  normalizeAttendanceStatsReport,
+  type AttendanceStudentStats,
+} from "./attendanceStatsModel"
+
+/**
+ * 등록별 출석 통계와 알림. 출석부 권한이 없으면 서버가 거절하므로 조용히 빈 목록으로 둔다.
+ */
+export function useAttendanceStatsMap(registrationIds: string[], enabled = true) {
+  const [statsMap, setStatsMap] = useState<Map<string, AttendanceStudentStats>>(() => new Map())
+  const requestSeqRef = useRef(0)
+
+  // 배열이 새로 만들어져도 ID가 같으면 다시 부르지 않도록 문자열로 비교한다
+  const chunkKey = useMemo(
+    () => chunkAttendanceRegistrationIds(registrationIds).map((chunk) => chunk.join(",")).join("|"),
+    [registrationIds]
+  )
+
+  const load = useCallback(async () => {
+    const seq = ++requestSeqRef.current
+    const chunks = chunkKey ? chunkKey.split("|").map((chunk) => chunk.split(",")) : []
+    if (!enabled || chunks.length === 0) {
+      setStatsMap(new Map())
+      return
+    }
+    try {
+      const responses = await Promise.all(
+        chunks.map((registrationIds) =>
+          apiClient.getAttendanceStats(buildAttendanceStatsQueryParams({ registrationIds }))
+        )
+      )
+      if (seq !== requestSeqRef.current) return
+      setStatsMap(
+        buildAttendanceStatsMap(
+          responses.flatMap((res) => normalizeAttendanceStatsReport(res).results)
+        )
+      )
+    } catch {
+      if (seq === requestSeqRef.current) setStatsMap(new Map())
+    }
+  }, [chunkKey, enabled])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  return { statsMap, reload: load }
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react"
+
+import {
+  DEFAULT_ATTENDANCE_STATUSES,
+  resolveAttendanceStatusDefinitions,
+  type AttendanceStatusDefinition,
+} from "@shared/attendanceStatuses"
+
+import { apiClient } from "@/api-client"
+
+import { normalizeAttendanceStatuses } from "./attendanceStatusModel"
+
+/** 출석 상태 정의. 불러오기 전이나 실패하면 기본 상태로 그린다 */
+export function useAttendanceStatuses(isActive = true) {
+  const [statuses, setStatuses] = useState<AttendanceStatusDefinition[]>(DEFAULT_ATTENDANCE_STATUSES)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await apiClient.listAttendanceStatuses()
+      setStatuses(resolveAttendanceStatusDefinitions(normalizeAttendanceStatuses(res?.results)))
+    } catch (error) {
+      console.error("Failed to load attendance statuses:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isActive) return
+    void load()
+  }, [isActive, load])
+
+  return { statuses, reload: load }
+}
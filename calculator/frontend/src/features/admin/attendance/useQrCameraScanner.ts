@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+type DetectedBarcode = { rawValue?: string }
+type BarcodeDetectorLike = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> }
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike
+
+const SCAN_INTERVAL_MS = 400
+/** 같은 QR을 카메라 앞에 들고 있는 동안 다시 보내지 않는다 */
+const SAME_CODE_COOLDOWN_MS = 5000
+
+function getBarcodeDetector() {
+  if (typeof window === "undefined") return null
+  return ((window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null)
+}
+
+/**
+ * 브라우저 BarcodeDetector로 카메라 QR을 읽는다. 지원하지 않는 브라우저에서는 supported가 false이고,
+ * 키오스크는 PIN 입력과 키보드형 QR 스캐너로 동작한다.
+ */
+export function useQrCameraScanner(onDetected: (value: string) => void) {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const timerRef = useRef<number | null>(null)
+  const lastRef = useRef({ value: "", at: 0 })
+  const onDetectedRef = useRef(onDetected)
+  const [active, setActive] = useState(false)
+  const [error, setError] = useState(false)
+  const supported = Boolean(getBarcodeDetector() && typeof navigator !== "undefined" && navigator.mediaDevices)
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected
+  }, [onDetected])
+
+  const stop = useCallback(() => {
+    if (timerRef.current !== null) window.clearInterval(timerRef.current)
+    timerRef.current = null
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    if (videoRef.current) videoRef.current.srcObject = null
+    setActive(false)
+  }, [])
+
+  const start = useCallback(async () => {
+    const Detector = getBarcodeDetector()
+    if (!Detector || !navigator.mediaDevices) return
+    setError(false)
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "user" }, audio: false })
+      streamRef.current = stream
+      const video = videoRef.current
+      if (video) {
+        video.srcObject = stream
+        await video.play()
+      }
+      const detector = new Detector({ formats: ["qr_code"] })
+      timerRef.current = window.setInterval(async () => {
+        if (!videoRef.current || videoRef.current.readyState < 2) return
+        try {
+          const codes = await detector.detect(videoRef.current)
+          const value = String(codes[0]?.rawValue || "").trim()
+          if (!value) return
+          const now = Date.now()
+          if (value === lastRef.current.value && now - lastRef.current.at < SAME_CODE_COOLDOWN_MS) return
+          lastRef.current = { value, at: now }
+          onDetectedRef.current(value)
+        } catch {
+          /* 다음 프레임에서 다시 읽는다 */
+        }
+      }, SCAN_INTERVAL_MS)
+      setActive(true)
+    } catch {
+      stop()
+      setError(true)
+    }
+  }, [stop])
+
+  useEffect(() => stop, [stop])
+
+  return { videoRef, supported, active, error, start, stop }
+}
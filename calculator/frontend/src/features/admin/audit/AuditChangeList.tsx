@@ -0,0 +1,21 @@
+import { AUDIT_COPY as COPY } from "./auditCopy"
+import { diffAuditChanges, type AuditLogEntry } from "./auditModel"
+
+export default function AuditChangeList({ entry }: { entry: Pick<AuditLogEntry, "before" | "after"> }) {
+  const changes = diffAuditChanges(entry.before, entry.after)
+  if (changes.length === 0) {
+    return <div className="text-[11px] text-slate-400">{COPY.noChanges}</div>
+  }
+  return (
+    <div className="space-y-0.5 text-[11px]">
+      {changes.map((change) => (
+        <div key={change.field || "value"} className="flex flex-wrap items-baseline gap-1">
+          {change.label ? <span className="font-medium text-slate-600">{change.label}</span> : null}
+          <span className="break-all text-slate-400 line-through">{change.before}</span>
+          <span className="text-slate-400">→</span>
+          <span className="break-all text-slate-700">{change.after}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
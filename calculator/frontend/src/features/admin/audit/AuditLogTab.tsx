@@ -0,0 +1,135 @@
+import { History, Search } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+
+import AuditChangeList from "./AuditChangeList"
+import { AUDIT_COPY as COPY } from "./auditCopy"
+import { AUDIT_ACTION_LABELS, formatAuditTime, getAuditActionLabel } from "./auditModel"
+import { useAuditLogs } from "./useAuditLogs"
+
+const ALL_ACTIONS = "__all__"
+
+export default function AuditLogTab({ isActive }: { isActive: boolean }) {
+  const { filters, setFilter, applyFilters, resetFilters, entries, nextCursor, loading, error, loadMore } =
+    useAuditLogs(isActive)
+
+  return (
+    <div className="space-y-4">
+      <div className="relative overflow-hidden rounded-3xl border border-white/20 bg-gradient-to-br from-slate-500/10 via-indigo-500/10 to-sky-400/10 p-6 shadow-lg shadow-black/5 backdrop-blur-xl">
+        <div className="relative flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gradient-to-br from-slate-600 to-indigo-500 shadow-lg shadow-indigo-500/25">
+            <History className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight text-slate-900">{COPY.title}</h2>
+            <p className="text-sm text-slate-600">{COPY.description}</p>
+          </div>
+        </div>
+      </div>
+
+      <form
+        className="grid gap-3 rounded-2xl border border-border/60 bg-card p-4 sm:grid-cols-2 lg:grid-cols-6"
+        onSubmit={(e) => {
+          e.preventDefault()
+          applyFilters()
+        }}
+      >
+        <div className="space-y-1">
+          <Label>{COPY.filterActor}</Label>
+          <Input value={filters.actor} onChange={(e) => setFilter("actor", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.filterAction}</Label>
+          <Select
+            value={filters.action || ALL_ACTIONS}
+            onValueChange={(value) => setFilter("action", value === ALL_ACTIONS ? "" : value)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_ACTIONS}>{COPY.allActions}</SelectItem>
+              {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                <SelectItem key={action} value={action}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.filterEntity}</Label>
+          <Input value={filters.entityId} onChange={(e) => setFilter("entityId", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.filterFrom}</Label>
+          <Input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>{COPY.filterTo}</Label>
+          <Input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} />
+        </div>
+        <div className="flex items-end gap-2">
+          <Button type="submit" className="flex-1" disabled={loading}>
+            <Search className="mr-1 h-4 w-4" />
+            {COPY.search}
+          </Button>
+          <Button type="button" variant="outline" onClick={resetFilters} disabled={loading}>
+            {COPY.reset}
+          </Button>
+        </div>
+      </form>
+
+      {error ? (
+        <div className="rounded-xl border border-destructive/20 bg-destructive/10 px-4 py-3 text-sm font-medium text-destructive">
+          {error}
+        </div>
+      ) : null}
+
+      {!loading && entries.length === 0 && !error ? (
+        <div className="text-sm text-muted-foreground">{COPY.empty}</div>
+      ) : null}
+
+      {entries.length > 0 ? (
+        <div className="divide-y rounded-2xl border border-border/60 bg-card">
+          {entries.map((entry) => (
+            <div key={entry.id} className="space-y-1.5 px-4 py-3">
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                <span className="font-semibold">{getAuditActionLabel(entry.action)}</span>
+                <span className="text-muted-foreground">
+                  {entry.actor}
+                  {entry.actorRole ? ` (${entry.actorRole})` : ""}
+                </span>
+                <span className="truncate text-xs text-muted-foreground">
+                  {entry.entityType} · {entry.entityId}
+                </span>
+                <span className="ml-auto text-xs text-muted-foreground">{formatAuditTime(entry.createdAt)}</span>
+              </div>
+              <AuditChangeList entry={entry} />
+              {entry.requestId ? (
+                <div className="text-[10px] text-slate-400">
+                  {COPY.requestId} {entry.requestId}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {nextCursor ? (
+        <Button type="button" variant="outline" className="w-full" onClick={loadMore} disabled={loading}>
+          {COPY.loadMore}
+        </Button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+export const AUDIT_COPY = {
+  title: "\uBCC0\uACBD \uAE30\uB85D",
+  description: "\uB4F1\uB85D\u00B7\uCD9C\uC11D\u00B7\uACFC\uBAA9 \uC124\uC815\uC744 \uB204\uAC00 \uC5B8\uC81C \uBC14\uAFE8\uB294\uC9C0 \uD655\uC778\uD569\uB2C8\uB2E4.",
+  sectionTitle: "\uBCC0\uACBD \uC774\uB825",
+  sectionEmpty: "\uAE30\uB85D\uB41C \uBCC0\uACBD\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  loadFailed: "\uBCC0\uACBD \uC774\uB825\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  showAll: "\uC804\uCCB4 \uBCF4\uAE30",
+  collapse: "\uC811\uAE30",
+  loadMore: "\uB354 \uBCF4\uAE30",
+  filterActor: "\uC791\uC5C5\uC790",
+  filterAction: "\uC791\uC5C5",
+  filterEntity: "\uB300\uC0C1 ID",
+  filterFrom: "\uC2DC\uC791\uC77C",
+  filterTo: "\uC885\uB8CC\uC77C",
+  allActions: "\uC804\uCCB4",
+  search: "\uC870\uD68C",
+  reset: "\uCD08\uAE30\uD654",
+  empty: "\uC870\uAC74\uC5D0 \uB9DE\uB294 \uAE30\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  noChanges: "\uBC14\uB010 \uD56D\uBAA9 \uC5C6\uC74C",
+  requestId: "\uC694\uCCAD ID",
+  emptyValue: "(\uC5C6\uC74C)",
+  actionRegistrationCreate: "\uB4F1\uB85D",
+  actionRegistrationUpdate: "\uB4F1\uB85D \uC218\uC815",
+  actionRegistrationDelete: "\uB4F1\uB85D \uC0AD\uC81C",
+  actionRegistrationWithdrawal: "\uD1F4\uC6D0/\uBCF5\uAD6C",
+  actionRegistrationTransfer: "\uC804\uBC18",
+  actionRegistrationTransferCancel: "\uC804\uBC18 \uCDE8\uC18C",
+  actionRegistrationNote: "\uBA54\uBAA8 \uC218\uC815",
+  actionRegistrationExtension: "\uC5F0\uC7A5",
+  actionRegistrationExtensionUpdate: "\uC5F0\uC7A5 \uC218\uC815",
+  actionRegistrationExtensionDelete: "\uC5F0\uC7A5 \uCDE8\uC18C",
+  actionRegistrationHold: "\uD734\uC6D0",
+  actionCourseRename: "\uACFC\uBAA9\uBA85 \uC77C\uAD04 \uBCC0\uACBD",
+  actionAttendanceUpdate: "\uCD9C\uC11D \uBCC0\uACBD",
+  actionAttendanceMakeup: "\uBCF4\uAC15",
+  actionAttendanceLock: "\uCD9C\uC11D \uB9C8\uAC10",
+  actionAttendanceUnlock: "\uCD9C\uC11D \uB9C8\uAC10 \uD574\uC81C",
+  actionAttendanceLockOverride: "\uB9C8\uAC10 \uD6C4 \uC218\uC815",
+  actionMergeUpdate: "\uD569\uBC18 \uBCC0\uACBD",
+  actionCourseConfigSave: "\uACFC\uBAA9 \uC124\uC815 \uC800\uC7A5",
+  actionCourseConfigDelete: "\uACFC\uBAA9 \uC124\uC815 \uC0AD\uC81C",
+  fieldName: "\uC774\uB984",
+  fieldCourse: "\uACFC\uBAA9",
+  fieldStartDate: "\uC2DC\uC791\uC77C",
+  fieldEndDate: "\uC885\uB8CC\uC77C",
+  fieldWithdrawnAt: "\uD1F4\uC6D0\uC77C",
+  fieldWeeks: "\uC8FC\uC218",
+  fieldTuitionFee: "\uC218\uAC15\uB8CC",
+  fieldNote: "\uBA54\uBAA8",
+  fieldSkipWeeks: "\uD734\uAC15 \uC8FC\uCC28",
+  fieldRecordingDates: "\uB179\uD654 \uB0A0\uC9DC",
+  fieldTransferToId: "\uC804\uBC18 \uB4F1\uB85D",
+  fieldTransferAt: "\uC804\uBC18\uC77C",
+  fieldStudentId: "\uD559\uC0DD \uC815\uBCF4",
+  fieldRefundAmount: "\uD658\uBD88\uC561",
+  fieldReason: "\uC0AC\uC720",
+  fieldRegistrationEndDate: "\uC218\uAC15 \uC885\uB8CC\uC77C",
+  fieldStatus: "\uC0C1\uD0DC",
+  fieldAbsenceDate: "\uACB0\uC11D\uC77C",
+  fieldTargetCourse: "\uBCF4\uAC15 \uC218\uC5C5",
+  fieldTargetDate: "\uBCF4\uAC15 \uB0A0\uC9DC",
+  fieldTargetTime: "\uBCF4\uAC15 \uC2DC\uAC04",
+  fieldRecordingSent: "\uB179\uD654\uBCF8 \uBC1C\uC1A1",
+  fieldMemo: "\uBA54\uBAA8",
+  fieldCourseConfigSetName: "\uACFC\uBAA9 \uC124\uC815 \uC138\uD2B8",
+  fieldMonth: "\uB9C8\uAC10 \uC6D4",
+  fieldDates: "\uC218\uC815\uD55C \uB0A0\uC9DC",
+} as const
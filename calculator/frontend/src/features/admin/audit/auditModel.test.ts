@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildAuditLogQuery,
+  createEmptyAuditFilters,
+  diffAuditChanges,
+  formatAuditValue,
+  getAuditActionLabel,
+  normalizeAuditLogs,
+} from "./auditModel"
+
+describe("auditModel", () => {
+  it("lists only the changed top-level fields and skips bookkeeping timestamps", () => {
+    const changes = diffAuditChanges(
+      { id: "r1", name: "홍길동", endDate: "2026-03-01T00:00:00.000Z", weeks: 8, updatedAt: "a" },
+      { id: "r1", name: "홍길동", endDate: "2026-03-29T00:00:00.000Z", weeks: 12, updatedAt: "b" }
+    )
+    expect(changes).toEqual([
+      { field: "endDate", label: "종료일", before: "2026-03-01", after: "2026-03-29" },
+      { field: "weeks", label: "주수", before: "8", after: "12" },
+    ])
+  })
+
+  it("treats a missing side as empty", () => {
+    expect(diffAuditChanges(null, { note: "전화 상담" })).toEqual([
+      { field: "note", label: "메모", before: "(없음)", after: "전화 상담" },
+    ])
+    expect(diffAuditChanges({ "2026-04-01": "absent" }, { "2026-04-01": null })).toEqual([
+      { field: "2026-04-01", label: "2026-04-01", before: "absent", after: "(없음)" },
+    ])
+  })
+
+  it("compares non-object snapshots as a whole", () => {
+    expect(diffAuditChanges([{ id: "m1" }], [{ id: "m1" }])).toEqual([])
+    expect(diffAuditChanges([], [{ id: "m1" }])).toEqual([
+      { field: "", label: "", before: "[]", after: '[{"id":"m1"}]' },
+    ])
+  })
+
+  it("truncates long values", () => {
+    expect(formatAuditValue("가".repeat(130))).toHaveLength(121)
+  })
+
+  it("normalizes rows and labels known actions", () => {
+    const [row] = normalizeAuditLogs([
+      { id: "a1", actor: "kim", action: "registration.transfer", registrationId: null, createdAt: "2026-04-18T01:00:00Z" },
+      { actor: "nobody" },
+    ])
+    expect(row).toMatchObject({ id: "a1", actor: "kim", registrationId: "", before: null })
+    expect(getAuditActionLabel(row.action)).toBe("전반")
+    expect(getAuditActionLabel("custom.action")).toBe("custom.action")
+  })
+
+  it("builds the list query without empty filters", () => {
+    expect(buildAuditLogQuery({ ...createEmptyAuditFilters(), actor: " kim ", from: "2026-04-01" }, "c1")).toEqual({
+      actor: "kim",
+      from: "2026-04-01",
+      cursor: "c1",
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import { AUDIT_COPY as COPY } from "./auditCopy"
+
+export type AuditLogEntry = {
+  id: string
+  actor: string
+  actorRole: string
+  action: string
+  entityType: string
+  entityId: string
+  registrationId: string
+  before: unknown
+  after: unknown
+  requestId: string
+  createdAt: string
+}
+
+export type AuditChange = {
+  field: string
+  label: string
+  before: string
+  after: string
+}
+
+export type AuditLogFilters = {
+  actor: string
+  action: string
+  entityId: string
+  from: string
+  to: string
+}
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  "registration.create": COPY.actionRegistrationCreate,
+  "registration.update": COPY.actionRegistrationUpdate,
+  "registration.delete": COPY.actionRegistrationDelete,
+  "registration.withdrawal": COPY.actionRegistrationWithdrawal,
+  "registration.transfer": COPY.actionRegistrationTransfer,
+  "registration.transfer_cancel": COPY.actionRegistrationTransferCancel,
+  "registration.note": COPY.actionRegistrationNote,
+  "registration.extension": COPY.actionRegistrationExtension,
+  "registration.extension_update": COPY.actionRegistrationExtensionUpdate,
+  "registration.extension_delete": COPY.actionRegistrationExtensionDelete,
+  "registration.hold": COPY.actionRegistrationHold,
+  "registration.course_rename": COPY.actionCourseRename,
+  "attendance.update": COPY.actionAttendanceUpdate,
+  "attendance.makeup": COPY.actionAttendanceMakeup,
+  "attendance.lock": COPY.actionAttendanceLock,
+  "attendance.unlock": COPY.actionAttendanceUnlock,
+  "attendance.lock_override": COPY.actionAttendanceLockOverride,
+  "merge.update": COPY.actionMergeUpdate,
+  "course_config.save": COPY.actionCourseConfigSave,
+  "course_config.delete": COPY.actionCourseConfigDelete,
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: COPY.fieldName,
+  course: COPY.fieldCourse,
+  startDate: COPY.fieldStartDate,
+  endDate: COPY.fieldEndDate,
+  withdrawnAt: COPY.fieldWithdrawnAt,
+  weeks: COPY.fieldWeeks,
+  tuitionFee: COPY.fieldTuitionFee,
+  note: COPY.fieldNote,
+  skipWeeks: COPY.fieldSkipWeeks,
+  recordingDates: COPY.fieldRecordingDates,
+  transferToId: COPY.fieldTransferToId,
+  transferAt: COPY.fieldTransferAt,
+  studentId: COPY.fieldStudentId,
+  refundAmount: COPY.fieldRefundAmount,
+  reason: COPY.fieldReason,
+  registrationEndDate: COPY.fieldRegistrationEndDate,
+  status: COPY.fieldStatus,
+  absenceDate: COPY.fieldAbsenceDate,
+  targetCourse: COPY.fieldTargetCourse,
+  targetDate: COPY.fieldTargetDate,
+  targetTime: COPY.fieldTargetTime,
+  recordingSent: COPY.fieldRecordingSent,
+  memo: COPY.fieldMemo,
+  courseConfigSetName: COPY.fieldCourseConfigSetName,
+  month: COPY.fieldMonth,
+  dates: COPY.fieldDates,
+}
+
+// 저장할 때마다 바뀌는 값이라 변경 내역에서는 뺀다
+const IGNORED_FIELDS = new Set(["id", "createdAt", "updatedAt", "timestamp"])
+
+const MAX_VALUE_LENGTH = 120
+
+export function createEmptyAuditFilters(): AuditLogFilters {
+  return { actor: "", action: "", entityId: "", from: "", to: "" }
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function getAuditActionLabel(action: string) {
+  return AUDIT_ACTION_LABELS[action] || action
+}
+
+export function normalizeAuditLogs(rows: unknown): AuditLogEntry[] {
+  if (!Array.isArray(rows)) return []
+  return rows
+    .filter(isPlainObject)
+    .map((row) => ({
+      id: toText(row.id),
+      actor: toText(row.actor),
+      actorRole: toText(row.actorRole),
+      action: toText(row.action),
+      entityType: toText(row.entityType),
+      entityId: toText(row.entityId),
+      registrationId: toText(row.registrationId),
+      before: row.before ?? null,
+      after: row.after ?? null,
+      requestId: toText(row.requestId),
+      createdAt: toText(row.createdAt),
+    }))
+    .filter((row) => row.id)
+}
+
+/** 날짜만 있는 ISO 값은 YYYY-MM-DD로, 객체·배열은 JSON으로 줄여 보여준다. */
+export function formatAuditValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return COPY.emptyValue
+  if (typeof value === "string") {
+    const text = /^\d{4}-\d{2}-\d{2}T00:00:00(\.000)?Z$/.test(value) ? value.slice(0, 10) : value
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text
+  }
+  if (typeof value === "number" || typeof value === "boolean") return String(value)
+  const json = JSON.stringify(value)
+  return json.length > MAX_VALUE_LENGTH ? `${json.slice(0, MAX_VALUE_LENGTH)}…` : json
+}
+
+/**
+ * before/after의 최상위 항목 중 바뀐 것만 돌려준다.
+ * 둘 중 하나가 객체가 아니면 (합반 목록 등) 값 전체를 한 줄로 비교한다.
+ */
+export function diffAuditChanges(before: unknown, after: unknown): AuditChange[] {
+  if (!isPlainObject(before) && !isPlainObject(after)) {
+    if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return []
+    return [{ field: "", label: "", before: formatAuditValue(before), after: formatAuditValue(after) }]
+  }
+  const prev = isPlainObject(before) ? before : {}
+  const next = isPlainObject(after) ? after : {}
+  const fields = Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]))
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .filter((field) => JSON.stringify(prev[field] ?? null) !== JSON.stringify(next[field] ?? null))
+    .map((field) => ({
+      field,
+      label: FIELD_LABELS[field] || field,
+      before: formatAuditValue(prev[field]),
+      after: formatAuditValue(next[field]),
+    }))
+}
+
+export function formatAuditTime(value: string) {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return value
+  const pad = (num: number) => String(num).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/** GET /api/audit-logs 쿼리. 빈 값은 보내지 않는다. */
+export function buildAuditLogQuery(filters: AuditLogFilters, cursor?: string | null) {
+  const query: Record<string, string> = {}
+  for (const [key, value] of Object.entries(filters)) {
+    const text = toText(value)
+    if (text) query[key] = text
+  }
+  if (cursor) query.cursor = cursor
+  return query
+}
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { AUDIT_COPY as COPY } from "./auditCopy"
+import {
+  buildAuditLogQuery,
+  createEmptyAuditFilters,
+  normalizeAuditLogs,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from "./auditModel"
+
+export function useAuditLogs(isActive: boolean) {
+  const [filters, setFilters] = useState<AuditLogFilters>(createEmptyAuditFilters())
+  const [appliedFilters, setAppliedFilters] = useState<AuditLogFilters>(createEmptyAuditFilters())
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const load = useCallback(async (nextFilters: AuditLogFilters, cursor: string | null) => {
+    setLoading(true)
+    try {
+      const res = await apiClient.listAuditLogs(buildAuditLogQuery(nextFilters, cursor))
+      const rows = normalizeAuditLogs(res?.results)
+      setEntries((prev) => (cursor ? [...prev, ...rows] : rows))
+      setNextCursor(typeof res?.nextCursor === "string" ? res.nextCursor : null)
+      setError("")
+    } catch (e: unknown) {
+      if (!cursor) setEntries([])
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isActive) return
+    void load(appliedFilters, null)
+  }, [appliedFilters, isActive, load])
+
+  const setFilter = (field: keyof AuditLogFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [field]: value }))
+
+  const applyFilters = () => setAppliedFilters({ ...filters })
+
+  const resetFilters = () => {
+    setFilters(createEmptyAuditFilters())
+    setAppliedFilters(createEmptyAuditFilters())
+  }
+
+  const loadMore = () => {
+    if (nextCursor && !loading) void load(appliedFilters, nextCursor)
+  }
+
+  return {
+    filters,
+    setFilter,
+    applyFilters,
+    resetFilters,
+    entries,
+    nextCursor,
+    loading,
+    error,
+    loadMore,
+  }
+}
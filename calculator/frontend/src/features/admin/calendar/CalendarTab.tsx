@@ -7,7 +7,10 @@ import '@schedule-x/theme-default/dist/index.css';
 
 import { apiClient } from "../../../api-client";
 import CalendarNoteDialog from "./CalendarNoteDialog";
-import { format } from "date-fns";
+import { addMonths, endOfMonth, format, startOfMonth } from "date-fns";
+import { buildAttendanceMakeupQueryParams } from "@shared/attendanceMakeups";
+import { hasPermission, PERMISSION_KEYS } from "@/permissions";
+import { buildAttendanceMakeupEventTitle, normalizeAttendanceMakeups } from "../attendance/attendanceMakeupModel";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -90,6 +93,14 @@ const CalendarTab = ({ user, isActive = true }) => {
                     onContainer: '#ff3b30', // Red text
                 },
             },
+            makeup: {
+                colorName: 'makeup',
+                lightColors: {
+                    main: '#7c3aed',
+                    container: '#ede9fe',
+                    onContainer: '#5b21b6',
+                },
+            },
         },
         plugins: [eventsService],
         callbacks: {
@@ -193,6 +204,36 @@ const CalendarTab = ({ user, isActive = true }) => {
 
             setLoading(false);
         }
+
+        void fetchMakeupsForMonth(monthDate);
+    };
+
+    // 보강 일정은 출석부 권한이 있을 때만 보인다. 이번 달 보강이 다음 달로 잡히는 일이 많아 두 달 뒤까지 읽는다
+    const fetchMakeupsForMonth = async (monthDate) => {
+        if (!hasPermission(user, PERMISSION_KEYS.tabs.attendance)) return;
+        try {
+            const res = await apiClient.listAttendanceMakeups(buildAttendanceMakeupQueryParams({
+                from: format(startOfMonth(monthDate), "yyyy-MM-dd"),
+                to: format(endOfMonth(addMonths(monthDate, 2)), "yyyy-MM-dd"),
+            }));
+            normalizeAttendanceMakeups(res?.results)
+                .filter((makeup) => makeup.targetDate && makeup.status !== "waived")
+                .forEach((makeup) => {
+                    const dateValue = toPlainDate(makeup.targetDate) || makeup.targetDate;
+                    try {
+                        eventsService.add({
+                            id: `makeup-${makeup.id}`,
+                            title: buildAttendanceMakeupEventTitle(makeup),
+                            start: dateValue,
+                            end: dateValue,
+                            calendarId: 'makeup',
+                            description: 'MAKEUP'
+                        });
+                    } catch (e) { }
+                });
+        } catch (error) {
+            console.error("Failed to fetch makeup sessions:", error);
+        }
     };
 
     const handleDateClick = (date) => {
@@ -326,6 +367,14 @@ const CustomMonthGridEvent = ({ calendarEvent }) => {
         );
     }
 
+    if (calendarEvent.description === 'MAKEUP' || calendarEvent.calendarId === 'makeup') {
+        return (
+            <div className="w-full h-full bg-violet-100 text-violet-800 border border-violet-300 rounded-[4px] px-1.5 py-[1px] text-[11px] font-medium flex items-center overflow-hidden truncate">
+                {calendarEvent.title}
+            </div>
+        );
+    }
+
     // Default Note Chip (Apple Style)
     // Removed translate-y adjustment to align better
     return (
@@ -7,7 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { cn } from "@/lib/utils"
 
-import { ADMIN_TABS } from "../constants"
+import { ADMIN_TABS, MASTER_ONLY_TAB_IDS } from "../constants"
 import { canAccessCalculator, ROUTES } from "../../../auth-routing"
 
 const ROLE_LABEL = {
@@ -22,7 +22,7 @@ const AdminShell = ({ user, activeTab, onTabChange, onLogout, children, tabs })
   const visibleTabs = useMemo(() => {
     const baseTabs = Array.isArray(tabs) ? tabs : ADMIN_TABS
     if (user?.role === "master") return baseTabs
-    return baseTabs.filter((t) => t.id !== "accounts")
+    return baseTabs.filter((t) => !MASTER_ONLY_TAB_IDS.includes(t.id))
   }, [tabs, user?.role])
   const showCalculatorLink = canAccessCalculator(user)
 
@@ -1,11 +1,14 @@
 ﻿import {
+  BarChart3,
   BookOpen,
   Calendar,
   CheckCircle2,
   ClipboardList,
+  History,
   Megaphone,
   Settings,
   StickyNote,
+  UserRound,
   Users,
 } from "lucide-react"
 
@@ -14,8 +17,14 @@ export const ADMIN_TABS = [
   { id: "calendar", label: "캘린더", icon: Calendar },
   { id: "courses", label: "수업 목록", icon: BookOpen },
   { id: "registrations", label: "등록현황", icon: ClipboardList },
+  { id: "students", label: "학생", icon: UserRound },
   { id: "attendance", label: "출석부", icon: CheckCircle2 },
   { id: "notes", label: "과목별 메모", icon: StickyNote },
+  { id: "analytics", label: "통계", icon: BarChart3 },
   { id: "accounts", label: "계정 관리", icon: Users },
+  { id: "audit", label: "변경 기록", icon: History },
   { id: "settings", label: "설정", icon: Settings },
 ]
+
+// master 계정에만 보이는 탭
+export const MASTER_ONLY_TAB_IDS = ["accounts", "audit"]
@@ -24,10 +24,12 @@ import {
 import {
   CourseDialogBasicInfoSection,
   CourseDialogBreakRangesSection,
+  CourseDialogCapacitySection,
   CourseDialogDurationSection,
   CourseDialogScheduleSection,
   CourseDialogTimeSection,
 } from "./CourseDialogCoreSections"
+import { CourseDialogOptionSection } from "./CourseDialogOptionSection"
 import { CourseDialogTextbookSection } from "./CourseDialogTextbookSection"
 import { useCourseDialogForm } from "./useCourseDialogForm"
 
@@ -141,6 +143,11 @@ export default function CourseDialog(props: CourseDialogProps) {
               dispatch={dispatch}
             />
 
+            <CourseDialogCapacitySection
+              state={state}
+              dispatch={dispatch}
+            />
+
             {state.durationUnit !== "daily" && (
               <CourseDialogScheduleSection
                 state={state}
@@ -212,6 +219,11 @@ export default function CourseDialog(props: CourseDialogProps) {
                 })
               }
             />
+
+            <CourseDialogOptionSection
+              state={state}
+              dispatch={dispatch}
+            />
           </div>
 
           <DialogFooter className="border-t bg-muted/40 px-6 py-4">
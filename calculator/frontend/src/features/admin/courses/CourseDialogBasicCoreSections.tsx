@@ -1,3 +1,4 @@
 export { CourseDialogBasicInfoSection } from "./CourseDialogBasicInfoSection"
 export { CourseDialogBreakRangesSection } from "./CourseDialogBreakRangesSection"
+export { CourseDialogCapacitySection } from "./CourseDialogCapacitySection"
 export { CourseDialogDurationSection } from "./CourseDialogDurationSection"
@@ -0,0 +1,46 @@
+import type { ChangeEvent } from "react"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+import { COURSE_DIALOG_BASIC_COPY } from "./courseDialogBasicCopy"
+import type { CourseDialogSectionProps } from "./courseDialogBasicShared"
+
+export function CourseDialogCapacitySection({ state, dispatch }: CourseDialogSectionProps) {
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{COURSE_DIALOG_BASIC_COPY.capacityTitle}</CardTitle>
+        <CardDescription>
+          {COURSE_DIALOG_BASIC_COPY.capacityDescription}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="capacity">{COURSE_DIALOG_BASIC_COPY.capacityLabel}</Label>
+          <Input
+            id="capacity"
+            type="number"
+            min={0}
+            placeholder={COURSE_DIALOG_BASIC_COPY.capacityPlaceholder}
+            value={state.capacity || ""}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              dispatch({
+                type: "SET_FIELD",
+                field: "capacity",
+                value: Math.max(parseInt(e.target.value) || 0, 0),
+              })
+            }
+          />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,7 @@
 export {
   CourseDialogBasicInfoSection,
   CourseDialogBreakRangesSection,
+  CourseDialogCapacitySection,
   CourseDialogDurationSection,
 } from "./CourseDialogBasicCoreSections"
 export {
@@ -0,0 +1,179 @@
+import type { ChangeEvent } from "react"
+
+import { Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+import type { CourseDialogSectionProps } from "./courseDialogBasicShared"
+import { COURSE_DIALOG_OPTION_COPY } from "./courseDialogOptionCopy"
+
+export function CourseDialogOptionSection({ state, dispatch }: CourseDialogSectionProps) {
+  const setField = (
+    field:
+      | "hasClassTypeOption"
+      | "classTypeRequired"
+      | "onlineFeeDelta"
+      | "offlineFeeDelta"
+      | "hasLevelOption"
+      | "levelRequired"
+      | "levelNameTemplate",
+    value: boolean | number | string
+  ) => dispatch({ type: "SET_FIELD", field, value })
+
+  return (
+    <Card className="border-border/60 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{COURSE_DIALOG_OPTION_COPY.optionTitle}</CardTitle>
+        <CardDescription>
+          {COURSE_DIALOG_OPTION_COPY.optionDescription}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              <Checkbox
+                checked={state.hasClassTypeOption}
+                onCheckedChange={(value: boolean) => setField("hasClassTypeOption", !!value)}
+              />
+              {COURSE_DIALOG_OPTION_COPY.classTypeToggleLabel}
+            </label>
+            {state.hasClassTypeOption ? (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={state.classTypeRequired}
+                  onCheckedChange={(value: boolean) => setField("classTypeRequired", !!value)}
+                />
+                {COURSE_DIALOG_OPTION_COPY.classTypeRequiredLabel}
+              </label>
+            ) : null}
+          </div>
+          {state.hasClassTypeOption ? (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="onlineFeeDelta">{COURSE_DIALOG_OPTION_COPY.onlineFeeDeltaLabel}</Label>
+                <Input
+                  id="onlineFeeDelta"
+                  type="number"
+                  value={state.onlineFeeDelta}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setField("onlineFeeDelta", parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="offlineFeeDelta">{COURSE_DIALOG_OPTION_COPY.offlineFeeDeltaLabel}</Label>
+                <Input
+                  id="offlineFeeDelta"
+                  type="number"
+                  value={state.offlineFeeDelta}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setField("offlineFeeDelta", parseInt(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          ) : null}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm font-semibold">
+              <Checkbox
+                checked={state.hasLevelOption}
+                onCheckedChange={(value: boolean) => setField("hasLevelOption", !!value)}
+              />
+              {COURSE_DIALOG_OPTION_COPY.levelToggleLabel}
+            </label>
+            {state.hasLevelOption ? (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={state.levelRequired}
+                  onCheckedChange={(value: boolean) => setField("levelRequired", !!value)}
+                />
+                {COURSE_DIALOG_OPTION_COPY.levelRequiredLabel}
+              </label>
+            ) : null}
+          </div>
+          {state.hasLevelOption ? (
+            <div className="space-y-3">
+              {state.levelChoices.length > 0 && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_40px] gap-2 px-1 text-xs font-medium text-muted-foreground">
+                    <span>{COURSE_DIALOG_OPTION_COPY.levelValueLabel}</span>
+                    <span>{COURSE_DIALOG_OPTION_COPY.levelFeeDeltaLabel}</span>
+                    <span />
+                  </div>
+                  {state.levelChoices.map((choice, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_1fr_40px] items-center gap-2">
+                      <Input
+                        value={choice.value}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                          dispatch({
+                            type: "UPDATE_LEVEL_CHOICE",
+                            index,
+                            key: "value",
+                            value: e.target.value,
+                          })
+                        }
+                        placeholder={COURSE_DIALOG_OPTION_COPY.levelValuePlaceholder}
+                      />
+                      <Input
+                        type="number"
+                        value={choice.feeDelta}
+                        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                          dispatch({
+                            type: "UPDATE_LEVEL_CHOICE",
+                            index,
+                            key: "feeDelta",
+                            value: parseInt(e.target.value) || 0,
+                          })
+                        }
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-9 w-9 text-muted-foreground hover:text-destructive"
+                        title={COURSE_DIALOG_OPTION_COPY.levelRemoveButton}
+                        onClick={() => dispatch({ type: "REMOVE_LEVEL_CHOICE", index })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => dispatch({ type: "ADD_LEVEL_CHOICE" })}
+              >
+                {COURSE_DIALOG_OPTION_COPY.levelAddButton}
+              </Button>
+              <div className="space-y-2">
+                <Label htmlFor="levelNameTemplate">{COURSE_DIALOG_OPTION_COPY.levelNameTemplateLabel}</Label>
+                <Input
+                  id="levelNameTemplate"
+                  value={state.levelNameTemplate}
+                  onChange={(e: ChangeEvent<HTMLInputElement>) => setField("levelNameTemplate", e.target.value)}
+                  placeholder={COURSE_DIALOG_OPTION_COPY.levelNameTemplatePlaceholder}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {COURSE_DIALOG_OPTION_COPY.levelNameTemplateDescription}
+                </p>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
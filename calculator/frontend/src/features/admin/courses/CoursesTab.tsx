@@ -2,13 +2,14 @@ import React, { useEffect, useState } from "react"
 
 import { Button } from "@/components/ui/button"
 
-import { BookOpen, FolderPlus, PencilLine, Plus } from "lucide-react"
+import { BookOpen, FolderPlus, PencilLine, Percent, Plus } from "lucide-react"
 
 import { courseInfo, recordingAvailable, timeTable } from "@/utils/data"
 
 import CategoryDialog from "./CategoryDialog"
 import CourseDialog from "./CourseDialog"
 import CourseNameBulkDialog from "./CourseNameBulkDialog"
+import DiscountRulesDialog from "./DiscountRulesDialog"
 import CourseTreeAccordion from "./CourseTreeAccordion"
 import CourseConfigSetToolbar from "./CourseConfigSetToolbar"
 import Toast from "./Toast"
@@ -38,6 +39,7 @@ export default function CoursesTab({ user, onDirtyChange }) {
 
   const [modal, setModal] = useState<any>({ type: null, props: {} })
   const [bulkOpen, setBulkOpen] = useState<any>(false)
+  const [discountRulesOpen, setDiscountRulesOpen] = useState(false)
   const hasSelection = Boolean(selectedCourseConfigSet)
 
   const handleDeleteCourseConfigSetSecure = async () => {
@@ -78,6 +80,16 @@ export default function CoursesTab({ user, onDirtyChange }) {
               <PencilLine className="h-4 w-4" />
               수업명 일괄 변경
             </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDiscountRulesOpen(true)}
+              disabled={!hasSelection}
+              className="gap-2 rounded-xl border-white/40 bg-white/60 shadow-sm backdrop-blur-sm transition-all hover:bg-white/80 hover:shadow-md"
+            >
+              <Percent className="h-4 w-4" />
+              할인 규칙
+            </Button>
             <Button
               type="button"
               variant="outline"
@@ -170,6 +182,14 @@ export default function CoursesTab({ user, onDirtyChange }) {
         showToast={showToast}
       />
 
+      <DiscountRulesDialog
+        isOpen={discountRulesOpen}
+        onClose={() => setDiscountRulesOpen(false)}
+        courseConfigSetName={selectedCourseConfigSet}
+        courseTree={courseTree}
+        showToast={showToast}
+      />
+
         <Toast message={toast.visible ? toast.message : ""} />
       </div>
       {reauthDialog}
@@ -0,0 +1,339 @@
+import React, { useCallback, useEffect, useState } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { apiClient } from "@/api-client"
+
+import { Pencil, Plus, Trash2 } from "lucide-react"
+
+import {
+  DISCOUNT_RULE_TYPE_LABELS,
+  DISCOUNT_RULE_TYPE_OPTIONS,
+  buildRulePayload,
+  createEmptyRuleForm,
+  describeRuleCondition,
+  formatRuleRate,
+  ruleToForm,
+  type DiscountRuleForm,
+  type SavedDiscountRule,
+} from "./discountRuleModel"
+
+type CourseTreeGroup = {
+  cat?: string
+  items?: Array<{ val?: string; label?: string }>
+}
+
+type DiscountRulesDialogProps = {
+  isOpen: boolean
+  onClose: () => void
+  courseConfigSetName: string
+  courseTree: CourseTreeGroup[]
+  showToast?: (message: string) => void
+}
+
+export default function DiscountRulesDialog({
+  isOpen,
+  onClose,
+  courseConfigSetName,
+  courseTree,
+  showToast,
+}: DiscountRulesDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [rules, setRules] = useState<SavedDiscountRule[]>([])
+  const [form, setForm] = useState<DiscountRuleForm | null>(null)
+
+  const setName = String(courseConfigSetName || "").trim()
+
+  const loadRules = useCallback(async () => {
+    if (!setName) {
+      setRules([])
+      setError("설정 세트를 선택해 주세요.")
+      return
+    }
+    setLoading(true)
+    setError("")
+    try {
+      const res = await apiClient.listDiscountRules(setName)
+      setRules(Array.isArray(res?.results) ? res.results : [])
+    } catch (e) {
+      setRules([])
+      setError(e instanceof Error ? e.message : "할인 규칙을 불러오지 못했습니다.")
+    } finally {
+      setLoading(false)
+    }
+  }, [setName])
+
+  useEffect(() => {
+    if (!isOpen) return
+    setForm(null)
+    loadRules()
+  }, [isOpen, loadRules])
+
+  const updateForm = (patch: Partial<DiscountRuleForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev))
+  }
+
+  const toggleCourseKey = (key: string, checked: boolean) => {
+    setForm((prev) => {
+      if (!prev) return prev
+      const next = new Set(prev.courseKeys)
+      if (checked) next.add(key)
+      else next.delete(key)
+      return { ...prev, courseKeys: Array.from(next) }
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form || saving) return
+    setSaving(true)
+    setError("")
+    try {
+      const payload = buildRulePayload(form, setName)
+      if (form.id) {
+        await apiClient.updateDiscountRule(form.id, payload)
+      } else {
+        await apiClient.createDiscountRule(payload)
+      }
+      showToast?.(form.id ? "할인 규칙을 수정했습니다." : "할인 규칙을 추가했습니다.")
+      setForm(null)
+      await loadRules()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "할인 규칙을 저장하지 못했습니다.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: SavedDiscountRule) => {
+    setError("")
+    try {
+      await apiClient.updateDiscountRule(
+        rule.id,
+        buildRulePayload({ ...ruleToForm(rule), isActive: !rule.isActive }, setName)
+      )
+      await loadRules()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "할인 규칙을 수정하지 못했습니다.")
+    }
+  }
+
+  const handleDelete = async (rule: SavedDiscountRule) => {
+    if (!confirm(`'${rule.name}' 할인 규칙을 삭제할까요?`)) return
+    setError("")
+    try {
+      await apiClient.deleteDiscountRule(rule.id)
+      showToast?.("할인 규칙을 삭제했습니다.")
+      await loadRules()
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "할인 규칙을 삭제하지 못했습니다.")
+    }
+  }
+
+  const renderForm = (current: DiscountRuleForm) => (
+    <div className="space-y-3 rounded-lg border border-border/60 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label>이름</Label>
+          <Input
+            value={current.name}
+            onChange={(e) => updateForm({ name: e.target.value })}
+            placeholder="예: 형제 할인"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>종류</Label>
+          <Select
+            value={current.type}
+            onValueChange={(value) => updateForm({ type: value as DiscountRuleForm["type"] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DISCOUNT_RULE_TYPE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>할인율 (%)</Label>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={current.ratePercent}
+            onChange={(e) => updateForm({ ratePercent: e.target.value })}
+          />
+        </div>
+        {current.type === "multiCourse" ? (
+          <div className="space-y-1">
+            <Label>최소 과목 수</Label>
+            <Input
+              type="number"
+              min={2}
+              value={current.minCourses}
+              onChange={(e) => updateForm({ minCourses: e.target.value })}
+            />
+          </div>
+        ) : null}
+        {current.type === "earlyBird" ? (
+          <div className="space-y-1">
+            <Label>등록 마감일</Label>
+            <Input
+              type="date"
+              value={current.deadline}
+              onChange={(e) => updateForm({ deadline: e.target.value })}
+            />
+          </div>
+        ) : null}
+        {current.type === "coupon" ? (
+          <div className="space-y-1">
+            <Label>쿠폰 코드</Label>
+            <Input
+              value={current.couponCode}
+              onChange={(e) => updateForm({ couponCode: e.target.value.toUpperCase() })}
+            />
+          </div>
+        ) : null}
+      </div>
+
+      <div className="space-y-1">
+        <Label>적용 과목</Label>
+        <p className="text-xs text-muted-foreground">선택하지 않으면 모든 과목에 적용됩니다.</p>
+        <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border border-border/60 p-2">
+          {courseTree.map((group) => (
+            <div key={group.cat || ""}>
+              <div className="text-xs font-semibold text-muted-foreground">{group.cat}</div>
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                {(group.items || []).filter((item) => item.val).map((item) => (
+                  <label key={item.val} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={current.courseKeys.includes(String(item.val))}
+                      onCheckedChange={(checked) => toggleCourseKey(String(item.val), checked === true)}
+                    />
+                    {item.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={current.isActive} onCheckedChange={(checked) => updateForm({ isActive: checked })} />
+          사용
+        </label>
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setForm(null)} disabled={saving}>
+            취소
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+            {current.id ? "수정 저장" : "추가"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) onClose()
+      }}
+    >
+      <DialogContent className="flex max-h-[85vh] max-w-3xl flex-col overflow-hidden p-0">
+        <DialogHeader className="border-b bg-muted/40 px-6 py-4 text-left">
+          <DialogTitle>할인 규칙</DialogTitle>
+          <DialogDescription>
+            계산기에서 조건에 맞는 할인을 자동으로 적용합니다. 여러 규칙이 맞으면 할인율을 더합니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          {form ? renderForm(form) : (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setForm(createEmptyRuleForm(rules.length))}
+              disabled={!setName || loading}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              규칙 추가
+            </Button>
+          )}
+
+          <div className="rounded-lg border border-border/60">
+            {loading ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">할인 규칙을 불러오는 중...</div>
+            ) : rules.length === 0 ? (
+              <div className="px-3 py-6 text-sm text-muted-foreground">등록된 할인 규칙이 없습니다.</div>
+            ) : (
+              rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between gap-3 border-b border-border/60 px-3 py-2 text-sm last:border-b-0 ${rule.isActive ? "" : "opacity-50"}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="secondary">{DISCOUNT_RULE_TYPE_LABELS[rule.type as keyof typeof DISCOUNT_RULE_TYPE_LABELS] || rule.type}</Badge>
+                      <span className="font-semibold text-emerald-700">{formatRuleRate(rule.rate)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {describeRuleCondition(rule)}
+                      {rule.courseKeys?.length ? ` · 과목 ${rule.courseKeys.length}개` : " · 전체 과목"}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Switch checked={rule.isActive} onCheckedChange={() => handleToggleActive(rule)} />
+                    <Button type="button" variant="ghost" size="icon" title="수정" onClick={() => setForm(ruleToForm(rule))}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title="삭제"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter className="border-t bg-muted/40 px-6 py-4">
+          <Button type="button" variant="outline" onClick={onClose}>
+            닫기
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
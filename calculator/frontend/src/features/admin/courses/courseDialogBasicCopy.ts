@@ -23,6 +23,11 @@ export const COURSE_DIALOG_BASIC_COPY = {
   durationDescription: "\uCD5C\uC18C/\uCD5C\uB300 \uB4F1\uB85D \uAC00\uB2A5 \uC8FC\uCC28\uB97C \uC124\uC815\uD569\uB2C8\uB2E4.",
   minDurationLabel: "\uCD5C\uC18C \uC8FC\uCC28(\uC8FC)",
   maxDurationLabel: "\uCD5C\uB300 \uC8FC\uCC28(\uC8FC)",
+  capacityTitle: "\uBC18 \uC815\uC6D0",
+  capacityDescription:
+    "\uC2DC\uAC04\u00B7\uC218\uC5C5 \uD615\uD0DC\uAC00 \uAC19\uC740 \uD559\uC0DD\uB07C\uB9AC \uD55C \uBC18\uC73C\uB85C \uC138\uC5B4, \uC815\uC6D0\uC774 \uCC28\uBA74 \uACC4\uC0B0\uAE30\uC5D0\uC11C \uB300\uAE30 \uB4F1\uB85D\uC744 \uC548\uB0B4\uD569\uB2C8\uB2E4.",
+  capacityLabel: "\uBC18\uBCC4 \uC815\uC6D0(\uBA85)",
+  capacityPlaceholder: "0\uC774\uBA74 \uC81C\uD55C \uC5C6\uC74C",
   breakRangesTitle: "\uD734\uAC15 \uAE30\uAC04",
   breakRangesDescription:
     "\uACFC\uBAA9 \uC6B4\uC601 \uC911 \uC26C\uB294 \uAE30\uAC04\uC774 \uC788\uC73C\uBA74 \uC2DC\uC791\uC77C\uACFC \uC885\uB8CC\uC77C\uC744 \uC785\uB825\uD574 \uACC4\uC0B0\uC5D0\uC11C \uC81C\uC678\uD569\uB2C8\uB2E4.",
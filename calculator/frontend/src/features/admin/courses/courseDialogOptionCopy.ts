@@ -0,0 +1,20 @@
+export const COURSE_DIALOG_OPTION_COPY = {
+  optionTitle: "\uC218\uAC15 \uC635\uC158",
+  optionDescription:
+    "\uACC4\uC0B0\uAE30\uC5D0\uC11C \uACE0\uB974\uB294 \uC218\uC5C5 \uD615\uD0DC\uC640 \uB808\uBCA8\uC744 \uC124\uC815\uD569\uB2C8\uB2E4. \uAC00\uAC10\uC561\uC740 \uC8FC \uB2E8\uC704 \uACFC\uBAA9\uC740 \uC8FC\uB2F9, \uC77C \uB2E8\uC704 \uACFC\uBAA9\uC740 \uC77C\uB2F9 \uAE08\uC561\uC785\uB2C8\uB2E4.",
+  classTypeToggleLabel: "\uC218\uC5C5 \uD615\uD0DC(\uC628\uB77C\uC778/\uC624\uD504\uB77C\uC778) \uC120\uD0DD",
+  classTypeRequiredLabel: "\uD544\uC218 \uC120\uD0DD",
+  onlineFeeDeltaLabel: "\uC628\uB77C\uC778 \uAC00\uAC10\uC561(\uC6D0)",
+  offlineFeeDeltaLabel: "\uC624\uD504\uB77C\uC778 \uAC00\uAC10\uC561(\uC6D0)",
+  levelToggleLabel: "\uB808\uBCA8 \uC120\uD0DD",
+  levelRequiredLabel: "\uD544\uC218 \uC120\uD0DD",
+  levelValueLabel: "\uB808\uBCA8",
+  levelFeeDeltaLabel: "\uAC00\uAC10\uC561(\uC6D0)",
+  levelValuePlaceholder: "\uC608: Lv.1",
+  levelAddButton: "+ \uB808\uBCA8 \uCD94\uAC00",
+  levelRemoveButton: "\uC0AD\uC81C",
+  levelNameTemplateLabel: "\uB808\uBCA8 \uD45C\uC2DC \uC774\uB984",
+  levelNameTemplatePlaceholder: "{name} {level}",
+  levelNameTemplateDescription:
+    "{name}\uC740 \uACFC\uBAA9\uBA85, {level}\uC740 \uC120\uD0DD\uD55C \uB808\uBCA8\uB85C \uBC14\uB01D\uB2C8\uB2E4. \uBE44\uC6B0\uBA74 \uACFC\uBAA9\uBA85 \uB4A4\uC5D0 \uB808\uBCA8\uC744 \uBD99\uC785\uB2C8\uB2E4.",
+} as const
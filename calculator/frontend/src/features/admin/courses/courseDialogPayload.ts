@@ -1,3 +1,4 @@
+import { getLevelChoices, type CourseOptions } from "@shared/courseOptions"
 import type { BreakRangeInput } from "@/utils/data"
 
 import { OFFLINE_KEY, ONLINE_KEY } from "./courseDialogConstants"
@@ -131,6 +132,26 @@ function buildBreakRanges(breakRanges?: BreakRangeInput[]) {
   }))
 }
 
+function resolveOptionState(options: CourseOptions | undefined) {
+  const classTypeChoices = Array.isArray(options?.classType?.choices) ? options.classType.choices : []
+  const findClassTypeDelta = (key: string) =>
+    Number(classTypeChoices.find((choice) => choice?.value === key)?.feeDelta) || 0
+
+  return {
+    hasClassTypeOption: !!options?.classType,
+    classTypeRequired: !!options?.classType?.required,
+    onlineFeeDelta: findClassTypeDelta(ONLINE_KEY),
+    offlineFeeDelta: findClassTypeDelta(OFFLINE_KEY),
+    hasLevelOption: getLevelChoices(options).length > 0,
+    levelRequired: !!options?.level?.required,
+    levelChoices: getLevelChoices(options).map((choice) => ({
+      value: choice.value,
+      feeDelta: choice.feeDelta || 0,
+    })),
+    levelNameTemplate: options?.level?.nameTemplate || "",
+  }
+}
+
 function buildCourseFormStatePayload(courseData: CourseData): Partial<CourseFormState> {
   const info = courseData.info || {}
   const timeState = resolveTimeState(courseData.timeData)
@@ -153,6 +174,7 @@ function buildCourseFormStatePayload(courseData: CourseData): Partial<CourseForm
     endDays: Array.isArray(info.endDays) ? info.endDays.slice(0, 1) : [],
     minDuration: info.min || 1,
     maxDuration: info.max || 12,
+    capacity: info.capacity || 0,
     timeType: timeState.timeType,
     timeDefault: timeState.timeDefault,
     timeOnline: timeState.timeOnline,
@@ -163,6 +185,7 @@ function buildCourseFormStatePayload(courseData: CourseData): Partial<CourseForm
     isRecordingOffline: recordingState.isRecordingOffline,
     hasMathOption: info.hasMathOption || false,
     mathExcludedFee: info.mathExcludedFee || 0,
+    ...resolveOptionState(info.options),
     installmentEligible: !!info.installmentEligible,
     breakRanges: buildBreakRanges(info.breakRanges),
   }
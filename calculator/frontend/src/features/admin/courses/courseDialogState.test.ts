@@ -78,4 +78,31 @@ describe("courseDialogState", () => {
     expect(textbookUpdated.dynamicOptions).toEqual([{ label: "Speaking", time: "" }])
     expect(textbookUpdated.textbook.customNote).toBe("Printer included")
   })
+
+  it("hydrates class type and level options", () => {
+    const payload = buildCourseFormStatePayload({
+      name: "DRW A",
+      info: {
+        options: {
+          classType: { required: true, choices: [{ value: OFFLINE_KEY, feeDelta: 30000 }] },
+          level: { required: true, choices: [{ value: "Lv.1" }, { value: "Lv.2", feeDelta: 10000 }], nameTemplate: "DRW {level}A" },
+        },
+      },
+    })
+
+    expect(payload).toMatchObject({
+      hasClassTypeOption: true,
+      classTypeRequired: true,
+      onlineFeeDelta: 0,
+      offlineFeeDelta: 30000,
+      hasLevelOption: true,
+      levelRequired: true,
+      levelChoices: [{ value: "Lv.1", feeDelta: 0 }, { value: "Lv.2", feeDelta: 10000 }],
+      levelNameTemplate: "DRW {level}A",
+    })
+
+    const withLevel = courseFormReducer({ ...initialCourseFormState, ...payload }, { type: "ADD_LEVEL_CHOICE" })
+    const removed = courseFormReducer(withLevel, { type: "REMOVE_LEVEL_CHOICE", index: 0 })
+    expect(removed.levelChoices.map((choice) => choice.value)).toEqual(["Lv.2", ""])
+  })
 })
@@ -80,6 +80,21 @@ function courseFormReducer(state: CourseFormState, action: CourseAction): Course
         ...state,
         dailyFees: state.dailyFees.filter((_, index) => index !== action.index),
       }
+    case "ADD_LEVEL_CHOICE":
+      return {
+        ...state,
+        levelChoices: [...state.levelChoices, { value: "", feeDelta: 0 }],
+      }
+    case "UPDATE_LEVEL_CHOICE": {
+      const nextChoices = [...state.levelChoices]
+      nextChoices[action.index] = { ...nextChoices[action.index], [action.key]: action.value }
+      return { ...state, levelChoices: nextChoices }
+    }
+    case "REMOVE_LEVEL_CHOICE":
+      return {
+        ...state,
+        levelChoices: state.levelChoices.filter((_, index) => index !== action.index),
+      }
     case "TOGGLE_AVAILABLE_DATE": {
       const dateStr = action.date
       const has = state.availableDates.includes(dateStr)
@@ -106,6 +121,7 @@ export type {
   CourseFormState,
   DailyFeeEntry,
   DynamicOption,
+  LevelChoice,
   RecordingData,
   TextbookState,
   TimeData,
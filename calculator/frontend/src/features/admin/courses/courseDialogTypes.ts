@@ -1,3 +1,4 @@
+import type { CourseOptions } from "@shared/courseOptions"
 import type { BreakRangeInput } from "@/utils/data"
 
 type TextbookState = {
@@ -13,6 +14,7 @@ type TextbookState = {
 type DynamicOption = { label: string; time: string }
 type BreakRange = { startDate: string; endDate: string }
 type DailyFeeEntry = { days: number; fee: number }
+type LevelChoice = { value: string; feeDelta: number }
 
 type CourseFormState = {
   category: string
@@ -27,6 +29,7 @@ type CourseFormState = {
   endDays: number[]
   minDuration: number
   maxDuration: number
+  capacity: number
   timeType: "default" | "onoff" | "dynamic"
   timeDefault: string
   timeOnline: string
@@ -37,6 +40,14 @@ type CourseFormState = {
   isRecordingOffline: boolean
   hasMathOption: boolean
   mathExcludedFee: number
+  hasClassTypeOption: boolean
+  classTypeRequired: boolean
+  onlineFeeDelta: number
+  offlineFeeDelta: number
+  hasLevelOption: boolean
+  levelRequired: boolean
+  levelChoices: LevelChoice[]
+  levelNameTemplate: string
   installmentEligible: boolean
   breakRanges: BreakRange[]
 }
@@ -68,6 +79,9 @@ type CourseAction =
   | { type: "ADD_DAILY_FEE" }
   | { type: "UPDATE_DAILY_FEE"; index: number; key: keyof DailyFeeEntry; value: number }
   | { type: "REMOVE_DAILY_FEE"; index: number }
+  | { type: "ADD_LEVEL_CHOICE" }
+  | { type: "UPDATE_LEVEL_CHOICE"; index: number; key: keyof LevelChoice; value: LevelChoice[keyof LevelChoice] }
+  | { type: "REMOVE_LEVEL_CHOICE"; index: number }
   | { type: "TOGGLE_AVAILABLE_DATE"; date: string }
   | { type: "SET_AVAILABLE_DATES"; dates: string[] }
 
@@ -96,8 +110,10 @@ type CourseData = {
     endDays?: number[]
     min?: number
     max?: number
+    capacity?: number
     hasMathOption?: boolean
     mathExcludedFee?: number
+    options?: CourseOptions
     installmentEligible?: boolean
     breakRanges?: BreakRangeInput[]
   } & Record<string, unknown>
@@ -126,6 +142,7 @@ const initialCourseFormState: CourseFormState = {
   endDays: [],
   minDuration: 1,
   maxDuration: 12,
+  capacity: 0,
   timeType: "default",
   timeDefault: "",
   timeOnline: "",
@@ -136,6 +153,14 @@ const initialCourseFormState: CourseFormState = {
   isRecordingOffline: false,
   hasMathOption: false,
   mathExcludedFee: 0,
+  hasClassTypeOption: false,
+  classTypeRequired: false,
+  onlineFeeDelta: 0,
+  offlineFeeDelta: 0,
+  hasLevelOption: false,
+  levelRequired: false,
+  levelChoices: [],
+  levelNameTemplate: "",
   installmentEligible: false,
   breakRanges: [],
 }
@@ -149,6 +174,7 @@ export type {
   CourseFormState,
   DailyFeeEntry,
   DynamicOption,
+  LevelChoice,
   RecordingData,
   TextbookState,
   TimeData,
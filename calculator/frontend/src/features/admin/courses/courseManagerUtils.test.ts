@@ -5,6 +5,7 @@ import {
   buildCourseCategoryMapFromTree,
   buildCourseConfigSetSnapshot,
   buildCourseInfoValueFromForm,
+  buildCourseOptionsFromForm,
   buildDeletedCourseState,
   buildRecordingValueFromForm,
   buildSavedCourseState,
@@ -156,6 +157,30 @@ describe("courseManagerUtils", () => {
     })
   })
 
+  it("buildCourseOptionsFromForm keeps only enabled option groups", () => {
+    expect(buildCourseOptionsFromForm({ hasClassTypeOption: false, hasLevelOption: false })).toBeNull()
+    expect(
+      buildCourseOptionsFromForm({
+        hasClassTypeOption: true,
+        classTypeRequired: true,
+        onlineFeeDelta: "-50000",
+        hasLevelOption: true,
+        levelRequired: true,
+        levelChoices: [{ value: " Lv.1 ", feeDelta: 0 }, { value: "", feeDelta: 10000 }],
+        levelNameTemplate: " ",
+      })
+    ).toEqual({
+      classType: {
+        required: true,
+        choices: [
+          { value: ONLINE_KEY, feeDelta: -50000 },
+          { value: OFFLINE_KEY, feeDelta: 0 },
+        ],
+      },
+      level: { required: true, choices: [{ value: "Lv.1", feeDelta: 0 }] },
+    })
+  })
+
   it("buildCourseInfoValueFromForm preserves defaults and maps flags", () => {
     expect(
       buildCourseInfoValueFromForm({
@@ -195,6 +220,25 @@ describe("courseManagerUtils", () => {
     })
   })
 
+  it("buildCourseInfoValueFromForm keeps capacity only when it is positive", () => {
+    expect(
+      buildCourseInfoValueFromForm({
+        formData: { capacity: "12" },
+        name: "SAT Math",
+        previousInfo: {},
+        breakRanges: [],
+      }).capacity
+    ).toBe(12)
+    expect(
+      buildCourseInfoValueFromForm({
+        formData: { capacity: 0 },
+        name: "SAT Math",
+        previousInfo: { capacity: 8 },
+        breakRanges: [],
+      })
+    ).not.toHaveProperty("capacity")
+  })
+
   it("findDuplicateCourseByName returns a conflicting item when labels collide", () => {
     const courseTree = [
       {
@@ -1,3 +1,5 @@
+import type { CourseOptions } from "@shared/courseOptions"
+
 import {
   BREAK_RANGE_FORMAT_ERROR,
   BREAK_RANGE_REQUIRED_ERROR,
@@ -73,6 +75,36 @@ export function buildRecordingValueFromForm(formData) {
   return !!formData?.isRecordingAvailable
 }
 
+export function buildCourseOptionsFromForm(formData) {
+  const options: CourseOptions = {}
+  if (formData?.hasClassTypeOption) {
+    options.classType = {
+      required: !!formData?.classTypeRequired,
+      choices: [
+        { value: ONLINE_KEY, feeDelta: Number(formData?.onlineFeeDelta || 0) },
+        { value: OFFLINE_KEY, feeDelta: Number(formData?.offlineFeeDelta || 0) },
+      ],
+    }
+  }
+
+  const levelChoices = (Array.isArray(formData?.levelChoices) ? formData.levelChoices : [])
+    .map((choice) => ({
+      value: String(choice?.value || "").trim(),
+      feeDelta: Number(choice?.feeDelta || 0),
+    }))
+    .filter((choice) => choice.value)
+  if (formData?.hasLevelOption && levelChoices.length > 0) {
+    options.level = {
+      required: !!formData?.levelRequired,
+      choices: levelChoices,
+    }
+    const nameTemplate = String(formData?.levelNameTemplate || "").trim()
+    if (nameTemplate) options.level.nameTemplate = nameTemplate
+  }
+
+  return Object.keys(options).length > 0 ? options : null
+}
+
 export function buildCourseInfoValueFromForm({
   formData,
   name,
@@ -91,9 +123,15 @@ export function buildCourseInfoValueFromForm({
   next.max = Number(formData?.maxDuration || 12)
   next.minDuration = next.min
   next.maxDuration = next.max
+  const capacity = Math.trunc(Number(formData?.capacity || 0))
+  if (capacity > 0) next.capacity = capacity
+  else delete next.capacity
   const hasMathOption = !!formData?.hasMathOption
   next.hasMathOption = hasMathOption
   next.mathExcludedFee = hasMathOption ? Number(formData?.mathExcludedFee || 0) : 0
+  const options = buildCourseOptionsFromForm(formData)
+  if (options) next.options = options
+  else delete next.options
   next.installmentEligible = !!formData?.installmentEligible
   next.durationUnit = formData?.durationUnit || "weekly"
   if (next.durationUnit === "daily") {
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildRulePayload,
+  createEmptyRuleForm,
+  describeRuleCondition,
+  formatRuleRate,
+  ruleToForm,
+  type SavedDiscountRule,
+} from "./discountRuleModel"
+
+const savedRule: SavedDiscountRule = {
+  id: "rule-1",
+  courseConfigSetName: "2026 봄",
+  name: "다과목 할인",
+  type: "multiCourse",
+  rate: 0.075,
+  minCourses: 3,
+  courseKeys: ["sat_1500"],
+  isActive: true,
+  sortOrder: 2,
+}
+
+describe("discountRuleModel", () => {
+  it("converts the percent input into a rate and keeps only the fields for the type", () => {
+    const form = { ...createEmptyRuleForm(), name: " 봄 쿠폰 ", type: "coupon" as const, ratePercent: "12.5", couponCode: " SPRING ", deadline: "2026-02-28" }
+    expect(buildRulePayload(form, "2026 봄")).toEqual({
+      courseConfigSetName: "2026 봄",
+      name: "봄 쿠폰",
+      type: "coupon",
+      rate: 0.125,
+      minCourses: null,
+      deadline: null,
+      couponCode: "SPRING",
+      courseKeys: [],
+      isActive: true,
+      sortOrder: 0,
+    })
+  })
+
+  it("round-trips a saved rule through the form", () => {
+    const form = ruleToForm(savedRule)
+    expect(form.ratePercent).toBe("7.5")
+    expect(form.minCourses).toBe("3")
+    expect(buildRulePayload(form, savedRule.courseConfigSetName)).toMatchObject({
+      rate: 0.075,
+      minCourses: 3,
+      courseKeys: ["sat_1500"],
+      sortOrder: 2,
+    })
+  })
+
+  it("describes the condition of each rule type", () => {
+    expect(describeRuleCondition(savedRule)).toBe("3과목 이상 함께 등록 시")
+    expect(describeRuleCondition({ type: "earlyBird", deadline: "2026-02-28" })).toBe("2026-02-28까지 등록 시")
+    expect(describeRuleCondition({ type: "coupon", couponCode: "SPRING" })).toBe("쿠폰 코드 SPRING")
+    expect(formatRuleRate(0.1)).toBe("10%")
+  })
+})
@@ -0,0 +1,105 @@
+import {
+  DEFAULT_MIN_COURSES,
+  DISCOUNT_RULE_TYPES,
+  type DiscountRule,
+  type DiscountRuleType,
+} from "@shared/discountEngine"
+
+export type SavedDiscountRule = DiscountRule & {
+  courseConfigSetName: string
+  isActive: boolean
+  sortOrder: number
+}
+
+export type DiscountRuleForm = {
+  id: string
+  name: string
+  type: DiscountRuleType
+  ratePercent: string
+  minCourses: string
+  deadline: string
+  couponCode: string
+  courseKeys: string[]
+  isActive: boolean
+  sortOrder: number
+}
+
+export const DISCOUNT_RULE_TYPE_LABELS: Record<DiscountRuleType, string> = {
+  sibling: "형제/자매 할인",
+  multiCourse: "다과목 할인",
+  earlyBird: "조기 등록 할인",
+  returning: "재원생 할인",
+  coupon: "쿠폰 할인",
+}
+
+export const DISCOUNT_RULE_TYPE_OPTIONS = Object.values(DISCOUNT_RULE_TYPES).map((type) => ({
+  value: type,
+  label: DISCOUNT_RULE_TYPE_LABELS[type],
+}))
+
+export function createEmptyRuleForm(sortOrder = 0): DiscountRuleForm {
+  return {
+    id: "",
+    name: "",
+    type: DISCOUNT_RULE_TYPES.sibling,
+    ratePercent: "",
+    minCourses: String(DEFAULT_MIN_COURSES),
+    deadline: "",
+    couponCode: "",
+    courseKeys: [],
+    isActive: true,
+    sortOrder,
+  }
+}
+
+export function ruleToForm(rule: SavedDiscountRule): DiscountRuleForm {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type as DiscountRuleType,
+    // 0.1 → "10" (부동소수 오차 제거)
+    ratePercent: String(Math.round(Number(rule.rate || 0) * 10000) / 100),
+    minCourses: String(rule.minCourses ?? DEFAULT_MIN_COURSES),
+    deadline: rule.deadline || "",
+    couponCode: rule.couponCode || "",
+    courseKeys: Array.isArray(rule.courseKeys) ? [...rule.courseKeys] : [],
+    isActive: rule.isActive !== false,
+    sortOrder: rule.sortOrder ?? 0,
+  }
+}
+
+export function buildRulePayload(form: DiscountRuleForm, courseConfigSetName: string) {
+  return {
+    courseConfigSetName,
+    name: form.name.trim(),
+    type: form.type,
+    rate: Math.round(Number(form.ratePercent) * 100) / 10000,
+    minCourses: form.type === DISCOUNT_RULE_TYPES.multiCourse ? Number(form.minCourses) : null,
+    deadline: form.type === DISCOUNT_RULE_TYPES.earlyBird ? form.deadline : null,
+    couponCode: form.type === DISCOUNT_RULE_TYPES.coupon ? form.couponCode.trim() : null,
+    courseKeys: form.courseKeys,
+    isActive: form.isActive,
+    sortOrder: form.sortOrder,
+  }
+}
+
+export function formatRuleRate(rate: number) {
+  return `${Math.round(Number(rate || 0) * 10000) / 100}%`
+}
+
+export function describeRuleCondition(rule: Pick<DiscountRule, "type" | "minCourses" | "deadline" | "couponCode">) {
+  switch (rule.type) {
+    case DISCOUNT_RULE_TYPES.sibling:
+      return "형제/자매 재원 체크 시"
+    case DISCOUNT_RULE_TYPES.multiCourse:
+      return `${rule.minCourses || DEFAULT_MIN_COURSES}과목 이상 함께 등록 시`
+    case DISCOUNT_RULE_TYPES.earlyBird:
+      return `${rule.deadline || "-"}까지 등록 시`
+    case DISCOUNT_RULE_TYPES.returning:
+      return "이전 등록 기록이 있는 학생"
+    case DISCOUNT_RULE_TYPES.coupon:
+      return `쿠폰 코드 ${rule.couponCode || "-"}`
+    default:
+      return ""
+  }
+}
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useState } from "react"
+import type { ChangeEvent, KeyboardEvent } from "react"
+
+import { Plus, Send } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+
+import { NOTIFICATION_COPY as COPY } from "./notificationCopy"
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  buildNotificationPayload,
+  formatPhone,
+  getMessageByteLength,
+  getSmsType,
+  normalizePhoneDigits,
+  type NotificationChannel,
+  type NotificationKind,
+  type NotificationRecipient,
+} from "./notificationModel"
+import { useNotificationRecipients } from "./useNotificationRecipients"
+
+type NotificationComposeDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  kind: NotificationKind
+  initialBody: string
+  studentName: string
+  studentId?: string
+  registrationId?: string
+  onSent?: () => void
+}
+
+/**
+ * 학부모 메시지 확인·발송. 직원이 받는 사람과 내용을 확인한 뒤 대기열에 넣는다.
+ */
+export default function NotificationComposeDialog({
+  open,
+  onOpenChange,
+  kind,
+  initialBody,
+  studentName,
+  studentId,
+  registrationId,
+  onSent,
+}: NotificationComposeDialogProps) {
+  const { channels, recipients, resolvedStudentId, loading } = useNotificationRecipients({
+    open,
+    studentName,
+    studentId,
+  })
+  const [channel, setChannel] = useState<NotificationChannel>("sms")
+  const [body, setBody] = useState("")
+  const [manualRecipients, setManualRecipients] = useState<NotificationRecipient[]>([])
+  const [manualPhone, setManualPhone] = useState("")
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [sending, setSending] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    setBody(initialBody)
+    setManualRecipients([])
+    setManualPhone("")
+    setError("")
+  }, [initialBody, open])
+
+  useEffect(() => {
+    // 보호자가 있으면 첫 보호자를 기본으로 고른다
+    setSelectedKeys(recipients.length ? [recipients[0].key] : [])
+  }, [recipients])
+
+  useEffect(() => {
+    const firstAvailable = channels.find((option) => option.available)
+    if (firstAvailable && !channels.some((option) => option.channel === channel && option.available)) {
+      setChannel(firstAvailable.channel)
+    }
+  }, [channel, channels])
+
+  const allRecipients = useMemo(() => [...recipients, ...manualRecipients], [manualRecipients, recipients])
+  const bytes = getMessageByteLength(body)
+
+  const toggleRecipient = (key: string, checked: boolean) =>
+    setSelectedKeys((prev) => (checked ? [...prev, key] : prev.filter((value) => value !== key)))
+
+  const addManualPhone = () => {
+    const phone = normalizePhoneDigits(manualPhone)
+    if (!phone) {
+      setError(COPY.invalidPhone)
+      return
+    }
+    setError("")
+    if (!allRecipients.some((recipient) => recipient.key === phone)) {
+      setManualRecipients((prev) => [...prev, { key: phone, label: formatPhone(phone), name: "", phone }])
+    }
+    setSelectedKeys((prev) => (prev.includes(phone) ? prev : [...prev, phone]))
+    setManualPhone("")
+  }
+
+  async function handleSend() {
+    const selected = allRecipients.filter((recipient) => selectedKeys.includes(recipient.key))
+    if (!selected.length) {
+      setError(COPY.recipientRequired)
+      return
+    }
+    if (!body.trim()) {
+      setError(COPY.bodyRequired)
+      return
+    }
+    setSending(true)
+    setError("")
+    try {
+      await apiClient.sendNotifications(
+        buildNotificationPayload({
+          channel,
+          kind,
+          body,
+          recipients: selected,
+          studentId: resolvedStudentId,
+          registrationId,
+        })
+      )
+      onSent?.()
+      onOpenChange(false)
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.sendFailed)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{COPY.composeTitle}</DialogTitle>
+          <DialogDescription>{COPY.composeDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="space-y-2">
+            <Label>{COPY.channel}</Label>
+            <div className="flex gap-2">
+              {(channels.length ? channels : [{ channel: "sms" as const, provider: "", available: false }]).map(
+                (option) => (
+                  <Button
+                    key={option.channel}
+                    type="button"
+                    size="sm"
+                    variant={channel === option.channel ? "default" : "outline"}
+                    disabled={!option.available}
+                    onClick={() => setChannel(option.channel)}
+                  >
+                    {NOTIFICATION_CHANNEL_LABELS[option.channel]}
+                    {option.available ? "" : ` (${COPY.channelUnavailable})`}
+                  </Button>
+                )
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{COPY.recipients}</Label>
+            {!loading && recipients.length === 0 ? (
+              <div className="text-xs text-muted-foreground">{COPY.recipientsEmpty}</div>
+            ) : null}
+            <div className="space-y-1.5">
+              {allRecipients.map((recipient) => (
+                <label key={recipient.key} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedKeys.includes(recipient.key)}
+                    onCheckedChange={(checked: boolean) => toggleRecipient(recipient.key, checked === true)}
+                  />
+                  <span className="font-medium">{recipient.label}</span>
+                  <span className="text-xs text-muted-foreground">{formatPhone(recipient.phone)}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={manualPhone}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setManualPhone(e.target.value)}
+                onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault()
+                    addManualPhone()
+                  }
+                }}
+                placeholder={COPY.manualPhonePlaceholder}
+                aria-label={COPY.manualPhone}
+                inputMode="tel"
+              />
+              <Button type="button" variant="outline" onClick={addManualPhone}>
+                <Plus className="mr-1 h-4 w-4" />
+                {COPY.addPhone}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{COPY.body}</Label>
+              <span className="text-xs text-muted-foreground">
+                {channel === "sms" ? `${getSmsType(body)} · ` : ""}
+                {bytes}
+                {COPY.bytesSuffix}
+              </span>
+            </div>
+            <Textarea
+              value={body}
+              onChange={(e: ChangeEvent<HTMLTextAreaElement>) => setBody(e.target.value)}
+              className="min-h-[200px] text-xs leading-relaxed"
+            />
+          </div>
+
+          {error ? <div className="text-sm text-destructive">{error}</div> : null}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={sending}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" onClick={handleSend} disabled={sending || loading}>
+            <Send className="mr-1 h-4 w-4" />
+            {sending ? COPY.sending : COPY.send}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+import { useAuth } from "@/auth-context"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { hasPermission, PERMISSION_KEYS } from "@/permissions"
+
+import { NOTIFICATION_COPY as COPY } from "./notificationCopy"
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_KIND_LABELS,
+  NOTIFICATION_STATUS_LABELS,
+  canCancelNotification,
+  canRetryNotification,
+  formatPhone,
+  normalizeNotifications,
+  type NotificationMessage,
+  type NotificationStatus,
+} from "./notificationModel"
+
+const STATUS_VARIANTS: Record<NotificationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  sending: "secondary",
+  sent: "default",
+  failed: "destructive",
+  cancelled: "outline",
+}
+
+/** 학생별 발송 기록. reloadKey가 바뀌면 다시 불러온다. */
+export default function NotificationHistory({ studentId, reloadKey = 0 }: { studentId: string; reloadKey?: number }) {
+  const { user } = useAuth()
+  const canSend = hasPermission(user, PERMISSION_KEYS.buttons.notifications)
+  const [messages, setMessages] = useState<NotificationMessage[]>([])
+  const [error, setError] = useState("")
+
+  const load = useCallback(async () => {
+    if (!studentId) return
+    try {
+      const res = await apiClient.listNotifications({ studentId })
+      setMessages(normalizeNotifications(res?.results))
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.sendFailed)
+    }
+  }, [studentId])
+
+  useEffect(() => {
+    setMessages([])
+    setError("")
+    void load()
+  }, [load, reloadKey])
+
+  async function handleRetry(id: string) {
+    try {
+      await apiClient.retryNotification(id)
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.sendFailed)
+    }
+  }
+
+  async function handleCancel(id: string) {
+    if (!window.confirm(COPY.cancelConfirm)) return
+    try {
+      await apiClient.cancelNotification(id)
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.sendFailed)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {messages.length === 0 ? (
+        <div className="text-xs text-muted-foreground">{COPY.historyEmpty}</div>
+      ) : (
+        <div className="divide-y rounded-lg border border-border/60 text-xs">
+          {messages.map((message) => (
+            <div key={message.id} className="space-y-1 px-3 py-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[message.status]}>{NOTIFICATION_STATUS_LABELS[message.status]}</Badge>
+                <span className="font-medium">{NOTIFICATION_KIND_LABELS[message.kind]}</span>
+                <span className="text-muted-foreground">
+                  {NOTIFICATION_CHANNEL_LABELS[message.channel]} · {message.recipientName}{" "}
+                  {formatPhone(message.recipientPhone)}
+                </span>
+                <span className="ml-auto text-muted-foreground">
+                  {(message.sentAt || message.createdAt).slice(0, 16).replace("T", " ")}
+                </span>
+              </div>
+              <div className="line-clamp-2 whitespace-pre-line text-muted-foreground">{message.body}</div>
+              {message.lastError ? (
+                <div className="text-destructive">
+                  {message.lastError} ({message.attempts}
+                  {COPY.attemptsSuffix})
+                </div>
+              ) : null}
+              {canSend && (canRetryNotification(message) || canCancelNotification(message)) ? (
+                <div className="flex justify-end gap-1">
+                  {canRetryNotification(message) ? (
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleRetry(message.id)}>
+                      {COPY.retry}
+                    </Button>
+                  ) : null}
+                  {canCancelNotification(message) ? (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => handleCancel(message.id)}>
+                      {COPY.cancelMessage}
+                    </Button>
+                  ) : null}
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+    </div>
+  )
+}
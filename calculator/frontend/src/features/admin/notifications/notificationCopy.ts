@@ -0,0 +1,41 @@
+export const NOTIFICATION_COPY = {
+  composeTitle: "\uD559\uBD80\uBAA8 \uBA54\uC2DC\uC9C0 \uBCF4\uB0B4\uAE30",
+  composeDescription: "\uBCF4\uB0B4\uAE30 \uC804\uC5D0 \uBC1B\uB294 \uC0AC\uB78C\uACFC \uB0B4\uC6A9\uC744 \uD655\uC778\uD558\uC138\uC694.",
+  openCompose: "\uBA54\uC2DC\uC9C0 \uBCF4\uB0B4\uAE30",
+  channel: "\uBC1C\uC1A1 \uBC29\uBC95",
+  channelSms: "\uBB38\uC790",
+  channelAlimtalk: "\uC54C\uB9BC\uD1A1",
+  channelUnavailable: "\uC124\uC815 \uC548 \uB428",
+  recipients: "\uBC1B\uB294 \uC0AC\uB78C",
+  recipientsEmpty: "\uC5F0\uB77D\uCC98\uAC00 \uB4F1\uB85D\uB41C \uD559\uC0DD \uC815\uBCF4\uAC00 \uC5C6\uC2B5\uB2C8\uB2E4. \uBC88\uD638\uB97C \uC9C1\uC811 \uC785\uB825\uD558\uC138\uC694.",
+  recipientStudent: "\uD559\uC0DD",
+  manualPhone: "\uBC88\uD638 \uC9C1\uC811 \uC785\uB825",
+  manualPhonePlaceholder: "010-0000-0000",
+  addPhone: "\uCD94\uAC00",
+  body: "\uB0B4\uC6A9",
+  bytesSuffix: "\uBC14\uC774\uD2B8",
+  send: "\uBCF4\uB0B4\uAE30",
+  sending: "\uBCF4\uB0B4\uB294 \uC911...",
+  cancel: "\uCDE8\uC18C",
+  close: "\uB2EB\uAE30",
+  sent: "\uBC1C\uC1A1 \uB300\uAE30\uC5F4\uC5D0 \uB123\uC5C8\uC2B5\uB2C8\uB2E4.",
+  sendFailed: "\uBA54\uC2DC\uC9C0\uB97C \uBCF4\uB0B4\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  recipientRequired: "\uBC1B\uB294 \uC0AC\uB78C\uC744 \uC120\uD0DD\uD574 \uC8FC\uC138\uC694.",
+  bodyRequired: "\uB0B4\uC6A9\uC744 \uC785\uB825\uD574 \uC8FC\uC138\uC694.",
+  invalidPhone: "\uBC88\uD638\uB97C \uD655\uC778\uD574 \uC8FC\uC138\uC694.",
+  historyTitle: "\uBC1C\uC1A1 \uC774\uB825",
+  historyEmpty: "\uBCF4\uB0B8 \uBA54\uC2DC\uC9C0\uAC00 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  retry: "\uB2E4\uC2DC \uBCF4\uB0B4\uAE30",
+  cancelMessage: "\uBC1C\uC1A1 \uCDE8\uC18C",
+  cancelConfirm: "\uC774 \uBA54\uC2DC\uC9C0 \uBC1C\uC1A1\uC744 \uCDE8\uC18C\uD560\uAE4C\uC694?",
+  attemptsSuffix: "\uD68C \uC2DC\uB3C4",
+  statusQueued: "\uB300\uAE30",
+  statusSending: "\uBCF4\uB0B4\uB294 \uC911",
+  statusSent: "\uBCF4\uB0C4",
+  statusFailed: "\uC2E4\uD328",
+  statusCancelled: "\uCDE8\uC18C\uB428",
+  kindInstallmentNotice: "\uBD84\uB0A9 \uC548\uB0B4",
+  kindQuote: "\uC218\uAC15 \uC548\uB0B4",
+  kindAbsenceAlert: "\uACB0\uC11D \uC54C\uB9BC",
+  kindCustom: "\uBA54\uC2DC\uC9C0",
+} as const
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildNotificationPayload,
+  buildRecipientOptions,
+  canCancelNotification,
+  canRetryNotification,
+  formatPhone,
+  getMessageByteLength,
+  getSmsType,
+  normalizeNotifications,
+} from "./notificationModel"
+
+describe("notificationModel", () => {
+  it("builds recipients from guardians and the student, skipping invalid and repeated numbers", () => {
+    const options = buildRecipientOptions({
+      name: "홍길동",
+      phone: "010-9999-0000",
+      guardians: [
+        { name: "김영희", relation: "어머니", phone: "010-1111-2222" },
+        { name: "홍판서", relation: "아버지", phone: "01011112222" },
+        { name: "이모", relation: "", phone: "123" },
+      ],
+    })
+    expect(options.map((option) => [option.label, option.phone])).toEqual([
+      ["어머니 김영희", "01011112222"],
+      ["학생 홍길동", "01099990000"],
+    ])
+    expect(buildRecipientOptions(null)).toEqual([])
+  })
+
+  it("counts Korean characters as two bytes", () => {
+    expect(getMessageByteLength("abc")).toBe(3)
+    expect(getMessageByteLength("안녕")).toBe(4)
+    expect(getSmsType("가".repeat(45))).toBe("SMS")
+    expect(getSmsType("가".repeat(46))).toBe("LMS")
+  })
+
+  it("formats phone numbers", () => {
+    expect(formatPhone("01012345678")).toBe("010-1234-5678")
+    expect(formatPhone("0212345678")).toBe("02-1234-5678")
+    expect(formatPhone("0311234567")).toBe("031-123-4567")
+  })
+
+  it("creates one message per recipient", () => {
+    const payload = buildNotificationPayload({
+      channel: "sms",
+      kind: "installment_notice",
+      body: " 안내 ",
+      recipients: [
+        { key: "a", label: "어머니", name: "김영희", phone: "01011112222" },
+        { key: "b", label: "학생", name: "홍길동", phone: "01099990000" },
+      ],
+      studentId: "s1",
+    })
+    expect(payload.messages).toHaveLength(2)
+    expect(payload.messages[0]).toEqual({
+      channel: "sms",
+      kind: "installment_notice",
+      body: "안내",
+      recipientName: "김영희",
+      recipientPhone: "01011112222",
+      studentId: "s1",
+    })
+  })
+
+  it("normalizes history rows and exposes the allowed actions", () => {
+    const [failed, sent] = normalizeNotifications([
+      { id: "n1", channel: "alimtalk", kind: "quote", status: "failed", attempts: 5 },
+      { id: "n2", channel: "fax", kind: "unknown", status: "sent" },
+      { status: "queued" },
+    ])
+    expect(failed).toMatchObject({ channel: "alimtalk", kind: "quote", attempts: 5 })
+    expect(sent).toMatchObject({ channel: "sms", kind: "custom" })
+    expect(canRetryNotification(failed)).toBe(true)
+    expect(canCancelNotification(failed)).toBe(true)
+    expect(canRetryNotification(sent)).toBe(false)
+    expect(canCancelNotification(sent)).toBe(false)
+  })
+})
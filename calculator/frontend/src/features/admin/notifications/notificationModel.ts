@@ -0,0 +1,196 @@
+import { NOTIFICATION_COPY as COPY } from "./notificationCopy"
+
+export type NotificationChannel = "sms" | "alimtalk"
+
+export type NotificationKind = "installment_notice" | "quote" | "absence_alert" | "custom"
+
+export type NotificationStatus = "queued" | "sending" | "sent" | "failed" | "cancelled"
+
+export type NotificationChannelOption = {
+  channel: NotificationChannel
+  provider: string
+  available: boolean
+}
+
+export type NotificationMessage = {
+  id: string
+  channel: NotificationChannel
+  kind: NotificationKind
+  recipientName: string
+  recipientPhone: string
+  body: string
+  status: NotificationStatus
+  attempts: number
+  lastError: string
+  sentAt: string
+  createdBy: string
+  createdAt: string
+}
+
+export type NotificationRecipient = {
+  key: string
+  label: string
+  name: string
+  phone: string
+}
+
+type ProfileContacts = {
+  name?: string
+  phone?: string
+  guardians?: Array<{ name?: string; relation?: string; phone?: string }>
+}
+
+// 단문(SMS) 한도. 넘으면 장문(LMS)으로 나간다.
+export const SMS_MAX_BYTES = 90
+
+const CHANNELS: NotificationChannel[] = ["sms", "alimtalk"]
+const KINDS: NotificationKind[] = ["installment_notice", "quote", "absence_alert", "custom"]
+const STATUSES: NotificationStatus[] = ["queued", "sending", "sent", "failed", "cancelled"]
+
+export const NOTIFICATION_STATUS_LABELS: Record<NotificationStatus, string> = {
+  queued: COPY.statusQueued,
+  sending: COPY.statusSending,
+  sent: COPY.statusSent,
+  failed: COPY.statusFailed,
+  cancelled: COPY.statusCancelled,
+}
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  installment_notice: COPY.kindInstallmentNotice,
+  quote: COPY.kindQuote,
+  absence_alert: COPY.kindAbsenceAlert,
+  custom: COPY.kindCustom,
+}
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  sms: COPY.channelSms,
+  alimtalk: COPY.channelAlimtalk,
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+function pick<T extends string>(value: unknown, allowed: T[], fallback: T): T {
+  const text = toText(value) as T
+  return allowed.includes(text) ? text : fallback
+}
+
+export function normalizePhoneDigits(value: unknown) {
+  const digits = toText(value).replace(/\D/g, "")
+  return /^0\d{8,10}$/.test(digits) ? digits : ""
+}
+
+/** 01012345678 → 010-1234-5678 */
+export function formatPhone(value: string) {
+  const digits = value.replace(/\D/g, "")
+  if (digits.length === 11) return `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`
+  if (digits.length === 10) {
+    return digits.startsWith("02")
+      ? `${digits.slice(0, 2)}-${digits.slice(2, 6)}-${digits.slice(6)}`
+      : `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}`
+  }
+  return value
+}
+
+/** 통신사 기준 바이트 수 (한글 2바이트) */
+export function getMessageByteLength(text: string) {
+  let bytes = 0
+  for (const char of text) bytes += char.charCodeAt(0) > 0x7f ? 2 : 1
+  return bytes
+}
+
+export function getSmsType(text: string) {
+  return getMessageByteLength(text) > SMS_MAX_BYTES ? "LMS" : "SMS"
+}
+
+export function normalizeNotificationChannels(rows: unknown): NotificationChannelOption[] {
+  if (!Array.isArray(rows)) return []
+  return rows
+    .filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null)
+    .filter((row) => CHANNELS.includes(toText(row.channel) as NotificationChannel))
+    .map((row) => ({
+      channel: toText(row.channel) as NotificationChannel,
+      provider: toText(row.provider),
+      available: row.available === true,
+    }))
+}
+
+export function normalizeNotifications(rows: unknown): NotificationMessage[] {
+  if (!Array.isArray(rows)) return []
+  return rows
+    .filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null)
+    .map((row) => ({
+      id: toText(row.id),
+      channel: pick(row.channel, CHANNELS, "sms"),
+      kind: pick(row.kind, KINDS, "custom"),
+      recipientName: toText(row.recipientName),
+      recipientPhone: toText(row.recipientPhone),
+      body: String(row.body ?? ""),
+      status: pick(row.status, STATUSES, "queued"),
+      attempts: Number(row.attempts) || 0,
+      lastError: toText(row.lastError),
+      sentAt: toText(row.sentAt),
+      createdBy: toText(row.createdBy),
+      createdAt: toText(row.createdAt),
+    }))
+    .filter((row) => row.id)
+}
+
+/**
+ * 학생 정보의 보호자·학생 번호를 받는 사람 후보로 만든다. 같은 번호는 한 번만 둔다.
+ */
+export function buildRecipientOptions(profile: ProfileContacts | null | undefined): NotificationRecipient[] {
+  if (!profile) return []
+  const seen = new Set<string>()
+  const options: NotificationRecipient[] = []
+  const add = (name: string, label: string, rawPhone: unknown) => {
+    const phone = normalizePhoneDigits(rawPhone)
+    if (!phone || seen.has(phone)) return
+    seen.add(phone)
+    options.push({ key: phone, label, name, phone })
+  }
+  for (const guardian of profile.guardians || []) {
+    const name = toText(guardian.name)
+    add(name, [toText(guardian.relation), name].filter(Boolean).join(" ") || formatPhone(toText(guardian.phone)), guardian.phone)
+  }
+  add(toText(profile.name), `${COPY.recipientStudent} ${toText(profile.name)}`.trim(), profile.phone)
+  return options
+}
+
+export function canRetryNotification(message: Pick<NotificationMessage, "status">) {
+  return message.status === "failed"
+}
+
+export function canCancelNotification(message: Pick<NotificationMessage, "status">) {
+  return message.status === "queued" || message.status === "failed"
+}
+
+/** POST /api/notifications 본문. 받는 사람마다 한 건씩 만든다. */
+export function buildNotificationPayload({
+  channel,
+  kind,
+  body,
+  recipients,
+  studentId,
+  registrationId,
+}: {
+  channel: NotificationChannel
+  kind: NotificationKind
+  body: string
+  recipients: NotificationRecipient[]
+  studentId?: string
+  registrationId?: string
+}) {
+  return {
+    messages: recipients.map((recipient) => ({
+      channel,
+      kind,
+      body: body.trim(),
+      recipientName: recipient.name,
+      recipientPhone: recipient.phone,
+      ...(studentId ? { studentId } : {}),
+      ...(registrationId ? { registrationId } : {}),
+    })),
+  }
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react"
+
+import { getStudentNameKey } from "@shared/studentClustering"
+
+import { apiClient } from "@/api-client"
+import { stripDuplicateSuffix } from "@/utils/clipboardUtils"
+
+import {
+  buildRecipientOptions,
+  normalizeNotificationChannels,
+  type NotificationChannelOption,
+  type NotificationRecipient,
+} from "./notificationModel"
+
+/**
+ * 발송 채널과 받는 사람 후보를 불러온다.
+ * studentId가 없으면 이름이 같은 학생이 한 명일 때만 그 학생의 연락처를 쓴다 (동명이인이면 직접 입력).
+ */
+export function useNotificationRecipients({
+  open,
+  studentName,
+  studentId,
+}: {
+  open: boolean
+  studentName: string
+  studentId?: string
+}) {
+  const [channels, setChannels] = useState<NotificationChannelOption[]>([])
+  const [recipients, setRecipients] = useState<NotificationRecipient[]>([])
+  const [resolvedStudentId, setResolvedStudentId] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    const loadProfile = async () => {
+      if (studentId) {
+        const res = await apiClient.getStudentProfile(studentId)
+        return res?.student || null
+      }
+      const baseName = stripDuplicateSuffix(studentName)
+      if (!baseName) return null
+      const res = await apiClient.listStudentProfiles({ searchTerm: baseName })
+      const key = getStudentNameKey(studentName)
+      const matches = (Array.isArray(res?.results) ? res.results : []).filter(
+        (row: { name?: string }) => getStudentNameKey(row?.name) === key
+      )
+      return matches.length === 1 ? matches[0] : null
+    }
+
+    setLoading(true)
+    Promise.all([
+      apiClient.getNotificationChannels().catch(() => null),
+      loadProfile().catch(() => null),
+    ])
+      .then(([channelRes, profile]) => {
+        if (cancelled) return
+        setChannels(normalizeNotificationChannels(channelRes?.channels))
+        setRecipients(buildRecipientOptions(profile))
+        setResolvedStudentId(String(profile?.id || studentId || ""))
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, studentId, studentName])
+
+  return { channels, recipients, resolvedStudentId, loading }
+}
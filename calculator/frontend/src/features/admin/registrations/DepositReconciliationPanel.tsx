@@ -0,0 +1,288 @@
+import type { ChangeEvent, KeyboardEvent, MouseEvent } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { RefreshCw, Wand2 } from "lucide-react"
+
+import DepositSplitDialog from "./DepositSplitDialog"
+import UnparsedSmsQueue from "./UnparsedSmsQueue"
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+import {
+  formatDepositAmount,
+  formatDepositReceivedAt,
+  getDepositStatusLabel,
+  getUnpaidTargetKey,
+  type DepositStatusFilter,
+} from "./depositReconciliationModel"
+import type { RegistrationRow } from "./registrationsTypes"
+import { useDepositReconciliation } from "./useDepositReconciliation"
+
+const STATUS_FILTERS: { value: DepositStatusFilter; label: string }[] = [
+  { value: "open", label: COPY.statusOpen },
+  { value: "matched", label: COPY.statusLabels.matched },
+  { value: "split", label: COPY.statusLabels.split },
+  { value: "ignored", label: COPY.statusLabels.ignored },
+  { value: "all", label: COPY.statusAll },
+]
+
+const STATUS_BADGE_CLASS: Record<string, string> = {
+  matched: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  split: "border-teal-200 bg-teal-50 text-teal-700",
+  ambiguous: "border-amber-200 bg-amber-50 text-amber-700",
+  unmatched: "border-slate-200 bg-slate-50 text-slate-600",
+  ignored: "border-slate-200 bg-slate-100 text-slate-400",
+}
+
+type DepositReconciliationPanelProps = {
+  registrations: RegistrationRow[]
+}
+
+export default function DepositReconciliationPanel({
+  registrations,
+}: DepositReconciliationPanelProps) {
+  const state = useDepositReconciliation({ registrations })
+  const {
+    deposits,
+    visibleTargets,
+    loading,
+    busy,
+    error,
+    notice,
+    selectedDeposit,
+    checkedTargetKeys,
+  } = state
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200/60 bg-white/90 p-4 shadow-xl shadow-slate-200/20">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <div className="text-base font-semibold text-slate-900">{COPY.title}</div>
+          <div className="text-xs text-slate-500">{COPY.subtitle}</div>
+        </div>
+        <div className="flex gap-2">
+          <Button type="button" size="sm" variant="outline" onClick={() => void state.reload()} disabled={loading}>
+            <RefreshCw className="mr-1 h-3.5 w-3.5" />
+            {COPY.refresh}
+          </Button>
+          <Button type="button" size="sm" variant="outline" onClick={state.handleRematch} disabled={busy}>
+            <Wand2 className="mr-1 h-3.5 w-3.5" />
+            {COPY.rematch}
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex flex-wrap gap-1">
+          {STATUS_FILTERS.map((item) => (
+            <Button
+              key={item.value}
+              type="button"
+              size="sm"
+              variant={state.statusFilter === item.value ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => state.setStatusFilter(item.value)}
+            >
+              {item.label}
+            </Button>
+          ))}
+        </div>
+        <Input
+          className="h-8 w-28"
+          placeholder={COPY.depositorPlaceholder}
+          value={state.depositorQuery}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => state.setDepositorQuery(event.target.value)}
+          onKeyDown={(event: KeyboardEvent<HTMLInputElement>) => {
+            if (event.key === "Enter") state.submitDepositorQuery()
+          }}
+          onBlur={state.submitDepositorQuery}
+        />
+        <Input
+          type="date"
+          aria-label={COPY.fromLabel}
+          className="h-8 w-36"
+          value={state.fromDate}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => state.setFromDate(event.target.value)}
+        />
+        <Input
+          type="date"
+          aria-label={COPY.toLabel}
+          className="h-8 w-36"
+          value={state.toDate}
+          onChange={(event: ChangeEvent<HTMLInputElement>) => state.setToDate(event.target.value)}
+        />
+      </div>
+
+      {error ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+          {error}
+        </div>
+      ) : null}
+      {notice ? <div className="text-xs text-emerald-700">{notice}</div> : null}
+
+      <div className="grid gap-3 lg:grid-cols-2">
+        <section className="space-y-2">
+          <div className="flex items-center justify-between text-sm font-semibold text-slate-700">
+            <span>{COPY.unpaidTitle}</span>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-7 px-2 text-xs"
+              disabled={!selectedDeposit || checkedTargetKeys.length < 2 || busy}
+              onClick={state.openSplit}
+            >
+              {COPY.split}
+            </Button>
+          </div>
+          {!selectedDeposit ? (
+            <div className="text-xs text-slate-400">{COPY.selectDepositHint}</div>
+          ) : null}
+          <div className="max-h-[420px] space-y-1.5 overflow-y-auto pr-1">
+            {visibleTargets.length === 0 ? (
+              <div className="py-4 text-center text-xs text-slate-400">
+                {loading ? COPY.loading : COPY.noUnpaid}
+              </div>
+            ) : (
+              visibleTargets.map((target) => {
+                const key = getUnpaidTargetKey(target)
+                return (
+                  <div
+                    key={key}
+                    className="flex items-center gap-2 rounded-lg border border-slate-200/70 px-3 py-2 text-xs"
+                  >
+                    <Checkbox
+                      checked={checkedTargetKeys.includes(key)}
+                      onCheckedChange={() => state.toggleTarget(target)}
+                      disabled={!selectedDeposit}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium text-slate-800">
+                        {target.name}
+                        {target.registrationExtensionId ? (
+                          <Badge variant="outline" className="ml-1 px-1 py-0 text-[10px]">
+                            {COPY.extensionTag}
+                          </Badge>
+                        ) : null}
+                      </div>
+                      <div className="truncate text-slate-500">{target.course}</div>
+                      <div className="text-slate-500">
+                        {COPY.feeLabel} {formatDepositAmount(target.fee)} · {COPY.remainingLabel}{" "}
+                        <span className="font-semibold text-rose-600">
+                          {formatDepositAmount(target.remaining)}
+                        </span>
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={!selectedDeposit || busy}
+                      onClick={() => state.handleLink(target)}
+                    >
+                      {COPY.link}
+                    </Button>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <div className="text-sm font-semibold text-slate-700">{COPY.depositsTitle}</div>
+          <div className="max-h-[420px] space-y-1.5 overflow-y-auto pr-1">
+            {deposits.length === 0 ? (
+              <div className="py-4 text-center text-xs text-slate-400">
+                {loading ? COPY.loading : COPY.noDeposits}
+              </div>
+            ) : (
+              deposits.map((deposit) => {
+                const selected = selectedDeposit?.id === deposit.id
+                const isOpen = deposit.matchStatus === "unmatched" || deposit.matchStatus === "ambiguous"
+                return (
+                  <div
+                    key={deposit.id}
+                    role="button"
+                    tabIndex={0}
+                    className={`rounded-lg border px-3 py-2 text-xs transition ${
+                      selected
+                        ? "border-teal-400 bg-teal-50/60"
+                        : "border-slate-200/70 hover:bg-slate-50"
+                    }`}
+                    onClick={() => state.setSelectedDepositId(selected ? "" : deposit.id)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-slate-800">{deposit.depositorName || "-"}</span>
+                      <span className="font-semibold text-slate-900">
+                        {formatDepositAmount(deposit.amount)}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex items-center justify-between gap-2">
+                      <span className="text-slate-500">{formatDepositReceivedAt(deposit.receivedAt)}</span>
+                      <Badge
+                        variant="outline"
+                        className={`px-1.5 py-0 text-[10px] ${STATUS_BADGE_CLASS[deposit.matchStatus] || ""}`}
+                      >
+                        {getDepositStatusLabel(deposit.matchStatus)}
+                      </Badge>
+                    </div>
+                    {deposit.memo ? <div className="mt-1 text-slate-400">{deposit.memo}</div> : null}
+                    {selected ? (
+                      <div className="mt-2 flex justify-end gap-1">
+                        {!isOpen ? (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-6 px-2 text-[11px]"
+                            disabled={busy}
+                            onClick={(event: MouseEvent<HTMLButtonElement>) => {
+                              event.stopPropagation()
+                              state.handleUnlink(deposit)
+                            }}
+                          >
+                            {COPY.unlink}
+                          </Button>
+                        ) : null}
+                        {deposit.matchStatus !== "ignored" ? (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-6 px-2 text-[11px]"
+                            disabled={busy}
+                            onClick={(event: MouseEvent<HTMLButtonElement>) => {
+                              event.stopPropagation()
+                              state.handleIgnore(deposit)
+                            }}
+                          >
+                            {COPY.ignore}
+                          </Button>
+                        ) : null}
+                      </div>
+                    ) : null}
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </section>
+      </div>
+
+      <UnparsedSmsQueue onResolved={state.reload} />
+
+      <DepositSplitDialog
+        open={state.splitOpen}
+        onOpenChange={state.setSplitOpen}
+        deposit={selectedDeposit}
+        entries={state.splitEntries}
+        onAmountChange={state.updateSplitAmount}
+        error={state.splitError}
+        saving={busy}
+        onSave={() => void state.handleSplitSave()}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+import type { ChangeEvent } from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+import {
+  formatDepositAmount,
+  parseAmountInput,
+  type DepositRow,
+  type SplitDraftEntry,
+} from "./depositReconciliationModel"
+
+type DepositSplitDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  deposit: DepositRow | null
+  entries: SplitDraftEntry[]
+  onAmountChange: (key: string, amount: string) => void
+  error: string
+  saving: boolean
+  onSave: () => void
+}
+
+export default function DepositSplitDialog({
+  open,
+  onOpenChange,
+  deposit,
+  entries,
+  onAmountChange,
+  error,
+  saving,
+  onSave,
+}: DepositSplitDialogProps) {
+  const total = entries.reduce((sum, entry) => sum + (parseAmountInput(entry.amount) ?? 0), 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{COPY.splitTitle}</DialogTitle>
+          <DialogDescription>{COPY.splitDescription}</DialogDescription>
+        </DialogHeader>
+        {deposit ? (
+          <div className="space-y-4 text-sm">
+            <div className="rounded-lg border border-border/60 bg-muted/30 px-4 py-3">
+              <div className="text-xs text-muted-foreground">{COPY.splitDepositLabel}</div>
+              <div className="font-semibold">
+                {deposit.depositorName || "-"} · {formatDepositAmount(deposit.amount)}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div key={entry.key} className="flex items-center gap-3">
+                  <div className="min-w-0 flex-1 truncate text-slate-700">{entry.label}</div>
+                  <Input
+                    className="w-32 text-right"
+                    inputMode="numeric"
+                    value={entry.amount}
+                    onChange={(event: ChangeEvent<HTMLInputElement>) => onAmountChange(entry.key, event.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between border-t border-border/60 pt-3 text-xs text-muted-foreground">
+              <span>{COPY.splitTotalLabel}</span>
+              <span className={total === deposit.amount ? "text-emerald-700" : "text-rose-600"}>
+                {formatDepositAmount(total)}
+              </span>
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div className="rounded-lg border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+            {error}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" onClick={onSave} disabled={saving}>
+            {COPY.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,11 @@
 import { useEffect, useMemo, useState } from "react"
 
+import { Button } from "@/components/ui/button"
+
 import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
 import InstallmentBoardSummary from "./InstallmentBoardSummary"
 import InstallmentBoardTable from "./InstallmentBoardTable"
+import InstallmentBulkExtensionDialog from "./InstallmentBulkExtensionDialog"
 import InstallmentExtensionDialog from "./InstallmentExtensionDialog"
 import {
   buildCourseEarliestStartMap,
@@ -14,6 +17,7 @@ import {
   type SortConfig,
   type SortKey,
 } from "./installmentBoardModel"
+import { isBulkExtensionSelectable, type BulkExtensionResult } from "./installmentBulkExtensionModel"
 import { useInstallmentExtensionDraft } from "./useInstallmentExtensionDraft"
 
 type InstallmentBoardProps = {
@@ -23,6 +27,9 @@ type InstallmentBoardProps = {
   courseIdToLabel: Map<string, string>
   resolveCourseDays?: (courseName?: string) => number[]
   onCreateExtension?: (payload: Record<string, unknown>) => Promise<void> | void
+  onBulkCreateExtensions?: (payload: Record<string, unknown>) => Promise<BulkExtensionResult[]>
+  onUpdateExtension?: (extensionId: string, payload: Record<string, unknown>) => Promise<void> | void
+  onDeleteExtension?: (extensionId: string) => Promise<void> | void
   categoryFilter: string
   courseFilter: string
   extensionsLoading?: boolean
@@ -35,6 +42,9 @@ export default function InstallmentBoard({
   courseIdToLabel,
   resolveCourseDays,
   onCreateExtension,
+  onBulkCreateExtensions,
+  onUpdateExtension,
+  onDeleteExtension,
   categoryFilter,
   courseFilter,
   extensionsLoading = false,
@@ -86,7 +96,40 @@ export default function InstallmentBoard({
     ]
   )
 
-  const extensionDraft = useInstallmentExtensionDraft({ onCreateExtension, courseConfigSet })
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set())
+  const [bulkOpen, setBulkOpen] = useState(false)
+
+  const selectedRows = useMemo(
+    () =>
+      installmentRows.filter(
+        (row) => isBulkExtensionSelectable(row) && selectedIds.has(String(row.registration?.id))
+      ),
+    [installmentRows, selectedIds]
+  )
+
+  const handleToggleSelect = (registrationId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(registrationId)
+      else next.delete(registrationId)
+      return next
+    })
+  }
+
+  const handleToggleSelectAll = (checked: boolean) => {
+    setSelectedIds(
+      checked
+        ? new Set(installmentRows.filter(isBulkExtensionSelectable).map((row) => String(row.registration?.id)))
+        : new Set()
+    )
+  }
+
+  const extensionDraft = useInstallmentExtensionDraft({
+    onCreateExtension,
+    onUpdateExtension,
+    onDeleteExtension,
+    courseConfigSet,
+  })
   const {
     dialogOpen,
     handleOpen,
@@ -117,18 +160,49 @@ export default function InstallmentBoard({
   return (
     <div className="space-y-4">
       <InstallmentBoardSummary count={installmentRows.length} loading={extensionsLoading} />
+      {onBulkCreateExtensions ? (
+        <div className="flex items-center justify-end gap-3">
+          <span className="text-xs text-slate-500">
+            {COPY.bulkSelectedPrefix} {selectedRows.length}
+            {COPY.countSuffix}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="rounded-full border-emerald-200 text-xs font-bold text-emerald-700"
+            disabled={!selectedRows.length}
+            onClick={() => setBulkOpen(true)}
+          >
+            {COPY.bulkAction}
+          </Button>
+        </div>
+      ) : null}
       <InstallmentBoardTable
         rows={installmentRows}
         canSortCourse={canSortCourse}
         sortConfig={sortConfig}
         onSort={handleSort}
         onOpen={handleOpen}
+        selectedIds={onBulkCreateExtensions ? selectedIds : undefined}
+        onToggleSelect={handleToggleSelect}
+        onToggleSelectAll={handleToggleSelectAll}
       />
       <InstallmentExtensionDialog
         open={dialogOpen}
         onOpenChange={handleDialogOpenChange}
         draft={extensionDraft}
       />
+      {onBulkCreateExtensions ? (
+        <InstallmentBulkExtensionDialog
+          open={bulkOpen}
+          onOpenChange={setBulkOpen}
+          rows={selectedRows}
+          courseConfigSet={courseConfigSet}
+          onSubmit={onBulkCreateExtensions}
+          onComplete={() => setSelectedIds(new Set())}
+        />
+      ) : null}
     </div>
   )
 }
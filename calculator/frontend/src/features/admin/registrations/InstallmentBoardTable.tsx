@@ -1,5 +1,6 @@
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   Table,
   TableBody,
@@ -11,7 +12,10 @@ import {
 
 import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
 import type { InstallmentRow, SortConfig, SortKey } from "./installmentBoardModel"
+import { isBulkExtensionSelectable } from "./installmentBulkExtensionModel"
 import InstallmentSortButton from "./InstallmentSortButton"
+import PaymentBalanceBadge from "./PaymentBalanceBadge"
+import { getRegistrationBalance } from "./paymentBalanceModel"
 import InstallmentStatusBadge from "./InstallmentStatusBadge"
 import { formatDateYmd } from "./utils"
 
@@ -21,6 +25,10 @@ type InstallmentBoardTableProps = {
   sortConfig: SortConfig
   onSort: (key: SortKey) => void
   onOpen: (row: InstallmentRow) => void
+  /** 일괄 연장에 고른 등록 id. 없으면 선택 열을 숨긴다 */
+  selectedIds?: Set<string>
+  onToggleSelect?: (registrationId: string, checked: boolean) => void
+  onToggleSelectAll?: (checked: boolean) => void
 }
 
 export default function InstallmentBoardTable({
@@ -29,13 +37,32 @@ export default function InstallmentBoardTable({
   sortConfig,
   onSort,
   onOpen,
+  selectedIds,
+  onToggleSelect,
+  onToggleSelectAll,
 }: InstallmentBoardTableProps) {
+  const selectable = Boolean(selectedIds && onToggleSelect)
+  const selectableRows = selectable ? rows.filter(isBulkExtensionSelectable) : []
+  const allSelected =
+    selectableRows.length > 0 &&
+    selectableRows.every((row) => selectedIds?.has(String(row.registration?.id)))
+
   return (
     <div className="overflow-hidden rounded-2xl border border-slate-200/60 bg-white/90 shadow-xl shadow-slate-200/20 backdrop-blur-xl">
       <div className="overflow-x-auto">
         <Table className="min-w-[860px]">
           <TableHeader className="sticky top-0 z-10 bg-gradient-to-r from-slate-50/95 to-slate-100/95 backdrop-blur-md">
             <TableRow className="border-b border-slate-200/60 hover:bg-transparent">
+              {selectable ? (
+                <TableHead className="w-10">
+                  <Checkbox
+                    aria-label={COPY.bulkSelectAll}
+                    checked={allSelected}
+                    disabled={!selectableRows.length}
+                    onCheckedChange={(checked: boolean) => onToggleSelectAll?.(checked === true)}
+                  />
+                </TableHead>
+              ) : null}
               <TableHead className="h-12">
                 <InstallmentSortButton
                   label={COPY.tableStudent}
@@ -93,6 +120,19 @@ export default function InstallmentBoardTable({
                   key={row.registration?.id}
                   className={`group border-b border-slate-200/50 transition-all ${tone}`}
                 >
+                  {selectable ? (
+                    <TableCell>
+                      {isBulkExtensionSelectable(row) ? (
+                        <Checkbox
+                          aria-label={COPY.bulkSelectRow}
+                          checked={selectedIds?.has(String(row.registration?.id)) ?? false}
+                          onCheckedChange={(checked: boolean) =>
+                            onToggleSelect?.(String(row.registration?.id), checked === true)
+                          }
+                        />
+                      ) : null}
+                    </TableCell>
+                  ) : null}
                   <TableCell className="font-bold text-slate-900">
                     {row.registration?.name || "-"}
                   </TableCell>
@@ -134,6 +174,7 @@ export default function InstallmentBoardTable({
                       ) : (
                         <InstallmentStatusBadge status={row.status} />
                       )}
+                      <PaymentBalanceBadge balance={getRegistrationBalance(row.registration)} />
                     </div>
                     {row.extensionCount ? (
                       <div className="mt-2 flex items-center gap-1 text-xs font-medium text-slate-600">
@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from "react"
+import type { ChangeEvent } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
+import { DEFAULT_EXTEND_WEEKS, type CourseConfigSet, type InstallmentRow } from "./installmentBoardModel"
+import { formatInstallmentFee } from "./installmentBoardNotice"
+import {
+  buildBulkExtensionPayload,
+  buildBulkExtensionPreview,
+  buildBulkExtensionReport,
+  type BulkExtensionReportRow,
+  type BulkExtensionResult,
+} from "./installmentBulkExtensionModel"
+
+type InstallmentBulkExtensionDialogProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  rows: InstallmentRow[]
+  courseConfigSet: CourseConfigSet | null
+  onSubmit: (payload: Record<string, unknown>) => Promise<BulkExtensionResult[]>
+  /** 한 건이라도 저장되면 선택을 비운다 */
+  onComplete?: () => void
+}
+
+export default function InstallmentBulkExtensionDialog({
+  open,
+  onOpenChange,
+  rows,
+  courseConfigSet,
+  onSubmit,
+  onComplete,
+}: InstallmentBulkExtensionDialogProps) {
+  const [weeks, setWeeks] = useState<number>(DEFAULT_EXTEND_WEEKS)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [report, setReport] = useState<BulkExtensionReportRow[] | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setWeeks(DEFAULT_EXTEND_WEEKS)
+    setError("")
+    setReport(null)
+  }, [open])
+
+  const preview = useMemo(
+    () => buildBulkExtensionPreview({ rows, weeks, courseConfigSet }),
+    [courseConfigSet, rows, weeks]
+  )
+  const hasMissingFee = preview.some((row) => row.fee === null)
+
+  const handleSubmit = async () => {
+    if (!preview.length) return
+    setSaving(true)
+    setError("")
+    try {
+      const results = await onSubmit(buildBulkExtensionPayload(preview))
+      const nextReport = buildBulkExtensionReport(preview, results, COPY.bulkReportMissing)
+      setReport(nextReport)
+      if (nextReport.some((row) => row.ok)) onComplete?.()
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : COPY.bulkSaveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto border-slate-200/70 bg-white/95 shadow-[0_20px_60px_rgba(15,23,42,0.15)] backdrop-blur-xl sm:rounded-[24px]">
+        <DialogHeader className="space-y-2 pb-1">
+          <DialogTitle className="text-lg font-bold text-slate-900">{COPY.bulkTitle}</DialogTitle>
+          <DialogDescription className="text-xs text-slate-500">{COPY.bulkDescription}</DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-2">
+            <div className="text-xs font-bold uppercase tracking-wider text-slate-400">{COPY.bulkReportTitle}</div>
+            {report.map((row) => (
+              <div
+                key={row.registrationId}
+                className="flex flex-wrap items-center gap-2 rounded-xl bg-slate-50/80 px-3 py-2 text-sm"
+              >
+                <Badge
+                  variant="outline"
+                  className={
+                    row.ok
+                      ? "border-emerald-300 bg-emerald-50 text-emerald-700"
+                      : "border-rose-300 bg-rose-50 text-rose-700"
+                  }
+                >
+                  {row.ok ? COPY.bulkReportSuccess : COPY.bulkReportFail}
+                </Badge>
+                <span className="font-semibold text-slate-800">{row.name || "-"}</span>
+                {row.message ? <span className="text-xs text-rose-600">{row.message}</span> : null}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="bulkExtendWeeks" className="text-xs font-semibold text-slate-500">
+                {COPY.bulkWeeks}
+              </Label>
+              <Input
+                id="bulkExtendWeeks"
+                type="number"
+                min={1}
+                value={weeks}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setWeeks(Number(e.target.value) || 0)}
+                className="h-10 w-32 rounded-xl border-slate-200/70 bg-white shadow-sm"
+              />
+              <div className="text-[11px] text-slate-400">{COPY.bulkWeeksHint}</div>
+            </div>
+
+            {preview.length ? (
+              <div className="overflow-x-auto rounded-2xl border border-slate-200/60">
+                <table className="w-full min-w-[560px] text-sm">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left">{COPY.bulkColumnStudent}</th>
+                      <th className="px-3 py-2 text-left">{COPY.bulkColumnCourse}</th>
+                      <th className="px-3 py-2 text-left">{COPY.bulkColumnStart}</th>
+                      <th className="px-3 py-2 text-left">{COPY.bulkColumnEnd}</th>
+                      <th className="px-3 py-2 text-right">{COPY.bulkColumnWeeks}</th>
+                      <th className="px-3 py-2 text-right">{COPY.bulkColumnFee}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((row) => (
+                      <tr key={row.registrationId} className="border-t border-slate-100">
+                        <td className="px-3 py-2 font-semibold text-slate-800">{row.name || "-"}</td>
+                        <td className="px-3 py-2 text-slate-600">{row.courseLabel || "-"}</td>
+                        <td className="px-3 py-2 text-slate-600">{row.startDate}</td>
+                        <td className="px-3 py-2 text-slate-600">{row.endDate || "-"}</td>
+                        <td className="px-3 py-2 text-right text-slate-700">
+                          {row.weeks}
+                          {COPY.weekSuffix}
+                          {row.breakWeeks ? (
+                            <span className="ml-1 text-xs text-amber-600">
+                              (+{COPY.bulkBreakWeeks} {row.breakWeeks}
+                              {COPY.weekSuffix})
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 text-right font-semibold text-slate-800">
+                          {formatInstallmentFee(row.fee)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="text-sm text-slate-400">{COPY.bulkEmpty}</div>
+            )}
+            {hasMissingFee ? <div className="text-xs text-amber-600">{COPY.bulkFeeMissing}</div> : null}
+          </div>
+        )}
+
+        {error ? <div className="text-sm text-rose-600">{error}</div> : null}
+
+        <DialogFooter className="gap-2 pt-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="rounded-xl border-slate-200/70 shadow-sm"
+          >
+            {COPY.dialogClose}
+          </Button>
+          {report ? null : (
+            <Button
+              type="button"
+              onClick={handleSubmit}
+              disabled={saving || !preview.length}
+              className="rounded-xl bg-gradient-to-r from-emerald-600 to-teal-600 font-semibold shadow-lg shadow-emerald-500/25"
+            >
+              {saving ? COPY.bulkSaving : COPY.bulkConfirm}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
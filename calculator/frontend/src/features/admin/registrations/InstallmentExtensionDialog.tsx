@@ -1,3 +1,6 @@
+import { useState } from "react"
+
+import { useAuth } from "@/auth-context"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -7,9 +10,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
+import NotificationComposeDialog from "@/features/admin/notifications/NotificationComposeDialog"
+import { hasPermission, PERMISSION_KEYS } from "@/permissions"
 
 import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
 import InstallmentExtensionForm from "./InstallmentExtensionForm"
+import InstallmentExtensionHistory from "./InstallmentExtensionHistory"
 import InstallmentExtensionNoticeSection from "./InstallmentExtensionNoticeSection"
 import InstallmentExtensionOverview from "./InstallmentExtensionOverview"
 import InstallmentExtensionScheduleOptions from "./InstallmentExtensionScheduleOptions"
@@ -34,6 +40,8 @@ export default function InstallmentExtensionDialog({
     extensionStartDate,
     extensionEndDate,
     noticePreview,
+    noticeCopy,
+    displayName,
     copyState,
     saveError,
     currentFeeLabel,
@@ -41,6 +49,15 @@ export default function InstallmentExtensionDialog({
     handleSave,
     setExtendWeeks,
     setExtendFee,
+    maxExtendWeeks,
+    rowExtensions,
+    editingExtension,
+    setEditStartDate,
+    startEdit,
+    cancelEdit,
+    handleDelete,
+    canEdit,
+    canDelete,
     skipWeeksEnabled,
     setSkipWeeksEnabled,
     skipWeeks,
@@ -60,7 +77,11 @@ export default function InstallmentExtensionDialog({
     savedDiscount,
     effectiveFee,
   } = draft
-
+  const { user } = useAuth()
+  const [composeOpen, setComposeOpen] = useState(false)
+  const canSendNotice = hasPermission(user, PERMISSION_KEYS.buttons.notifications)
+  const registration = selectedRow?.registration
+  const editing = Boolean(editingExtension)
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -78,9 +99,9 @@ export default function InstallmentExtensionDialog({
               </svg>
             </div>
             <div>
-              <DialogTitle className="text-lg font-bold text-slate-900">{COPY.dialogTitle}</DialogTitle>
+              <DialogTitle className="text-lg font-bold text-slate-900">{editing ? COPY.dialogEditTitle : COPY.dialogTitle}</DialogTitle>
               <DialogDescription className="text-xs text-slate-500">
-                {COPY.dialogDescription}
+                {editing ? COPY.dialogEditDescription : COPY.dialogDescription}
               </DialogDescription>
             </div>
           </div>
@@ -93,9 +114,19 @@ export default function InstallmentExtensionDialog({
               currentFeeLabel={currentFeeLabel}
             />
 
+            <InstallmentExtensionHistory
+              extensions={rowExtensions}
+              editingId={editingExtension?.id || ""}
+              canEdit={canEdit}
+              canDelete={canDelete}
+              onEdit={startEdit}
+              onDelete={handleDelete}
+              onCancelEdit={selectedRow.remainingWeeks > 0 ? cancelEdit : undefined}
+            />
+
             <InstallmentExtensionForm
-              selectedRow={selectedRow}
               extendWeeks={extendWeeks}
+              maxWeeks={maxExtendWeeks}
               extendFee={extendFee}
               extensionEndDate={extensionEndDate}
               weeklyFee={weeklyFee}
@@ -103,6 +134,8 @@ export default function InstallmentExtensionDialog({
               effectiveFee={effectiveFee}
               onExtendWeeksChange={setExtendWeeks}
               onExtendFeeChange={setExtendFee}
+              startDate={editing ? extensionStartDate : undefined}
+              onStartDateChange={editing ? setEditStartDate : undefined}
             />
 
             <InstallmentExtensionScheduleOptions
@@ -133,6 +166,7 @@ export default function InstallmentExtensionDialog({
               noticePreview={noticePreview}
               copyState={copyState}
               onCopy={handleCopy}
+              onSend={canSendNotice && noticeCopy ? () => setComposeOpen(true) : undefined}
             />
           </div>
         ) : null}
@@ -161,10 +195,20 @@ export default function InstallmentExtensionDialog({
             disabled={!selectedRow}
             className="rounded-xl bg-gradient-to-r from-emerald-600 to-teal-600 font-semibold shadow-lg shadow-emerald-500/25 transition-all hover:shadow-xl hover:shadow-emerald-500/35"
           >
-            {COPY.dialogConfirm}
+            {editing ? COPY.dialogEditConfirm : COPY.dialogConfirm}
           </Button>
         </DialogFooter>
       </DialogContent>
+
+      <NotificationComposeDialog
+        open={composeOpen}
+        onOpenChange={setComposeOpen}
+        kind="installment_notice"
+        initialBody={noticeCopy || ""}
+        studentName={displayName || ""}
+        studentId={registration?.studentId ? String(registration.studentId) : undefined}
+        registrationId={registration?.id ? String(registration.id) : undefined}
+      />
     </Dialog>
   )
 }
@@ -4,11 +4,10 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 
 import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
-import type { InstallmentRow } from "./installmentBoardModel"
 
 type InstallmentExtensionFormProps = {
-  selectedRow: InstallmentRow
   extendWeeks: number
+  maxWeeks: number
   extendFee: string
   extensionEndDate: string
   weeklyFee: number
@@ -16,11 +15,14 @@ type InstallmentExtensionFormProps = {
   effectiveFee: number | string
   onExtendWeeksChange: (value: number) => void
   onExtendFeeChange: (value: string) => void
+  /** 연장 수정일 때만 시작일을 고칠 수 있다 */
+  startDate?: string
+  onStartDateChange?: (value: string) => void
 }
 
 export default function InstallmentExtensionForm({
-  selectedRow,
   extendWeeks,
+  maxWeeks,
   extendFee,
   extensionEndDate,
   weeklyFee,
@@ -28,6 +30,8 @@ export default function InstallmentExtensionForm({
   effectiveFee,
   onExtendWeeksChange,
   onExtendFeeChange,
+  startDate,
+  onStartDateChange,
 }: InstallmentExtensionFormProps) {
   const hasAutoFee = weeklyFee > 0
   const autoFeeDisplay = typeof effectiveFee === "number"
@@ -38,23 +42,37 @@ export default function InstallmentExtensionForm({
     : ""
   return (
     <div className="space-y-4">
+      {onStartDateChange ? (
+        <div className="space-y-1.5">
+          <Label htmlFor="extendStartDate" className="text-xs font-semibold text-slate-500">
+            {COPY.dialogExtendStart}
+          </Label>
+          <Input
+            id="extendStartDate"
+            type="date"
+            value={startDate || ""}
+            onChange={(e: ChangeEvent<HTMLInputElement>) => onStartDateChange(e.target.value)}
+            className="h-10 rounded-xl border-slate-200/70 bg-white shadow-sm transition-shadow focus-visible:shadow-md focus-visible:ring-emerald-500"
+          />
+        </div>
+      ) : null}
       <div className="grid gap-4 md:grid-cols-2">
         <div className="space-y-1.5">
           <Label htmlFor="extendWeeks" className="text-xs font-semibold text-slate-500">
             {COPY.dialogExtendWeeks}
             <span className="ml-1 font-normal text-slate-400">
-              ({COPY.dialogMaxPrefix} {selectedRow.remainingWeeks}{COPY.weekSuffix})
+              ({COPY.dialogMaxPrefix} {maxWeeks}{COPY.weekSuffix})
             </span>
           </Label>
           <Input
             id="extendWeeks"
             type="number"
             min={1}
-            max={selectedRow.remainingWeeks}
+            max={maxWeeks}
             value={extendWeeks}
             onChange={(e: ChangeEvent<HTMLInputElement>) => {
               const value = Number(e.target.value) || 0
-              onExtendWeeksChange(Math.min(value, selectedRow.remainingWeeks))
+              onExtendWeeksChange(Math.min(value, maxWeeks))
             }}
             className="h-10 rounded-xl border-slate-200/70 bg-white shadow-sm transition-shadow focus-visible:shadow-md focus-visible:ring-emerald-500"
           />
@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button"
+
+import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
+import { formatInstallmentFee } from "./installmentBoardNotice"
+import type { ExtensionEditTarget } from "./installmentExtensionEditModel"
+
+type InstallmentExtensionHistoryProps = {
+  extensions: ExtensionEditTarget[]
+  editingId: string
+  canEdit: boolean
+  canDelete: boolean
+  onEdit: (target: ExtensionEditTarget) => void
+  onDelete: (target: ExtensionEditTarget) => void
+  onCancelEdit?: () => void
+}
+
+export default function InstallmentExtensionHistory({
+  extensions,
+  editingId,
+  canEdit,
+  canDelete,
+  onEdit,
+  onDelete,
+  onCancelEdit,
+}: InstallmentExtensionHistoryProps) {
+  if (!extensions.length) return null
+
+  return (
+    <div className="space-y-2 rounded-2xl border border-slate-200/50 bg-white/70 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400">{COPY.historyLabel}</span>
+        {editingId && onCancelEdit ? (
+          <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onCancelEdit}>
+            {COPY.historyNewExtension}
+          </Button>
+        ) : null}
+      </div>
+      <div className="space-y-1.5">
+        {extensions.map((ext, index) => {
+          const editing = ext.id === editingId
+          return (
+            <div
+              key={ext.id}
+              className={`flex flex-wrap items-center gap-2 rounded-xl px-3 py-2 text-xs ${
+                editing ? "bg-emerald-50 ring-1 ring-emerald-200" : "bg-slate-50/80"
+              }`}
+            >
+              <span className="font-semibold text-slate-500">
+                {index + 1}
+                {COPY.roundSuffix}
+              </span>
+              <span className="font-medium text-slate-700">{ext.startDate}</span>
+              <span className="text-slate-500">
+                {ext.weeks}
+                {COPY.weekSuffix}
+              </span>
+              <span className="text-slate-500">{formatInstallmentFee(ext.tuitionFee)}</span>
+              <div className="ml-auto flex gap-1">
+                {editing ? (
+                  <span className="rounded-full bg-emerald-100 px-2 py-0.5 font-semibold text-emerald-700">
+                    {COPY.historyEditing}
+                  </span>
+                ) : canEdit ? (
+                  <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onEdit(ext)}>
+                    {COPY.historyEdit}
+                  </Button>
+                ) : null}
+                {canDelete ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-rose-600"
+                    onClick={() => onDelete(ext)}
+                  >
+                    {COPY.historyDelete}
+                  </Button>
+                ) : null}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
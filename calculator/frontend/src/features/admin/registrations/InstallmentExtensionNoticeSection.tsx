@@ -1,3 +1,5 @@
+import { Send } from "lucide-react"
+
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 
@@ -7,12 +9,14 @@ type InstallmentExtensionNoticeSectionProps = {
   noticePreview: string
   copyState: string
   onCopy: () => void | Promise<void>
+  onSend?: () => void
 }
 
 export default function InstallmentExtensionNoticeSection({
   noticePreview,
   copyState,
   onCopy,
+  onSend,
 }: InstallmentExtensionNoticeSectionProps) {
   return (
     <div className="space-y-2.5">
@@ -43,6 +47,17 @@ export default function InstallmentExtensionNoticeSection({
             </svg>
             {COPY.dialogCopy}
           </Button>
+          {onSend ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSend}
+              className="h-8 gap-1.5 rounded-lg border-sky-200 bg-sky-50 px-3 text-xs font-semibold text-sky-700 shadow-sm transition-all hover:bg-sky-100 hover:shadow-md"
+            >
+              <Send className="h-3.5 w-3.5" />
+              {COPY.dialogSend}
+            </Button>
+          ) : null}
         </div>
       </div>
       <Textarea
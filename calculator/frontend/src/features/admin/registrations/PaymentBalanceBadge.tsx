@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge"
+
+import { getPaymentBalanceLabel, type PaymentBalance } from "./paymentBalanceModel"
+
+const STATE_BADGE_CLASS: Record<string, string> = {
+  paid: "border-emerald-200 bg-emerald-50 text-emerald-700",
+  outstanding: "border-rose-200 bg-rose-50 text-rose-700",
+  overpaid: "border-amber-200 bg-amber-50 text-amber-700",
+}
+
+type PaymentBalanceBadgeProps = {
+  balance: PaymentBalance | null
+  className?: string
+}
+
+export default function PaymentBalanceBadge({ balance, className = "" }: PaymentBalanceBadgeProps) {
+  if (!balance || balance.state === "none") return null
+  return (
+    <Badge
+      variant="outline"
+      className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${STATE_BADGE_CLASS[balance.state] || ""} ${className}`}
+    >
+      {getPaymentBalanceLabel(balance)}
+    </Badge>
+  )
+}
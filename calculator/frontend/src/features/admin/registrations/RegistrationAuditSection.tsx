@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react"
+
+import { History } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import AuditChangeList from "@/features/admin/audit/AuditChangeList"
+import { AUDIT_COPY as COPY } from "@/features/admin/audit/auditCopy"
+import {
+  formatAuditTime,
+  getAuditActionLabel,
+  normalizeAuditLogs,
+  type AuditLogEntry,
+} from "@/features/admin/audit/auditModel"
+
+const COLLAPSED_COUNT = 5
+
+type RegistrationAuditSectionProps = {
+  registrationId: string
+}
+
+export default function RegistrationAuditSection({ registrationId }: RegistrationAuditSectionProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([])
+  const [expanded, setExpanded] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!registrationId) return
+    let cancelled = false
+    setEntries([])
+    setExpanded(false)
+    setError("")
+    apiClient
+      .getRegistrationAudit(registrationId)
+      .then((res) => {
+        if (!cancelled) setEntries(normalizeAuditLogs(res?.results))
+      })
+      .catch((e: unknown) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : COPY.loadFailed)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [registrationId])
+
+  const visible = expanded ? entries : entries.slice(0, COLLAPSED_COUNT)
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200/60 bg-white/60 p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <History className="h-4 w-4" />
+        {COPY.sectionTitle}
+      </div>
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+      {!error && entries.length === 0 ? (
+        <div className="text-xs text-slate-400">{COPY.sectionEmpty}</div>
+      ) : null}
+      <div className="space-y-2">
+        {visible.map((entry) => (
+          <div key={entry.id} className="space-y-1 border-l-2 border-slate-200 pl-3">
+            <div className="flex flex-wrap items-center gap-x-2 text-xs">
+              <span className="font-semibold text-slate-700">{getAuditActionLabel(entry.action)}</span>
+              <span className="text-slate-500">{entry.actor}</span>
+              <span className="ml-auto text-slate-400">{formatAuditTime(entry.createdAt)}</span>
+            </div>
+            <AuditChangeList entry={entry} />
+          </div>
+        ))}
+      </div>
+      {entries.length > COLLAPSED_COUNT ? (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-full text-xs"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded ? COPY.collapse : `${COPY.showAll} (${entries.length})`}
+        </Button>
+      ) : null}
+    </div>
+  )
+}
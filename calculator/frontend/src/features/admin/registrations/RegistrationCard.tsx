@@ -1,5 +1,6 @@
 import { Card } from "@/components/ui/card"
 
+import type { AttendanceStudentStats } from "../attendance/attendanceStatsModel"
 import { RegistrationCardBody } from "./RegistrationCardBody"
 import { RegistrationCardHeader } from "./RegistrationCardHeader"
 import { REGISTRATION_CARD_COPY as COPY } from "./registrationCardCopy"
@@ -10,6 +11,7 @@ export type RegistrationAction = (row: RegistrationRow) => void
 
 type RegistrationCardProps = {
   registration: RegistrationRow
+  attendanceStats?: AttendanceStudentStats
   onWithdraw?: RegistrationAction
   onRestore?: RegistrationAction
   onTransfer?: RegistrationAction
@@ -19,6 +21,7 @@ type RegistrationCardProps = {
 
 export default function RegistrationCard({
   registration,
+  attendanceStats,
   onWithdraw,
   onRestore,
   onTransfer,
@@ -47,6 +50,7 @@ export default function RegistrationCard({
     <Card className="border-border/60 bg-card/60">
       <RegistrationCardHeader
         registration={registration}
+        attendanceStats={attendanceStats}
         status={status}
         courseLabel={courseLabel}
         isMathExcluded={isMathExcluded}
@@ -3,6 +3,9 @@ import { Button } from "@/components/ui/button"
 import { CardContent } from "@/components/ui/card"
 import { CalendarRange, Clock, FileText, Video } from "lucide-react"
 
+import PaymentBalanceBadge from "./PaymentBalanceBadge"
+import RegistrationInvoiceButtons from "./RegistrationInvoiceButtons"
+import { getRegistrationBalance } from "./paymentBalanceModel"
 import { REGISTRATION_CARD_COPY as COPY } from "./registrationCardCopy"
 import type { RegistrationRow } from "./registrationsTypes"
 import { formatDateYmd, formatTimestampKo } from "./utils"
@@ -55,6 +58,7 @@ export function RegistrationCardBody({
             <Clock className="h-3.5 w-3.5" /> {formatTimestampKo(registration.timestamp)}
           </span>
         ) : null}
+        <PaymentBalanceBadge balance={getRegistrationBalance(registration)} />
       </div>
       {typeof onNote === "function" ? (
         <Button
@@ -76,6 +80,12 @@ export function RegistrationCardBody({
           </span>
         </Button>
       ) : null}
+      {registration?.id ? (
+        <RegistrationInvoiceButtons
+          registrationId={String(registration.id)}
+          studentName={String(registration.name || "")}
+        />
+      ) : null}
     </CardContent>
   )
 }
@@ -1,11 +1,13 @@
 import { useMemo } from "react"
 
+import type { AttendanceStudentStats } from "../attendance/attendanceStatsModel"
 import RegistrationCard, { type RegistrationAction } from "./RegistrationCard"
 import { sortRegistrationsForCards } from "./registrationCardModel"
 import type { RegistrationRow } from "./registrationsTypes"
 
 type RegistrationCardGridProps = {
   registrations: RegistrationRow[]
+  attendanceStatsMap?: Map<string, AttendanceStudentStats>
   onWithdraw?: RegistrationAction
   onRestore?: RegistrationAction
   onTransfer?: RegistrationAction
@@ -15,6 +17,7 @@ type RegistrationCardGridProps = {
 
 export default function RegistrationCardGrid({
   registrations,
+  attendanceStatsMap,
   onWithdraw,
   onRestore,
   onTransfer,
@@ -29,6 +32,7 @@ export default function RegistrationCardGrid({
         <RegistrationCard
           key={`${registration.id || idx}`}
           registration={registration}
+          attendanceStats={attendanceStatsMap?.get(String(registration.id || ""))}
           onWithdraw={onWithdraw}
           onRestore={onRestore}
           onTransfer={onTransfer}
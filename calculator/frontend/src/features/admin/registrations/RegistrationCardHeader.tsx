@@ -3,6 +3,8 @@ import { Button } from "@/components/ui/button"
 import { CardHeader, CardTitle } from "@/components/ui/card"
 import { BookOpen, CheckCircle2, Clock, HelpCircle, TimerOff, User } from "lucide-react"
 
+import AttendanceAlertBadges from "../attendance/AttendanceAlertBadges"
+import type { AttendanceStudentStats } from "../attendance/attendanceStatsModel"
 import { REGISTRATION_CARD_COPY as COPY } from "./registrationCardCopy"
 import type { RegistrationRow } from "./registrationsTypes"
 import { getStatusLabel } from "./utils"
@@ -39,6 +41,7 @@ function StatusBadge({ status }: { status: string | null | undefined }) {
 
 export function RegistrationCardHeader({
   registration,
+  attendanceStats,
   status,
   courseLabel,
   isMathExcluded,
@@ -53,6 +56,7 @@ export function RegistrationCardHeader({
   onTransferCancel,
 }: {
   registration: RegistrationRow
+  attendanceStats?: AttendanceStudentStats
   status: string | null | undefined
   courseLabel: string
   isMathExcluded: boolean
@@ -76,6 +80,7 @@ export function RegistrationCardHeader({
               {COPY.mathExcluded}
             </Badge>
           ) : null}
+          <AttendanceAlertBadges entry={attendanceStats} />
         </div>
         <div className="flex flex-wrap items-center justify-end gap-2">
           {isTransferredOut ? (
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from "react"
+import type { ChangeEvent } from "react"
+
+import { PauseCircle } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { normalizeRegistrationHolds, type RegistrationHold } from "@shared/registrationHolds"
+
+import { REGISTRATION_HOLD_COPY as COPY } from "./registrationHoldCopy"
+import {
+  HOLD_STATUS_LABELS,
+  buildHoldPayload,
+  createEmptyHoldDraft,
+  createHoldDraft,
+  createResumeDraft,
+  formatHoldPeriod,
+  getHoldStatus,
+  type HoldDraft,
+} from "./registrationHoldModel"
+import { formatDateYmd } from "./utils"
+
+type RegistrationHoldSectionProps = {
+  registrationId: string
+  holds: unknown
+  /** 퇴원·전반·일 단위 등록은 기록만 보여준다 */
+  readOnly?: boolean
+  onChange?: () => void
+}
+
+export default function RegistrationHoldSection({
+  registrationId,
+  holds: initialHolds,
+  readOnly = false,
+  onChange,
+}: RegistrationHoldSectionProps) {
+  const todayKey = useMemo(() => formatDateYmd(new Date()), [])
+  const [holds, setHolds] = useState<RegistrationHold[]>(() => normalizeRegistrationHolds(initialHolds))
+  const [draft, setDraft] = useState<HoldDraft | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setHolds(normalizeRegistrationHolds(initialHolds))
+    setDraft(null)
+    setError("")
+  }, [registrationId, initialHolds])
+
+  function setDraftField(key: keyof HoldDraft, value: string) {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  /** 저장 후 목록을 어떻게 바꿀지 돌려받아 반영한다 */
+  async function run(action: () => Promise<(prev: RegistrationHold[]) => RegistrationHold[]>) {
+    setSaving(true)
+    setError("")
+    try {
+      const update = await action()
+      setHolds(update)
+      setDraft(null)
+      onChange?.()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleSave() {
+    if (!draft) return
+    const payload = buildHoldPayload(draft)
+    if (!payload) {
+      setError(COPY.startDateRequired)
+      return
+    }
+    const editingId = draft.id
+    await run(async () => {
+      const res = editingId
+        ? await apiClient.updateRegistrationHold(registrationId, editingId, payload)
+        : await apiClient.createRegistrationHold(registrationId, payload)
+      const [saved] = normalizeRegistrationHolds([res?.hold])
+      return (prev) =>
+        saved ? normalizeRegistrationHolds([...prev.filter((item) => item.id !== saved.id), saved]) : prev
+    })
+  }
+
+  async function handleRemove(hold: RegistrationHold) {
+    if (!window.confirm(COPY.removeConfirm)) return
+    await run(async () => {
+      await apiClient.deleteRegistrationHold(registrationId, hold.id)
+      return (prev) => prev.filter((item) => item.id !== hold.id)
+    })
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200/60 bg-white/60 p-4 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+        <PauseCircle className="h-4 w-4" />
+        {COPY.sectionTitle}
+        {!readOnly && !draft ? (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="ml-auto h-7 text-xs"
+            onClick={() => setDraft(createEmptyHoldDraft(todayKey))}
+          >
+            {COPY.add}
+          </Button>
+        ) : null}
+      </div>
+      <div className="text-xs text-slate-400">{COPY.sectionHint}</div>
+      {holds.length === 0 && !draft ? <div className="text-xs text-slate-400">{COPY.empty}</div> : null}
+      <div className="space-y-2">
+        {holds.map((hold) => {
+          const status = getHoldStatus(hold, todayKey)
+          return (
+            <div key={hold.id} className="space-y-1 border-l-2 border-violet-200 pl-3 text-xs">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge
+                  variant="outline"
+                  className={status === "active" ? "border-violet-300 bg-violet-50 text-violet-700" : ""}
+                >
+                  {HOLD_STATUS_LABELS[status]}
+                </Badge>
+                <span className="font-medium text-slate-700">{formatHoldPeriod(hold)}</span>
+              </div>
+              {hold.reason ? <div className="text-slate-500">{hold.reason}</div> : null}
+              {!readOnly && !draft ? (
+                <div className="flex justify-end gap-1">
+                  {!hold.endDate ? (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setDraft(createResumeDraft(hold, todayKey))}
+                    >
+                      {COPY.resume}
+                    </Button>
+                  ) : null}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setDraft(createHoldDraft(hold))}
+                  >
+                    {COPY.edit}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs text-rose-600"
+                    disabled={saving}
+                    onClick={() => handleRemove(hold)}
+                  >
+                    {COPY.remove}
+                  </Button>
+                </div>
+              ) : null}
+            </div>
+          )
+        })}
+      </div>
+      {draft ? (
+        <div className="space-y-2 rounded-xl border border-violet-200/70 bg-violet-50/40 p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">{COPY.startDate}</Label>
+              <Input
+                type="date"
+                value={draft.startDate}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setDraftField("startDate", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{COPY.endDate}</Label>
+              <Input
+                type="date"
+                value={draft.endDate}
+                min={draft.startDate || undefined}
+                onChange={(e: ChangeEvent<HTMLInputElement>) => setDraftField("endDate", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="text-[11px] text-slate-400">{COPY.endDateHint}</div>
+          <div className="space-y-1">
+            <Label className="text-xs">{COPY.reason}</Label>
+            <Input
+              value={draft.reason}
+              maxLength={200}
+              placeholder={COPY.reasonPlaceholder}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => setDraftField("reason", e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-1">
+            <Button type="button" variant="ghost" size="sm" disabled={saving} onClick={() => setDraft(null)}>
+              {COPY.cancel}
+            </Button>
+            <Button type="button" size="sm" disabled={saving} onClick={handleSave}>
+              {COPY.save}
+            </Button>
+          </div>
+        </div>
+      ) : null}
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState } from "react"
+import { FileDown } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import {
+  getInvoiceFilename,
+  saveBlobAsFile,
+  type InvoiceDocumentType,
+} from "@/utils/invoiceUtils"
+
+import { REGISTRATION_INVOICE_COPY as COPY } from "./registrationInvoiceCopy"
+
+type RegistrationInvoiceButtonsProps = {
+  registrationId: string
+  studentName: string
+}
+
+const DOCUMENT_TYPES: Array<{ type: InvoiceDocumentType; label: string }> = [
+  { type: "invoice", label: COPY.invoicePdf },
+  { type: "quote", label: COPY.quotePdf },
+]
+
+export default function RegistrationInvoiceButtons({
+  registrationId,
+  studentName,
+}: RegistrationInvoiceButtonsProps) {
+  const [downloading, setDownloading] = useState<InvoiceDocumentType | null>(null)
+  const [error, setError] = useState("")
+
+  const handleDownload = async (type: InvoiceDocumentType) => {
+    setDownloading(type)
+    setError("")
+    try {
+      const blob = await apiClient.downloadRegistrationInvoicePdf(registrationId, type)
+      saveBlobAsFile(blob, getInvoiceFilename(type, studentName))
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.downloadFailed)
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-2 gap-2">
+        {DOCUMENT_TYPES.map(({ type, label }) => (
+          <Button
+            key={type}
+            type="button"
+            size="sm"
+            variant="outline"
+            className="rounded-xl text-xs font-semibold"
+            disabled={!registrationId || !!downloading}
+            onClick={() => handleDownload(type)}
+          >
+            <FileDown className="mr-1 h-3.5 w-3.5" />
+            {label}
+          </Button>
+        ))}
+      </div>
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+import type { ChangeEvent } from "react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Trash2 } from "lucide-react"
+
+import PaymentBalanceBadge from "./PaymentBalanceBadge"
+import { formatDepositAmount } from "./depositReconciliationModel"
+import { PAYMENT_BALANCE_COPY as COPY } from "./paymentBalanceCopy"
+import {
+  formatPaymentDate,
+  getPaymentMethodLabel,
+  PAYMENT_METHODS,
+} from "./paymentBalanceModel"
+import { formatTransferSettlementDifference } from "./transferSettlementModel"
+import { useRegistrationPayments } from "./useRegistrationPayments"
+
+const REGISTRATION_TARGET = "__registration__"
+
+type RegistrationPaymentsSectionProps = {
+  registrationId: string
+}
+
+export default function RegistrationPaymentsSection({ registrationId }: RegistrationPaymentsSectionProps) {
+  const state = useRegistrationPayments(registrationId)
+  const extensionIndexMap = new Map<string, number>()
+  state.items.forEach((item) => {
+    if (item.registrationExtensionId) {
+      extensionIndexMap.set(item.registrationExtensionId, extensionIndexMap.size + 1)
+    }
+  })
+  const labelFor = (extensionId?: string | null) =>
+    extensionId
+      ? `${COPY.extensionTag} ${extensionIndexMap.get(extensionId) || ""}`.trim()
+      : COPY.registrationTag
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200/60 bg-white/60 p-4 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-700">{COPY.sectionTitle}</div>
+        <PaymentBalanceBadge balance={state.balance} />
+      </div>
+
+      {state.balance ? (
+        <div className="grid grid-cols-2 gap-2 text-xs text-slate-600">
+          <div>
+            {COPY.registrationTotal} · {COPY.billedLabel} {formatDepositAmount(state.balance.billedAmount)} /{" "}
+            {COPY.paidLabel} {formatDepositAmount(state.balance.paidAmount)}
+          </div>
+          {state.studentBalance && state.studentBalance.registrationCount > 1 ? (
+            <div className="flex items-center justify-end gap-1">
+              <span>{COPY.studentTotal}</span>
+              <PaymentBalanceBadge balance={state.studentBalance} />
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {state.transferSettlement ? (
+        <div className="text-xs text-slate-500">
+          {COPY.transferSettlementTag} · {formatTransferSettlementDifference(state.transferSettlement)}
+        </div>
+      ) : null}
+
+      {state.items.length > 1 ? (
+        <div className="flex flex-wrap gap-1">
+          {state.items.map((item) => (
+            <span
+              key={item.registrationExtensionId || REGISTRATION_TARGET}
+              className="inline-flex items-center gap-1 text-[11px] text-slate-500"
+            >
+              {labelFor(item.registrationExtensionId)}
+              <PaymentBalanceBadge balance={item} className="px-1.5 py-0 text-[10px]" />
+            </span>
+          ))}
+        </div>
+      ) : null}
+
+      {state.error ? <div className="text-xs text-destructive">{state.error}</div> : null}
+
+      <div className="max-h-[200px] space-y-1.5 overflow-y-auto pr-1">
+        {state.payments.length === 0 ? (
+          <div className="py-2 text-center text-xs text-slate-400">
+            {state.loading ? COPY.loading : COPY.noPayments}
+          </div>
+        ) : (
+          state.payments.map((payment) => (
+            <div
+              key={payment.id}
+              className="flex items-center gap-2 rounded-lg border border-slate-200/70 px-3 py-1.5 text-xs"
+            >
+              <span className="text-slate-500">{formatPaymentDate(payment.paidAt)}</span>
+              <span className="font-semibold text-slate-900">{formatDepositAmount(payment.amount)}</span>
+              <Badge variant="outline" className="px-1 py-0 text-[10px]">
+                {getPaymentMethodLabel(payment.method)}
+              </Badge>
+              {state.items.length > 1 ? (
+                <span className="text-slate-400">{labelFor(payment.registrationExtensionId)}</span>
+              ) : null}
+              {payment.depositId ? (
+                <span className="text-slate-400">{COPY.depositTag}</span>
+              ) : null}
+              {payment.kind === "refund" ? (
+                <span className="text-rose-600">{COPY.refundTag}</span>
+              ) : null}
+              <span className="min-w-0 flex-1 truncate text-slate-400">{payment.memo}</span>
+              {!payment.depositId && payment.kind !== "refund" ? (
+                <button
+                  type="button"
+                  className="text-slate-400 transition hover:text-rose-600 disabled:opacity-50"
+                  disabled={state.busy}
+                  onClick={() => void state.handleDelete(payment)}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  <span className="sr-only">{COPY.delete}</span>
+                </button>
+              ) : null}
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2 border-t border-slate-200/60 pt-3">
+        <div className="flex flex-wrap items-center gap-1">
+          {PAYMENT_METHODS.map((method) => (
+            <Button
+              key={method}
+              type="button"
+              size="sm"
+              variant={state.method === method ? "default" : "outline"}
+              className="h-7 px-2 text-xs"
+              onClick={() => state.setMethod(method)}
+            >
+              {getPaymentMethodLabel(method)}
+            </Button>
+          ))}
+          {state.items.length > 1 ? (
+            <Select
+              value={state.targetExtensionId || REGISTRATION_TARGET}
+              onValueChange={(value) =>
+                state.setTargetExtensionId(value === REGISTRATION_TARGET ? "" : value)
+              }
+            >
+              <SelectTrigger className="h-7 w-28 text-xs" aria-label={COPY.targetLabel}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {state.items.map((item) => (
+                  <SelectItem
+                    key={item.registrationExtensionId || REGISTRATION_TARGET}
+                    value={item.registrationExtensionId || REGISTRATION_TARGET}
+                  >
+                    {labelFor(item.registrationExtensionId)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            className="h-8 w-28"
+            inputMode="numeric"
+            placeholder={COPY.amountPlaceholder}
+            value={state.amount}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => state.setAmount(event.target.value)}
+          />
+          <Input
+            className="h-8 flex-1"
+            placeholder={COPY.memoPlaceholder}
+            value={state.memo}
+            onChange={(event: ChangeEvent<HTMLInputElement>) => state.setMemo(event.target.value)}
+          />
+          <Button
+            type="button"
+            size="sm"
+            className="h-8 px-3 text-xs"
+            disabled={state.busy}
+            onClick={() => void state.handleCreate()}
+          >
+            {COPY.add}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
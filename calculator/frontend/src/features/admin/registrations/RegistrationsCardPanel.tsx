@@ -1,3 +1,6 @@
+import { useMemo } from "react"
+
+import { useAttendanceStatsMap } from "../attendance/useAttendanceStatsMap"
 import CourseOverview from "./CourseOverview"
 import RegistrationCardGrid from "./RegistrationCardGrid"
 import { REGISTRATIONS_PANEL_COPY as COPY } from "./registrationsPanelCopy"
@@ -62,6 +65,11 @@ export default function RegistrationsCardPanel({
   openNoteDialog,
 }: RegistrationsCardPanelProps) {
   const normalizedActiveMergesToday = normalizeActiveMerges(activeMergesToday)
+  const registrationIds = useMemo(
+    () => cardFilteredRegistrations.map((row) => String(row?.id || "").trim()).filter(Boolean),
+    [cardFilteredRegistrations]
+  )
+  const { statsMap: attendanceStatsMap } = useAttendanceStatsMap(registrationIds)
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -83,6 +91,7 @@ export default function RegistrationsCardPanel({
         </div>
         <RegistrationCardGrid
           registrations={cardFilteredRegistrations}
+          attendanceStatsMap={attendanceStatsMap}
           onWithdraw={openWithdrawDialog}
           onRestore={handleRestore}
           onTransfer={canManageTransfers ? openTransferDialog : undefined}
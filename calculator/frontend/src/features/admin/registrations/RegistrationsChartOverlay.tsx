@@ -24,6 +24,7 @@ type RegistrationsChartOverlayProps = {
   openTransferDialog: (...args: any[]) => void
   handleTransferCancel: (...args: any[]) => void
   openNoteDialog: (...args: any[]) => void
+  onHoldChange: () => void
   showTransferChain: boolean
   setShowTransferChain: (value: boolean) => void
   simulationDate: Date | null
@@ -41,6 +42,7 @@ export default function RegistrationsChartOverlay({
   openTransferDialog,
   handleTransferCancel,
   openNoteDialog,
+  onHoldChange,
   showTransferChain,
   setShowTransferChain,
   simulationDate,
@@ -103,6 +105,7 @@ export default function RegistrationsChartOverlay({
                 onTransfer={canManageTransfers ? openTransferDialog : () => {}}
                 onTransferCancel={canManageTransfers ? handleTransferCancel : () => {}}
                 onNote={openNoteDialog}
+                onHoldChange={onHoldChange}
                 showTransferChain={showTransferChain}
                 simulationDate={simulationDate}
                 maxHeightClassName="max-h-[calc(100vh-10rem)]"
@@ -1,7 +1,9 @@
 import MergeErrorDialog from "./MergeErrorDialog"
 import NoteDialog from "./NoteDialog"
 import TransferDialog from "./TransferDialog"
+import type { TransferSettlementPreview } from "./transferSettlementModel"
 import WithdrawDialog from "./WithdrawDialog"
+import type { RefundBreakdown } from "./withdrawRefundModel"
 
 type RegistrationsDialogsProps = {
   noteDialogOpen: boolean
@@ -22,6 +24,9 @@ type RegistrationsDialogsProps = {
   setWithdrawPickerOpen: (open: boolean) => void
   withdrawError: string
   withdrawSaving: boolean
+  withdrawRefund?: RefundBreakdown | null
+  withdrawRefundLoading?: boolean
+  withdrawRefundNotice?: string
   handleWithdrawSave: () => void
   transferDialogOpen: boolean
   closeTransferDialog: () => void
@@ -38,6 +43,7 @@ type RegistrationsDialogsProps = {
   transferCourseGroups: any[]
   transferCourseDays: number[]
   transferExpectedEndDate: string
+  transferSettlementPreview: TransferSettlementPreview | null
   handleTransferSave: () => void
   mergeError: string
   setMergeError: (value: string) => void
@@ -63,6 +69,9 @@ export default function RegistrationsDialogs(props: RegistrationsDialogsProps) {
     setWithdrawPickerOpen,
     withdrawError,
     withdrawSaving,
+    withdrawRefund,
+    withdrawRefundLoading,
+    withdrawRefundNotice,
     handleWithdrawSave,
     transferDialogOpen,
     closeTransferDialog,
@@ -79,6 +88,7 @@ export default function RegistrationsDialogs(props: RegistrationsDialogsProps) {
     transferCourseGroups,
     transferCourseDays,
     transferExpectedEndDate,
+    transferSettlementPreview,
     handleTransferSave,
     mergeError,
     setMergeError,
@@ -108,6 +118,9 @@ export default function RegistrationsDialogs(props: RegistrationsDialogsProps) {
         onPickerOpenChange={setWithdrawPickerOpen}
         error={withdrawError}
         saving={withdrawSaving}
+        refund={withdrawRefund}
+        refundLoading={withdrawRefundLoading}
+        refundNotice={withdrawRefundNotice}
         onSave={handleWithdrawSave}
       />
 
@@ -127,6 +140,7 @@ export default function RegistrationsDialogs(props: RegistrationsDialogsProps) {
         courseGroups={transferCourseGroups}
         courseDays={transferCourseDays}
         expectedEndDate={transferExpectedEndDate}
+        settlementPreview={transferSettlementPreview}
         onSave={handleTransferSave}
       />
 
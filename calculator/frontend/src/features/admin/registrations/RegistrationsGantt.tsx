@@ -30,6 +30,7 @@ type RegistrationsGanttProps = {
   onTransfer: (row: RegistrationRow) => void
   onTransferCancel: (row: RegistrationRow) => void
   onNote: (row: RegistrationRow) => void
+  onHoldChange?: () => void
   showTransferChain?: boolean
   simulationDate?: Date | null
   maxHeightClassName?: string
@@ -49,6 +50,7 @@ export default function RegistrationsGantt({
   onTransfer,
   onTransferCancel,
   onNote,
+  onHoldChange,
   showTransferChain = false,
   simulationDate = null,
   maxHeightClassName = "max-h-[560px]",
@@ -214,6 +216,7 @@ export default function RegistrationsGantt({
         onTransfer={onTransfer}
         onTransferCancel={onTransferCancel}
         onWithdraw={onWithdraw}
+        onHoldChange={onHoldChange}
       />
     </>
   )
@@ -13,11 +13,16 @@ import {
   adjustEndToLastClassDay,
   type RegistrationRow,
 } from "./registrationsGanttModel"
+import RegistrationAuditSection from "./RegistrationAuditSection"
+import RegistrationHoldSection from "./RegistrationHoldSection"
+import RegistrationInvoiceButtons from "./RegistrationInvoiceButtons"
+import RegistrationPaymentsSection from "./RegistrationPaymentsSection"
 import RegistrationsGanttStatusPill from "./RegistrationsGanttStatusPill"
 import TransferHistoryTimeline from "./TransferHistoryTimeline"
 import {
   formatDateYmd,
   getRegistrationStatus,
+  isDailyRegistration,
   stripMathExcludeLabel,
 } from "./utils"
 
@@ -35,6 +40,7 @@ type RegistrationsGanttDetailPanelProps = {
   onTransfer: (row: RegistrationRow) => void
   onTransferCancel: (row: RegistrationRow) => void
   onWithdraw: (row: RegistrationRow) => void
+  onHoldChange?: () => void
 }
 
 export default function RegistrationsGanttDetailPanel({
@@ -51,6 +57,7 @@ export default function RegistrationsGanttDetailPanel({
   onTransfer,
   onTransferCancel,
   onWithdraw,
+  onHoldChange,
 }: RegistrationsGanttDetailPanelProps) {
   const detailStatus = target ? getRegistrationStatus(target, simulationDate || undefined) : "active"
   const detailIsWithdrawn = Boolean(target?.isWithdrawn || target?.withdrawnAt)
@@ -64,6 +71,7 @@ export default function RegistrationsGanttDetailPanel({
   const detailHasScheduledTransfer = Boolean((target as Record<string, unknown>)?._transferScheduled)
   const detailCanWithdraw = !detailIsWithdrawn && !detailIsTransferredOut && !detailHasScheduledTransfer
   const detailCanTransfer = !detailIsWithdrawn && !detailIsTransferredOut && !detailHasScheduledTransfer
+  const detailCanHold = !detailIsWithdrawn && !detailIsTransferredOut && !isDailyRegistration(target)
   const detailCanTransferCancel = detailIsTransferChild && !detailIsTransferredOut && !detailHasScheduledTransfer
 
   const detailCourseLabel = stripMathExcludeLabel(target?.course)
@@ -153,6 +161,21 @@ export default function RegistrationsGanttDetailPanel({
                 선택한 기간 기준으로 표시됩니다.
               </div>
             </div>
+            {target?.id ? (
+              <RegistrationHoldSection
+                registrationId={String(target.id)}
+                holds={target.holds}
+                readOnly={!detailCanHold}
+                onChange={onHoldChange}
+              />
+            ) : null}
+            {target?.id ? <RegistrationPaymentsSection registrationId={String(target.id)} /> : null}
+            {target?.id ? (
+              <RegistrationInvoiceButtons
+                registrationId={String(target.id)}
+                studentName={String(target.name || "")}
+              />
+            ) : null}
             <TransferHistoryTimeline
               history={transferHistory}
               currentId={target?.id}
@@ -165,6 +188,7 @@ export default function RegistrationsGanttDetailPanel({
                 )
               }
             />
+            {target?.id ? <RegistrationAuditSection registrationId={String(target.id)} /> : null}
             <div className="mt-auto border-t border-slate-200/60 pt-4">
               <div className="grid gap-2 sm:grid-cols-2">
                 {detailIsWithdrawn ? (
@@ -21,6 +21,7 @@ type RegistrationsGanttPanelProps = {
   openTransferDialog: (registration: RegistrationRow) => void
   handleTransferCancel: (registration: RegistrationRow) => void | Promise<void>
   openNoteDialog: (registration: RegistrationRow) => void
+  onHoldChange: () => void
   simulationDate: Date | null
 }
 
@@ -38,6 +39,7 @@ export default function RegistrationsGanttPanel({
   openTransferDialog,
   handleTransferCancel,
   openNoteDialog,
+  onHoldChange,
   simulationDate,
 }: RegistrationsGanttPanelProps) {
   return (
@@ -96,6 +98,7 @@ export default function RegistrationsGanttPanel({
             onTransfer={canManageTransfers ? openTransferDialog : () => {}}
             onTransferCancel={canManageTransfers ? handleTransferCancel : () => {}}
             onNote={openNoteDialog}
+            onHoldChange={onHoldChange}
             showTransferChain={showTransferChain}
             simulationDate={simulationDate}
             durationUnit={group.durationUnit}
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button"
+
+import { REGISTRATIONS_PANEL_COPY as COPY } from "./registrationsPanelCopy"
+
+export default function RegistrationsLoadMore({
+  loadedCount,
+  matchedCount,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+}: {
+  loadedCount: number
+  matchedCount: number
+  hasMore: boolean
+  loadingMore: boolean
+  onLoadMore: () => void | Promise<void>
+}) {
+  return (
+    <div className="flex items-center justify-center gap-3 py-2 text-xs text-muted-foreground">
+      <span>
+        {loadedCount.toLocaleString("ko-KR")} / {matchedCount.toLocaleString("ko-KR")}
+        {COPY.loadedCountSuffix}
+      </span>
+      {hasMore ? (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="h-7 px-3 text-xs"
+          disabled={loadingMore}
+          onClick={() => void onLoadMore()}
+        >
+          {loadingMore ? COPY.loadingMore : COPY.loadMore}
+        </Button>
+      ) : null}
+    </div>
+  )
+}
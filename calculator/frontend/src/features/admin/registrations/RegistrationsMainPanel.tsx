@@ -1,5 +1,7 @@
 import MergeManagerCard from "./MergeManagerCard"
+import RegistrationsLoadMore from "./RegistrationsLoadMore"
 import RegistrationsPanelContent from "./RegistrationsPanelContent"
+import type { BulkExtensionResult } from "./installmentBulkExtensionModel"
 import type {
   CourseConfigSet,
   ExtensionRow,
@@ -43,6 +45,9 @@ type RegistrationsMainPanelProps = {
   courseIdToLabel: Map<string, string>
   resolveCourseDays: (courseName: string) => number[]
   onCreateExtension: (payload: Record<string, unknown>) => Promise<void>
+  onBulkCreateExtensions: (payload: Record<string, unknown>) => Promise<BulkExtensionResult[]>
+  onUpdateExtension: (extensionId: string, payload: Record<string, unknown>) => Promise<void>
+  onDeleteExtension: (extensionId: string) => Promise<void>
   categoryFilter: string
   courseFilter: string
   showGantt: boolean
@@ -58,6 +63,7 @@ type RegistrationsMainPanelProps = {
   openTransferDialog: (registration: RegistrationRow) => void
   handleTransferCancel: (registration: RegistrationRow) => void | Promise<void>
   openNoteDialog: (registration: RegistrationRow) => void
+  onHoldChange: () => void
   simulationDate: Date | null
   isAllView: boolean
   viewSource: string
@@ -67,6 +73,11 @@ type RegistrationsMainPanelProps = {
   activeMergesToday: MergeEntry[]
   mergedCourseSetToday: Set<string>
   cardFilteredRegistrations: RegistrationRow[]
+  loadedCount: number
+  matchedCount: number | null
+  hasMoreRegistrations: boolean
+  loadingMore: boolean
+  onLoadMoreRegistrations: () => void | Promise<void>
 }
 
 export default function RegistrationsMainPanel({
@@ -104,6 +115,9 @@ export default function RegistrationsMainPanel({
   courseIdToLabel,
   resolveCourseDays,
   onCreateExtension,
+  onBulkCreateExtensions,
+  onUpdateExtension,
+  onDeleteExtension,
   categoryFilter,
   courseFilter,
   showGantt,
@@ -119,6 +133,7 @@ export default function RegistrationsMainPanel({
   openTransferDialog,
   handleTransferCancel,
   openNoteDialog,
+  onHoldChange,
   simulationDate,
   isAllView,
   viewSource,
@@ -128,6 +143,11 @@ export default function RegistrationsMainPanel({
   activeMergesToday,
   mergedCourseSetToday,
   cardFilteredRegistrations,
+  loadedCount,
+  matchedCount,
+  hasMoreRegistrations,
+  loadingMore,
+  onLoadMoreRegistrations,
 }: RegistrationsMainPanelProps) {
   return (
     <div className="space-y-6">
@@ -184,6 +204,9 @@ export default function RegistrationsMainPanel({
         courseIdToLabel={courseIdToLabel}
         resolveCourseDays={resolveCourseDays}
         onCreateExtension={onCreateExtension}
+        onBulkCreateExtensions={onBulkCreateExtensions}
+        onUpdateExtension={onUpdateExtension}
+        onDeleteExtension={onDeleteExtension}
         categoryFilter={categoryFilter}
         courseFilter={courseFilter}
         showGantt={showGantt}
@@ -199,6 +222,7 @@ export default function RegistrationsMainPanel({
         openTransferDialog={openTransferDialog}
         handleTransferCancel={handleTransferCancel}
         openNoteDialog={openNoteDialog}
+        onHoldChange={onHoldChange}
         simulationDate={simulationDate}
         isAllView={isAllView}
         viewSource={viewSource}
@@ -209,6 +233,16 @@ export default function RegistrationsMainPanel({
         mergedCourseSetToday={mergedCourseSetToday}
         cardFilteredRegistrations={cardFilteredRegistrations}
       />
+
+      {selectedCourseConfigSet && !loading && matchedCount !== null ? (
+        <RegistrationsLoadMore
+          loadedCount={loadedCount}
+          matchedCount={matchedCount}
+          hasMore={hasMoreRegistrations}
+          loadingMore={loadingMore}
+          onLoadMore={onLoadMoreRegistrations}
+        />
+      ) : null}
     </div>
   )
 }
@@ -1,3 +1,4 @@
+import DepositReconciliationPanel from "./DepositReconciliationPanel"
 import InstallmentBoard from "./InstallmentBoard"
 import RegistrationsCardPanel from "./RegistrationsCardPanel"
 import RegistrationsGanttPanel from "./RegistrationsGanttPanel"
@@ -7,6 +8,7 @@ import {
   RegistrationsLoadingState,
 } from "./RegistrationsPanelStates"
 import { REGISTRATIONS_PANEL_COPY as COPY } from "./registrationsPanelCopy"
+import type { BulkExtensionResult } from "./installmentBulkExtensionModel"
 import type {
   CourseConfigSet,
   ExtensionRow,
@@ -28,6 +30,9 @@ type RegistrationsPanelContentProps = {
   courseIdToLabel: Map<string, string>
   resolveCourseDays: (courseName: string) => number[]
   onCreateExtension: (payload: Record<string, unknown>) => Promise<void>
+  onBulkCreateExtensions: (payload: Record<string, unknown>) => Promise<BulkExtensionResult[]>
+  onUpdateExtension: (extensionId: string, payload: Record<string, unknown>) => Promise<void>
+  onDeleteExtension: (extensionId: string) => Promise<void>
   categoryFilter: string
   courseFilter: string
   showGantt: boolean
@@ -43,6 +48,7 @@ type RegistrationsPanelContentProps = {
   openTransferDialog: (registration: RegistrationRow) => void
   handleTransferCancel: (registration: RegistrationRow) => void | Promise<void>
   openNoteDialog: (registration: RegistrationRow) => void
+  onHoldChange: () => void
   simulationDate: Date | null
   isAllView: boolean
   viewSource: string
@@ -67,6 +73,9 @@ export default function RegistrationsPanelContent({
   courseIdToLabel,
   resolveCourseDays,
   onCreateExtension,
+  onBulkCreateExtensions,
+  onUpdateExtension,
+  onDeleteExtension,
   categoryFilter,
   courseFilter,
   showGantt,
@@ -82,6 +91,7 @@ export default function RegistrationsPanelContent({
   openTransferDialog,
   handleTransferCancel,
   openNoteDialog,
+  onHoldChange,
   simulationDate,
   isAllView,
   viewSource,
@@ -110,17 +120,23 @@ export default function RegistrationsPanelContent({
 
   if (installmentMode && canViewInstallments) {
     return (
-      <InstallmentBoard
-        registrations={filteredRegistrations}
-        extensions={extensions}
-        extensionsLoading={extensionsLoading}
-        courseConfigSet={selectedCourseConfigSetObj}
-        courseIdToLabel={courseIdToLabel}
-        resolveCourseDays={resolveCourseDays}
-        onCreateExtension={onCreateExtension}
-        categoryFilter={categoryFilter}
-        courseFilter={courseFilter}
-      />
+      <div className="grid gap-4 2xl:grid-cols-[minmax(0,1fr)_minmax(0,560px)]">
+        <InstallmentBoard
+          registrations={filteredRegistrations}
+          extensions={extensions}
+          extensionsLoading={extensionsLoading}
+          courseConfigSet={selectedCourseConfigSetObj}
+          courseIdToLabel={courseIdToLabel}
+          resolveCourseDays={resolveCourseDays}
+          onCreateExtension={onCreateExtension}
+          onBulkCreateExtensions={onBulkCreateExtensions}
+          onUpdateExtension={onUpdateExtension}
+          onDeleteExtension={onDeleteExtension}
+          categoryFilter={categoryFilter}
+          courseFilter={courseFilter}
+        />
+        <DepositReconciliationPanel registrations={filteredRegistrations} />
+      </div>
     )
   }
 
@@ -140,6 +156,7 @@ export default function RegistrationsPanelContent({
         openTransferDialog={openTransferDialog}
         handleTransferCancel={handleTransferCancel}
         openNoteDialog={openNoteDialog}
+        onHoldChange={onHoldChange}
         simulationDate={simulationDate}
       />
     )
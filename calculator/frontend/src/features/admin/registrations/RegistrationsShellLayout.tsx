@@ -48,6 +48,9 @@ export default function RegistrationsShellLayout(props: any) {
     selectedCourseConfigSetObj,
     resolveCourseDays,
     handleCreateExtension,
+    handleBulkCreateExtensions,
+    handleUpdateExtension,
+    handleDeleteExtension,
     categoryFilter,
     showGantt,
     showTransferChain,
@@ -66,6 +69,14 @@ export default function RegistrationsShellLayout(props: any) {
     viewSource,
     handleCourseFilterFromCard,
     cardFilteredRegistrations,
+    canAccessRegistrations,
+    loadRegistrations,
+    registrations,
+    listCounts,
+    matchedCount,
+    nextCursor,
+    loadingMore,
+    loadMoreRegistrations,
   } = props
 
   return (
@@ -73,6 +84,7 @@ export default function RegistrationsShellLayout(props: any) {
       {selectedCourseConfigSet ? (
         <RegistrationsSidebar
           registrations={baseRegistrations}
+          listCounts={listCounts}
           courseFilter={courseFilter}
           onCourseFilterChange={handleCourseFilterFromSidebar}
           courseIdToLabel={courseConfigSetIdToLabel}
@@ -85,6 +97,9 @@ export default function RegistrationsShellLayout(props: any) {
           onVariantFilterChange={setVariantFilter}
           simulationDate={simulationDate}
           onSimulationDateChange={setSimulationDate}
+          courseConfigSetName={selectedCourseConfigSet}
+          canManageWaitlist={canAccessRegistrations}
+          onWaitlistConverted={loadRegistrations}
         />
       ) : null}
 
@@ -124,6 +139,9 @@ export default function RegistrationsShellLayout(props: any) {
           courseIdToLabel={courseConfigSetIdToLabel}
           resolveCourseDays={resolveCourseDays}
           onCreateExtension={handleCreateExtension}
+          onBulkCreateExtensions={handleBulkCreateExtensions}
+          onUpdateExtension={handleUpdateExtension}
+          onDeleteExtension={handleDeleteExtension}
           categoryFilter={categoryFilter}
           courseFilter={courseFilter}
           showGantt={showGantt}
@@ -139,6 +157,7 @@ export default function RegistrationsShellLayout(props: any) {
           openTransferDialog={openTransferDialog}
           handleTransferCancel={handleTransferCancel}
           openNoteDialog={openNoteDialog}
+          onHoldChange={loadRegistrations}
           simulationDate={simulationDate}
           isAllView={isAllView}
           viewSource={viewSource}
@@ -148,6 +167,11 @@ export default function RegistrationsShellLayout(props: any) {
           activeMergesToday={activeMergesToday}
           mergedCourseSetToday={mergedCourseSetToday}
           cardFilteredRegistrations={cardFilteredRegistrations}
+          loadedCount={registrations?.length || 0}
+          matchedCount={matchedCount}
+          hasMoreRegistrations={Boolean(nextCursor)}
+          loadingMore={loadingMore}
+          onLoadMoreRegistrations={loadMoreRegistrations}
         />
       </main>
     </div>
@@ -13,6 +13,7 @@ export default function RegistrationsShellOverlays(props: any) {
     openTransferDialog,
     handleTransferCancel,
     openNoteDialog,
+    loadRegistrations,
     showTransferChain,
     setShowTransferChain,
     simulationDate,
@@ -35,6 +36,9 @@ export default function RegistrationsShellOverlays(props: any) {
     setWithdrawPickerOpen,
     withdrawError,
     withdrawSaving,
+    withdrawRefund,
+    withdrawRefundLoading,
+    withdrawRefundNotice,
     handleWithdrawSave,
     transferDialogOpen,
     closeTransferDialog,
@@ -51,6 +55,7 @@ export default function RegistrationsShellOverlays(props: any) {
     transferCourseGroups,
     transferCourseDays,
     transferExpectedEndDate,
+    transferSettlementPreview,
     handleTransferSave,
     mergeError,
     setMergeError,
@@ -69,6 +74,7 @@ export default function RegistrationsShellOverlays(props: any) {
         openTransferDialog={openTransferDialog}
         handleTransferCancel={handleTransferCancel}
         openNoteDialog={openNoteDialog}
+        onHoldChange={loadRegistrations}
         showTransferChain={showTransferChain}
         setShowTransferChain={setShowTransferChain}
         simulationDate={simulationDate}
@@ -93,6 +99,9 @@ export default function RegistrationsShellOverlays(props: any) {
         setWithdrawPickerOpen={setWithdrawPickerOpen}
         withdrawError={withdrawError}
         withdrawSaving={withdrawSaving}
+        withdrawRefund={withdrawRefund}
+        withdrawRefundLoading={withdrawRefundLoading}
+        withdrawRefundNotice={withdrawRefundNotice}
         handleWithdrawSave={handleWithdrawSave}
         transferDialogOpen={transferDialogOpen}
         closeTransferDialog={closeTransferDialog}
@@ -109,6 +118,7 @@ export default function RegistrationsShellOverlays(props: any) {
         transferCourseGroups={transferCourseGroups}
         transferCourseDays={transferCourseDays}
         transferExpectedEndDate={transferExpectedEndDate}
+        transferSettlementPreview={transferSettlementPreview}
         handleTransferSave={handleTransferSave}
         mergeError={mergeError}
         setMergeError={setMergeError}
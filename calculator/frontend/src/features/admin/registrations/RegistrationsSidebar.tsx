@@ -1,5 +1,7 @@
 import { useCallback, useMemo, useState } from "react"
 
+import type { RegistrationListCounts } from "@shared/registrationListQuery"
+
 import { ScrollArea } from "@/components/ui/scroll-area"
 
 import {
@@ -7,17 +9,22 @@ import {
   SidebarSimulationDate,
   SidebarStatsHeader,
   SidebarVariantTabs,
+  SidebarWaitlist,
 } from "./RegistrationsSidebarSections"
 import {
   buildSidebarCourseGroups,
+  buildSidebarCourseGroupsFromCounts,
   buildSidebarItems,
   buildSidebarStats,
+  buildSidebarStatsFromCounts,
   type SidebarActiveMerge,
   type SidebarRegistrationRow,
 } from "./registrationsSidebarModel"
 
 type SidebarProps = {
   registrations: SidebarRegistrationRow[]
+  /** 서버 집계. 있으면 불러온 페이지 대신 이 값으로 통계·과목 건수를 보여 준다 */
+  listCounts?: RegistrationListCounts | null
   courseFilter: string
   onCourseFilterChange: (value: string) => void
   courseIdToLabel: Map<string, string>
@@ -30,10 +37,14 @@ type SidebarProps = {
   onVariantFilterChange?: (value: string) => void
   simulationDate?: Date | null
   onSimulationDateChange?: (date: Date | null) => void
+  courseConfigSetName?: string
+  canManageWaitlist?: boolean
+  onWaitlistConverted?: () => void | Promise<void>
 }
 
 export default function RegistrationsSidebar({
   registrations,
+  listCounts = null,
   courseFilter,
   onCourseFilterChange,
   courseIdToLabel,
@@ -45,19 +56,32 @@ export default function RegistrationsSidebar({
   onVariantFilterChange,
   simulationDate = null,
   onSimulationDateChange,
+  courseConfigSetName = "",
+  canManageWaitlist = false,
+  onWaitlistConverted,
 }: SidebarProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [expandedMerges, setExpandedMerges] = useState<Set<string>>(new Set())
 
-  const stats = useMemo(() => buildSidebarStats(registrations), [registrations])
+  const stats = useMemo(
+    () => (listCounts ? buildSidebarStatsFromCounts(listCounts) : buildSidebarStats(registrations)),
+    [listCounts, registrations]
+  )
 
   const courseGroups = useMemo(() => {
+    if (listCounts) {
+      return buildSidebarCourseGroupsFromCounts({
+        counts: listCounts,
+        courseIdToLabel,
+        courseVariantRequiredSet,
+      })
+    }
     return buildSidebarCourseGroups({
       registrations,
       courseIdToLabel,
       courseVariantRequiredSet,
     })
-  }, [registrations, courseIdToLabel, courseVariantRequiredSet])
+  }, [listCounts, registrations, courseIdToLabel, courseVariantRequiredSet])
 
   const filteredCourseGroups = useMemo(() => {
     return buildSidebarItems({
@@ -98,6 +122,13 @@ export default function RegistrationsSidebar({
         />
       </ScrollArea>
 
+      <SidebarWaitlist
+        courseConfigSetName={courseConfigSetName}
+        courseFilter={courseFilter}
+        canManage={canManageWaitlist}
+        onConverted={onWaitlistConverted}
+      />
+
       <SidebarVariantTabs
         variantTabs={variantTabs}
         variantFilter={variantFilter}
@@ -2,3 +2,4 @@ export { SidebarCourseList } from "./SidebarCourseList"
 export { SidebarSimulationDate } from "./SidebarSimulationDate"
 export { SidebarStatsHeader } from "./SidebarStatsHeader"
 export { SidebarVariantTabs } from "./SidebarVariantTabs"
+export { SidebarWaitlist } from "./SidebarWaitlist"
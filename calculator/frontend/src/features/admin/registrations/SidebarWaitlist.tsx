@@ -0,0 +1,86 @@
+import { Hourglass } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+
+import { useWaitlist } from "./useWaitlist"
+import { WAITLIST_COPY as COPY } from "./waitlistCopy"
+import { groupWaitlistByClass } from "./waitlistModel"
+
+type SidebarWaitlistProps = {
+  courseConfigSetName: string
+  courseFilter: string
+  canManage?: boolean
+  onConverted?: () => void | Promise<void>
+}
+
+export function SidebarWaitlist({
+  courseConfigSetName,
+  courseFilter,
+  canManage = false,
+  onConverted,
+}: SidebarWaitlistProps) {
+  const waitlist = useWaitlist({ courseConfigSetName, onConverted })
+  const groups = groupWaitlistByClass(waitlist.entries, courseFilter)
+  const count = groups.reduce((sum, group) => sum + group.entries.length, 0)
+
+  return (
+    <div className="space-y-2 border-t border-border/40 px-3 py-3">
+      <h3 className="flex items-center gap-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+        <Hourglass className="h-3 w-3" /> {COPY.title}
+        {count ? <span className="ml-1 font-normal normal-case text-amber-600">{count}</span> : null}
+      </h3>
+      {waitlist.error ? <div className="text-xs text-destructive">{waitlist.error}</div> : null}
+      {groups.length === 0 ? (
+        <div className="text-xs text-slate-400">{COPY.empty}</div>
+      ) : (
+        <div className="max-h-[220px] space-y-2 overflow-y-auto pr-1">
+          {groups.map((group) => (
+            <div key={group.key} className="rounded-lg border border-slate-200/70 px-2 py-1.5">
+              <div className="truncate text-[11px] font-medium text-slate-600">
+                {group.course}
+                {group.slotLabel ? <span className="ml-1 text-slate-400">{group.slotLabel}</span> : null}
+              </div>
+              {group.entries.map((entry) => (
+                <div key={entry.id} className="mt-1 flex items-center justify-between gap-1 text-xs">
+                  <span className="truncate text-slate-700" title={entry.memo || undefined}>
+                    {entry.position ? (
+                      <span className="mr-1 text-amber-600">
+                        {entry.position}
+                        {COPY.positionSuffix}
+                      </span>
+                    ) : null}
+                    {entry.studentName}
+                  </span>
+                  {canManage ? (
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-6 px-2 text-[11px]"
+                        disabled={!!waitlist.busyId}
+                        onClick={() => void waitlist.handleConvert(entry)}
+                      >
+                        {COPY.convert}
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-[11px] text-muted-foreground"
+                        disabled={!!waitlist.busyId}
+                        onClick={() => void waitlist.handleCancel(entry)}
+                      >
+                        {COPY.cancel}
+                      </Button>
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -15,11 +15,13 @@ import { CalendarDays } from "lucide-react"
 import {
   TransferCourseCombobox,
   TransferPreviewCard,
+  TransferSettlementCard,
   TransferStepIndicator,
   TransferTargetCard,
 } from "./TransferDialogSections"
 import type { TransferDialogRegistrationRow } from "./TransferDialogSections"
 import { TRANSFER_COPY } from "./transferCopy"
+import type { TransferSettlementPreview } from "./transferSettlementModel"
 import { formatDateYmd, isDailyRegistration, parseDate } from "./utils"
 import type { TransferGroup } from "./useTransfer"
 
@@ -39,6 +41,7 @@ type TransferDialogProps = {
   courseGroups: TransferGroup[]
   courseDays: number[]
   expectedEndDate: string
+  settlementPreview?: TransferSettlementPreview | null
   onSave: () => void
 }
 
@@ -58,6 +61,7 @@ export default function TransferDialog({
   courseGroups,
   courseDays,
   expectedEndDate,
+  settlementPreview,
   onSave,
 }: TransferDialogProps) {
   const hasCourseSelected = !!courseValue
@@ -91,7 +95,7 @@ export default function TransferDialog({
         if (!isOpen) onClose()
       }}
     >
-      <DialogContent className="max-w-md overflow-hidden rounded-2xl border-0 p-0 shadow-2xl shadow-slate-300/40">
+      <DialogContent className="max-h-[90vh] max-w-md overflow-y-auto rounded-2xl border-0 p-0 shadow-2xl shadow-slate-300/40">
         <DialogHeader className="border-b border-slate-100 bg-gradient-to-br from-indigo-500 via-indigo-600 to-violet-600 px-6 py-5">
           <DialogTitle className="text-lg font-bold text-white">{TRANSFER_COPY.dialogTitle}</DialogTitle>
           <DialogDescription className="mt-0.5 text-sm text-indigo-100/80">
@@ -182,6 +186,8 @@ export default function TransferDialog({
                 isDaily={isDaily}
               />
             ) : null}
+
+            {hasPreview && settlementPreview ? <TransferSettlementCard preview={settlementPreview} /> : null}
           </div>
         ) : null}
 
@@ -1,5 +1,6 @@
 export { TransferCourseCombobox } from "./TransferCourseCombobox"
 export { TransferPreviewCard } from "./TransferPreviewCard"
+export { TransferSettlementCard } from "./TransferSettlementCard"
 export { TransferStepIndicator } from "./TransferStepIndicator"
 export { TransferTargetCard } from "./TransferTargetCard"
 export type { TransferDialogRegistrationRow } from "./transferDialogTypes"
@@ -1,5 +1,9 @@
 import { ArrowRightLeft } from "lucide-react"
 
+import { normalizeTransferSettlement } from "@shared/transferSettlement"
+
+import { TRANSFER_COPY } from "./transferCopy"
+import { formatTransferSettlementDifference } from "./transferSettlementModel"
 import { formatDateYmd, stripMathExcludeLabel } from "./utils"
 
 type RegistrationRow = {
@@ -41,6 +45,8 @@ export default function TransferHistoryTimeline({
           const start = formatDateYmd(entry?.startDate)
           const adjustedEnd = adjustEndDate ? adjustEndDate(entry?.endDate, entry?.course) : entry?.endDate
           const end = formatDateYmd(adjustedEnd)
+          // 정산은 전반으로 만든 등록에 붙어 있다
+          const settlement = normalizeTransferSettlement(entry?.transferSettlement)
 
           return (
             <div
@@ -64,6 +70,11 @@ export default function TransferHistoryTimeline({
                 {start}
                 {end ? ` ~ ${end}` : " ~"}
               </div>
+              {settlement ? (
+                <div className="text-[11px] text-slate-500">
+                  {TRANSFER_COPY.historySettlement} · {formatTransferSettlementDifference(settlement)}
+                </div>
+              ) : null}
               {i < history.length - 1 ? (
                 <div className="mt-1 text-[10px] text-amber-500">다음 전반</div>
               ) : null}
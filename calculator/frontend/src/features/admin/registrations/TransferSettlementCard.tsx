@@ -0,0 +1,52 @@
+import { Scale } from "lucide-react"
+
+import { getTransferSettlementDirection } from "@shared/transferSettlement"
+
+import { formatDepositAmount } from "./depositReconciliationModel"
+import { TRANSFER_COPY } from "./transferCopy"
+import { formatTransferSettlementDifference, type TransferSettlementPreview } from "./transferSettlementModel"
+
+const DIFFERENCE_CLASS = {
+  charge: "text-rose-700",
+  credit: "text-indigo-700",
+  even: "text-slate-600",
+} as const
+
+export function TransferSettlementCard({ preview }: { preview: TransferSettlementPreview }) {
+  const settlement = preview.settlement
+
+  return (
+    <div className="overflow-hidden rounded-xl bg-white ring-1 ring-slate-200/80">
+      <div className="flex items-center gap-1.5 border-b border-slate-100 px-4 py-2">
+        <Scale className="h-3.5 w-3.5 text-slate-400" />
+        <span className="text-xs font-bold uppercase tracking-wide text-slate-500">
+          {TRANSFER_COPY.settlementTitle}
+        </span>
+      </div>
+      {settlement ? (
+        <div className="space-y-1.5 px-4 py-3 text-sm">
+          <div className="flex items-center justify-between text-slate-600">
+            <span>
+              {TRANSFER_COPY.settlementPrevious} · {settlement.weeks}
+              {TRANSFER_COPY.weeksUnit}
+            </span>
+            <span>{formatDepositAmount(settlement.previousAmount)}</span>
+          </div>
+          <div className="flex items-center justify-between text-slate-600">
+            <span>{TRANSFER_COPY.settlementNext}</span>
+            <span>{formatDepositAmount(settlement.nextAmount)}</span>
+          </div>
+          <div
+            className={`flex justify-end border-t border-slate-100 pt-1.5 font-bold ${
+              DIFFERENCE_CLASS[getTransferSettlementDirection(settlement.difference)]
+            }`}
+          >
+            {formatTransferSettlementDifference(settlement)}
+          </div>
+        </div>
+      ) : (
+        <div className="px-4 py-3 text-xs text-amber-600">{TRANSFER_COPY.settlementMissingFee}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import type { ChangeEvent } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+import { formatDepositReceivedAt } from "./depositReconciliationModel"
+import { useUnparsedSmsQueue } from "./useUnparsedSmsQueue"
+
+type UnparsedSmsQueueProps = {
+  onResolved?: () => void | Promise<void>
+}
+
+export default function UnparsedSmsQueue({ onResolved }: UnparsedSmsQueueProps) {
+  const queue = useUnparsedSmsQueue({ onResolved })
+
+  return (
+    <section className="space-y-2 border-t border-slate-200/60 pt-3">
+      <div className="text-sm font-semibold text-slate-700">
+        {COPY.unparsedTitle}
+        {queue.rows.length ? (
+          <span className="ml-1 text-xs font-normal text-rose-600">{queue.rows.length}</span>
+        ) : null}
+      </div>
+      {queue.error ? <div className="text-xs text-destructive">{queue.error}</div> : null}
+      {queue.rows.length === 0 ? (
+        <div className="text-xs text-slate-400">{COPY.unparsedEmpty}</div>
+      ) : (
+        <div className="max-h-[240px] space-y-1.5 overflow-y-auto pr-1">
+          {queue.rows.map((row) => (
+            <div key={row.id} className="rounded-lg border border-slate-200/70 px-3 py-2 text-xs">
+              <div className="flex items-center justify-between gap-2 text-slate-500">
+                <span>
+                  {formatDepositReceivedAt(row.receivedAt)} · {row.bank || COPY.unknownBank}
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-6 px-2 text-[11px]"
+                    disabled={queue.busy}
+                    onClick={() => queue.startEdit(row)}
+                  >
+                    {COPY.unparsedResolve}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="h-6 px-2 text-[11px]"
+                    disabled={queue.busy}
+                    onClick={() => void queue.handleDismiss(row)}
+                  >
+                    {COPY.unparsedDismiss}
+                  </Button>
+                </div>
+              </div>
+              <div className="mt-1 whitespace-pre-wrap break-all text-slate-700">{row.rawBody}</div>
+              {queue.editingId === row.id ? (
+                <div className="mt-2 flex items-center gap-2">
+                  <Input
+                    className="h-7 w-24"
+                    placeholder={COPY.unparsedNamePlaceholder}
+                    value={queue.depositorName}
+                    onChange={(event: ChangeEvent<HTMLInputElement>) => queue.setDepositorName(event.target.value)}
+                  />
+                  <Input
+                    className="h-7 w-28 text-right"
+                    inputMode="numeric"
+                    placeholder={COPY.unparsedAmountPlaceholder}
+                    value={queue.amount}
+                    onChange={(event: ChangeEvent<HTMLInputElement>) => queue.setAmount(event.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    disabled={queue.busy}
+                    onClick={() => void queue.handleResolve(row)}
+                  >
+                    {COPY.save}
+                  </Button>
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
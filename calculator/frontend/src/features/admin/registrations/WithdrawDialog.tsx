@@ -12,7 +12,9 @@ import { Label } from "@/components/ui/label"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import type { DateValue, DatesRangeValue } from "@mantine/dates"
 
+import { formatDepositAmount } from "./depositReconciliationModel"
 import { WITHDRAW_COPY } from "./withdrawCopy"
+import { getRefundRuleLabel, type RefundBreakdown } from "./withdrawRefundModel"
 import { formatDateYmd, parseDate } from "./utils"
 
 type RegistrationRow = {
@@ -31,6 +33,74 @@ type WithdrawDialogProps = {
   error: string
   saving: boolean
   onSave: () => void
+  refund?: RefundBreakdown | null
+  refundLoading?: boolean
+  refundNotice?: string
+}
+
+function RefundSummaryRow({ label, amount, strong }: { label: string; amount: number; strong?: boolean }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-muted-foreground">{label}</span>
+      <span className={strong ? "font-semibold text-foreground" : "text-foreground"}>
+        {formatDepositAmount(amount)}
+      </span>
+    </div>
+  )
+}
+
+function RefundBreakdownSection({
+  refund,
+  loading,
+  notice,
+}: {
+  refund?: RefundBreakdown | null
+  loading?: boolean
+  notice?: string
+}) {
+  return (
+    <div className="space-y-2 rounded-lg border border-border/60 px-4 py-3 text-xs">
+      <div className="text-sm font-semibold">{WITHDRAW_COPY.refundTitle}</div>
+      {loading ? (
+        <div className="text-muted-foreground">{WITHDRAW_COPY.refundLoading}</div>
+      ) : !refund ? (
+        <div className="text-muted-foreground">{WITHDRAW_COPY.refundNoFee}</div>
+      ) : (
+        <>
+          <div className="space-y-1">
+            {refund.lines.map((line) => (
+              <div key={`${line.label}-${line.startDate}`} className="flex items-center gap-2">
+                <span className="w-20 shrink-0 font-medium">{line.label}</span>
+                <span className="min-w-0 flex-1 truncate text-muted-foreground">
+                  {line.startDate} ~ {line.endDate} · {line.sessionCount}
+                  {WITHDRAW_COPY.refundSessions} {line.heldCount}
+                  {WITHDRAW_COPY.refundHeld}
+                </span>
+                <span className="shrink-0 text-muted-foreground">{getRefundRuleLabel(line.rule)}</span>
+                <span className="w-20 shrink-0 text-right">{formatDepositAmount(line.refund)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1 border-t border-border/60 pt-2">
+            <RefundSummaryRow label={WITHDRAW_COPY.refundTotalFee} amount={refund.totalFee} />
+            <RefundSummaryRow label={WITHDRAW_COPY.refundRefundable} amount={refund.refundableFee} />
+            <RefundSummaryRow label={WITHDRAW_COPY.refundRetainedFee} amount={refund.retainedFee} />
+            <RefundSummaryRow label={WITHDRAW_COPY.refundPaid} amount={refund.paidAmount} />
+            {refund.outstandingAmount > 0 ? (
+              <RefundSummaryRow
+                label={WITHDRAW_COPY.refundOutstanding}
+                amount={refund.outstandingAmount}
+                strong
+              />
+            ) : (
+              <RefundSummaryRow label={WITHDRAW_COPY.refundAmount} amount={refund.refundAmount} strong />
+            )}
+          </div>
+        </>
+      )}
+      {notice ? <div className="text-amber-600">{notice}</div> : null}
+    </div>
+  )
 }
 
 export default function WithdrawDialog({
@@ -44,6 +114,9 @@ export default function WithdrawDialog({
   error,
   saving,
   onSave,
+  refund,
+  refundLoading,
+  refundNotice,
 }: WithdrawDialogProps) {
   return (
     <Dialog
@@ -52,7 +125,7 @@ export default function WithdrawDialog({
         if (!isOpen) onClose()
       }}
     >
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg">
         <DialogHeader>
           <DialogTitle>{WITHDRAW_COPY.dialogTitle}</DialogTitle>
           <DialogDescription>
@@ -99,6 +172,7 @@ export default function WithdrawDialog({
                 </PopoverContent>
               </Popover>
             </div>
+            <RefundBreakdownSection refund={refund} loading={refundLoading} notice={refundNotice} />
           </div>
         ) : null}
 
@@ -112,7 +186,7 @@ export default function WithdrawDialog({
           <Button type="button" variant="outline" onClick={onClose}>
             {WITHDRAW_COPY.cancel}
           </Button>
-          <Button type="button" onClick={onSave} disabled={saving}>
+          <Button type="button" onClick={onSave} disabled={saving || refundLoading}>
             {WITHDRAW_COPY.submit}
           </Button>
         </DialogFooter>
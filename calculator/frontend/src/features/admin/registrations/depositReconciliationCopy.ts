@@ -0,0 +1,53 @@
+export const DEPOSIT_RECONCILIATION_COPY = {
+  title: "\uC785\uAE08 \uB300\uC0AC",
+  subtitle: "\uBBF8\uB0A9 \uB4F1\uB85D\uACFC \uBBF8\uD655\uC778 \uC785\uAE08\uC744 \uB098\uB780\uD788 \uD655\uC778\uD569\uB2C8\uB2E4.",
+  unpaidTitle: "\uBBF8\uB0A9 \uB4F1\uB85D",
+  depositsTitle: "\uC785\uAE08 \uB0B4\uC5ED",
+  noUnpaid: "\uBBF8\uB0A9 \uB4F1\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  noDeposits: "\uC870\uAC74\uC5D0 \uB9DE\uB294 \uC785\uAE08\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  loading: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  loadFailed: "\uC785\uAE08 \uB0B4\uC5ED\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  actionFailed: "\uCC98\uB9AC\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  refresh: "\uC0C8\uB85C\uACE0\uCE68",
+  rematch: "\uC790\uB3D9 \uB9E4\uCE6D",
+  rematchDone: "\uC7AC\uB9E4\uCE6D \uC644\uB8CC",
+  depositorPlaceholder: "\uC785\uAE08\uC790\uBA85",
+  fromLabel: "\uC2DC\uC791\uC77C",
+  toLabel: "\uC885\uB8CC\uC77C",
+  statusOpen: "\uBBF8\uD655\uC778",
+  statusAll: "\uC804\uCCB4",
+  link: "\uC5F0\uACB0",
+  unlink: "\uD574\uC81C",
+  ignore: "\uC81C\uC678",
+  split: "\uBD84\uD560 \uC5F0\uACB0",
+  ignorePrompt: "\uC81C\uC678 \uC0AC\uC720\uB97C \uC785\uB825\uD574 \uC8FC\uC138\uC694. (\uD658\uBD88, \uC218\uAC15\uB8CC \uC678 \uC785\uAE08 \uB4F1)",
+  selectDepositHint: "\uC785\uAE08\uC744 \uC120\uD0DD\uD55C \uB4A4 \uBBF8\uB0A9 \uB4F1\uB85D\uC5D0 \uC5F0\uACB0\uD558\uC138\uC694.",
+  feeLabel: "\uC218\uAC15\uB8CC",
+  remainingLabel: "\uBBF8\uB0A9",
+  extensionTag: "\uC5F0\uC7A5",
+  wonSuffix: "\uC6D0",
+  splitTitle: "\uC785\uAE08 \uBD84\uD560 \uC5F0\uACB0",
+  splitDescription: "\uD615\uC81C \uD569\uC0B0 \uC785\uAE08\uCC98\uB7FC \uD55C \uAC74\uC758 \uC785\uAE08\uC744 \uC5EC\uB7EC \uB4F1\uB85D\uC5D0 \uB098\uB220 \uC5F0\uACB0\uD569\uB2C8\uB2E4.",
+  splitDepositLabel: "\uC785\uAE08\uC561",
+  splitTotalLabel: "\uBD84\uD560 \uD569\uACC4",
+  splitNeedTwo: "\uBD84\uD560\uD560 \uB4F1\uB85D\uC744 2\uAC1C \uC774\uC0C1 \uC120\uD0DD\uD574 \uC8FC\uC138\uC694.",
+  splitInvalidAmount: "\uBD84\uD560 \uAE08\uC561\uC740 1\uC6D0 \uC774\uC0C1\uC774\uC5B4\uC57C \uD569\uB2C8\uB2E4.",
+  splitSumMismatch: "\uBD84\uD560 \uAE08\uC561\uC758 \uD569\uC774 \uC785\uAE08\uC561\uACFC \uB2E4\uB985\uB2C8\uB2E4.",
+  cancel: "\uCDE8\uC18C",
+  save: "\uC800\uC7A5",
+  unparsedTitle: "\uBBF8\uD574\uC11D \uBB38\uC790",
+  unparsedEmpty: "\uAC80\uD1A0\uD560 \uBB38\uC790\uAC00 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  unparsedResolve: "\uC785\uAE08 \uB4F1\uB85D",
+  unparsedDismiss: "\uB2EB\uAE30",
+  unparsedNamePlaceholder: "\uC785\uAE08\uC790\uBA85",
+  unparsedAmountPlaceholder: "\uAE08\uC561",
+  unparsedInvalid: "\uC785\uAE08\uC790\uBA85\uACFC \uAE08\uC561\uC744 \uD655\uC778\uD574 \uC8FC\uC138\uC694.",
+  unknownBank: "\uC54C \uC218 \uC5C6\uC74C",
+  statusLabels: {
+    matched: "\uB9E4\uCE6D",
+    ambiguous: "\uD655\uC778 \uD544\uC694",
+    unmatched: "\uBBF8\uB9E4\uCE6D",
+    ignored: "\uC81C\uC678",
+    split: "\uBD84\uD560",
+  },
+} as const
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildSplitDraft,
+  buildSplitPayload,
+  filterUnpaidTargets,
+  getDepositStatusQuery,
+  getSplitValidationError,
+  getUnparsedResolveError,
+  sortTargetsForDeposit,
+  type DepositRow,
+  type UnpaidTarget,
+} from "./depositReconciliationModel"
+
+const deposit: DepositRow = {
+  id: "d1",
+  depositorName: "김민준맘",
+  amount: 500000,
+  matchStatus: "unmatched",
+  receivedAt: "2026-04-03T05:00:00.000Z",
+}
+
+const targets: UnpaidTarget[] = [
+  {
+    registrationId: "r1",
+    name: "이서연",
+    course: "SAT 1500",
+    startDate: "2026-04-01",
+    fee: 300000,
+    paid: 0,
+    remaining: 300000,
+  },
+  {
+    registrationId: "r2",
+    name: "김민준",
+    course: "TOEFL",
+    startDate: "2026-04-01",
+    fee: 300000,
+    paid: 0,
+    remaining: 300000,
+  },
+  {
+    registrationId: "r2",
+    registrationExtensionId: "e1",
+    name: "김민준",
+    course: "TOEFL",
+    startDate: "2026-05-01",
+    fee: 200000,
+    paid: 0,
+    remaining: 200000,
+  },
+]
+
+describe("depositReconciliationModel", () => {
+  it("maps status filters to the query value", () => {
+    expect(getDepositStatusQuery("open")).toBe("unmatched,ambiguous")
+    expect(getDepositStatusQuery("all")).toBe("")
+    expect(getDepositStatusQuery("ignored")).toBe("ignored")
+  })
+
+  it("keeps only targets of the visible registrations", () => {
+    expect(filterUnpaidTargets(targets, new Set(["r2"]))).toHaveLength(2)
+  })
+
+  it("moves targets matching the depositor name to the top", () => {
+    const sorted = sortTargetsForDeposit(targets, deposit)
+    expect(sorted[0].name).toBe("김민준")
+    expect(sortTargetsForDeposit(targets, null)).toBe(targets)
+  })
+
+  it("fills split drafts with remaining amounts and gives the rest to the last entry", () => {
+    const draft = buildSplitDraft(deposit, [targets[0], targets[2]])
+    expect(draft.map((entry) => entry.amount)).toEqual(["300000", "200000"])
+    expect(draft[1].registrationExtensionId).toBe("e1")
+    expect(buildSplitPayload(draft)).toEqual([
+      { registrationId: "r1", registrationExtensionId: null, amount: 300000 },
+      { registrationId: "r2", registrationExtensionId: "e1", amount: 200000 },
+    ])
+  })
+
+  it("validates split amounts against the deposit", () => {
+    const draft = buildSplitDraft(deposit, [targets[0], targets[2]])
+    expect(getSplitValidationError(500000, draft)).toBe("")
+    expect(getSplitValidationError(500000, draft.slice(0, 1))).not.toBe("")
+    expect(getSplitValidationError(600000, draft)).not.toBe("")
+    expect(
+      getSplitValidationError(500000, [draft[0], { ...draft[1], amount: "0" }])
+    ).not.toBe("")
+  })
+
+  it("requires a name and a positive amount to resolve an unparsed message", () => {
+    expect(getUnparsedResolveError("홍길동", "150,000")).toBe("")
+    expect(getUnparsedResolveError("", "150000")).not.toBe("")
+    expect(getUnparsedResolveError("홍길동", "abc")).not.toBe("")
+    expect(getUnparsedResolveError("홍길동", "0")).not.toBe("")
+  })
+})
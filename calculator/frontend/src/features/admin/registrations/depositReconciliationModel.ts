@@ -0,0 +1,168 @@
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+
+export type DepositMatchStatus = "matched" | "ambiguous" | "unmatched" | "ignored" | "split"
+
+export type DepositAllocation = {
+  id?: string
+  registrationId: string
+  registrationExtensionId?: string | null
+  amount: number
+}
+
+export type DepositRow = {
+  id: string
+  depositorName: string
+  amount: number
+  matchStatus: DepositMatchStatus | string
+  registrationId?: string | null
+  registrationExtensionId?: string | null
+  memo?: string
+  allocations?: DepositAllocation[]
+  receivedAt: string
+}
+
+export type UnpaidTarget = {
+  registrationId: string
+  registrationExtensionId?: string | null
+  name: string
+  course: string
+  startDate: string
+  endDate?: string
+  fee: number
+  paid: number
+  remaining: number
+}
+
+export type SplitDraftEntry = {
+  key: string
+  registrationId: string
+  registrationExtensionId: string | null
+  label: string
+  amount: string
+}
+
+export type DepositStatusFilter = "open" | "all" | DepositMatchStatus
+
+export const OPEN_DEPOSIT_STATUSES: DepositMatchStatus[] = ["unmatched", "ambiguous"]
+
+export function getUnpaidTargetKey(target: Pick<UnpaidTarget, "registrationId" | "registrationExtensionId">) {
+  return `${target.registrationId}::${target.registrationExtensionId || ""}`
+}
+
+export function getDepositStatusQuery(filter: DepositStatusFilter) {
+  if (filter === "all") return ""
+  if (filter === "open") return OPEN_DEPOSIT_STATUSES.join(",")
+  return filter
+}
+
+export function getDepositStatusLabel(status: string) {
+  const labels: Record<string, string> = COPY.statusLabels
+  return labels[status] || status
+}
+
+export function filterUnpaidTargets(
+  targets: UnpaidTarget[],
+  registrationIds: Set<string>
+) {
+  return (targets || []).filter((target) => registrationIds.has(String(target.registrationId)))
+}
+
+function normalizeHangul(value: unknown) {
+  return String(value || "").replace(/[^가-힣]/g, "")
+}
+
+/**
+ * 선택한 입금과 이름/금액이 비슷한 미납 항목을 위로 올린다.
+ */
+export function sortTargetsForDeposit(targets: UnpaidTarget[], deposit: DepositRow | null) {
+  if (!deposit) return targets
+  const prefix = normalizeHangul(deposit.depositorName).slice(0, 2)
+  const rank = (target: UnpaidTarget) => {
+    let score = 0
+    if (prefix && normalizeHangul(target.name).includes(prefix)) score += 2
+    if (target.remaining === deposit.amount) score += 1
+    return score
+  }
+  return [...targets].sort((a, b) => rank(b) - rank(a))
+}
+
+export function formatTargetLabel(target: UnpaidTarget) {
+  const suffix = target.registrationExtensionId ? ` (${COPY.extensionTag})` : ""
+  return `${target.name} · ${target.course}${suffix}`
+}
+
+/**
+ * 분할 초안: 각 항목의 미납액을 채우고 마지막 항목이 남은 금액을 받는다.
+ */
+export function buildSplitDraft(deposit: DepositRow, targets: UnpaidTarget[]): SplitDraftEntry[] {
+  let left = Number(deposit?.amount || 0)
+  return targets.map((target, index) => {
+    const isLast = index === targets.length - 1
+    const amount = isLast ? Math.max(left, 0) : Math.min(target.remaining, Math.max(left, 0))
+    left -= amount
+    return {
+      key: getUnpaidTargetKey(target),
+      registrationId: target.registrationId,
+      registrationExtensionId: target.registrationExtensionId || null,
+      label: formatTargetLabel(target),
+      amount: String(amount),
+    }
+  })
+}
+
+export function parseAmountInput(value: unknown) {
+  const raw = String(value ?? "").replace(/,/g, "").trim()
+  if (!raw) return null
+  const num = Number(raw)
+  return Number.isInteger(num) ? num : null
+}
+
+export function getSplitValidationError(depositAmount: number, entries: SplitDraftEntry[]) {
+  if (!Array.isArray(entries) || entries.length < 2) return COPY.splitNeedTwo
+  let total = 0
+  for (const entry of entries) {
+    const amount = parseAmountInput(entry.amount)
+    if (amount === null || amount <= 0) return COPY.splitInvalidAmount
+    total += amount
+  }
+  if (total !== depositAmount) return COPY.splitSumMismatch
+  return ""
+}
+
+export function buildSplitPayload(entries: SplitDraftEntry[]) {
+  return entries.map((entry) => ({
+    registrationId: entry.registrationId,
+    registrationExtensionId: entry.registrationExtensionId,
+    amount: parseAmountInput(entry.amount) ?? 0,
+  }))
+}
+
+export function formatDepositAmount(amount: unknown) {
+  const num = Number(amount)
+  if (!Number.isFinite(num)) return "-"
+  return `${num.toLocaleString("ko-KR")}${COPY.wonSuffix}`
+}
+
+export function formatDepositReceivedAt(value: string) {
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return "-"
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export type UnparsedSmsRow = {
+  id: string
+  rawBody: string
+  sender: string
+  bank: string
+  status: string
+  receivedAt: string
+}
+
+export function getUnparsedResolveError(depositorName: string, amount: string) {
+  const parsedAmount = parseAmountInput(amount)
+  if (!String(depositorName || "").trim() || parsedAmount === null || parsedAmount <= 0) {
+    return COPY.unparsedInvalid
+  }
+  return ""
+}
@@ -48,8 +48,43 @@ export const INSTALLMENT_BOARD_COPY = {
   dialogEndDate: "\uC5F0\uC7A5 \uC885\uB8CC\uC77C",
   dialogNotice: "\uC548\uB0B4\uBB38",
   dialogCopy: "\uBCF5\uC0AC",
+  dialogSend: "\uD559\uBD80\uBAA8\uC5D0\uAC8C \uBCF4\uB0B4\uAE30",
   dialogClose: "\uB2EB\uAE30",
   dialogConfirm: "\uC5F0\uC7A5 \uD655\uC815",
+  dialogEditTitle: "\uC5F0\uC7A5 \uC218\uC815",
+  dialogEditDescription: "\uC798\uBABB \uB123\uC740 \uC5F0\uC7A5\uC758 \uC2DC\uC791\uC77C\u00B7\uC8FC\uC218\u00B7\uC218\uAC15\uB8CC\uB97C \uACE0\uCE69\uB2C8\uB2E4. \uB4F1\uB85D \uC8FC\uC218\uC640 \uC885\uB8CC\uC77C\uB3C4 \uD568\uAED8 \uB2E4\uC2DC \uACC4\uC0B0\uD569\uB2C8\uB2E4.",
+  dialogEditConfirm: "\uC218\uC815 \uC800\uC7A5",
+  historyLabel: "\uC5F0\uC7A5 \uAE30\uB85D",
+  historyEdit: "\uC218\uC815",
+  historyDelete: "\uCDE8\uC18C",
+  historyEditing: "\uC218\uC815 \uC911",
+  historyNewExtension: "\uC0C8 \uC5F0\uC7A5\uC73C\uB85C",
+  deleteConfirm: "\uC774 \uC5F0\uC7A5\uC744 \uCDE8\uC18C\uD560\uAE4C\uC694? \uB298\uC5B4\uB09C \uC8FC\uC218\uC640 \uADF8 \uAE30\uAC04\uC758 \uD734\uAC15\u00B7\uB179\uD654 \uB0A0\uC9DC\uB3C4 \uD568\uAED8 \uB418\uB3CC\uB9BD\uB2C8\uB2E4.",
+  deleteFailed: "\uC5F0\uC7A5 \uCDE8\uC18C\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  bulkSelectAll: "\uC548\uB0B4 \uD544\uC694 \uC804\uCCB4 \uC120\uD0DD",
+  bulkSelectRow: "\uC77C\uAD04 \uC5F0\uC7A5 \uC120\uD0DD",
+  bulkSelectedPrefix: "\uC120\uD0DD",
+  bulkAction: "\uC77C\uAD04 \uC5F0\uC7A5",
+  bulkTitle: "\uC77C\uAD04 \uC5F0\uC7A5",
+  bulkDescription: "\uACE0\uB978 \uD559\uC0DD\uC744 \uAC19\uC740 \uC8FC\uC218\uB85C \uD55C \uBC88\uC5D0 \uC5F0\uC7A5\uD569\uB2C8\uB2E4. \uACFC\uBAA9 \uD734\uAC15 \uAE30\uAC04\uC740 \uAC74\uB108\uB6F0\uACE0 \uC885\uB8CC\uC77C\uC744 \uACC4\uC0B0\uD569\uB2C8\uB2E4.",
+  bulkWeeks: "\uC5F0\uC7A5 \uC8FC\uC218",
+  bulkWeeksHint: "\uC794\uC5EC \uC8FC\uC218\uAC00 \uC801\uC740 \uD559\uC0DD\uC740 \uC794\uC5EC \uC8FC\uC218\uAE4C\uC9C0\uB9CC \uC5F0\uC7A5\uD569\uB2C8\uB2E4.",
+  bulkColumnStudent: "\uD559\uC0DD",
+  bulkColumnCourse: "\uACFC\uBAA9",
+  bulkColumnStart: "\uC2DC\uC791\uC77C",
+  bulkColumnEnd: "\uC885\uB8CC\uC77C",
+  bulkColumnWeeks: "\uC8FC\uC218",
+  bulkColumnFee: "\uC218\uAC15\uB8CC",
+  bulkBreakWeeks: "\uD734\uAC15",
+  bulkFeeMissing: "\uC8FC\uB2F9 \uC218\uAC15\uB8CC\uAC00 \uC5C6\uB294 \uACFC\uBAA9\uC740 \uC218\uAC15\uB8CC \uC5C6\uC774 \uC800\uC7A5\uB429\uB2C8\uB2E4.",
+  bulkConfirm: "\uC5F0\uC7A5 \uD655\uC815",
+  bulkSaving: "\uC800\uC7A5 \uC911...",
+  bulkEmpty: "\uC5F0\uC7A5\uD560 \uD559\uC0DD\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  bulkReportTitle: "\uC5F0\uC7A5 \uACB0\uACFC",
+  bulkReportSuccess: "\uC644\uB8CC",
+  bulkReportFail: "\uC2E4\uD328",
+  bulkReportMissing: "\uACB0\uACFC\uB97C \uBC1B\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  bulkSaveFailed: "\uC77C\uAD04 \uC5F0\uC7A5\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
   dialogMaxPrefix: "\uCD5C\uB300",
   dialogCurrencyPlaceholder: "\uC608: 120000",
   dialogDatePlaceholder: "YYYY-MM-DD",
@@ -98,4 +98,63 @@ describe("installmentBoardModel", () => {
     expect(rows[1].status).toBe("notice_done")
     expect(rows[0].nextStartDate).toBe("2026-03-18")
   })
+
+  it("leaves out registrations that are on hold today", () => {
+    const registrations = [
+      {
+        id: "paused",
+        courseId: "math",
+        startDate: "2026-03-03",
+        endDate: "2026-03-16",
+        weeks: 4,
+        holds: [{ id: "h1", startDate: "2026-03-09", endDate: null, reason: "시험 기간" }],
+      },
+      {
+        id: "returned",
+        courseId: "math",
+        startDate: "2026-03-03",
+        endDate: "2026-03-16",
+        weeks: 4,
+        holds: [{ id: "h2", startDate: "2026-03-04", endDate: "2026-03-08", reason: "여행" }],
+      },
+    ]
+    const rows = buildInstallmentRows({
+      registrations,
+      courseConfigSet: {
+        data: { courseInfo: { math: { name: "Math", installmentEligible: true, max: 12, days: [1, 3] } } },
+      },
+      courseEarliestStartMap: buildCourseEarliestStartMap(registrations),
+      courseIdToLabel: new Map(),
+      extensionsByRegistration: new Map(),
+      sortConfig: { key: null, direction: "asc" },
+      today: new Date("2026-03-10T00:00:00"),
+    })
+
+    expect(rows.map((row) => row.registration.id)).toEqual(["returned"])
+  })
+
+  it("keeps fully extended registrations so their extensions stay editable", () => {
+    const registrations = [
+      { id: "full", courseId: "math", startDate: "2026-03-03", endDate: "2026-05-25", weeks: 12 },
+      { id: "fullNoExtension", courseId: "math", startDate: "2026-03-03", endDate: "2026-05-25", weeks: 12 },
+    ]
+    const rows = buildInstallmentRows({
+      registrations,
+      courseConfigSet: {
+        data: { courseInfo: { math: { name: "Math", installmentEligible: true, max: 12, days: [1, 3] } } },
+      },
+      courseEarliestStartMap: buildCourseEarliestStartMap(registrations),
+      courseIdToLabel: new Map(),
+      extensionsByRegistration: buildExtensionsByRegistration([
+        { id: "e2", registrationId: "full", startDate: "2026-04-28", weeks: 4 },
+        { id: "e1", registrationId: "full", startDate: "2026-03-31", weeks: 4 },
+      ]),
+      sortConfig: { key: null, direction: "asc" },
+      today: new Date("2026-03-10T00:00:00"),
+    })
+
+    expect(rows.map((row) => row.registration.id)).toEqual(["full"])
+    expect(rows[0].remainingWeeks).toBe(0)
+    expect(rows[0].extensions.map((ext) => ext.id)).toEqual(["e1", "e2"])
+  })
 })
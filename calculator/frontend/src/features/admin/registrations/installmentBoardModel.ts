@@ -1,4 +1,6 @@
-import { diffInDays, parseDate, resolveCourseInfo, startOfDay } from "./utils"
+import { isOnHold, normalizeRegistrationHolds } from "@shared/registrationHolds"
+
+import { diffInDays, formatDateYmd, parseDate, resolveCourseInfo, startOfDay } from "./utils"
 import {
   getNextCourseDate,
   getNormalizedBreakRanges,
@@ -74,8 +76,12 @@ export function buildInstallmentRows({
   sortConfig,
   today = startOfDay(new Date()) ?? new Date(),
 }: BuildInstallmentRowsOptions) {
+  const todayKey = formatDateYmd(today)
   const list = (registrations || [])
     .map((registration) => {
+      // 휴원 중에는 분납 연장 안내를 보내지 않는다
+      if (isOnHold(normalizeRegistrationHolds(registration?.holds), todayKey)) return null
+
       const courseId = registration?.courseId
       const info = resolveCourseInfo(courseId, registration?.course, courseConfigSet)
       const isInstallmentEligible = info?.installmentEligible === true
@@ -90,7 +96,10 @@ export function buildInstallmentRows({
       const courseStartDate = courseEarliestStartMap.get(courseIdKey) || null
       const weekOffset = getWeekOffset(studentStartDate, courseStartDate)
       const studentMaxWeeks = Math.max(maxWeeks - weekOffset, 1)
-      if (weeks >= studentMaxWeeks) return null
+      const registrationId = String(registration?.id || "")
+      const extensionList = extensionsByRegistration.get(registrationId) || []
+      // 최대 주수를 다 채웠어도 연장 기록이 있으면 수정·취소할 수 있게 남긴다
+      if (weeks >= studentMaxWeeks && !extensionList.length) return null
 
       const courseLabel =
         String(registration?.course || "").trim() ||
@@ -106,8 +115,6 @@ export function buildInstallmentRows({
       const breakRanges = getNormalizedBreakRanges(info?.breakRanges)
       const isWithdrawn = Boolean(registration?.withdrawnAt)
 
-      const registrationId = String(registration?.id || "")
-      const extensionList = extensionsByRegistration.get(registrationId) || []
       const upcomingExtension = extensionList
         .map((ext) => ({
           ...ext,
@@ -139,6 +146,9 @@ export function buildInstallmentRows({
         endDate,
         status,
         extensionCount: extensionList.length,
+        extensions: [...extensionList].sort((a, b) =>
+          formatDateYmd(a?.startDate).localeCompare(formatDateYmd(b?.startDate))
+        ),
         breakRanges,
         nextStartDate: getNextCourseDate(endDate, courseDays, breakRanges),
         isWithdrawn,
@@ -30,11 +30,15 @@ export type RegistrationRow = {
   weeks?: number | string
   withdrawnAt?: string | Date
   tuitionFee?: number | string
+  holds?: unknown[]
 } & Record<string, unknown>
 
 export type ExtensionRow = {
+  id?: string
   registrationId?: string | number
   startDate?: string | Date
+  weeks?: number | null
+  tuitionFee?: number | null
 } & Record<string, unknown>
 
 export type InstallmentStatus = "notice_needed" | "notice_done" | "in_progress"
@@ -51,6 +55,8 @@ export type InstallmentRow = {
   endDate: string | Date
   status: InstallmentStatus
   extensionCount: number
+  /** 시작일 순. 연장 수정·취소 목록에 쓴다 */
+  extensions: ExtensionRow[]
   breakRanges: BreakRangeInput[]
   nextStartDate: string
   isWithdrawn: boolean
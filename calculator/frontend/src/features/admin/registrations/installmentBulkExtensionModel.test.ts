@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest"
+
+import type { InstallmentRow } from "./installmentBoardModel"
+import {
+  buildBulkExtensionPayload,
+  buildBulkExtensionPreview,
+  buildBulkExtensionReport,
+  isBulkExtensionSelectable,
+} from "./installmentBulkExtensionModel"
+
+function createRow(id: string, overrides: Partial<InstallmentRow> = {}): InstallmentRow {
+  return {
+    registration: { id, name: `${id}`, course: "math 월수", discount: 0.1 },
+    courseLabel: "math 월수",
+    maxWeeks: 12,
+    studentMaxWeeks: 12,
+    weeks: 4,
+    remainingWeeks: 8,
+    courseDays: [1, 3],
+    endDay: 3,
+    endDate: "2026-03-11",
+    status: "notice_needed",
+    extensionCount: 0,
+    extensions: [],
+    breakRanges: [],
+    nextStartDate: "2026-03-16",
+    isWithdrawn: false,
+    ...overrides,
+  }
+}
+
+const courseConfigSet = {
+  data: { courseInfo: { math: { name: "math", installmentEligible: true, max: 12, days: [1, 3], fee: 30000 } } },
+}
+
+describe("installmentBulkExtensionModel", () => {
+  it("only selects rows that still need a notice", () => {
+    expect(isBulkExtensionSelectable(createRow("a"))).toBe(true)
+    expect(isBulkExtensionSelectable(createRow("b", { status: "notice_done" }))).toBe(false)
+    expect(isBulkExtensionSelectable(createRow("c", { isWithdrawn: true }))).toBe(false)
+    expect(isBulkExtensionSelectable(createRow("d", { remainingWeeks: 0 }))).toBe(false)
+  })
+
+  it("previews start, end and fee with course breaks and remaining weeks", () => {
+    const preview = buildBulkExtensionPreview({
+      rows: [
+        createRow("plain"),
+        createRow("break", { breakRanges: [{ startDate: "2026-03-23", endDate: "2026-03-29" }] }),
+        createRow("short", { remainingWeeks: 2 }),
+        createRow("unknown", { courseLabel: "art", registration: { id: "unknown", course: "art" } }),
+        createRow("done", { status: "notice_done" }),
+      ],
+      weeks: 4,
+      courseConfigSet,
+    })
+
+    expect(preview.map((row) => row.registrationId)).toEqual(["plain", "break", "short", "unknown"])
+    expect(preview[0]).toMatchObject({ startDate: "2026-03-16", endDate: "2026-04-08", weeks: 4, fee: 108000 })
+    expect(preview[1]).toMatchObject({ endDate: "2026-04-15", breakWeeks: 1 })
+    expect(preview[2]).toMatchObject({ weeks: 2, endDate: "2026-03-25", fee: 54000 })
+    expect(preview[3].fee).toBeNull()
+    expect(buildBulkExtensionPreview({ rows: [createRow("a")], weeks: 0, courseConfigSet })).toEqual([])
+  })
+
+  it("builds the bulk payload and pairs server results with names", () => {
+    const preview = buildBulkExtensionPreview({
+      rows: [createRow("a"), createRow("b")],
+      weeks: 4,
+      courseConfigSet,
+    })
+
+    expect(buildBulkExtensionPayload(preview).items[0]).toEqual({
+      registrationId: "a",
+      weeks: 4,
+      tuitionFee: 108000,
+      startDate: "2026-03-16",
+      endDate: "2026-04-08",
+    })
+    expect(
+      buildBulkExtensionReport(preview, [{ registrationId: "a", status: "success" }], "missing")
+    ).toEqual([
+      { registrationId: "a", name: "a", ok: true, message: "" },
+      { registrationId: "b", name: "b", ok: false, message: "missing" },
+    ])
+  })
+})
@@ -0,0 +1,126 @@
+import { getEndDate, getScheduleWeeks } from "@/utils/calculatorLogic"
+import { stripDuplicateSuffix } from "@/utils/clipboardUtils"
+
+import type { CourseConfigSet, InstallmentRow } from "./installmentBoardModel"
+import {
+  getConfigCourseTree,
+  getSavedDiscount,
+  getWeeklyFee,
+  resolveCourseInfoMap,
+} from "./installmentExtensionCourseModel"
+import { formatDateYmd } from "./utils"
+
+export type BulkExtensionPreviewRow = {
+  registrationId: string
+  name: string
+  courseLabel: string
+  /** 잔여 주수보다 많이 고르면 잔여 주수까지만 늘린다 */
+  weeks: number
+  startDate: string
+  endDate: string
+  /** 휴강 기간에 걸려 건너뛰는 주 수 */
+  breakWeeks: number
+  /** 주당 수강료가 없는 과목이면 null */
+  fee: number | null
+}
+
+export type BulkExtensionResult = {
+  registrationId: string
+  status: "success" | "fail"
+  message?: string
+}
+
+export type BulkExtensionReportRow = {
+  registrationId: string
+  name: string
+  ok: boolean
+  message: string
+}
+
+/** 안내가 필요한 행만 일괄 연장할 수 있다 */
+export function isBulkExtensionSelectable(row: InstallmentRow) {
+  return (
+    row.status === "notice_needed" &&
+    !row.isWithdrawn &&
+    row.remainingWeeks > 0 &&
+    Boolean(row.nextStartDate) &&
+    Boolean(row.registration?.id)
+  )
+}
+
+/**
+ * 고른 학생마다 연장 시작일·종료일·수강료를 계산한다.
+ * 시작일은 현재 종료일 다음 수업일이고, 과목 휴강 기간에 걸린 주는 건너뛰고 종료일을 민다 (연장 대화상자와 같다).
+ */
+export function buildBulkExtensionPreview({
+  rows,
+  weeks,
+  courseConfigSet,
+}: {
+  rows: InstallmentRow[]
+  weeks: number
+  courseConfigSet: CourseConfigSet | null
+}): BulkExtensionPreviewRow[] {
+  const requestedWeeks = Math.trunc(Number(weeks))
+  if (!Number.isFinite(requestedWeeks) || requestedWeeks <= 0) return []
+  const ciMap = resolveCourseInfoMap(courseConfigSet)
+  const courseTree = getConfigCourseTree(courseConfigSet)
+
+  return rows.filter(isBulkExtensionSelectable).map((row) => {
+    const rowWeeks = Math.min(requestedWeeks, row.remainingWeeks)
+    const schedule = getScheduleWeeks({
+      startDate: row.nextStartDate,
+      durationWeeks: rowWeeks,
+      skipWeeks: [],
+      courseDays: row.courseDays,
+      endDayOfWeek: row.endDay,
+      breakRanges: row.breakRanges,
+    })
+    const endDate = schedule.scheduleWeeks
+      ? formatDateYmd(getEndDate(row.nextStartDate, schedule.scheduleWeeks, row.endDay))
+      : ""
+    const weeklyFee = getWeeklyFee(row, ciMap, courseTree)
+
+    return {
+      registrationId: String(row.registration?.id || ""),
+      name: stripDuplicateSuffix(row.registration?.name),
+      courseLabel: row.courseLabel,
+      weeks: rowWeeks,
+      startDate: row.nextStartDate,
+      endDate,
+      breakWeeks: Math.max(schedule.scheduleWeeks - rowWeeks, 0),
+      fee: weeklyFee > 0 ? Math.round(weeklyFee * rowWeeks * (1 - getSavedDiscount(row))) : null,
+    }
+  })
+}
+
+/** POST /api/registration-extensions/bulk 본문 */
+export function buildBulkExtensionPayload(preview: BulkExtensionPreviewRow[]) {
+  return {
+    items: preview.map((row) => ({
+      registrationId: row.registrationId,
+      weeks: row.weeks,
+      tuitionFee: row.fee,
+      startDate: row.startDate,
+      endDate: row.endDate || undefined,
+    })),
+  }
+}
+
+/** 서버 결과를 미리보기 이름과 묶는다. 결과에 없는 행은 실패로 본다. */
+export function buildBulkExtensionReport(
+  preview: BulkExtensionPreviewRow[],
+  results: BulkExtensionResult[],
+  missingMessage: string
+): BulkExtensionReportRow[] {
+  const resultMap = new Map(results.map((result) => [String(result.registrationId), result]))
+  return preview.map((row) => {
+    const result = resultMap.get(row.registrationId)
+    return {
+      registrationId: row.registrationId,
+      name: row.name,
+      ok: result?.status === "success",
+      message: result ? result.message || "" : missingMessage,
+    }
+  })
+}
@@ -0,0 +1,71 @@
+import { courseInfo as globalCourseInfo, getCourseName } from "@/utils/data"
+import type { CourseInfo, CourseTreeGroup } from "@/utils/data"
+
+import type { CourseConfigSet, InstallmentRow } from "./installmentBoardModel"
+
+export type CourseInfoMap = Record<string, CourseInfo | undefined>
+
+export function resolveCourseInfoMap(courseConfigSet: CourseConfigSet | null): CourseInfoMap {
+  const configData = courseConfigSet?.data as Record<string, unknown> | null | undefined
+  const fromConfig = configData?.courseInfo as CourseInfoMap | undefined
+  if (fromConfig && typeof fromConfig === "object" && Object.keys(fromConfig).length > 0) {
+    return fromConfig
+  }
+  return globalCourseInfo as CourseInfoMap
+}
+
+export function findCourseConfigKey(
+  courseLabel: string,
+  ciMap: CourseInfoMap,
+  courseTree?: CourseTreeGroup[],
+): string {
+  if (!courseLabel) return ""
+  let bestKey = ""
+  let bestLen = 0
+  for (const key of Object.keys(ciMap)) {
+    const name = getCourseName(key)
+    if (courseLabel.startsWith(name) && name.length > bestLen) {
+      bestKey = key
+      bestLen = name.length
+    }
+    if (courseLabel.startsWith(key) && key.length > bestLen) {
+      bestKey = key
+      bestLen = key.length
+    }
+  }
+  if (bestKey) return bestKey
+  for (const group of courseTree || []) {
+    for (const item of group.items || []) {
+      if (!item.label || !courseLabel.startsWith(item.label)) continue
+      if (item.label.length > bestLen && ciMap[item.val]) {
+        bestKey = item.val
+        bestLen = item.label.length
+      }
+    }
+  }
+  return bestKey
+}
+
+export function getConfigCourseTree(courseConfigSet: CourseConfigSet | null) {
+  return (courseConfigSet?.data?.courseTree as CourseTreeGroup[] | undefined) || []
+}
+
+/** 과목 이름으로 찾은 수업목록 주당 수강료. 못 찾으면 0 */
+export function getCourseWeeklyFee(courseLabel: string, ciMap: CourseInfoMap, courseTree: CourseTreeGroup[]) {
+  const key = findCourseConfigKey(courseLabel, ciMap, courseTree)
+  if (!key) return 0
+  const info = ciMap[key]
+  return Number(info?.fee ?? 0)
+}
+
+/** 수업목록에서 설정한 주당 수강료. 못 찾으면 0 */
+export function getWeeklyFee(row: InstallmentRow | null, ciMap: CourseInfoMap, courseTree: CourseTreeGroup[]) {
+  if (!row) return 0
+  return getCourseWeeklyFee(row.courseLabel || String(row.registration?.course || ""), ciMap, courseTree)
+}
+
+/** 등록할 때 적용한 할인율 (0~1) */
+export function getSavedDiscount(row: InstallmentRow | null) {
+  const raw = Number(row?.registration?.discount ?? 0)
+  return Number.isFinite(raw) && raw >= 0 && raw <= 1 ? raw : 0
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+
+import type { InstallmentRow } from "./installmentBoardModel"
+import {
+  getExtensionEditError,
+  getExtensionEditState,
+  getRowExtensions,
+  toRegistrationSkipWeeks,
+} from "./installmentExtensionEditModel"
+
+function createRow(overrides: Partial<InstallmentRow> = {}): InstallmentRow {
+  return {
+    registration: {
+      id: "r1",
+      startDate: "2026-03-02",
+      endDate: "2026-05-31",
+      weeks: 10,
+      skipWeeks: [3, 7, 11],
+      recordingDates: ["2026-03-11", "2026-04-08", "2026-05-13"],
+    },
+    courseLabel: "Math",
+    maxWeeks: 12,
+    studentMaxWeeks: 12,
+    weeks: 10,
+    remainingWeeks: 2,
+    courseDays: [1, 3],
+    endDay: 3,
+    endDate: "2026-05-31",
+    status: "in_progress",
+    extensionCount: 2,
+    extensions: [
+      { id: "e2", registrationId: "r1", startDate: "2026-05-04", weeks: 3, tuitionFee: null },
+      { id: "e1", registrationId: "r1", startDate: "2026-03-30", weeks: 3, tuitionFee: 90000 },
+    ],
+    breakRanges: [],
+    nextStartDate: "2026-06-01",
+    isWithdrawn: false,
+    ...overrides,
+  }
+}
+
+describe("installmentExtensionEditModel", () => {
+  it("lists row extensions by start date", () => {
+    expect(getRowExtensions(createRow())).toEqual([
+      { id: "e1", startDate: "2026-03-30", weeks: 3, tuitionFee: 90000 },
+      { id: "e2", startDate: "2026-05-04", weeks: 3, tuitionFee: null },
+    ])
+    expect(getRowExtensions(null)).toEqual([])
+  })
+
+  it("prefills skip weeks and recording dates that belong to the extension", () => {
+    const row = createRow()
+    const [first, second] = getRowExtensions(row)
+
+    expect(getExtensionEditState(row, first)).toEqual({
+      startDate: "2026-03-30",
+      weeks: 3,
+      fee: "90000",
+      skipWeeks: [3],
+      recordingDates: ["2026-04-08"],
+      maxWeeks: 5,
+    })
+    expect(getExtensionEditState(row, second)).toMatchObject({
+      fee: "",
+      skipWeeks: [2],
+      recordingDates: ["2026-05-13"],
+    })
+  })
+
+  it("converts extension skip weeks back to registration weeks", () => {
+    expect(toRegistrationSkipWeeks([2, 3], "2026-03-02", "2026-03-30")).toEqual([6, 7])
+  })
+
+  it("rejects edits that overlap another extension", () => {
+    const row = createRow()
+    expect(getExtensionEditError(row, "e1", { startDate: "2026-03-30", weeks: 6 })).not.toBe("")
+    expect(getExtensionEditError(row, "e1", { startDate: "2026-03-30", weeks: 5 })).toBe("")
+  })
+})
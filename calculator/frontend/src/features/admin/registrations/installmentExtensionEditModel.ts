@@ -0,0 +1,104 @@
+import {
+  getExtensionCoverage,
+  getExtensionRangeError,
+  getRegistrationWeekIndex,
+  normalizeExtensionPeriods,
+} from "@shared/registrationExtensions"
+
+import type { ExtensionRow, InstallmentRow } from "./installmentBoardModel"
+import { formatDateYmd } from "./utils"
+
+export type ExtensionEditTarget = {
+  id: string
+  startDate: string
+  weeks: number
+  tuitionFee: number | null
+}
+
+/** 연장 수정 화면을 채울 값. 휴강 주차는 연장 시작 주를 1로 센다. */
+export type ExtensionEditState = {
+  startDate: string
+  weeks: number
+  fee: string
+  skipWeeks: number[]
+  recordingDates: string[]
+  /** 이 연장을 포함해 늘릴 수 있는 최대 주수 */
+  maxWeeks: number
+}
+
+function toNumberList(value: unknown) {
+  return Array.isArray(value) ? value.map(Number).filter((n) => Number.isInteger(n)) : []
+}
+
+function toDateList(value: unknown) {
+  return Array.isArray(value) ? value.map((d) => formatDateYmd(d)).filter(Boolean) : []
+}
+
+export function getRowExtensions(row: InstallmentRow | null): ExtensionEditTarget[] {
+  return (row?.extensions || [])
+    .map((ext: ExtensionRow) => {
+      const hasFee = ext?.tuitionFee !== null && ext?.tuitionFee !== undefined
+      const fee = Number(ext?.tuitionFee)
+      return {
+        id: String(ext?.id || ""),
+        startDate: formatDateYmd(ext?.startDate),
+        weeks: Number(ext?.weeks || 0),
+        tuitionFee: hasFee && Number.isFinite(fee) ? fee : null,
+      }
+    })
+    .filter((ext) => ext.id && ext.startDate && ext.weeks > 0)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+}
+
+/** 등록 전체 기준 휴강 주차에서 연장 시작 주까지 앞선 주 수 */
+export function getExtensionWeekOffset(registrationStartDate: string | Date | undefined, extensionStartDate: string) {
+  const index = getRegistrationWeekIndex(formatDateYmd(registrationStartDate), extensionStartDate)
+  return Math.max(index - 1, 0)
+}
+
+export function getExtensionEditState(row: InstallmentRow, target: ExtensionEditTarget): ExtensionEditState {
+  const registration = row.registration
+  const registrationStart = formatDateYmd(registration?.startDate)
+  const periods = normalizeExtensionPeriods(getRowExtensions(row))
+  const coverage = getExtensionCoverage(periods, target, formatDateYmd(row.endDate))
+  const offset = getExtensionWeekOffset(registrationStart, target.startDate)
+  const fromWeek = coverage ? getRegistrationWeekIndex(registrationStart, coverage.startDate) : 0
+  const toWeek = coverage ? getRegistrationWeekIndex(registrationStart, coverage.endDate) : 0
+
+  return {
+    startDate: target.startDate,
+    weeks: target.weeks,
+    fee: target.tuitionFee === null ? "" : String(target.tuitionFee),
+    skipWeeks: toNumberList(registration?.skipWeeks)
+      .filter((week) => coverage && week >= fromWeek && week <= toWeek)
+      .map((week) => week - offset),
+    recordingDates: toDateList(registration?.recordingDates).filter(
+      (date) => coverage && date >= coverage.startDate && date <= coverage.endDate
+    ),
+    maxWeeks: Math.max(row.remainingWeeks, 0) + target.weeks,
+  }
+}
+
+/** 연장 기준 휴강 주차를 등록 전체 기준으로 바꾼다 */
+export function toRegistrationSkipWeeks(
+  localSkipWeeks: number[],
+  registrationStartDate: string | Date | undefined,
+  extensionStartDate: string
+) {
+  const offset = getExtensionWeekOffset(registrationStartDate, extensionStartDate)
+  return localSkipWeeks.map((week) => week + offset)
+}
+
+/** 저장 전에 시작일·겹침을 확인한다. 문제가 없으면 빈 문자열 */
+export function getExtensionEditError(
+  row: InstallmentRow,
+  extensionId: string,
+  candidate: { startDate: string; weeks: number }
+) {
+  return getExtensionRangeError(
+    normalizeExtensionPeriods(getRowExtensions(row)),
+    candidate,
+    formatDateYmd(row.registration?.startDate),
+    extensionId
+  )
+}
@@ -0,0 +1,35 @@
+export const PAYMENT_BALANCE_COPY = {
+  sectionTitle: "\uC218\uB0A9 \uB0B4\uC5ED",
+  studentTotal: "\uD559\uC0DD \uD569\uACC4",
+  registrationTotal: "\uC774 \uB4F1\uB85D",
+  billedLabel: "\uCCAD\uAD6C",
+  paidLabel: "\uC218\uB0A9",
+  registrationTag: "\uB4F1\uB85D",
+  extensionTag: "\uC5F0\uC7A5",
+  depositTag: "\uC785\uAE08 \uBB38\uC790",
+  transferSettlementTag: "\uC804\uBC18 \uC815\uC0B0",
+  refundTag: "\uD1F4\uC6D0 \uD658\uBD88",
+  amountPlaceholder: "\uAE08\uC561",
+  memoPlaceholder: "\uBA54\uBAA8 (\uC120\uD0DD)",
+  targetLabel: "\uB300\uC0C1",
+  add: "\uAE30\uB85D",
+  delete: "\uC0AD\uC81C",
+  noPayments: "\uC218\uB0A9 \uAE30\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  loading: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  loadFailed: "\uC218\uB0A9 \uAE30\uB85D\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  actionFailed: "\uCC98\uB9AC\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  invalidAmount: "\uAE08\uC561\uC744 1\uC6D0 \uC774\uC0C1 \uC785\uB825\uD574 \uC8FC\uC138\uC694.",
+  deleteConfirm: "\uC774 \uC218\uB0A9 \uAE30\uB85D\uC744 \uC0AD\uC81C\uD560\uAE4C\uC694?",
+  wonSuffix: "\uC6D0",
+  stateLabels: {
+    paid: "\uC644\uB0A9",
+    outstanding: "\uBBF8\uB0A9",
+    overpaid: "\uACFC\uB0A9",
+    none: "\uCCAD\uAD6C \uC5C6\uC74C",
+  },
+  methodLabels: {
+    transfer: "\uACC4\uC88C\uC774\uCCB4",
+    card: "\uCE74\uB4DC",
+    cash: "\uD604\uAE08",
+  },
+} as const
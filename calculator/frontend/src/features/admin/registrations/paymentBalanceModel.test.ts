@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildPaymentBalance,
+  getPaymentBalanceLabel,
+  getPaymentDraftError,
+  getRegistrationBalance,
+} from "./paymentBalanceModel"
+
+describe("paymentBalanceModel", () => {
+  it("classifies paid, outstanding and overpaid balances", () => {
+    expect(buildPaymentBalance(300000, 300000).state).toBe("paid")
+    expect(buildPaymentBalance(300000, 100000)).toMatchObject({
+      state: "outstanding",
+      outstandingAmount: 200000,
+      overpaidAmount: 0,
+    })
+    expect(buildPaymentBalance(300000, 350000)).toMatchObject({
+      state: "overpaid",
+      outstandingAmount: 0,
+      overpaidAmount: 50000,
+    })
+  })
+
+  it("treats registrations without a fee or payments as none", () => {
+    expect(buildPaymentBalance(0, 0).state).toBe("none")
+    expect(buildPaymentBalance(null, undefined).state).toBe("none")
+    expect(buildPaymentBalance(0, 10000).state).toBe("overpaid")
+  })
+
+  it("reads the summary fields from a registration row", () => {
+    expect(getRegistrationBalance({ billedAmount: 500000, paidAmount: 200000 })?.state).toBe(
+      "outstanding"
+    )
+    expect(getRegistrationBalance({ billedAmount: null, paidAmount: null })).toBeNull()
+    expect(getRegistrationBalance(undefined)).toBeNull()
+  })
+
+  it("includes the remaining amount in the label", () => {
+    const label = getPaymentBalanceLabel(buildPaymentBalance(300000, 100000))
+    expect(label).toContain("200,000")
+    expect(getPaymentBalanceLabel(buildPaymentBalance(300000, 300000))).not.toContain("0")
+  })
+
+  it("requires a positive amount for a manual payment", () => {
+    expect(getPaymentDraftError("150,000")).toBe("")
+    expect(getPaymentDraftError("")).not.toBe("")
+    expect(getPaymentDraftError("-1")).not.toBe("")
+  })
+})
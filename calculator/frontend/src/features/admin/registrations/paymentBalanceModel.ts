@@ -0,0 +1,99 @@
+import { formatDepositAmount, parseAmountInput } from "./depositReconciliationModel"
+import { PAYMENT_BALANCE_COPY as COPY } from "./paymentBalanceCopy"
+
+export type PaymentBalanceState = "paid" | "outstanding" | "overpaid" | "none"
+
+export type PaymentMethod = "transfer" | "card" | "cash"
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["transfer", "card", "cash"]
+
+export type PaymentBalance = {
+  billedAmount: number
+  paidAmount: number
+  outstandingAmount: number
+  overpaidAmount: number
+  state: PaymentBalanceState
+}
+
+export type PaymentBalanceItem = PaymentBalance & {
+  registrationExtensionId: string | null
+}
+
+export type StudentPaymentBalance = PaymentBalance & {
+  name: string
+  registrationCount: number
+}
+
+export type PaymentRow = {
+  id: string
+  registrationId: string
+  registrationExtensionId?: string | null
+  depositId?: string | null
+  amount: number
+  kind?: "payment" | "refund" | string
+  method: PaymentMethod | string
+  paidAt: string
+  memo?: string
+  recordedBy?: string
+}
+
+function toAmount(value: unknown) {
+  const num = Number(value)
+  return Number.isFinite(num) ? num : 0
+}
+
+/**
+ * 백엔드 paymentService.buildBalance와 같은 규칙으로 잔액 상태를 계산한다.
+ */
+export function buildPaymentBalance(billedAmount: unknown, paidAmount: unknown): PaymentBalance {
+  const billed = Math.max(toAmount(billedAmount), 0)
+  const paid = toAmount(paidAmount)
+  let state: PaymentBalanceState = "paid"
+  if (billed <= 0 && paid === 0) state = "none"
+  else if (paid < billed) state = "outstanding"
+  else if (paid > billed) state = "overpaid"
+
+  return {
+    billedAmount: billed,
+    paidAmount: paid,
+    outstandingAmount: Math.max(billed - paid, 0),
+    overpaidAmount: Math.max(paid - billed, 0),
+    state,
+  }
+}
+
+/**
+ * 등록 목록 응답의 billedAmount/paidAmount로 잔액을 만든다. 값이 없으면 null.
+ */
+export function getRegistrationBalance(row: Record<string, unknown> | null | undefined) {
+  if (!row) return null
+  if (row.billedAmount === null || row.billedAmount === undefined) return null
+  if (row.paidAmount === null || row.paidAmount === undefined) return null
+  return buildPaymentBalance(row.billedAmount, row.paidAmount)
+}
+
+export function getPaymentBalanceLabel(balance: PaymentBalance) {
+  const label = COPY.stateLabels[balance.state]
+  if (balance.state === "outstanding") {
+    return `${label} ${formatDepositAmount(balance.outstandingAmount)}`
+  }
+  if (balance.state === "overpaid") {
+    return `${label} ${formatDepositAmount(balance.overpaidAmount)}`
+  }
+  return label
+}
+
+export function getPaymentMethodLabel(method: string) {
+  const labels: Record<string, string> = COPY.methodLabels
+  return labels[method] || method
+}
+
+export function getPaymentDraftError(amount: string) {
+  const parsed = parseAmountInput(amount)
+  if (parsed === null || parsed <= 0) return COPY.invalidAmount
+  return ""
+}
+
+export function formatPaymentDate(value: string) {
+  return String(value || "").slice(0, 10) || "-"
+}
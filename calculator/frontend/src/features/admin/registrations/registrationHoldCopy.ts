@@ -0,0 +1,23 @@
+export const REGISTRATION_HOLD_COPY = {
+  sectionTitle: "\uD734\uC6D0",
+  sectionHint: "\uD734\uC6D0\uD55C \uC8FC\uB9CC\uD07C \uC885\uB8CC\uC77C\uC774 \uB4A4\uB85C \uBC00\uB9AC\uACE0, \uD734\uC6D0 \uC911\uC5D0\uB294 \uCD9C\uC11D\uBD80\uC640 \uBD84\uB0A9 \uC548\uB0B4\uC5D0\uC11C \uBE60\uC9D1\uB2C8\uB2E4.",
+  empty: "\uD734\uC6D0 \uAE30\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  add: "\uD734\uC6D0 \uCD94\uAC00",
+  startDate: "\uD734\uC6D0 \uC2DC\uC791\uC77C",
+  endDate: "\uB9C8\uC9C0\uB9C9 \uD734\uC6D0\uC77C",
+  endDateHint: "\uBE44\uC6CC \uB450\uBA74 \uBCF5\uADC0\uC77C \uBBF8\uC815\uC73C\uB85C \uC800\uC7A5\uB429\uB2C8\uB2E4.",
+  reason: "\uC0AC\uC720",
+  reasonPlaceholder: "\uC608: \uC2DC\uD5D8 \uAE30\uAC04, \uAC00\uC871 \uC5EC\uD589",
+  save: "\uC800\uC7A5",
+  cancel: "\uCDE8\uC18C",
+  edit: "\uC218\uC815",
+  resume: "\uBCF5\uADC0 \uCC98\uB9AC",
+  remove: "\uC0AD\uC81C",
+  removeConfirm: "\uC774 \uD734\uC6D0 \uAE30\uB85D\uC744 \uC9C0\uC6B8\uAE4C\uC694? \uBC00\uB9B0 \uC885\uB8CC\uC77C\uB3C4 \uB418\uB3CC\uC544\uAC11\uB2C8\uB2E4.",
+  openEnd: "\uBCF5\uADC0\uC77C \uBBF8\uC815",
+  statusActive: "\uD734\uC6D0 \uC911",
+  statusUpcoming: "\uC608\uC815",
+  statusEnded: "\uC885\uB8CC",
+  saveFailed: "\uD734\uC6D0 \uC800\uC7A5\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  startDateRequired: "\uD734\uC6D0 \uC2DC\uC791\uC77C\uC744 \uC785\uB825\uD574 \uC8FC\uC138\uC694.",
+} as const
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildHoldPayload,
+  createEmptyHoldDraft,
+  createResumeDraft,
+  formatHoldPeriod,
+  getHoldStatus,
+} from "./registrationHoldModel"
+
+const openHold = { id: "h1", registrationId: "r1", startDate: "2026-04-06", endDate: null, reason: "시험 기간" }
+
+describe("registrationHoldModel", () => {
+  it("classifies holds against today", () => {
+    expect(getHoldStatus(openHold, "2026-04-01")).toBe("upcoming")
+    expect(getHoldStatus(openHold, "2026-05-01")).toBe("active")
+    expect(getHoldStatus({ ...openHold, endDate: "2026-04-12" }, "2026-04-13")).toBe("ended")
+  })
+
+  it("closes an open hold on the day before the student returns", () => {
+    expect(createResumeDraft(openHold, "2026-04-20").endDate).toBe("2026-04-19")
+    expect(createResumeDraft(openHold, "2026-04-06").endDate).toBe("2026-04-06")
+  })
+
+  it("sends an open-ended hold as a null end date", () => {
+    expect(buildHoldPayload({ ...createEmptyHoldDraft("2026-04-06"), reason: " 여행 " })).toEqual({
+      startDate: "2026-04-06",
+      endDate: null,
+      reason: "여행",
+    })
+    expect(buildHoldPayload(createEmptyHoldDraft(""))).toBeNull()
+    expect(formatHoldPeriod(openHold)).toBe("2026-04-06 ~ 복귀일 미정")
+  })
+})
@@ -0,0 +1,63 @@
+import type { RegistrationHold } from "@shared/registrationHolds"
+
+import { REGISTRATION_HOLD_COPY as COPY } from "./registrationHoldCopy"
+import { addDays, formatDateYmd, parseDate } from "./utils"
+
+export type HoldStatus = "upcoming" | "active" | "ended"
+
+export type HoldDraft = {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string
+}
+
+export const HOLD_STATUS_LABELS: Record<HoldStatus, string> = {
+  upcoming: COPY.statusUpcoming,
+  active: COPY.statusActive,
+  ended: COPY.statusEnded,
+}
+
+export function createEmptyHoldDraft(todayKey: string): HoldDraft {
+  return { id: "", startDate: todayKey, endDate: "", reason: "" }
+}
+
+export function createHoldDraft(hold: RegistrationHold): HoldDraft {
+  return {
+    id: hold.id,
+    startDate: hold.startDate,
+    endDate: hold.endDate || "",
+    reason: hold.reason,
+  }
+}
+
+/** 복귀 처리: 어제까지를 휴원으로 닫는다. 시작일보다 앞설 수는 없다. */
+export function createResumeDraft(hold: RegistrationHold, todayKey: string): HoldDraft {
+  const today = parseDate(todayKey)
+  const yesterday = today ? formatDateYmd(addDays(today, -1)) : ""
+  return {
+    ...createHoldDraft(hold),
+    endDate: yesterday && yesterday > hold.startDate ? yesterday : hold.startDate,
+  }
+}
+
+export function getHoldStatus(hold: RegistrationHold, todayKey: string): HoldStatus {
+  if (hold.startDate > todayKey) return "upcoming"
+  if (hold.endDate && hold.endDate < todayKey) return "ended"
+  return "active"
+}
+
+export function formatHoldPeriod(hold: RegistrationHold) {
+  return `${hold.startDate} ~ ${hold.endDate || COPY.openEnd}`
+}
+
+/** POST/PUT /api/registrations/:id/holds 본문. 시작일이 없으면 null */
+export function buildHoldPayload(draft: HoldDraft) {
+  const startDate = draft.startDate.trim()
+  if (!startDate) return null
+  return {
+    startDate,
+    endDate: draft.endDate.trim() || null,
+    reason: draft.reason.trim(),
+  }
+}
@@ -0,0 +1,5 @@
+export const REGISTRATION_INVOICE_COPY = {
+  invoicePdf: "\uCCAD\uAD6C\uC11C PDF",
+  quotePdf: "\uACAC\uC801\uC11C PDF",
+  downloadFailed: "\uBB38\uC11C\uB97C \uB9CC\uB4E4\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+} as const
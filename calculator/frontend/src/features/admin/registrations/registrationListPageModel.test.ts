@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  REGISTRATION_PAGE_SIZE,
+  buildRegistrationListPageParams,
+  isCourseScopedListParams,
+  normalizeRegistrationListCounts,
+} from "./registrationListPageModel"
+
+describe("registrationListPageModel", () => {
+  it("maps tab filters to list query params", () => {
+    expect(
+      buildRegistrationListPageParams({
+        courseConfigSetName: "2026 봄",
+        categoryFilter: "수학",
+        courseFilter: "__courseid__math-a",
+        search: " 김 ",
+      })
+    ).toEqual({
+      courseConfigSetName: "2026 봄",
+      category: "수학",
+      courseId: "math-a",
+      search: "김",
+      limit: String(REGISTRATION_PAGE_SIZE),
+    })
+
+    const byName = buildRegistrationListPageParams({
+      courseConfigSetName: "2026 봄",
+      categoryFilter: "",
+      courseFilter: "__coursename__SAT 파이널",
+      search: "",
+      cursor: "r-10",
+    })
+    expect(byName).toMatchObject({ course: "SAT 파이널", cursor: "r-10" })
+    expect(isCourseScopedListParams(byName)).toBe(true)
+  })
+
+  it("leaves merge filters to the loaded list", () => {
+    const params = buildRegistrationListPageParams({
+      courseConfigSetName: "2026 봄",
+      categoryFilter: "",
+      courseFilter: "__merge__m1",
+      search: "",
+    })
+    expect(params.courseId).toBeUndefined()
+    expect(params.course).toBeUndefined()
+    expect(isCourseScopedListParams(params)).toBe(false)
+  })
+
+  it("normalizes counts from the API", () => {
+    expect(normalizeRegistrationListCounts(null)).toBeNull()
+    expect(
+      normalizeRegistrationListCounts({
+        total: 3,
+        matched: "2",
+        byStatus: { active: 2, ended: 1 },
+        byCourse: [{ courseId: "math-a", course: "중등수학 A", count: 3 }],
+      })
+    ).toEqual({
+      total: 3,
+      matched: 2,
+      byStatus: { active: 2, pending: 0, ended: 1, withdrawn: 0, transferred: 0 },
+      byCourse: [{ courseId: "math-a", course: "중등수학 A", count: 3 }],
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import {
+  buildRegistrationListQueryParams,
+  type RegistrationListCounts,
+} from "@shared/registrationListQuery"
+
+import { isMergeKey, parseCourseFilterValue } from "./registrationSelectorShared"
+
+/** 등록 탭이 한 번에 불러오는 건수 */
+export const REGISTRATION_PAGE_SIZE = 200
+
+export type RegistrationListPageCounts = RegistrationListCounts & { matched: number }
+
+/**
+ * 등록 탭 필터를 GET /api/registrations 쿼리로 바꾼다.
+ * 합반 필터는 과목이 여럿이라 서버로 보내지 않고, 불러온 목록에서 거른다.
+ */
+export function buildRegistrationListPageParams({
+  courseConfigSetName,
+  categoryFilter,
+  courseFilter,
+  search,
+  cursor = "",
+  limit = REGISTRATION_PAGE_SIZE,
+}: {
+  courseConfigSetName: string
+  categoryFilter: string
+  courseFilter: string
+  search: string
+  cursor?: string
+  limit?: number
+}) {
+  const course =
+    courseFilter && !isMergeKey(courseFilter) ? parseCourseFilterValue(courseFilter) : null
+  return buildRegistrationListQueryParams({
+    courseConfigSetName,
+    category: categoryFilter,
+    courseId: course?.type === "id" ? course.value : "",
+    course: course?.type === "name" ? course.value : "",
+    search,
+    cursor,
+    limit,
+  })
+}
+
+/** 과목으로 좁힌 조회의 집계는 사이드바 과목 목록에 쓰지 않는다 */
+export function isCourseScopedListParams(params: Record<string, string>) {
+  return Boolean(params.courseId || params.course)
+}
+
+export function normalizeRegistrationListCounts(value: unknown): RegistrationListPageCounts | null {
+  if (!value || typeof value !== "object") return null
+  const raw = value as Record<string, unknown>
+  const byStatus = (raw.byStatus || {}) as Record<string, unknown>
+  return {
+    total: Number(raw.total) || 0,
+    matched: Number(raw.matched) || 0,
+    byStatus: {
+      active: Number(byStatus.active) || 0,
+      pending: Number(byStatus.pending) || 0,
+      ended: Number(byStatus.ended) || 0,
+      withdrawn: Number(byStatus.withdrawn) || 0,
+      transferred: Number(byStatus.transferred) || 0,
+    },
+    byCourse: Array.isArray(raw.byCourse)
+      ? (raw.byCourse as Array<Record<string, unknown>>).map((entry) => ({
+          courseId: String(entry?.courseId || ""),
+          course: String(entry?.course || ""),
+          count: Number(entry?.count) || 0,
+        }))
+      : [],
+  }
+}
@@ -1,5 +1,8 @@
+import { getHoldBreakRanges, normalizeRegistrationHolds } from "@shared/registrationHolds"
+
 import {
   addDays,
+  getBreakWeekSet,
   getEndDate,
   getScheduleWeeks,
   normalizeBreakRanges,
@@ -45,6 +48,8 @@ export function resolveRegistrationRows(
     let computedEndDate = registration?.endDate || ""
     let computedStartDate = startDate
     let breakWeeks: number[] = []
+    let holdWeeks: number[] = []
+    const holds = normalizeRegistrationHolds(registration?.holds)
 
     if (isDaily) {
       const selectedDates = Array.isArray(registration?.selectedDates)
@@ -61,7 +66,8 @@ export function resolveRegistrationRows(
         skipWeeks,
         courseDays,
         endDayOfWeek: endDay,
-        breakRanges,
+        // 휴원은 이 학생에게만 걸린 휴강 기간처럼 종료일을 민다
+        breakRanges: [...breakRanges, ...getHoldBreakRanges(holds)],
       })
       breakWeeks = Array.from(scheduleMeta.breakWeekSet || [])
         .map((value) => Number(value))
@@ -72,6 +78,16 @@ export function resolveRegistrationRows(
         const formatted = formatDateYmd(endDate)
         if (formatted) computedEndDate = formatted
       }
+      if (holds.length && computedEndDate) {
+        holdWeeks = Array.from(
+          getBreakWeekSet({
+            startDate,
+            endDate: computedEndDate,
+            courseDays,
+            breakRanges: getHoldBreakRanges(holds, formatDateYmd(computedEndDate)),
+          })
+        ).sort((a, b) => a - b)
+      }
     }
 
     const withdrawnDate = parseDate(registration?.withdrawnAt)
@@ -108,6 +124,8 @@ export function resolveRegistrationRows(
       courseEndDay: endDay,
       breakRanges,
       breakWeeks,
+      holds,
+      holdWeeks,
     }
   })
 }
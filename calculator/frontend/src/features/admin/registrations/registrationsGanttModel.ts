@@ -41,6 +41,8 @@ export type RegistrationRow = {
   weeks?: string | number
   skipWeeks?: Array<number | string>
   breakWeeks?: number[]
+  holds?: unknown[]
+  holdWeeks?: number[]
   withdrawnAt?: string | Date
   isWithdrawn?: boolean
   isTransferredOut?: boolean
@@ -202,7 +204,8 @@ export function buildRegistrationsGanttModel({
     const paidWeeks = Number(row?.r?.weeks) || 0
     const skipWeeks = normalizeSkipWeeks(row?.r?.skipWeeks, paidWeeks)
     const breakWeeks = Array.isArray(row?.r?.breakWeeks) ? row.r.breakWeeks : []
-    const combinedSkipWeeks = Array.from(new Set([...skipWeeks, ...breakWeeks])).sort(
+    const holdWeeks = Array.isArray(row?.r?.holdWeeks) ? row.r.holdWeeks : []
+    const combinedSkipWeeks = Array.from(new Set([...skipWeeks, ...breakWeeks, ...holdWeeks])).sort(
       (a, b) => a - b
     )
     let startIndex = -1
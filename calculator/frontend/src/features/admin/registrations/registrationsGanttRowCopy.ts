@@ -6,4 +6,6 @@ export const REGISTRATIONS_GANTT_ROW_COPY = {
   addNoteAria: "\uBA54\uBAA8 \uCD94\uAC00",
   recordingDateAria: "\uB179\uD654 \uB0A0\uC9DC",
   noDateInfo: "\uB0A0\uC9DC \uC815\uBCF4 \uC5C6\uC74C",
+  hold: "\uD734\uC6D0",
+  holdOpenEnd: "\uBCF5\uADC0\uC77C \uBBF8\uC815",
 } as const
@@ -103,4 +103,33 @@ describe("registrationsGanttRowModel", () => {
 
     expect(result.bars.some((bar) => bar.key.includes("ghost"))).toBe(true)
   })
+
+  it("draws hold weeks as a separate band with the hold reason", () => {
+    const weeks = buildWeeks("2026-03-02", "2026-03-22", [1, 3])
+    const row = makeRow({
+      r: {
+        id: "r1",
+        name: "홍길동",
+        course: "중등수학 A",
+        holds: [{ id: "h1", startDate: "2026-03-09", endDate: "2026-03-15", reason: "시험 기간" }],
+        holdWeeks: [2],
+      },
+      skipWeeks: [2],
+    })
+
+    const result = buildGanttTimelineDescriptors({
+      row,
+      rowIndex: 0,
+      weeks,
+      unitWidth: 80,
+      globalStartIndex: 0,
+      mergeWeekRangesNormalized: [],
+    })
+
+    const holdBars = result.bars.filter((bar) => bar.key.includes("hold"))
+    expect(holdBars).toHaveLength(1)
+    expect(holdBars[0].left).toBe(80 + 3)
+    expect(holdBars[0].title).toBe("홍길동 · 휴원 (2026-03-09~2026-03-15) · 시험 기간")
+    expect(result.bars).toHaveLength(3)
+  })
 })
@@ -1,3 +1,6 @@
+import { findHoldInRange, normalizeRegistrationHolds, type RegistrationHold } from "@shared/registrationHolds"
+
+import { REGISTRATIONS_GANTT_ROW_COPY as COPY } from "./registrationsGanttRowCopy"
 import {
   BAR_HEIGHT_PX,
   formatDateKorean,
@@ -42,6 +45,8 @@ const UNKNOWN_BAR_CLASS = "bg-muted-foreground/40"
 const TRANSFERRED_BAR_CLASS =
   "bg-[repeating-linear-gradient(135deg,_#94a3b8_0px,_#94a3b8_2px,_#e2e8f0_2px,_#e2e8f0_12px)] ring-1 ring-slate-300"
 const GHOST_BAR_CLASS = `${TRANSFERRED_BAR_CLASS} opacity-40`
+const HOLD_BAR_CLASS =
+  "bg-[repeating-linear-gradient(45deg,_#c4b5fd_0px,_#c4b5fd_3px,_#f5f3ff_3px,_#f5f3ff_8px)] ring-1 ring-violet-300"
 
 export function buildGanttRowMeta({
   registration,
@@ -77,6 +82,12 @@ export function buildGanttRowMeta({
   }
 }
 
+function formatHoldTitle(name: string, hold: RegistrationHold | null) {
+  if (!hold) return `${name} · ${COPY.hold}`
+  const period = `${hold.startDate}~${hold.endDate || COPY.holdOpenEnd}`
+  return [`${name} · ${COPY.hold} (${period})`, hold.reason].filter(Boolean).join(" · ")
+}
+
 function buildRecordingMaps(recordingWeeks: ModelRow["recordingWeeks"]) {
   const recordingWeekMap = new Map<number, Date[]>()
   const recordingDateSet = new Set<number>()
@@ -131,6 +142,8 @@ export function buildGanttTimelineDescriptors({
   const markers: GanttMarkerDescriptor[] = []
   const { recordingWeekMap, recordingDateSet } = buildRecordingMaps(recordingWeeks)
   const skipWeekSet = new Set(skipWeeks || [])
+  const holdWeekSet = new Set(Array.isArray(r?.holdWeeks) ? r.holdWeeks : [])
+  const holds = normalizeRegistrationHolds(r?.holds)
   const hasCourseDays = Array.isArray(rowCourseDays) && rowCourseDays.length > 0
   const pad = 3
   const isRowDaily = isDailyRegistration(r)
@@ -151,6 +164,18 @@ export function buildGanttTimelineDescriptors({
       if (!isWeekInRanges(mergeRelativeWeek, mergeWeekRangesNormalized)) continue
 
       const studentRelativeWeek = weekIndex - startIndex + 1
+      if (holdWeekSet.has(studentRelativeWeek)) {
+        const hold = findHoldInRange(holds, formatDateYmd(week.start), formatDateYmd(week.end))
+        bars.push({
+          key: `${r?.id || rowIndex}-hold-${weekIndex}`,
+          left: weekIndex * unitWidth + pad,
+          width: Math.max(6, unitWidth - pad * 2),
+          height: BAR_HEIGHT_PX,
+          title: formatHoldTitle(r?.name || "-", hold),
+          className: HOLD_BAR_CLASS,
+        })
+        continue
+      }
       if (skipWeekSet.has(studentRelativeWeek)) continue
 
       const recordedDates = recordingWeekMap.get(weekIndex) || []
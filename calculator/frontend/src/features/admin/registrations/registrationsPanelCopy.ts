@@ -10,4 +10,7 @@ export const REGISTRATIONS_PANEL_COPY = {
   openLargeView: "\uD06C\uAC8C \uBCF4\uAE30",
   allStudentsList: "\uC804\uCCB4 \uD559\uC0DD \uBAA9\uB85D",
   studentsListSuffix: "\uD559\uC0DD \uBAA9\uB85D",
+  loadMore: "\uB354 \uBD88\uB7EC\uC624\uAE30",
+  loadingMore: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  loadedCountSuffix: "\uAC74 \uD45C\uC2DC",
 } as const
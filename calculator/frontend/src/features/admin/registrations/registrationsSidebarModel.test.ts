@@ -2,8 +2,10 @@ import { describe, expect, it } from "vitest"
 
 import {
   buildSidebarCourseGroups,
+  buildSidebarCourseGroupsFromCounts,
   buildSidebarItems,
   buildSidebarStats,
+  buildSidebarStatsFromCounts,
 } from "./registrationsSidebarModel"
 
 describe("registrationsSidebarModel", () => {
@@ -82,4 +84,34 @@ describe("registrationsSidebarModel", () => {
       { key: "__courseid__eng-a", label: "중등영어 A", count: 1 },
     ])
   })
+
+  it("builds stats and course groups from server counts", () => {
+    const counts = {
+      total: 6,
+      byStatus: { active: 2, pending: 1, ended: 1, withdrawn: 1, transferred: 1 },
+      byCourse: [
+        { courseId: "math-a", course: "중등수학 A", count: 4 },
+        { courseId: "", course: "SAT 파이널 (토)", count: 1 },
+        { courseId: "", course: "SAT 파이널 (일)", count: 1 },
+      ],
+    }
+
+    expect(buildSidebarStatsFromCounts(counts)).toEqual({
+      total: 6,
+      active: 2,
+      pending: 1,
+      completed: 1,
+    })
+    expect(
+      buildSidebarCourseGroupsFromCounts({
+        counts,
+        courseIdToLabel: new Map([["math-a", "중등수학 A"]]),
+        courseVariantRequiredSet: new Set(["SAT"]),
+      })
+    ).toEqual([
+      { key: "__courseid__math-a", label: "중등수학 A", count: 4 },
+      { key: "__coursename__SAT 파이널 (일)", label: "SAT 파이널 (일)", count: 1 },
+      { key: "__coursename__SAT 파이널 (토)", label: "SAT 파이널 (토)", count: 1 },
+    ])
+  })
 })
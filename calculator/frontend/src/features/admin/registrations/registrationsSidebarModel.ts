@@ -1,3 +1,5 @@
+import type { RegistrationListCounts } from "@shared/registrationListQuery"
+
 import { matchesSearch } from "@/utils/searchUtils"
 
 import { getCourseKey, getCourseLabel, getRegistrationStatus } from "./utils"
@@ -63,12 +65,22 @@ export function buildSidebarStats(
   return counts
 }
 
-export function buildSidebarCourseGroups({
-  registrations,
+/** 서버 집계로 통계를 만든다. 퇴원·전반 등록은 전체에만 들어간다 */
+export function buildSidebarStatsFromCounts(counts: RegistrationListCounts): SidebarStats {
+  return {
+    total: counts.total,
+    active: counts.byStatus.active,
+    pending: counts.byStatus.pending,
+    completed: counts.byStatus.ended,
+  }
+}
+
+function groupCourseEntries({
+  entries,
   courseIdToLabel,
   courseVariantRequiredSet,
 }: {
-  registrations: SidebarRegistrationRow[]
+  entries: Array<{ courseId?: string | number; course?: string; count: number }>
   courseIdToLabel: Map<string, string>
   courseVariantRequiredSet?: Set<string>
 }) {
@@ -78,9 +90,9 @@ export function buildSidebarCourseGroups({
 
   const map = new Map<string, SidebarCourseGroup>()
 
-  for (const registration of registrations || []) {
-    const course = String(registration?.course || "")
-    const key = getCourseKey(registration, variantSet)
+  for (const entry of entries) {
+    const course = String(entry?.course || "")
+    const key = getCourseKey(entry, variantSet)
     if (!key) continue
 
     if (!map.has(key)) {
@@ -91,13 +103,50 @@ export function buildSidebarCourseGroups({
       })
     }
 
-    const entry = map.get(key)
-    if (entry) entry.count += 1
+    const group = map.get(key)
+    if (group) group.count += entry.count
   }
 
   return Array.from(map.values()).sort((a, b) => a.label.localeCompare(b.label, "ko-KR"))
 }
 
+export function buildSidebarCourseGroups({
+  registrations,
+  courseIdToLabel,
+  courseVariantRequiredSet,
+}: {
+  registrations: SidebarRegistrationRow[]
+  courseIdToLabel: Map<string, string>
+  courseVariantRequiredSet?: Set<string>
+}) {
+  return groupCourseEntries({
+    entries: (registrations || []).map((registration) => ({
+      courseId: registration?.courseId,
+      course: registration?.course,
+      count: 1,
+    })),
+    courseIdToLabel,
+    courseVariantRequiredSet,
+  })
+}
+
+/** 서버가 과목별로 센 건수를 사이드바 과목 키로 다시 묶는다 */
+export function buildSidebarCourseGroupsFromCounts({
+  counts,
+  courseIdToLabel,
+  courseVariantRequiredSet,
+}: {
+  counts: RegistrationListCounts
+  courseIdToLabel: Map<string, string>
+  courseVariantRequiredSet?: Set<string>
+}) {
+  return groupCourseEntries({
+    entries: counts.byCourse,
+    courseIdToLabel,
+    courseVariantRequiredSet,
+  })
+}
+
 export function buildSidebarItems({
   courseGroups,
   mergedCourseSetToday,
@@ -30,6 +30,11 @@ export type RegistrationRow = {
   timestamp?: string | number | Date
   durationUnit?: "weekly" | "daily"
   selectedDates?: string[]
+  billedAmount?: number | null
+  paidAmount?: number | null
+  holds?: unknown[]
+  /** 휴원으로 수업이 빠지는 주차 (등록 시작 주가 1) */
+  holdWeeks?: number[]
 } & Record<string, unknown>
 
 export type MergeWeekRange = { start: number; end: number }
@@ -31,6 +31,14 @@ export const TRANSFER_COPY = {
   transferFailed: "\uC804\uBC18 \uCC98\uB9AC\uAC00 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
   anonymousStudent: "\uC774 \uD559\uC0DD",
   cancelFailed: "\uC804\uBC18 \uCDE8\uC18C\uAC00 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  settlementTitle: "\uC804\uBC18 \uC815\uC0B0",
+  settlementPrevious: "\uB0A8\uC740 \uC8FC (\uC774\uC804 \uACFC\uBAA9)",
+  settlementNext: "\uAC19\uC740 \uAE30\uAC04 (\uC0C8 \uACFC\uBAA9)",
+  settlementCharge: "\uCD94\uAC00 \uB0A9\uBD80",
+  settlementCredit: "\uC801\uB9BD",
+  settlementEven: "\uCC28\uC561 \uC5C6\uC74C",
+  settlementMissingFee: "\uC8FC\uB2F9 \uC218\uAC15\uB8CC\uB97C \uCC3E\uC9C0 \uBABB\uD574 \uC815\uC0B0 \uC5C6\uC774 \uC804\uBC18\uD569\uB2C8\uB2E4.",
+  historySettlement: "\uC815\uC0B0",
 } as const
 
 export function buildTransferCancelConfirm(name: string) {
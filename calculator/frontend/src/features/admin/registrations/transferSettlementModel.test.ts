@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+
+import { formatDepositAmount } from "./depositReconciliationModel"
+import { TRANSFER_COPY } from "./transferCopy"
+import {
+  buildTransferSettlementPayload,
+  buildTransferSettlementPreview,
+  formatTransferSettlementDifference,
+} from "./transferSettlementModel"
+
+const courseConfigSet = {
+  data: {
+    courseInfo: {
+      math: { name: "math", fee: 30000 },
+      physics: { name: "physics", fee: 40000 },
+      free: { name: "free", fee: 0 },
+    },
+  },
+}
+
+const target = { id: "r1", course: "math 월수", discount: 0.5 }
+
+describe("transferSettlementModel", () => {
+  it("prices the remaining weeks in both courses with the saved discount", () => {
+    const preview = buildTransferSettlementPreview({
+      target,
+      courseLabel: "physics 화목",
+      weeks: "6",
+      courseConfigSet,
+    })
+
+    expect(preview?.missingFee).toBe(false)
+    expect(preview?.settlement).toMatchObject({ previousAmount: 90000, nextAmount: 120000, difference: 30000 })
+    expect(buildTransferSettlementPayload(preview?.settlement)).toEqual({
+      previousWeeklyFee: 30000,
+      nextWeeklyFee: 40000,
+    })
+  })
+
+  it("flags a missing weekly fee and skips daily registrations", () => {
+    expect(
+      buildTransferSettlementPreview({ target, courseLabel: "free", weeks: 4, courseConfigSet })
+    ).toEqual({ settlement: null, missingFee: true })
+    expect(
+      buildTransferSettlementPreview({
+        target: { ...target, durationUnit: "daily", selectedDates: ["2026-04-01"] },
+        courseLabel: "physics",
+        weeks: 1,
+        courseConfigSet,
+      })
+    ).toBeNull()
+    expect(buildTransferSettlementPreview({ target, courseLabel: "physics", weeks: "", courseConfigSet })).toBeNull()
+  })
+
+  it("labels charges and credits", () => {
+    const preview = buildTransferSettlementPreview({
+      target: { ...target, course: "physics" },
+      courseLabel: "math",
+      weeks: 2,
+      courseConfigSet,
+    })
+    const settlement = preview?.settlement
+    if (!settlement) throw new Error("settlement missing")
+    expect(formatTransferSettlementDifference(settlement)).toBe(
+      `${TRANSFER_COPY.settlementCredit} ${formatDepositAmount(10000)}`
+    )
+  })
+})
@@ -0,0 +1,87 @@
+import {
+  buildTransferSettlement,
+  getTransferSettlementDirection,
+  type TransferSettlement,
+} from "@shared/transferSettlement"
+
+import { formatDepositAmount } from "./depositReconciliationModel"
+import {
+  getConfigCourseTree,
+  getCourseWeeklyFee,
+  resolveCourseInfoMap,
+} from "./installmentExtensionCourseModel"
+import { TRANSFER_COPY } from "./transferCopy"
+import type { CourseConfigSet } from "./transferModelTypes"
+import { isDailyRegistration } from "./utils"
+
+type TransferSettlementTarget = {
+  course?: string
+  durationUnit?: "weekly" | "daily"
+  selectedDates?: string[]
+} & Record<string, unknown>
+
+/** settlement가 null이면 주당 수강료를 못 찾아 정산 없이 전반한다 */
+export type TransferSettlementPreview = {
+  settlement: TransferSettlement | null
+  missingFee: boolean
+}
+
+function getDiscount(target: TransferSettlementTarget) {
+  const raw = Number(target.discount ?? 0)
+  return Number.isFinite(raw) ? raw : 0
+}
+
+/**
+ * 전반 대화상자 미리보기. 두 과목의 주당 수강료를 수업목록에서 찾아 남은 주수로 정산한다.
+ * 일 단위 등록이거나 과목·주수를 아직 고르지 않았으면 null.
+ */
+export function buildTransferSettlementPreview({
+  target,
+  courseLabel,
+  weeks,
+  courseConfigSet,
+}: {
+  target: TransferSettlementTarget | null
+  courseLabel: string
+  weeks: string | number
+  courseConfigSet: CourseConfigSet | null
+}): TransferSettlementPreview | null {
+  if (!target || !courseLabel || isDailyRegistration(target)) return null
+  const weeksValue = Number(weeks)
+  if (!Number.isInteger(weeksValue) || weeksValue <= 0) return null
+
+  const ciMap = resolveCourseInfoMap(courseConfigSet)
+  const courseTree = getConfigCourseTree(courseConfigSet)
+  const previousWeeklyFee = getCourseWeeklyFee(String(target.course || ""), ciMap, courseTree)
+  const nextWeeklyFee = getCourseWeeklyFee(courseLabel, ciMap, courseTree)
+  if (previousWeeklyFee <= 0 || nextWeeklyFee <= 0) {
+    return { settlement: null, missingFee: true }
+  }
+
+  return {
+    settlement: buildTransferSettlement({
+      weeks: weeksValue,
+      previousWeeklyFee,
+      nextWeeklyFee,
+      discount: getDiscount(target),
+    }),
+    missingFee: false,
+  }
+}
+
+/** POST /api/registrations/:id/transfer 본문의 settlement. 서버가 과목 설정의 주당 수강료와 맞춰 보고 다르면 거절한다. */
+export function buildTransferSettlementPayload(settlement: TransferSettlement | null | undefined) {
+  if (!settlement) return null
+  return {
+    previousWeeklyFee: settlement.previousWeeklyFee,
+    nextWeeklyFee: settlement.nextWeeklyFee,
+  }
+}
+
+/** "추가 납부 12,000원" / "적립 12,000원" / "차액 없음" */
+export function formatTransferSettlementDifference(settlement: TransferSettlement) {
+  const direction = getTransferSettlementDirection(settlement.difference)
+  if (direction === "even") return TRANSFER_COPY.settlementEven
+  const label = direction === "charge" ? TRANSFER_COPY.settlementCharge : TRANSFER_COPY.settlementCredit
+  return `${label} ${formatDepositAmount(Math.abs(settlement.difference))}`
+}
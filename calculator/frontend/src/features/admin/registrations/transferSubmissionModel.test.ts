@@ -106,4 +106,29 @@ describe("transferSubmissionModel", () => {
       },
     })
   })
+  it("validateTransferSubmission sends only the weekly fees of the settlement", () => {
+    const courseValue = makeCourseValue("course_1", "SAT Math")
+    const result = validateTransferSubmission({
+      transferTarget: { id: "r1", startDate: "2026-03-01" },
+      transferDate: "2026-04-01",
+      transferCourseValue: courseValue,
+      transferWeeks: "2",
+      transferCourseLabelMap: new Map([[courseValue, "SAT Math"]]),
+      selectedCourseConfigSet: "default",
+      settlement: {
+        weeks: 2,
+        previousWeeklyFee: 30000,
+        nextWeeklyFee: 40000,
+        discount: 0,
+        previousAmount: 60000,
+        nextAmount: 80000,
+        difference: 20000,
+      },
+    })
+
+    expect(result.ok && result.payload.settlement).toEqual({
+      previousWeeklyFee: 30000,
+      nextWeeklyFee: 40000,
+    })
+  })
 })
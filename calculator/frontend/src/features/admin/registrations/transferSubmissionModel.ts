@@ -1,3 +1,5 @@
+import type { TransferSettlement } from "@shared/transferSettlement"
+
 import { TRANSFER_COPY } from "./transferCopy"
 import {
   calcRemainingDays,
@@ -5,6 +7,7 @@ import {
   makeCourseValue,
   parseCourseValue,
 } from "./transferModel"
+import { buildTransferSettlementPayload } from "./transferSettlementModel"
 import { formatDateYmd, isDailyRegistration, parseDate } from "./utils"
 
 type TransferRegistrationRow = {
@@ -53,6 +56,7 @@ export function validateTransferSubmission({
   transferWeeks,
   transferCourseLabelMap,
   selectedCourseConfigSet,
+  settlement,
 }: {
   transferTarget: TransferRegistrationRow | null
   transferDate: string
@@ -60,6 +64,8 @@ export function validateTransferSubmission({
   transferWeeks: string
   transferCourseLabelMap: Map<string, string>
   selectedCourseConfigSet: string
+  /** 미리보기에서 계산한 전반 정산. 없으면 정산 없이 전반한다 */
+  settlement?: TransferSettlement | null
 }) {
   if (!transferTarget) {
     return { ok: false as const, error: TRANSFER_COPY.targetMissing }
@@ -101,6 +107,7 @@ export function validateTransferSubmission({
   }
 
   const parsedCourse = parseCourseValue(transferCourseValue)
+  const settlementPayload = buildTransferSettlementPayload(settlement)
   return {
     ok: true as const,
     transferId: String(transferId),
@@ -110,6 +117,7 @@ export function validateTransferSubmission({
       courseId: parsedCourse.type === "id" ? parsedCourse.value : "",
       courseConfigSetName: transferTarget?.courseConfigSetName || selectedCourseConfigSet,
       ...(weeksValue ? { weeks: weeksValue } : {}),
+      ...(settlementPayload ? { settlement: settlementPayload } : {}),
     },
   }
 }
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+import {
+  buildSplitDraft,
+  buildSplitPayload,
+  filterUnpaidTargets,
+  getDepositStatusQuery,
+  getSplitValidationError,
+  getUnpaidTargetKey,
+  sortTargetsForDeposit,
+  type DepositRow,
+  type DepositStatusFilter,
+  type SplitDraftEntry,
+  type UnpaidTarget,
+} from "./depositReconciliationModel"
+import type { RegistrationRow } from "./registrationsTypes"
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback
+}
+
+export function useDepositReconciliation({
+  registrations,
+}: {
+  registrations: RegistrationRow[]
+}) {
+  const [deposits, setDeposits] = useState<DepositRow[]>([])
+  const [targets, setTargets] = useState<UnpaidTarget[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+
+  const [statusFilter, setStatusFilter] = useState<DepositStatusFilter>("open")
+  const [depositorQuery, setDepositorQuery] = useState("")
+  const [appliedDepositor, setAppliedDepositor] = useState("")
+  const [fromDate, setFromDate] = useState("")
+  const [toDate, setToDate] = useState("")
+
+  const [selectedDepositId, setSelectedDepositId] = useState("")
+  const [checkedTargetKeys, setCheckedTargetKeys] = useState<string[]>([])
+  const [splitOpen, setSplitOpen] = useState(false)
+  const [splitEntries, setSplitEntries] = useState<SplitDraftEntry[]>([])
+  const [splitError, setSplitError] = useState("")
+
+  const registrationIds = useMemo(
+    () => new Set((registrations || []).map((row) => String(row?.id || "")).filter(Boolean)),
+    [registrations]
+  )
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const params: Record<string, string> = {}
+      const status = getDepositStatusQuery(statusFilter)
+      if (status) params.status = status
+      if (appliedDepositor) params.depositor = appliedDepositor
+      if (fromDate) params.from = fromDate
+      if (toDate) params.to = toDate
+      const [depositRes, targetRes] = await Promise.all([
+        apiClient.listSmsDeposits(params),
+        apiClient.listUnpaidTargets(),
+      ])
+      setDeposits(Array.isArray(depositRes?.results) ? (depositRes.results as DepositRow[]) : [])
+      setTargets(Array.isArray(targetRes?.results) ? (targetRes.results as UnpaidTarget[]) : [])
+    } catch (e: unknown) {
+      setError(getErrorMessage(e, COPY.loadFailed))
+    } finally {
+      setLoading(false)
+    }
+  }, [appliedDepositor, fromDate, statusFilter, toDate])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const selectedDeposit = useMemo(
+    () => deposits.find((deposit) => deposit.id === selectedDepositId) || null,
+    [deposits, selectedDepositId]
+  )
+
+  const visibleTargets = useMemo(
+    () => sortTargetsForDeposit(filterUnpaidTargets(targets, registrationIds), selectedDeposit),
+    [registrationIds, selectedDeposit, targets]
+  )
+
+  const runAction = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setBusy(true)
+      setError("")
+      setNotice("")
+      try {
+        await action()
+        setCheckedTargetKeys([])
+        await load()
+      } catch (e: unknown) {
+        setError(getErrorMessage(e, COPY.actionFailed))
+      } finally {
+        setBusy(false)
+      }
+    },
+    [load]
+  )
+
+  const submitDepositorQuery = () => {
+    setAppliedDepositor(depositorQuery.trim())
+  }
+
+  const toggleTarget = useCallback((target: UnpaidTarget) => {
+    const key = getUnpaidTargetKey(target)
+    setCheckedTargetKeys((prev) =>
+      prev.includes(key) ? prev.filter((item) => item !== key) : [...prev, key]
+    )
+  }, [])
+
+  const handleLink = (target: UnpaidTarget) => {
+    if (!selectedDeposit) return
+    void runAction(() =>
+      apiClient.linkSmsDeposit(selectedDeposit.id, {
+        registrationId: target.registrationId,
+        registrationExtensionId: target.registrationExtensionId || null,
+      })
+    )
+  }
+
+  const handleUnlink = (deposit: DepositRow) => {
+    void runAction(() => apiClient.unlinkSmsDeposit(deposit.id))
+  }
+
+  const handleIgnore = (deposit: DepositRow) => {
+    const memo = window.prompt(COPY.ignorePrompt, deposit.memo || "")
+    if (memo === null) return
+    void runAction(() => apiClient.ignoreSmsDeposit(deposit.id, memo))
+  }
+
+  const handleRematch = () => {
+    void runAction(async () => {
+      await apiClient.rematchSmsDeposits()
+      setNotice(COPY.rematchDone)
+    })
+  }
+
+  const openSplit = () => {
+    if (!selectedDeposit) return
+    const checked = visibleTargets.filter((target) =>
+      checkedTargetKeys.includes(getUnpaidTargetKey(target))
+    )
+    setSplitEntries(buildSplitDraft(selectedDeposit, checked))
+    setSplitError("")
+    setSplitOpen(true)
+  }
+
+  const updateSplitAmount = (key: string, amount: string) => {
+    setSplitEntries((prev) => prev.map((entry) => (entry.key === key ? { ...entry, amount } : entry)))
+  }
+
+  const handleSplitSave = async () => {
+    if (!selectedDeposit) return
+    const validationError = getSplitValidationError(selectedDeposit.amount, splitEntries)
+    if (validationError) {
+      setSplitError(validationError)
+      return
+    }
+    setBusy(true)
+    setSplitError("")
+    try {
+      await apiClient.splitSmsDeposit(selectedDeposit.id, buildSplitPayload(splitEntries))
+      setSplitOpen(false)
+      setCheckedTargetKeys([])
+      await load()
+    } catch (e: unknown) {
+      setSplitError(getErrorMessage(e, COPY.actionFailed))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return {
+    deposits,
+    visibleTargets,
+    loading,
+    busy,
+    error,
+    notice,
+    statusFilter,
+    setStatusFilter,
+    depositorQuery,
+    setDepositorQuery,
+    submitDepositorQuery,
+    fromDate,
+    setFromDate,
+    toDate,
+    setToDate,
+    selectedDeposit,
+    setSelectedDepositId,
+    checkedTargetKeys,
+    toggleTarget,
+    reload: load,
+    handleLink,
+    handleUnlink,
+    handleIgnore,
+    handleRematch,
+    splitOpen,
+    setSplitOpen,
+    splitEntries,
+    splitError,
+    openSplit,
+    updateSplitAmount,
+    handleSplitSave,
+  }
+}
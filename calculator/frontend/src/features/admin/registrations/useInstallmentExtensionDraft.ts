@@ -9,12 +9,8 @@ import {
   normalizeSkipWeeks,
 } from "@/utils/calculatorLogic"
 import { stripDuplicateSuffix } from "@/utils/clipboardUtils"
-import {
-  recordingAvailable as globalRecordingAvailable,
-  courseInfo as globalCourseInfo,
-  getCourseName,
-} from "@/utils/data"
-import type { CourseTreeGroup, CourseInfo } from "@/utils/data"
+import { recordingAvailable as globalRecordingAvailable, getCourseName } from "@/utils/data"
+import type { CourseTreeGroup } from "@/utils/data"
 
 import { INSTALLMENT_BOARD_COPY as COPY } from "./installmentBoardCopy"
 import {
@@ -27,6 +23,19 @@ import {
   type InstallmentRow,
   type CourseConfigSet,
 } from "./installmentBoardModel"
+import {
+  getConfigCourseTree,
+  getSavedDiscount,
+  getWeeklyFee,
+  resolveCourseInfoMap,
+} from "./installmentExtensionCourseModel"
+import {
+  getExtensionEditError,
+  getExtensionEditState,
+  getRowExtensions,
+  toRegistrationSkipWeeks,
+  type ExtensionEditTarget,
+} from "./installmentExtensionEditModel"
 import { formatDateYmd } from "./utils"
 
 type RecordingAvailableMap = Record<string, boolean | Record<string, boolean> | undefined>
@@ -41,49 +50,6 @@ function resolveRecordingAvailable(courseConfigSet: CourseConfigSet | null): Rec
   return globalRecordingAvailable as RecordingAvailableMap
 }
 
-type CourseInfoMap = Record<string, CourseInfo | undefined>
-
-function resolveCourseInfoMap(courseConfigSet: CourseConfigSet | null): CourseInfoMap {
-  const configData = courseConfigSet?.data as Record<string, unknown> | null | undefined
-  const fromConfig = configData?.courseInfo as CourseInfoMap | undefined
-  if (fromConfig && typeof fromConfig === "object" && Object.keys(fromConfig).length > 0) {
-    return fromConfig
-  }
-  return globalCourseInfo as CourseInfoMap
-}
-
-function findCourseConfigKey(
-  courseLabel: string,
-  ciMap: CourseInfoMap,
-  courseTree?: CourseTreeGroup[],
-): string {
-  if (!courseLabel) return ""
-  let bestKey = ""
-  let bestLen = 0
-  for (const key of Object.keys(ciMap)) {
-    const name = getCourseName(key)
-    if (courseLabel.startsWith(name) && name.length > bestLen) {
-      bestKey = key
-      bestLen = name.length
-    }
-    if (courseLabel.startsWith(key) && key.length > bestLen) {
-      bestKey = key
-      bestLen = key.length
-    }
-  }
-  if (bestKey) return bestKey
-  for (const group of courseTree || []) {
-    for (const item of group.items || []) {
-      if (!item.label || !courseLabel.startsWith(item.label)) continue
-      if (item.label.length > bestLen && ciMap[item.val]) {
-        bestKey = item.val
-        bestLen = item.label.length
-      }
-    }
-  }
-  return bestKey
-}
-
 function findRecordingKey(
   courseLabel: string,
   ra: RecordingAvailableMap,
@@ -122,9 +88,13 @@ function findRecordingKey(
 
 export function useInstallmentExtensionDraft({
   onCreateExtension,
+  onUpdateExtension,
+  onDeleteExtension,
   courseConfigSet = null,
 }: {
   onCreateExtension?: (payload: Record<string, unknown>) => Promise<void> | void
+  onUpdateExtension?: (extensionId: string, payload: Record<string, unknown>) => Promise<void> | void
+  onDeleteExtension?: (extensionId: string) => Promise<void> | void
   courseConfigSet?: CourseConfigSet | null
 }) {
   const [dialogOpen, setDialogOpen] = useState(false)
@@ -139,8 +109,37 @@ export function useInstallmentExtensionDraft({
   const [recordingEnabled, setRecordingEnabled] = useState(false)
   const [recordingDates, setRecordingDates] = useState<string[]>([])
 
-  useEffect(() => {
+  // 수정 중인 연장. null이면 새 연장을 만든다
+  const [editingExtension, setEditingExtension] = useState<ExtensionEditTarget | null>(null)
+  const [editStartDate, setEditStartDate] = useState("")
+  const [maxEditWeeks, setMaxEditWeeks] = useState(0)
+
+  const rowExtensions = useMemo(() => getRowExtensions(selectedRow), [selectedRow])
+
+  const startEdit = useCallback(
+    (target: ExtensionEditTarget) => {
+      if (!selectedRow) return
+      const state = getExtensionEditState(selectedRow, target)
+      setEditingExtension(target)
+      setEditStartDate(state.startDate)
+      setMaxEditWeeks(state.maxWeeks)
+      setExtendWeeks(state.weeks)
+      setExtendFee(state.fee)
+      setSkipWeeksEnabled(state.skipWeeks.length > 0)
+      setSkipWeeks(state.skipWeeks)
+      setRecordingEnabled(state.recordingDates.length > 0)
+      setRecordingDates(state.recordingDates)
+      setCopyState("")
+      setSaveError("")
+    },
+    [selectedRow]
+  )
+
+  const resetDraft = useCallback(() => {
     if (!selectedRow) return
+    setEditingExtension(null)
+    setEditStartDate("")
+    setMaxEditWeeks(0)
     setExtendWeeks(Math.min(DEFAULT_EXTEND_WEEKS, selectedRow.remainingWeeks))
     setExtendFee("")
     setSkipWeeksEnabled(false)
@@ -151,22 +150,28 @@ export function useInstallmentExtensionDraft({
     setSaveError("")
   }, [selectedRow])
 
+  useEffect(() => {
+    if (!selectedRow) return
+    // 더 늘릴 주수가 없으면 마지막 연장 수정으로 연다
+    const latest = rowExtensions[rowExtensions.length - 1]
+    if (selectedRow.remainingWeeks <= 0 && latest) {
+      startEdit(latest)
+    } else {
+      resetDraft()
+    }
+  }, [resetDraft, rowExtensions, selectedRow, startEdit])
+
+  const maxExtendWeeks = editingExtension ? maxEditWeeks : selectedRow?.remainingWeeks ?? 0
+
   const ra = useMemo(() => resolveRecordingAvailable(courseConfigSet), [courseConfigSet])
   const ciMap = useMemo(() => resolveCourseInfoMap(courseConfigSet), [courseConfigSet])
-  const configTree = useMemo(
-    () => (courseConfigSet?.data?.courseTree as CourseTreeGroup[] | undefined) || [],
-    [courseConfigSet],
-  )
+  const configTree = useMemo(() => getConfigCourseTree(courseConfigSet), [courseConfigSet])
 
   // 수업목록에서 설정한 주당 수강료
-  const weeklyFee = useMemo(() => {
-    if (!selectedRow) return 0
-    const label = selectedRow.courseLabel || String(selectedRow.registration?.course || "")
-    const key = findCourseConfigKey(label, ciMap, configTree)
-    if (!key) return 0
-    const info = ciMap[key]
-    return Number(info?.fee ?? 0)
-  }, [selectedRow, ciMap, configTree])
+  const weeklyFee = useMemo(
+    () => getWeeklyFee(selectedRow, ciMap, configTree),
+    [selectedRow, ciMap, configTree]
+  )
 
   const isRecordingAvailable = useMemo(() => {
     if (!selectedRow) return false
@@ -193,8 +198,9 @@ export function useInstallmentExtensionDraft({
 
   const extensionStartDate = useMemo(() => {
     if (!selectedRow) return ""
+    if (editingExtension) return editStartDate
     return selectedRow.nextStartDate || ""
-  }, [selectedRow])
+  }, [editStartDate, editingExtension, selectedRow])
 
   const scheduleMeta = useMemo(() => {
     if (!selectedRow) return { scheduleWeeks: 0, skipWeeks: [] as number[], breakWeekSet: new Set<number>() }
@@ -244,10 +250,7 @@ export function useInstallmentExtensionDraft({
 
   const recordingDays = validRecordingDates.length
 
-  const savedDiscount = useMemo(() => {
-    const raw = Number(selectedRow?.registration?.discount ?? 0)
-    return Number.isFinite(raw) && raw >= 0 && raw <= 1 ? raw : 0
-  }, [selectedRow])
+  const savedDiscount = useMemo(() => getSavedDiscount(selectedRow), [selectedRow])
 
   const feeBreakdown = useMemo(() => {
     // 수업목록에 설정된 주당 수강료 기준으로 계산 (계산기 화면과 동일)
@@ -323,7 +326,7 @@ export function useInstallmentExtensionDraft({
     return buildInstallmentNoticeText(params)
   }, [buildNoticeParams])
 
-  const maxSkipWeeks = selectedRow ? selectedRow.remainingWeeks - extendWeeks : 0
+  const maxSkipWeeks = selectedRow ? maxExtendWeeks - extendWeeks : 0
 
   const handleSkipWeekToggle = useCallback((weekIndex: number) => {
     setSkipWeeks((prev) => {
@@ -380,16 +383,19 @@ export function useInstallmentExtensionDraft({
   }
 
   const handleSave = async () => {
-    if (!selectedRow || typeof onCreateExtension !== "function") return
+    if (!selectedRow) return
+    if (editingExtension ? typeof onUpdateExtension !== "function" : typeof onCreateExtension !== "function") {
+      return
+    }
 
     const weeksValue = Number(extendWeeks)
     if (!Number.isFinite(weeksValue) || weeksValue <= 0) {
       setSaveError(COPY.invalidWeeks)
       return
     }
-    if (weeksValue > selectedRow.remainingWeeks) {
+    if (weeksValue > maxExtendWeeks) {
       setSaveError(
-        `${COPY.dialogRemainingWeeks}(${selectedRow.remainingWeeks}${COPY.weekSuffix})를 초과할 수 없습니다.`
+        `${COPY.dialogRemainingWeeks}(${maxExtendWeeks}${COPY.weekSuffix})를 초과할 수 없습니다.`
       )
       return
     }
@@ -407,6 +413,40 @@ export function useInstallmentExtensionDraft({
 
     const startDateValue = formatDateYmd(extensionStartDate)
 
+    if (editingExtension) {
+      const rangeError = getExtensionEditError(selectedRow, editingExtension.id, {
+        startDate: startDateValue,
+        weeks: weeksValue,
+      })
+      if (rangeError) {
+        setSaveError(rangeError)
+        return
+      }
+      // 수정은 이 연장 기간의 휴강 주차·녹화 날짜를 통째로 바꾼다 (빈 배열이면 지운다)
+      const updatePayload: Record<string, unknown> = {
+        weeks: weeksValue,
+        tuitionFee: Number.isFinite(finalFee) ? finalFee : null,
+        startDate: startDateValue,
+        endDate: extensionEndDate || undefined,
+        skipWeeks: toRegistrationSkipWeeks(
+          normalizedSkipWeeks,
+          selectedRow.registration?.startDate,
+          startDateValue
+        ),
+        recordingDates: validRecordingDates,
+      }
+      setSaveError("")
+      try {
+        await onUpdateExtension?.(editingExtension.id, updatePayload)
+        setDialogOpen(false)
+        setSelectedRow(null)
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : COPY.saveFailed
+        setSaveError(message)
+      }
+      return
+    }
+
     // 연장 휴강 주차를 등록 전체 기준으로 변환
     const baseWeeks = Number(selectedRow.registration?.weeks || 0)
     const baseSkipArr = Array.isArray(selectedRow.registration?.skipWeeks)
@@ -431,7 +471,7 @@ export function useInstallmentExtensionDraft({
 
     setSaveError("")
     try {
-      await onCreateExtension(payload)
+      await onCreateExtension?.(payload)
       setDialogOpen(false)
       setSelectedRow(null)
     } catch (err: unknown) {
@@ -440,6 +480,20 @@ export function useInstallmentExtensionDraft({
     }
   }
 
+  const handleDelete = async (target: ExtensionEditTarget) => {
+    if (typeof onDeleteExtension !== "function") return
+    if (!window.confirm(COPY.deleteConfirm)) return
+    setSaveError("")
+    try {
+      await onDeleteExtension(target.id)
+      setDialogOpen(false)
+      setSelectedRow(null)
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : COPY.deleteFailed
+      setSaveError(message)
+    }
+  }
+
   const handleDialogOpenChange = (open: boolean) => {
     setDialogOpen(open)
     if (!open) {
@@ -455,6 +509,8 @@ export function useInstallmentExtensionDraft({
     extensionStartDate,
     extensionEndDate,
     noticePreview,
+    noticeCopy,
+    displayName,
     copyState,
     saveError,
     currentFeeLabel,
@@ -464,6 +520,16 @@ export function useInstallmentExtensionDraft({
     handleDialogOpenChange,
     setExtendWeeks,
     setExtendFee,
+    maxExtendWeeks,
+
+    rowExtensions,
+    editingExtension,
+    setEditStartDate,
+    startEdit,
+    cancelEdit: resetDraft,
+    handleDelete,
+    canEdit: typeof onUpdateExtension === "function",
+    canDelete: typeof onDeleteExtension === "function",
 
     skipWeeksEnabled,
     setSkipWeeksEnabled,
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+import { normalizeTransferSettlement, type TransferSettlement } from "@shared/transferSettlement"
+
+import { parseAmountInput } from "./depositReconciliationModel"
+import { PAYMENT_BALANCE_COPY as COPY } from "./paymentBalanceCopy"
+import {
+  getPaymentDraftError,
+  type PaymentBalance,
+  type PaymentBalanceItem,
+  type PaymentMethod,
+  type PaymentRow,
+  type StudentPaymentBalance,
+} from "./paymentBalanceModel"
+
+export function useRegistrationPayments(registrationId: string) {
+  const [payments, setPayments] = useState<PaymentRow[]>([])
+  const [balance, setBalance] = useState<PaymentBalance | null>(null)
+  const [items, setItems] = useState<PaymentBalanceItem[]>([])
+  const [studentBalance, setStudentBalance] = useState<StudentPaymentBalance | null>(null)
+  const [transferSettlement, setTransferSettlement] = useState<TransferSettlement | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState("")
+  const [amount, setAmount] = useState("")
+  const [method, setMethod] = useState<PaymentMethod>("card")
+  const [targetExtensionId, setTargetExtensionId] = useState("")
+  const [memo, setMemo] = useState("")
+
+  const load = useCallback(async () => {
+    if (!registrationId) return
+    setLoading(true)
+    try {
+      const res = await apiClient.listPayments(registrationId)
+      setPayments(Array.isArray(res?.results) ? (res.results as PaymentRow[]) : [])
+      setBalance((res?.balance as PaymentBalance) || null)
+      setItems(Array.isArray(res?.items) ? (res.items as PaymentBalanceItem[]) : [])
+      setStudentBalance((res?.studentBalance as StudentPaymentBalance) || null)
+      setTransferSettlement(normalizeTransferSettlement(res?.transferSettlement))
+      setError("")
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [registrationId])
+
+  useEffect(() => {
+    setPayments([])
+    setBalance(null)
+    setItems([])
+    setStudentBalance(null)
+    setTransferSettlement(null)
+    setAmount("")
+    setMemo("")
+    setTargetExtensionId("")
+    void load()
+  }, [load])
+
+  const handleCreate = async () => {
+    const validationError = getPaymentDraftError(amount)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setBusy(true)
+    setError("")
+    try {
+      await apiClient.createPayment({
+        registrationId,
+        registrationExtensionId: targetExtensionId || null,
+        amount: parseAmountInput(amount),
+        method,
+        memo: memo.trim(),
+      })
+      setAmount("")
+      setMemo("")
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.actionFailed)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async (payment: PaymentRow) => {
+    if (!window.confirm(COPY.deleteConfirm)) return
+    setBusy(true)
+    setError("")
+    try {
+      await apiClient.deletePayment(payment.id)
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.actionFailed)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return {
+    payments,
+    balance,
+    items,
+    studentBalance,
+    transferSettlement,
+    loading,
+    busy,
+    error,
+    amount,
+    setAmount,
+    method,
+    setMethod,
+    targetExtensionId,
+    setTargetExtensionId,
+    memo,
+    setMemo,
+    reload: load,
+    handleCreate,
+    handleDelete,
+  }
+}
@@ -1,7 +1,12 @@
-import { useCallback, useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 
 import { apiClient } from "@/api-client"
 
+import {
+  isCourseScopedListParams,
+  normalizeRegistrationListCounts,
+  type RegistrationListPageCounts,
+} from "./registrationListPageModel"
 import {
   isPermissionDeniedError,
   resolveRegistrationRows,
@@ -18,21 +23,32 @@ const REGISTRATIONS_LOAD_ERROR =
 const EXTENSIONS_LOAD_ERROR =
   "\uC5F0\uC7A5 \uAE30\uB85D\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4."
 
+/**
+ * listParams가 있으면 조건에 맞는 등록을 한 페이지씩 불러오고 서버 집계를 함께 받는다.
+ * 없으면 예전처럼 접근 가능한 등록 전체를 불러온다.
+ */
 export function useRegistrationRecords({
   selectedCourseConfigSet,
   selectedCourseConfigSetObj,
   shouldLoadExtensions,
+  listParams = null,
   setError,
   setActiveMergesFromApi,
 }: {
   selectedCourseConfigSet: string
   selectedCourseConfigSetObj: CourseConfigSet | null
   shouldLoadExtensions: boolean
+  listParams?: Record<string, string> | null
   setError: (value: string) => void
   setActiveMergesFromApi: (entries: MergeEntry[]) => void
 }) {
   const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [registrations, setRegistrations] = useState<RegistrationRow[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [listCounts, setListCounts] = useState<RegistrationListPageCounts | null>(null)
+  const [matchedCount, setMatchedCount] = useState<number | null>(null)
+  const requestSeqRef = useRef(0)
   const [extensions, setExtensions] = useState<ExtensionRow[]>([])
   const [extensionsLoading, setExtensionsLoading] = useState(false)
   const [extensionsError, setExtensionsError] = useState("")
@@ -44,10 +60,14 @@ export function useRegistrationRecords({
 
   const loadRegistrations = useCallback(async () => {
     if (!selectedCourseConfigSet) return
+    // 검색어를 빠르게 바꾸면 먼저 보낸 요청이 늦게 올 수 있어 마지막 요청만 반영한다
+    const seq = requestSeqRef.current + 1
+    requestSeqRef.current = seq
     setLoading(true)
     setError("")
     try {
-      const res = await apiClient.listRegistrations()
+      const res = await apiClient.listRegistrations(listParams || {})
+      if (seq !== requestSeqRef.current) return
       const results = Array.isArray(res?.results)
         ? (res.results as RegistrationRow[])
         : []
@@ -55,14 +75,43 @@ export function useRegistrationRecords({
       if (Array.isArray(res?.activeMerges)) {
         setActiveMergesFromApi(res.activeMerges as MergeEntry[])
       }
+      if (listParams) {
+        const counts = normalizeRegistrationListCounts(res?.counts)
+        setNextCursor(typeof res?.nextCursor === "string" ? res.nextCursor : null)
+        setMatchedCount(counts ? counts.matched : null)
+        if (!isCourseScopedListParams(listParams)) setListCounts(counts)
+      }
     } catch (e: unknown) {
+      if (seq !== requestSeqRef.current) return
       const message = e instanceof Error ? e.message : REGISTRATIONS_LOAD_ERROR
       setError(message)
       setRegistrations([])
+      setNextCursor(null)
+    } finally {
+      if (seq === requestSeqRef.current) setLoading(false)
+    }
+  }, [listParams, selectedCourseConfigSet, setActiveMergesFromApi])
+
+  const loadMoreRegistrations = useCallback(async () => {
+    if (!listParams || !nextCursor) return
+    const seq = requestSeqRef.current
+    setLoadingMore(true)
+    try {
+      const res = await apiClient.listRegistrations({ ...listParams, cursor: nextCursor })
+      if (seq !== requestSeqRef.current) return
+      const results = Array.isArray(res?.results)
+        ? (res.results as RegistrationRow[])
+        : []
+      setRegistrations((prev) => [...prev, ...results])
+      setNextCursor(typeof res?.nextCursor === "string" ? res.nextCursor : null)
+    } catch (e: unknown) {
+      if (seq !== requestSeqRef.current) return
+      const message = e instanceof Error ? e.message : REGISTRATIONS_LOAD_ERROR
+      setError(message)
     } finally {
-      setLoading(false)
+      setLoadingMore(false)
     }
-  }, [selectedCourseConfigSet, setActiveMergesFromApi])
+  }, [listParams, nextCursor])
 
   const loadExtensions = useCallback(async (registrationIds: Array<string | number>) => {
     const ids = Array.isArray(registrationIds)
@@ -103,11 +152,16 @@ export function useRegistrationRecords({
 
   return {
     loading,
+    loadingMore,
     registrations: resolvedRegistrations,
+    nextCursor,
+    listCounts,
+    matchedCount,
     extensions,
     extensionsLoading,
     extensionsError,
     loadRegistrations,
+    loadMoreRegistrations,
     loadExtensions,
   }
 }
@@ -1,6 +1,7 @@
-import { useCallback, useEffect, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 
 import { normalizeWeekRanges } from "./utils"
+import { buildRegistrationListPageParams } from "./registrationListPageModel"
 import { useRegistrationRecords } from "./useRegistrationRecords"
 import { useRegistrationsDerivedState } from "./useRegistrationsDerivedState"
 import { useRegistrationMergeEditor } from "./useRegistrationMergeEditor"
@@ -12,6 +13,8 @@ type UseRegistrationsOptions = {
   loadMerges?: boolean
   loadExtensions?: boolean
   enableVariants?: boolean
+  /** 서버에서 필터·집계를 하고 한 페이지씩 불러온다 (등록 탭) */
+  paginate?: boolean
 }
 
 export function useRegistrations(options: UseRegistrationsOptions = {}) {
@@ -19,6 +22,7 @@ export function useRegistrations(options: UseRegistrationsOptions = {}) {
     loadMerges: shouldLoadMerges = true,
     loadExtensions: shouldLoadExtensions = true,
     enableVariants = false,
+    paginate = false,
   } = options
 
   const [error, setError] = useState("")
@@ -58,6 +62,25 @@ export function useRegistrations(options: UseRegistrationsOptions = {}) {
     setSelectedCourseConfigSet,
   })
 
+  const [debouncedSearch, setDebouncedSearch] = useState(search)
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [search])
+
+  const listParams = useMemo(() => {
+    if (!paginate || !selectedCourseConfigSet) return null
+    return buildRegistrationListPageParams({
+      courseConfigSetName: selectedCourseConfigSet,
+      categoryFilter,
+      courseFilter,
+      search: debouncedSearch,
+    })
+  }, [categoryFilter, courseFilter, debouncedSearch, paginate, selectedCourseConfigSet])
+
   const {
     mergeError,
     setMergeError,
@@ -102,27 +125,35 @@ export function useRegistrations(options: UseRegistrationsOptions = {}) {
 
   const {
     loading,
+    loadingMore,
     registrations: resolvedRegistrations,
+    nextCursor,
+    listCounts,
+    matchedCount,
     extensions,
     extensionsLoading,
     extensionsError,
     loadRegistrations,
+    loadMoreRegistrations,
     loadExtensions,
   } = useRegistrationRecords({
     selectedCourseConfigSet,
     selectedCourseConfigSetObj,
     shouldLoadExtensions,
+    listParams,
     setError,
     setActiveMergesFromApi: handleActiveMergesFromApi,
   })
 
+  useEffect(() => {
+    if (!selectedCourseConfigSet || !shouldLoadMerges) return
+    loadMerges()
+  }, [selectedCourseConfigSet, loadMerges, shouldLoadMerges])
+
   useEffect(() => {
     if (!selectedCourseConfigSet) return
-    if (shouldLoadMerges) {
-      loadMerges()
-    }
     loadRegistrations()
-  }, [selectedCourseConfigSet, loadMerges, loadRegistrations, shouldLoadMerges])
+  }, [selectedCourseConfigSet, loadRegistrations])
 
   const {
     courseOptions,
@@ -169,6 +200,7 @@ export function useRegistrations(options: UseRegistrationsOptions = {}) {
     loadCourseConfigSets,
 
     loading,
+    loadingMore,
     error,
     setError,
     mergeError,
@@ -185,6 +217,10 @@ export function useRegistrations(options: UseRegistrationsOptions = {}) {
     variantFilter,
     setVariantFilter,
     loadRegistrations,
+    loadMoreRegistrations,
+    nextCursor,
+    listCounts,
+    matchedCount,
     loadExtensions,
 
     merges,
@@ -2,6 +2,7 @@ import { useCallback } from "react"
 
 import { apiClient } from "@/api-client"
 
+import type { BulkExtensionResult } from "./installmentBulkExtensionModel"
 import { useNote } from "./useNote"
 import type { CourseConfigSet, RegistrationRow } from "./registrationsTypes"
 import { useTransfer } from "./useTransfer"
@@ -47,17 +48,21 @@ export function useRegistrationsTabActions({
     setError,
   })
 
-  const handleCreateExtension = useCallback(
-    async (payload: Record<string, unknown>) => {
+  const reloadAfterExtensionChange = useCallback(async () => {
+    await loadRegistrations()
+    const ids = (baseRegistrations || [])
+      .map((registration) => registration?.id)
+      .filter((id): id is string | number => id !== undefined && id !== null && id !== "")
+    if (ids.length) {
+      await loadExtensions(ids)
+    }
+  }, [baseRegistrations, loadExtensions, loadRegistrations])
+
+  const runExtensionChange = useCallback(
+    async (change: () => Promise<unknown>) => {
       try {
-        await apiClient.createRegistrationExtension(payload)
-        await loadRegistrations()
-        const ids = (baseRegistrations || [])
-          .map((registration) => registration?.id)
-          .filter((id): id is string | number => id !== undefined && id !== null && id !== "")
-        if (ids.length) {
-          await loadExtensions(ids)
-        }
+        await change()
+        await reloadAfterExtensionChange()
       } catch (err: unknown) {
         const message =
           err instanceof Error
@@ -67,7 +72,38 @@ export function useRegistrationsTabActions({
         throw err
       }
     },
-    [baseRegistrations, loadExtensions, loadRegistrations, setError]
+    [reloadAfterExtensionChange, setError]
+  )
+
+  const handleCreateExtension = useCallback(
+    (payload: Record<string, unknown>) =>
+      runExtensionChange(() => apiClient.createRegistrationExtension(payload)),
+    [runExtensionChange]
+  )
+
+  // 일괄 연장은 행마다 결과를 돌려받아 대화상자에 보여준다
+  const handleBulkCreateExtensions = useCallback(
+    async (payload: Record<string, unknown>) => {
+      let results: BulkExtensionResult[] = []
+      await runExtensionChange(async () => {
+        const res = await apiClient.bulkCreateRegistrationExtensions(payload)
+        results = Array.isArray(res?.results) ? res.results : []
+      })
+      return results
+    },
+    [runExtensionChange]
+  )
+
+  const handleUpdateExtension = useCallback(
+    (extensionId: string, payload: Record<string, unknown>) =>
+      runExtensionChange(() => apiClient.updateRegistrationExtension(extensionId, payload)),
+    [runExtensionChange]
+  )
+
+  const handleDeleteExtension = useCallback(
+    (extensionId: string) =>
+      runExtensionChange(() => apiClient.deleteRegistrationExtension(extensionId)),
+    [runExtensionChange]
   )
 
   return {
@@ -75,5 +111,8 @@ export function useRegistrationsTabActions({
     transfer,
     withdraw,
     handleCreateExtension,
+    handleBulkCreateExtensions,
+    handleUpdateExtension,
+    handleDeleteExtension,
   }
 }
@@ -28,6 +28,7 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     courseVariantRequiredSet,
     courseOptions,
     loading,
+    loadingMore,
     error,
     setError,
     mergeError,
@@ -39,6 +40,10 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     variantFilter,
     setVariantFilter,
     loadRegistrations,
+    loadMoreRegistrations,
+    nextCursor,
+    listCounts,
+    matchedCount,
     extensions,
     extensionsLoading,
     extensionsError,
@@ -74,6 +79,7 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     loadMerges: canAccessRegistrations,
     loadExtensions: canViewInstallments,
     enableVariants: false,
+    paginate: true,
   })
 
   const {
@@ -102,7 +108,15 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     baseRegistrations,
   })
 
-  const { note, transfer, withdraw, handleCreateExtension } = useRegistrationsTabActions({
+  const {
+    note,
+    transfer,
+    withdraw,
+    handleCreateExtension,
+    handleBulkCreateExtensions,
+    handleUpdateExtension,
+    handleDeleteExtension,
+  } = useRegistrationsTabActions({
     courseOptions,
     registrations,
     selectedCourseConfigSetObj,
@@ -139,6 +153,7 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
 
   return {
     selectedCourseConfigSet,
+    canAccessRegistrations,
     baseRegistrations,
     courseFilter,
     handleCourseFilterFromSidebar,
@@ -162,6 +177,12 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     setSearch,
     loading,
     loadRegistrations,
+    registrations,
+    listCounts,
+    matchedCount,
+    nextCursor,
+    loadingMore,
+    loadMoreRegistrations,
     mergeManagerOpen,
     canManageMerges,
     setMergeManagerOpen,
@@ -194,6 +215,9 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     selectedCourseConfigSetObj,
     resolveCourseDays,
     handleCreateExtension,
+    handleBulkCreateExtensions,
+    handleUpdateExtension,
+    handleDeleteExtension,
     showGantt,
     showTransferChain,
     setShowTransferChain,
@@ -232,6 +256,9 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     setWithdrawPickerOpen: withdraw.setWithdrawPickerOpen,
     withdrawError: withdraw.withdrawError,
     withdrawSaving: withdraw.withdrawSaving,
+    withdrawRefund: withdraw.withdrawRefund,
+    withdrawRefundLoading: withdraw.withdrawRefundLoading,
+    withdrawRefundNotice: withdraw.withdrawRefundNotice,
     handleWithdrawSave: withdraw.handleWithdrawSave,
     transferDialogOpen: transfer.transferDialogOpen,
     closeTransferDialog: transfer.closeTransferDialog,
@@ -248,6 +275,7 @@ export function useRegistrationsTabShellProps(user: AuthUser | null) {
     transferCourseGroups: transfer.transferCourseGroups,
     transferCourseDays: transfer.transferCourseDays,
     transferExpectedEndDate: transfer.transferExpectedEndDate,
+    transferSettlementPreview: transfer.transferSettlementPreview,
     handleTransferSave: transfer.handleTransferSave,
     mergeError,
     setMergeError,
@@ -53,6 +53,7 @@ export function useTransfer({
     transferCourseGroups,
     transferCourseDays,
     transferExpectedEndDate,
+    transferSettlementPreview,
   } = useTransferDerivedState({
     courseOptions,
     registrations,
@@ -74,6 +75,7 @@ export function useTransfer({
       transferWeeks: state.transferWeeks,
       transferCourseLabelMap,
       selectedCourseConfigSet,
+      settlement: transferSettlementPreview?.settlement,
     })
     if (!validated.ok) {
       state.setTransferError(validated.error)
@@ -93,7 +95,7 @@ export function useTransfer({
     } finally {
       state.setTransferSaving(false)
     }
-  }, [onTransferSuccess, selectedCourseConfigSet, state, transferCourseLabelMap])
+  }, [onTransferSuccess, selectedCourseConfigSet, state, transferCourseLabelMap, transferSettlementPreview])
 
   const handleTransferCancel = useCallback(
     async (registration: RegistrationRow) => {
@@ -128,6 +130,7 @@ export function useTransfer({
     transferCourseGroups,
     transferCourseDays,
     transferExpectedEndDate,
+    transferSettlementPreview,
     openTransferDialog: state.openTransferDialog,
     handleTransferSave,
     handleTransferCancel,
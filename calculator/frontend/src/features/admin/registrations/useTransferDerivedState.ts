@@ -9,6 +9,7 @@ import {
   getDailyTransferExpectedEndDate,
   getTransferExpectedEndDate,
 } from "./transferModel"
+import { buildTransferSettlementPreview } from "./transferSettlementModel"
 import { isDailyRegistration } from "./utils"
 
 type RegistrationRow = {
@@ -83,10 +84,20 @@ export function useTransferDerivedState({
     return getTransferExpectedEndDate(transferDate, transferWeeks)
   }, [isDaily, transferDate, transferTarget, transferWeeks])
 
+  const transferSettlementPreview = useMemo(() => {
+    return buildTransferSettlementPreview({
+      target: transferTarget,
+      courseLabel: transferCourseLabelMap.get(transferCourseValue) || "",
+      weeks: transferWeeks,
+      courseConfigSet: selectedCourseConfigSetObj,
+    })
+  }, [selectedCourseConfigSetObj, transferCourseLabelMap, transferCourseValue, transferTarget, transferWeeks])
+
   return {
     transferCourseLabelMap,
     transferCourseGroups,
     transferCourseDays,
     transferExpectedEndDate,
+    transferSettlementPreview,
   }
 }
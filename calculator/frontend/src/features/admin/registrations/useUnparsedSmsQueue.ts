@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { DEPOSIT_RECONCILIATION_COPY as COPY } from "./depositReconciliationCopy"
+import {
+  getUnparsedResolveError,
+  parseAmountInput,
+  type UnparsedSmsRow,
+} from "./depositReconciliationModel"
+
+export function useUnparsedSmsQueue({ onResolved }: { onResolved?: () => void | Promise<void> }) {
+  const [rows, setRows] = useState<UnparsedSmsRow[]>([])
+  const [error, setError] = useState("")
+  const [busy, setBusy] = useState(false)
+  const [editingId, setEditingId] = useState("")
+  const [depositorName, setDepositorName] = useState("")
+  const [amount, setAmount] = useState("")
+
+  const load = useCallback(async () => {
+    try {
+      const res = await apiClient.listUnparsedSms({ status: "pending" })
+      setRows(Array.isArray(res?.results) ? (res.results as UnparsedSmsRow[]) : [])
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    }
+  }, [])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const startEdit = (row: UnparsedSmsRow) => {
+    setEditingId(editingId === row.id ? "" : row.id)
+    setDepositorName("")
+    setAmount("")
+    setError("")
+  }
+
+  const handleResolve = async (row: UnparsedSmsRow) => {
+    const validationError = getUnparsedResolveError(depositorName, amount)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+    setBusy(true)
+    setError("")
+    try {
+      await apiClient.resolveUnparsedSms(row.id, {
+        depositorName: depositorName.trim(),
+        amount: parseAmountInput(amount),
+      })
+      setEditingId("")
+      await load()
+      await onResolved?.()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.actionFailed)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDismiss = async (row: UnparsedSmsRow) => {
+    setBusy(true)
+    setError("")
+    try {
+      await apiClient.dismissUnparsedSms(row.id)
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.actionFailed)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return {
+    rows,
+    error,
+    busy,
+    editingId,
+    depositorName,
+    setDepositorName,
+    amount,
+    setAmount,
+    reload: load,
+    startEdit,
+    handleResolve,
+    handleDismiss,
+  }
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+import { getCapacityOverflows } from "@/utils/capacityUtils"
+
+import { WAITLIST_COPY as COPY } from "./waitlistCopy"
+import { normalizeWaitlistEntries, type WaitlistEntry } from "./waitlistModel"
+
+export function useWaitlist({
+  courseConfigSetName,
+  onConverted,
+}: {
+  courseConfigSetName: string
+  onConverted?: () => void | Promise<void>
+}) {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([])
+  const [error, setError] = useState("")
+  const [busyId, setBusyId] = useState("")
+
+  const load = useCallback(async () => {
+    if (!courseConfigSetName) {
+      setEntries([])
+      return
+    }
+    try {
+      const res = await apiClient.listWaitlist({ courseConfigSetName, status: "waiting" })
+      setEntries(normalizeWaitlistEntries(res?.results))
+      setError("")
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    }
+  }, [courseConfigSetName])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const runAction = async (entry: WaitlistEntry, action: () => Promise<void>) => {
+    setBusyId(entry.id)
+    setError("")
+    try {
+      await action()
+      await load()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.actionFailed)
+    } finally {
+      setBusyId("")
+    }
+  }
+
+  const handleConvert = (entry: WaitlistEntry) =>
+    runAction(entry, async () => {
+      try {
+        await apiClient.convertWaitlistEntry(entry.id)
+      } catch (e: unknown) {
+        // 자리가 없으면 확인 후 정원을 넘겨 등록한다
+        if (!(e instanceof Error) || getCapacityOverflows(e).length === 0) throw e
+        if (!window.confirm(`${e.message}\n\n${COPY.overCapacityConfirm}`)) return
+        await apiClient.convertWaitlistEntry(entry.id, { allowOverCapacity: true })
+      }
+      await onConverted?.()
+    })
+
+  const handleCancel = (entry: WaitlistEntry) => {
+    if (!window.confirm(COPY.cancelConfirm)) return
+    return runAction(entry, async () => {
+      await apiClient.cancelWaitlistEntry(entry.id)
+    })
+  }
+
+  return {
+    entries,
+    error,
+    busyId,
+    reload: load,
+    handleConvert,
+    handleCancel,
+  }
+}
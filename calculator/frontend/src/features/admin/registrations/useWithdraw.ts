@@ -1,4 +1,4 @@
-import { useCallback, useState } from "react"
+import { useCallback, useMemo, useRef, useState } from "react"
 
 import { apiClient } from "@/api-client"
 
@@ -8,6 +8,11 @@ import {
   getRestoreConfirmMessage,
   getWithdrawSaveValidationError,
 } from "./withdrawModel"
+import {
+  buildRefundPayload,
+  calculateWithdrawalRefund,
+  type RefundExtensionInput,
+} from "./withdrawRefundModel"
 
 type RegistrationRow = {
   id?: string | number
@@ -28,22 +33,76 @@ export function useWithdraw({ onSuccess, setError }: UseWithdrawParams) {
   const [pickerOpen, setPickerOpen] = useState(false)
   const [error, setWithdrawError] = useState("")
   const [saving, setSaving] = useState(false)
+  const [extensions, setExtensions] = useState<RefundExtensionInput[]>([])
+  const [paidAmount, setPaidAmount] = useState(0)
+  const [refundLoading, setRefundLoading] = useState(false)
+  const [refundNotice, setRefundNotice] = useState("")
+  const refundRequestRef = useRef(0)
 
-  const openDialog = useCallback((registration: RegistrationRow) => {
-    if (!registration) return
-    setTarget(registration)
-    setDate(getDefaultWithdrawDate(registration))
-    setWithdrawError("")
-    setDialogOpen(true)
+  const loadRefundContext = useCallback(async (registrationId: string) => {
+    const requestId = refundRequestRef.current + 1
+    refundRequestRef.current = requestId
+    setExtensions([])
+    setPaidAmount(0)
+    setRefundNotice("")
+    setRefundLoading(true)
+    try {
+      const [paymentsRes, extensionsRes] = await Promise.all([
+        apiClient.listPayments(registrationId),
+        apiClient.listRegistrationExtensions({ registrationIds: [registrationId] }),
+      ])
+      if (refundRequestRef.current !== requestId) return
+      const payments = Array.isArray(paymentsRes?.results) ? paymentsRes.results : []
+      setPaidAmount(
+        payments
+          .filter((payment: Record<string, unknown>) => payment?.kind !== "refund")
+          .reduce((sum: number, payment: Record<string, unknown>) => sum + (Number(payment?.amount) || 0), 0)
+      )
+      setExtensions(
+        Array.isArray(extensionsRes?.results) ? (extensionsRes.results as RefundExtensionInput[]) : []
+      )
+    } catch {
+      if (refundRequestRef.current !== requestId) return
+      setRefundNotice(WITHDRAW_COPY.refundLoadFailed)
+    } finally {
+      if (refundRequestRef.current === requestId) setRefundLoading(false)
+    }
   }, [])
 
+  const openDialog = useCallback(
+    (registration: RegistrationRow) => {
+      if (!registration) return
+      setTarget(registration)
+      setDate(getDefaultWithdrawDate(registration))
+      setWithdrawError("")
+      setDialogOpen(true)
+      if (registration.id !== undefined && registration.id !== null) {
+        void loadRefundContext(String(registration.id))
+      }
+    },
+    [loadRefundContext]
+  )
+
   const closeDialog = useCallback(() => {
+    refundRequestRef.current += 1
     setDialogOpen(false)
     setTarget(null)
     setWithdrawError("")
     setPickerOpen(false)
+    setExtensions([])
+    setPaidAmount(0)
+    setRefundLoading(false)
+    setRefundNotice("")
   }, [])
 
+  const refund = useMemo(
+    () =>
+      refundLoading
+        ? null
+        : calculateWithdrawalRefund({ registration: target, extensions, paidAmount, withdrawDate: date }),
+    [date, extensions, paidAmount, refundLoading, target]
+  )
+
   const handleSave = useCallback(async () => {
     if (!target) return
     const validationError = getWithdrawSaveValidationError({ target, date })
@@ -53,10 +112,15 @@ export function useWithdraw({ onSuccess, setError }: UseWithdrawParams) {
     }
 
     const withdrawId = target?.id
+    if (refundLoading) return
     setSaving(true)
     setWithdrawError("")
     try {
-      await apiClient.updateRegistrationWithdrawal(String(withdrawId), date)
+      await apiClient.updateRegistrationWithdrawal(
+        String(withdrawId),
+        date,
+        buildRefundPayload(refund, date)
+      )
       await onSuccess?.()
       closeDialog()
     } catch (err: unknown) {
@@ -65,7 +129,7 @@ export function useWithdraw({ onSuccess, setError }: UseWithdrawParams) {
     } finally {
       setSaving(false)
     }
-  }, [closeDialog, date, onSuccess, target])
+  }, [closeDialog, date, onSuccess, refund, refundLoading, target])
 
   const handleRestore = useCallback(
     async (registration: RegistrationRow) => {
@@ -92,6 +156,9 @@ export function useWithdraw({ onSuccess, setError }: UseWithdrawParams) {
     setWithdrawPickerOpen: setPickerOpen,
     withdrawError: error,
     withdrawSaving: saving,
+    withdrawRefund: refund,
+    withdrawRefundLoading: refundLoading,
+    withdrawRefundNotice: refundNotice,
     openWithdrawDialog: openDialog,
     handleWithdrawSave: handleSave,
     handleRestore,
@@ -0,0 +1,11 @@
+export const WAITLIST_COPY = {
+  title: "\uB300\uAE30 \uBA85\uB2E8",
+  empty: "\uB300\uAE30 \uC911\uC778 \uD559\uC0DD\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  convert: "\uB4F1\uB85D",
+  cancel: "\uCDE8\uC18C",
+  positionSuffix: "\uBC88",
+  loadFailed: "\uB300\uAE30 \uBA85\uB2E8\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  actionFailed: "\uCC98\uB9AC\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  cancelConfirm: "\uC774 \uD559\uC0DD\uC758 \uB300\uAE30\uB97C \uCDE8\uC18C\uD560\uAE4C\uC694?",
+  overCapacityConfirm: "\uC815\uC6D0\uC744 \uB118\uACA8 \uB4F1\uB85D\uD560\uAE4C\uC694?",
+} as const
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+
+import { formatWaitlistSlot, groupWaitlistByClass, normalizeWaitlistEntries } from "./waitlistModel"
+
+const entries = normalizeWaitlistEntries([
+  { id: "w3", studentName: "C", course: "SAT", courseId: "sat", timeOption: "오전", courseType: "", position: 2, createdAt: "2026-03-03" },
+  { id: "w1", studentName: "A", course: "SAT", courseId: "sat", timeOption: "오전", courseType: "", position: 1, createdAt: "2026-03-01" },
+  { id: "w2", studentName: "B", course: "SAT", courseId: "sat", timeOption: "오후", courseType: "온라인", position: 1, createdAt: "2026-03-02" },
+  { id: "w4", studentName: "D", course: "TOEFL", courseId: "toefl", position: 1, createdAt: "2026-03-04" },
+  { studentName: "no id" },
+  null,
+])
+
+describe("waitlistModel", () => {
+  it("drops rows without an id", () => {
+    expect(entries.map((entry) => entry.id)).toEqual(["w3", "w1", "w2", "w4"])
+  })
+
+  it("groups by class and orders by position", () => {
+    const groups = groupWaitlistByClass(entries)
+    expect(groups.map((group) => [group.course, group.slotLabel])).toEqual([
+      ["SAT", "오전"],
+      ["SAT", "오후 · 온라인"],
+      ["TOEFL", ""],
+    ])
+    expect(groups[0].entries.map((entry) => entry.studentName)).toEqual(["A", "C"])
+  })
+
+  it("keeps only the filtered course", () => {
+    expect(groupWaitlistByClass(entries, "__courseid__toefl").map((group) => group.course)).toEqual(["TOEFL"])
+  })
+
+  it("ignores merge filters", () => {
+    expect(groupWaitlistByClass(entries, "__merge__1")).toHaveLength(3)
+  })
+
+  it("formats the class slot label", () => {
+    expect(formatWaitlistSlot({ timeOption: "", courseType: "오프라인" })).toBe("오프라인")
+  })
+})
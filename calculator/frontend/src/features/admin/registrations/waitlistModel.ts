@@ -0,0 +1,81 @@
+export type WaitlistEntry = {
+  id: string
+  studentName: string
+  course: string
+  courseId: string
+  courseType: string
+  timeOption: string
+  position: number | null
+  memo: string
+  createdAt: string
+}
+
+export type WaitlistCourseGroup = {
+  key: string
+  course: string
+  slotLabel: string
+  entries: WaitlistEntry[]
+}
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+export function normalizeWaitlistEntries(rows: unknown): WaitlistEntry[] {
+  if (!Array.isArray(rows)) return []
+  return rows
+    .filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null)
+    .map((row) => ({
+      id: toText(row.id),
+      studentName: toText(row.studentName),
+      course: toText(row.course),
+      courseId: toText(row.courseId),
+      courseType: toText(row.courseType),
+      timeOption: toText(row.timeOption),
+      position: Number.isFinite(Number(row.position)) && row.position !== null ? Number(row.position) : null,
+      memo: toText(row.memo),
+      createdAt: toText(row.createdAt),
+    }))
+    .filter((row) => row.id)
+}
+
+/** "오전 · 오프라인"처럼 반을 나누는 선택지만 보여 준다 */
+export function formatWaitlistSlot(entry: Pick<WaitlistEntry, "timeOption" | "courseType">) {
+  return [entry.timeOption, entry.courseType].filter(Boolean).join(" · ")
+}
+
+/** 사이드바 과목 필터(getCourseKey 형식)에 맞는 대기 항목인지. 합반 필터는 걸러 내지 않는다. */
+export function matchesWaitlistCourseFilter(entry: WaitlistEntry, courseFilter: string) {
+  if (!courseFilter || courseFilter.startsWith("__merge__")) return true
+  return (
+    courseFilter === `__courseid__${entry.courseId}` ||
+    courseFilter === `__coursename__${entry.course}`
+  )
+}
+
+/**
+ * 반(과목·시간·수업 형태)별로 묶고 순번대로 정렬한다.
+ * courseFilter가 있으면 그 과목만 남긴다.
+ */
+export function groupWaitlistByClass(entries: WaitlistEntry[], courseFilter = "") {
+  const groups = new Map<string, WaitlistCourseGroup>()
+  for (const entry of entries) {
+    if (!matchesWaitlistCourseFilter(entry, courseFilter)) continue
+    const key = [entry.courseId, entry.timeOption, entry.courseType].join("|")
+    if (!groups.has(key)) {
+      groups.set(key, {
+        key,
+        course: entry.course || entry.courseId,
+        slotLabel: formatWaitlistSlot(entry),
+        entries: [],
+      })
+    }
+    groups.get(key)!.entries.push(entry)
+  }
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    entries: [...group.entries].sort(
+      (a, b) => (a.position ?? Infinity) - (b.position ?? Infinity) || a.createdAt.localeCompare(b.createdAt)
+    ),
+  }))
+}
@@ -12,6 +12,28 @@ export const WITHDRAW_COPY = {
   dateRequired: "\uD1F4\uC6D0\uC77C\uC744 \uC120\uD0DD\uD574 \uC8FC\uC138\uC694.",
   targetMissing: "\uD1F4\uC6D0 \uB300\uC0C1\uC744 \uD655\uC778\uD574 \uC8FC\uC138\uC694.",
   anonymousStudent: "\uC774 \uD559\uC0DD",
+  refundTitle: "\uD658\uBD88 \uACC4\uC0B0 (\uD559\uC6D0\uBC95)",
+  refundLoading: "\uC218\uB0A9 \uB0B4\uC5ED\uC744 \uBD88\uB7EC\uC624\uB294 \uC911...",
+  refundNoFee: "\uC218\uAC15\uB8CC \uC815\uBCF4\uAC00 \uC5C6\uC5B4 \uD658\uBD88\uC744 \uACC4\uC0B0\uD558\uC9C0 \uC54A\uC2B5\uB2C8\uB2E4.",
+  refundLoadFailed: "\uC218\uB0A9 \uB0B4\uC5ED\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD574 \uC218\uB0A9\uC561 0\uC6D0 \uAE30\uC900\uC73C\uB85C \uACC4\uC0B0\uD588\uC2B5\uB2C8\uB2E4.",
+  refundTotalFee: "\uCD1D \uC218\uAC15\uB8CC",
+  refundRefundable: "\uBC18\uD658 \uB300\uC0C1",
+  refundRetainedFee: "\uD655\uC815 \uC218\uAC15\uB8CC",
+  refundPaid: "\uC218\uB0A9\uC561",
+  refundAmount: "\uD658\uBD88\uC561",
+  refundOutstanding: "\uCD94\uAC00 \uB0A9\uBD80",
+  refundSessions: "\uD68C \uC911",
+  refundHeld: "\uD68C \uACBD\uACFC",
+  refundBaseLabel: "\uB4F1\uB85D",
+  refundExtensionLabel: "\uC5F0\uC7A5",
+  refundMonthLabel: "\uAC1C\uC6D4\uCC28",
+  refundReasonPrefix: "\uD559\uC6D0\uBC95 \uD658\uBD88",
+  refundRuleLabels: {
+    unstarted: "\uAD50\uC2B5 \uC2DC\uC791 \uC804 \u00B7 \uC804\uC561",
+    two_thirds: "1/3 \uACBD\uACFC \uC804 \u00B7 2/3 \uBC18\uD658",
+    half: "1/2 \uACBD\uACFC \uC804 \u00B7 1/2 \uBC18\uD658",
+    none: "1/2 \uACBD\uACFC \uD6C4 \u00B7 \uBC18\uD658 \uC5C6\uC74C",
+  },
 } as const
 
 export function buildRestoreConfirmMessage(name: string) {
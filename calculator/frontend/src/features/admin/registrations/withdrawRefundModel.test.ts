@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildRefundPayload,
+  buildRegistrationSessions,
+  calculateWithdrawalRefund,
+  getRefundRule,
+  type RefundRegistrationInput,
+} from "./withdrawRefundModel"
+import { WITHDRAW_COPY } from "./withdrawCopy"
+
+// 2026-03-02 (월) 시작, 월/수 수업, 수요일 종료
+const baseRegistration: RefundRegistrationInput = {
+  startDate: "2026-03-02",
+  weeks: 4,
+  courseDays: [1, 3],
+  courseEndDay: 3,
+  tuitionFee: 400000,
+}
+
+describe("withdrawRefundModel", () => {
+  it("maps the elapsed ratio to the statutory refund rule", () => {
+    expect(getRefundRule(0)).toBe("unstarted")
+    expect(getRefundRule(0.25)).toBe("two_thirds")
+    expect(getRefundRule(0.4)).toBe("half")
+    expect(getRefundRule(0.5)).toBe("none")
+  })
+
+  it("lists class days from the schedule and shifts past break weeks", () => {
+    expect(buildRegistrationSessions(baseRegistration)).toHaveLength(8)
+
+    const sessions = buildRegistrationSessions({
+      ...baseRegistration,
+      breakRanges: [{ startDate: "2026-03-09", endDate: "2026-03-15" }],
+    })
+    expect(sessions).toHaveLength(8)
+    expect(sessions.map((session) => session.date)).not.toContain("2026-03-09")
+    expect(sessions[sessions.length - 1].date).toBe("2026-04-01")
+    expect(new Set(sessions.map((session) => session.month))).toEqual(new Set([0]))
+  })
+
+  it("refunds everything before the course starts", () => {
+    const result = calculateWithdrawalRefund({
+      registration: baseRegistration,
+      paidAmount: 400000,
+      withdrawDate: "2026-03-01",
+    })
+    expect(result?.refundAmount).toBe(400000)
+    expect(result?.retainedFee).toBe(0)
+  })
+
+  it("applies the 2/3, 1/2 and no-refund brackets within a month", () => {
+    const refundAt = (withdrawDate: string) =>
+      calculateWithdrawalRefund({ registration: baseRegistration, paidAmount: 400000, withdrawDate })
+        ?.refundAmount
+    expect(refundAt("2026-03-09")).toBe(266667)
+    expect(refundAt("2026-03-11")).toBe(200000)
+    expect(refundAt("2026-03-16")).toBe(0)
+  })
+
+  it("refunds the remaining months in full for longer courses", () => {
+    const result = calculateWithdrawalRefund({
+      registration: { ...baseRegistration, weeks: 8, tuitionFee: 800000 },
+      paidAmount: 800000,
+      withdrawDate: "2026-03-09",
+    })
+    expect(result?.lines.map((line) => line.rule)).toEqual(["two_thirds", "unstarted"])
+    expect(result?.refundAmount).toBe(666667)
+  })
+
+  it("weights recording days at the recording price", () => {
+    const result = calculateWithdrawalRefund({
+      registration: { ...baseRegistration, recordingDates: ["2026-03-02", "2026-03-04"] },
+      paidAmount: 400000,
+      withdrawDate: "2026-03-11",
+    })
+    expect(result?.lines[0].rule).toBe("two_thirds")
+  })
+
+  it("splits extensions by start date and keeps unpaid fees as outstanding", () => {
+    const input = {
+      registration: { ...baseRegistration, weeks: 8 },
+      extensions: [{ id: "e1", startDate: "2026-03-30", weeks: 4, tuitionFee: 400000 }],
+      withdrawDate: "2026-04-06",
+    }
+    const paidInFull = calculateWithdrawalRefund({ ...input, paidAmount: 800000 })
+    expect(paidInFull?.lines.map((line) => line.rule)).toEqual(["none", "two_thirds"])
+    expect(paidInFull?.lines.map((line) => line.label)).toEqual([
+      WITHDRAW_COPY.refundBaseLabel,
+      `${WITHDRAW_COPY.refundExtensionLabel} 1`,
+    ])
+    expect(paidInFull?.retainedFee).toBe(533333)
+    expect(paidInFull?.refundAmount).toBe(266667)
+
+    const partlyPaid = calculateWithdrawalRefund({ ...input, paidAmount: 500000 })
+    expect(partlyPaid?.refundAmount).toBe(0)
+    expect(partlyPaid?.outstandingAmount).toBe(33333)
+  })
+
+  it("skips the refund when there is no fee", () => {
+    expect(
+      calculateWithdrawalRefund({
+        registration: { ...baseRegistration, tuitionFee: null },
+        paidAmount: 0,
+        withdrawDate: "2026-03-09",
+      })
+    ).toBeNull()
+    expect(buildRefundPayload(null, "2026-03-09")).toBeNull()
+  })
+})
@@ -0,0 +1,76 @@
+import {
+  calculateWithdrawalRefund as calculateRefundData,
+  type RefundBreakdownData,
+  type RefundExtensionInput,
+  type RefundLineData,
+  type RefundRegistrationInput,
+  type RefundRule,
+} from "@shared/withdrawalRefund"
+
+import { WITHDRAW_COPY } from "./withdrawCopy"
+
+export {
+  buildRegistrationSessions,
+  getRefundRule,
+  RECORDING_SESSION_WEIGHT,
+  REFUND_MONTH_DAYS,
+  REFUND_MONTH_WEEKS,
+} from "@shared/withdrawalRefund"
+export type {
+  RefundExtensionInput,
+  RefundRegistrationInput,
+  RefundRule,
+  RefundSession,
+} from "@shared/withdrawalRefund"
+
+export type RefundLine = RefundLineData & { label: string }
+
+export type RefundBreakdown = RefundBreakdownData<RefundLine>
+
+/** "등록", "연장 1", 여러 달이면 "등록 2개월차" */
+function getRefundLineLabel(line: RefundLineData) {
+  const segmentLabel = line.segmentIndex
+    ? `${WITHDRAW_COPY.refundExtensionLabel} ${line.segmentIndex}`
+    : WITHDRAW_COPY.refundBaseLabel
+  return line.monthNumber ? `${segmentLabel} ${line.monthNumber}${WITHDRAW_COPY.refundMonthLabel}` : segmentLabel
+}
+
+/**
+ * 퇴원일 기준 학원법 환불액. 계산은 백엔드 퇴원 저장 검증과 같은 @shared/withdrawalRefund를 쓴다.
+ */
+export function calculateWithdrawalRefund(input: {
+  registration: RefundRegistrationInput | null
+  extensions?: RefundExtensionInput[]
+  paidAmount: number
+  withdrawDate: string
+}): RefundBreakdown | null {
+  const breakdown = calculateRefundData(input)
+  if (!breakdown) return null
+  return {
+    ...breakdown,
+    lines: breakdown.lines.map((line) => ({ ...line, label: getRefundLineLabel(line) })),
+  }
+}
+
+export function getRefundRuleLabel(rule: RefundRule) {
+  return WITHDRAW_COPY.refundRuleLabels[rule]
+}
+
+export function buildRefundReason(breakdown: RefundBreakdown, withdrawDate: string) {
+  const details = breakdown.lines
+    .filter((line) => line.rule !== "none" || line.heldCount < line.sessionCount)
+    .map(
+      (line) =>
+        `${line.label} ${line.sessionCount}${WITHDRAW_COPY.refundSessions} ${line.heldCount}${WITHDRAW_COPY.refundHeld}(${getRefundRuleLabel(line.rule)})`
+    )
+  return [`${WITHDRAW_COPY.refundReasonPrefix} ${withdrawDate}`, ...details].join(" / ")
+}
+
+export function buildRefundPayload(breakdown: RefundBreakdown | null, withdrawDate: string) {
+  if (!breakdown) return null
+  return {
+    refundAmount: breakdown.refundAmount,
+    retainedFee: breakdown.retainedFee,
+    reason: buildRefundReason(breakdown, withdrawDate),
+  }
+}
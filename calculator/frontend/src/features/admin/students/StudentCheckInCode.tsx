@@ -0,0 +1,94 @@
+import { useMemo, useState } from "react"
+
+import { Download, QrCode } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { saveBlobAsFile } from "@/utils/invoiceUtils"
+import { buildQrSvg, buildQrSvgPath, encodeQrCode } from "@/utils/qrCode"
+
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import {
+  buildCheckInQrFileName,
+  normalizeStudentCheckInCode,
+  type StudentCheckInCode as CheckInCode,
+} from "./studentProfileModel"
+
+type StudentCheckInCodeProps = {
+  studentId: string
+  studentName: string
+  code: CheckInCode | null
+  canManage: boolean
+  onChange: (code: CheckInCode | null) => void
+}
+
+const QR_MARGIN = 4
+
+export default function StudentCheckInCode({ studentId, studentName, code, canManage, onChange }: StudentCheckInCodeProps) {
+  const [issuing, setIssuing] = useState(false)
+  const [error, setError] = useState("")
+  const matrix = useMemo(() => (code ? encodeQrCode(code.qrPayload) : null), [code])
+  const viewSize = matrix ? matrix.size + QR_MARGIN * 2 : 0
+
+  async function handleIssue() {
+    if (code && !window.confirm(COPY.reissueConfirm)) return
+    setIssuing(true)
+    setError("")
+    try {
+      const res = await apiClient.issueStudentCheckInCode(studentId)
+      onChange(normalizeStudentCheckInCode(res?.checkInCode))
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.checkInCodeFailed)
+    } finally {
+      setIssuing(false)
+    }
+  }
+
+  function handleDownload() {
+    if (!matrix) return
+    saveBlobAsFile(new Blob([buildQrSvg(matrix)], { type: "image/svg+xml" }), buildCheckInQrFileName(studentName))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{COPY.checkInCode}</Label>
+        {canManage ? (
+          <Button type="button" variant="outline" size="sm" onClick={handleIssue} disabled={issuing}>
+            <QrCode className="mr-1 h-3.5 w-3.5" />
+            {code ? COPY.reissueCheckInCode : COPY.issueCheckInCode}
+          </Button>
+        ) : null}
+      </div>
+      {code && matrix ? (
+        <div className="flex items-center gap-4 rounded-lg border border-border/60 p-3">
+          <svg
+            viewBox={`0 0 ${viewSize} ${viewSize}`}
+            className="h-28 w-28 shrink-0"
+            shapeRendering="crispEdges"
+            role="img"
+            aria-label={COPY.checkInCode}
+          >
+            <rect width={viewSize} height={viewSize} fill="#fff" />
+            <path d={buildQrSvgPath(matrix, QR_MARGIN)} fill="#000" />
+          </svg>
+          <div className="space-y-2">
+            <div>
+              <div className="text-xs text-muted-foreground">{COPY.checkInPin}</div>
+              <div className="font-mono text-2xl font-semibold tracking-[0.3em]">{code.pin}</div>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={handleDownload}>
+              <Download className="mr-1 h-3.5 w-3.5" />
+              {COPY.downloadQr}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">{COPY.checkInCodeEmpty}</div>
+      )}
+      <p className="text-xs text-muted-foreground">{COPY.checkInCodeHelp}</p>
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+    </div>
+  )
+}
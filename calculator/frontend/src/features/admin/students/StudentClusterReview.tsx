@@ -0,0 +1,158 @@
+import { useState } from "react"
+
+import { AlertTriangle, RefreshCw } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import {
+  formatStudentMeta,
+  getDefaultClusterSelection,
+  type StudentClusterView,
+} from "./studentProfileModel"
+import { useStudentClusters } from "./useStudentClusters"
+
+type ClusterCardProps = {
+  cluster: StudentClusterView
+  busy: boolean
+  onConfirmNew: (registrationIds: string[]) => Promise<boolean>
+  onLink: (studentId: string, registrationIds: string[]) => Promise<boolean>
+}
+
+function ClusterCard({ cluster, busy, onConfirmNew, onLink }: ClusterCardProps) {
+  const [selected, setSelected] = useState<string[]>(() => getDefaultClusterSelection(cluster))
+  const [error, setError] = useState("")
+  const conflicts = new Set(cluster.conflictIds)
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((value) => value !== id)))
+
+  const run = async (action: (ids: string[]) => Promise<boolean>) => {
+    if (!selected.length) {
+      setError(COPY.selectionRequired)
+      return
+    }
+    setError("")
+    await action(selected)
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-border/60 bg-card p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-base font-semibold">{cluster.name}</span>
+        <span className="text-xs text-muted-foreground">
+          {selected.length}/{cluster.registrations.length}
+          {COPY.selectedSuffix}
+        </span>
+        {cluster.needsReview ? (
+          <Badge variant="outline" className="border-amber-300 text-amber-700">
+            {COPY.needsReview}
+          </Badge>
+        ) : null}
+      </div>
+      {cluster.needsReview ? (
+        <div className="flex items-center gap-1.5 text-xs text-amber-700">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          {COPY.conflictHint}
+        </div>
+      ) : null}
+
+      <div className="divide-y rounded-lg border border-border/60 text-xs">
+        {cluster.registrations.map((row) => (
+          <label
+            key={row.id}
+            className={`flex cursor-pointer items-center gap-3 px-3 py-2 ${conflicts.has(row.id) ? "bg-amber-50" : ""}`}
+          >
+            <Checkbox
+              checked={selected.includes(row.id)}
+              onCheckedChange={(checked: boolean) => toggle(row.id, checked === true)}
+            />
+            <div className="min-w-0 flex-1">
+              <div className="truncate font-medium">{row.course}</div>
+              <div className="text-muted-foreground">
+                {row.courseConfigSetName} · {row.startDate} ~ {row.endDate}
+                {row.withdrawnAt ? ` · ${COPY.withdrawn} ${row.withdrawnAt}` : ""}
+              </div>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" size="sm" disabled={busy} onClick={() => run(onConfirmNew)}>
+          {COPY.createFromCluster}
+        </Button>
+        {cluster.candidates.map((candidate) => {
+          const meta = formatStudentMeta(candidate)
+          return (
+            <Button
+              key={candidate.id}
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              title={COPY.linkTo}
+              onClick={() => run((ids) => onLink(candidate.id, ids))}
+            >
+              {candidate.name}
+              {meta ? ` (${meta})` : ""} · {candidate.registrationCount}
+              {COPY.registrationCountSuffix}
+            </Button>
+          )
+        })}
+      </div>
+      {error ? <div className="text-xs text-destructive">{error}</div> : null}
+    </div>
+  )
+}
+
+export default function StudentClusterReview({
+  isActive,
+  onChanged,
+}: {
+  isActive: boolean
+  onChanged: () => void | Promise<void>
+}) {
+  const { clusters, truncated, loading, error, busyKey, reload, confirmAsNewStudent, linkToStudent } =
+    useStudentClusters({ enabled: isActive })
+
+  const afterChange = async (ok: boolean) => {
+    if (ok) await onChanged()
+    return ok
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <p className="text-sm text-muted-foreground">{COPY.clustersDesc}</p>
+        <Button type="button" variant="outline" size="sm" onClick={() => reload()} disabled={loading}>
+          <RefreshCw className="mr-1 h-3.5 w-3.5" />
+          {COPY.reload}
+        </Button>
+      </div>
+      {truncated ? <div className="text-xs text-amber-700">{COPY.clustersTruncated}</div> : null}
+      {error ? (
+        <div className="rounded-xl border border-destructive/20 bg-destructive/10 px-4 py-3 text-sm font-medium text-destructive">
+          {error}
+        </div>
+      ) : null}
+      {loading && clusters.length === 0 ? (
+        <div className="text-sm text-muted-foreground">{COPY.loading}</div>
+      ) : clusters.length === 0 ? (
+        <div className="text-sm text-muted-foreground">{COPY.clustersEmpty}</div>
+      ) : (
+        clusters.map((cluster) => (
+          <ClusterCard
+            key={`${cluster.key}:${cluster.registrations.map((row) => row.id).join(",")}`}
+            cluster={cluster}
+            busy={busyKey === cluster.key}
+            onConfirmNew={async (ids) => afterChange(await confirmAsNewStudent(cluster, ids))}
+            onLink={async (studentId, ids) => afterChange(await linkToStudent(cluster, studentId, ids))}
+          />
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+import { useEffect, useState } from "react"
+
+import { MessageSquare, Plus, X } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { useAuth } from "@/auth-context"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import NotificationComposeDialog from "@/features/admin/notifications/NotificationComposeDialog"
+import NotificationHistory from "@/features/admin/notifications/NotificationHistory"
+import { NOTIFICATION_COPY } from "@/features/admin/notifications/notificationCopy"
+import { hasPermission, PERMISSION_KEYS } from "@/permissions"
+
+import StudentCheckInCode from "./StudentCheckInCode"
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import {
+  MAX_GUARDIANS,
+  buildStudentProfilePayload,
+  createEmptyStudentForm,
+  normalizeStudentCheckInCode,
+  toStudentForm,
+  type StudentCheckInCode as CheckInCode,
+  type StudentGuardian,
+  type StudentProfile,
+  type StudentProfileForm,
+} from "./studentProfileModel"
+
+type LinkedRegistration = {
+  id: string
+  course: string
+  courseConfigSetName: string
+  startDate: string
+  endDate: string
+  withdrawnAt: string
+}
+
+type StudentProfileDialogProps = {
+  open: boolean
+  profile: StudentProfile | null
+  onClose: () => void
+  onSaved: () => void | Promise<void>
+}
+
+function normalizeLinkedRegistrations(rows: unknown): LinkedRegistration[] {
+  if (!Array.isArray(rows)) return []
+  return rows
+    .filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null)
+    .map((row) => ({
+      id: String(row.id ?? ""),
+      course: String(row.course ?? ""),
+      courseConfigSetName: String(row.courseConfigSetName ?? ""),
+      startDate: String(row.startDate ?? ""),
+      endDate: String(row.endDate ?? ""),
+      withdrawnAt: String(row.withdrawnAt ?? ""),
+    }))
+    .filter((row) => row.id)
+}
+
+export default function StudentProfileDialog({ open, profile, onClose, onSaved }: StudentProfileDialogProps) {
+  const [form, setForm] = useState<StudentProfileForm>(createEmptyStudentForm())
+  const [registrations, setRegistrations] = useState<LinkedRegistration[]>([])
+  const [checkInCode, setCheckInCode] = useState<CheckInCode | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState("")
+  const [composeOpen, setComposeOpen] = useState(false)
+  const [historyKey, setHistoryKey] = useState(0)
+  const { user } = useAuth()
+  const canSendNotifications = hasPermission(user, PERMISSION_KEYS.buttons.notifications)
+  const canManageCheckIn = hasPermission(user, PERMISSION_KEYS.tabs.attendance)
+
+  const profileId = profile?.id || ""
+
+  useEffect(() => {
+    if (!open) return
+    setForm(profile ? toStudentForm(profile) : createEmptyStudentForm())
+    setRegistrations([])
+    setCheckInCode(null)
+    setError("")
+    if (!profileId) return
+    let cancelled = false
+    apiClient
+      .getStudentProfile(profileId)
+      .then((res) => {
+        if (cancelled) return
+        setRegistrations(normalizeLinkedRegistrations(res?.registrations))
+        setCheckInCode(normalizeStudentCheckInCode(res?.checkInCode))
+      })
+      .catch(() => {
+        if (!cancelled) setRegistrations([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, profile, profileId])
+
+  const setField = (field: keyof Omit<StudentProfileForm, "guardians">, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }))
+
+  const setGuardian = (index: number, field: keyof StudentGuardian, value: string) =>
+    setForm((prev) => ({
+      ...prev,
+      guardians: prev.guardians.map((guardian, i) => (i === index ? { ...guardian, [field]: value } : guardian)),
+    }))
+
+  const addGuardian = () =>
+    setForm((prev) => ({
+      ...prev,
+      guardians: [...prev.guardians, { name: "", relation: "", phone: "" }].slice(0, MAX_GUARDIANS),
+    }))
+
+  const removeGuardian = (index: number) =>
+    setForm((prev) => ({ ...prev, guardians: prev.guardians.filter((_, i) => i !== index) }))
+
+  async function handleSave() {
+    const payload = buildStudentProfilePayload(form)
+    if (!payload.name) {
+      setError(COPY.nameRequired)
+      return
+    }
+    setSaving(true)
+    setError("")
+    try {
+      if (profileId) {
+        await apiClient.updateStudentProfile(profileId, payload)
+      } else {
+        await apiClient.createStudentProfile(payload)
+      }
+      await onSaved()
+      onClose()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleUnlink(registrationId: string) {
+    if (!profileId || !window.confirm(COPY.unlinkConfirm)) return
+    try {
+      await apiClient.unlinkStudentRegistration(profileId, registrationId)
+      setRegistrations((prev) => prev.filter((row) => row.id !== registrationId))
+      await onSaved()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (!next ? onClose() : null)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{profileId ? COPY.dialogEdit : COPY.dialogCreate}</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label>{COPY.name}</Label>
+              <Input value={form.name} onChange={(e) => setField("name", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{COPY.school}</Label>
+              <Input value={form.school} onChange={(e) => setField("school", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>{COPY.grade}</Label>
+              <Input value={form.grade} onChange={(e) => setField("grade", e.target.value)} />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label>{COPY.phone}</Label>
+              <Input value={form.phone} onChange={(e) => setField("phone", e.target.value)} inputMode="tel" />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{COPY.guardians}</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addGuardian}
+                disabled={form.guardians.length >= MAX_GUARDIANS}
+              >
+                <Plus className="mr-1 h-3.5 w-3.5" />
+                {COPY.addGuardian}
+              </Button>
+            </div>
+            {form.guardians.map((guardian, index) => (
+              <div key={index} className="grid grid-cols-[1fr_5rem_1fr_auto] items-center gap-2">
+                <Input
+                  value={guardian.name}
+                  placeholder={COPY.guardianName}
+                  onChange={(e) => setGuardian(index, "name", e.target.value)}
+                />
+                <Input
+                  value={guardian.relation}
+                  placeholder={COPY.guardianRelation}
+                  onChange={(e) => setGuardian(index, "relation", e.target.value)}
+                />
+                <Input
+                  value={guardian.phone}
+                  placeholder={COPY.guardianPhone}
+                  inputMode="tel"
+                  onChange={(e) => setGuardian(index, "phone", e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={COPY.removeGuardian}
+                  onClick={() => removeGuardian(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label>{COPY.memo}</Label>
+            <Textarea value={form.memo} onChange={(e) => setField("memo", e.target.value)} rows={3} />
+          </div>
+
+          {profileId ? (
+            <div className="space-y-2">
+              <Label>{COPY.registrations}</Label>
+              {registrations.length === 0 ? (
+                <div className="text-xs text-muted-foreground">{COPY.registrationsEmpty}</div>
+              ) : (
+                <div className="divide-y rounded-lg border border-border/60 text-xs">
+                  {registrations.map((row) => (
+                    <div key={row.id} className="flex items-center gap-2 px-3 py-2">
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium">{row.course}</div>
+                        <div className="text-muted-foreground">
+                          {row.courseConfigSetName} · {row.startDate} ~ {row.endDate}
+                          {row.withdrawnAt ? ` · ${COPY.withdrawn} ${row.withdrawnAt}` : ""}
+                        </div>
+                      </div>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleUnlink(row.id)}>
+                        {COPY.unlink}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : null}
+
+          {profileId ? (
+            <StudentCheckInCode
+              studentId={profileId}
+              studentName={profile?.name || ""}
+              code={checkInCode}
+              canManage={canManageCheckIn}
+              onChange={setCheckInCode}
+            />
+          ) : null}
+
+          {profileId ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{NOTIFICATION_COPY.historyTitle}</Label>
+                {canSendNotifications ? (
+                  <Button type="button" variant="outline" size="sm" onClick={() => setComposeOpen(true)}>
+                    <MessageSquare className="mr-1 h-3.5 w-3.5" />
+                    {NOTIFICATION_COPY.openCompose}
+                  </Button>
+                ) : null}
+              </div>
+              <NotificationHistory studentId={profileId} reloadKey={historyKey} />
+            </div>
+          ) : null}
+
+          {error ? <div className="text-sm text-destructive">{error}</div> : null}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={saving}>
+            {COPY.cancel}
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saving}>
+            {COPY.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+
+      {profileId ? (
+        <NotificationComposeDialog
+          open={composeOpen}
+          onOpenChange={setComposeOpen}
+          kind="custom"
+          initialBody=""
+          studentName={profile?.name || ""}
+          studentId={profileId}
+          onSent={() => setHistoryKey((prev) => prev + 1)}
+        />
+      ) : null}
+    </Dialog>
+  )
+}
@@ -0,0 +1,137 @@
+import { useState } from "react"
+
+import { Pencil, Plus, Search, Trash2, UserRound } from "lucide-react"
+
+import { apiClient } from "@/api-client"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+
+import StudentClusterReview from "./StudentClusterReview"
+import StudentProfileDialog from "./StudentProfileDialog"
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import { formatGuardianSummary, formatStudentMeta, type StudentProfile } from "./studentProfileModel"
+import { useStudentProfiles } from "./useStudentProfiles"
+
+export default function StudentsTab({ isActive }: { isActive: boolean }) {
+  const { searchTerm, setSearchTerm, profiles, loading, error, setError, reload } = useStudentProfiles()
+  const [view, setView] = useState("list")
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editProfile, setEditProfile] = useState<StudentProfile | null>(null)
+
+  const openDialog = (profile: StudentProfile | null) => {
+    setEditProfile(profile)
+    setDialogOpen(true)
+  }
+
+  async function handleDelete(profile: StudentProfile) {
+    if (!window.confirm(COPY.deleteConfirm)) return
+    try {
+      await apiClient.deleteStudentProfile(profile.id)
+      await reload()
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.deleteFailed)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="relative overflow-hidden rounded-3xl border border-white/20 bg-gradient-to-br from-emerald-500/10 via-teal-500/10 to-sky-400/10 p-6 shadow-lg shadow-black/5 backdrop-blur-xl">
+        <div className="relative flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-gradient-to-br from-emerald-500 to-teal-500 shadow-lg shadow-emerald-500/25">
+            <UserRound className="h-6 w-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold tracking-tight text-slate-900">{COPY.title}</h2>
+            <p className="text-sm text-slate-600">{COPY.subtitle}</p>
+          </div>
+        </div>
+      </div>
+
+      <Tabs value={view} onValueChange={setView}>
+        <TabsList>
+          <TabsTrigger value="list">{COPY.listTab}</TabsTrigger>
+          <TabsTrigger value="clusters">{COPY.clustersTab}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="list" className="space-y-4">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder={COPY.searchPlaceholder}
+                className="pl-9"
+              />
+            </div>
+            <Button type="button" onClick={() => openDialog(null)}>
+              <Plus className="mr-1 h-4 w-4" />
+              {COPY.add}
+            </Button>
+          </div>
+
+          {error ? (
+            <div className="rounded-xl border border-destructive/20 bg-destructive/10 px-4 py-3 text-sm font-medium text-destructive">
+              {error}
+            </div>
+          ) : null}
+
+          {loading && profiles.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{COPY.loading}</div>
+          ) : profiles.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{COPY.empty}</div>
+          ) : (
+            <div className="divide-y rounded-2xl border border-border/60 bg-card">
+              {profiles.map((profile) => {
+                const meta = formatStudentMeta(profile)
+                const guardian = formatGuardianSummary(profile.guardians)
+                return (
+                  <div key={profile.id} className="flex items-center gap-3 px-4 py-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{profile.name}</span>
+                        {meta ? <span className="text-xs text-muted-foreground">{meta}</span> : null}
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {[profile.phone, guardian].filter(Boolean).join(" · ")}
+                      </div>
+                    </div>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {profile.registrationCount}
+                      {COPY.registrationCountSuffix}
+                    </span>
+                    <Button type="button" variant="ghost" size="icon" aria-label={COPY.edit} onClick={() => openDialog(profile)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label={COPY.delete}
+                      disabled={profile.registrationCount > 0}
+                      onClick={() => handleDelete(profile)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="clusters">
+          <StudentClusterReview isActive={isActive && view === "clusters"} onChanged={reload} />
+        </TabsContent>
+      </Tabs>
+
+      <StudentProfileDialog
+        open={dialogOpen}
+        profile={editProfile}
+        onClose={() => setDialogOpen(false)}
+        onSaved={reload}
+      />
+    </div>
+  )
+}
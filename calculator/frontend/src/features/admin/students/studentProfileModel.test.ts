@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildCheckInQrFileName,
+  buildStudentProfilePayload,
+  createEmptyStudentForm,
+  formatGuardianSummary,
+  getDefaultClusterSelection,
+  normalizeStudentCheckInCode,
+  normalizeStudentClusters,
+  normalizeStudentProfiles,
+} from "./studentProfileModel"
+
+describe("studentProfileModel", () => {
+  it("normalizes profiles and drops rows without an id", () => {
+    const profiles = normalizeStudentProfiles([
+      { id: "s1", name: " 홍길동 ", school: "한빛고", guardians: [{ name: "김영희", relation: "어머니", phone: "010-1111-2222" }], registrationCount: 3 },
+      { name: "no id" },
+      null,
+    ])
+    expect(profiles).toHaveLength(1)
+    expect(profiles[0]).toMatchObject({ id: "s1", name: "홍길동", registrationCount: 3 })
+    expect(profiles[0].guardians[0].relation).toBe("어머니")
+  })
+
+  it("builds the payload without empty guardian rows", () => {
+    const payload = buildStudentProfilePayload({
+      ...createEmptyStudentForm(" 홍길동 "),
+      guardians: [
+        { name: "", relation: "아버지", phone: "" },
+        { name: "김영희", relation: "어머니", phone: " 010-1111-2222 " },
+      ],
+    })
+    expect(payload.name).toBe("홍길동")
+    expect(payload.guardians).toEqual([{ name: "김영희", relation: "어머니", phone: "010-1111-2222" }])
+  })
+
+  it("summarizes the first guardian", () => {
+    expect(formatGuardianSummary([])).toBe("")
+    expect(
+      formatGuardianSummary([
+        { name: "김영희", relation: "어머니", phone: "010-1111-2222" },
+        { name: "홍판서", relation: "아버지", phone: "010-3333-4444" },
+      ])
+    ).toBe("어머니 010-1111-2222 +1")
+  })
+
+  it("leaves conflicting registrations unselected by default", () => {
+    const [cluster] = normalizeStudentClusters([
+      {
+        key: "홍길동",
+        name: "홍길동",
+        registrations: [{ id: "r1" }, { id: "r2" }, { id: "r3" }],
+        conflictIds: ["r2", "r3"],
+        needsReview: true,
+        candidates: [{ id: "s1", name: "홍길동" }],
+      },
+    ])
+    expect(cluster.needsReview).toBe(true)
+    expect(cluster.candidates.map((candidate) => candidate.id)).toEqual(["s1"])
+    expect(getDefaultClusterSelection(cluster)).toEqual(["r1"])
+  })
+
+  it("normalizes check-in codes", () => {
+    expect(normalizeStudentCheckInCode({ pin: "012345", qrPayload: "CHECKIN:ABCDEFGH23456789" })).toEqual({
+      pin: "012345",
+      qrPayload: "CHECKIN:ABCDEFGH23456789",
+    })
+    expect(normalizeStudentCheckInCode(null)).toBeNull()
+    expect(normalizeStudentCheckInCode({ pin: "012345" })).toBeNull()
+    expect(buildCheckInQrFileName("홍/길동")).toBe("checkin-qr_홍_길동.svg")
+  })
+})
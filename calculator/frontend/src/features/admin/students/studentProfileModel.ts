@@ -0,0 +1,172 @@
+export type StudentGuardian = {
+  name: string
+  relation: string
+  phone: string
+}
+
+export type StudentProfile = {
+  id: string
+  name: string
+  school: string
+  grade: string
+  phone: string
+  memo: string
+  guardians: StudentGuardian[]
+  registrationCount: number
+}
+
+export type StudentProfileForm = Omit<StudentProfile, "id" | "registrationCount">
+
+export type ClusterRegistrationView = {
+  id: string
+  name: string
+  course: string
+  courseConfigSetName: string
+  startDate: string
+  endDate: string
+  withdrawnAt: string
+}
+
+export type StudentClusterView = {
+  key: string
+  name: string
+  registrations: ClusterRegistrationView[]
+  conflictIds: string[]
+  needsReview: boolean
+  candidates: StudentProfile[]
+}
+
+export const MAX_GUARDIANS = 5
+
+function toText(value: unknown) {
+  return String(value ?? "").trim()
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function normalizeGuardians(value: unknown): StudentGuardian[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(isRecord).map((guardian) => ({
+    name: toText(guardian.name),
+    relation: toText(guardian.relation),
+    phone: toText(guardian.phone),
+  }))
+}
+
+export function normalizeStudentProfile(row: unknown): StudentProfile | null {
+  if (!isRecord(row) || !toText(row.id)) return null
+  return {
+    id: toText(row.id),
+    name: toText(row.name),
+    school: toText(row.school),
+    grade: toText(row.grade),
+    phone: toText(row.phone),
+    memo: String(row.memo ?? ""),
+    guardians: normalizeGuardians(row.guardians),
+    registrationCount: Number(row.registrationCount) || 0,
+  }
+}
+
+export function normalizeStudentProfiles(rows: unknown): StudentProfile[] {
+  if (!Array.isArray(rows)) return []
+  return rows.map(normalizeStudentProfile).filter((row): row is StudentProfile => row !== null)
+}
+
+export function normalizeStudentClusters(rows: unknown): StudentClusterView[] {
+  if (!Array.isArray(rows)) return []
+  return rows.filter(isRecord).map((row) => ({
+    key: toText(row.key),
+    name: toText(row.name),
+    registrations: (Array.isArray(row.registrations) ? row.registrations : [])
+      .filter(isRecord)
+      .map((registration) => ({
+        id: toText(registration.id),
+        name: toText(registration.name),
+        course: toText(registration.course),
+        courseConfigSetName: toText(registration.courseConfigSetName),
+        startDate: toText(registration.startDate),
+        endDate: toText(registration.endDate),
+        withdrawnAt: toText(registration.withdrawnAt),
+      }))
+      .filter((registration) => registration.id),
+    conflictIds: Array.isArray(row.conflictIds) ? row.conflictIds.map(toText).filter(Boolean) : [],
+    needsReview: row.needsReview === true,
+    candidates: normalizeStudentProfiles(row.candidates),
+  }))
+}
+
+export function createEmptyStudentForm(name = ""): StudentProfileForm {
+  return { name, school: "", grade: "", phone: "", memo: "", guardians: [] }
+}
+
+export function toStudentForm(profile: StudentProfile): StudentProfileForm {
+  return {
+    name: profile.name,
+    school: profile.school,
+    grade: profile.grade,
+    phone: profile.phone,
+    memo: profile.memo,
+    guardians: profile.guardians.map((guardian) => ({ ...guardian })),
+  }
+}
+
+/** 저장 요청 본문. 이름과 연락처가 모두 빈 보호자 줄은 뺀다. */
+export function buildStudentProfilePayload(form: StudentProfileForm) {
+  return {
+    name: form.name.trim(),
+    school: form.school.trim(),
+    grade: form.grade.trim(),
+    phone: form.phone.trim(),
+    memo: form.memo.trim(),
+    guardians: form.guardians
+      .map((guardian) => ({
+        name: guardian.name.trim(),
+        relation: guardian.relation.trim(),
+        phone: guardian.phone.trim(),
+      }))
+      .filter((guardian) => guardian.name || guardian.phone)
+      .slice(0, MAX_GUARDIANS),
+  }
+}
+
+/** "어머니 010-1234-5678"처럼 첫 보호자만 짧게 보여 준다 */
+export function formatGuardianSummary(guardians: StudentGuardian[]) {
+  const first = guardians.find((guardian) => guardian.phone || guardian.name)
+  if (!first) return ""
+  const label = [first.relation || first.name, first.phone].filter(Boolean).join(" ")
+  return guardians.length > 1 ? `${label} +${guardians.length - 1}` : label
+}
+
+export function formatStudentMeta(profile: Pick<StudentProfile, "school" | "grade">) {
+  return [profile.school, profile.grade].filter(Boolean).join(" · ")
+}
+
+/**
+ * 묶음 확인용 기본 선택. 기간이 겹치는 등록은 동명이인일 수 있어 직접 고르도록 비워 둔다.
+ */
+export function getDefaultClusterSelection(cluster: StudentClusterView) {
+  const conflicts = new Set(cluster.conflictIds)
+  return cluster.registrations
+    .map((registration) => registration.id)
+    .filter((id) => !conflicts.has(id))
+}
+
+export type StudentCheckInCode = {
+  pin: string
+  qrPayload: string
+}
+
+export function normalizeStudentCheckInCode(value: unknown): StudentCheckInCode | null {
+  const raw = (value || {}) as Record<string, unknown>
+  const pin = String(raw.pin ?? "").trim()
+  const qrPayload = String(raw.qrPayload ?? "").trim()
+  return pin && qrPayload ? { pin, qrPayload } : null
+}
+
+/** 인쇄·저장용 파일 이름 */
+export function buildCheckInQrFileName(name: string) {
+  const safeName = name.trim().replace(/[\\/:*?"<>|]/g, "_")
+  return `checkin-qr_${safeName}.svg`
+}
@@ -0,0 +1,58 @@
+export const STUDENTS_COPY = {
+  title: "\uD559\uC0DD",
+  subtitle: "\uD559\uC0DD \uAE30\uBCF8 \uC815\uBCF4\uC640 \uBCF4\uD638\uC790 \uC5F0\uB77D\uCC98\uB97C \uAD00\uB9AC\uD569\uB2C8\uB2E4",
+  listTab: "\uD559\uC0DD \uBAA9\uB85D",
+  clustersTab: "\uB4F1\uB85D \uC815\uB9AC",
+  searchPlaceholder: "\uC774\uB984, \uD559\uAD50, \uC5F0\uB77D\uCC98 \uAC80\uC0C9",
+  add: "\uD559\uC0DD \uCD94\uAC00",
+  empty: "\uD559\uC0DD\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  loading: "\uBD88\uB7EC\uC624\uB294 \uC911...",
+  reload: "\uC0C8\uB85C\uACE0\uCE68",
+  edit: "\uC218\uC815",
+  delete: "\uC0AD\uC81C",
+  save: "\uC800\uC7A5",
+  cancel: "\uCDE8\uC18C",
+  dialogCreate: "\uD559\uC0DD \uCD94\uAC00",
+  dialogEdit: "\uD559\uC0DD \uC815\uBCF4 \uC218\uC815",
+  name: "\uC774\uB984",
+  school: "\uD559\uAD50",
+  grade: "\uD559\uB144",
+  phone: "\uD559\uC0DD \uC5F0\uB77D\uCC98",
+  memo: "\uBA54\uBAA8",
+  guardians: "\uBCF4\uD638\uC790",
+  guardianName: "\uBCF4\uD638\uC790 \uC774\uB984",
+  guardianRelation: "\uAD00\uACC4",
+  guardianPhone: "\uC5F0\uB77D\uCC98",
+  addGuardian: "\uBCF4\uD638\uC790 \uCD94\uAC00",
+  removeGuardian: "\uBE7C\uAE30",
+  registrationCountSuffix: "\uAC74 \uB4F1\uB85D",
+  registrations: "\uB4F1\uB85D \uC774\uB825",
+  registrationsEmpty: "\uC5F0\uACB0\uB41C \uB4F1\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  unlink: "\uC5F0\uACB0 \uD574\uC81C",
+  unlinkConfirm: "\uC774 \uB4F1\uB85D\uC744 \uD559\uC0DD\uC5D0\uC11C \uB5C4\uAE4C\uC694? \uB4F1\uB85D \uC815\uB9AC \uBAA9\uB85D\uC73C\uB85C \uB3CC\uC544\uAC11\uB2C8\uB2E4.",
+  withdrawn: "\uD1F4\uC6D0",
+  deleteConfirm: "\uD559\uC0DD\uC744 \uC0AD\uC81C\uD560\uAE4C\uC694?",
+  nameRequired: "\uD559\uC0DD \uC774\uB984\uC744 \uC785\uB825\uD574 \uC8FC\uC138\uC694.",
+  loadFailed: "\uD559\uC0DD \uBAA9\uB85D\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  saveFailed: "\uC800\uC7A5\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  deleteFailed: "\uC0AD\uC81C\uC5D0 \uC2E4\uD328\uD588\uC2B5\uB2C8\uB2E4.",
+  clustersDesc: "\uD559\uC0DD\uC5D0 \uC5F0\uACB0\uB418\uC9C0 \uC54A\uC740 \uB4F1\uB85D\uC744 \uC774\uB984\uBCC4\uB85C \uBB36\uC5C8\uC2B5\uB2C8\uB2E4. \uAC19\uC740 \uD559\uC0DD\uC758 \uB4F1\uB85D\uB9CC \uACE8\uB77C \uD655\uC778\uD558\uC138\uC694. \uC120\uD0DD\uD558\uC9C0 \uC54A\uC740 \uB4F1\uB85D\uC740 \uB0A8\uC544 \uC788\uC5B4 \uB530\uB85C \uC815\uB9AC\uD560 \uC218 \uC788\uC2B5\uB2C8\uB2E4.",
+  clustersEmpty: "\uC815\uB9AC\uD560 \uB4F1\uB85D\uC774 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  clustersLoadFailed: "\uB4F1\uB85D \uBB36\uC74C\uC744 \uBD88\uB7EC\uC624\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+  clustersTruncated: "\uB4F1\uB85D\uC774 \uB9CE\uC544 \uC77C\uBD80\uB9CC \uD45C\uC2DC\uD588\uC2B5\uB2C8\uB2E4. \uC815\uB9AC\uD55C \uB4A4 \uB2E4\uC2DC \uBD88\uB7EC\uC624\uC138\uC694.",
+  needsReview: "\uD655\uC778 \uD544\uC694",
+  conflictHint: "\uAC19\uC740 \uACFC\uBAA9 \uAE30\uAC04\uC774 \uACB9\uCE58\uB294 \uB4F1\uB85D\uC774 \uC788\uC2B5\uB2C8\uB2E4. \uB3D9\uBA85\uC774\uC778\uC778\uC9C0 \uD655\uC778\uD558\uC138\uC694.",
+  createFromCluster: "\uC0C8 \uD559\uC0DD\uC73C\uB85C \uD655\uC778",
+  linkTo: "\uAE30\uC874 \uD559\uC0DD\uC5D0 \uC5F0\uACB0",
+  selectedSuffix: "\uAC74 \uC120\uD0DD",
+  selectionRequired: "\uC5F0\uACB0\uD560 \uB4F1\uB85D\uC744 \uC120\uD0DD\uD574 \uC8FC\uC138\uC694.",
+  checkInCode: "\uCD9C\uC11D \uCCB4\uD06C\uC778 \uCF54\uB4DC",
+  checkInCodeHelp: "\uD0A4\uC624\uC2A4\uD06C\uC5D0\uC11C QR\uC744 \uC2A4\uCE94\uD558\uAC70\uB098 PIN\uC744 \uC785\uB825\uD558\uBA74 \uCD9C\uC11D\uC774 \uAE30\uB85D\uB429\uB2C8\uB2E4.",
+  checkInCodeEmpty: "\uBC1C\uAE09\uB41C \uCF54\uB4DC\uAC00 \uC5C6\uC2B5\uB2C8\uB2E4.",
+  issueCheckInCode: "\uCF54\uB4DC \uBC1C\uAE09",
+  reissueCheckInCode: "\uB2E4\uC2DC \uBC1C\uAE09",
+  reissueConfirm: "\uB2E4\uC2DC \uBC1C\uAE09\uD558\uBA74 \uC774\uC804 QR\uACFC PIN\uC740 \uC4F8 \uC218 \uC5C6\uC2B5\uB2C8\uB2E4. \uACC4\uC18D\uD560\uAE4C\uC694?",
+  downloadQr: "QR \uC800\uC7A5",
+  checkInPin: "PIN",
+  checkInCodeFailed: "\uCCB4\uD06C\uC778 \uCF54\uB4DC\uB97C \uBC1C\uAE09\uD558\uC9C0 \uBABB\uD588\uC2B5\uB2C8\uB2E4.",
+} as const
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import { normalizeStudentClusters, type StudentClusterView } from "./studentProfileModel"
+
+export function useStudentClusters({ enabled }: { enabled: boolean }) {
+  const [clusters, setClusters] = useState<StudentClusterView[]>([])
+  const [truncated, setTruncated] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [busyKey, setBusyKey] = useState("")
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await apiClient.listStudentClusters()
+      setClusters(normalizeStudentClusters(res?.results))
+      setTruncated(res?.truncated === true)
+      setError("")
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.clustersLoadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (enabled) void load()
+  }, [enabled, load])
+
+  const runAction = async (cluster: StudentClusterView, action: () => Promise<void>) => {
+    setBusyKey(cluster.key)
+    setError("")
+    try {
+      await action()
+      await load()
+      return true
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : COPY.saveFailed)
+      return false
+    } finally {
+      setBusyKey("")
+    }
+  }
+
+  /** 선택한 등록으로 새 학생을 만든다. 나머지 등록은 묶음에 남는다. */
+  const confirmAsNewStudent = (cluster: StudentClusterView, registrationIds: string[]) =>
+    runAction(cluster, async () => {
+      await apiClient.createStudentProfile({ name: cluster.name, registrationIds })
+    })
+
+  const linkToStudent = (cluster: StudentClusterView, studentId: string, registrationIds: string[]) =>
+    runAction(cluster, async () => {
+      await apiClient.linkStudentRegistrations(studentId, registrationIds)
+    })
+
+  return {
+    clusters,
+    truncated,
+    loading,
+    error,
+    busyKey,
+    reload: load,
+    confirmAsNewStudent,
+    linkToStudent,
+  }
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiClient } from "@/api-client"
+
+import { STUDENTS_COPY as COPY } from "./studentsCopy"
+import { normalizeStudentProfiles, type StudentProfile } from "./studentProfileModel"
+
+export function useStudentProfiles() {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [profiles, setProfiles] = useState<StudentProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const load = useCallback(async (term: string) => {
+    setLoading(true)
+    try {
+      const res = await apiClient.listStudentProfiles(term ? { searchTerm: term } : {})
+      setProfiles(normalizeStudentProfiles(res?.results))
+      setError("")
+    } catch (e: unknown) {
+      setProfiles([])
+      setError(e instanceof Error ? e.message : COPY.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      void load(searchTerm.trim())
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [load, searchTerm])
+
+  const reload = useCallback(() => load(searchTerm.trim()), [load, searchTerm])
+
+  return {
+    searchTerm,
+    setSearchTerm,
+    profiles,
+    loading,
+    error,
+    setError,
+    reload,
+  }
+}
@@ -12,8 +12,11 @@ const CoursesTab = React.lazy(() => import('../features/admin/courses/CoursesTab
 const SettingsTab = React.lazy(() => import('../features/admin/settings/SettingsTab'));
 const NotesTab = React.lazy(() => import('../features/admin/notes/NotesTab'));
 const RegistrationsTab = React.lazy(() => import('../features/admin/registrations/RegistrationsTab'));
+const StudentsTab = React.lazy(() => import('../features/admin/students/StudentsTab'));
 const NoticesTab = React.lazy(() => import('../features/admin/notices/NoticesTab'));
 const CalendarTab = React.lazy(() => import('../features/admin/calendar/CalendarTab'));
+const AuditLogTab = React.lazy(() => import('../features/admin/audit/AuditLogTab'));
+const AnalyticsTab = React.lazy(() => import('../features/admin/analytics/AnalyticsTab'));
 
 // 로딩 컴포넌트
 const TabLoader = () => (
@@ -43,10 +46,19 @@ const AdminDashboard = () => {
             calendar: PERMISSION_KEYS.tabs.calendar,
             courses: PERMISSION_KEYS.tabs.courses,
             registrations: PERMISSION_KEYS.tabs.registrations,
+            students: PERMISSION_KEYS.tabs.registrations,
             attendance: PERMISSION_KEYS.tabs.attendance,
             notes: PERMISSION_KEYS.tabs.courseNotes,
         };
         return ADMIN_TABS.filter((tab) => {
+            if (tab.id === 'audit') return user.role === 'master';
+            // 매출이 들어 있어 분납 조회 권한까지 있어야 한다
+            if (tab.id === 'analytics') {
+                return (
+                    hasPermission(user, PERMISSION_KEYS.tabs.registrations) &&
+                    hasPermission(user, PERMISSION_KEYS.buttons.installments)
+                );
+            }
             const key = tabPermissionMap[tab.id];
             if (!key) return true;
             return hasPermission(user, key);
@@ -165,6 +177,14 @@ const AdminDashboard = () => {
                 </Suspense>
             ) 
         },
+        {
+            id: 'students',
+            element: (
+                <Suspense fallback={<TabLoader />}>
+                    <StudentsTab isActive={activeTab === 'students'} />
+                </Suspense>
+            ),
+        },
         { 
             id: 'attendance', 
             element: (
@@ -185,6 +205,14 @@ const AdminDashboard = () => {
                 </Suspense>
             ),
         },
+        {
+            id: 'analytics',
+            element: (
+                <Suspense fallback={<TabLoader />}>
+                    <AnalyticsTab isActive={activeTab === 'analytics'} />
+                </Suspense>
+            ),
+        },
         { 
             id: 'accounts', 
             element: (
@@ -193,6 +221,14 @@ const AdminDashboard = () => {
                 </Suspense>
             ) 
         },
+        {
+            id: 'audit',
+            element: (
+                <Suspense fallback={<TabLoader />}>
+                    <AuditLogTab isActive={activeTab === 'audit'} />
+                </Suspense>
+            ),
+        },
         { 
             id: 'settings', 
             element: (
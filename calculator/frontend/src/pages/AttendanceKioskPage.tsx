@@ -0,0 +1,7 @@
+import React from 'react';
+import AttendanceKiosk from '../features/admin/attendance/AttendanceKiosk';
+
+// 출입구 태블릿용 전체 화면. 직원 계정으로 로그인해 열어 둔다.
+const AttendanceKioskPage = () => <AttendanceKiosk />;
+
+export default AttendanceKioskPage;
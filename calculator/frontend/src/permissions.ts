@@ -10,6 +10,8 @@ export const PERMISSION_KEYS = {
     mergeManager: "registrations.merges.manage",
     installments: "registrations.installments.view",
     transfers: "registrations.transfers.manage",
+    notifications: "notifications.send",
+    attendanceLockOverride: "attendance.locks.override",
   },
 }
 
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ATTENDANCE_CHECK_IN_MESSAGES,
+  DEFAULT_CHECK_IN_GRACE_MINUTES,
+  buildCheckInQrPayload,
+  getCheckInStatus,
+  isCheckInClassDay,
+  parseCheckInCode,
+  parseCheckInGraceMinutes,
+  pickCheckInTargets,
+  resolveClassStartTime,
+} from "@shared/attendanceCheckIn"
+
+const TIME_TABLE = {
+  calc_ab: { 오전반: "09:00~11:00", 저녁반: "18:20~20:20" },
+  Psychology: "11:10~13:10",
+  sat: { type: "onoff" as const, online: "20:00~22:00", offline: "13:00~15:00" },
+  toefl: { type: "dynamic" as const, options: [{ label: "A", time: "7:30~9:30" }, { label: "B", time: "16:00~18:00" }] },
+}
+
+describe("attendanceCheckIn", () => {
+  it("reads PINs and QR payloads", () => {
+    expect(parseCheckInCode(" 123-456 ")).toEqual({ type: "pin", value: "123456" })
+    expect(parseCheckInCode(buildCheckInQrPayload("ABCDEFGH23456789"))).toEqual({
+      type: "token",
+      value: "ABCDEFGH23456789",
+    })
+    expect(parseCheckInCode("checkin:abcdefgh23456789")?.type).toBe("token")
+    expect(parseCheckInCode("12345")).toBeNull()
+    expect(parseCheckInCode("CHECKIN:SHORT")).toBeNull()
+    expect(parseCheckInCode("")).toBeNull()
+  })
+
+  it("validates grace minutes", () => {
+    expect(parseCheckInGraceMinutes(undefined)).toEqual({ value: DEFAULT_CHECK_IN_GRACE_MINUTES, error: "" })
+    expect(parseCheckInGraceMinutes("15").value).toBe(15)
+    expect(parseCheckInGraceMinutes(-1).error).toBe(ATTENDANCE_CHECK_IN_MESSAGES.invalidGrace)
+    expect(parseCheckInGraceMinutes(2.5).error).toBe(ATTENDANCE_CHECK_IN_MESSAGES.invalidGrace)
+  })
+
+  it("resolves class start times from the time table", () => {
+    expect(resolveClassStartTime({ courseId: "calc_ab", course: "Calculus AB (저녁반)" }, TIME_TABLE, "Calculus AB")).toBe("18:20")
+    expect(resolveClassStartTime({ courseId: "calc_ab", timeOption: "오전반" }, TIME_TABLE)).toBe("09:00")
+    expect(resolveClassStartTime({ course: "Psychology" }, TIME_TABLE)).toBe("11:10")
+    expect(resolveClassStartTime({ courseId: "sat", courseType: "온라인" }, TIME_TABLE)).toBe("20:00")
+    expect(resolveClassStartTime({ courseId: "sat", courseType: "오프라인" }, TIME_TABLE)).toBe("13:00")
+    expect(resolveClassStartTime({ courseId: "toefl", timeOption: "A" }, TIME_TABLE)).toBe("07:30")
+    expect(resolveClassStartTime({ courseId: "toefl" }, TIME_TABLE)).toBe("")
+    expect(resolveClassStartTime({ courseId: "unknown", course: "Biology" }, TIME_TABLE)).toBe("")
+  })
+
+  it("marks late after the grace period", () => {
+    expect(getCheckInStatus("09:00", "09:10", 10)).toBe("present")
+    expect(getCheckInStatus("09:00", "09:11", 10)).toBe("late")
+    expect(getCheckInStatus("", "23:59", 0)).toBe("present")
+  })
+
+  it("checks class days", () => {
+    // 2026-04-20은 월요일
+    expect(isCheckInClassDay({ courseDays: [1, 3] }, "2026-04-20")).toBe(true)
+    expect(isCheckInClassDay({ courseDays: [2, 4] }, "2026-04-20")).toBe(false)
+    expect(isCheckInClassDay({ courseDays: [1], selectedDates: ["2026-04-21"] }, "2026-04-20")).toBe(false)
+    expect(isCheckInClassDay({}, "2026-04-20")).toBe(true)
+  })
+
+  it("picks the class closest to the check-in time", () => {
+    const candidates = [
+      { registrationId: "morning", startTime: "09:00" },
+      { registrationId: "evening", startTime: "18:20" },
+      { registrationId: "unknown", startTime: "" },
+    ]
+    expect(pickCheckInTargets(candidates, "08:50").map((c) => c.registrationId)).toEqual(["morning"])
+    expect(pickCheckInTargets(candidates, "18:40").map((c) => c.registrationId)).toEqual(["evening"])
+    expect(pickCheckInTargets([{ registrationId: "a", startTime: "" }], "10:00")).toHaveLength(1)
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ATTENDANCE_LOCK_MESSAGES,
+  ATTENDANCE_LOCK_REASON_MAX_LENGTH,
+  buildAttendanceLockSet,
+  getAttendanceMonthKey,
+  isAttendanceDateLocked,
+  isAttendanceMonthKey,
+  parseAttendanceOverrideReason,
+} from "@shared/attendanceLocks"
+
+describe("isAttendanceMonthKey", () => {
+  it("accepts YYYY-MM only", () => {
+    expect(isAttendanceMonthKey("2026-10")).toBe(true)
+    expect(isAttendanceMonthKey("2026-13")).toBe(false)
+    expect(isAttendanceMonthKey("2026-10-01")).toBe(false)
+    expect(isAttendanceMonthKey(202610)).toBe(false)
+  })
+})
+
+describe("isAttendanceDateLocked", () => {
+  const lockSet = buildAttendanceLockSet([
+    { courseConfigSetName: "2026 겨울", month: "2026-10" },
+    { courseConfigSetName: "2026 여름", month: "2026-09" },
+  ])
+
+  it("matches the set name and the month of the date", () => {
+    expect(getAttendanceMonthKey("2026-10-14")).toBe("2026-10")
+    expect(isAttendanceDateLocked(lockSet, "2026 겨울", "2026-10-14")).toBe(true)
+    expect(isAttendanceDateLocked(lockSet, "2026 겨울", "2026-11-01")).toBe(false)
+    expect(isAttendanceDateLocked(lockSet, "2026 여름", "2026-10-14")).toBe(false)
+  })
+
+  it("never locks registrations without a set name", () => {
+    expect(isAttendanceDateLocked(lockSet, "", "2026-10-14")).toBe(false)
+  })
+})
+
+describe("parseAttendanceOverrideReason", () => {
+  it("trims the reason", () => {
+    expect(parseAttendanceOverrideReason("  지각 기록 정정 ")).toEqual({ value: "지각 기록 정정", error: "" })
+  })
+
+  it("requires a reason and limits its length", () => {
+    expect(parseAttendanceOverrideReason(undefined).error).toBe(ATTENDANCE_LOCK_MESSAGES.reasonRequired)
+    expect(parseAttendanceOverrideReason("   ").error).toBe(ATTENDANCE_LOCK_MESSAGES.reasonRequired)
+    expect(parseAttendanceOverrideReason("a".repeat(ATTENDANCE_LOCK_REASON_MAX_LENGTH + 1)).error).toBe(
+      ATTENDANCE_LOCK_MESSAGES.reasonTooLong
+    )
+  })
+})
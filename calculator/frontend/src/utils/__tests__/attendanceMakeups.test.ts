@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ATTENDANCE_MAKEUP_MESSAGES,
+  buildAttendanceMakeupQueryParams,
+  countOutstandingMakeups,
+  isAttendanceMakeupOutstanding,
+  parseAttendanceMakeupInput,
+  parseAttendanceMakeupQuery,
+} from "@shared/attendanceMakeups"
+import { ATTENDANCE_STATS_MESSAGES } from "@shared/attendanceStats"
+
+describe("parseAttendanceMakeupInput", () => {
+  it("defaults to a scheduled makeup without a date", () => {
+    expect(parseAttendanceMakeupInput({ targetCourse: " 중등수학 B ", memo: " 전화 " })).toEqual({
+      input: {
+        targetCourse: "중등수학 B",
+        targetCourseId: "",
+        targetDate: "",
+        targetTime: "",
+        status: "scheduled",
+        recordingSent: false,
+        memo: "전화",
+      },
+      error: "",
+    })
+  })
+
+  it("validates status, date and time", () => {
+    expect(parseAttendanceMakeupInput({ status: "done" }).error).toBe(ATTENDANCE_MAKEUP_MESSAGES.invalidStatus)
+    expect(parseAttendanceMakeupInput({ targetDate: "2026/10/20" }).error).toBe(
+      ATTENDANCE_MAKEUP_MESSAGES.invalidTargetDate
+    )
+    expect(parseAttendanceMakeupInput({ targetTime: "25:00" }).error).toBe(ATTENDANCE_MAKEUP_MESSAGES.invalidTargetTime)
+    expect(parseAttendanceMakeupInput({ memo: "가".repeat(201) }).error).toBe(ATTENDANCE_MAKEUP_MESSAGES.memoTooLong)
+  })
+
+  it("requires a date to mark a makeup attended", () => {
+    expect(parseAttendanceMakeupInput({ status: "attended" }).error).toBe(
+      ATTENDANCE_MAKEUP_MESSAGES.targetDateRequired
+    )
+    expect(parseAttendanceMakeupInput({ status: "attended", targetDate: "2026-10-20" }).input?.status).toBe("attended")
+  })
+
+  it("keeps the makeup after the absence", () => {
+    expect(parseAttendanceMakeupInput({ targetDate: "2026-10-14" }, "2026-10-14").error).toBe(
+      ATTENDANCE_MAKEUP_MESSAGES.targetBeforeAbsence
+    )
+    expect(parseAttendanceMakeupInput({ targetDate: "2026-10-15" }, "2026-10-14").error).toBe("")
+  })
+
+  it("only accepts a literal true for recordingSent", () => {
+    expect(parseAttendanceMakeupInput({ recordingSent: "true" }).input?.recordingSent).toBe(false)
+    expect(parseAttendanceMakeupInput({ recordingSent: true }).input?.recordingSent).toBe(true)
+  })
+})
+
+describe("outstanding makeups", () => {
+  it("counts scheduled makeups whose recording was not sent", () => {
+    expect(isAttendanceMakeupOutstanding({ status: "scheduled", recordingSent: false })).toBe(true)
+    expect(isAttendanceMakeupOutstanding({ status: "scheduled", recordingSent: true })).toBe(false)
+    expect(isAttendanceMakeupOutstanding({ status: "attended", recordingSent: false })).toBe(false)
+
+    const counts = countOutstandingMakeups([
+      { registrationId: "r1", status: "scheduled", recordingSent: false },
+      { registrationId: "r1", status: "scheduled", recordingSent: false },
+      { registrationId: "r1", status: "waived", recordingSent: false },
+      { registrationId: "r2", status: "attended", recordingSent: false },
+    ])
+    expect(Array.from(counts.entries())).toEqual([["r1", 2]])
+  })
+})
+
+describe("makeup query", () => {
+  it("parses and rebuilds the query", () => {
+    const parsed = parseAttendanceMakeupQuery({ from: "2026-10-01", to: "2026-12-31", registrationIds: "b,a,b", outstanding: "1" })
+    expect(parsed.query).toEqual({
+      from: "2026-10-01",
+      to: "2026-12-31",
+      registrationIds: ["b", "a"],
+      outstanding: true,
+    })
+    expect(buildAttendanceMakeupQueryParams(parsed.query || {})).toEqual({
+      from: "2026-10-01",
+      to: "2026-12-31",
+      registrationIds: "b,a",
+      outstanding: "1",
+    })
+    expect(parseAttendanceMakeupQuery({ from: "2026-12-01", to: "2026-10-01" }).error).toBe(
+      ATTENDANCE_STATS_MESSAGES.invalidRange
+    )
+  })
+})
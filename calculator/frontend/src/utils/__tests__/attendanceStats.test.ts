@@ -0,0 +1,184 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ATTENDANCE_STATS_MESSAGES,
+  buildAttendanceStats,
+  buildAttendanceStatsQueryParams,
+  createEmptyAttendanceStats,
+  evaluateAttendanceAlerts,
+  getAttendanceAlertRuleError,
+  mergeAttendanceStats,
+  parseAttendanceStatsQuery,
+  type AttendanceAlertRule,
+} from "@shared/attendanceStats"
+import { DEFAULT_ATTENDANCE_STATUSES } from "@shared/attendanceStatuses"
+
+const consecutiveRule: AttendanceAlertRule = {
+  id: "rule-1",
+  name: "3회 연속 결석",
+  type: "consecutiveAbsence",
+  threshold: 3,
+  minSessions: 0,
+  isActive: true,
+}
+
+const lowRateRule: AttendanceAlertRule = {
+  id: "rule-2",
+  name: "출석률 70% 미만",
+  type: "lowRate",
+  threshold: 0.7,
+  minSessions: 4,
+  isActive: true,
+}
+
+describe("buildAttendanceStats", () => {
+  it("counts statuses and treats late and recorded sessions as attended", () => {
+    const stats = buildAttendanceStats([
+      { date: "2026-03-02", status: "present" },
+      { date: "2026-03-04", status: "late" },
+      { date: "2026-03-06", status: "recorded" },
+      { date: "2026-03-09", status: "absent" },
+    ])
+    expect(stats).toMatchObject({ total: 4, attended: 3, missed: 1, rate: 0.75 })
+    expect(stats.counts).toEqual({ present: 1, late: 1, recorded: 1, absent: 1 })
+    expect(stats.lastDate).toBe("2026-03-09")
+  })
+
+  it("counts trailing absences from the latest record regardless of input order", () => {
+    const stats = buildAttendanceStats([
+      { date: "2026-03-13", status: "absent" },
+      { date: "2026-03-02", status: "absent" },
+      { date: "2026-03-04", status: "present" },
+      { date: "2026-03-11", status: "absent" },
+    ])
+    expect(stats.consecutiveAbsences).toBe(2)
+  })
+
+  it("follows configured statuses for the rate and the absence streak", () => {
+    const definitions = [
+      ...DEFAULT_ATTENDANCE_STATUSES,
+      { key: "online", label: "온라인", shortLabel: "온", color: "teal" as const, countsAsAttended: true, isActive: true, sortOrder: 4, isSystem: false },
+      { key: "excused", label: "인정결석", shortLabel: "인", color: "violet" as const, countsAsAttended: false, isActive: false, sortOrder: 5, isSystem: false },
+    ]
+    const stats = buildAttendanceStats(
+      [
+        { date: "2026-03-02", status: "online" },
+        { date: "2026-03-04", status: "excused" },
+        { date: "2026-03-06", status: "absent" },
+      ],
+      definitions
+    )
+    expect(stats).toMatchObject({ total: 3, attended: 1, missed: 2, consecutiveAbsences: 2 })
+    expect(stats.counts).toEqual({ online: 1, excused: 1, absent: 1 })
+    expect(buildAttendanceStats([{ date: "2026-03-02", status: "online" }]).total).toBe(0)
+  })
+
+  it("ignores unknown statuses and leaves the rate empty without records", () => {
+    const stats = buildAttendanceStats([{ date: "2026-03-02", status: "pending" }])
+    expect(stats.total).toBe(0)
+    expect(stats.rate).toBeNull()
+  })
+})
+
+describe("mergeAttendanceStats", () => {
+  it("sums counts and keeps the longest absence streak", () => {
+    const merged = mergeAttendanceStats(
+      createEmptyAttendanceStats(),
+      buildAttendanceStats([
+        { date: "2026-03-02", status: "present" },
+        { date: "2026-03-04", status: "absent" },
+      ])
+    )
+    mergeAttendanceStats(
+      merged,
+      buildAttendanceStats([
+        { date: "2026-03-02", status: "absent" },
+        { date: "2026-03-04", status: "absent" },
+      ])
+    )
+    expect(merged).toMatchObject({ total: 4, attended: 1, missed: 3, rate: 0.25, consecutiveAbsences: 2 })
+    expect(merged.counts).toEqual({ present: 1, absent: 3 })
+  })
+})
+
+describe("evaluateAttendanceAlerts", () => {
+  it("flags consecutive absences at the threshold", () => {
+    const stats = buildAttendanceStats([
+      { date: "2026-03-02", status: "absent" },
+      { date: "2026-03-04", status: "absent" },
+      { date: "2026-03-06", status: "absent" },
+    ])
+    const alerts = evaluateAttendanceAlerts(stats, [consecutiveRule])
+    expect(alerts).toEqual([
+      { ruleId: "rule-1", ruleName: "3회 연속 결석", type: "consecutiveAbsence", threshold: 3, value: 3 },
+    ])
+  })
+
+  it("skips the rate rule until enough sessions are recorded", () => {
+    const few = buildAttendanceStats([
+      { date: "2026-03-02", status: "absent" },
+      { date: "2026-03-04", status: "present" },
+    ])
+    expect(evaluateAttendanceAlerts(few, [lowRateRule])).toEqual([])
+
+    const enough = buildAttendanceStats([
+      { date: "2026-03-02", status: "absent" },
+      { date: "2026-03-04", status: "present" },
+      { date: "2026-03-06", status: "absent" },
+      { date: "2026-03-09", status: "present" },
+    ])
+    expect(evaluateAttendanceAlerts(enough, [lowRateRule]).map((alert) => alert.value)).toEqual([0.5])
+  })
+
+  it("ignores inactive rules", () => {
+    const stats = buildAttendanceStats([
+      { date: "2026-03-02", status: "absent" },
+      { date: "2026-03-04", status: "absent" },
+      { date: "2026-03-06", status: "absent" },
+    ])
+    expect(evaluateAttendanceAlerts(stats, [{ ...consecutiveRule, isActive: false }])).toEqual([])
+  })
+})
+
+describe("getAttendanceAlertRuleError", () => {
+  it("validates thresholds per rule type", () => {
+    expect(getAttendanceAlertRuleError(consecutiveRule)).toBe("")
+    expect(getAttendanceAlertRuleError({ ...consecutiveRule, threshold: 0 })).toBe(
+      ATTENDANCE_STATS_MESSAGES.invalidConsecutive
+    )
+    expect(getAttendanceAlertRuleError({ ...lowRateRule, threshold: 70 })).toBe(
+      ATTENDANCE_STATS_MESSAGES.invalidRate
+    )
+    expect(getAttendanceAlertRuleError({ ...lowRateRule, name: " " })).toBe(
+      ATTENDANCE_STATS_MESSAGES.nameRequired
+    )
+  })
+})
+
+describe("parseAttendanceStatsQuery", () => {
+  it("reads the period and registration ids", () => {
+    const { query } = parseAttendanceStatsQuery({
+      from: "2026-03-01",
+      to: "2026-03-31",
+      registrationIds: "a, b,a",
+    })
+    expect(query).toEqual({
+      from: "2026-03-01",
+      to: "2026-03-31",
+      courseConfigSetName: "",
+      registrationIds: ["a", "b"],
+    })
+  })
+
+  it("rejects reversed periods", () => {
+    expect(parseAttendanceStatsQuery({ from: "2026-04-01", to: "2026-03-01" }).error).toBe(
+      ATTENDANCE_STATS_MESSAGES.invalidRange
+    )
+  })
+
+  it("round-trips through the query params", () => {
+    const params = buildAttendanceStatsQueryParams({ courseConfigSetName: "2026 봄", registrationIds: ["a", "b"] })
+    expect(params).toEqual({ courseConfigSetName: "2026 봄", registrationIds: "a,b" })
+    expect(parseAttendanceStatsQuery(params).query?.registrationIds).toEqual(["a", "b"])
+  })
+})
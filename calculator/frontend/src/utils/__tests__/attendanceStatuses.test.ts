@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ATTENDANCE_RECORD_NOTE_MAX_LENGTH,
+  ATTENDANCE_STATUS_MESSAGES,
+  DEFAULT_ATTENDANCE_STATUSES,
+  getAttendanceStatusDefinitionError,
+  getAttendedStatusKeys,
+  getMissedStatusKeys,
+  isWritableAttendanceStatus,
+  parseAttendanceRecordNote,
+  resolveAttendanceStatusDefinitions,
+  type AttendanceStatusDefinition,
+} from "@shared/attendanceStatuses"
+
+const excused: AttendanceStatusDefinition = {
+  key: "excused",
+  label: "인정결석",
+  shortLabel: "인",
+  color: "violet",
+  countsAsAttended: false,
+  isActive: false,
+  sortOrder: 1,
+  isSystem: false,
+}
+
+describe("getAttendanceStatusDefinitionError", () => {
+  it("accepts a valid definition", () => {
+    expect(getAttendanceStatusDefinitionError(excused)).toBe("")
+  })
+
+  it("rejects bad keys, the pending key, long short labels and unknown colors", () => {
+    expect(getAttendanceStatusDefinitionError({ ...excused, key: "1st" })).toBe(ATTENDANCE_STATUS_MESSAGES.invalidKey)
+    expect(getAttendanceStatusDefinitionError({ ...excused, key: "pending" })).toBe(
+      ATTENDANCE_STATUS_MESSAGES.reservedKey
+    )
+    expect(getAttendanceStatusDefinitionError({ ...excused, label: " " })).toBe(
+      ATTENDANCE_STATUS_MESSAGES.labelRequired
+    )
+    expect(getAttendanceStatusDefinitionError({ ...excused, shortLabel: "인정결" })).toBe(
+      ATTENDANCE_STATUS_MESSAGES.shortLabelRequired
+    )
+    expect(getAttendanceStatusDefinitionError({ ...excused, color: "red" })).toBe(
+      ATTENDANCE_STATUS_MESSAGES.invalidColor
+    )
+  })
+})
+
+describe("resolveAttendanceStatusDefinitions", () => {
+  it("falls back to the default statuses and sorts by order", () => {
+    expect(resolveAttendanceStatusDefinitions([])).toEqual(DEFAULT_ATTENDANCE_STATUSES)
+    const sorted = resolveAttendanceStatusDefinitions([{ ...excused, sortOrder: -1 }, ...DEFAULT_ATTENDANCE_STATUSES])
+    expect(sorted[0].key).toBe("excused")
+  })
+
+  it("splits attended and missed keys", () => {
+    const definitions = [...DEFAULT_ATTENDANCE_STATUSES, excused]
+    expect([...getAttendedStatusKeys(definitions)]).toEqual(["present", "recorded", "late"])
+    expect([...getMissedStatusKeys(definitions)]).toEqual(["absent", "excused"])
+  })
+})
+
+describe("isWritableAttendanceStatus", () => {
+  it("accepts pending and active statuses only", () => {
+    const definitions = [...DEFAULT_ATTENDANCE_STATUSES, excused]
+    expect(isWritableAttendanceStatus(definitions, "pending")).toBe(true)
+    expect(isWritableAttendanceStatus(definitions, "late")).toBe(true)
+    expect(isWritableAttendanceStatus(definitions, "excused")).toBe(false)
+    expect(isWritableAttendanceStatus(definitions, "unknown")).toBe(false)
+  })
+})
+
+describe("parseAttendanceRecordNote", () => {
+  it("keeps the existing note when none is sent and trims the rest", () => {
+    expect(parseAttendanceRecordNote(undefined)).toEqual({ value: undefined, error: "" })
+    expect(parseAttendanceRecordNote(" 병원 ")).toEqual({ value: "병원", error: "" })
+    expect(parseAttendanceRecordNote("")).toEqual({ value: "", error: "" })
+    expect(parseAttendanceRecordNote("가".repeat(ATTENDANCE_RECORD_NOTE_MAX_LENGTH + 1)).error).toBe(
+      ATTENDANCE_STATUS_MESSAGES.noteTooLong
+    )
+  })
+})
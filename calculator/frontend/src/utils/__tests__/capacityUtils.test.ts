@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { countTakenSeats, isSeatHolding } from "@shared/classCapacity";
+import {
+  formatSeatStatusLabel,
+  getCapacityOverflows,
+  getCartSeatStatuses,
+  normalizeCapacitySummary,
+  splitByCapacityOverflows,
+} from "../capacityUtils";
+
+const summary = normalizeCapacitySummary({
+  capacities: { sat_1500: 3, toefl: "0" },
+  seats: [
+    { courseId: "sat_1500", timeOption: "오전", courseType: "오프라인", taken: 2, waiting: 1 },
+    { courseId: "sat_1500", timeOption: "오후", courseType: "오프라인", taken: 0, waiting: 0 },
+  ],
+});
+
+const makeItem = (mainCourseKey: string, selectedDynamicTime = "오전", courseType = "오프라인") => ({
+  mainCourseKey,
+  singleCourseInputs: { selectedDynamicTime, courseType },
+});
+
+describe("isSeatHolding", () => {
+  it("퇴원·전반 나간 등록과 끝난 등록은 자리를 차지하지 않는다", () => {
+    const today = "2026-03-10";
+    expect(isSeatHolding({ courseId: "a", endDate: "2026-03-31" }, today)).toBe(true);
+    expect(isSeatHolding({ courseId: "a", endDate: "2026-03-10" }, today)).toBe(true);
+    expect(isSeatHolding({ courseId: "a", endDate: "2026-03-09" }, today)).toBe(false);
+    expect(isSeatHolding({ courseId: "a", withdrawnAt: "2026-03-01" }, today)).toBe(false);
+    expect(isSeatHolding({ courseId: "a", transferToId: "next" }, today)).toBe(false);
+  });
+
+  it("반은 시간과 수업 형태로 나눠 센다", () => {
+    const counts = countTakenSeats(
+      [
+        { courseId: "a", timeOption: "오전", courseType: "온라인" },
+        { courseId: "a", timeOption: "오전", courseType: "오프라인" },
+        { courseId: "a", timeOption: "오전", courseType: "오프라인" },
+        { courseId: "", timeOption: "오전", courseType: "오프라인" },
+      ],
+      "2026-03-10"
+    );
+    expect(counts.get("a|오전|온라인")).toBe(1);
+    expect(counts.get("a|오전|오프라인")).toBe(2);
+    expect(counts.size).toBe(2);
+  });
+});
+
+describe("getCartSeatStatuses", () => {
+  it("정원이 없는 과목은 null", () => {
+    expect(getCartSeatStatuses([makeItem("toefl"), makeItem("ielts")], summary)).toEqual([null, null]);
+  });
+
+  it("같은 반을 여러 번 담으면 앞 항목부터 자리를 차지한다", () => {
+    const [first, second, other] = getCartSeatStatuses(
+      [makeItem("sat_1500"), makeItem("sat_1500"), makeItem("sat_1500", "오후")],
+      summary
+    );
+    expect(first).toMatchObject({ taken: 3, remaining: 0, overCapacity: false });
+    expect(second).toMatchObject({ taken: 4, remaining: 0, overCapacity: true, waiting: 1 });
+    expect(other).toMatchObject({ taken: 1, remaining: 2, overCapacity: false });
+  });
+
+  it("자리 현황 문구", () => {
+    const [first, second] = getCartSeatStatuses([makeItem("sat_1500"), makeItem("sat_1500")], summary);
+    expect(formatSeatStatusLabel(first!)).toBe("잔여 0석");
+    expect(formatSeatStatusLabel(second!)).toBe("정원 마감 · 대기 1명");
+  });
+});
+
+describe("getCapacityOverflows", () => {
+  it("409 응답 본문의 정원 초과 목록만 꺼낸다", () => {
+    const error = Object.assign(new Error("정원이 찬 반이 있습니다."), {
+      status: 409,
+      data: {
+        capacityOverflows: [
+          { index: 1, name: "홍길동", course: "SAT", courseId: "sat_1500", timeOption: "오전", courseType: "", capacity: 3, taken: 3 },
+        ],
+      },
+    });
+    expect(getCapacityOverflows(error)).toEqual([
+      { index: 1, name: "홍길동", course: "SAT", courseId: "sat_1500", timeOption: "오전", courseType: "", capacity: 3, taken: 3 },
+    ]);
+    expect(getCapacityOverflows(new Error("수강료 불일치"))).toEqual([]);
+  });
+
+  it("정원 초과분과 나머지 기록을 나눈다", () => {
+    const overflows = getCapacityOverflows({ data: { capacityOverflows: [{ index: 0 }, { index: 2 }] } });
+    expect(splitByCapacityOverflows(["a", "b", "c"], overflows)).toEqual({
+      overflowed: ["a", "c"],
+      remaining: ["b"],
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  COURSE_OPTION_ERRORS,
+  formatCourseNameWithLevel,
+  getClassTypeChoices,
+  getMissingCourseOptions,
+  type CourseOptions,
+} from "@shared/courseOptions"
+
+const drwOptions: CourseOptions = {
+  level: {
+    required: true,
+    choices: [{ value: "Lv.1" }, { value: "Lv.2" }],
+    nameTemplate: "겨울특강 DRW {level}A",
+  },
+}
+
+describe("courseOptions", () => {
+  it("falls back to online/offline when no class type choices are configured", () => {
+    expect(getClassTypeChoices({ classType: { required: true } }).map((choice) => choice.value)).toEqual([
+      "온라인",
+      "오프라인",
+    ])
+  })
+
+  it("reports required option groups that are not selected", () => {
+    const options: CourseOptions = { ...drwOptions, classType: { required: true } }
+    expect(getMissingCourseOptions(options, {})).toEqual([
+      COURSE_OPTION_ERRORS.classTypeRequired,
+      COURSE_OPTION_ERRORS.levelRequired,
+    ])
+    expect(getMissingCourseOptions(options, { courseType: "온라인", level: "Lv.1" })).toEqual([])
+    expect(getMissingCourseOptions({ classType: { required: false } }, {})).toEqual([])
+    expect(getMissingCourseOptions(undefined, {})).toEqual([])
+  })
+
+  it("formats the display name from the level template", () => {
+    expect(formatCourseNameWithLevel(drwOptions, "겨울특강 DRW A", "Lv.2")).toBe("겨울특강 DRW Lv.2A")
+    expect(formatCourseNameWithLevel({ level: { choices: [{ value: "Lv.1" }] } }, "Essay", "Lv.1")).toBe("Essay Lv.1")
+    expect(formatCourseNameWithLevel(drwOptions, "겨울특강 DRW A", "")).toBe("겨울특강 DRW A")
+  })
+})
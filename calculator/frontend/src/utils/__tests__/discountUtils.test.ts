@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { DiscountRule } from "@shared/discountEngine";
+import {
+  formatAppliedDiscountRules,
+  hasDiscountRuleType,
+  isSameItemDiscount,
+  resolveItemDiscount,
+  type DiscountInputs,
+} from "../discountUtils";
+
+const rules: DiscountRule[] = [
+  { id: "sibling", name: "형제 할인", type: "sibling", rate: 0.1 },
+  { id: "multi", name: "다과목 할인", type: "multiCourse", rate: 0.05, minCourses: 2 },
+  { id: "early", name: "조기 등록", type: "earlyBird", rate: 0.05, deadline: "2026-02-28" },
+  { id: "returning", name: "재원생 할인", type: "returning", rate: 0.03, courseKeys: ["sat_1500"] },
+  { id: "coupon", name: "봄 쿠폰", type: "coupon", rate: 0.2, couponCode: "SPRING" },
+];
+
+const makeInputs = (overrides: Partial<DiscountInputs> = {}): DiscountInputs => ({
+  rules,
+  hasSibling: false,
+  isReturningStudent: false,
+  couponCode: "",
+  registrationDate: "2026-03-10",
+  ...overrides,
+});
+
+const resolve = (overrides: Partial<DiscountInputs> = {}, courseKey = "sat_1500", courseCount = 1) =>
+  resolveItemDiscount({
+    courseKey,
+    courseCount,
+    autoDiscount: true,
+    manualDiscount: 0,
+    inputs: makeInputs(overrides),
+  });
+
+describe("resolveItemDiscount", () => {
+  it("조건에 맞는 규칙이 없으면 할인하지 않는다", () => {
+    expect(resolve()).toEqual({ discount: 0, appliedDiscountRules: [] });
+  });
+
+  it("맞는 규칙의 할인율을 더하고 적용 규칙을 남긴다", () => {
+    const result = resolve({ hasSibling: true }, "sat_1500", 2);
+    expect(result.discount).toBe(0.15);
+    expect(result.appliedDiscountRules.map((rule) => rule.id)).toEqual(["sibling", "multi"]);
+  });
+
+  it("조기 등록은 마감일 당일까지 적용한다", () => {
+    expect(resolve({ registrationDate: "2026-02-28" }).appliedDiscountRules.map((rule) => rule.id)).toEqual(["early"]);
+    expect(resolve({ registrationDate: "2026-03-01" }).discount).toBe(0);
+  });
+
+  it("재원생 할인은 지정한 과목에만 적용한다", () => {
+    expect(resolve({ isReturningStudent: true }, "sat_1500").discount).toBe(0.03);
+    expect(resolve({ isReturningStudent: true }, "act_30").discount).toBe(0);
+  });
+
+  it("쿠폰 코드는 대소문자와 공백을 무시하고 비교한다", () => {
+    expect(resolve({ couponCode: " spring " }).discount).toBe(0.2);
+    expect(resolve({ couponCode: "SUMMER" }).discount).toBe(0);
+  });
+
+  it("사용 안 함 규칙은 건너뛰고 합계는 100%를 넘지 않는다", () => {
+    const result = resolveItemDiscount({
+      courseKey: "sat_1500",
+      courseCount: 1,
+      autoDiscount: true,
+      manualDiscount: 0,
+      inputs: makeInputs({
+        hasSibling: true,
+        rules: [
+          { id: "a", name: "A", type: "sibling", rate: 0.7 },
+          { id: "b", name: "B", type: "sibling", rate: 0.6 },
+          { id: "c", name: "C", type: "sibling", rate: 0.5, isActive: false },
+        ],
+      }),
+    });
+    expect(result.discount).toBe(1);
+    expect(result.appliedDiscountRules.map((rule) => rule.id)).toEqual(["a", "b"]);
+  });
+
+  it("직접 지정한 할인은 규칙 없이 그대로 쓴다", () => {
+    const result = resolveItemDiscount({
+      courseKey: "sat_1500",
+      courseCount: 3,
+      autoDiscount: false,
+      manualDiscount: 0.25,
+      inputs: makeInputs({ hasSibling: true }),
+    });
+    expect(result).toEqual({ discount: 0.25, appliedDiscountRules: [] });
+  });
+});
+
+describe("discount helpers", () => {
+  it("활성 규칙 종류가 있는지 확인한다", () => {
+    expect(hasDiscountRuleType(rules, "coupon")).toBe(true);
+    expect(hasDiscountRuleType([{ ...rules[0], isActive: false }], "sibling")).toBe(false);
+  });
+
+  it("할인율과 적용 규칙이 같을 때만 같은 할인으로 본다", () => {
+    const base = resolve({ hasSibling: true });
+    expect(isSameItemDiscount(base, resolve({ hasSibling: true }))).toBe(true);
+    expect(isSameItemDiscount(base, { ...base, discount: 0.2 })).toBe(false);
+    expect(isSameItemDiscount(base, { discount: 0.1, appliedDiscountRules: [] })).toBe(false);
+  });
+
+  it("적용 규칙을 이름과 할인율로 표시한다", () => {
+    expect(formatAppliedDiscountRules(resolve({ hasSibling: true }, "sat_1500", 2).appliedDiscountRules)).toBe(
+      "형제 할인 10%, 다과목 할인 5%"
+    );
+  });
+});
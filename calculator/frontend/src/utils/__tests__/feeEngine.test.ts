@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+
+import { calculateCourseFee, FEE_ERRORS, getCourseBaseFee, type FeeCourseInfoMap } from "@shared/feeEngine"
+
+const courseInfo: FeeCourseInfoMap = {
+  sat_1500: { fee: 500000, days: [1, 2, 3, 4, 5], endDay: 5 },
+  sat_campus: { fee: 400000, dynamicOptions: { gangnam: "sat_gangnam" } },
+  sat_gangnam: { fee: 450000 },
+  math_free: { fee: 300000, mathExcludedFee: 200000 },
+  bootcamp: { durationUnit: "daily", dailyFees: [{ days: 1, fee: 100000 }, { days: 3, fee: 270000 }] },
+  toefl_option: {
+    fee: 500000,
+    options: {
+      classType: { required: true, choices: [{ value: "온라인", feeDelta: -50000 }, { value: "오프라인" }] },
+      level: { choices: [{ value: "Lv.1" }, { value: "Lv.2", feeDelta: 20000 }] },
+    },
+  },
+  bootcamp_option: {
+    durationUnit: "daily",
+    dailyFees: [{ days: 1, fee: 100000 }],
+    options: { classType: { choices: [{ value: "오프라인", feeDelta: 10000 }] } },
+  },
+}
+
+// ===== getCourseBaseFee =====
+describe("getCourseBaseFee", () => {
+  it("multiplies the weekly fee by the period", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "sat_1500", period: 4 })).toBe(2000000)
+  })
+
+  it("uses the campus course fee for dynamic options", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "sat_campus", period: 2, satCampus: "gangnam" })).toBe(900000)
+  })
+
+  it("applies math exclusion only when the course configures a fee for it", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "math_free", period: 1, excludeMath: true })).toBe(200000)
+    expect(getCourseBaseFee(courseInfo, { courseKey: "sat_1500", period: 1, excludeMath: true })).toBe(500000)
+  })
+
+  it("adds option fee deltas per week or per day", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "toefl_option", period: 2, courseType: "온라인" })).toBe(900000)
+    expect(
+      getCourseBaseFee(courseInfo, { courseKey: "toefl_option", period: 2, courseType: "오프라인", level: "Lv.2" })
+    ).toBe(1040000)
+    expect(getCourseBaseFee(courseInfo, { courseKey: "bootcamp_option", period: 3, courseType: "오프라인" })).toBe(330000)
+  })
+
+  it("resolves daily fees by exact days, then by unit price", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "bootcamp", period: 3 })).toBe(270000)
+    expect(getCourseBaseFee(courseInfo, { courseKey: "bootcamp", period: 2 })).toBe(200000)
+  })
+
+  it("returns null for unknown courses", () => {
+    expect(getCourseBaseFee(courseInfo, { courseKey: "missing", period: 1 })).toBeNull()
+  })
+})
+
+// ===== calculateCourseFee =====
+describe("calculateCourseFee", () => {
+  it("applies the discount when there is no recording", () => {
+    const result = calculateCourseFee(courseInfo, { courseKey: "sat_1500", period: 4, discount: 0.1 })
+    expect(result?.totalFee).toBe(1800000)
+    expect(result?.totalDays).toBe(20)
+  })
+
+  it("prices recording days at 40% and the rest with the discount", () => {
+    const result = calculateCourseFee(courseInfo, {
+      courseKey: "sat_1500",
+      period: 2,
+      discount: 0.1,
+      recordingDays: 2,
+    })
+    // 일당 100,000원: 녹화 2일 80,000 + 정상 8일 720,000
+    expect(result?.recordingFee).toBe(80000)
+    expect(result?.normalFee).toBe(720000)
+    expect(result?.totalFee).toBe(800000)
+  })
+
+  it("rejects all-recording schedules", () => {
+    const result = calculateCourseFee(courseInfo, { courseKey: "bootcamp", period: 2, recordingDays: 2 })
+    expect(result?.error).toBe(FEE_ERRORS.allRecording)
+    expect(result?.totalFee).toBe(0)
+  })
+})
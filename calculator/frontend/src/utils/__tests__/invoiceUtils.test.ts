@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildInvoicePayload, getInvoiceFilename } from "../invoiceUtils";
+
+const item = {
+  mainCourseKey: "sat_1500",
+  discount: 0,
+  singleCourseInputs: { startDate: "2026-03-02", period: 4 },
+  selectedRecordingDates: [],
+  displayCourseName: "SAT 1500",
+  finalFee: 800000,
+  normalFee: 800000,
+  recordingFee: 0,
+  details: {
+    durationStr: "2026-03-02 ~ 2026-03-27",
+    timeStr: "월-금 09:00~12:00",
+    rawStartDate: "2026-03-02",
+    rawEndDate: "2026-03-27",
+  },
+};
+
+describe("buildInvoicePayload", () => {
+  it("견적 항목에 문서 종류와 수업시간을 더한다", () => {
+    const payload = buildInvoicePayload({
+      type: "invoice",
+      studentName: "홍길동A",
+      displayName: "홍길동",
+      courseConfigSetName: "2026 봄",
+      cart: [item],
+      isDailyCourse: () => false,
+    });
+    expect(payload.type).toBe("invoice");
+    expect(payload.studentName).toBe("홍길동");
+    expect(payload).not.toHaveProperty("memo");
+    expect(payload.items[0].record.name).toBe("홍길동A");
+    expect(payload.items[0].record.courseId).toBe("sat_1500");
+    expect(payload.items[0].timeStr).toBe("월-금 09:00~12:00");
+  });
+});
+
+describe("getInvoiceFilename", () => {
+  it("문서 종류, 학생 이름, 날짜로 파일 이름을 만든다", () => {
+    expect(getInvoiceFilename("quote", "홍/길동", new Date(2026, 2, 5))).toBe("견적서_홍_길동_2026-03-05.pdf");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+
+import { getBilledAmount, getRegistrationBaseBill } from "@shared/paymentBilling"
+
+describe("getBilledAmount", () => {
+  it("bills tuition plus extensions", () => {
+    expect(getBilledAmount({ tuitionFee: 400000 }, 100000)).toBe(500000)
+  })
+
+  it("bills only the retained fee after a withdrawal settlement", () => {
+    expect(getBilledAmount({ tuitionFee: 400000, withdrawnAt: "2026-10-10", retainedFee: 150000 }, 100000)).toBe(
+      150000
+    )
+  })
+
+  it("bills the settlement difference for a transfer with a settlement", () => {
+    expect(getBilledAmount({ tuitionFee: 400000, transferFromId: "r1" }, 0, 40000)).toBe(40000)
+    expect(getBilledAmount({ tuitionFee: 400000, transferFromId: "r1" }, 0, -20000)).toBe(-20000)
+  })
+
+  it("does not bill the copied tuition again for a transfer without a settlement", () => {
+    const previous = { tuitionFee: 400000, transferFromId: null }
+    const next = { tuitionFee: 400000, transferFromId: "r1" }
+    expect(getRegistrationBaseBill(next)).toBe(0)
+    expect(getBilledAmount(next, 50000)).toBe(50000)
+    // 학생 단위 잔액은 두 등록을 더하므로 수강료가 한 번만 청구돼야 한다
+    expect(getBilledAmount(previous, 0) + getBilledAmount(next, 0)).toBe(400000)
+  })
+})
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildQrSvg, computeQrErrorCorrection, encodeQrCode, getQrFormatBits } from "../qrCode";
+
+const finderAt = (modules: boolean[][], top: number, left: number) =>
+  modules.slice(top, top + 7).map((line) => line.slice(left, left + 7).map((dark) => (dark ? 1 : 0)).join(""));
+
+const FINDER = ["1111111", "1000001", "1011101", "1011101", "1011101", "1000001", "1111111"];
+
+describe("qrCode", () => {
+  it("computes Reed-Solomon codewords", () => {
+    // "HELLO WORLD" 1-Q 예시 (데이터 13 + 오류 정정 13)
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236];
+    expect(computeQrErrorCorrection(data, 13)).toEqual([168, 72, 22, 82, 217, 54, 156, 0, 46, 15, 180, 122, 16]);
+  });
+
+  it("builds level M format bits", () => {
+    expect(getQrFormatBits(0).toString(2).padStart(15, "0")).toBe("101010000010010");
+    expect(getQrFormatBits(5).toString(2).padStart(15, "0")).toBe("100000011001110");
+  });
+
+  it("picks the smallest version and draws function patterns", () => {
+    const qr = encodeQrCode("CHECKIN:ABCDEFGH23456789");
+    expect(qr?.size).toBe(25);
+    const modules = qr!.modules;
+    expect(finderAt(modules, 0, 0)).toEqual(FINDER);
+    expect(finderAt(modules, 0, 18)).toEqual(FINDER);
+    expect(finderAt(modules, 18, 0)).toEqual(FINDER);
+    expect(modules[6].slice(8, 17)).toEqual([true, false, true, false, true, false, true, false, true]);
+    expect(modules[17][8]).toBe(true);
+    expect(modules[18][18]).toBe(true);
+    expect(modules[17][17]).toBe(false);
+  });
+
+  it("rejects text that needs version 7 or later", () => {
+    expect(encodeQrCode("a".repeat(106))?.size).toBe(41);
+    expect(encodeQrCode("a".repeat(107))).toBeNull();
+  });
+
+  it("renders an SVG with a quiet zone", () => {
+    const svg = buildQrSvg(encodeQrCode("123456")!, { margin: 4, scale: 2 });
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('width="58"');
+    expect(svg).toContain("M4,4h1v1h-1z");
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildQuoteComparison,
+  buildQuotePayload,
+  buildRegistrationRecord,
+  canConvertQuote,
+  getQuoteStatusLabel,
+} from "../quoteUtils";
+
+const makeItem = (overrides: Record<string, unknown> = {}) => ({
+  mainCourseKey: "sat_1500",
+  discount: 0.1,
+  singleCourseInputs: {
+    startDate: "2026-03-02",
+    period: 4,
+    skipWeeks: [2],
+    selectedDates: [],
+    excludeMath: true,
+    selectedSatCampus: "",
+  },
+  selectedRecordingDates: ["2026-03-04"],
+  displayCourseName: "SAT 1500",
+  finalFee: 1234567.4,
+  normalFee: 1200000,
+  recordingFee: 34567,
+  details: {
+    durationStr: "2026-03-02 ~ 2026-03-27",
+    rawStartDate: new Date("2026-03-02T00:00:00Z"),
+    rawEndDate: new Date("2026-03-27T00:00:00Z"),
+  },
+  ...overrides,
+});
+
+describe("buildRegistrationRecord", () => {
+  it("주 단위 과목은 계산된 기간과 수강료를 그대로 옮긴다", () => {
+    const record = buildRegistrationRecord(makeItem(), {
+      studentName: "홍길동",
+      courseConfigSetName: "2026 봄",
+      isDaily: false,
+    });
+    expect(record).toMatchObject({
+      name: "홍길동",
+      courseId: "sat_1500",
+      courseConfigSetName: "2026 봄",
+      startDate: "2026-03-02",
+      endDate: "2026-03-27",
+      durationUnit: "weekly",
+      skipWeeks: [2],
+      selectedDates: [],
+      excludeMath: true,
+      recordingDates: ["2026-03-04"],
+      tuitionFee: 1234567,
+      discount: 0.1,
+    });
+  });
+
+  it("일 단위 과목은 선택한 날짜 범위를 쓴다", () => {
+    const item = makeItem({
+      singleCourseInputs: {
+        period: 3,
+        selectedDates: ["2026-03-10", "2026-03-03", "2026-03-05"],
+      },
+    });
+    const record = buildRegistrationRecord(item, {
+      studentName: "홍길동",
+      courseConfigSetName: "",
+      isDaily: true,
+    });
+    expect(record.startDate).toBe("2026-03-03");
+    expect(record.endDate).toBe("2026-03-10");
+    expect(record.selectedDates).toEqual(["2026-03-03", "2026-03-05", "2026-03-10"]);
+    expect(record.skipWeeks).toEqual([]);
+    expect(record.durationUnit).toBe("daily");
+  });
+
+  it("자동 할인으로 적용된 규칙 ID를 남긴다", () => {
+    const options = { studentName: "홍길동", courseConfigSetName: "", isDaily: false };
+    expect(buildRegistrationRecord(makeItem(), options).appliedDiscountRuleIds).toEqual([]);
+    const record = buildRegistrationRecord(
+      makeItem({ appliedDiscountRules: [{ id: "rule-a" }, { id: "rule-b" }] }),
+      options
+    );
+    expect(record.appliedDiscountRuleIds).toEqual(["rule-a", "rule-b"]);
+  });
+});
+
+describe("buildQuotePayload", () => {
+  it("항목마다 등록 기록과 재오픈용 입력값을 담는다", () => {
+    const payload = buildQuotePayload({
+      studentName: "홍길동",
+      courseConfigSetName: "2026 봄",
+      cart: [makeItem()],
+      isDailyCourse: () => false,
+    });
+    expect(payload.items).toHaveLength(1);
+    expect(payload.items[0].record.tuitionFee).toBe(1234567);
+    expect(payload.items[0].inputs.startDate).toBe("2026-03-02");
+    expect(payload.items[0].durationStr).toBe("2026-03-02 ~ 2026-03-27");
+  });
+});
+
+describe("quote status", () => {
+  it("전환 여부와 만료 여부로 상태를 정한다", () => {
+    expect(getQuoteStatusLabel({ status: "open", expired: false })).toBe("견적");
+    expect(getQuoteStatusLabel({ status: "open", expired: true })).toBe("기간 만료");
+    expect(getQuoteStatusLabel({ status: "converted", expired: true })).toBe("등록 완료");
+    expect(canConvertQuote({ status: "open", expired: false })).toBe(true);
+    expect(canConvertQuote({ status: "open", expired: true })).toBe(false);
+  });
+});
+
+describe("buildQuoteComparison", () => {
+  it("과목별로 견적 금액을 나란히 놓고 없는 과목은 null로 둔다", () => {
+    const quote = (items: Array<{ displayCourseName: string; tuitionFee: number }>) => ({
+      items: items.map(({ displayCourseName, tuitionFee }) => ({
+        ...buildQuotePayload({
+          studentName: "홍길동",
+          courseConfigSetName: "",
+          cart: [makeItem({ displayCourseName, finalFee: tuitionFee })],
+          isDailyCourse: () => false,
+        }).items[0],
+      })),
+    });
+    const rows = buildQuoteComparison([
+      quote([{ displayCourseName: "SAT", tuitionFee: 100 }, { displayCourseName: "TOEFL", tuitionFee: 50 }]),
+      quote([{ displayCourseName: "SAT", tuitionFee: 90 }]),
+    ]);
+    expect(rows).toEqual([
+      { course: "SAT", fees: [100, 90] },
+      { course: "TOEFL", fees: [50, null] },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  ANALYTICS_MESSAGES,
+  buildAnalyticsPeriods,
+  buildRegistrationAnalytics,
+  parseAnalyticsQuery,
+  type AnalyticsQuery,
+  type AnalyticsRegistration,
+} from "@shared/registrationAnalytics"
+
+function registration(overrides: Partial<AnalyticsRegistration>): AnalyticsRegistration {
+  return {
+    id: "r1",
+    studentKey: "student:a",
+    courseConfigSetName: "2026 봄",
+    category: "수학",
+    course: "중등수학 A",
+    startDate: "2026-03-02",
+    endDate: "2026-04-26",
+    withdrawnAt: null,
+    transferFromId: null,
+    transferToId: null,
+    transferAt: null,
+    tuitionFee: 300000,
+    retainedFee: null,
+    settlementDifference: null,
+    ...overrides,
+  }
+}
+
+const MONTH_QUERY: AnalyticsQuery = {
+  from: "2026-03-01",
+  to: "2026-04-30",
+  granularity: "month",
+  groupBy: "category",
+  courseConfigSetNames: [],
+  category: "",
+}
+
+describe("registrationAnalytics", () => {
+  it("splits periods into Monday weeks and clips them to the range", () => {
+    expect(buildAnalyticsPeriods("2026-03-04", "2026-03-16", "week")).toEqual([
+      { key: "2026-03-02", start: "2026-03-04", end: "2026-03-08" },
+      { key: "2026-03-09", start: "2026-03-09", end: "2026-03-15" },
+      { key: "2026-03-16", start: "2026-03-16", end: "2026-03-16" },
+    ])
+    expect(buildAnalyticsPeriods("2026-01-15", "2026-03-01", "month").map((period) => period.key)).toEqual([
+      "2026-01",
+      "2026-02",
+      "2026-03",
+    ])
+  })
+
+  it("validates the query", () => {
+    expect(parseAnalyticsQuery({ from: "2026-03-01" }).error).toBe(ANALYTICS_MESSAGES.invalidDate)
+    expect(parseAnalyticsQuery({ from: "2026-04-01", to: "2026-03-01" }).error).toBe(
+      ANALYTICS_MESSAGES.invalidRange
+    )
+    expect(parseAnalyticsQuery({ from: "2020-01-01", to: "2026-01-01", granularity: "week" }).error).toBe(
+      ANALYTICS_MESSAGES.tooManyPeriods
+    )
+    expect(
+      parseAnalyticsQuery({ from: "2026-03-01", to: "2026-04-30", courseConfigSetNames: "2026 봄, 2025 겨울" }).query
+    ).toMatchObject({ granularity: "month", groupBy: "category", courseConfigSetNames: ["2026 봄", "2025 겨울"] })
+  })
+
+  it("counts active students once per group and tells new from returning enrollments", () => {
+    const report = buildRegistrationAnalytics(
+      {
+        registrations: [
+          registration({ id: "old", courseConfigSetName: "2025 겨울", startDate: "2025-12-01", endDate: "2026-01-31" }),
+          registration({ id: "r1" }),
+          registration({ id: "r2", course: "중등수학 B" }),
+          registration({ id: "r3", studentKey: "student:b", startDate: "2026-04-06", endDate: "2026-05-31" }),
+        ],
+      },
+      { ...MONTH_QUERY, courseConfigSetNames: ["2026 봄"] }
+    )
+
+    expect(report.rows).toHaveLength(2)
+    expect(report.rows[0]).toMatchObject({
+      courseConfigSetName: "2026 봄",
+      category: "수학",
+      periodKey: "2026-03",
+      activeStudents: 1,
+      newEnrollments: 0,
+      returningEnrollments: 2,
+      revenue: 600000,
+    })
+    expect(report.rows[1]).toMatchObject({ periodKey: "2026-04", activeStudents: 2, newEnrollments: 1 })
+  })
+
+  it("ends activity at withdrawal or transfer and books settlements and extensions", () => {
+    const report = buildRegistrationAnalytics(
+      {
+        registrations: [
+          registration({ id: "w", withdrawnAt: "2026-04-01", retainedFee: 120000 }),
+          registration({
+            id: "from",
+            studentKey: "student:b",
+            transferToId: "to",
+            transferAt: "2026-03-30",
+          }),
+          registration({
+            id: "to",
+            studentKey: "student:b",
+            category: "영어",
+            course: "중등영어",
+            startDate: "2026-03-30",
+            transferFromId: "from",
+            settlementDifference: -20000,
+          }),
+        ],
+        extensions: [
+          { registrationId: "w", startDate: "2026-04-27", tuitionFee: 50000 },
+          { registrationId: "to", startDate: "2026-04-27", tuitionFee: 40000 },
+        ],
+      },
+      MONTH_QUERY
+    )
+
+    expect(report.totals).toEqual([
+      {
+        periodKey: "2026-03",
+        activeStudents: 2,
+        newEnrollments: 2,
+        returningEnrollments: 0,
+        withdrawals: 0,
+        transfers: 1,
+        revenue: 400000,
+      },
+      {
+        periodKey: "2026-04",
+        activeStudents: 1,
+        newEnrollments: 0,
+        returningEnrollments: 0,
+        withdrawals: 1,
+        transfers: 0,
+        revenue: 40000,
+      },
+    ])
+  })
+
+  it("does not book the copied tuition of a transfer without a settlement", () => {
+    const report = buildRegistrationAnalytics(
+      {
+        registrations: [
+          registration({ id: "from", transferToId: "to", transferAt: "2026-03-30" }),
+          registration({ id: "to", startDate: "2026-03-30", transferFromId: "from" }),
+        ],
+      },
+      MONTH_QUERY
+    )
+
+    expect(report.totals.map((row) => [row.periodKey, row.transfers, row.revenue])).toEqual([
+      ["2026-03", 1, 300000],
+      ["2026-04", 0, 0],
+    ])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  EXTENSION_MESSAGES,
+  findOverlappingExtension,
+  getExtensionCoverage,
+  getExtensionPeriod,
+  getExtensionRangeError,
+  getRegistrationWeekIndex,
+  normalizeExtensionPeriods,
+} from "@shared/registrationExtensions"
+
+const extensions = normalizeExtensionPeriods([
+  { id: "e2", startDate: "2026-04-27", weeks: 4 },
+  { id: "e1", startDate: "2026-03-30T00:00:00.000Z", weeks: 4 },
+  { id: "bad", startDate: "2026-05-01", weeks: 0 },
+  { id: "none", weeks: 2 },
+])
+
+describe("registrationExtensions", () => {
+  it("drops invalid extensions and sorts by start date", () => {
+    expect(extensions.map((ext) => ext.id)).toEqual(["e1", "e2"])
+    expect(extensions[0].startDate).toBe("2026-03-30")
+  })
+
+  it("spans weeks x 7 days from the start date", () => {
+    expect(getExtensionPeriod({ startDate: "2026-03-30", weeks: 4 })).toEqual({
+      startDate: "2026-03-30",
+      endDate: "2026-04-26",
+    })
+    expect(getExtensionPeriod({ startDate: "2026-03-30", weeks: 0 })).toBeNull()
+  })
+
+  it("finds overlapping extensions, ignoring the one being edited", () => {
+    expect(findOverlappingExtension(extensions, { startDate: "2026-04-20", weeks: 2 })?.id).toBe("e1")
+    expect(findOverlappingExtension(extensions, { startDate: "2026-03-30", weeks: 4 }, "e1")).toBeNull()
+    expect(findOverlappingExtension(extensions, { startDate: "2026-03-30", weeks: 5 }, "e1")?.id).toBe("e2")
+  })
+
+  it("validates start date, weeks and overlap", () => {
+    expect(getExtensionRangeError(extensions, { startDate: "", weeks: 4 }, "2026-03-02")).toBe(
+      EXTENSION_MESSAGES.invalidStartDate
+    )
+    expect(getExtensionRangeError(extensions, { startDate: "2026-05-25", weeks: 0 }, "2026-03-02")).toBe(
+      EXTENSION_MESSAGES.invalidWeeks
+    )
+    expect(getExtensionRangeError(extensions, { startDate: "2026-02-23", weeks: 1 }, "2026-03-02")).toBe(
+      EXTENSION_MESSAGES.beforeRegistrationStart
+    )
+    expect(getExtensionRangeError(extensions, { startDate: "2026-05-18", weeks: 2 }, "2026-03-02")).toBe(
+      EXTENSION_MESSAGES.overlap
+    )
+    expect(getExtensionRangeError(extensions, { startDate: "2026-05-25", weeks: 2 }, "2026-03-02")).toBe("")
+  })
+
+  it("covers up to the next extension or the registration end date", () => {
+    expect(getExtensionCoverage(extensions, extensions[0], "2026-05-31")).toEqual({
+      startDate: "2026-03-30",
+      endDate: "2026-04-26",
+    })
+    expect(getExtensionCoverage(extensions, extensions[1], "2026-05-31")).toEqual({
+      startDate: "2026-04-27",
+      endDate: "2026-05-31",
+    })
+    expect(getExtensionCoverage(extensions, extensions[1], null)?.endDate).toBe("2026-05-24")
+  })
+
+  it("counts registration weeks from the start week", () => {
+    expect(getRegistrationWeekIndex("2026-03-02", "2026-03-02")).toBe(1)
+    expect(getRegistrationWeekIndex("2026-03-02", "2026-03-30")).toBe(5)
+    expect(getRegistrationWeekIndex("2026-03-02", "")).toBe(0)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  HOLD_MESSAGES,
+  findHoldInRange,
+  getHoldBreakRanges,
+  getHoldRangeError,
+  getHoldWeekIndexes,
+  isOnHold,
+  normalizeRegistrationHolds,
+} from "@shared/registrationHolds"
+
+const holds = normalizeRegistrationHolds([
+  { id: "h2", startDate: "2026-05-04", endDate: null, reason: "여행" },
+  { id: "h1", startDate: "2026-03-16T00:00:00.000Z", endDate: "2026-03-22", reason: " 시험 기간 " },
+  { id: "bad", startDate: "2026-04-10", endDate: "2026-04-01" },
+  { id: "none" },
+])
+
+describe("registrationHolds", () => {
+  it("keeps valid holds in start order", () => {
+    expect(holds.map((hold) => hold.id)).toEqual(["h1", "h2"])
+    expect(holds[0]).toMatchObject({ startDate: "2026-03-16", endDate: "2026-03-22", reason: "시험 기간" })
+  })
+
+  it("treats an open-ended hold as ongoing from its start", () => {
+    expect(isOnHold(holds, "2026-03-18")).toBe(true)
+    expect(isOnHold(holds, "2026-03-23")).toBe(false)
+    expect(isOnHold(holds, "2027-01-01")).toBe(true)
+    expect(findHoldInRange(holds, "2026-03-22", "2026-03-28")?.id).toBe("h1")
+  })
+
+  it("only closes open-ended holds when an end is given", () => {
+    expect(getHoldBreakRanges(holds)).toEqual([{ startDate: "2026-03-16", endDate: "2026-03-22" }])
+    expect(getHoldBreakRanges(holds, "2026-05-31")).toHaveLength(2)
+  })
+
+  it("rejects overlapping holds but allows editing the same one", () => {
+    expect(getHoldRangeError(holds, { startDate: "2026-03-20", endDate: "2026-03-25" })).toBe(HOLD_MESSAGES.overlap)
+    expect(getHoldRangeError(holds, { startDate: "2026-06-01", endDate: null })).toBe(HOLD_MESSAGES.overlap)
+    expect(getHoldRangeError(holds, { startDate: "2026-03-15", endDate: "2026-03-25" }, "h1")).toBe("")
+    expect(getHoldRangeError(holds, { startDate: "2026-04-01", endDate: "2026-03-25" })).toBe(HOLD_MESSAGES.invalidEndDate)
+  })
+
+  it("counts only weeks whose class days fall on hold", () => {
+    const base = { startDate: "2026-03-02", weeks: 4, holds: holds.slice(0, 1) }
+    // 3/16(월)~3/22(일) 휴원: 월·수 수업이면 3주차가 빠진다
+    expect(getHoldWeekIndexes({ ...base, courseDays: [1, 3] })).toEqual([3])
+    // 이미 휴강으로 뺀 주는 다시 세지 않는다
+    expect(getHoldWeekIndexes({ ...base, courseDays: [1, 3], skipWeeks: [3] })).toEqual([])
+    // 수업 요일이 휴원 기간에 없으면 밀리지 않는다
+    const weekendHold = normalizeRegistrationHolds([{ id: "w", startDate: "2026-03-21", endDate: "2026-03-22" }])
+    expect(getHoldWeekIndexes({ ...base, holds: weekendHold, courseDays: [1, 3] })).toEqual([])
+  })
+
+  it("keeps counting holds that land in the extended weeks", () => {
+    const longHold = normalizeRegistrationHolds([{ id: "l", startDate: "2026-03-23", endDate: "2026-04-12" }])
+    expect(getHoldWeekIndexes({ startDate: "2026-03-02", weeks: 4, courseDays: [1], holds: longHold })).toEqual([4, 5, 6])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  REGISTRATION_LIST_DEFAULT_LIMIT,
+  REGISTRATION_LIST_MESSAGES,
+  buildRegistrationListQueryParams,
+  getRegistrationListStatus,
+  hasRegistrationListQuery,
+  isInRegistrationListWindow,
+  parseRegistrationListQuery,
+} from "@shared/registrationListQuery"
+
+describe("registrationListQuery", () => {
+  it("keeps the legacy full list when no query is given", () => {
+    expect(hasRegistrationListQuery({})).toBe(false)
+    expect(hasRegistrationListQuery({ search: "  " })).toBe(false)
+    expect(hasRegistrationListQuery({ limit: "50" })).toBe(true)
+  })
+
+  it("parses statuses, dates and the default limit", () => {
+    const { query, error } = parseRegistrationListQuery({
+      courseConfigSetName: " 2026 겨울 ",
+      status: "active,pending,active",
+      from: "2026-01-01",
+      to: "2026-02-28",
+    })
+    expect(error).toBe("")
+    expect(query).toMatchObject({
+      courseConfigSetName: "2026 겨울",
+      statuses: ["active", "pending"],
+      from: "2026-01-01",
+      to: "2026-02-28",
+      limit: REGISTRATION_LIST_DEFAULT_LIMIT,
+    })
+  })
+
+  it("rejects unknown statuses, bad dates, reversed ranges and bad limits", () => {
+    expect(parseRegistrationListQuery({ status: "paused" }).error).toBe(
+      REGISTRATION_LIST_MESSAGES.invalidStatus
+    )
+    expect(parseRegistrationListQuery({ from: "2026-13-40" }).error).toBe(
+      REGISTRATION_LIST_MESSAGES.invalidDate
+    )
+    expect(parseRegistrationListQuery({ from: "2026-03-01", to: "2026-02-01" }).error).toBe(
+      REGISTRATION_LIST_MESSAGES.invalidRange
+    )
+    expect(parseRegistrationListQuery({ limit: "0" }).error).toBe(
+      REGISTRATION_LIST_MESSAGES.invalidLimit
+    )
+  })
+
+  it("round-trips query params without empty values", () => {
+    const params = buildRegistrationListQueryParams({
+      category: "수학",
+      statuses: ["ended", "withdrawn"],
+      search: " 김 ",
+      limit: 200,
+    })
+    expect(params).toEqual({ category: "수학", status: "ended,withdrawn", search: "김", limit: "200" })
+    expect(parseRegistrationListQuery(params).query?.statuses).toEqual(["ended", "withdrawn"])
+  })
+
+  it("orders withdrawn and transferred before date-based statuses", () => {
+    const asOf = "2026-03-10"
+    expect(
+      getRegistrationListStatus({ startDate: "2026-03-01", endDate: "2026-03-30", withdrawnAt: "2026-03-05" }, asOf)
+    ).toBe("withdrawn")
+    expect(
+      getRegistrationListStatus({ startDate: "2026-03-01", endDate: "2026-03-30", transferToId: "r2" }, asOf)
+    ).toBe("transferred")
+    expect(getRegistrationListStatus({ startDate: "2026-03-11", endDate: "2026-04-30" }, asOf)).toBe("pending")
+    expect(getRegistrationListStatus({ startDate: "2026-02-01", endDate: "2026-03-09" }, asOf)).toBe("ended")
+    expect(getRegistrationListStatus({ startDate: "2026-03-10" }, asOf)).toBe("active")
+  })
+
+  it("matches registrations overlapping the date window", () => {
+    const row = { startDate: "2026-03-01", endDate: "2026-03-31" }
+    expect(isInRegistrationListWindow(row, "2026-03-31", "")).toBe(true)
+    expect(isInRegistrationListWindow(row, "2026-04-01", "")).toBe(false)
+    expect(isInRegistrationListWindow(row, "", "2026-02-28")).toBe(false)
+    expect(isInRegistrationListWindow({ startDate: "2026-01-01" }, "2026-06-01", "")).toBe(true)
+  })
+})
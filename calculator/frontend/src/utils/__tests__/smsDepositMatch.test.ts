@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  buildDepositorNameVariants,
+  combineMatchScores,
+  MATCH_STATUSES,
+  normalizeDepositStudentName,
+  resolveMatch,
+  scoreAmount,
+  scoreName,
+  scoreRecency,
+  type MatchCandidate,
+} from "@shared/smsDepositMatch"
+
+function candidate(id: string, score: number): MatchCandidate {
+  return {
+    registrationId: id,
+    registrationExtensionId: null,
+    name: "홍길동",
+    course: "중등수학 A",
+    fee: 300000,
+    referenceDate: "2026-10-01",
+    nameScore: 1,
+    amountScore: 1,
+    recencyScore: 1,
+    score,
+  }
+}
+
+describe("buildDepositorNameVariants", () => {
+  it("keeps the full name first and strips guardian suffixes", () => {
+    expect(buildDepositorNameVariants("홍길동어머니")).toEqual([
+      { value: "홍길동어머니", weight: 1 },
+      { value: "홍길동", weight: 0.95 },
+    ])
+  })
+
+  it("strips suffixes the bank cut short", () => {
+    expect(buildDepositorNameVariants("홍길동학")).toEqual([
+      { value: "홍길동학", weight: 1 },
+      { value: "홍길동", weight: 0.85 },
+    ])
+  })
+
+  it("ignores non-Korean characters and names shorter than two letters", () => {
+    expect(buildDepositorNameVariants("홍길동(KB)")[0]).toEqual({ value: "홍길동", weight: 1 })
+    expect(buildDepositorNameVariants("홍")).toEqual([])
+  })
+})
+
+describe("scoreName", () => {
+  it("drops the duplicate marker from the registration name", () => {
+    expect(normalizeDepositStudentName("홍길동A")).toBe("홍길동")
+    expect(scoreName("홍길동", "홍길동A")).toBe(1)
+  })
+
+  it("scores guardian suffixes, truncated names and given names lower than an exact match", () => {
+    expect(scoreName("홍길동엄마", "홍길동")).toBe(0.95)
+    expect(scoreName("홍길동학", "홍길동")).toBe(0.85)
+    expect(scoreName("홍길", "홍길동")).toBe(0.8)
+    expect(scoreName("길동", "홍길동")).toBe(0.6)
+    expect(scoreName("김철수", "홍길동")).toBe(0)
+  })
+})
+
+describe("scoreAmount / scoreRecency", () => {
+  it("scores exact and near amounts", () => {
+    expect(scoreAmount(300000, 300000)).toBe(1)
+    expect(scoreAmount(298000, 300000)).toBe(0.5)
+    expect(scoreAmount(250000, 300000)).toBe(0)
+    expect(scoreAmount(300000, null)).toBe(0)
+  })
+
+  it("fades from two weeks to 120 days", () => {
+    const start = new Date("2026-10-01T00:00:00Z")
+    expect(scoreRecency(new Date("2026-10-10T00:00:00Z"), start)).toBe(1)
+    expect(scoreRecency(new Date("2027-03-01T00:00:00Z"), start)).toBe(0)
+    expect(scoreRecency(new Date("2026-12-07T00:00:00Z"), start)).toBeCloseTo(0.5, 2)
+    expect(scoreRecency(start, null)).toBe(0)
+  })
+
+  it("weights name, amount and recency", () => {
+    expect(combineMatchScores({ nameScore: 1, amountScore: 1, recencyScore: 1 }).score).toBe(1)
+    expect(combineMatchScores({ nameScore: 1, amountScore: 0, recencyScore: 0 }).score).toBe(0.5)
+  })
+})
+
+describe("resolveMatch", () => {
+  it("matches a clear winner above the threshold", () => {
+    const result = resolveMatch([candidate("r1", 0.95), candidate("r2", 0.6)])
+    expect(result.matchStatus).toBe(MATCH_STATUSES.matched)
+    expect(result.registrationId).toBe("r1")
+  })
+
+  it("leaves close candidates ambiguous", () => {
+    const result = resolveMatch([candidate("r1", 0.9), candidate("r2", 0.85)])
+    expect(result.matchStatus).toBe(MATCH_STATUSES.ambiguous)
+    expect(result.registrationId).toBeNull()
+    expect(result.matchScore).toBe(0.9)
+  })
+
+  it("leaves weak or missing candidates unmatched", () => {
+    expect(resolveMatch([candidate("r1", 0.4)]).matchStatus).toBe(MATCH_STATUSES.unmatched)
+    expect(resolveMatch([])).toMatchObject({ matchStatus: MATCH_STATUSES.unmatched, matchScore: null })
+  })
+})
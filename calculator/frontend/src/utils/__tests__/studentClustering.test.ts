@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  clusterRegistrations,
+  findClusterConflicts,
+  getStudentNameKey,
+  normalizeStudentName,
+} from "@shared/studentClustering"
+
+describe("studentClustering", () => {
+  it("normalizes whitespace but keeps duplicate suffixes", () => {
+    expect(normalizeStudentName("  홍  길동 ")).toBe("홍 길동")
+    expect(getStudentNameKey("홍 길동")).toBe(getStudentNameKey("홍길동"))
+    expect(getStudentNameKey("홍길동A")).not.toBe(getStudentNameKey("홍길동"))
+  })
+
+  it("groups registrations by name and sorts them by start date", () => {
+    const clusters = clusterRegistrations([
+      { id: "r2", name: "홍길동", courseId: "sat", courseConfigSetName: "2026", startDate: "2026-03-01", endDate: "2026-04-01" },
+      { id: "r1", name: "홍 길동", courseId: "toefl", courseConfigSetName: "2026", startDate: "2026-01-01", endDate: "2026-02-01" },
+      { id: "r3", name: "김철수", courseId: "sat", courseConfigSetName: "2026", startDate: "2026-01-01" },
+      { id: "r4", name: " ", courseId: "sat" },
+    ])
+    expect(clusters.map((cluster) => cluster.name)).toEqual(["김철수", "홍 길동"])
+    expect(clusters[1].registrations.map((row) => row.id)).toEqual(["r1", "r2"])
+    expect(clusters[1].needsReview).toBe(false)
+  })
+
+  it("flags overlapping registrations of the same course", () => {
+    const rows = [
+      { id: "a", name: "홍길동", courseId: "sat", courseConfigSetName: "2026", startDate: "2026-03-01", endDate: "2026-04-30" },
+      { id: "b", name: "홍길동", courseId: "sat", courseConfigSetName: "2026", startDate: "2026-04-01", endDate: "2026-05-31" },
+      { id: "c", name: "홍길동", courseId: "sat", courseConfigSetName: "2026", startDate: "2026-06-01", endDate: "2026-06-30" },
+    ]
+    expect(findClusterConflicts(rows).sort()).toEqual(["a", "b"])
+
+    const [cluster] = clusterRegistrations([
+      ...rows,
+      { id: "z", name: "가나다", courseId: "sat", startDate: "2026-01-01" },
+    ])
+    expect(cluster.name).toBe("홍길동")
+    expect(cluster.needsReview).toBe(true)
+  })
+
+  it("does not flag a transfer chain as a conflict", () => {
+    expect(
+      findClusterConflicts([
+        { id: "a", name: "홍길동", courseId: "sat", startDate: "2026-03-01", endDate: "2026-04-30", transferToId: "b" },
+        { id: "b", name: "홍길동", courseId: "sat", startDate: "2026-04-01", endDate: "2026-05-31", transferFromId: "a" },
+      ])
+    ).toEqual([])
+  })
+})
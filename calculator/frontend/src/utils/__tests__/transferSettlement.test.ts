@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  TRANSFER_SETTLEMENT_MESSAGES,
+  buildTransferSettlement,
+  getTransferSettlementDirection,
+  getTransferSettlementError,
+  normalizeTransferSettlement,
+} from "@shared/transferSettlement"
+
+describe("transferSettlement", () => {
+  it("charges the difference when the new course costs more per week", () => {
+    expect(
+      buildTransferSettlement({ weeks: 4, previousWeeklyFee: 30000, nextWeeklyFee: 35000, discount: 0.1 })
+    ).toEqual({
+      weeks: 4,
+      previousWeeklyFee: 30000,
+      nextWeeklyFee: 35000,
+      discount: 0.1,
+      previousAmount: 108000,
+      nextAmount: 126000,
+      difference: 18000,
+    })
+  })
+
+  it("credits the student when the new course is cheaper", () => {
+    const settlement = buildTransferSettlement({ weeks: 3, previousWeeklyFee: 40000, nextWeeklyFee: 30000 })
+    expect(settlement?.difference).toBe(-30000)
+    expect(getTransferSettlementDirection(-30000)).toBe("credit")
+    expect(getTransferSettlementDirection(0)).toBe("even")
+  })
+
+  it("rejects invalid weeks and fees", () => {
+    expect(getTransferSettlementError({ weeks: 0, previousWeeklyFee: 1, nextWeeklyFee: 1 })).toBe(
+      TRANSFER_SETTLEMENT_MESSAGES.invalidWeeks
+    )
+    expect(getTransferSettlementError({ weeks: 2, previousWeeklyFee: -1, nextWeeklyFee: 1 })).toBe(
+      TRANSFER_SETTLEMENT_MESSAGES.invalidWeeklyFee
+    )
+    expect(buildTransferSettlement({ weeks: 2, previousWeeklyFee: 1.5, nextWeeklyFee: 1 })).toBeNull()
+  })
+
+  it("normalizes API values and recomputes the difference", () => {
+    expect(
+      normalizeTransferSettlement({ weeks: "2", previousAmount: 60000, nextAmount: 50000, difference: 999 })
+    ).toMatchObject({ weeks: 2, difference: -10000 })
+    expect(normalizeTransferSettlement(null)).toBeNull()
+    expect(normalizeTransferSettlement({ weeks: 0, previousAmount: 1, nextAmount: 1 })).toBeNull()
+  })
+})
@@ -1,20 +1,44 @@
 import { courseInfo, timeTable, recordingAvailable, getCourseName, weekdayName } from './data';
-import type { BreakRangeInput, CourseInfo, DailyFeeEntry, TimeTableDynamicOption } from './data';
-
-export const DAY_MS = 24 * 60 * 60 * 1000;
-
-/** 일 단위 요금 조회: 정확한 일수 매칭 → 없으면 1일 단가 × 일수 → 없으면 null */
-export function resolveDailyFee(dailyFees: DailyFeeEntry[], days: number): number | null {
-    if (days <= 0) return null;
-    const exact = dailyFees.find((f) => f.days === days);
-    if (exact) return exact.fee;
-    const unit = dailyFees.find((f) => f.days === 1);
-    if (unit) return unit.fee * days;
-    return null;
-}
-export const ALL_WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
-
-type DateInput = string | number | Date | null | undefined;
+import type { BreakRangeInput, TimeTableDynamicOption } from './data';
+import {
+    calculateCourseFee,
+    calculateRecordingFee,
+    calculateTotalDays,
+    getCourseBaseFee,
+    resolveDailyFee,
+} from '@shared/feeEngine';
+import {
+    ALL_WEEK_DAYS,
+    DAY_MS,
+    getBreakDateSet,
+    getBreakWeekSet,
+    getEndDate,
+    getScheduleWeeks,
+    getWeekIndex,
+    normalizeBreakRanges,
+    normalizeCourseDays,
+    normalizeSkipWeeks,
+    parseDateOnly,
+    resolveEndDay,
+    type DateInput,
+} from '@shared/courseSchedule';
+import { formatCourseNameWithLevel, getMissingCourseOptions } from '@shared/courseOptions';
+
+export { calculateRecordingFee, calculateTotalDays, resolveDailyFee };
+export {
+    ALL_WEEK_DAYS,
+    DAY_MS,
+    getBreakDateSet,
+    getBreakWeekSet,
+    getEndDate,
+    getScheduleWeeks,
+    getWeekIndex,
+    normalizeBreakRanges,
+    normalizeCourseDays,
+    normalizeSkipWeeks,
+    parseDateOnly,
+    resolveEndDay,
+};
 
 export function addDays(date: Date, days: number) {
     const d = new Date(date.getTime());
@@ -22,37 +46,6 @@ export function addDays(date: Date, days: number) {
     return d;
 }
 
-export function resolveEndDay(info: CourseInfo | null | undefined) {
-    const endDays = Array.isArray(info?.endDays) ? info.endDays : [];
-    if (endDays.length && Number.isInteger(endDays[0])) return endDays[0];
-    const endDay = info?.endDay;
-    if (Number.isInteger(endDay)) return endDay;
-    return 5;
-}
-
-type NormalizedBreakRange = {
-    start: Date;
-    end: Date;
-    startDate: string;
-    endDate: string;
-};
-
-type ScheduleWeeksOptions = {
-    startDate?: DateInput;
-    endDate?: DateInput;
-    durationWeeks?: number | string;
-    skipWeeks?: Array<number | string>;
-    courseDays?: Array<number | string>;
-    endDayOfWeek?: number | null;
-    breakRanges?: BreakRangeInput[];
-};
-
-type ScheduleWeeksResult = {
-    scheduleWeeks: number;
-    skipWeeks: number[];
-    breakWeekSet: Set<number>;
-};
-
 type CourseDetailsOptions = {
     courseKey: string;
     duration: number;
@@ -61,6 +54,7 @@ type CourseDetailsOptions = {
     satCampus?: string | null;
     dynamicTime?: string | null;
     courseType?: string | null;
+    level?: string | null;
     scheduleWeeks?: number | null;
     selectedDates?: string[];
 };
@@ -77,6 +71,7 @@ type SingleCourseInputs = {
     period: number;
     startDate?: string;
     courseType?: string;
+    // 레벨 옵션(options.level) 선택값. 저장된 견적 입력과 맞추려고 이름은 그대로 둔다
     drwLevel?: string;
     selectedSatCampus?: string;
     selectedDynamicTime?: string;
@@ -105,187 +100,12 @@ type CartItem = {
 
 type CartInputs = CalculateTotalFeeInputs & { studentName: string };
 
-export function parseDateOnly(value: DateInput) {
-    if (!value) return null;
-    if (value instanceof Date) {
-        if (Number.isNaN(value.getTime())) return null;
-        return new Date(value.getFullYear(), value.getMonth(), value.getDate());
-    }
-    const date = new Date(value);
-    if (Number.isNaN(date.getTime())) return null;
-    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
-}
-
-function formatDateOnly(date: Date | null | undefined) {
-    if (!(date instanceof Date) || Number.isNaN(date.getTime())) return '';
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-}
-
 export function formatDateWithWeekday(value: DateInput) {
     const date = parseDateOnly(value);
     if (!date) return '';
     return `${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}(${weekdayName[date.getDay()]})`;
 }
 
-export function getWeekIndex(start: DateInput, date: DateInput) {
-    const startDate = parseDateOnly(start);
-    const target = parseDateOnly(date);
-    if (!startDate || !target) return null;
-    const diffDays = Math.floor((target.getTime() - startDate.getTime()) / DAY_MS);
-    return Math.floor(diffDays / 7) + 1;
-}
-
-export function normalizeCourseDays(days: Array<number | string> | null | undefined) {
-    if (!Array.isArray(days)) return [];
-    return Array.from(
-        new Set(days.map((d) => Number(d)).filter((d) => Number.isInteger(d) && d >= 0 && d <= 6))
-    ).sort((a, b) => a - b);
-}
-
-export function normalizeBreakRanges(ranges: BreakRangeInput[] | null | undefined) {
-    if (!Array.isArray(ranges)) return [];
-    return ranges
-        .map((range) => {
-            const startRaw = range?.startDate ?? range?.start ?? '';
-            const endRaw = range?.endDate ?? range?.end ?? '';
-            const start = parseDateOnly(startRaw);
-            const end = parseDateOnly(endRaw);
-            if (!start || !end) return null;
-            const [s, e] = start <= end ? [start, end] : [end, start];
-            return { start: s, end: e, startDate: formatDateOnly(s), endDate: formatDateOnly(e) };
-        })
-        .filter((range): range is NormalizedBreakRange => Boolean(range))
-        .sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime());
-}
-
-export function getBreakDateSet(options: ScheduleWeeksOptions = {}) {
-    const { startDate, endDate, courseDays, breakRanges } = options;
-    const start = parseDateOnly(startDate);
-    const end = parseDateOnly(endDate);
-    if (!start || !end || start > end) return new Set<string>();
-
-    const normalizedBreaks = normalizeBreakRanges(breakRanges);
-    if (!normalizedBreaks.length) return new Set<string>();
-
-    const days = normalizeCourseDays(courseDays);
-    const daySet = new Set(days.length ? days : ALL_WEEK_DAYS);
-    const result = new Set<string>();
-
-    for (const range of normalizedBreaks) {
-        const rangeStart = range.start > start ? range.start : start;
-        const rangeEnd = range.end < end ? range.end : end;
-        if (rangeStart > rangeEnd) continue;
-
-        let cursor = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate());
-        while (cursor <= rangeEnd) {
-            if (daySet.has(cursor.getDay())) {
-                result.add(formatDateOnly(cursor));
-            }
-            cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
-        }
-    }
-
-    return result;
-}
-
-export function getBreakWeekSet(options: ScheduleWeeksOptions = {}) {
-    const { startDate, endDate, courseDays, breakRanges } = options;
-    const start = parseDateOnly(startDate);
-    if (!start) return new Set<number>();
-
-    const breakDates = getBreakDateSet({ startDate, endDate, courseDays, breakRanges });
-    const weeks = new Set<number>();
-
-    for (const dateKey of breakDates) {
-        const date = parseDateOnly(dateKey);
-        if (!date) continue;
-        const diffDays = Math.floor((date.getTime() - start.getTime()) / DAY_MS);
-        const weekIndex = Math.floor(diffDays / 7) + 1;
-        if (weekIndex >= 1) weeks.add(weekIndex);
-    }
-
-    return weeks;
-}
-
-function computeEndDateByWeeks(startDate: DateInput, durationWeeks: number | string, endDayOfWeek?: number | null) {
-    const start = parseDateOnly(startDate);
-    if (!start) return null;
-    const weeks = Number(durationWeeks);
-    if (!Number.isFinite(weeks) || weeks <= 0) return null;
-
-    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate());
-    end.setDate(end.getDate() + (weeks - 1) * 7);
-
-    const currentDay = end.getDay();
-    const targetDay = Number.isInteger(endDayOfWeek) ? Number(endDayOfWeek) : 5;
-
-    if (currentDay <= targetDay) {
-        end.setDate(end.getDate() + (targetDay - currentDay));
-    } else {
-        end.setDate(end.getDate() + (7 - currentDay + targetDay));
-    }
-
-    return end;
-}
-
-export function getScheduleWeeks(options: ScheduleWeeksOptions = {}): ScheduleWeeksResult {
-    const {
-        startDate,
-        durationWeeks,
-        skipWeeks = [],
-        courseDays = [],
-        endDayOfWeek,
-        breakRanges = []
-    } = options;
-    const baseWeeks = Number(durationWeeks);
-    if (!Number.isFinite(baseWeeks) || baseWeeks <= 0) {
-        return { scheduleWeeks: 0, skipWeeks: [], breakWeekSet: new Set<number>() };
-    }
-
-    const normalizedSkipWeeks = normalizeSkipWeeks(skipWeeks, baseWeeks);
-    const skipWeekSet = new Set(normalizedSkipWeeks);
-    let scheduleWeeks = baseWeeks + skipWeekSet.size;
-
-    const start = parseDateOnly(startDate);
-    const normalizedBreaks = normalizeBreakRanges(breakRanges);
-    if (!start || !normalizedBreaks.length) {
-        return { scheduleWeeks, skipWeeks: normalizedSkipWeeks, breakWeekSet: new Set<number>() };
-    }
-
-    const normalizedDays = normalizeCourseDays(courseDays);
-    const days = normalizedDays.length ? normalizedDays : ALL_WEEK_DAYS;
-    const endDay = Number.isInteger(endDayOfWeek) ? endDayOfWeek : 5;
-
-    let breakWeekSet = new Set<number>();
-    let prevBreakCount = -1;
-    for (let i = 0; i < 12; i += 1) {
-        const endDate = computeEndDateByWeeks(start, scheduleWeeks, endDay);
-        if (!endDate) break;
-
-        const nextBreakWeekSet = getBreakWeekSet({
-            startDate: start,
-            endDate,
-            courseDays: days,
-            breakRanges: normalizedBreaks
-        });
-        const nextBreakCount = Array.from(nextBreakWeekSet).filter((week) => !skipWeekSet.has(week)).length;
-
-        if (nextBreakCount === prevBreakCount) {
-            breakWeekSet = nextBreakWeekSet;
-            break;
-        }
-
-        prevBreakCount = nextBreakCount;
-        scheduleWeeks = baseWeeks + skipWeekSet.size + nextBreakCount;
-        breakWeekSet = nextBreakWeekSet;
-    }
-
-    return { scheduleWeeks, skipWeeks: normalizedSkipWeeks, breakWeekSet };
-}
-
 // Helper: Calculate end date for daily courses (N-th class day from start)
 export function computeEndDateByDays(startDate: DateInput, durationDays: number, courseDays: number[]) {
     const start = parseDateOnly(startDate);
@@ -306,46 +126,6 @@ export function computeEndDateByDays(startDate: DateInput, durationDays: number,
     return null;
 }
 
-// Helper: Calculate end date based on duration and allowed days
-export function getEndDate(startDate: DateInput, durationWeeks: number | string, endDayOfWeek?: number | null) {
-    return computeEndDateByWeeks(startDate, durationWeeks, endDayOfWeek);
-}
-
-export function normalizeSkipWeeks(skipWeeks: Array<number | string> | null | undefined, period: number | string) {
-    const paidWeeks = Number(period) || 0;
-    if (!Number.isFinite(paidWeeks) || paidWeeks <= 0) return [];
-
-    const raw = Array.isArray(skipWeeks) ? skipWeeks : [];
-    let cleaned = raw
-        .map((w) => Number(w))
-        .filter((w) => Number.isInteger(w) && w > 1);
-
-    cleaned = Array.from(new Set(cleaned));
-
-    let prevLen;
-    do {
-        prevLen = cleaned.length;
-        const maxWeek = paidWeeks + cleaned.length;
-        cleaned = cleaned.filter((w) => w <= maxWeek);
-    } while (cleaned.length !== prevLen);
-
-    return cleaned.sort((a, b) => a - b);
-}
-
-// Helper: Calculate total days considering week boundary crossing (e.g., Sat->Sun)
-export function calculateTotalDays(courseDays: number[], endDay: number | undefined, period: number): number {
-    if (!courseDays.length || period <= 0) return 0;
-
-    if (endDay !== undefined) {
-        // Use index-based calculation to handle week boundary crossing (e.g., days=[6,0], endDay=0)
-        const endDayIndex = courseDays.indexOf(endDay);
-        const daysInLastWeek = endDayIndex >= 0 ? endDayIndex + 1 : courseDays.length;
-        return (period > 1) ? (period - 1) * courseDays.length + daysInLastWeek : daysInLastWeek;
-    }
-
-    return period * courseDays.length;
-}
-
 // Helper: Get available recording dates based on start, duration, and allowed days
 export function getAvailableRecordingDates(
     startDateStr: string,
@@ -395,6 +175,7 @@ export function getCourseDetails({
     satCampus = null,
     dynamicTime = null,
     courseType = null, // '온라인' | '오프라인'
+    level = null,
     scheduleWeeks = null,
     selectedDates
 }: CourseDetailsOptions): CourseDetailsResult | null {
@@ -403,7 +184,6 @@ export function getCourseDetails({
 
     let timeStr = "";
     let durationStr = "";
-    let weeklyFee = Number(c.fee ?? 0);
 
     // Dynamic Options
     if (c.dynamicOptions) {
@@ -411,8 +191,6 @@ export function getCourseDetails({
             const dynamicCourseKey = c.dynamicOptions[satCampus];
             const dynamicCourse = dynamicCourseKey ? courseInfo[dynamicCourseKey] : undefined;
             if (dynamicCourse) {
-                weeklyFee = Number(dynamicCourse.fee ?? weeklyFee);
-
                 const dynamicName = dynamicCourse.name;
                 const tData =
                     (dynamicCourseKey ? timeTable[dynamicCourseKey] : undefined) ||
@@ -440,23 +218,8 @@ export function getCourseDetails({
         }
     }
 
-    if (excludeMath) {
-        if (c.mathExcludedFee) {
-            weeklyFee = c.mathExcludedFee;
-        } else if (['sat_1500', 'sat_1400', 'sat_bridge'].includes(courseKey)) {
-            weeklyFee -= 120000;
-        }
-    }
-
     const isDaily = c.durationUnit === "daily";
-    let totalFee: number;
-
-    if (isDaily) {
-        const dailyFees = Array.isArray(c.dailyFees) ? c.dailyFees : [];
-        totalFee = resolveDailyFee(dailyFees, duration) ?? 0;
-    } else {
-        totalFee = weeklyFee * duration;
-    }
+    const totalFee = getCourseBaseFee(courseInfo, { courseKey, period: duration, excludeMath, satCampus, courseType, level }) ?? 0;
 
     let rawStartDate: Date | null = null;
     let rawEndDate: Date | null = null;
@@ -552,21 +315,6 @@ export function getCourseDetails({
     return { durationStr, timeStr, totalFee, rawStartDate, rawEndDate };
 }
 
-// Logic: Calculate Recording Fee
-export function calculateRecordingFee(baseFee: number, totalDays: number, recordingDays: number, discount: number) {
-    const normalDays = totalDays - recordingDays;
-    const dailyFee = baseFee / totalDays;
-
-    const recordingCost = dailyFee * recordingDays * 0.4;
-    const normalCost = dailyFee * normalDays * (1 - discount);
-
-    return {
-        recording: Math.round(recordingCost),
-        normal: Math.round(normalCost),
-        total: Math.round(recordingCost + normalCost)
-    };
-}
-
 // Logic: Calculate Full Fee (Wrapper)
 export function calculateTotalFee(inputs: CalculateTotalFeeInputs): CalculateTotalFeeResult {
     const { mainCourseKey, discount, singleCourseInputs } = inputs;
@@ -583,12 +331,8 @@ export function calculateTotalFee(inputs: CalculateTotalFeeInputs): CalculateTot
     const courseDays = c.days || [1, 2, 3, 4, 5];
 
     let scheduleWeeks = 0;
-    let totalDays: number;
 
-    if (isDaily) {
-        totalDays = period;
-        scheduleWeeks = 0;
-    } else {
+    if (!isDaily) {
         const scheduleMeta = getScheduleWeeks({
             startDate: singleCourseInputs.startDate,
             durationWeeks: period,
@@ -599,11 +343,20 @@ export function calculateTotalFee(inputs: CalculateTotalFeeInputs): CalculateTot
         });
         const skipWeeks = scheduleMeta.skipWeeks || normalizeSkipWeeks(rawSkipWeeks, period);
         scheduleWeeks = scheduleMeta.scheduleWeeks || period + skipWeeks.length;
-        totalDays = calculateTotalDays(courseDays, endDay, period);
     }
 
-    if (recordingDays > 0 && recordingDays >= totalDays) {
-        return { totalFee: 0, error: "All days cannot be recording" };
+    const fee = calculateCourseFee(courseInfo, {
+        courseKey: mainCourseKey,
+        period,
+        discount,
+        excludeMath: singleCourseInputs.excludeMath,
+        satCampus: singleCourseInputs.selectedSatCampus,
+        courseType: singleCourseInputs.courseType,
+        level: singleCourseInputs.drwLevel,
+        recordingDays,
+    });
+    if (fee?.error) {
+        return { totalFee: 0, error: fee.error };
     }
 
     const details = getCourseDetails({
@@ -614,20 +367,14 @@ export function calculateTotalFee(inputs: CalculateTotalFeeInputs): CalculateTot
         satCampus: singleCourseInputs.selectedSatCampus,
         dynamicTime: singleCourseInputs.selectedDynamicTime,
         courseType: singleCourseInputs.courseType,
+        level: singleCourseInputs.drwLevel,
         scheduleWeeks: isDaily ? null : scheduleWeeks,
         selectedDates: singleCourseInputs.selectedDates
     });
 
     if (!details) return { totalFee: 0 };
 
-    let resultFee = 0;
-    if (recordingDays > 0 && totalDays > 0) {
-        resultFee = calculateRecordingFee(details.totalFee, totalDays, recordingDays, discount).total;
-    } else {
-        resultFee = Math.round(details.totalFee * (1 - discount));
-    }
-
-    return { totalFee: resultFee, details };
+    return { totalFee: fee?.totalFee ?? 0, details };
 }
 
 // React-friendly Helper: Create Cart Item Object
@@ -691,13 +438,10 @@ export function createCartItem(inputs: CartInputs, currentCart: CartItem[] = [])
         }
     }
 
-    if (['sat_1500', 'sat_1400', 'sat_bridge', 'toefl_l1', 'toefl_l2', 'dm_alg2'].includes(mainCourseKey) && !courseType) {
-        if (!validationErrors.includes('수업 형태를 선택하세요.')) validationErrors.push('수업 형태를 선택하세요.');
+    for (const message of getMissingCourseOptions(c.options, { courseType, level: drwLevel })) {
+        if (!validationErrors.includes(message)) validationErrors.push(message);
     }
 
-    if (['drw_morning', 'drw_a', 'drw_b'].includes(mainCourseKey) && !drwLevel)
-        validationErrors.push('레벨을 선택하세요.');
-
     const isDailyCart = c.durationUnit === "daily";
     const recordingDates = singleCourseInputs.recordingDates || [];
     const recordingDays = recordingDates.length;
@@ -791,6 +535,7 @@ export function createCartItem(inputs: CartInputs, currentCart: CartItem[] = [])
         satCampus: selectedSatCampus,
         dynamicTime: selectedDynamicTime,
         courseType: courseType,
+        level: drwLevel,
         scheduleWeeks: isDailyCart ? null : scheduleWeeks,
         selectedDates: singleCourseInputs.selectedDates
     });
@@ -798,30 +543,19 @@ export function createCartItem(inputs: CartInputs, currentCart: CartItem[] = [])
         throw new Error('과목 정보를 불러오지 못했습니다.');
     }
 
-    let finalFee = 0;
-    let normalFee = 0;
-    let recordingFee = 0;
-    const hasRecording = recordingDays > 0;
-
-    if (isDailyCart && hasRecording && totalDays > 0) {
-        const fees = calculateRecordingFee(details.totalFee, totalDays, recordingDays, discount);
-        normalFee = fees.normal;
-        recordingFee = fees.recording;
-        finalFee = fees.total;
-    } else if (isDailyCart) {
-        finalFee = Math.round(details.totalFee * (1 - discount));
-        normalFee = finalFee;
-        recordingFee = 0;
-    } else if (hasRecording) {
-        const fees = calculateRecordingFee(details.totalFee, totalDays, recordingDays, discount);
-        normalFee = fees.normal;
-        recordingFee = fees.recording;
-        finalFee = fees.total;
-    } else {
-        finalFee = Math.round(details.totalFee * (1 - discount));
-        normalFee = finalFee;
-        recordingFee = 0;
-    }
+    const fee = calculateCourseFee(courseInfo, {
+        courseKey: mainCourseKey,
+        period,
+        discount,
+        excludeMath: singleCourseInputs.excludeMath,
+        satCampus: selectedSatCampus,
+        courseType,
+        level: drwLevel,
+        recordingDays,
+    });
+    const finalFee = fee?.totalFee ?? 0;
+    const normalFee = fee?.normalFee ?? 0;
+    const recordingFee = fee?.recordingFee ?? 0;
 
     let displayCourseName = getCourseName(mainCourseKey);
 
@@ -834,11 +568,7 @@ export function createCartItem(inputs: CartInputs, currentCart: CartItem[] = [])
         displayCourseName += ' (' + selectedDynamicTime + ')';
     }
 
-    if (['drw_morning', 'drw_a', 'drw_b'].includes(mainCourseKey)) {
-        if (mainCourseKey === 'drw_morning') displayCourseName = `겨울특강 DRW 미주 ${drwLevel}`;
-        else if (mainCourseKey === 'drw_a') displayCourseName = `겨울특강 DRW ${drwLevel}A`;
-        else if (mainCourseKey === 'drw_b') displayCourseName = `겨울특강 DRW ${drwLevel}B`;
-    }
+    displayCourseName = formatCourseNameWithLevel(c.options, displayCourseName, drwLevel);
 
     const courseTypeLabel = String(courseType || '').trim();
     if (courseTypeLabel && !displayCourseName.includes(courseTypeLabel)) {
@@ -0,0 +1,130 @@
+import {
+  exceedsCapacity,
+  getClassSlotKey,
+  getSeatStatus,
+  toClassSlot,
+  type ClassSlot,
+  type SeatCount,
+  type SeatStatus,
+} from "@shared/classCapacity";
+
+export type CapacitySummary = {
+  capacities: Record<string, number>;
+  seats: SeatCount[];
+};
+
+export type CapacityOverflow = ClassSlot & {
+  index: number;
+  name: string;
+  course: string;
+  capacity: number;
+  taken: number;
+};
+
+export type CartSeatStatus = SeatStatus & {
+  /** 이 항목까지 넣으면 정원을 넘는지 */
+  overCapacity: boolean;
+  waiting: number;
+};
+
+type CartSeatItem = {
+  mainCourseKey: string;
+  singleCourseInputs: { courseType?: string; selectedDynamicTime?: string } & Record<string, unknown>;
+};
+
+export const EMPTY_CAPACITY_SUMMARY: CapacitySummary = { capacities: {}, seats: [] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/** GET /api/capacity 응답을 정리한다 */
+export function normalizeCapacitySummary(response: unknown): CapacitySummary {
+  if (!isRecord(response)) return EMPTY_CAPACITY_SUMMARY;
+  const capacities: Record<string, number> = {};
+  if (isRecord(response.capacities)) {
+    for (const [courseId, value] of Object.entries(response.capacities)) {
+      const capacity = Number(value);
+      if (Number.isFinite(capacity) && capacity > 0) capacities[courseId] = capacity;
+    }
+  }
+  const seats = (Array.isArray(response.seats) ? response.seats : [])
+    .filter(isRecord)
+    .map((seat) => ({
+      ...toClassSlot({
+        courseId: String(seat.courseId ?? ""),
+        courseType: String(seat.courseType ?? ""),
+        timeOption: String(seat.timeOption ?? ""),
+      }),
+      taken: Number(seat.taken) || 0,
+      waiting: Number(seat.waiting) || 0,
+    }));
+  return { capacities, seats };
+}
+
+export function getCartItemSlot(item: CartSeatItem): ClassSlot {
+  return toClassSlot({
+    courseId: item.mainCourseKey,
+    courseType: item.singleCourseInputs.courseType || "",
+    timeOption: item.singleCourseInputs.selectedDynamicTime || "",
+  });
+}
+
+/**
+ * 장바구니 항목별 반 자리 현황. 같은 반을 여러 번 담으면 앞 항목부터 자리를 차지한다.
+ * 정원이 없는 과목은 null.
+ */
+export function getCartSeatStatuses(items: CartSeatItem[], summary: CapacitySummary) {
+  const seatByKey = new Map(summary.seats.map((seat) => [getClassSlotKey(seat), seat]));
+  const addedByKey = new Map<string, number>();
+
+  return items.map((item): CartSeatStatus | null => {
+    const slot = getCartItemSlot(item);
+    const capacity = summary.capacities[slot.courseId] || 0;
+    if (!capacity) return null;
+    const key = getClassSlotKey(slot);
+    const seat = seatByKey.get(key);
+    const taken = seat?.taken ?? 0;
+    const added = addedByKey.get(key) ?? 0;
+    addedByKey.set(key, added + 1);
+    return {
+      ...getSeatStatus(slot, capacity, taken, added + 1),
+      overCapacity: exceedsCapacity(capacity, taken + added),
+      waiting: seat?.waiting ?? 0,
+    };
+  });
+}
+
+export function formatSeatStatusLabel(status: CartSeatStatus) {
+  if (status.overCapacity) {
+    return status.waiting > 0 ? `정원 마감 · 대기 ${status.waiting}명` : "정원 마감";
+  }
+  return `잔여 ${status.remaining}석`;
+}
+
+/** /api/students 409 응답의 정원 초과 목록. 정원 문제가 아니면 빈 배열 */
+export function getCapacityOverflows(error: unknown): CapacityOverflow[] {
+  const data = isRecord(error) && isRecord(error.data) ? error.data : null;
+  const overflows = data && Array.isArray(data.capacityOverflows) ? data.capacityOverflows : [];
+  return overflows.filter(isRecord).map((item) => ({
+    ...toClassSlot({
+      courseId: String(item.courseId ?? ""),
+      courseType: String(item.courseType ?? ""),
+      timeOption: String(item.timeOption ?? ""),
+    }),
+    index: Number(item.index),
+    name: String(item.name ?? ""),
+    course: String(item.course ?? ""),
+    capacity: Number(item.capacity) || 0,
+    taken: Number(item.taken) || 0,
+  }));
+}
+
+/** 저장 기록을 정원 초과분과 나머지로 나눈다 (index는 요청 배열 기준) */
+export function splitByCapacityOverflows<T>(records: T[], overflows: CapacityOverflow[]) {
+  const overflowIndexes = new Set(overflows.map((item) => item.index));
+  return {
+    overflowed: records.filter((_, index) => overflowIndexes.has(index)),
+    remaining: records.filter((_, index) => !overflowIndexes.has(index)),
+  };
+}
@@ -1,20 +1,10 @@
 import { courseInfo, type BreakRangeInput } from './data';
+import { isTextbookOption, TEXTBOOK_ACCOUNT, TUITION_ACCOUNT, type TextbookOption } from '@shared/tuitionNotice';
 import { addDays, ALL_WEEK_DAYS, formatDateWithWeekday, getEndDate, getScheduleWeeks, getWeekIndex, normalizeBreakRanges, normalizeCourseDays, normalizeSkipWeeks, parseDateOnly, resolveEndDay } from './calculatorLogic';
 
-export const TUITION_ACCOUNT = `⚠️주의사항⚠️
-✅ 계좌이체 시 **반드시 학생이름으로 입금** 부탁드립니다.
-🚫 부모님 성함으로 입금 시, 시스템상 입금 확인이 불가능하여 등록이 지연될 수 있습니다.
-✅ 납부 후, 현금영수증 발급받으실 휴대폰/사업자 번호를 알려주시기 바랍니다.
-[수강료 입금 계좌]
-신한은행 140-009-205058
-(예금주: 세한아카데미외국어학원)`;
-
-const TEXTBOOK_ACCOUNT = `[교재비 입금 계좌]
-신한은행 110-378-431090
-(예금주: 세한어학연구소)`;
+export { TUITION_ACCOUNT };
 
 type DateInput = string | number | Date | null | undefined;
-type TextbookOption = 'none' | 'tbd' | 'amount';
 type ScheduleInput = Parameters<typeof getScheduleWeeks>[0];
 
 type SingleCourseInputs = {
@@ -163,12 +153,6 @@ export function stripDuplicateSuffix(name: string | null | undefined) {
     return base;
 }
 
-const TEXTBOOK_OPTIONS = new Set(['none', 'tbd', 'amount']);
-
-function isTextbookOption(value: string): value is TextbookOption {
-    return TEXTBOOK_OPTIONS.has(value);
-}
-
 function resolveTextbookForItem(item: CartItem | null | undefined, fallback: TextbookFallback) {
     const rawOption = item?.textbookOption ?? fallback.option;
     const option: TextbookOption = isTextbookOption(rawOption) ? rawOption : 'none';
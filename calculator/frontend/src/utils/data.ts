@@ -1,4 +1,5 @@
 import { apiClient } from '../api-client';
+import type { CourseOptions } from '@shared/courseOptions';
 
 export type BreakRangeInput = {
   startDate?: string | Date | null;
@@ -23,6 +24,8 @@ export type CourseInfo = {
   name?: string;
   fee?: number;
   max?: number;
+  /** 반(시간·수업 형태)별 정원. 0이나 없음은 제한 없음 */
+  capacity?: number;
   mathExcludedFee?: number;
   textbook?: Record<string, unknown>;
   minDuration?: number;
@@ -39,6 +42,7 @@ export type CourseInfo = {
   days?: number[];
   startDays?: number[];
   breakRanges?: BreakRangeInput[];
+  options?: CourseOptions;
 };
 
 export type TimeTableDynamicOption = { label: string; time: string };
@@ -0,0 +1,74 @@
+import {
+  evaluateDiscountRules,
+  type AppliedDiscountRule,
+  type DiscountRule,
+  type DiscountRuleType,
+} from "@shared/discountEngine";
+
+export type DiscountInputs = {
+  rules: DiscountRule[];
+  hasSibling: boolean;
+  isReturningStudent: boolean;
+  couponCode: string;
+  registrationDate: string;
+};
+
+export type ItemDiscount = {
+  discount: number;
+  appliedDiscountRules: AppliedDiscountRule[];
+};
+
+/** 로컬 기준 오늘 날짜 (YYYY-MM-DD) */
+export function getLocalDateString(date = new Date()) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+export function hasDiscountRuleType(rules: DiscountRule[], type: DiscountRuleType) {
+  return rules.some((rule) => rule.type === type && rule.isActive !== false);
+}
+
+/**
+ * 계산기 과목 하나의 할인. 자동 모드면 규칙을 평가하고, 직접 지정이면 입력한 할인율만 쓴다.
+ */
+export function resolveItemDiscount({
+  courseKey,
+  courseCount,
+  autoDiscount,
+  manualDiscount,
+  inputs,
+}: {
+  courseKey: string;
+  courseCount: number;
+  autoDiscount: boolean;
+  manualDiscount: number;
+  inputs: DiscountInputs;
+}): ItemDiscount {
+  if (!autoDiscount) {
+    return { discount: Number(manualDiscount) || 0, appliedDiscountRules: [] };
+  }
+  const result = evaluateDiscountRules(inputs.rules, {
+    courseKey,
+    courseCount,
+    registrationDate: inputs.registrationDate,
+    hasSibling: inputs.hasSibling,
+    isReturningStudent: inputs.isReturningStudent,
+    couponCode: inputs.couponCode,
+  });
+  return { discount: result.discount, appliedDiscountRules: result.appliedRules };
+}
+
+export function isSameItemDiscount(a: ItemDiscount, b: ItemDiscount) {
+  if (a.discount !== b.discount) return false;
+  const aIds = a.appliedDiscountRules.map((rule) => rule.id).join("|");
+  const bIds = b.appliedDiscountRules.map((rule) => rule.id).join("|");
+  return aIds === bIds;
+}
+
+export function formatAppliedDiscountRules(rules: AppliedDiscountRule[]) {
+  return rules
+    .map((rule) => `${rule.name} ${Math.round(rule.rate * 10000) / 100}%`)
+    .join(", ");
+}
@@ -0,0 +1,57 @@
+import { buildQuotePayload, type QuoteCartItem } from "./quoteUtils";
+import { getLocalDateString } from "./discountUtils";
+
+export type InvoiceDocumentType = "quote" | "invoice";
+
+export const INVOICE_DOCUMENT_LABELS: Record<InvoiceDocumentType, string> = {
+  quote: "견적서",
+  invoice: "청구서",
+};
+
+/**
+ * 장바구니 견적서/청구서 PDF 요청 본문. 견적 저장과 같은 항목에 수업시간만 더한다.
+ * displayName은 문서에 찍을 이름(동명이인 구분 접미사를 뺀 이름)이다.
+ */
+export function buildInvoicePayload({
+  type,
+  studentName,
+  displayName = "",
+  courseConfigSetName,
+  cart,
+  isDailyCourse,
+}: {
+  type: InvoiceDocumentType;
+  studentName: string;
+  displayName?: string;
+  courseConfigSetName: string;
+  cart: QuoteCartItem[];
+  isDailyCourse: (courseKey: string) => boolean;
+}) {
+  const { items } = buildQuotePayload({ studentName, courseConfigSetName, cart, isDailyCourse });
+  return {
+    type,
+    studentName: displayName || studentName,
+    courseConfigSetName,
+    items: items.map((item, index) => ({
+      ...item,
+      timeStr: cart[index]?.details.timeStr || "",
+    })),
+  };
+}
+
+export function getInvoiceFilename(type: InvoiceDocumentType, studentName: string, date = new Date()) {
+  const safeName = String(studentName || "").trim().replace(/[\\/:*?"<>|]/g, "_");
+  return `${INVOICE_DOCUMENT_LABELS[type]}_${safeName}_${getLocalDateString(date)}.pdf`;
+}
+
+/** 받은 파일을 브라우저 다운로드로 저장한다 */
+export function saveBlobAsFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,312 @@
+/**
+ * 작은 QR 코드 생성기 (바이트 모드, 오류 정정 M, 버전 1~6).
+ * 학생 체크인 QR처럼 짧은 문자열(최대 106바이트)만 담는다.
+ * 버전 7부터는 버전 정보 영역이 따로 필요해 지원하지 않는다.
+ */
+
+export type QrMatrix = {
+  size: number;
+  /** [행][열], true가 검은 칸 */
+  modules: boolean[][];
+};
+
+type QrVersionSpec = {
+  ecPerBlock: number;
+  blocks: number[];
+  alignment: number[];
+};
+
+// 오류 정정 M 기준 블록 구성 (ISO/IEC 18004 표 9)
+const QR_VERSIONS: QrVersionSpec[] = [
+  { ecPerBlock: 10, blocks: [16], alignment: [] },
+  { ecPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { ecPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { ecPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { ecPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { ecPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+];
+
+const BYTE_MODE = 0b0100;
+const EC_LEVEL_M = 0b00;
+const PAD_BYTES = [0xec, 0x11];
+
+const GF_EXP: number[] = new Array(512);
+const GF_LOG: number[] = new Array(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i += 1) {
+    GF_EXP[i] = value;
+    GF_LOG[value] = i;
+    value <<= 1;
+    if (value & 0x100) value ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i += 1) GF_EXP[i] = GF_EXP[i - 255];
+})();
+
+function gfMultiply(a: number, b: number) {
+  return a && b ? GF_EXP[GF_LOG[a] + GF_LOG[b]] : 0;
+}
+
+/** 데이터 코드워드의 리드-솔로몬 오류 정정 코드워드 */
+export function computeQrErrorCorrection(data: number[], ecCount: number) {
+  let generator = [1];
+  for (let i = 0; i < ecCount; i += 1) {
+    const next = new Array(generator.length + 1).fill(0);
+    generator.forEach((coef, j) => {
+      next[j] ^= coef;
+      next[j + 1] ^= gfMultiply(coef, GF_EXP[i]);
+    });
+    generator = next;
+  }
+
+  const message = [...data, ...new Array(ecCount).fill(0)];
+  for (let i = 0; i < data.length; i += 1) {
+    const coef = message[i];
+    if (!coef) continue;
+    generator.forEach((value, j) => {
+      message[i + j] ^= gfMultiply(value, coef);
+    });
+  }
+  return message.slice(data.length);
+}
+
+/** 오류 정정 M + 마스크 번호의 15비트 형식 정보 */
+export function getQrFormatBits(mask: number) {
+  const data = (EC_LEVEL_M << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+function getDataCapacity(spec: QrVersionSpec) {
+  return spec.blocks.reduce((sum, count) => sum + count, 0);
+}
+
+function buildDataCodewords(bytes: Uint8Array, capacity: number) {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >> i) & 1);
+  };
+  push(BYTE_MODE, 4);
+  push(bytes.length, 8);
+  bytes.forEach((byte) => push(byte, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  while (bits.length % 8) bits.push(0);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((value, bit) => (value << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity; i += 1) codewords.push(PAD_BYTES[i % 2]);
+  return codewords;
+}
+
+function interleave(spec: QrVersionSpec, data: number[]) {
+  const dataBlocks: number[][] = [];
+  let offset = 0;
+  for (const count of spec.blocks) {
+    dataBlocks.push(data.slice(offset, offset + count));
+    offset += count;
+  }
+  const ecBlocks = dataBlocks.map((block) => computeQrErrorCorrection(block, spec.ecPerBlock));
+
+  const result: number[] = [];
+  const maxData = Math.max(...spec.blocks);
+  for (let i = 0; i < maxData; i += 1) {
+    dataBlocks.forEach((block) => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecPerBlock; i += 1) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+}
+
+function createGrid(size: number) {
+  return Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+}
+
+function drawFunctionPatterns(version: number, spec: QrVersionSpec, modules: boolean[][], reserved: boolean[][]) {
+  const size = modules.length;
+  const set = (row: number, col: number, dark: boolean) => {
+    if (row < 0 || col < 0 || row >= size || col >= size) return;
+    modules[row][col] = dark;
+    reserved[row][col] = true;
+  };
+
+  for (const [top, left] of [[0, 0], [0, size - 7], [size - 7, 0]]) {
+    for (let r = -1; r <= 7; r += 1) {
+      for (let c = -1; c <= 7; c += 1) {
+        const ring = Math.max(Math.abs(r - 3), Math.abs(c - 3));
+        set(top + r, left + c, ring !== 2 && ring !== 4);
+      }
+    }
+  }
+
+  for (let i = 8; i < size - 8; i += 1) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+
+  const last = spec.alignment.length - 1;
+  spec.alignment.forEach((row, i) => {
+    spec.alignment.forEach((col, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let r = -2; r <= 2; r += 1) {
+        for (let c = -2; c <= 2; c += 1) set(row + r, col + c, Math.max(Math.abs(r), Math.abs(c)) !== 1);
+      }
+    });
+  });
+
+  // 형식 정보 자리 예약 (마스크를 고른 뒤 채운다)
+  drawFormatBits(modules, reserved, 0);
+  set(4 * version + 9, 8, true);
+}
+
+function drawFormatBits(modules: boolean[][], reserved: boolean[][], mask: number) {
+  const size = modules.length;
+  const bits = getQrFormatBits(mask);
+  const bit = (i: number) => ((bits >> i) & 1) === 1;
+  const set = (row: number, col: number, dark: boolean) => {
+    modules[row][col] = dark;
+    reserved[row][col] = true;
+  };
+
+  for (let i = 0; i <= 5; i += 1) set(i, 8, bit(i));
+  set(7, 8, bit(6));
+  set(8, 8, bit(7));
+  set(8, 7, bit(8));
+  for (let i = 9; i < 15; i += 1) set(8, 14 - i, bit(i));
+
+  for (let i = 0; i < 8; i += 1) set(8, size - 1 - i, bit(i));
+  for (let i = 8; i < 15; i += 1) set(size - 15 + i, 8, bit(i));
+  set(size - 8, 8, true);
+}
+
+function drawCodewords(codewords: number[], modules: boolean[][], reserved: boolean[][]) {
+  const size = modules.length;
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert += 1) {
+      const row = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j += 1) {
+        const col = right - j;
+        if (reserved[row][col]) continue;
+        if (index < codewords.length * 8) {
+          modules[row][col] = ((codewords[index >> 3] >> (7 - (index & 7))) & 1) === 1;
+          index += 1;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_r, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+function applyMask(modules: boolean[][], reserved: boolean[][], mask: number) {
+  return modules.map((line, r) => line.map((dark, c) => (reserved[r][c] ? dark : dark !== MASKS[mask](r, c))));
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+/** 마스크 선택용 벌점 (ISO/IEC 18004 7.8.3) */
+function getPenalty(modules: boolean[][]) {
+  const size = modules.length;
+  const lines: boolean[][] = [
+    ...modules,
+    ...modules.map((_, c) => modules.map((line) => line[c])),
+  ];
+  let penalty = 0;
+
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+        continue;
+      }
+      if (run >= 5) penalty += 3 + (run - 5);
+      run = 1;
+    }
+    for (let i = 0; i + 11 <= size; i += 1) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) penalty += 40;
+    }
+  }
+
+  for (let r = 0; r < size - 1; r += 1) {
+    for (let c = 0; c < size - 1; c += 1) {
+      const dark = modules[r][c];
+      if (dark === modules[r][c + 1] && dark === modules[r + 1][c] && dark === modules[r + 1][c + 1]) penalty += 3;
+    }
+  }
+
+  const total = size * size;
+  const dark = modules.reduce((sum, line) => sum + line.filter(Boolean).length, 0);
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+}
+
+/** 문자열을 QR 행렬로 만든다. 담을 수 없을 만큼 길면 null */
+export function encodeQrCode(text: string): QrMatrix | null {
+  const bytes = new TextEncoder().encode(text);
+  const versionIndex = QR_VERSIONS.findIndex((spec) => getDataCapacity(spec) * 8 >= 12 + bytes.length * 8);
+  if (versionIndex < 0) return null;
+
+  const version = versionIndex + 1;
+  const spec = QR_VERSIONS[versionIndex];
+  const size = 17 + version * 4;
+  const modules = createGrid(size);
+  const reserved = createGrid(size);
+  drawFunctionPatterns(version, spec, modules, reserved);
+  drawCodewords(interleave(spec, buildDataCodewords(bytes, getDataCapacity(spec))), modules, reserved);
+
+  let best: boolean[][] | null = null;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const masked = applyMask(modules, reserved, mask);
+    drawFormatBits(masked, createGrid(size), mask);
+    const penalty = getPenalty(masked);
+    if (penalty < bestPenalty) {
+      best = masked;
+      bestPenalty = penalty;
+    }
+  }
+  return best ? { size, modules: best } : null;
+}
+
+/** 검은 칸을 SVG path로. margin은 둘레 여백 칸 수 (표준 권장 4) */
+export function buildQrSvgPath(matrix: QrMatrix, margin = 4) {
+  const parts: string[] = [];
+  matrix.modules.forEach((line, row) => {
+    line.forEach((dark, col) => {
+      if (dark) parts.push(`M${col + margin},${row + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join("");
+}
+
+/** 저장·인쇄용 SVG 문서 */
+export function buildQrSvg(matrix: QrMatrix, { margin = 4, scale = 8 }: { margin?: number; scale?: number } = {}) {
+  const size = matrix.size + margin * 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size * scale}" height="${size * scale}" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">`,
+    `<rect width="${size}" height="${size}" fill="#fff"/>`,
+    `<path d="${buildQrSvgPath(matrix, margin)}" fill="#000"/>`,
+    "</svg>",
+  ].join("");
+}
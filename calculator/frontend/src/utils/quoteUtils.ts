@@ -0,0 +1,220 @@
+export const QUOTE_STATUS_LABELS: Record<string, string> = {
+  open: "견적",
+  converted: "등록 완료",
+  expired: "기간 만료",
+};
+
+type QuoteCartInputs = {
+  startDate?: string;
+  period: number;
+  skipWeeks?: number[];
+  selectedDates?: string[];
+  excludeMath?: boolean;
+  selectedSatCampus?: string;
+  courseType?: string;
+  selectedDynamicTime?: string;
+  drwLevel?: string;
+} & Record<string, unknown>;
+
+export type QuoteCartItem = {
+  mainCourseKey: string;
+  discount: number;
+  singleCourseInputs: QuoteCartInputs;
+  selectedRecordingDates: string[];
+  displayCourseName: string;
+  finalFee: number;
+  normalFee: number;
+  recordingFee: number;
+  appliedDiscountRules?: Array<{ id: string }>;
+  details: {
+    durationStr: string;
+    timeStr?: string;
+    rawStartDate: Date | string | null;
+    rawEndDate: Date | string | null;
+  };
+};
+
+export type RegistrationRecord = {
+  name: string;
+  course: string;
+  courseId: string;
+  courseConfigSetName: string;
+  startDate: string;
+  endDate: string;
+  weeks: number;
+  durationUnit: "daily" | "weekly";
+  skipWeeks: number[];
+  selectedDates: string[];
+  excludeMath: boolean;
+  satCampus: string;
+  courseType: string;
+  timeOption: string;
+  level: string;
+  recordingDates: string[];
+  tuitionFee: number | null;
+  discount: number;
+  appliedDiscountRuleIds: string[];
+  /** 학생 탭의 학생 id. 선택하지 않으면 이름만으로 저장 */
+  studentId?: string;
+};
+
+export type SavedQuoteItem = {
+  record: RegistrationRecord;
+  inputs: QuoteCartInputs;
+  displayCourseName: string;
+  durationStr: string;
+  finalFee: number;
+  normalFee: number;
+  recordingFee: number;
+};
+
+export type SavedQuote = {
+  id: string;
+  studentName: string;
+  courseConfigSetName: string;
+  items: SavedQuoteItem[];
+  totalFee: number;
+  status: "open" | "converted" | string;
+  expired: boolean;
+  memo: string;
+  expiresAt: string;
+  createdBy: string;
+  convertedAt: string;
+  convertedBy: string;
+  registrationIds: string[];
+  createdAt: string;
+};
+
+export type QuoteComparisonRow = {
+  course: string;
+  fees: Array<number | null>;
+};
+
+function toDateOnly(value: Date | string | null | undefined) {
+  if (!value) return "";
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * 계산기 장바구니 항목을 /api/students 등록 기록으로 바꾼다.
+ */
+export function buildRegistrationRecord(
+  item: QuoteCartItem,
+  {
+    studentName,
+    courseConfigSetName,
+    isDaily,
+    studentId = "",
+  }: { studentName: string; courseConfigSetName: string; isDaily: boolean; studentId?: string }
+): RegistrationRecord {
+  const inputs = item.singleCourseInputs;
+  const sortedSelDates = [...(inputs.selectedDates || [])].sort();
+
+  return {
+    name: studentName,
+    course: item.displayCourseName,
+    courseId: item.mainCourseKey,
+    courseConfigSetName,
+    startDate: isDaily
+      ? sortedSelDates[0] || ""
+      : toDateOnly(item.details.rawStartDate) || inputs.startDate || "",
+    endDate: isDaily
+      ? sortedSelDates[sortedSelDates.length - 1] || ""
+      : toDateOnly(item.details.rawEndDate),
+    weeks: inputs.period,
+    durationUnit: isDaily ? "daily" : "weekly",
+    skipWeeks: isDaily ? [] : inputs.skipWeeks || [],
+    selectedDates: isDaily ? sortedSelDates : [],
+    excludeMath: !!inputs.excludeMath,
+    satCampus: inputs.selectedSatCampus || "",
+    // 서버 수강료 검증에서 옵션 가감액을 다시 계산할 때 쓴다
+    courseType: inputs.courseType || "",
+    // 정원은 과목·시간·수업 형태별 반 단위로 센다
+    timeOption: inputs.selectedDynamicTime || "",
+    level: inputs.drwLevel || "",
+    recordingDates: item.selectedRecordingDates,
+    tuitionFee: Number.isFinite(item.finalFee) ? Math.round(item.finalFee) : null,
+    discount: Number(item.discount || 0),
+    appliedDiscountRuleIds: (item.appliedDiscountRules || []).map((rule) => rule.id),
+    ...(studentId ? { studentId } : {}),
+  };
+}
+
+/**
+ * 견적 저장 요청 본문. 항목마다 등록 전환용 record와 계산기 재오픈용 inputs를 함께 담는다.
+ */
+export function buildQuotePayload({
+  studentName,
+  courseConfigSetName,
+  cart,
+  isDailyCourse,
+  memo = "",
+}: {
+  studentName: string;
+  courseConfigSetName: string;
+  cart: QuoteCartItem[];
+  isDailyCourse: (courseKey: string) => boolean;
+  memo?: string;
+}) {
+  return {
+    studentName,
+    courseConfigSetName,
+    memo,
+    items: cart.map((item) => ({
+      record: buildRegistrationRecord(item, {
+        studentName,
+        courseConfigSetName,
+        isDaily: isDailyCourse(item.mainCourseKey),
+      }),
+      inputs: { ...item.singleCourseInputs },
+      displayCourseName: item.displayCourseName,
+      durationStr: item.details.durationStr,
+      finalFee: item.finalFee,
+      normalFee: item.normalFee,
+      recordingFee: item.recordingFee,
+    })),
+  };
+}
+
+export function getQuoteStatusKey(quote: Pick<SavedQuote, "status" | "expired">) {
+  if (quote.status === "converted") return "converted";
+  return quote.expired ? "expired" : "open";
+}
+
+export function getQuoteStatusLabel(quote: Pick<SavedQuote, "status" | "expired">) {
+  return QUOTE_STATUS_LABELS[getQuoteStatusKey(quote)];
+}
+
+export function canConvertQuote(quote: Pick<SavedQuote, "status" | "expired">) {
+  return getQuoteStatusKey(quote) === "open";
+}
+
+/**
+ * 견적 비교표: 과목별로 견적마다 금액을 나란히 놓는다. 없는 과목은 null.
+ */
+export function buildQuoteComparison(quotes: Pick<SavedQuote, "items">[]): QuoteComparisonRow[] {
+  const courses: string[] = [];
+  quotes.forEach((quote) => {
+    quote.items.forEach((item) => {
+      if (!courses.includes(item.displayCourseName)) courses.push(item.displayCourseName);
+    });
+  });
+
+  return courses.map((course) => ({
+    course,
+    fees: quotes.map((quote) => {
+      const matches = quote.items.filter((item) => item.displayCourseName === course);
+      if (!matches.length) return null;
+      return matches.reduce((sum, item) => sum + (Number(item.record?.tuitionFee ?? item.finalFee) || 0), 0);
+    }),
+  }));
+}
+
+export function formatQuoteDate(value: string) {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString("ko-KR");
+}
@@ -1,5 +1,5 @@
 import path from "path"
-import { defineConfig } from "vite"
+import { defineConfig, searchForWorkspaceRoot } from "vite"
 import react from "@vitejs/plugin-react"
 import tailwindcss from "@tailwindcss/vite"
 
@@ -13,6 +13,8 @@ export default defineConfig({
     resolve: {
         alias: {
             "@": path.resolve(__dirname, "./src"),
+            // 백엔드와 같이 쓰는 순수 계산 모듈 (수강료 엔진 등)
+            "@shared": path.resolve(__dirname, "../backend/shared"),
         },
         dedupe: ["react", "react-dom"],
     },
@@ -38,6 +40,9 @@ export default defineConfig({
         chunkSizeWarningLimit: 1000,
     },
     server: {
+        fs: {
+            allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, "../backend/shared")],
+        },
         proxy: {
             "/api": {
                 target: devProxyTarget,